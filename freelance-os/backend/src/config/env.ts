@@ -18,6 +18,9 @@ const envSchema = z.object({
   // Frontend
   FRONTEND_URL: z.string().url().default('http://localhost:5173'),
   
+  // URL publique de l'API (liens envoyés aux clients)
+  PUBLIC_URL: z.string().url().default('http://localhost:3000'),
+  
   // Email (Nodemailer)
   SMTP_HOST: z.string().optional(),
   SMTP_PORT: z.coerce.number().optional(),
@@ -40,7 +43,12 @@ const envSchema = z.object({
   BCRYPT_ROUNDS: z.coerce.number().default(12),
   
   // PDF Generation
-  PUPPETEER_EXECUTABLE_PATH: z.string().optional()
+  PUPPETEER_EXECUTABLE_PATH: z.string().optional(),
+  
+  // Taux de change des factures en devise
+  EXCHANGE_RATE_PROVIDER: z.enum(['ecb', 'file', 'manual']).default('ecb'),
+  EXCHANGE_RATES_FILE: z.string().default('./exchange-rates.json'),
+  EXCHANGE_RATES: z.string().default('')
 })
 
 const env = envSchema.safeParse(process.env)
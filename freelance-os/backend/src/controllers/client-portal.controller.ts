@@ -0,0 +1,287 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { ClientPortalService } from '@/services/client-portal.service';
+import {
+  RequestPortalLinkSchema,
+  VerifyPortalLinkSchema,
+  UploadRemittanceProofSchema
+} from '@/types/client-portal.types';
+import { PortalScope } from '@/utils/client-portal';
+import { PortalRequest } from '@/middleware/portal-auth.middleware';
+import { logger } from '@/utils/logger';
+import { prisma } from '@/utils/database';
+import { getAuditContext } from '@/utils/audit-log';
+
+// Instance du service
+const clientPortalService = new ClientPortalService(prisma);
+
+// Helper pour récupérer le client connecté au portail
+const getPortalClient = (request: FastifyRequest): PortalScope => {
+  const scope = (request as PortalRequest).portalClient;
+  if (!scope) {
+    throw new Error('Client non authentifié');
+  }
+  return scope;
+};
+
+// Helper pour valider l'ID du document demandé
+const getDocumentId = (request: FastifyRequest): string | null => {
+  const { id } = request.params as { id: string };
+  return id && id.length >= 10 ? id : null;
+};
+
+const sendInvalidId = (reply: FastifyReply) => reply.status(400).send({
+  error: 'ID invalide',
+  message: 'L\'ID du document est requis et doit être valide',
+});
+
+// Réponse d'erreur commune aux contrôleurs du portail
+const sendPortalError = (reply: FastifyReply, error: unknown, fallbackMessage: string) => {
+  if (error instanceof z.ZodError) {
+    return reply.status(400).send({
+      error: 'Données invalides',
+      message: error.errors.map(e => e.message).join(', '),
+    });
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('introuvable')) {
+      return reply.status(404).send({
+        error: 'Ressource introuvable',
+        message: error.message,
+      });
+    }
+
+    if (error.message.includes('Invalid token')) {
+      return reply.status(401).send({
+        error: 'Lien invalide',
+        message: error.message,
+      });
+    }
+
+    if (error.message.includes('Invalid')) {
+      return reply.status(400).send({
+        error: 'Données invalides',
+        message: error.message,
+      });
+    }
+  }
+
+  return reply.status(500).send({
+    error: 'Erreur serveur',
+    message: fallbackMessage,
+  });
+};
+
+// ============================================================================
+// CONNEXION
+// ============================================================================
+
+/**
+ * Demander un lien de connexion (réponse identique que l'adresse soit connue ou non)
+ */
+export const requestPortalLink = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const { email } = RequestPortalLinkSchema.parse(request.body);
+
+    await clientPortalService.requestMagicLink(email, getAuditContext(request));
+
+    reply.status(202).send({
+      message: 'Si cette adresse a accès à un espace client, un lien de connexion vient de lui être envoyé',
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur requestPortalLink', {
+      ip: request.ip,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendPortalError(reply, error, 'Impossible d\'envoyer le lien de connexion');
+  }
+};
+
+/**
+ * Échanger un lien de connexion contre une session portail
+ */
+export const verifyPortalLink = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const { token } = VerifyPortalLinkSchema.parse(request.body);
+
+    const session = await clientPortalService.verifyMagicLink(token, getAuditContext(request));
+
+    reply.send({ session });
+  } catch (error) {
+    logger.error('Erreur contrôleur verifyPortalLink', {
+      ip: request.ip,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendPortalError(reply, error, 'Impossible de vérifier le lien de connexion');
+  }
+};
+
+// ============================================================================
+// ESPACE CLIENT
+// ============================================================================
+
+/**
+ * Synthèse de l'espace client : reste dû et devis en attente
+ */
+export const getPortalOverview = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const overview = await clientPortalService.getOverview(getPortalClient(request));
+
+    reply.send({ overview });
+  } catch (error) {
+    logger.error('Erreur contrôleur getPortalOverview', {
+      clientId: getPortalClient(request).clientId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendPortalError(reply, error, 'Impossible de récupérer l\'espace client');
+  }
+};
+
+/**
+ * Factures et avoirs du client
+ */
+export const listPortalInvoices = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const invoices = await clientPortalService.listInvoices(getPortalClient(request));
+
+    reply.send({ invoices });
+  } catch (error) {
+    logger.error('Erreur contrôleur listPortalInvoices', {
+      clientId: getPortalClient(request).clientId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendPortalError(reply, error, 'Impossible de récupérer les factures');
+  }
+};
+
+/**
+ * Télécharger le PDF d'une facture
+ */
+export const downloadPortalInvoicePdf = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getDocumentId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const pdf = await clientPortalService.getInvoicePdf(getPortalClient(request), id);
+
+    reply
+      .type('application/pdf')
+      .header('Content-Disposition', `attachment; filename="${pdf.fileName}"`)
+      .send(pdf.content);
+  } catch (error) {
+    logger.error('Erreur contrôleur downloadPortalInvoicePdf', {
+      clientId: getPortalClient(request).clientId,
+      invoiceId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendPortalError(reply, error, 'Impossible de générer le PDF');
+  }
+};
+
+/**
+ * Devis du client
+ */
+export const listPortalQuotes = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const quotes = await clientPortalService.listQuotes(getPortalClient(request));
+
+    reply.send({ quotes });
+  } catch (error) {
+    logger.error('Erreur contrôleur listPortalQuotes', {
+      clientId: getPortalClient(request).clientId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendPortalError(reply, error, 'Impossible de récupérer les devis');
+  }
+};
+
+/**
+ * Télécharger le PDF d'un devis
+ */
+export const downloadPortalQuotePdf = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getDocumentId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const pdf = await clientPortalService.getQuotePdf(getPortalClient(request), id);
+
+    reply
+      .type('application/pdf')
+      .header('Content-Disposition', `attachment; filename="${pdf.fileName}"`)
+      .send(pdf.content);
+  } catch (error) {
+    logger.error('Erreur contrôleur downloadPortalQuotePdf', {
+      clientId: getPortalClient(request).clientId,
+      quoteId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendPortalError(reply, error, 'Impossible de générer le PDF');
+  }
+};
+
+/**
+ * Justificatifs de virement déposés
+ */
+export const listPortalRemittanceProofs = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const proofs = await clientPortalService.listRemittanceProofs(getPortalClient(request));
+
+    reply.send({ proofs });
+  } catch (error) {
+    logger.error('Erreur contrôleur listPortalRemittanceProofs', {
+      clientId: getPortalClient(request).clientId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendPortalError(reply, error, 'Impossible de récupérer les justificatifs');
+  }
+};
+
+/**
+ * Déposer un justificatif de virement sur une facture
+ */
+export const uploadRemittanceProof = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getDocumentId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const validData = UploadRemittanceProofSchema.parse(request.body);
+
+    const proof = await clientPortalService.uploadRemittanceProof(
+      getPortalClient(request),
+      id,
+      validData,
+      getAuditContext(request)
+    );
+
+    reply.status(201).send({
+      message: 'Justificatif déposé avec succès',
+      proof,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur uploadRemittanceProof', {
+      clientId: getPortalClient(request).clientId,
+      invoiceId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendPortalError(reply, error, 'Impossible de déposer le justificatif');
+  }
+};
@@ -1,5 +1,7 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
 import { ClientService } from '@/services/client.service';
+import { ClientPortalService } from '@/services/client-portal.service';
 import { 
   CreateClientSchema,
   UpdateClientSchema, 
@@ -8,11 +10,14 @@ import {
   UpdateClientInput,
   ClientQueryParams
 } from '@/types/client.types';
+import { UpdatePortalAccessSchema } from '@/types/client-portal.types';
 import { logger } from '@/utils/logger';
 import { prisma } from '@/utils/database';
+import { getAuditContext } from '@/utils/audit-log';
 
-// Instance du service
+// Instances des services
 const clientService = new ClientService(prisma);
+const clientPortalService = new ClientPortalService(prisma);
 
 // ============================================================================
 // TYPES POUR LES REQUÊTES
@@ -295,3 +300,134 @@ export const getClientsStats = async (request: FastifyRequest, reply: FastifyRep
     });
   }
 };
+
+// ============================================================================
+// PORTAIL CLIENT
+// ============================================================================
+
+// Réponse d'erreur commune aux contrôleurs du portail
+const sendPortalAccessError = (reply: FastifyReply, error: unknown, fallbackMessage: string) => {
+  if (error instanceof z.ZodError) {
+    return reply.status(400).send({
+      error: 'Données invalides',
+      message: error.errors.map(e => e.message).join(', '),
+    });
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('introuvable')) {
+      return reply.status(404).send({
+        error: 'Ressource introuvable',
+        message: error.message,
+      });
+    }
+
+    if (error.message.includes('Invalid')) {
+      return reply.status(400).send({
+        error: 'Données invalides',
+        message: error.message,
+      });
+    }
+  }
+
+  return reply.status(500).send({
+    error: 'Erreur serveur',
+    message: fallbackMessage,
+  });
+};
+
+/**
+ * État du portail d'un client
+ */
+export const getClientPortal = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const { id } = request.params as { id: string };
+
+    const portal = await clientPortalService.getPortalAccess(getCurrentUser(request).userId, id);
+
+    reply.send({ portal });
+  } catch (error) {
+    logger.error('Erreur contrôleur getClientPortal', {
+      userId: getCurrentUser(request).userId,
+      clientId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendPortalAccessError(reply, error, 'Impossible de récupérer l\'accès au portail');
+  }
+};
+
+/**
+ * Ouvrir ou fermer le portail d'un client
+ */
+export const updateClientPortal = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const { id } = request.params as { id: string };
+    const validData = UpdatePortalAccessSchema.parse(request.body);
+
+    const portal = await clientPortalService.updatePortalAccess(
+      getCurrentUser(request).userId,
+      id,
+      validData,
+      getAuditContext(request)
+    );
+
+    reply.send({
+      message: validData.enabled ? 'Portail client ouvert' : 'Portail client fermé',
+      portal,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur updateClientPortal', {
+      userId: getCurrentUser(request).userId,
+      clientId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendPortalAccessError(reply, error, 'Impossible de modifier l\'accès au portail');
+  }
+};
+
+/**
+ * Justificatifs de virement déposés par un client
+ */
+export const listClientRemittanceProofs = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const { id } = request.params as { id: string };
+
+    const proofs = await clientPortalService.getClientRemittanceProofs(getCurrentUser(request).userId, id);
+
+    reply.send({ proofs });
+  } catch (error) {
+    logger.error('Erreur contrôleur listClientRemittanceProofs', {
+      userId: getCurrentUser(request).userId,
+      clientId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendPortalAccessError(reply, error, 'Impossible de récupérer les justificatifs');
+  }
+};
+
+/**
+ * Télécharger un justificatif de virement
+ */
+export const downloadClientRemittanceProof = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const { id, proofId } = request.params as { id: string; proofId: string };
+
+    const { proof, content } = await clientPortalService.getRemittanceProofFile(getCurrentUser(request).userId, id, proofId);
+
+    reply
+      .type(proof.mimeType)
+      .header('Content-Disposition', `attachment; filename="${encodeURIComponent(proof.fileName)}"`)
+      .send(content);
+  } catch (error) {
+    logger.error('Erreur contrôleur downloadClientRemittanceProof', {
+      userId: getCurrentUser(request).userId,
+      clientId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendPortalAccessError(reply, error, 'Impossible de télécharger le justificatif');
+  }
+};
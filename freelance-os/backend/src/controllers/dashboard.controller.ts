@@ -0,0 +1,79 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { DashboardService } from '@/services/dashboard.service';
+import { DashboardPeriodQuerySchema } from '@/types/dashboard.types';
+import { logger } from '@/utils/logger';
+import { prisma } from '@/utils/database';
+
+// Instance du service
+const dashboardService = new DashboardService(prisma);
+
+interface AuthenticatedUser {
+  userId: string;
+  email: string;
+  role: string;
+}
+
+// Helper pour récupérer l'utilisateur authentifié
+const getCurrentUser = (request: FastifyRequest): AuthenticatedUser => {
+  const user = (request as any).currentUser;
+  if (!user) {
+    throw new Error('Utilisateur non authentifié');
+  }
+  return user;
+};
+
+// ============================================================================
+// CONTRÔLEURS
+// ============================================================================
+
+/**
+ * Statistiques du tableau de bord
+ */
+export const getDashboardStats = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const stats = await dashboardService.getStats(getCurrentUser(request).userId);
+
+    reply.send({ stats });
+  } catch (error) {
+    logger.error('Erreur contrôleur getDashboardStats', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    reply.status(500).send({
+      error: 'Erreur serveur',
+      message: 'Impossible de récupérer les statistiques',
+    });
+  }
+};
+
+/**
+ * Encaissements par moyen de paiement
+ */
+export const getPaymentMethods = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const period = DashboardPeriodQuerySchema.parse(request.query);
+
+    const result = await dashboardService.getPaymentMethods(getCurrentUser(request).userId, period);
+
+    reply.send(result);
+  } catch (error) {
+    logger.error('Erreur contrôleur getPaymentMethods', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    if (error instanceof z.ZodError) {
+      return reply.status(400).send({
+        error: 'Données invalides',
+        message: error.errors.map(e => e.message).join(', '),
+      });
+    }
+
+    reply.status(500).send({
+      error: 'Erreur serveur',
+      message: 'Impossible de récupérer les moyens de paiement',
+    });
+  }
+};
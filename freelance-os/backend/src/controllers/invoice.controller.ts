@@ -0,0 +1,675 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { InvoiceService } from '@/services/invoice.service';
+import { PdfService } from '@/services/pdf.service';
+import { InvoiceExportService } from '@/services/invoice-export.service';
+import { PaymentService } from '@/services/payment.service';
+import { LatePenaltyService } from '@/services/late-penalty.service';
+import {
+  CreateInvoiceSchema,
+  UpdateInvoiceSchema,
+  CreateCreditNoteSchema,
+  IssueInvoiceSchema,
+  InvoiceQuerySchema,
+  InvoiceExportQuerySchema
+} from '@/types/invoice.types';
+import { CreatePaymentSchema } from '@/types/payment.types';
+import {
+  CreatePenaltyInvoiceSchema,
+  LatePenaltyQuerySchema,
+  UpdatePenaltySettingsSchema
+} from '@/types/late-penalty.types';
+import { InvoicePdfQuerySchema, UpdatePdfTemplateSchema, PDF_TEMPLATE_IDS } from '@/types/pdf.types';
+import { PDF_TEMPLATES } from '@/templates/pdf-templates';
+import { logger } from '@/utils/logger';
+import { prisma } from '@/utils/database';
+import { getAuditContext } from '@/utils/audit-log';
+
+// Instances des services
+const invoiceService = new InvoiceService(prisma);
+const pdfService = new PdfService(prisma);
+const invoiceExportService = new InvoiceExportService(prisma);
+const paymentService = new PaymentService(prisma);
+const latePenaltyService = new LatePenaltyService(prisma);
+
+// ============================================================================
+// TYPES POUR LES REQUÊTES
+// ============================================================================
+
+interface AuthenticatedUser {
+  userId: string;
+  email: string;
+  role: string;
+}
+
+// Helper pour récupérer l'utilisateur authentifié
+const getCurrentUser = (request: FastifyRequest): AuthenticatedUser => {
+  const user = (request as any).currentUser;
+  if (!user) {
+    throw new Error('Utilisateur non authentifié');
+  }
+  return user;
+};
+
+// Helper pour valider l'ID de la facture
+const getInvoiceId = (request: FastifyRequest): string | null => {
+  const { id } = request.params as { id: string };
+  return id && id.length >= 10 ? id : null;
+};
+
+// Réponse d'erreur commune aux contrôleurs factures
+const sendInvoiceError = (reply: FastifyReply, error: unknown, fallbackMessage: string) => {
+  if (error instanceof z.ZodError) {
+    return reply.status(400).send({
+      error: 'Données invalides',
+      message: error.errors.map(e => e.message).join(', '),
+    });
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('introuvable')) {
+      return reply.status(404).send({
+        error: 'Ressource introuvable',
+        message: error.message,
+      });
+    }
+
+    if (error.message.includes('déjà') || error.message.includes('Transition interdite')) {
+      return reply.status(409).send({
+        error: 'Conflit',
+        message: error.message,
+      });
+    }
+
+    if (error.message.includes('Invalid')) {
+      return reply.status(400).send({
+        error: 'Données invalides',
+        message: error.message,
+      });
+    }
+  }
+
+  return reply.status(500).send({
+    error: 'Erreur serveur',
+    message: fallbackMessage,
+  });
+};
+
+// ============================================================================
+// CONTRÔLEURS
+// ============================================================================
+
+/**
+ * Créer une nouvelle facture
+ */
+export const createInvoice = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const user = getCurrentUser(request);
+    // Validation des données (les totaux sont refusés)
+    const validData = CreateInvoiceSchema.parse(request.body);
+
+    const invoice = await invoiceService.createInvoice(user.userId, validData);
+
+    reply.status(201).send({
+      message: 'Facture créée avec succès',
+      invoice,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur createInvoice', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendInvoiceError(reply, error, 'Impossible de créer la facture');
+  }
+};
+
+/**
+ * Lister les factures avec pagination
+ */
+export const listInvoices = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const validParams = InvoiceQuerySchema.parse(request.query);
+
+    const result = await invoiceService.getInvoices(getCurrentUser(request).userId, validParams);
+
+    reply.send(result);
+  } catch (error) {
+    logger.error('Erreur contrôleur listInvoices', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+      query: request.query,
+    });
+
+    sendInvoiceError(reply, error, 'Impossible de récupérer les factures');
+  }
+};
+
+/**
+ * Récupérer une facture par ID
+ */
+export const getInvoiceById = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getInvoiceId(request);
+
+    if (!id) {
+      return reply.status(400).send({
+        error: 'ID invalide',
+        message: 'L\'ID de la facture est requis et doit être valide',
+      });
+    }
+
+    const invoice = await invoiceService.getInvoiceById(getCurrentUser(request).userId, id);
+
+    reply.send({
+      invoice,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur getInvoiceById', {
+      userId: getCurrentUser(request).userId,
+      invoiceId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendInvoiceError(reply, error, 'Impossible de récupérer la facture');
+  }
+};
+
+/**
+ * Mettre à jour une facture
+ */
+export const updateInvoice = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getInvoiceId(request);
+
+    if (!id) {
+      return reply.status(400).send({
+        error: 'ID invalide',
+        message: 'L\'ID de la facture est requis et doit être valide',
+      });
+    }
+
+    const validData = UpdateInvoiceSchema.parse(request.body);
+
+    const invoice = await invoiceService.updateInvoice(getCurrentUser(request).userId, id, validData);
+
+    reply.send({
+      message: 'Facture mise à jour avec succès',
+      invoice,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur updateInvoice', {
+      userId: getCurrentUser(request).userId,
+      invoiceId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendInvoiceError(reply, error, 'Impossible de mettre à jour la facture');
+  }
+};
+
+/**
+ * Émettre une facture (attribution du numéro légal)
+ */
+export const issueInvoice = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getInvoiceId(request);
+
+    if (!id) {
+      return reply.status(400).send({
+        error: 'ID invalide',
+        message: 'L\'ID de la facture est requis et doit être valide',
+      });
+    }
+
+    const validData = IssueInvoiceSchema.parse(request.body || {});
+    const invoice = await invoiceService.issueInvoice(getCurrentUser(request).userId, id, validData, getAuditContext(request));
+
+    reply.send({
+      message: 'Facture émise avec succès',
+      invoice,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur issueInvoice', {
+      userId: getCurrentUser(request).userId,
+      invoiceId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendInvoiceError(reply, error, 'Impossible d\'émettre la facture');
+  }
+};
+
+/**
+ * Émettre un avoir total ou partiel sur une facture
+ */
+export const createCreditNote = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getInvoiceId(request);
+
+    if (!id) {
+      return reply.status(400).send({
+        error: 'ID invalide',
+        message: 'L\'ID de la facture est requis et doit être valide',
+      });
+    }
+
+    const validData = CreateCreditNoteSchema.parse(request.body || {});
+
+    const creditNote = await invoiceService.createCreditNote(getCurrentUser(request).userId, id, validData, getAuditContext(request));
+
+    reply.status(201).send({
+      message: 'Avoir émis avec succès',
+      creditNote,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur createCreditNote', {
+      userId: getCurrentUser(request).userId,
+      invoiceId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendInvoiceError(reply, error, 'Impossible d\'émettre l\'avoir');
+  }
+};
+
+/**
+ * Lister les avoirs d'une facture
+ */
+export const listCreditNotes = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getInvoiceId(request);
+
+    if (!id) {
+      return reply.status(400).send({
+        error: 'ID invalide',
+        message: 'L\'ID de la facture est requis et doit être valide',
+      });
+    }
+
+    const creditNotes = await invoiceService.getCreditNotes(getCurrentUser(request).userId, id);
+
+    reply.send({
+      creditNotes,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur listCreditNotes', {
+      userId: getCurrentUser(request).userId,
+      invoiceId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendInvoiceError(reply, error, 'Impossible de récupérer les avoirs');
+  }
+};
+
+/**
+ * Enregistrer un paiement sur une facture
+ */
+export const createPayment = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getInvoiceId(request);
+
+    if (!id) {
+      return reply.status(400).send({
+        error: 'ID invalide',
+        message: 'L\'ID de la facture est requis et doit être valide',
+      });
+    }
+
+    const validData = CreatePaymentSchema.parse(request.body);
+
+    const result = await paymentService.createPayment(getCurrentUser(request).userId, id, validData, getAuditContext(request));
+
+    reply.status(201).send({
+      message: 'Paiement enregistré avec succès',
+      ...result,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur createPayment', {
+      userId: getCurrentUser(request).userId,
+      invoiceId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendInvoiceError(reply, error, 'Impossible d\'enregistrer le paiement');
+  }
+};
+
+/**
+ * Lister les paiements d'une facture avec son solde
+ */
+export const listPayments = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getInvoiceId(request);
+
+    if (!id) {
+      return reply.status(400).send({
+        error: 'ID invalide',
+        message: 'L\'ID de la facture est requis et doit être valide',
+      });
+    }
+
+    const result = await paymentService.getPayments(getCurrentUser(request).userId, id);
+
+    reply.send(result);
+  } catch (error) {
+    logger.error('Erreur contrôleur listPayments', {
+      userId: getCurrentUser(request).userId,
+      invoiceId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendInvoiceError(reply, error, 'Impossible de récupérer les paiements');
+  }
+};
+
+/**
+ * Supprimer un paiement
+ */
+export const deletePayment = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getInvoiceId(request);
+    const { paymentId } = request.params as { paymentId: string };
+
+    if (!id || !paymentId) {
+      return reply.status(400).send({
+        error: 'ID invalide',
+        message: 'Les ID de la facture et du paiement sont requis',
+      });
+    }
+
+    const result = await paymentService.deletePayment(getCurrentUser(request).userId, id, paymentId, getAuditContext(request));
+
+    reply.send({
+      message: 'Paiement supprimé avec succès',
+      ...result,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur deletePayment', {
+      userId: getCurrentUser(request).userId,
+      invoiceId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendInvoiceError(reply, error, 'Impossible de supprimer le paiement');
+  }
+};
+
+/**
+ * Supprimer une facture
+ */
+export const deleteInvoice = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getInvoiceId(request);
+
+    if (!id) {
+      return reply.status(400).send({
+        error: 'ID invalide',
+        message: 'L\'ID de la facture est requis et doit être valide',
+      });
+    }
+
+    await invoiceService.deleteInvoice(getCurrentUser(request).userId, id);
+
+    reply.status(204).send();
+  } catch (error) {
+    logger.error('Erreur contrôleur deleteInvoice', {
+      userId: getCurrentUser(request).userId,
+      invoiceId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendInvoiceError(reply, error, 'Impossible de supprimer la facture');
+  }
+};
+
+/**
+ * Télécharger le PDF d'une facture (Factur-X PDF/A-3 une fois émise)
+ */
+export const downloadInvoicePdf = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getInvoiceId(request);
+
+    if (!id) {
+      return reply.status(400).send({
+        error: 'ID invalide',
+        message: 'L\'ID de la facture est requis et doit être valide',
+      });
+    }
+
+    const { template, profile } = InvoicePdfQuerySchema.parse(request.query);
+
+    const pdf = await pdfService.generateInvoicePdf(getCurrentUser(request).userId, id, template, profile);
+
+    reply
+      .type('application/pdf')
+      .header('Content-Disposition', `attachment; filename="${pdf.fileName}"`)
+      .send(pdf.content);
+  } catch (error) {
+    logger.error('Erreur contrôleur downloadInvoicePdf', {
+      userId: getCurrentUser(request).userId,
+      invoiceId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendInvoiceError(reply, error, 'Impossible de générer le PDF');
+  }
+};
+
+/**
+ * Exporter une facture en XML (UBL 2.1 ou UN/CEFACT CII)
+ */
+export const exportInvoice = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getInvoiceId(request);
+
+    if (!id) {
+      return reply.status(400).send({
+        error: 'ID invalide',
+        message: 'L\'ID de la facture est requis et doit être valide',
+      });
+    }
+
+    const { format } = InvoiceExportQuerySchema.parse(request.query);
+
+    const exported = await invoiceExportService.exportInvoice(getCurrentUser(request).userId, id, format);
+
+    reply
+      .type('application/xml; charset=utf-8')
+      .header('Content-Disposition', `attachment; filename="${exported.fileName}"`)
+      .send(exported.content);
+  } catch (error) {
+    logger.error('Erreur contrôleur exportInvoice', {
+      userId: getCurrentUser(request).userId,
+      invoiceId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendInvoiceError(reply, error, 'Impossible d\'exporter la facture');
+  }
+};
+
+/**
+ * Lister les templates PDF disponibles et celui du freelance
+ */
+export const listPdfTemplates = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const current = await pdfService.getUserTemplate(getCurrentUser(request).userId);
+
+    reply.send({
+      current,
+      templates: PDF_TEMPLATE_IDS.map(id => ({ id, label: PDF_TEMPLATES[id].label })),
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur listPdfTemplates', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendInvoiceError(reply, error, 'Impossible de récupérer les templates');
+  }
+};
+
+/**
+ * Choisir le template PDF par défaut
+ */
+export const updatePdfTemplate = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const { template } = UpdatePdfTemplateSchema.parse(request.body);
+
+    const current = await pdfService.setUserTemplate(getCurrentUser(request).userId, template);
+
+    reply.send({
+      message: 'Template PDF mis à jour avec succès',
+      current,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur updatePdfTemplate', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendInvoiceError(reply, error, 'Impossible de mettre à jour le template');
+  }
+};
+
+/**
+ * Calculer les pénalités de retard d'une facture en retard
+ */
+export const getLatePenalties = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getInvoiceId(request);
+
+    if (!id) {
+      return reply.status(400).send({
+        error: 'ID invalide',
+        message: 'L\'ID de la facture est requis et doit être valide',
+      });
+    }
+
+    const query = LatePenaltyQuerySchema.parse(request.query);
+
+    const penalties = await latePenaltyService.getPenalties(getCurrentUser(request).userId, id, query);
+
+    reply.send({ penalties });
+  } catch (error) {
+    logger.error('Erreur contrôleur getLatePenalties', {
+      userId: getCurrentUser(request).userId,
+      invoiceId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendInvoiceError(reply, error, 'Impossible de calculer les pénalités');
+  }
+};
+
+/**
+ * Facturer les pénalités de retard et l'indemnité forfaitaire
+ */
+export const createPenaltyInvoice = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getInvoiceId(request);
+
+    if (!id) {
+      return reply.status(400).send({
+        error: 'ID invalide',
+        message: 'L\'ID de la facture est requis et doit être valide',
+      });
+    }
+
+    const validData = CreatePenaltyInvoiceSchema.parse(request.body || {});
+
+    const invoice = await latePenaltyService.createPenaltyInvoice(
+      getCurrentUser(request).userId,
+      id,
+      validData,
+      getAuditContext(request)
+    );
+
+    reply.status(201).send({
+      message: 'Facture de pénalités créée avec succès',
+      invoice,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur createPenaltyInvoice', {
+      userId: getCurrentUser(request).userId,
+      invoiceId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendInvoiceError(reply, error, 'Impossible de créer la facture de pénalités');
+  }
+};
+
+/**
+ * Relancer par email le client d'une facture en retard
+ */
+export const sendInvoiceReminder = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getInvoiceId(request);
+
+    if (!id) {
+      return reply.status(400).send({
+        error: 'ID invalide',
+        message: 'L\'ID de la facture est requis et doit être valide',
+      });
+    }
+
+    const reminder = await latePenaltyService.sendReminder(getCurrentUser(request).userId, id, getAuditContext(request));
+
+    reply.send({
+      message: 'Relance envoyée avec succès',
+      ...reminder,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur sendInvoiceReminder', {
+      userId: getCurrentUser(request).userId,
+      invoiceId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendInvoiceError(reply, error, 'Impossible d\'envoyer la relance');
+  }
+};
+
+/**
+ * Récupérer le taux des pénalités de retard
+ */
+export const getPenaltySettings = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const settings = await latePenaltyService.getSettings(getCurrentUser(request).userId);
+
+    reply.send({ settings });
+  } catch (error) {
+    logger.error('Erreur contrôleur getPenaltySettings', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendInvoiceError(reply, error, 'Impossible de récupérer le taux des pénalités');
+  }
+};
+
+/**
+ * Modifier le taux des pénalités de retard
+ */
+export const updatePenaltySettings = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const validData = UpdatePenaltySettingsSchema.parse(request.body);
+
+    const settings = await latePenaltyService.updateSettings(getCurrentUser(request).userId, validData);
+
+    reply.send({
+      message: 'Taux des pénalités mis à jour avec succès',
+      settings,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur updatePenaltySettings', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendInvoiceError(reply, error, 'Impossible de mettre à jour le taux des pénalités');
+  }
+};
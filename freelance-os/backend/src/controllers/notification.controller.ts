@@ -0,0 +1,175 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { NotificationService } from '@/services/notification.service';
+import {
+  NotificationQuerySchema,
+  UpdateNotificationSettingsSchema
+} from '@/types/notification.types';
+import { logger } from '@/utils/logger';
+import { prisma } from '@/utils/database';
+
+// Instance du service
+const notificationService = new NotificationService(prisma);
+
+interface AuthenticatedUser {
+  userId: string;
+  email: string;
+  role: string;
+}
+
+// Helper pour récupérer l'utilisateur authentifié
+const getCurrentUser = (request: FastifyRequest): AuthenticatedUser => {
+  const user = (request as any).currentUser;
+  if (!user) {
+    throw new Error('Utilisateur non authentifié');
+  }
+  return user;
+};
+
+// Helper pour valider l'ID de la notification
+const getNotificationId = (request: FastifyRequest): string | null => {
+  const { id } = request.params as { id: string };
+  return id && id.length >= 10 ? id : null;
+};
+
+// Réponse d'erreur commune aux contrôleurs des notifications
+const sendNotificationError = (reply: FastifyReply, error: unknown, fallbackMessage: string) => {
+  if (error instanceof z.ZodError) {
+    return reply.status(400).send({
+      error: 'Données invalides',
+      message: error.errors.map(e => e.message).join(', '),
+    });
+  }
+
+  if (error instanceof Error && error.message.includes('introuvable')) {
+    return reply.status(404).send({
+      error: 'Ressource introuvable',
+      message: error.message,
+    });
+  }
+
+  return reply.status(500).send({
+    error: 'Erreur serveur',
+    message: fallbackMessage,
+  });
+};
+
+// ============================================================================
+// CONTRÔLEURS - NOTIFICATIONS
+// ============================================================================
+
+/**
+ * Lister les notifications (filtre `unread`)
+ */
+export const listNotifications = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const validParams = NotificationQuerySchema.parse(request.query);
+
+    const result = await notificationService.getNotifications(getCurrentUser(request).userId, validParams);
+
+    reply.send(result);
+  } catch (error) {
+    logger.error('Erreur contrôleur listNotifications', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+      query: request.query,
+    });
+
+    sendNotificationError(reply, error, 'Impossible de récupérer les notifications');
+  }
+};
+
+/**
+ * Marquer une notification comme lue
+ */
+export const markNotificationAsRead = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getNotificationId(request);
+
+    if (!id) {
+      return reply.status(400).send({
+        error: 'ID invalide',
+        message: 'L\'ID de la notification est requis et doit être valide',
+      });
+    }
+
+    const notification = await notificationService.markAsRead(getCurrentUser(request).userId, id);
+
+    reply.send({
+      notification,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur markNotificationAsRead', {
+      userId: getCurrentUser(request).userId,
+      notificationId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendNotificationError(reply, error, 'Impossible de mettre à jour la notification');
+  }
+};
+
+/**
+ * Marquer toutes les notifications comme lues
+ */
+export const markAllNotificationsAsRead = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const result = await notificationService.markAllAsRead(getCurrentUser(request).userId);
+
+    reply.send(result);
+  } catch (error) {
+    logger.error('Erreur contrôleur markAllNotificationsAsRead', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendNotificationError(reply, error, 'Impossible de mettre à jour les notifications');
+  }
+};
+
+// ============================================================================
+// CONTRÔLEURS - RÉGLAGES
+// ============================================================================
+
+/**
+ * Seuils d'alerte budget
+ */
+export const getNotificationSettings = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const settings = await notificationService.getSettings(getCurrentUser(request).userId);
+
+    reply.send({
+      settings,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur getNotificationSettings', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendNotificationError(reply, error, 'Impossible de récupérer les réglages');
+  }
+};
+
+/**
+ * Modifier les seuils d'alerte budget
+ */
+export const updateNotificationSettings = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const validData = UpdateNotificationSettingsSchema.parse(request.body);
+
+    const settings = await notificationService.updateSettings(getCurrentUser(request).userId, validData);
+
+    reply.send({
+      message: 'Réglages mis à jour',
+      settings,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur updateNotificationSettings', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendNotificationError(reply, error, 'Impossible de mettre à jour les réglages');
+  }
+};
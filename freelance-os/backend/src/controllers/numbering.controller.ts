@@ -0,0 +1,89 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { NumberingService } from '@/services/numbering.service';
+import { DocumentTypeParamSchema, UpdateNumberingSchema } from '@/types/numbering.types';
+import { logger } from '@/utils/logger';
+import { prisma } from '@/utils/database';
+
+// Instance du service
+const numberingService = new NumberingService(prisma);
+
+interface AuthenticatedUser {
+  userId: string;
+  email: string;
+  role: string;
+}
+
+// Helper pour récupérer l'utilisateur authentifié
+const getCurrentUser = (request: FastifyRequest): AuthenticatedUser => {
+  const user = (request as any).currentUser;
+  if (!user) {
+    throw new Error('Utilisateur non authentifié');
+  }
+  return user;
+};
+
+// ============================================================================
+// CONTRÔLEURS
+// ============================================================================
+
+/**
+ * Récupérer les paramètres de numérotation
+ */
+export const getNumberingSettings = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const settings = await numberingService.getSettings(getCurrentUser(request).userId);
+
+    reply.send({ settings });
+  } catch (error) {
+    logger.error('Erreur contrôleur getNumberingSettings', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    reply.status(500).send({
+      error: 'Erreur serveur',
+      message: 'Impossible de récupérer la numérotation',
+    });
+  }
+};
+
+/**
+ * Modifier le motif de numérotation d'un type de document
+ */
+export const updateNumberingSettings = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const { documentType } = request.params as { documentType: string };
+    const validType = DocumentTypeParamSchema.parse(documentType);
+    const validData = UpdateNumberingSchema.parse(request.body);
+
+    const settings = await numberingService.updateSettings(
+      getCurrentUser(request).userId,
+      validType,
+      validData
+    );
+
+    reply.send({
+      message: 'Numérotation mise à jour avec succès',
+      settings,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur updateNumberingSettings', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+      body: request.body,
+    });
+
+    if (error instanceof z.ZodError || (error instanceof Error && error.message.includes('Invalid'))) {
+      return reply.status(400).send({
+        error: 'Données invalides',
+        message: error.message,
+      });
+    }
+
+    reply.status(500).send({
+      error: 'Erreur serveur',
+      message: 'Impossible de mettre à jour la numérotation',
+    });
+  }
+};
@@ -0,0 +1,270 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { ProjectTemplateService } from '@/services/project-template.service';
+import {
+  CreateProjectTemplateSchema,
+  UpdateProjectTemplateSchema,
+  SaveProjectAsTemplateSchema,
+  InstantiateProjectTemplateSchema
+} from '@/types/project-template.types';
+import { logger } from '@/utils/logger';
+import { prisma } from '@/utils/database';
+
+// Instance du service
+const projectTemplateService = new ProjectTemplateService(prisma);
+
+interface AuthenticatedUser {
+  userId: string;
+  email: string;
+  role: string;
+}
+
+// Helper pour récupérer l'utilisateur authentifié
+const getCurrentUser = (request: FastifyRequest): AuthenticatedUser => {
+  const user = (request as any).currentUser;
+  if (!user) {
+    throw new Error('Utilisateur non authentifié');
+  }
+  return user;
+};
+
+// Helper pour valider l'ID passé en paramètre (modèle ou projet)
+const getParamId = (request: FastifyRequest, name: 'id' | 'projectId'): string | null => {
+  const id = (request.params as Record<string, string | undefined>)[name];
+  return id && id.length >= 10 ? id : null;
+};
+
+// Réponse d'erreur commune aux contrôleurs des modèles de projet
+const sendTemplateError = (reply: FastifyReply, error: unknown, fallbackMessage: string) => {
+  if (error instanceof z.ZodError) {
+    return reply.status(400).send({
+      error: 'Données invalides',
+      message: error.errors.map(e => e.message).join(', '),
+    });
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('introuvable')) {
+      return reply.status(404).send({
+        error: 'Ressource introuvable',
+        message: error.message,
+      });
+    }
+
+    if (error.message.includes('déjà')) {
+      return reply.status(409).send({
+        error: 'Conflit',
+        message: error.message,
+      });
+    }
+
+    if (error.message.includes('Invalid')) {
+      return reply.status(400).send({
+        error: 'Données invalides',
+        message: error.message,
+      });
+    }
+  }
+
+  return reply.status(500).send({
+    error: 'Erreur serveur',
+    message: fallbackMessage,
+  });
+};
+
+const sendInvalidId = (reply: FastifyReply) => reply.status(400).send({
+  error: 'ID invalide',
+  message: 'L\'ID du modèle est requis et doit être valide',
+});
+
+// ============================================================================
+// CONTRÔLEURS - MODÈLES DE PROJET
+// ============================================================================
+
+/**
+ * Lister les modèles de projet
+ */
+export const listProjectTemplates = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const templates = await projectTemplateService.getTemplates(getCurrentUser(request).userId);
+
+    reply.send({
+      templates,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur listProjectTemplates', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendTemplateError(reply, error, 'Impossible de récupérer les modèles');
+  }
+};
+
+/**
+ * Créer un modèle de projet
+ */
+export const createProjectTemplate = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const validData = CreateProjectTemplateSchema.parse(request.body);
+
+    const template = await projectTemplateService.createTemplate(getCurrentUser(request).userId, validData);
+
+    reply.status(201).send({
+      message: 'Modèle créé avec succès',
+      template,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur createProjectTemplate', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendTemplateError(reply, error, 'Impossible de créer le modèle');
+  }
+};
+
+/**
+ * Enregistrer un projet existant comme modèle
+ */
+export const saveProjectAsTemplate = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const projectId = getParamId(request, 'projectId');
+
+    if (!projectId) {
+      return reply.status(400).send({
+        error: 'ID invalide',
+        message: 'L\'ID du projet est requis et doit être valide',
+      });
+    }
+
+    const validData = SaveProjectAsTemplateSchema.parse(request.body ?? {});
+
+    const template = await projectTemplateService.saveProjectAsTemplate(getCurrentUser(request).userId, projectId, validData);
+
+    reply.status(201).send({
+      message: 'Projet enregistré comme modèle',
+      template,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur saveProjectAsTemplate', {
+      userId: getCurrentUser(request).userId,
+      projectId: (request.params as { projectId: string }).projectId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendTemplateError(reply, error, 'Impossible d\'enregistrer le projet comme modèle');
+  }
+};
+
+/**
+ * Récupérer un modèle
+ */
+export const getProjectTemplateById = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getParamId(request, 'id');
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const template = await projectTemplateService.getTemplateById(getCurrentUser(request).userId, id);
+
+    reply.send({
+      template,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur getProjectTemplateById', {
+      userId: getCurrentUser(request).userId,
+      templateId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendTemplateError(reply, error, 'Impossible de récupérer le modèle');
+  }
+};
+
+/**
+ * Mettre à jour un modèle
+ */
+export const updateProjectTemplate = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getParamId(request, 'id');
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const validData = UpdateProjectTemplateSchema.parse(request.body);
+
+    const template = await projectTemplateService.updateTemplate(getCurrentUser(request).userId, id, validData);
+
+    reply.send({
+      message: 'Modèle mis à jour avec succès',
+      template,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur updateProjectTemplate', {
+      userId: getCurrentUser(request).userId,
+      templateId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendTemplateError(reply, error, 'Impossible de mettre à jour le modèle');
+  }
+};
+
+/**
+ * Supprimer un modèle
+ */
+export const deleteProjectTemplate = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getParamId(request, 'id');
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const result = await projectTemplateService.deleteTemplate(getCurrentUser(request).userId, id);
+
+    reply.send(result);
+  } catch (error) {
+    logger.error('Erreur contrôleur deleteProjectTemplate', {
+      userId: getCurrentUser(request).userId,
+      templateId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendTemplateError(reply, error, 'Impossible de supprimer le modèle');
+  }
+};
+
+/**
+ * Créer un projet depuis un modèle
+ */
+export const instantiateProjectTemplate = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getParamId(request, 'id');
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const validData = InstantiateProjectTemplateSchema.parse(request.body);
+
+    const project = await projectTemplateService.instantiateTemplate(getCurrentUser(request).userId, id, validData);
+
+    reply.status(201).send({
+      message: 'Projet créé depuis le modèle',
+      project,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur instantiateProjectTemplate', {
+      userId: getCurrentUser(request).userId,
+      templateId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendTemplateError(reply, error, 'Impossible de créer le projet depuis le modèle');
+  }
+};
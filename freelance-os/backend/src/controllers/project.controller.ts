@@ -0,0 +1,708 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { ProjectService } from '@/services/project.service';
+import { BoardService } from '@/services/board.service';
+import { ProjectBudgetService } from '@/services/project-budget.service';
+import {
+  CreateProjectSchema,
+  UpdateProjectSchema,
+  UpdateProjectStatusSchema,
+  ProjectQuerySchema,
+  CreateTaskSchema,
+  UpdateTaskSchema,
+  TaskQuerySchema,
+  MoveTaskSchema,
+  CreateBoardColumnSchema,
+  UpdateBoardColumnSchema,
+  MoveBoardColumnSchema
+} from '@/types/project.types';
+import { logger } from '@/utils/logger';
+import { prisma } from '@/utils/database';
+import { getAuditContext } from '@/utils/audit-log';
+
+// Instance du service
+const projectService = new ProjectService(prisma);
+const boardService = new BoardService(prisma);
+const projectBudgetService = new ProjectBudgetService(prisma);
+
+interface AuthenticatedUser {
+  userId: string;
+  email: string;
+  role: string;
+}
+
+// Helper pour récupérer l'utilisateur authentifié
+const getCurrentUser = (request: FastifyRequest): AuthenticatedUser => {
+  const user = (request as any).currentUser;
+  if (!user) {
+    throw new Error('Utilisateur non authentifié');
+  }
+  return user;
+};
+
+// Helper pour valider l'ID du projet
+const getProjectId = (request: FastifyRequest): string | null => {
+  const { id } = request.params as { id: string };
+  return id && id.length >= 10 ? id : null;
+};
+
+// Helper pour valider les IDs du projet et de la tâche
+const getTaskIds = (request: FastifyRequest): { projectId: string; taskId: string } | null => {
+  const { id, taskId } = request.params as { id: string; taskId: string };
+  return id && id.length >= 10 && taskId && taskId.length >= 10 ? { projectId: id, taskId } : null;
+};
+
+// Helper pour valider les IDs du projet et de la colonne
+const getColumnIds = (request: FastifyRequest): { projectId: string; columnId: string } | null => {
+  const { id, columnId } = request.params as { id: string; columnId: string };
+  return id && id.length >= 10 && columnId && columnId.length >= 10 ? { projectId: id, columnId } : null;
+};
+
+// Réponse d'erreur commune aux contrôleurs projets
+const sendProjectError = (reply: FastifyReply, error: unknown, fallbackMessage: string) => {
+  if (error instanceof z.ZodError) {
+    return reply.status(400).send({
+      error: 'Données invalides',
+      message: error.errors.map(e => e.message).join(', '),
+    });
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('introuvable')) {
+      return reply.status(404).send({
+        error: 'Ressource introuvable',
+        message: error.message,
+      });
+    }
+
+    if (error.message.includes('déjà') || error.message.includes('Transition interdite')) {
+      return reply.status(409).send({
+        error: 'Conflit',
+        message: error.message,
+      });
+    }
+
+    if (error.message.includes('Invalid')) {
+      return reply.status(400).send({
+        error: 'Données invalides',
+        message: error.message,
+      });
+    }
+  }
+
+  return reply.status(500).send({
+    error: 'Erreur serveur',
+    message: fallbackMessage,
+  });
+};
+
+const sendInvalidId = (reply: FastifyReply) => reply.status(400).send({
+  error: 'ID invalide',
+  message: 'L\'ID du projet est requis et doit être valide',
+});
+
+const sendInvalidTaskId = (reply: FastifyReply) => reply.status(400).send({
+  error: 'ID invalide',
+  message: 'Les IDs du projet et de la tâche sont requis et doivent être valides',
+});
+
+const sendInvalidColumnId = (reply: FastifyReply) => reply.status(400).send({
+  error: 'ID invalide',
+  message: 'Les IDs du projet et de la colonne sont requis et doivent être valides',
+});
+
+// ============================================================================
+// CONTRÔLEURS - PROJETS
+// ============================================================================
+
+/**
+ * Créer un projet
+ */
+export const createProject = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const validData = CreateProjectSchema.parse(request.body);
+
+    const project = await projectService.createProject(getCurrentUser(request).userId, validData);
+
+    reply.status(201).send({
+      message: 'Projet créé avec succès',
+      project,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur createProject', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendProjectError(reply, error, 'Impossible de créer le projet');
+  }
+};
+
+/**
+ * Lister les projets avec pagination
+ */
+export const listProjects = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const validParams = ProjectQuerySchema.parse(request.query);
+
+    const result = await projectService.getProjects(getCurrentUser(request).userId, validParams);
+
+    reply.send(result);
+  } catch (error) {
+    logger.error('Erreur contrôleur listProjects', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+      query: request.query,
+    });
+
+    sendProjectError(reply, error, 'Impossible de récupérer les projets');
+  }
+};
+
+/**
+ * Récupérer un projet par ID
+ */
+export const getProjectById = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getProjectId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const project = await projectService.getProjectById(getCurrentUser(request).userId, id);
+
+    reply.send({
+      project,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur getProjectById', {
+      userId: getCurrentUser(request).userId,
+      projectId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendProjectError(reply, error, 'Impossible de récupérer le projet');
+  }
+};
+
+/**
+ * Mettre à jour un projet
+ */
+export const updateProject = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getProjectId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const validData = UpdateProjectSchema.parse(request.body);
+
+    const project = await projectService.updateProject(getCurrentUser(request).userId, id, validData);
+
+    reply.send({
+      message: 'Projet mis à jour avec succès',
+      project,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur updateProject', {
+      userId: getCurrentUser(request).userId,
+      projectId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendProjectError(reply, error, 'Impossible de mettre à jour le projet');
+  }
+};
+
+/**
+ * Changer le statut d'un projet
+ */
+export const updateProjectStatus = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getProjectId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const { status } = UpdateProjectStatusSchema.parse(request.body);
+
+    const project = await projectService.updateProjectStatus(
+      getCurrentUser(request).userId,
+      id,
+      status,
+      getAuditContext(request)
+    );
+
+    reply.send({
+      message: 'Statut du projet mis à jour',
+      project,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur updateProjectStatus', {
+      userId: getCurrentUser(request).userId,
+      projectId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendProjectError(reply, error, 'Impossible de changer le statut du projet');
+  }
+};
+
+/**
+ * Heures saisies et budget du projet
+ */
+export const getProjectStats = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getProjectId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const stats = await projectService.getProjectStats(getCurrentUser(request).userId, id);
+
+    reply.send({
+      stats,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur getProjectStats', {
+      userId: getCurrentUser(request).userId,
+      projectId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendProjectError(reply, error, 'Impossible de calculer les statistiques du projet');
+  }
+};
+
+/**
+ * Rythme de consommation, dépassement prévisionnel, rentabilité et alertes budget d'un projet
+ */
+export const getProjectBudget = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getProjectId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const budget = await projectBudgetService.getProjectBudget(getCurrentUser(request).userId, id);
+
+    reply.send({
+      budget,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur getProjectBudget', {
+      userId: getCurrentUser(request).userId,
+      projectId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendProjectError(reply, error, 'Impossible de calculer le suivi budgétaire du projet');
+  }
+};
+
+/**
+ * Supprimer un projet
+ */
+export const deleteProject = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getProjectId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const result = await projectService.deleteProject(getCurrentUser(request).userId, id);
+
+    reply.send(result);
+  } catch (error) {
+    logger.error('Erreur contrôleur deleteProject', {
+      userId: getCurrentUser(request).userId,
+      projectId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendProjectError(reply, error, 'Impossible de supprimer le projet');
+  }
+};
+
+// ============================================================================
+// CONTRÔLEURS - TÂCHES
+// ============================================================================
+
+/**
+ * Lister les tâches d'un projet
+ */
+export const listTasks = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getProjectId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const validParams = TaskQuerySchema.parse(request.query);
+
+    const tasks = await projectService.getTasks(getCurrentUser(request).userId, id, validParams);
+
+    reply.send({
+      tasks,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur listTasks', {
+      userId: getCurrentUser(request).userId,
+      projectId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendProjectError(reply, error, 'Impossible de récupérer les tâches');
+  }
+};
+
+/**
+ * Ajouter une tâche à un projet
+ */
+export const createTask = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getProjectId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const validData = CreateTaskSchema.parse(request.body);
+
+    const task = await projectService.createTask(getCurrentUser(request).userId, id, validData);
+
+    reply.status(201).send({
+      message: 'Tâche créée avec succès',
+      task,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur createTask', {
+      userId: getCurrentUser(request).userId,
+      projectId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendProjectError(reply, error, 'Impossible de créer la tâche');
+  }
+};
+
+/**
+ * Récupérer une tâche
+ */
+export const getTaskById = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const ids = getTaskIds(request);
+
+    if (!ids) {
+      return sendInvalidTaskId(reply);
+    }
+
+    const task = await projectService.getTaskById(getCurrentUser(request).userId, ids.projectId, ids.taskId);
+
+    reply.send({
+      task,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur getTaskById', {
+      userId: getCurrentUser(request).userId,
+      params: request.params,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendProjectError(reply, error, 'Impossible de récupérer la tâche');
+  }
+};
+
+/**
+ * Mettre à jour une tâche
+ */
+export const updateTask = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const ids = getTaskIds(request);
+
+    if (!ids) {
+      return sendInvalidTaskId(reply);
+    }
+
+    const validData = UpdateTaskSchema.parse(request.body);
+
+    const task = await projectService.updateTask(getCurrentUser(request).userId, ids.projectId, ids.taskId, validData);
+
+    reply.send({
+      message: 'Tâche mise à jour avec succès',
+      task,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur updateTask', {
+      userId: getCurrentUser(request).userId,
+      params: request.params,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendProjectError(reply, error, 'Impossible de mettre à jour la tâche');
+  }
+};
+
+/**
+ * Marquer une tâche comme terminée
+ */
+export const completeTask = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const ids = getTaskIds(request);
+
+    if (!ids) {
+      return sendInvalidTaskId(reply);
+    }
+
+    const task = await projectService.setTaskCompleted(getCurrentUser(request).userId, ids.projectId, ids.taskId, true);
+
+    reply.send({
+      message: 'Tâche terminée',
+      task,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur completeTask', {
+      userId: getCurrentUser(request).userId,
+      params: request.params,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendProjectError(reply, error, 'Impossible de terminer la tâche');
+  }
+};
+
+/**
+ * Rouvrir une tâche terminée
+ */
+export const reopenTask = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const ids = getTaskIds(request);
+
+    if (!ids) {
+      return sendInvalidTaskId(reply);
+    }
+
+    const task = await projectService.setTaskCompleted(getCurrentUser(request).userId, ids.projectId, ids.taskId, false);
+
+    reply.send({
+      message: 'Tâche rouverte',
+      task,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur reopenTask', {
+      userId: getCurrentUser(request).userId,
+      params: request.params,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendProjectError(reply, error, 'Impossible de rouvrir la tâche');
+  }
+};
+
+/**
+ * Déplacer une tâche sur le tableau (glisser-déposer)
+ */
+export const moveTask = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const ids = getTaskIds(request);
+
+    if (!ids) {
+      return sendInvalidTaskId(reply);
+    }
+
+    const validData = MoveTaskSchema.parse(request.body);
+
+    const task = await boardService.moveTask(getCurrentUser(request).userId, ids.projectId, ids.taskId, validData);
+
+    reply.send({
+      message: 'Tâche déplacée',
+      task,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur moveTask', {
+      userId: getCurrentUser(request).userId,
+      params: request.params,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendProjectError(reply, error, 'Impossible de déplacer la tâche');
+  }
+};
+
+/**
+ * Supprimer une tâche
+ */
+export const deleteTask = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const ids = getTaskIds(request);
+
+    if (!ids) {
+      return sendInvalidTaskId(reply);
+    }
+
+    const result = await projectService.deleteTask(getCurrentUser(request).userId, ids.projectId, ids.taskId);
+
+    reply.send(result);
+  } catch (error) {
+    logger.error('Erreur contrôleur deleteTask', {
+      userId: getCurrentUser(request).userId,
+      params: request.params,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendProjectError(reply, error, 'Impossible de supprimer la tâche');
+  }
+};
+
+// ============================================================================
+// CONTRÔLEURS - TABLEAU KANBAN
+// ============================================================================
+
+/**
+ * Récupérer le tableau d'un projet (colonnes par défaut créées à la première ouverture)
+ */
+export const getBoard = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const projectId = getProjectId(request);
+
+    if (!projectId) {
+      return sendInvalidId(reply);
+    }
+
+    const board = await boardService.getBoard(getCurrentUser(request).userId, projectId);
+
+    reply.send({
+      board,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur getBoard', {
+      userId: getCurrentUser(request).userId,
+      projectId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendProjectError(reply, error, 'Impossible de récupérer le tableau');
+  }
+};
+
+/**
+ * Ajouter une colonne au tableau
+ */
+export const createBoardColumn = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const projectId = getProjectId(request);
+
+    if (!projectId) {
+      return sendInvalidId(reply);
+    }
+
+    const validData = CreateBoardColumnSchema.parse(request.body);
+
+    const column = await boardService.createColumn(getCurrentUser(request).userId, projectId, validData);
+
+    reply.status(201).send({
+      message: 'Colonne créée avec succès',
+      column,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur createBoardColumn', {
+      userId: getCurrentUser(request).userId,
+      projectId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendProjectError(reply, error, 'Impossible de créer la colonne');
+  }
+};
+
+/**
+ * Modifier une colonne
+ */
+export const updateBoardColumn = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const ids = getColumnIds(request);
+
+    if (!ids) {
+      return sendInvalidColumnId(reply);
+    }
+
+    const validData = UpdateBoardColumnSchema.parse(request.body);
+
+    const column = await boardService.updateColumn(getCurrentUser(request).userId, ids.projectId, ids.columnId, validData);
+
+    reply.send({
+      message: 'Colonne mise à jour avec succès',
+      column,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur updateBoardColumn', {
+      userId: getCurrentUser(request).userId,
+      params: request.params,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendProjectError(reply, error, 'Impossible de mettre à jour la colonne');
+  }
+};
+
+/**
+ * Déplacer une colonne
+ */
+export const moveBoardColumn = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const ids = getColumnIds(request);
+
+    if (!ids) {
+      return sendInvalidColumnId(reply);
+    }
+
+    const validData = MoveBoardColumnSchema.parse(request.body);
+
+    const column = await boardService.moveColumn(getCurrentUser(request).userId, ids.projectId, ids.columnId, validData);
+
+    reply.send({
+      message: 'Colonne déplacée',
+      column,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur moveBoardColumn', {
+      userId: getCurrentUser(request).userId,
+      params: request.params,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendProjectError(reply, error, 'Impossible de déplacer la colonne');
+  }
+};
+
+/**
+ * Supprimer une colonne vide
+ */
+export const deleteBoardColumn = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const ids = getColumnIds(request);
+
+    if (!ids) {
+      return sendInvalidColumnId(reply);
+    }
+
+    const result = await boardService.deleteColumn(getCurrentUser(request).userId, ids.projectId, ids.columnId);
+
+    reply.send(result);
+  } catch (error) {
+    logger.error('Erreur contrôleur deleteBoardColumn', {
+      userId: getCurrentUser(request).userId,
+      params: request.params,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendProjectError(reply, error, 'Impossible de supprimer la colonne');
+  }
+};
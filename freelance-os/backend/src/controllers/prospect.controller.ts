@@ -0,0 +1,433 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { ProspectService } from '@/services/prospect.service';
+import {
+  CreateProspectSchema,
+  UpdateProspectSchema,
+  UpdateProspectStatusSchema,
+  ConvertProspectSchema,
+  ProspectQuerySchema,
+  CreateFollowUpSchema,
+  CompleteFollowUpSchema,
+  DueFollowUpsQuerySchema
+} from '@/types/prospect.types';
+import { getAuditContext } from '@/utils/audit-log';
+import { logger } from '@/utils/logger';
+import { prisma } from '@/utils/database';
+
+// Instance du service
+const prospectService = new ProspectService(prisma);
+
+interface AuthenticatedUser {
+  userId: string;
+  email: string;
+  role: string;
+}
+
+// Helper pour récupérer l'utilisateur authentifié
+const getCurrentUser = (request: FastifyRequest): AuthenticatedUser => {
+  const user = (request as any).currentUser;
+  if (!user) {
+    throw new Error('Utilisateur non authentifié');
+  }
+  return user;
+};
+
+// Helper pour valider l'ID du prospect
+const getProspectId = (request: FastifyRequest): string | null => {
+  const { id } = request.params as { id: string };
+  return id && id.length >= 10 ? id : null;
+};
+
+// Helper pour valider les IDs du prospect et de la relance
+const getFollowUpIds = (request: FastifyRequest): { prospectId: string; followUpId: string } | null => {
+  const { id, followUpId } = request.params as { id: string; followUpId: string };
+  return id && id.length >= 10 && followUpId && followUpId.length >= 10 ? { prospectId: id, followUpId } : null;
+};
+
+// Réponse d'erreur commune aux contrôleurs prospects
+const sendProspectError = (reply: FastifyReply, error: unknown, fallbackMessage: string) => {
+  if (error instanceof z.ZodError) {
+    return reply.status(400).send({
+      error: 'Données invalides',
+      message: error.errors.map(e => e.message).join(', '),
+    });
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('introuvable')) {
+      return reply.status(404).send({
+        error: 'Ressource introuvable',
+        message: error.message,
+      });
+    }
+
+    if (error.message.includes('déjà') || error.message.includes('Transition interdite')) {
+      return reply.status(409).send({
+        error: 'Conflit',
+        message: error.message,
+      });
+    }
+
+    if (error.message.includes('Invalid')) {
+      return reply.status(400).send({
+        error: 'Données invalides',
+        message: error.message,
+      });
+    }
+  }
+
+  return reply.status(500).send({
+    error: 'Erreur serveur',
+    message: fallbackMessage,
+  });
+};
+
+const sendInvalidId = (reply: FastifyReply) => reply.status(400).send({
+  error: 'ID invalide',
+  message: 'L\'ID du prospect est requis et doit être valide',
+});
+
+const sendInvalidFollowUpId = (reply: FastifyReply) => reply.status(400).send({
+  error: 'ID invalide',
+  message: 'Les IDs du prospect et de la relance sont requis et doivent être valides',
+});
+
+// ============================================================================
+// CONTRÔLEURS - PROSPECTS
+// ============================================================================
+
+/**
+ * Créer un prospect
+ */
+export const createProspect = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const validData = CreateProspectSchema.parse(request.body);
+
+    const prospect = await prospectService.createProspect(getCurrentUser(request).userId, validData);
+
+    reply.status(201).send({
+      message: 'Prospect créé avec succès',
+      prospect,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur createProspect', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendProspectError(reply, error, 'Impossible de créer le prospect');
+  }
+};
+
+/**
+ * Lister les prospects avec pagination
+ */
+export const listProspects = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const validParams = ProspectQuerySchema.parse(request.query);
+
+    const result = await prospectService.getProspects(getCurrentUser(request).userId, validParams);
+
+    reply.send(result);
+  } catch (error) {
+    logger.error('Erreur contrôleur listProspects', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+      query: request.query,
+    });
+
+    sendProspectError(reply, error, 'Impossible de récupérer les prospects');
+  }
+};
+
+/**
+ * Nombre de prospects et montant espéré par étape
+ */
+export const getProspectPipeline = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const pipeline = await prospectService.getPipeline(getCurrentUser(request).userId);
+
+    reply.send({
+      pipeline,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur getProspectPipeline', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendProspectError(reply, error, 'Impossible de récupérer le pipeline');
+  }
+};
+
+/**
+ * Récupérer un prospect
+ */
+export const getProspectById = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getProspectId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const prospect = await prospectService.getProspectById(getCurrentUser(request).userId, id);
+
+    reply.send({
+      prospect,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur getProspectById', {
+      userId: getCurrentUser(request).userId,
+      prospectId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendProspectError(reply, error, 'Impossible de récupérer le prospect');
+  }
+};
+
+/**
+ * Mettre à jour un prospect
+ */
+export const updateProspect = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getProspectId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const validData = UpdateProspectSchema.parse(request.body);
+
+    const prospect = await prospectService.updateProspect(getCurrentUser(request).userId, id, validData);
+
+    reply.send({
+      message: 'Prospect mis à jour avec succès',
+      prospect,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur updateProspect', {
+      userId: getCurrentUser(request).userId,
+      prospectId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendProspectError(reply, error, 'Impossible de mettre à jour le prospect');
+  }
+};
+
+/**
+ * Faire passer un prospect à une autre étape
+ */
+export const updateProspectStatus = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getProspectId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const validData = UpdateProspectStatusSchema.parse(request.body);
+
+    const prospect = await prospectService.updateProspectStatus(
+      getCurrentUser(request).userId,
+      id,
+      validData,
+      getAuditContext(request)
+    );
+
+    reply.send({
+      message: 'Étape du prospect mise à jour',
+      prospect,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur updateProspectStatus', {
+      userId: getCurrentUser(request).userId,
+      prospectId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendProspectError(reply, error, 'Impossible de changer l\'étape du prospect');
+  }
+};
+
+/**
+ * Convertir un prospect gagné en client (devis brouillon du montant espéré en option)
+ */
+export const convertProspect = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getProspectId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const validData = ConvertProspectSchema.parse(request.body ?? {});
+
+    const conversion = await prospectService.convertProspect(
+      getCurrentUser(request).userId,
+      id,
+      validData,
+      getAuditContext(request)
+    );
+
+    reply.status(201).send({
+      message: conversion.client.created
+        ? 'Prospect converti en nouveau client'
+        : 'Prospect rattaché au client existant',
+      ...conversion,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur convertProspect', {
+      userId: getCurrentUser(request).userId,
+      prospectId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendProspectError(reply, error, 'Impossible de convertir le prospect');
+  }
+};
+
+/**
+ * Supprimer un prospect
+ */
+export const deleteProspect = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getProspectId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const result = await prospectService.deleteProspect(getCurrentUser(request).userId, id);
+
+    reply.send(result);
+  } catch (error) {
+    logger.error('Erreur contrôleur deleteProspect', {
+      userId: getCurrentUser(request).userId,
+      prospectId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendProspectError(reply, error, 'Impossible de supprimer le prospect');
+  }
+};
+
+// ============================================================================
+// CONTRÔLEURS - RELANCES
+// ============================================================================
+
+/**
+ * Relances dues (aujourd'hui par défaut), retards compris
+ */
+export const listDueFollowUps = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const { date } = DueFollowUpsQuerySchema.parse(request.query);
+
+    const followUps = await prospectService.getDueFollowUps(getCurrentUser(request).userId, date);
+
+    reply.send({
+      followUps,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur listDueFollowUps', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+      query: request.query,
+    });
+
+    sendProspectError(reply, error, 'Impossible de récupérer les relances dues');
+  }
+};
+
+/**
+ * Planifier une relance
+ */
+export const createFollowUp = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getProspectId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const validData = CreateFollowUpSchema.parse(request.body);
+
+    const followUp = await prospectService.createFollowUp(getCurrentUser(request).userId, id, validData);
+
+    reply.status(201).send({
+      message: 'Relance planifiée avec succès',
+      followUp,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur createFollowUp', {
+      userId: getCurrentUser(request).userId,
+      prospectId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendProspectError(reply, error, 'Impossible de planifier la relance');
+  }
+};
+
+/**
+ * Marquer une relance comme effectuée
+ */
+export const completeFollowUp = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const ids = getFollowUpIds(request);
+
+    if (!ids) {
+      return sendInvalidFollowUpId(reply);
+    }
+
+    const validData = CompleteFollowUpSchema.parse(request.body ?? {});
+
+    const followUp = await prospectService.completeFollowUp(
+      getCurrentUser(request).userId,
+      ids.prospectId,
+      ids.followUpId,
+      validData
+    );
+
+    reply.send({
+      message: 'Relance effectuée',
+      followUp,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur completeFollowUp', {
+      userId: getCurrentUser(request).userId,
+      params: request.params,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendProspectError(reply, error, 'Impossible de mettre à jour la relance');
+  }
+};
+
+/**
+ * Supprimer une relance
+ */
+export const deleteFollowUp = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const ids = getFollowUpIds(request);
+
+    if (!ids) {
+      return sendInvalidFollowUpId(reply);
+    }
+
+    const result = await prospectService.deleteFollowUp(getCurrentUser(request).userId, ids.prospectId, ids.followUpId);
+
+    reply.send(result);
+  } catch (error) {
+    logger.error('Erreur contrôleur deleteFollowUp', {
+      userId: getCurrentUser(request).userId,
+      params: request.params,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendProspectError(reply, error, 'Impossible de supprimer la relance');
+  }
+};
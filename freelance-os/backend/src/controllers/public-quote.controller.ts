@@ -0,0 +1,121 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { QuoteAcceptanceService } from '@/services/quote-acceptance.service';
+import { AcceptQuoteOnlineSchema } from '@/types/quote.types';
+import { renderLinkErrorPage } from '@/templates/quote-acceptance-page';
+import { logger } from '@/utils/logger';
+import { prisma } from '@/utils/database';
+import { getAuditContext } from '@/utils/audit-log';
+
+// Instance du service
+const quoteAcceptanceService = new QuoteAcceptanceService(prisma);
+
+// Helper pour récupérer le jeton du lien public
+const getToken = (request: FastifyRequest): string => {
+  const { token } = request.params as { token: string };
+  return token;
+};
+
+// Statut HTTP des erreurs de lien : jeton falsifié, lien expiré ou devis supprimé
+const getLinkErrorStatus = (error: unknown): number | null => {
+  if (!(error instanceof Error)) {
+    return null;
+  }
+
+  if (error.message.includes('Invalid')) {
+    return 400;
+  }
+
+  if (error.message.includes('Lien expiré')) {
+    return 410;
+  }
+
+  if (error.message.includes('introuvable')) {
+    return 404;
+  }
+
+  return null;
+};
+
+/**
+ * Page publique d'acceptation d'un devis (sans authentification)
+ */
+export const showQuoteAcceptancePage = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const html = await quoteAcceptanceService.renderPublicPage(getToken(request));
+
+    reply
+      .header('Cache-Control', 'no-store')
+      .type('text/html; charset=utf-8')
+      .send(html);
+  } catch (error) {
+    const status = getLinkErrorStatus(error);
+
+    logger.error('Erreur contrôleur showQuoteAcceptancePage', {
+      ip: request.ip,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    reply
+      .status(status ?? 500)
+      .type('text/html; charset=utf-8')
+      .send(renderLinkErrorPage(status === 410
+        ? 'Ce lien a expiré.'
+        : status
+          ? 'Ce lien n\'est pas valide.'
+          : 'Le devis ne peut pas être affiché pour le moment.'));
+  }
+};
+
+/**
+ * Accepter un devis depuis son lien public : signature et mention "Bon pour accord"
+ */
+export const acceptQuoteOnline = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const data = AcceptQuoteOnlineSchema.parse(request.body);
+
+    const quote = await quoteAcceptanceService.acceptFromLink(getToken(request), data, getAuditContext(request));
+
+    reply.send({
+      message: 'Devis accepté avec succès',
+      quote: {
+        number: quote.number,
+        status: quote.status,
+        acceptedAt: quote.acceptedAt,
+      },
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur acceptQuoteOnline', {
+      ip: request.ip,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    if (error instanceof z.ZodError) {
+      return reply.status(400).send({
+        error: 'Données invalides',
+        message: error.errors.map(e => e.message).join(', '),
+      });
+    }
+
+    const status = getLinkErrorStatus(error);
+
+    if (status && error instanceof Error) {
+      return reply.status(status).send({
+        error: status === 410 ? 'Lien expiré' : 'Lien invalide',
+        message: error.message,
+      });
+    }
+
+    if (error instanceof Error && (error.message.includes('déjà') || error.message.includes('Transition interdite'))) {
+      return reply.status(409).send({
+        error: 'Conflit',
+        message: 'Ce devis ne peut plus être accepté',
+      });
+    }
+
+    reply.status(500).send({
+      error: 'Erreur serveur',
+      message: 'Impossible d\'enregistrer l\'acceptation du devis',
+    });
+  }
+};
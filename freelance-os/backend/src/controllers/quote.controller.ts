@@ -0,0 +1,560 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { QuoteService } from '@/services/quote.service';
+import { QuoteBillingService } from '@/services/quote-billing.service';
+import { QuoteAcceptanceService } from '@/services/quote-acceptance.service';
+import { PdfService } from '@/services/pdf.service';
+import {
+  CreateQuoteSchema,
+  UpdateQuoteSchema,
+  QuoteQuerySchema,
+  ConvertQuoteSchema,
+  QuoteRevisionDiffQuerySchema,
+  CreateDepositInvoiceSchema,
+  CreateFinalInvoiceSchema
+} from '@/types/quote.types';
+import { PdfQuerySchema } from '@/types/pdf.types';
+import { logger } from '@/utils/logger';
+import { prisma } from '@/utils/database';
+import { getAuditContext } from '@/utils/audit-log';
+
+// Instances des services
+const quoteService = new QuoteService(prisma);
+const quoteBillingService = new QuoteBillingService(prisma);
+const quoteAcceptanceService = new QuoteAcceptanceService(prisma);
+const pdfService = new PdfService(prisma);
+
+interface AuthenticatedUser {
+  userId: string;
+  email: string;
+  role: string;
+}
+
+// Helper pour récupérer l'utilisateur authentifié
+const getCurrentUser = (request: FastifyRequest): AuthenticatedUser => {
+  const user = (request as any).currentUser;
+  if (!user) {
+    throw new Error('Utilisateur non authentifié');
+  }
+  return user;
+};
+
+// Helper pour valider l'ID du devis
+const getQuoteId = (request: FastifyRequest): string | null => {
+  const { id } = request.params as { id: string };
+  return id && id.length >= 10 ? id : null;
+};
+
+// Réponse d'erreur commune aux contrôleurs devis
+const sendQuoteError = (reply: FastifyReply, error: unknown, fallbackMessage: string) => {
+  if (error instanceof z.ZodError) {
+    return reply.status(400).send({
+      error: 'Données invalides',
+      message: error.errors.map(e => e.message).join(', '),
+    });
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('introuvable')) {
+      return reply.status(404).send({
+        error: 'Ressource introuvable',
+        message: error.message,
+      });
+    }
+
+    if (error.message.includes('déjà') || error.message.includes('Transition interdite')) {
+      return reply.status(409).send({
+        error: 'Conflit',
+        message: error.message,
+      });
+    }
+
+    if (error.message.includes('Invalid')) {
+      return reply.status(400).send({
+        error: 'Données invalides',
+        message: error.message,
+      });
+    }
+  }
+
+  return reply.status(500).send({
+    error: 'Erreur serveur',
+    message: fallbackMessage,
+  });
+};
+
+const sendInvalidId = (reply: FastifyReply) => reply.status(400).send({
+  error: 'ID invalide',
+  message: 'L\'ID du devis est requis et doit être valide',
+});
+
+// ============================================================================
+// CONTRÔLEURS - DEVIS
+// ============================================================================
+
+/**
+ * Créer un devis brouillon
+ */
+export const createQuote = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const validData = CreateQuoteSchema.parse(request.body);
+
+    const quote = await quoteService.createQuote(getCurrentUser(request).userId, validData);
+
+    reply.status(201).send({
+      message: 'Devis créé avec succès',
+      quote,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur createQuote', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendQuoteError(reply, error, 'Impossible de créer le devis');
+  }
+};
+
+/**
+ * Lister les devis avec pagination
+ */
+export const listQuotes = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const validParams = QuoteQuerySchema.parse(request.query);
+
+    const result = await quoteService.getQuotes(getCurrentUser(request).userId, validParams);
+
+    reply.send(result);
+  } catch (error) {
+    logger.error('Erreur contrôleur listQuotes', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+      query: request.query,
+    });
+
+    sendQuoteError(reply, error, 'Impossible de récupérer les devis');
+  }
+};
+
+/**
+ * Récupérer un devis par ID
+ */
+export const getQuoteById = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getQuoteId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const quote = await quoteService.getQuoteById(getCurrentUser(request).userId, id);
+
+    reply.send({
+      quote,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur getQuoteById', {
+      userId: getCurrentUser(request).userId,
+      quoteId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendQuoteError(reply, error, 'Impossible de récupérer le devis');
+  }
+};
+
+/**
+ * Mettre à jour un devis brouillon
+ */
+export const updateQuote = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getQuoteId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const validData = UpdateQuoteSchema.parse(request.body);
+
+    const quote = await quoteService.updateQuote(getCurrentUser(request).userId, id, validData);
+
+    reply.send({
+      message: 'Devis mis à jour avec succès',
+      quote,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur updateQuote', {
+      userId: getCurrentUser(request).userId,
+      quoteId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendQuoteError(reply, error, 'Impossible de mettre à jour le devis');
+  }
+};
+
+/**
+ * Envoyer un devis (attribution du numéro)
+ */
+export const sendQuote = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getQuoteId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const quote = await quoteService.sendQuote(getCurrentUser(request).userId, id, getAuditContext(request));
+
+    reply.send({
+      message: 'Devis envoyé avec succès',
+      quote,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur sendQuote', {
+      userId: getCurrentUser(request).userId,
+      quoteId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendQuoteError(reply, error, 'Impossible d\'envoyer le devis');
+  }
+};
+
+/**
+ * Marquer un devis envoyé comme accepté
+ */
+export const acceptQuote = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getQuoteId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const quote = await quoteService.acceptQuote(getCurrentUser(request).userId, id, getAuditContext(request));
+
+    reply.send({
+      message: 'Devis accepté',
+      quote,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur acceptQuote', {
+      userId: getCurrentUser(request).userId,
+      quoteId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendQuoteError(reply, error, 'Impossible d\'accepter le devis');
+  }
+};
+
+/**
+ * Marquer un devis envoyé comme refusé
+ */
+export const declineQuote = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getQuoteId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const quote = await quoteService.declineQuote(getCurrentUser(request).userId, id, getAuditContext(request));
+
+    reply.send({
+      message: 'Devis refusé',
+      quote,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur declineQuote', {
+      userId: getCurrentUser(request).userId,
+      quoteId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendQuoteError(reply, error, 'Impossible de refuser le devis');
+  }
+};
+
+/**
+ * Créer le lien public d'acceptation d'un devis envoyé
+ */
+export const createQuotePublicLink = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getQuoteId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const link = await quoteAcceptanceService.createPublicLink(getCurrentUser(request).userId, id);
+
+    reply.status(201).send({
+      message: 'Lien d\'acceptation créé avec succès',
+      link,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur createQuotePublicLink', {
+      userId: getCurrentUser(request).userId,
+      quoteId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendQuoteError(reply, error, 'Impossible de créer le lien d\'acceptation');
+  }
+};
+
+/**
+ * Créer la révision suivante d'un devis
+ */
+export const reviseQuote = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getQuoteId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const quote = await quoteService.reviseQuote(getCurrentUser(request).userId, id, getAuditContext(request));
+
+    reply.status(201).send({
+      message: 'Révision du devis créée avec succès',
+      quote,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur reviseQuote', {
+      userId: getCurrentUser(request).userId,
+      quoteId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendQuoteError(reply, error, 'Impossible de réviser le devis');
+  }
+};
+
+/**
+ * Historique des révisions d'un devis
+ */
+export const listQuoteRevisions = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getQuoteId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const revisions = await quoteService.getRevisions(getCurrentUser(request).userId, id);
+
+    reply.send({ revisions });
+  } catch (error) {
+    logger.error('Erreur contrôleur listQuoteRevisions', {
+      userId: getCurrentUser(request).userId,
+      quoteId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendQuoteError(reply, error, 'Impossible de récupérer les révisions du devis');
+  }
+};
+
+/**
+ * Comparer deux révisions d'un devis
+ */
+export const diffQuoteRevisions = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getQuoteId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const validQuery = QuoteRevisionDiffQuerySchema.parse(request.query);
+
+    const diff = await quoteService.diffRevisions(getCurrentUser(request).userId, id, validQuery);
+
+    reply.send(diff);
+  } catch (error) {
+    logger.error('Erreur contrôleur diffQuoteRevisions', {
+      userId: getCurrentUser(request).userId,
+      quoteId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendQuoteError(reply, error, 'Impossible de comparer les révisions du devis');
+  }
+};
+
+/**
+ * Convertir un devis accepté en facture brouillon
+ */
+export const convertQuote = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getQuoteId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const validData = ConvertQuoteSchema.parse(request.body ?? {});
+
+    const invoice = await quoteService.convertQuote(getCurrentUser(request).userId, id, validData, getAuditContext(request));
+
+    reply.status(201).send({
+      message: 'Devis converti en facture avec succès',
+      invoice,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur convertQuote', {
+      userId: getCurrentUser(request).userId,
+      quoteId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendQuoteError(reply, error, 'Impossible de convertir le devis');
+  }
+};
+
+/**
+ * Supprimer un devis brouillon
+ */
+export const deleteQuote = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getQuoteId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    await quoteService.deleteQuote(getCurrentUser(request).userId, id);
+
+    reply.status(204).send();
+  } catch (error) {
+    logger.error('Erreur contrôleur deleteQuote', {
+      userId: getCurrentUser(request).userId,
+      quoteId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendQuoteError(reply, error, 'Impossible de supprimer le devis');
+  }
+};
+
+/**
+ * Télécharger le PDF d'un devis
+ */
+export const downloadQuotePdf = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getQuoteId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const { template } = PdfQuerySchema.parse(request.query);
+
+    const pdf = await pdfService.generateQuotePdf(getCurrentUser(request).userId, id, template);
+
+    reply
+      .type('application/pdf')
+      .header('Content-Disposition', `attachment; filename="${pdf.fileName}"`)
+      .send(pdf.content);
+  } catch (error) {
+    logger.error('Erreur contrôleur downloadQuotePdf', {
+      userId: getCurrentUser(request).userId,
+      quoteId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendQuoteError(reply, error, 'Impossible de générer le PDF');
+  }
+};
+
+// ============================================================================
+// CONTRÔLEURS - FACTURATION DES DEVIS
+// ============================================================================
+
+/**
+ * Créer une facture d'acompte depuis un devis accepté
+ */
+export const createDepositInvoice = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getQuoteId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const validData = CreateDepositInvoiceSchema.parse(request.body);
+
+    const invoice = await quoteBillingService.createDepositInvoice(getCurrentUser(request).userId, id, validData);
+
+    reply.status(201).send({
+      message: 'Facture d\'acompte créée avec succès',
+      invoice,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur createDepositInvoice', {
+      userId: getCurrentUser(request).userId,
+      quoteId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendQuoteError(reply, error, 'Impossible de créer la facture d\'acompte');
+  }
+};
+
+/**
+ * Créer la facture de solde d'un devis accepté (acomptes déduits)
+ */
+export const createFinalInvoice = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getQuoteId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const validData = CreateFinalInvoiceSchema.parse(request.body ?? {});
+
+    const invoice = await quoteBillingService.createFinalInvoice(getCurrentUser(request).userId, id, validData);
+
+    reply.status(201).send({
+      message: 'Facture de solde créée avec succès',
+      invoice,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur createFinalInvoice', {
+      userId: getCurrentUser(request).userId,
+      quoteId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendQuoteError(reply, error, 'Impossible de créer la facture de solde');
+  }
+};
+
+/**
+ * Récapitulatif de facturation d'un devis
+ */
+export const getQuoteBillingSummary = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getQuoteId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const summary = await quoteBillingService.getBillingSummary(getCurrentUser(request).userId, id);
+
+    reply.send(summary);
+  } catch (error) {
+    logger.error('Erreur contrôleur getQuoteBillingSummary', {
+      userId: getCurrentUser(request).userId,
+      quoteId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendQuoteError(reply, error, 'Impossible de récupérer le récapitulatif de facturation');
+  }
+};
@@ -0,0 +1,191 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { RecurringInvoiceService } from '@/services/recurring-invoice.service';
+import { CreateRecurringInvoiceSchema, UpdateRecurringInvoiceSchema } from '@/types/recurring-invoice.types';
+import { logger } from '@/utils/logger';
+import { prisma } from '@/utils/database';
+
+// Instance du service
+const recurringInvoiceService = new RecurringInvoiceService(prisma);
+
+interface AuthenticatedUser {
+  userId: string;
+  email: string;
+  role: string;
+}
+
+// Helper pour récupérer l'utilisateur authentifié
+const getCurrentUser = (request: FastifyRequest): AuthenticatedUser => {
+  const user = (request as any).currentUser;
+  if (!user) {
+    throw new Error('Utilisateur non authentifié');
+  }
+  return user;
+};
+
+// Helper pour valider l'ID du modèle récurrent
+const getRecurringInvoiceId = (request: FastifyRequest): string | null => {
+  const { id } = request.params as { id: string };
+  return id && id.length >= 10 ? id : null;
+};
+
+// Réponse d'erreur commune aux contrôleurs factures récurrentes
+const sendRecurringInvoiceError = (reply: FastifyReply, error: unknown, fallbackMessage: string) => {
+  if (error instanceof z.ZodError) {
+    return reply.status(400).send({
+      error: 'Données invalides',
+      message: error.errors.map(e => e.message).join(', '),
+    });
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('introuvable')) {
+      return reply.status(404).send({
+        error: 'Ressource introuvable',
+        message: error.message,
+      });
+    }
+
+    if (error.message.includes('Invalid')) {
+      return reply.status(400).send({
+        error: 'Données invalides',
+        message: error.message,
+      });
+    }
+  }
+
+  return reply.status(500).send({
+    error: 'Erreur serveur',
+    message: fallbackMessage,
+  });
+};
+
+const sendInvalidId = (reply: FastifyReply) => reply.status(400).send({
+  error: 'ID invalide',
+  message: 'L\'ID de la facture récurrente est requis et doit être valide',
+});
+
+// ============================================================================
+// CONTRÔLEURS
+// ============================================================================
+
+/**
+ * Créer un modèle de facture récurrente
+ */
+export const createRecurringInvoice = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const validData = CreateRecurringInvoiceSchema.parse(request.body);
+
+    const recurringInvoice = await recurringInvoiceService.createRecurringInvoice(getCurrentUser(request).userId, validData);
+
+    reply.status(201).send({
+      message: 'Facture récurrente créée avec succès',
+      recurringInvoice,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur createRecurringInvoice', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendRecurringInvoiceError(reply, error, 'Impossible de créer la facture récurrente');
+  }
+};
+
+/**
+ * Lister les modèles récurrents
+ */
+export const listRecurringInvoices = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const recurringInvoices = await recurringInvoiceService.getRecurringInvoices(getCurrentUser(request).userId);
+
+    reply.send({ recurringInvoices });
+  } catch (error) {
+    logger.error('Erreur contrôleur listRecurringInvoices', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendRecurringInvoiceError(reply, error, 'Impossible de récupérer les factures récurrentes');
+  }
+};
+
+/**
+ * Récupérer un modèle récurrent par ID
+ */
+export const getRecurringInvoiceById = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getRecurringInvoiceId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const recurringInvoice = await recurringInvoiceService.getRecurringInvoiceById(getCurrentUser(request).userId, id);
+
+    reply.send({ recurringInvoice });
+  } catch (error) {
+    logger.error('Erreur contrôleur getRecurringInvoiceById', {
+      userId: getCurrentUser(request).userId,
+      recurringInvoiceId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendRecurringInvoiceError(reply, error, 'Impossible de récupérer la facture récurrente');
+  }
+};
+
+/**
+ * Mettre à jour un modèle récurrent
+ */
+export const updateRecurringInvoice = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getRecurringInvoiceId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const validData = UpdateRecurringInvoiceSchema.parse(request.body);
+
+    const recurringInvoice = await recurringInvoiceService.updateRecurringInvoice(getCurrentUser(request).userId, id, validData);
+
+    reply.send({
+      message: 'Facture récurrente mise à jour avec succès',
+      recurringInvoice,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur updateRecurringInvoice', {
+      userId: getCurrentUser(request).userId,
+      recurringInvoiceId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendRecurringInvoiceError(reply, error, 'Impossible de mettre à jour la facture récurrente');
+  }
+};
+
+/**
+ * Supprimer un modèle récurrent
+ */
+export const deleteRecurringInvoice = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getRecurringInvoiceId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    await recurringInvoiceService.deleteRecurringInvoice(getCurrentUser(request).userId, id);
+
+    reply.status(204).send();
+  } catch (error) {
+    logger.error('Erreur contrôleur deleteRecurringInvoice', {
+      userId: getCurrentUser(request).userId,
+      recurringInvoiceId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendRecurringInvoiceError(reply, error, 'Impossible de supprimer la facture récurrente');
+  }
+};
@@ -0,0 +1,425 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { TimeTrackingService } from '@/services/time-tracking.service';
+import { TimeBillingService } from '@/services/time-billing.service';
+import {
+  StartTimerSchema,
+  CreateTimeEntrySchema,
+  UpdateTimeEntrySchema,
+  TimeEntryQuerySchema,
+  TimesheetQuerySchema,
+  UpdateTimeSettingsSchema,
+  UnbilledTimeQuerySchema,
+  InvoiceUnbilledTimeSchema
+} from '@/types/time-tracking.types';
+import { getAuditContext } from '@/utils/audit-log';
+import { logger } from '@/utils/logger';
+import { prisma } from '@/utils/database';
+
+// Instance du service
+const timeTrackingService = new TimeTrackingService(prisma);
+const timeBillingService = new TimeBillingService(prisma);
+
+interface AuthenticatedUser {
+  userId: string;
+  email: string;
+  role: string;
+}
+
+// Helper pour récupérer l'utilisateur authentifié
+const getCurrentUser = (request: FastifyRequest): AuthenticatedUser => {
+  const user = (request as any).currentUser;
+  if (!user) {
+    throw new Error('Utilisateur non authentifié');
+  }
+  return user;
+};
+
+// Helper pour valider l'ID de la saisie
+const getEntryId = (request: FastifyRequest): string | null => {
+  const { id } = request.params as { id: string };
+  return id && id.length >= 10 ? id : null;
+};
+
+// Réponse d'erreur commune aux contrôleurs du suivi du temps
+const sendTimeError = (reply: FastifyReply, error: unknown, fallbackMessage: string) => {
+  if (error instanceof z.ZodError) {
+    return reply.status(400).send({
+      error: 'Données invalides',
+      message: error.errors.map(e => e.message).join(', '),
+    });
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('introuvable')) {
+      return reply.status(404).send({
+        error: 'Ressource introuvable',
+        message: error.message,
+      });
+    }
+
+    if (error.message.includes('déjà')) {
+      return reply.status(409).send({
+        error: 'Conflit',
+        message: error.message,
+      });
+    }
+
+    if (error.message.includes('Invalid')) {
+      return reply.status(400).send({
+        error: 'Données invalides',
+        message: error.message,
+      });
+    }
+  }
+
+  return reply.status(500).send({
+    error: 'Erreur serveur',
+    message: fallbackMessage,
+  });
+};
+
+const sendInvalidId = (reply: FastifyReply) => reply.status(400).send({
+  error: 'ID invalide',
+  message: 'L\'ID de la saisie est requis et doit être valide',
+});
+
+// ============================================================================
+// CONTRÔLEURS - CHRONOMÈTRE
+// ============================================================================
+
+/**
+ * Démarrer le chronomètre
+ */
+export const startTimer = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const validData = StartTimerSchema.parse(request.body);
+
+    const timer = await timeTrackingService.startTimer(getCurrentUser(request).userId, validData);
+
+    reply.status(201).send({
+      message: 'Chronomètre démarré',
+      timer,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur startTimer', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendTimeError(reply, error, 'Impossible de démarrer le chronomètre');
+  }
+};
+
+/**
+ * Arrêter le chronomètre et enregistrer le créneau
+ */
+export const stopTimer = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const entry = await timeTrackingService.stopTimer(getCurrentUser(request).userId);
+
+    reply.send({
+      message: 'Chronomètre arrêté',
+      entry,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur stopTimer', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendTimeError(reply, error, 'Impossible d\'arrêter le chronomètre');
+  }
+};
+
+/**
+ * Chronomètre en cours
+ */
+export const getRunningTimer = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const timer = await timeTrackingService.getRunningTimer(getCurrentUser(request).userId);
+
+    reply.send({
+      timer,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur getRunningTimer', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendTimeError(reply, error, 'Impossible de récupérer le chronomètre');
+  }
+};
+
+/**
+ * Abandonner le chronomètre sans enregistrer de temps
+ */
+export const discardTimer = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const result = await timeTrackingService.discardTimer(getCurrentUser(request).userId);
+
+    reply.send(result);
+  } catch (error) {
+    logger.error('Erreur contrôleur discardTimer', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendTimeError(reply, error, 'Impossible d\'abandonner le chronomètre');
+  }
+};
+
+// ============================================================================
+// CONTRÔLEURS - SAISIES
+// ============================================================================
+
+/**
+ * Saisie manuelle d'un créneau
+ */
+export const createTimeEntry = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const validData = CreateTimeEntrySchema.parse(request.body);
+
+    const entry = await timeTrackingService.createEntry(getCurrentUser(request).userId, validData);
+
+    reply.status(201).send({
+      message: 'Temps saisi avec succès',
+      entry,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur createTimeEntry', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendTimeError(reply, error, 'Impossible d\'enregistrer le temps');
+  }
+};
+
+/**
+ * Lister les saisies avec pagination
+ */
+export const listTimeEntries = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const validParams = TimeEntryQuerySchema.parse(request.query);
+
+    const result = await timeTrackingService.getEntries(getCurrentUser(request).userId, validParams);
+
+    reply.send(result);
+  } catch (error) {
+    logger.error('Erreur contrôleur listTimeEntries', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+      query: request.query,
+    });
+
+    sendTimeError(reply, error, 'Impossible de récupérer les saisies');
+  }
+};
+
+/**
+ * Récupérer une saisie
+ */
+export const getTimeEntryById = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getEntryId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const entry = await timeTrackingService.getEntryById(getCurrentUser(request).userId, id);
+
+    reply.send({
+      entry,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur getTimeEntryById', {
+      userId: getCurrentUser(request).userId,
+      timeEntryId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendTimeError(reply, error, 'Impossible de récupérer la saisie');
+  }
+};
+
+/**
+ * Modifier une saisie
+ */
+export const updateTimeEntry = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getEntryId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const validData = UpdateTimeEntrySchema.parse(request.body);
+
+    const entry = await timeTrackingService.updateEntry(getCurrentUser(request).userId, id, validData);
+
+    reply.send({
+      message: 'Saisie mise à jour avec succès',
+      entry,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur updateTimeEntry', {
+      userId: getCurrentUser(request).userId,
+      timeEntryId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendTimeError(reply, error, 'Impossible de mettre à jour la saisie');
+  }
+};
+
+/**
+ * Supprimer une saisie
+ */
+export const deleteTimeEntry = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const id = getEntryId(request);
+
+    if (!id) {
+      return sendInvalidId(reply);
+    }
+
+    const result = await timeTrackingService.deleteEntry(getCurrentUser(request).userId, id);
+
+    reply.send(result);
+  } catch (error) {
+    logger.error('Erreur contrôleur deleteTimeEntry', {
+      userId: getCurrentUser(request).userId,
+      timeEntryId: (request.params as { id: string }).id,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendTimeError(reply, error, 'Impossible de supprimer la saisie');
+  }
+};
+
+// ============================================================================
+// CONTRÔLEURS - FACTURATION DU TEMPS
+// ============================================================================
+
+/**
+ * Aperçu du temps non facturé d'un projet ou d'un client
+ */
+export const previewUnbilledTime = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const validParams = UnbilledTimeQuerySchema.parse(request.query);
+
+    const unbilled = await timeBillingService.previewUnbilledTime(getCurrentUser(request).userId, validParams);
+
+    reply.send({
+      unbilled,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur previewUnbilledTime', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+      query: request.query,
+    });
+
+    sendTimeError(reply, error, 'Impossible de calculer le temps non facturé');
+  }
+};
+
+/**
+ * Facturer le temps non facturé (facture brouillon)
+ */
+export const invoiceUnbilledTime = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const validData = InvoiceUnbilledTimeSchema.parse(request.body);
+
+    const invoice = await timeBillingService.invoiceUnbilledTime(
+      getCurrentUser(request).userId,
+      validData,
+      getAuditContext(request)
+    );
+
+    reply.status(201).send({
+      message: 'Facture de temps créée',
+      invoice,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur invoiceUnbilledTime', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendTimeError(reply, error, 'Impossible de facturer le temps');
+  }
+};
+
+// ============================================================================
+// CONTRÔLEURS - FEUILLE DE TEMPS ET RÉGLAGES
+// ============================================================================
+
+/**
+ * Feuille de temps hebdomadaire
+ */
+export const getTimesheet = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const { date } = TimesheetQuerySchema.parse(request.query);
+
+    const timesheet = await timeTrackingService.getTimesheet(getCurrentUser(request).userId, date);
+
+    reply.send({
+      timesheet,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur getTimesheet', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+      query: request.query,
+    });
+
+    sendTimeError(reply, error, 'Impossible de générer la feuille de temps');
+  }
+};
+
+/**
+ * Réglages du suivi du temps
+ */
+export const getTimeSettings = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const settings = await timeTrackingService.getSettings(getCurrentUser(request).userId);
+
+    reply.send({
+      settings,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur getTimeSettings', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendTimeError(reply, error, 'Impossible de récupérer les réglages');
+  }
+};
+
+/**
+ * Modifier l'arrondi des saisies
+ */
+export const updateTimeSettings = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const validData = UpdateTimeSettingsSchema.parse(request.body);
+
+    const settings = await timeTrackingService.updateSettings(getCurrentUser(request).userId, validData);
+
+    reply.send({
+      message: 'Réglages mis à jour',
+      settings,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur updateTimeSettings', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    sendTimeError(reply, error, 'Impossible de mettre à jour les réglages');
+  }
+};
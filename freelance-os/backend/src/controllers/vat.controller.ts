@@ -0,0 +1,83 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { VatService } from '@/services/vat.service';
+import { UpdateVatSettingsSchema } from '@/types/vat.types';
+import { logger } from '@/utils/logger';
+import { prisma } from '@/utils/database';
+
+// Instance du service
+const vatService = new VatService(prisma);
+
+interface AuthenticatedUser {
+  userId: string;
+  email: string;
+  role: string;
+}
+
+// Helper pour récupérer l'utilisateur authentifié
+const getCurrentUser = (request: FastifyRequest): AuthenticatedUser => {
+  const user = (request as any).currentUser;
+  if (!user) {
+    throw new Error('Utilisateur non authentifié');
+  }
+  return user;
+};
+
+// ============================================================================
+// CONTRÔLEURS
+// ============================================================================
+
+/**
+ * Récupérer le régime de TVA du freelance
+ */
+export const getVatSettings = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const settings = await vatService.getSettings(getCurrentUser(request).userId);
+
+    reply.send({ settings });
+  } catch (error) {
+    logger.error('Erreur contrôleur getVatSettings', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+    });
+
+    reply.status(500).send({
+      error: 'Erreur serveur',
+      message: 'Impossible de récupérer le régime de TVA',
+    });
+  }
+};
+
+/**
+ * Modifier le régime de TVA (franchise en base ou régime normal)
+ */
+export const updateVatSettings = async (request: FastifyRequest, reply: FastifyReply) => {
+  try {
+    const validData = UpdateVatSettingsSchema.parse(request.body);
+
+    const settings = await vatService.updateSettings(getCurrentUser(request).userId, validData);
+
+    reply.send({
+      message: 'Régime de TVA mis à jour avec succès',
+      settings,
+    });
+  } catch (error) {
+    logger.error('Erreur contrôleur updateVatSettings', {
+      userId: getCurrentUser(request).userId,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+      body: request.body,
+    });
+
+    if (error instanceof z.ZodError) {
+      return reply.status(400).send({
+        error: 'Données invalides',
+        message: error.errors.map(e => e.message).join(', '),
+      });
+    }
+
+    reply.status(500).send({
+      error: 'Erreur serveur',
+      message: 'Impossible de mettre à jour le régime de TVA',
+    });
+  }
+};
@@ -0,0 +1,16 @@
+import { ProjectBudgetService } from '@/services/project-budget.service'
+import { prisma } from '@/utils/database'
+import { startPeriodicJob } from '@/jobs/periodic-job'
+
+/**
+ * Tâche planifiée : contrôle des seuils d'alerte budget des projets ouverts
+ * (rattrape les contrôles faits après chaque saisie de temps)
+ */
+
+export const BUDGET_ALERTS_CHECK_INTERVAL_MS = 60 * 60 * 1000 // Toutes les heures
+
+const projectBudgetService = new ProjectBudgetService(prisma)
+
+export function startBudgetAlertsJob(): NodeJS.Timeout {
+  return startPeriodicJob('alertes budget', () => projectBudgetService.checkAllBudgetAlerts(), BUDGET_ALERTS_CHECK_INTERVAL_MS)
+}
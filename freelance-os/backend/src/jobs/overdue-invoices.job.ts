@@ -0,0 +1,15 @@
+import { InvoiceService } from '@/services/invoice.service'
+import { prisma } from '@/utils/database'
+import { startPeriodicJob } from '@/jobs/periodic-job'
+
+/**
+ * Tâche planifiée : passage automatique en OVERDUE des factures dont l'échéance est dépassée
+ */
+
+export const OVERDUE_CHECK_INTERVAL_MS = 60 * 60 * 1000 // Toutes les heures
+
+const invoiceService = new InvoiceService(prisma)
+
+export function startOverdueInvoicesJob(): NodeJS.Timeout {
+  return startPeriodicJob('factures en retard', () => invoiceService.markOverdueInvoices(), OVERDUE_CHECK_INTERVAL_MS)
+}
@@ -0,0 +1,24 @@
+import { logger } from '@/utils/logger'
+
+/**
+ * Démarre une tâche planifiée (immédiate puis périodique) et retourne le timer à arrêter
+ * Une erreur est journalisée sans arrêter la tâche : le passage suivant reprend le travail
+ */
+export function startPeriodicJob(name: string, run: () => Promise<unknown>, intervalMs: number): NodeJS.Timeout {
+  const execute = async (): Promise<void> => {
+    try {
+      await run()
+    } catch (error) {
+      logger.error(`❌ Erreur tâche ${name}`, error)
+    }
+  }
+
+  void execute()
+
+  const timer = setInterval(() => {
+    void execute()
+  }, intervalMs)
+  timer.unref()
+
+  return timer
+}
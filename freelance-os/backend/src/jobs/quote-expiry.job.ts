@@ -0,0 +1,15 @@
+import { QuoteService } from '@/services/quote.service'
+import { prisma } from '@/utils/database'
+import { startPeriodicJob } from '@/jobs/periodic-job'
+
+/**
+ * Tâche planifiée : passage automatique en EXPIRED des devis envoyés dont la date de validité est dépassée
+ */
+
+export const QUOTE_EXPIRY_CHECK_INTERVAL_MS = 60 * 60 * 1000 // Toutes les heures
+
+const quoteService = new QuoteService(prisma)
+
+export function startQuoteExpiryJob(): NodeJS.Timeout {
+  return startPeriodicJob('expiration des devis', () => quoteService.expireQuotes(), QUOTE_EXPIRY_CHECK_INTERVAL_MS)
+}
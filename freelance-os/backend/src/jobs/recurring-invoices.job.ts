@@ -0,0 +1,20 @@
+import { RecurringInvoiceService } from '@/services/recurring-invoice.service'
+import { prisma } from '@/utils/database'
+import { startPeriodicJob } from '@/jobs/periodic-job'
+
+/**
+ * Tâche planifiée : génération des factures récurrentes dont l'échéance est atteinte
+ * Sans risque de double facturation si plusieurs instances tournent ou après un redémarrage
+ */
+
+export const RECURRING_INVOICES_INTERVAL_MS = 60 * 60 * 1000 // Toutes les heures
+
+const recurringInvoiceService = new RecurringInvoiceService(prisma)
+
+export function startRecurringInvoicesJob(): NodeJS.Timeout {
+  return startPeriodicJob(
+    'factures récurrentes',
+    () => recurringInvoiceService.runDueRecurringInvoices(),
+    RECURRING_INVOICES_INTERVAL_MS
+  )
+}
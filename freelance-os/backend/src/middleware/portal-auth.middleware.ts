@@ -0,0 +1,42 @@
+import type { FastifyRequest, FastifyReply } from 'fastify'
+import { ClientPortalService } from '@/services/client-portal.service'
+import { PortalScope } from '@/utils/client-portal'
+import { prisma } from '@/utils/database'
+import { logger } from '@/utils/logger'
+
+const clientPortalService = new ClientPortalService(prisma)
+
+// Interface pour les requêtes du portail client
+export interface PortalRequest extends FastifyRequest {
+  portalClient?: PortalScope
+}
+
+// Middleware d'authentification du portail client (sessions distinctes des JWT utilisateurs)
+export async function portalAuthMiddleware(
+  request: PortalRequest,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    const authHeader = request.headers.authorization
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return reply.code(401).send({
+        error: 'Session portail requise',
+        code: 'UNAUTHORIZED'
+      })
+    }
+
+    request.portalClient = await clientPortalService.authenticate(authHeader.substring(7))
+
+  } catch (error) {
+    logger.warn('Échec d\'authentification portail', {
+      error: (error as Error).message,
+      endpoint: request.url,
+      ip: request.ip
+    })
+
+    return reply.code(401).send({
+      error: 'Session portail invalide ou expirée',
+      code: 'INVALID_TOKEN'
+    })
+  }
+}
@@ -0,0 +1,324 @@
+import { FastifyPluginAsync } from 'fastify'
+import {
+  requestPortalLink,
+  verifyPortalLink,
+  getPortalOverview,
+  listPortalInvoices,
+  downloadPortalInvoicePdf,
+  listPortalQuotes,
+  downloadPortalQuotePdf,
+  listPortalRemittanceProofs,
+  uploadRemittanceProof,
+} from '@/controllers/client-portal.controller'
+import { portalAuthMiddleware } from '@/middleware/portal-auth.middleware'
+
+// ============================================================================
+// SCHÉMAS OPENAPI
+// ============================================================================
+
+const INVOICE_STATUSES = ['DRAFT', 'SENT', 'PAID', 'OVERDUE', 'CANCELLED']
+const QUOTE_STATUSES = ['DRAFT', 'SENT', 'ACCEPTED', 'DECLINED', 'EXPIRED']
+
+// Justificatif encodé en base64 : 5 Mo de fichier, soit environ 7 Mo de requête
+const REMITTANCE_PROOF_BODY_LIMIT = 8 * 1024 * 1024
+
+const ErrorSchema = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    message: { type: 'string' },
+  },
+}
+
+const IdParamsSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string' },
+  },
+}
+
+const PortalClientSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    company: { type: 'string', nullable: true },
+  },
+}
+
+const BalanceSchema = {
+  type: 'object',
+  nullable: true,
+  properties: {
+    total: { type: 'number' },
+    paidAmount: { type: 'number' },
+    creditedAmount: { type: 'number' },
+    balanceDue: { type: 'number' },
+    overpayment: { type: 'number' },
+  },
+}
+
+const RemittanceProofSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    invoiceId: { type: 'string' },
+    fileName: { type: 'string' },
+    mimeType: { type: 'string' },
+    size: { type: 'number' },
+    note: { type: 'string', nullable: true },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+const clientPortalRoutes: FastifyPluginAsync = async (fastify) => {
+  // POST /api/v1/portal/auth/request-link
+  fastify.post('/auth/request-link', {
+    schema: {
+      description: 'Recevoir par email un lien de connexion à l\'espace client (valable 15 minutes, usage unique)',
+      tags: ['portal'],
+      body: {
+        type: 'object',
+        required: ['email'],
+        additionalProperties: false,
+        properties: {
+          email: { type: 'string', format: 'email' },
+        },
+      },
+      response: {
+        202: {
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+          },
+        },
+        400: { description: 'Email invalide', ...ErrorSchema },
+      },
+    },
+    handler: requestPortalLink,
+  })
+
+  // POST /api/v1/portal/auth/verify
+  fastify.post('/auth/verify', {
+    schema: {
+      description: 'Échanger le lien de connexion contre une session portail (8 heures)',
+      tags: ['portal'],
+      body: {
+        type: 'object',
+        required: ['token'],
+        additionalProperties: false,
+        properties: {
+          token: { type: 'string' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            session: {
+              type: 'object',
+              properties: {
+                token: { type: 'string' },
+                expiresAt: { type: 'string', format: 'date-time' },
+                client: PortalClientSchema,
+                issuer: { type: 'string' },
+              },
+            },
+          },
+        },
+        401: { description: 'Lien invalide, expiré ou déjà utilisé', ...ErrorSchema },
+      },
+    },
+    handler: verifyPortalLink,
+  })
+
+  // Espace client : session portail obligatoire
+  await fastify.register(async (portal) => {
+    portal.addHook('preHandler', portalAuthMiddleware)
+
+    // GET /api/v1/portal/me
+    portal.get('/me', {
+      schema: {
+        description: 'Synthèse de l\'espace client : reste dû et montant échu par devise, devis en attente',
+        tags: ['portal'],
+        security: [{ portalAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              overview: {
+                type: 'object',
+                properties: {
+                  client: PortalClientSchema,
+                  issuer: { type: 'string' },
+                  invoicesCount: { type: 'number' },
+                  openQuotesCount: { type: 'number' },
+                  balances: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        currency: { type: 'string' },
+                        balanceDue: { type: 'number' },
+                        overdueAmount: { type: 'number' },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      handler: getPortalOverview,
+    })
+
+    // GET /api/v1/portal/invoices
+    portal.get('/invoices', {
+      schema: {
+        description: 'Factures et avoirs émis pour le client, avec leur solde',
+        tags: ['portal'],
+        security: [{ portalAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              invoices: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    number: { type: 'string', nullable: true },
+                    type: { type: 'string', enum: ['INVOICE', 'CREDIT_NOTE'] },
+                    status: { type: 'string', enum: INVOICE_STATUSES },
+                    issueDate: { type: 'string', format: 'date-time' },
+                    dueDate: { type: 'string', format: 'date-time' },
+                    currency: { type: 'string' },
+                    total: { type: 'number' },
+                    balance: BalanceSchema,
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      handler: listPortalInvoices,
+    })
+
+    // GET /api/v1/portal/invoices/:id/pdf
+    portal.get('/invoices/:id/pdf', {
+      schema: {
+        description: 'Télécharger le PDF d\'une facture ou d\'un avoir',
+        tags: ['portal'],
+        security: [{ portalAuth: [] }],
+        params: IdParamsSchema,
+      },
+      handler: downloadPortalInvoicePdf,
+    })
+
+    // POST /api/v1/portal/invoices/:id/remittance-proofs
+    portal.post('/invoices/:id/remittance-proofs', {
+      bodyLimit: REMITTANCE_PROOF_BODY_LIMIT,
+      schema: {
+        description: 'Déposer un justificatif de virement (PDF, PNG ou JPEG encodé en base64, 5 Mo maximum)',
+        tags: ['portal'],
+        security: [{ portalAuth: [] }],
+        params: IdParamsSchema,
+        body: {
+          type: 'object',
+          required: ['fileName', 'mimeType', 'content'],
+          additionalProperties: false,
+          properties: {
+            fileName: { type: 'string' },
+            mimeType: { type: 'string', enum: ['application/pdf', 'image/png', 'image/jpeg'] },
+            content: { type: 'string', description: 'Fichier encodé en base64' },
+            note: { type: 'string', maxLength: 500 },
+          },
+        },
+        response: {
+          201: {
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              proof: RemittanceProofSchema,
+            },
+          },
+          400: { description: 'Fichier invalide ou facture non émise', ...ErrorSchema },
+          404: { description: 'Facture introuvable', ...ErrorSchema },
+        },
+      },
+      handler: uploadRemittanceProof,
+    })
+
+    // GET /api/v1/portal/quotes
+    portal.get('/quotes', {
+      schema: {
+        description: 'Devis envoyés au client',
+        tags: ['portal'],
+        security: [{ portalAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              quotes: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    number: { type: 'string', nullable: true },
+                    status: { type: 'string', enum: QUOTE_STATUSES },
+                    issueDate: { type: 'string', format: 'date-time' },
+                    validUntil: { type: 'string', format: 'date-time' },
+                    acceptedAt: { type: 'string', format: 'date-time', nullable: true },
+                    currency: { type: 'string' },
+                    total: { type: 'number' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      handler: listPortalQuotes,
+    })
+
+    // GET /api/v1/portal/quotes/:id/pdf
+    portal.get('/quotes/:id/pdf', {
+      schema: {
+        description: 'Télécharger le PDF d\'un devis',
+        tags: ['portal'],
+        security: [{ portalAuth: [] }],
+        params: IdParamsSchema,
+      },
+      handler: downloadPortalQuotePdf,
+    })
+
+    // GET /api/v1/portal/remittance-proofs
+    portal.get('/remittance-proofs', {
+      schema: {
+        description: 'Justificatifs de virement déposés par le client',
+        tags: ['portal'],
+        security: [{ portalAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              proofs: { type: 'array', items: RemittanceProofSchema },
+            },
+          },
+        },
+      },
+      handler: listPortalRemittanceProofs,
+    })
+  })
+}
+
+export default clientPortalRoutes
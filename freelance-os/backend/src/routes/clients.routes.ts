@@ -6,6 +6,10 @@ import {
   updateClient,
   deleteClient,
   getClientsStats,
+  getClientPortal,
+  updateClientPortal,
+  listClientRemittanceProofs,
+  downloadClientRemittanceProof,
 } from '@/controllers/client.controller';
 import { authMiddleware } from '@/middleware/auth.middleware';
 
@@ -38,6 +42,19 @@ const ClientSchema = {
   },
 };
 
+// Statistiques calculées (CA net des avoirs, reste dû)
+const ClientStatsSchema = {
+  type: 'object',
+  properties: {
+    totalInvoices: { type: 'number' },
+    totalRevenue: { type: 'number' },
+    outstandingBalance: { type: 'number' },
+    creditBalance: { type: 'number' },
+    averagePaymentDelay: { type: 'number' },
+    interactionsCount: { type: 'number' },
+  },
+};
+
 const CreateClientSchema = {
   type: 'object',
   required: ['name'],
@@ -59,6 +76,44 @@ const CreateClientSchema = {
   },
 };
 
+const IdParamsSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string' },
+  },
+};
+
+const ErrorSchema = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    message: { type: 'string' },
+  },
+};
+
+const PortalAccessSchema = {
+  type: 'object',
+  properties: {
+    clientId: { type: 'string' },
+    enabled: { type: 'boolean' },
+    email: { type: 'string', nullable: true },
+  },
+};
+
+const RemittanceProofSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    invoiceId: { type: 'string' },
+    fileName: { type: 'string' },
+    mimeType: { type: 'string' },
+    size: { type: 'number' },
+    note: { type: 'string', nullable: true },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+};
+
 // ============================================================================
 // ROUTES
 // ============================================================================
@@ -137,15 +192,7 @@ export async function clientRoutes(fastify: FastifyInstance) {
                   ClientSchema,
                   {
                     properties: {
-                      _stats: {
-                        type: 'object',
-                        properties: {
-                          totalInvoices: { type: 'number' },
-                          totalRevenue: { type: 'number' },
-                          averagePaymentDelay: { type: 'number' },
-                          interactionsCount: { type: 'number' },
-                        },
-                      },
+                      _stats: ClientStatsSchema,
                     },
                   },
                 ],
@@ -189,7 +236,12 @@ export async function clientRoutes(fastify: FastifyInstance) {
           description: 'Détails du client',
           type: 'object',
           properties: {
-            client: ClientSchema,
+            client: {
+              allOf: [
+                ClientSchema,
+                { properties: { _stats: ClientStatsSchema } },
+              ],
+            },
           },
         },
         404: {
@@ -323,4 +375,100 @@ export async function clientRoutes(fastify: FastifyInstance) {
     },
     handler: getClientsStats,
   });
-}
\ No newline at end of file
+
+  /**
+   * État du portail client
+   */
+  fastify.get('/:id/portal', {
+    schema: {
+      description: 'Accès du client au portail (connexion par lien magique)',
+      tags: ['Clients'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            portal: PortalAccessSchema,
+          },
+        },
+        404: { description: 'Client introuvable', ...ErrorSchema },
+      },
+    },
+    handler: getClientPortal,
+  });
+
+  /**
+   * Ouvrir ou fermer le portail client
+   */
+  fastify.put('/:id/portal', {
+    schema: {
+      description: 'Ouvrir ou fermer le portail du client (email du client par défaut) ; toute modification révoque les sessions ouvertes',
+      tags: ['Clients'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      body: {
+        type: 'object',
+        required: ['enabled'],
+        additionalProperties: false,
+        properties: {
+          enabled: { type: 'boolean' },
+          email: { type: 'string', format: 'email' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            portal: PortalAccessSchema,
+          },
+        },
+        400: { description: 'Aucune adresse email pour ouvrir le portail', ...ErrorSchema },
+        404: { description: 'Client introuvable', ...ErrorSchema },
+      },
+    },
+    handler: updateClientPortal,
+  });
+
+  /**
+   * Justificatifs de virement du client
+   */
+  fastify.get('/:id/remittance-proofs', {
+    schema: {
+      description: 'Justificatifs de virement déposés par le client depuis le portail',
+      tags: ['Clients'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            proofs: { type: 'array', items: RemittanceProofSchema },
+          },
+        },
+      },
+    },
+    handler: listClientRemittanceProofs,
+  });
+
+  /**
+   * Télécharger un justificatif de virement
+   */
+  fastify.get('/:id/remittance-proofs/:proofId', {
+    schema: {
+      description: 'Télécharger un justificatif de virement (PDF, PNG ou JPEG)',
+      tags: ['Clients'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        required: ['id', 'proofId'],
+        properties: {
+          id: { type: 'string' },
+          proofId: { type: 'string' },
+        },
+      },
+    },
+    handler: downloadClientRemittanceProof,
+  });
+}
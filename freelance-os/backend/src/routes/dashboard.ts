@@ -1,17 +1,75 @@
 import { FastifyPluginAsync } from 'fastify'
+import { getDashboardStats, getPaymentMethods } from '@/controllers/dashboard.controller'
+import { authMiddleware } from '@/middleware/auth.middleware'
 
 const dashboardRoutes: FastifyPluginAsync = async (fastify) => {
+  // Hook d'authentification pour toutes les routes dashboard
+  fastify.addHook('preHandler', authMiddleware)
+
   // GET /api/v1/dashboard/stats
-  fastify.get('/stats', async (request, reply) => {
-    reply.send({ 
-      message: 'Statistiques dashboard - À implémenter',
-      stats: {
-        totalRevenue: 0,
-        unpaidInvoices: 0,
-        activeClients: 0,
-        pendingProspects: 0
-      }
-    })
+  fastify.get('/stats', {
+    schema: {
+      description: 'Indicateurs principaux dans la devise du dashboard : CA HT net des avoirs, reste dû, factures impayées',
+      tags: ['dashboard'],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            stats: {
+              type: 'object',
+              properties: {
+                currency: { type: 'string' },
+                totalRevenue: { type: 'number' },
+                creditedRevenue: { type: 'number' },
+                outstandingBalance: { type: 'number' },
+                unpaidInvoices: { type: 'number' },
+                activeClients: { type: 'number' },
+                pendingProspects: { type: 'number' },
+              },
+            },
+          },
+        },
+      },
+    },
+    handler: getDashboardStats,
+  })
+
+  // GET /api/v1/dashboard/payment-methods
+  fastify.get('/payment-methods', {
+    schema: {
+      description: 'Encaissements par moyen de paiement dans la devise du dashboard (période optionnelle)',
+      tags: ['dashboard'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          from: { type: 'string', format: 'date-time' },
+          to: { type: 'string', format: 'date-time' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            currency: { type: 'string' },
+            totalAmount: { type: 'number' },
+            methods: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  method: { type: 'string', enum: ['BANK_TRANSFER', 'CHECK', 'CASH', 'CARD', 'PAYPAL', 'STRIPE', 'OTHER'] },
+                  count: { type: 'number' },
+                  amount: { type: 'number' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    handler: getPaymentMethods,
   })
 
   // GET /api/v1/dashboard/cash-flow
@@ -1,38 +1,746 @@
 import { FastifyPluginAsync } from 'fastify'
+import {
+  createInvoice,
+  listInvoices,
+  getInvoiceById,
+  updateInvoice,
+  deleteInvoice,
+  issueInvoice,
+  createCreditNote,
+  listCreditNotes,
+  createPayment,
+  listPayments,
+  deletePayment,
+  downloadInvoicePdf,
+  exportInvoice,
+  listPdfTemplates,
+  updatePdfTemplate,
+  getLatePenalties,
+  createPenaltyInvoice,
+  sendInvoiceReminder,
+  getPenaltySettings,
+  updatePenaltySettings,
+} from '@/controllers/invoice.controller'
+import { authMiddleware } from '@/middleware/auth.middleware'
+
+// ============================================================================
+// SCHÉMAS OPENAPI
+// ============================================================================
+
+const INVOICE_STATUSES = ['DRAFT', 'SENT', 'PAID', 'OVERDUE', 'CANCELLED']
+const INVOICE_TYPES = ['INVOICE', 'CREDIT_NOTE']
+const BILLING_STAGES = ['DEPOSIT', 'FINAL']
+const VAT_REGIMES = ['STANDARD', 'FRANCHISE', 'REVERSE_CHARGE']
+const PDF_TEMPLATES = ['classic', 'modern', 'minimal']
+const FACTURX_PROFILES = ['MINIMUM', 'BASIC_WL', 'BASIC', 'EN16931']
+const EXPORT_FORMATS = ['ubl', 'cii']
+const PAYMENT_METHODS = ['BANK_TRANSFER', 'CHECK', 'CASH', 'CARD', 'PAYPAL', 'STRIPE', 'OTHER']
+
+const ErrorSchema = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    message: { type: 'string' },
+  },
+}
+
+const IdParamsSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string' },
+  },
+}
+
+const InvoiceItemSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    description: { type: 'string' },
+    quantity: { type: 'number' },
+    unitPrice: { type: 'number' },
+    vatRate: { type: 'number' },
+    total: { type: 'number' },
+  },
+}
+
+const VatBreakdownSchema = {
+  type: 'object',
+  properties: {
+    rate: { type: 'number' },
+    basisAmount: { type: 'number' },
+    taxAmount: { type: 'number' },
+  },
+}
+
+const InvoiceSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    number: { type: 'string', nullable: true },
+    type: { type: 'string', enum: INVOICE_TYPES },
+    correctedInvoiceId: { type: 'string', nullable: true },
+    recurringInvoiceId: { type: 'string', nullable: true },
+    quoteId: { type: 'string', nullable: true },
+    billingStage: { type: 'string', enum: BILLING_STAGES, nullable: true },
+    clientId: { type: 'string' },
+    client: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        name: { type: 'string' },
+        company: { type: 'string', nullable: true },
+      },
+    },
+    issueDate: { type: 'string', format: 'date-time' },
+    dueDate: { type: 'string', format: 'date-time' },
+    paidAt: { type: 'string', format: 'date-time', nullable: true },
+    subtotal: { type: 'number' },
+    vatRate: { type: 'number' },
+    vatAmount: { type: 'number' },
+    total: { type: 'number' },
+    vatRegime: { type: 'string', enum: VAT_REGIMES },
+    vatBreakdown: { type: 'array', items: VatBreakdownSchema },
+    status: { type: 'string', enum: INVOICE_STATUSES },
+    currency: { type: 'string' },
+    exchangeRate: { type: 'number', nullable: true },
+    exchangeRateDate: { type: 'string', format: 'date-time', nullable: true },
+    exchangeRateSource: { type: 'string', nullable: true },
+    latePenaltyRate: { type: 'number', nullable: true },
+    penalizedInvoiceId: { type: 'string', nullable: true },
+    penaltyUntil: { type: 'string', format: 'date-time', nullable: true },
+    notes: { type: 'string', nullable: true },
+    pdfPath: { type: 'string', nullable: true },
+    items: { type: 'array', items: InvoiceItemSchema },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+}
+
+const PaymentSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    invoiceId: { type: 'string' },
+    amount: { type: 'number' },
+    paidAt: { type: 'string', format: 'date-time' },
+    method: { type: 'string', enum: PAYMENT_METHODS },
+    reference: { type: 'string', nullable: true },
+    notes: { type: 'string', nullable: true },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+}
+
+// Solde de la facture : le trop-perçu (overpayment) reste au crédit du client
+const InvoicePaymentsProperties = {
+  invoice: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      number: { type: 'string', nullable: true },
+      status: { type: 'string', enum: INVOICE_STATUSES },
+      paidAt: { type: 'string', format: 'date-time', nullable: true },
+    },
+  },
+  balance: {
+    type: 'object',
+    properties: {
+      total: { type: 'number' },
+      paidAmount: { type: 'number' },
+      creditedAmount: { type: 'number' },
+      balanceDue: { type: 'number' },
+      overpayment: { type: 'number' },
+    },
+  },
+  payments: { type: 'array', items: PaymentSchema },
+}
+
+// Pénalités de retard exigibles, dans la devise de la facture
+const LatePenaltySchema = {
+  type: 'object',
+  properties: {
+    invoiceId: { type: 'string' },
+    number: { type: 'string' },
+    currency: { type: 'string' },
+    dueDate: { type: 'string', format: 'date-time' },
+    asOf: { type: 'string', format: 'date-time' },
+    daysLate: { type: 'number' },
+    annualRate: { type: 'number' },
+    outstandingAmount: { type: 'number' },
+    interestAmount: { type: 'number' },
+    indemnityAmount: { type: 'number' },
+    totalAmount: { type: 'number' },
+    billedUntil: { type: 'string', format: 'date-time', nullable: true },
+  },
+}
+
+const PenaltySettingsSchema = {
+  type: 'object',
+  properties: {
+    referenceRate: { type: 'number' },
+    margin: { type: 'number' },
+    annualRate: { type: 'number' },
+    indemnityAmount: { type: 'number' },
+  },
+}
+
+// Les montants calculés (subtotal, vatAmount, total) ne font pas partie du corps accepté
+const InvoiceItemBodySchema = {
+  type: 'object',
+  required: ['description', 'quantity', 'unitPrice'],
+  additionalProperties: false,
+  properties: {
+    description: { type: 'string', minLength: 1, maxLength: 500 },
+    quantity: { type: 'number', exclusiveMinimum: 0 },
+    unitPrice: { type: 'number', minimum: 0 },
+    vatRate: { type: 'number', minimum: 0, maximum: 100 },
+  },
+}
+
+const InvoiceBodyProperties = {
+  clientId: { type: 'string' },
+  issueDate: { type: 'string', format: 'date-time' },
+  dueDate: { type: 'string', format: 'date-time' },
+  vatRate: { type: 'number', minimum: 0, maximum: 100 },
+  currency: { type: 'string', minLength: 3, maxLength: 3 },
+  notes: { type: 'string', maxLength: 2000 },
+  items: { type: 'array', minItems: 1, maxItems: 200, items: InvoiceItemBodySchema },
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
 
 const invoiceRoutes: FastifyPluginAsync = async (fastify) => {
+  // Hook d'authentification pour toutes les routes factures
+  fastify.addHook('preHandler', authMiddleware)
+
   // GET /api/v1/invoices
-  fastify.get('/', async (request, reply) => {
-    reply.send({ 
-      message: 'Liste des factures - À implémenter',
-      invoices: []
-    })
+  fastify.get('/', {
+    schema: {
+      description: 'Lister les factures avec pagination et filtres',
+      tags: ['invoices'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          page: { type: 'string', pattern: '^\\d+$', default: '1' },
+          limit: { type: 'string', pattern: '^\\d+$', default: '20' },
+          search: { type: 'string', maxLength: 100 },
+          status: { type: 'string', enum: INVOICE_STATUSES },
+          type: { type: 'string', enum: INVOICE_TYPES },
+          clientId: { type: 'string' },
+          sortBy: { type: 'string', enum: ['issueDate', 'dueDate', 'number', 'total', 'createdAt'], default: 'issueDate' },
+          sortOrder: { type: 'string', enum: ['asc', 'desc'], default: 'desc' },
+        },
+      },
+      response: {
+        200: {
+          description: 'Liste des factures',
+          type: 'object',
+          properties: {
+            invoices: { type: 'array', items: InvoiceSchema },
+            pagination: {
+              type: 'object',
+              properties: {
+                page: { type: 'number' },
+                limit: { type: 'number' },
+                total: { type: 'number' },
+                totalPages: { type: 'number' },
+                hasNext: { type: 'boolean' },
+                hasPrev: { type: 'boolean' },
+              },
+            },
+          },
+        },
+      },
+    },
+    handler: listInvoices,
   })
 
   // POST /api/v1/invoices
-  fastify.post('/', async (request, reply) => {
-    reply.send({ message: 'Création facture - À implémenter' })
+  fastify.post('/', {
+    schema: {
+      description: 'Créer une facture (montants calculés côté serveur)',
+      tags: ['invoices'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['clientId', 'items'],
+        additionalProperties: false,
+        properties: InvoiceBodyProperties,
+      },
+      response: {
+        201: {
+          description: 'Facture créée avec succès',
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            invoice: InvoiceSchema,
+          },
+        },
+        400: { description: 'Données invalides', ...ErrorSchema },
+        404: { description: 'Client introuvable', ...ErrorSchema },
+      },
+    },
+    handler: createInvoice,
   })
 
   // GET /api/v1/invoices/:id
-  fastify.get('/:id', async (request, reply) => {
-    reply.send({ message: 'Détail facture - À implémenter' })
+  fastify.get('/:id', {
+    schema: {
+      description: 'Récupérer une facture par son ID',
+      tags: ['invoices'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      response: {
+        200: {
+          description: 'Détails de la facture',
+          type: 'object',
+          properties: {
+            invoice: InvoiceSchema,
+          },
+        },
+        404: { description: 'Facture introuvable', ...ErrorSchema },
+      },
+    },
+    handler: getInvoiceById,
   })
 
   // PUT /api/v1/invoices/:id
-  fastify.put('/:id', async (request, reply) => {
-    reply.send({ message: 'Modification facture - À implémenter' })
+  fastify.put('/:id', {
+    schema: {
+      description: 'Mettre à jour une facture brouillon (les lignes fournies remplacent les existantes)',
+      tags: ['invoices'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      body: {
+        type: 'object',
+        additionalProperties: false,
+        properties: InvoiceBodyProperties,
+      },
+      response: {
+        200: {
+          description: 'Facture mise à jour',
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            invoice: InvoiceSchema,
+          },
+        },
+        400: { description: 'Données invalides', ...ErrorSchema },
+        404: { description: 'Facture introuvable', ...ErrorSchema },
+        409: { description: 'Facture émise non modifiable', ...ErrorSchema },
+      },
+    },
+    handler: updateInvoice,
+  })
+
+  // POST /api/v1/invoices/:id/issue
+  fastify.post('/:id/issue', {
+    schema: {
+      description: 'Émettre une facture : attribution du numéro légal, taux de change figé et passage au statut SENT',
+      tags: ['invoices'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      body: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          exchangeRate: { type: 'number', exclusiveMinimum: 0, description: 'Taux saisi : unités de la devise pour 1 EUR' },
+        },
+      },
+      response: {
+        200: {
+          description: 'Facture émise',
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            invoice: InvoiceSchema,
+          },
+        },
+        400: { description: 'Taux de change indisponible pour la devise', ...ErrorSchema },
+        404: { description: 'Facture introuvable', ...ErrorSchema },
+        409: { description: 'Facture déjà émise', ...ErrorSchema },
+      },
+    },
+    handler: issueInvoice,
+  })
+
+  // GET /api/v1/invoices/:id/credit-notes
+  fastify.get('/:id/credit-notes', {
+    schema: {
+      description: 'Lister les avoirs émis sur une facture',
+      tags: ['invoices'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      response: {
+        200: {
+          description: 'Avoirs de la facture',
+          type: 'object',
+          properties: {
+            creditNotes: { type: 'array', items: InvoiceSchema },
+          },
+        },
+        404: { description: 'Facture introuvable', ...ErrorSchema },
+      },
+    },
+    handler: listCreditNotes,
+  })
+
+  // POST /api/v1/invoices/:id/credit-notes
+  fastify.post('/:id/credit-notes', {
+    schema: {
+      description: 'Émettre un avoir sur une facture émise (sans lignes : avoir total, la facture est annulée)',
+      tags: ['invoices'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      body: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          items: InvoiceBodyProperties.items,
+          notes: InvoiceBodyProperties.notes,
+        },
+      },
+      response: {
+        201: {
+          description: 'Avoir émis',
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            creditNote: InvoiceSchema,
+          },
+        },
+        400: { description: 'Montant supérieur au reste à créditer', ...ErrorSchema },
+        404: { description: 'Facture introuvable', ...ErrorSchema },
+        409: { description: 'Facture brouillon ou déjà annulée', ...ErrorSchema },
+      },
+    },
+    handler: createCreditNote,
+  })
+
+  // GET /api/v1/invoices/:id/payments
+  fastify.get('/:id/payments', {
+    schema: {
+      description: 'Lister les paiements d\'une facture et son reste dû',
+      tags: ['invoices'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      response: {
+        200: {
+          description: 'Paiements et solde de la facture',
+          type: 'object',
+          properties: InvoicePaymentsProperties,
+        },
+        404: { description: 'Facture introuvable', ...ErrorSchema },
+      },
+    },
+    handler: listPayments,
+  })
+
+  // POST /api/v1/invoices/:id/payments
+  fastify.post('/:id/payments', {
+    schema: {
+      description: 'Enregistrer un paiement total ou partiel (statut PAID dès que le solde est nul)',
+      tags: ['invoices'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      body: {
+        type: 'object',
+        required: ['amount'],
+        additionalProperties: false,
+        properties: {
+          amount: { type: 'number', exclusiveMinimum: 0 },
+          paidAt: { type: 'string', format: 'date-time' },
+          method: { type: 'string', enum: PAYMENT_METHODS },
+          reference: { type: 'string', maxLength: 100 },
+          notes: { type: 'string', maxLength: 1000 },
+        },
+      },
+      response: {
+        201: {
+          description: 'Paiement enregistré',
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            payment: PaymentSchema,
+            ...InvoicePaymentsProperties,
+          },
+        },
+        400: { description: 'Données invalides ou facture non émise', ...ErrorSchema },
+        404: { description: 'Facture introuvable', ...ErrorSchema },
+        409: { description: 'Facture annulée', ...ErrorSchema },
+      },
+    },
+    handler: createPayment,
+  })
+
+  // DELETE /api/v1/invoices/:id/payments/:paymentId
+  fastify.delete('/:id/payments/:paymentId', {
+    schema: {
+      description: 'Supprimer un paiement (le statut de la facture est recalculé)',
+      tags: ['invoices'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        required: ['id', 'paymentId'],
+        properties: {
+          id: { type: 'string' },
+          paymentId: { type: 'string' },
+        },
+      },
+      response: {
+        200: {
+          description: 'Paiement supprimé',
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            ...InvoicePaymentsProperties,
+          },
+        },
+        404: { description: 'Facture ou paiement introuvable', ...ErrorSchema },
+      },
+    },
+    handler: deletePayment,
+  })
+
+  // GET /api/v1/invoices/:id/penalties
+  fastify.get('/:id/penalties', {
+    schema: {
+      description: 'Calculer les pénalités de retard et l\'indemnité forfaitaire d\'une facture en retard',
+      tags: ['invoices'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      querystring: {
+        type: 'object',
+        properties: {
+          asOf: { type: 'string', format: 'date-time' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            penalties: LatePenaltySchema,
+          },
+        },
+        404: { description: 'Facture introuvable', ...ErrorSchema },
+        409: { description: 'Facture non en retard', ...ErrorSchema },
+      },
+    },
+    handler: getLatePenalties,
+  })
+
+  // POST /api/v1/invoices/:id/penalty-invoice
+  fastify.post('/:id/penalty-invoice', {
+    schema: {
+      description: 'Facturer les pénalités de retard et l\'indemnité forfaitaire (brouillon à émettre)',
+      tags: ['invoices'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      body: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          dueDate: { type: 'string', format: 'date-time' },
+          notes: { type: 'string', maxLength: 2000 },
+        },
+      },
+      response: {
+        201: {
+          description: 'Facture de pénalités créée (brouillon)',
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            invoice: InvoiceSchema,
+          },
+        },
+        400: { description: 'Aucune pénalité à facturer', ...ErrorSchema },
+        404: { description: 'Facture introuvable', ...ErrorSchema },
+        409: { description: 'Facture non en retard ou pénalités déjà en brouillon', ...ErrorSchema },
+      },
+    },
+    handler: createPenaltyInvoice,
+  })
+
+  // POST /api/v1/invoices/:id/reminders
+  fastify.post('/:id/reminders', {
+    schema: {
+      description: 'Relancer par email le client d\'une facture en retard, avec les pénalités exigibles',
+      tags: ['invoices'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            sentTo: { type: 'string' },
+            subject: { type: 'string' },
+            penalties: LatePenaltySchema,
+          },
+        },
+        400: { description: 'Client sans adresse email', ...ErrorSchema },
+        404: { description: 'Facture introuvable', ...ErrorSchema },
+        409: { description: 'Facture non en retard', ...ErrorSchema },
+      },
+    },
+    handler: sendInvoiceReminder,
   })
 
   // DELETE /api/v1/invoices/:id
-  fastify.delete('/:id', async (request, reply) => {
-    reply.send({ message: 'Suppression facture - À implémenter' })
+  fastify.delete('/:id', {
+    schema: {
+      description: 'Supprimer une facture brouillon',
+      tags: ['invoices'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      response: {
+        204: {
+          description: 'Facture supprimée',
+          type: 'null',
+        },
+        404: { description: 'Facture introuvable', ...ErrorSchema },
+        409: { description: 'Facture numérotée non supprimable', ...ErrorSchema },
+      },
+    },
+    handler: deleteInvoice,
+  })
+
+  // GET /api/v1/invoices/templates
+  fastify.get('/templates', {
+    schema: {
+      description: 'Templates PDF disponibles et template par défaut du freelance',
+      tags: ['invoices'],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            current: { type: 'string', enum: PDF_TEMPLATES },
+            templates: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  label: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    handler: listPdfTemplates,
+  })
+
+  // PUT /api/v1/invoices/templates
+  fastify.put('/templates', {
+    schema: {
+      description: 'Choisir le template PDF par défaut des factures et devis',
+      tags: ['invoices'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['template'],
+        properties: {
+          template: { type: 'string', enum: PDF_TEMPLATES },
+        },
+      },
+    },
+    handler: updatePdfTemplate,
+  })
+
+  // GET /api/v1/invoices/penalty-settings
+  fastify.get('/penalty-settings', {
+    schema: {
+      description: 'Taux des pénalités de retard : taux de référence BCE et marge',
+      tags: ['invoices'],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            settings: PenaltySettingsSchema,
+          },
+        },
+      },
+    },
+    handler: getPenaltySettings,
+  })
+
+  // PUT /api/v1/invoices/penalty-settings
+  fastify.put('/penalty-settings', {
+    schema: {
+      description: 'Modifier le taux des pénalités de retard (factures émises ensuite)',
+      tags: ['invoices'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          referenceRate: { type: 'number', minimum: 0, maximum: 100 },
+          margin: { type: 'number', minimum: 0, maximum: 100 },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            settings: PenaltySettingsSchema,
+          },
+        },
+      },
+    },
+    handler: updatePenaltySettings,
   })
 
   // GET /api/v1/invoices/:id/pdf
-  fastify.get('/:id/pdf', async (request, reply) => {
-    reply.send({ message: 'Génération PDF - À implémenter' })
+  fastify.get('/:id/pdf', {
+    schema: {
+      description: 'Générer et télécharger le PDF d\'une facture (Factur-X PDF/A-3 pour une facture émise)',
+      tags: ['invoices'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      querystring: {
+        type: 'object',
+        properties: {
+          template: { type: 'string', enum: PDF_TEMPLATES },
+          profile: { type: 'string', enum: FACTURX_PROFILES },
+        },
+      },
+      response: {
+        400: { description: 'XML Factur-X non conforme au schéma', ...ErrorSchema },
+        404: { description: 'Facture introuvable', ...ErrorSchema },
+      },
+    },
+    handler: downloadInvoicePdf,
+  })
+
+  // GET /api/v1/invoices/:id/export
+  fastify.get('/:id/export', {
+    schema: {
+      description: 'Exporter une facture émise en XML UBL 2.1 ou UN/CEFACT CII (EN 16931)',
+      tags: ['invoices'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      querystring: {
+        type: 'object',
+        required: ['format'],
+        properties: {
+          format: { type: 'string', enum: EXPORT_FORMATS },
+        },
+      },
+      response: {
+        400: { description: 'Facture non émise ou format invalide', ...ErrorSchema },
+        404: { description: 'Facture introuvable', ...ErrorSchema },
+      },
+    },
+    handler: exportInvoice,
   })
 }
 
-export default invoiceRoutes
\ No newline at end of file
+export default invoiceRoutes
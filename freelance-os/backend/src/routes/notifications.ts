@@ -0,0 +1,189 @@
+import { FastifyPluginAsync } from 'fastify'
+import {
+  listNotifications,
+  markNotificationAsRead,
+  markAllNotificationsAsRead,
+  getNotificationSettings,
+  updateNotificationSettings,
+} from '@/controllers/notification.controller'
+import { authMiddleware } from '@/middleware/auth.middleware'
+
+// ============================================================================
+// SCHÉMAS OPENAPI
+// ============================================================================
+
+const ErrorSchema = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    message: { type: 'string' },
+  },
+}
+
+const IdParamsSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string' },
+  },
+}
+
+const NotificationSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    type: { type: 'string', enum: ['BUDGET_ALERT'] },
+    title: { type: 'string' },
+    message: { type: 'string' },
+    projectId: { type: 'string', nullable: true },
+    readAt: { type: 'string', format: 'date-time', nullable: true },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+}
+
+const SettingsSchema = {
+  type: 'object',
+  properties: {
+    budgetAlertThresholds: { type: 'array', items: { type: 'number' } },
+  },
+}
+
+// ============================================================================
+// ROUTES NOTIFICATIONS
+// ============================================================================
+
+const notificationRoutes: FastifyPluginAsync = async (fastify) => {
+  // Hook d'authentification pour toutes les routes des notifications
+  fastify.addHook('preHandler', authMiddleware)
+
+  // GET /api/v1/notifications
+  fastify.get('/', {
+    schema: {
+      description: 'Lister les notifications (plus récentes d\'abord, `unread=true` pour les non lues)',
+      tags: ['notifications'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          page: { type: 'string', pattern: '^\\d+$', default: '1' },
+          limit: { type: 'string', pattern: '^\\d+$', default: '20' },
+          unread: { type: 'string', enum: ['true', 'false'] },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            notifications: { type: 'array', items: NotificationSchema },
+            unreadCount: { type: 'number' },
+            pagination: {
+              type: 'object',
+              properties: {
+                page: { type: 'number' },
+                limit: { type: 'number' },
+                total: { type: 'number' },
+                totalPages: { type: 'number' },
+                hasNext: { type: 'boolean' },
+                hasPrev: { type: 'boolean' },
+              },
+            },
+          },
+        },
+        400: { description: 'Paramètres invalides', ...ErrorSchema },
+      },
+    },
+    handler: listNotifications,
+  })
+
+  // POST /api/v1/notifications/read-all
+  fastify.post('/read-all', {
+    schema: {
+      description: 'Marquer toutes les notifications comme lues',
+      tags: ['notifications'],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            count: { type: 'number' },
+          },
+        },
+      },
+    },
+    handler: markAllNotificationsAsRead,
+  })
+
+  // POST /api/v1/notifications/:id/read
+  fastify.post('/:id/read', {
+    schema: {
+      description: 'Marquer une notification comme lue',
+      tags: ['notifications'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            notification: NotificationSchema,
+          },
+        },
+        400: { description: 'ID invalide', ...ErrorSchema },
+        404: { description: 'Notification introuvable', ...ErrorSchema },
+      },
+    },
+    handler: markNotificationAsRead,
+  })
+
+  // GET /api/v1/notifications/settings
+  fastify.get('/settings', {
+    schema: {
+      description: 'Seuils d\'alerte budget des projets (% du budget consommé)',
+      tags: ['notifications'],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            settings: SettingsSchema,
+          },
+        },
+      },
+    },
+    handler: getNotificationSettings,
+  })
+
+  // PUT /api/v1/notifications/settings
+  fastify.put('/settings', {
+    schema: {
+      description: 'Modifier les seuils d\'alerte budget (liste vide : aucune alerte)',
+      tags: ['notifications'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['budgetAlertThresholds'],
+        additionalProperties: false,
+        properties: {
+          budgetAlertThresholds: {
+            type: 'array',
+            maxItems: 10,
+            items: { type: 'integer', minimum: 1, maximum: 500 },
+          },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            settings: SettingsSchema,
+          },
+        },
+        400: { description: 'Données invalides', ...ErrorSchema },
+      },
+    },
+    handler: updateNotificationSettings,
+  })
+}
+
+export default notificationRoutes
@@ -0,0 +1,84 @@
+import { FastifyPluginAsync } from 'fastify'
+import { getNumberingSettings, updateNumberingSettings } from '@/controllers/numbering.controller'
+import { authMiddleware } from '@/middleware/auth.middleware'
+
+// ============================================================================
+// SCHÉMAS OPENAPI
+// ============================================================================
+
+const DOCUMENT_TYPES = ['INVOICE', 'QUOTE', 'CREDIT_NOTE']
+
+const NumberingSettingsSchema = {
+  type: 'object',
+  properties: {
+    documentType: { type: 'string', enum: DOCUMENT_TYPES },
+    pattern: { type: 'string' },
+    resetPeriod: { type: 'string', enum: ['NEVER', 'YEARLY', 'MONTHLY'] },
+    period: { type: 'string', nullable: true },
+    lastValue: { type: 'number' },
+    nextNumberPreview: { type: 'string' },
+  },
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+const numberingRoutes: FastifyPluginAsync = async (fastify) => {
+  // Hook d'authentification pour toutes les routes de numérotation
+  fastify.addHook('preHandler', authMiddleware)
+
+  // GET /api/v1/numbering
+  fastify.get('/', {
+    schema: {
+      description: 'Paramètres de numérotation des factures et devis',
+      tags: ['invoices'],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            settings: { type: 'array', items: NumberingSettingsSchema },
+          },
+        },
+      },
+    },
+    handler: getNumberingSettings,
+  })
+
+  // PUT /api/v1/numbering/:documentType
+  fastify.put('/:documentType', {
+    schema: {
+      description: 'Modifier le motif de numérotation (ex : FAC-{YYYY}-{seq:4})',
+      tags: ['invoices'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        required: ['documentType'],
+        properties: {
+          documentType: { type: 'string', enum: DOCUMENT_TYPES },
+        },
+      },
+      body: {
+        type: 'object',
+        required: ['pattern'],
+        properties: {
+          pattern: { type: 'string', minLength: 1, maxLength: 50 },
+          resetPeriod: { type: 'string', enum: ['NEVER', 'YEARLY', 'MONTHLY'] },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            settings: NumberingSettingsSchema,
+          },
+        },
+      },
+    },
+    handler: updateNumberingSettings,
+  })
+}
+
+export default numberingRoutes
@@ -0,0 +1,302 @@
+import { FastifyPluginAsync } from 'fastify'
+import {
+  listProjectTemplates,
+  createProjectTemplate,
+  saveProjectAsTemplate,
+  getProjectTemplateById,
+  updateProjectTemplate,
+  deleteProjectTemplate,
+  instantiateProjectTemplate,
+} from '@/controllers/project-template.controller'
+import { authMiddleware } from '@/middleware/auth.middleware'
+
+// ============================================================================
+// SCHÉMAS OPENAPI
+// ============================================================================
+
+const PRIORITIES = ['LOW', 'MEDIUM', 'HIGH', 'URGENT']
+
+const ErrorSchema = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    message: { type: 'string' },
+  },
+}
+
+const IdParamsSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string' },
+  },
+}
+
+const DeleteResultSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    message: { type: 'string' },
+  },
+}
+
+const TemplateSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    description: { type: 'string', nullable: true },
+    budget: { type: 'number', nullable: true },
+    hourlyRate: { type: 'number', nullable: true },
+    deadlineOffsetDays: { type: 'number', nullable: true },
+    tasks: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          title: { type: 'string' },
+          description: { type: 'string', nullable: true },
+          priority: { type: 'string', enum: PRIORITIES },
+          dueOffsetDays: { type: 'number', nullable: true },
+          sortOrder: { type: 'number' },
+        },
+      },
+    },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+}
+
+const TemplateMessageSchema = {
+  type: 'object',
+  properties: {
+    message: { type: 'string' },
+    template: TemplateSchema,
+  },
+}
+
+const OffsetDaysProperty = { type: 'integer', minimum: 0, maximum: 3650 }
+
+const TemplateBodyProperties = {
+  name: { type: 'string', minLength: 2, maxLength: 100 },
+  description: { type: 'string', maxLength: 2000 },
+  budget: { type: 'number', minimum: 0 },
+  hourlyRate: { type: 'number', minimum: 0 },
+  deadlineOffsetDays: OffsetDaysProperty,
+  tasks: {
+    type: 'array',
+    maxItems: 100,
+    items: {
+      type: 'object',
+      required: ['title'],
+      additionalProperties: false,
+      properties: {
+        title: { type: 'string', minLength: 1, maxLength: 200 },
+        description: { type: 'string', maxLength: 2000 },
+        priority: { type: 'string', enum: PRIORITIES },
+        dueOffsetDays: OffsetDaysProperty,
+      },
+    },
+  },
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+const projectTemplateRoutes: FastifyPluginAsync = async (fastify) => {
+  // Hook d'authentification pour toutes les routes des modèles de projet
+  fastify.addHook('preHandler', authMiddleware)
+
+  // GET /api/v1/project-templates
+  fastify.get('/', {
+    schema: {
+      description: 'Lister les modèles de projet (par nom)',
+      tags: ['projects'],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            templates: { type: 'array', items: TemplateSchema },
+          },
+        },
+      },
+    },
+    handler: listProjectTemplates,
+  })
+
+  // POST /api/v1/project-templates
+  fastify.post('/', {
+    schema: {
+      description: 'Créer un modèle de projet (échéances en jours après le démarrage)',
+      tags: ['projects'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['name'],
+        additionalProperties: false,
+        properties: TemplateBodyProperties,
+      },
+      response: {
+        201: { description: 'Modèle créé avec succès', ...TemplateMessageSchema },
+        400: { description: 'Données invalides', ...ErrorSchema },
+      },
+    },
+    handler: createProjectTemplate,
+  })
+
+  // POST /api/v1/project-templates/from-project/:projectId
+  fastify.post('/from-project/:projectId', {
+    schema: {
+      description: 'Enregistrer un projet comme modèle : tâches, budget, taux horaire et échéances relatives',
+      tags: ['projects'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        required: ['projectId'],
+        properties: {
+          projectId: { type: 'string' },
+        },
+      },
+      body: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          name: TemplateBodyProperties.name,
+          description: TemplateBodyProperties.description,
+        },
+      },
+      response: {
+        201: { description: 'Modèle créé depuis le projet', ...TemplateMessageSchema },
+        400: { description: 'Données invalides', ...ErrorSchema },
+        404: { description: 'Projet introuvable', ...ErrorSchema },
+      },
+    },
+    handler: saveProjectAsTemplate,
+  })
+
+  // GET /api/v1/project-templates/:id
+  fastify.get('/:id', {
+    schema: {
+      description: 'Récupérer un modèle de projet',
+      tags: ['projects'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            template: TemplateSchema,
+          },
+        },
+        404: { description: 'Modèle introuvable', ...ErrorSchema },
+      },
+    },
+    handler: getProjectTemplateById,
+  })
+
+  // PUT /api/v1/project-templates/:id
+  fastify.put('/:id', {
+    schema: {
+      description: 'Modifier un modèle (null efface la valeur ; tasks remplace toutes les tâches)',
+      tags: ['projects'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      body: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          ...TemplateBodyProperties,
+          budget: { type: 'number', minimum: 0, nullable: true },
+          hourlyRate: { type: 'number', minimum: 0, nullable: true },
+          deadlineOffsetDays: { ...OffsetDaysProperty, nullable: true },
+        },
+      },
+      response: {
+        200: { description: 'Modèle mis à jour', ...TemplateMessageSchema },
+        400: { description: 'Données invalides', ...ErrorSchema },
+        404: { description: 'Modèle introuvable', ...ErrorSchema },
+      },
+    },
+    handler: updateProjectTemplate,
+  })
+
+  // DELETE /api/v1/project-templates/:id
+  fastify.delete('/:id', {
+    schema: {
+      description: 'Supprimer un modèle (les projets déjà créés sont conservés)',
+      tags: ['projects'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      response: {
+        200: { description: 'Modèle supprimé', ...DeleteResultSchema },
+        404: { description: 'Modèle introuvable', ...ErrorSchema },
+      },
+    },
+    handler: deleteProjectTemplate,
+  })
+
+  // POST /api/v1/project-templates/:id/instantiate
+  fastify.post('/:id/instantiate', {
+    schema: {
+      description: 'Créer un projet depuis un modèle : échéances du projet et des tâches décalées depuis startDate',
+      tags: ['projects'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      body: {
+        type: 'object',
+        required: ['startDate'],
+        additionalProperties: false,
+        properties: {
+          clientId: { type: 'string' },
+          startDate: { type: 'string', format: 'date-time' },
+          name: TemplateBodyProperties.name,
+        },
+      },
+      response: {
+        201: {
+          description: 'Projet créé',
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            project: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                name: { type: 'string' },
+                description: { type: 'string', nullable: true },
+                startDate: { type: 'string', format: 'date-time' },
+                endDate: { type: 'string', format: 'date-time', nullable: true },
+                deadline: { type: 'string', format: 'date-time', nullable: true },
+                budget: { type: 'number', nullable: true },
+                hourlyRate: { type: 'number', nullable: true },
+                status: { type: 'string' },
+                clientId: { type: 'string', nullable: true },
+                client: {
+                  type: 'object',
+                  nullable: true,
+                  properties: {
+                    id: { type: 'string' },
+                    name: { type: 'string' },
+                    company: { type: 'string', nullable: true },
+                  },
+                },
+                tasksCount: { type: 'number' },
+                completedTasksCount: { type: 'number' },
+                createdAt: { type: 'string', format: 'date-time' },
+                updatedAt: { type: 'string', format: 'date-time' },
+              },
+            },
+          },
+        },
+        400: { description: 'Données invalides', ...ErrorSchema },
+        404: { description: 'Modèle ou client introuvable', ...ErrorSchema },
+      },
+    },
+    handler: instantiateProjectTemplate,
+  })
+}
+
+export default projectTemplateRoutes
@@ -0,0 +1,733 @@
+import { FastifyPluginAsync } from 'fastify'
+import {
+  createProject,
+  listProjects,
+  getProjectById,
+  updateProject,
+  updateProjectStatus,
+  getProjectStats,
+  getProjectBudget,
+  deleteProject,
+  listTasks,
+  createTask,
+  getTaskById,
+  updateTask,
+  completeTask,
+  reopenTask,
+  moveTask,
+  deleteTask,
+  getBoard,
+  createBoardColumn,
+  updateBoardColumn,
+  moveBoardColumn,
+  deleteBoardColumn,
+} from '@/controllers/project.controller'
+import { authMiddleware } from '@/middleware/auth.middleware'
+
+// ============================================================================
+// SCHÉMAS OPENAPI
+// ============================================================================
+
+const PROJECT_STATUSES = ['ACTIVE', 'COMPLETED', 'CANCELLED', 'ON_HOLD']
+const PRIORITIES = ['LOW', 'MEDIUM', 'HIGH', 'URGENT']
+
+const ErrorSchema = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    message: { type: 'string' },
+  },
+}
+
+const IdParamsSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string' },
+  },
+}
+
+const TaskParamsSchema = {
+  type: 'object',
+  required: ['id', 'taskId'],
+  properties: {
+    id: { type: 'string' },
+    taskId: { type: 'string' },
+  },
+}
+
+const ColumnParamsSchema = {
+  type: 'object',
+  required: ['id', 'columnId'],
+  properties: {
+    id: { type: 'string' },
+    columnId: { type: 'string' },
+  },
+}
+
+const DeleteResultSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    message: { type: 'string' },
+  },
+}
+
+const ProjectSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    description: { type: 'string', nullable: true },
+    startDate: { type: 'string', format: 'date-time' },
+    endDate: { type: 'string', format: 'date-time', nullable: true },
+    deadline: { type: 'string', format: 'date-time', nullable: true },
+    budget: { type: 'number', nullable: true },
+    hourlyRate: { type: 'number', nullable: true },
+    status: { type: 'string', enum: PROJECT_STATUSES },
+    clientId: { type: 'string', nullable: true },
+    client: {
+      type: 'object',
+      nullable: true,
+      properties: {
+        id: { type: 'string' },
+        name: { type: 'string' },
+        company: { type: 'string', nullable: true },
+      },
+    },
+    tasksCount: { type: 'number' },
+    completedTasksCount: { type: 'number' },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+}
+
+const ProjectMessageSchema = {
+  type: 'object',
+  properties: {
+    message: { type: 'string' },
+    project: ProjectSchema,
+  },
+}
+
+const ProjectBodyProperties = {
+  name: { type: 'string', minLength: 2, maxLength: 100 },
+  description: { type: 'string', maxLength: 2000 },
+  clientId: { type: 'string' },
+  startDate: { type: 'string', format: 'date-time' },
+  endDate: { type: 'string', format: 'date-time' },
+  deadline: { type: 'string', format: 'date-time' },
+  budget: { type: 'number', minimum: 0 },
+  hourlyRate: { type: 'number', minimum: 0 },
+}
+
+const TaskSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    projectId: { type: 'string' },
+    title: { type: 'string' },
+    description: { type: 'string', nullable: true },
+    dueDate: { type: 'string', format: 'date-time', nullable: true },
+    completedAt: { type: 'string', format: 'date-time', nullable: true },
+    priority: { type: 'string', enum: PRIORITIES },
+    columnId: { type: 'string', nullable: true },
+    position: { type: 'string', nullable: true },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+}
+
+const TaskMessageSchema = {
+  type: 'object',
+  properties: {
+    message: { type: 'string' },
+    task: TaskSchema,
+  },
+}
+
+const TaskBodyProperties = {
+  title: { type: 'string', minLength: 1, maxLength: 200 },
+  description: { type: 'string', maxLength: 2000 },
+  dueDate: { type: 'string', format: 'date-time' },
+  priority: { type: 'string', enum: PRIORITIES },
+}
+
+const BoardColumnProperties = {
+  id: { type: 'string' },
+  projectId: { type: 'string' },
+  name: { type: 'string' },
+  position: { type: 'string' },
+  wipLimit: { type: 'number', nullable: true },
+  isDone: { type: 'boolean' },
+  createdAt: { type: 'string', format: 'date-time' },
+  updatedAt: { type: 'string', format: 'date-time' },
+}
+
+const BoardColumnMessageSchema = {
+  type: 'object',
+  properties: {
+    message: { type: 'string' },
+    column: {
+      type: 'object',
+      properties: BoardColumnProperties,
+    },
+  },
+}
+
+const BoardColumnBodyProperties = {
+  name: { type: 'string', minLength: 1, maxLength: 50 },
+  wipLimit: { type: 'integer', minimum: 1, maximum: 100 },
+  isDone: { type: 'boolean' },
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+const projectRoutes: FastifyPluginAsync = async (fastify) => {
+  // Hook d'authentification pour toutes les routes projets
+  fastify.addHook('preHandler', authMiddleware)
+
+  // GET /api/v1/projects
+  fastify.get('/', {
+    schema: {
+      description: 'Lister les projets avec pagination et filtres',
+      tags: ['projects'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          page: { type: 'string', pattern: '^\\d+$', default: '1' },
+          limit: { type: 'string', pattern: '^\\d+$', default: '20' },
+          search: { type: 'string', maxLength: 100 },
+          status: { type: 'string', enum: PROJECT_STATUSES },
+          clientId: { type: 'string' },
+          sortBy: { type: 'string', enum: ['name', 'startDate', 'deadline', 'createdAt'], default: 'createdAt' },
+          sortOrder: { type: 'string', enum: ['asc', 'desc'], default: 'desc' },
+        },
+      },
+      response: {
+        200: {
+          description: 'Liste des projets',
+          type: 'object',
+          properties: {
+            projects: { type: 'array', items: ProjectSchema },
+            pagination: {
+              type: 'object',
+              properties: {
+                page: { type: 'number' },
+                limit: { type: 'number' },
+                total: { type: 'number' },
+                totalPages: { type: 'number' },
+                hasNext: { type: 'boolean' },
+                hasPrev: { type: 'boolean' },
+              },
+            },
+          },
+        },
+      },
+    },
+    handler: listProjects,
+  })
+
+  // POST /api/v1/projects
+  fastify.post('/', {
+    schema: {
+      description: 'Créer un projet (statut ACTIVE), rattaché ou non à un client',
+      tags: ['projects'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['name'],
+        additionalProperties: false,
+        properties: ProjectBodyProperties,
+      },
+      response: {
+        201: { description: 'Projet créé avec succès', ...ProjectMessageSchema },
+        400: { description: 'Données invalides', ...ErrorSchema },
+        404: { description: 'Client introuvable', ...ErrorSchema },
+      },
+    },
+    handler: createProject,
+  })
+
+  // GET /api/v1/projects/:id
+  fastify.get('/:id', {
+    schema: {
+      description: 'Récupérer un projet',
+      tags: ['projects'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            project: ProjectSchema,
+          },
+        },
+        404: { description: 'Projet introuvable', ...ErrorSchema },
+      },
+    },
+    handler: getProjectById,
+  })
+
+  // PUT /api/v1/projects/:id
+  fastify.put('/:id', {
+    schema: {
+      description: 'Modifier un projet (null détache le client ou efface la date, le budget ou le taux)',
+      tags: ['projects'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      body: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          ...ProjectBodyProperties,
+          clientId: { type: 'string', nullable: true },
+          endDate: { type: 'string', format: 'date-time', nullable: true },
+          deadline: { type: 'string', format: 'date-time', nullable: true },
+          budget: { type: 'number', minimum: 0, nullable: true },
+          hourlyRate: { type: 'number', minimum: 0, nullable: true },
+        },
+      },
+      response: {
+        200: { description: 'Projet mis à jour', ...ProjectMessageSchema },
+        400: { description: 'Données invalides', ...ErrorSchema },
+        404: { description: 'Projet ou client introuvable', ...ErrorSchema },
+      },
+    },
+    handler: updateProject,
+  })
+
+  // DELETE /api/v1/projects/:id
+  fastify.delete('/:id', {
+    schema: {
+      description: 'Supprimer un projet et ses tâches (refusé dès que du temps a été saisi)',
+      tags: ['projects'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      response: {
+        200: { description: 'Projet supprimé', ...DeleteResultSchema },
+        404: { description: 'Projet introuvable', ...ErrorSchema },
+        409: { description: 'Temps saisi sur le projet', ...ErrorSchema },
+      },
+    },
+    handler: deleteProject,
+  })
+
+  // POST /api/v1/projects/:id/status
+  fastify.post('/:id/status', {
+    schema: {
+      description: 'Changer le statut d\'un projet : ACTIVE ↔ ON_HOLD, ACTIVE → COMPLETED (réouvrable), CANCELLED définitif',
+      tags: ['projects'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      body: {
+        type: 'object',
+        required: ['status'],
+        additionalProperties: false,
+        properties: {
+          status: { type: 'string', enum: PROJECT_STATUSES },
+        },
+      },
+      response: {
+        200: { description: 'Statut mis à jour', ...ProjectMessageSchema },
+        404: { description: 'Projet introuvable', ...ErrorSchema },
+        409: { description: 'Transition interdite', ...ErrorSchema },
+      },
+    },
+    handler: updateProjectStatus,
+  })
+
+  // GET /api/v1/projects/:id/stats
+  fastify.get('/:id/stats', {
+    schema: {
+      description: 'Heures saisies, budget consommé (temps × taux de la saisie, à défaut du projet) et budget restant',
+      tags: ['projects'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            stats: {
+              type: 'object',
+              properties: {
+                projectId: { type: 'string' },
+                minutesLogged: { type: 'number' },
+                hoursLogged: { type: 'number' },
+                unpricedMinutes: { type: 'number' },
+                budget: { type: 'number', nullable: true },
+                budgetConsumed: { type: 'number' },
+                remainingBudget: { type: 'number', nullable: true },
+                budgetConsumedPercent: { type: 'number', nullable: true },
+                tasksCount: { type: 'number' },
+                completedTasksCount: { type: 'number' },
+              },
+            },
+          },
+        },
+        404: { description: 'Projet introuvable', ...ErrorSchema },
+      },
+    },
+    handler: getProjectStats,
+  })
+
+  // GET /api/v1/projects/:id/budget
+  fastify.get('/:id/budget', {
+    schema: {
+      description: 'Rythme de consommation du budget, date de dépassement prévue, taux horaire effectif (facturé ÷ heures) et alertes déclenchées',
+      tags: ['projects'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            budget: {
+              type: 'object',
+              properties: {
+                projectId: { type: 'string' },
+                budget: { type: 'number', nullable: true },
+                hourlyRate: { type: 'number', nullable: true },
+                budgetConsumed: { type: 'number' },
+                remainingBudget: { type: 'number', nullable: true },
+                budgetConsumedPercent: { type: 'number', nullable: true },
+                hoursLogged: { type: 'number' },
+                unpricedMinutes: { type: 'number' },
+                burnRate: {
+                  type: 'object',
+                  properties: {
+                    windowDays: { type: 'number' },
+                    amountPerDay: { type: 'number' },
+                    hoursPerWeek: { type: 'number' },
+                  },
+                },
+                projectedOverrunDate: { type: 'string', format: 'date-time', nullable: true },
+                overrunBeforeDeadline: { type: 'boolean', nullable: true },
+                invoicedAmount: { type: 'number' },
+                effectiveHourlyRate: { type: 'number', nullable: true },
+                alertThresholds: { type: 'array', items: { type: 'number' } },
+                alerts: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      threshold: { type: 'number' },
+                      consumed: { type: 'number' },
+                      triggeredAt: { type: 'string', format: 'date-time' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        404: { description: 'Projet introuvable', ...ErrorSchema },
+      },
+    },
+    handler: getProjectBudget,
+  })
+
+  // GET /api/v1/projects/:id/tasks
+  fastify.get('/:id/tasks', {
+    schema: {
+      description: 'Lister les tâches d\'un projet (en cours d\'abord, par échéance)',
+      tags: ['projects'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      querystring: {
+        type: 'object',
+        properties: {
+          completed: { type: 'string', enum: ['true', 'false'] },
+          priority: { type: 'string', enum: PRIORITIES },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            tasks: { type: 'array', items: TaskSchema },
+          },
+        },
+        404: { description: 'Projet introuvable', ...ErrorSchema },
+      },
+    },
+    handler: listTasks,
+  })
+
+  // POST /api/v1/projects/:id/tasks
+  fastify.post('/:id/tasks', {
+    schema: {
+      description: 'Ajouter une tâche à un projet actif ou en pause (en fin de colonne, première colonne à faire par défaut)',
+      tags: ['projects'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      body: {
+        type: 'object',
+        required: ['title'],
+        additionalProperties: false,
+        properties: {
+          ...TaskBodyProperties,
+          columnId: { type: 'string' },
+        },
+      },
+      response: {
+        201: { description: 'Tâche créée avec succès', ...TaskMessageSchema },
+        400: { description: 'Données invalides', ...ErrorSchema },
+        404: { description: 'Projet ou colonne introuvable', ...ErrorSchema },
+        409: { description: 'Projet terminé ou annulé, limite WIP atteinte', ...ErrorSchema },
+      },
+    },
+    handler: createTask,
+  })
+
+  // GET /api/v1/projects/:id/tasks/:taskId
+  fastify.get('/:id/tasks/:taskId', {
+    schema: {
+      description: 'Récupérer une tâche',
+      tags: ['projects'],
+      security: [{ bearerAuth: [] }],
+      params: TaskParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            task: TaskSchema,
+          },
+        },
+        404: { description: 'Projet ou tâche introuvable', ...ErrorSchema },
+      },
+    },
+    handler: getTaskById,
+  })
+
+  // PUT /api/v1/projects/:id/tasks/:taskId
+  fastify.put('/:id/tasks/:taskId', {
+    schema: {
+      description: 'Modifier une tâche (null efface l\'échéance)',
+      tags: ['projects'],
+      security: [{ bearerAuth: [] }],
+      params: TaskParamsSchema,
+      body: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          ...TaskBodyProperties,
+          dueDate: { type: 'string', format: 'date-time', nullable: true },
+        },
+      },
+      response: {
+        200: { description: 'Tâche mise à jour', ...TaskMessageSchema },
+        400: { description: 'Données invalides', ...ErrorSchema },
+        404: { description: 'Projet ou tâche introuvable', ...ErrorSchema },
+        409: { description: 'Projet terminé ou annulé', ...ErrorSchema },
+      },
+    },
+    handler: updateTask,
+  })
+
+  // DELETE /api/v1/projects/:id/tasks/:taskId
+  fastify.delete('/:id/tasks/:taskId', {
+    schema: {
+      description: 'Supprimer une tâche (refusé dès que du temps a été saisi dessus)',
+      tags: ['projects'],
+      security: [{ bearerAuth: [] }],
+      params: TaskParamsSchema,
+      response: {
+        200: { description: 'Tâche supprimée', ...DeleteResultSchema },
+        404: { description: 'Projet ou tâche introuvable', ...ErrorSchema },
+        409: { description: 'Temps saisi sur la tâche ou projet clôturé', ...ErrorSchema },
+      },
+    },
+    handler: deleteTask,
+  })
+
+  // POST /api/v1/projects/:id/tasks/:taskId/complete
+  fastify.post('/:id/tasks/:taskId/complete', {
+    schema: {
+      description: 'Marquer une tâche comme terminée (elle rejoint la première colonne terminée)',
+      tags: ['projects'],
+      security: [{ bearerAuth: [] }],
+      params: TaskParamsSchema,
+      response: {
+        200: { description: 'Tâche terminée', ...TaskMessageSchema },
+        404: { description: 'Projet ou tâche introuvable', ...ErrorSchema },
+        409: { description: 'Tâche déjà terminée, projet clôturé ou limite WIP atteinte', ...ErrorSchema },
+      },
+    },
+    handler: completeTask,
+  })
+
+  // POST /api/v1/projects/:id/tasks/:taskId/reopen
+  fastify.post('/:id/tasks/:taskId/reopen', {
+    schema: {
+      description: 'Rouvrir une tâche terminée (elle rejoint la première colonne à faire)',
+      tags: ['projects'],
+      security: [{ bearerAuth: [] }],
+      params: TaskParamsSchema,
+      response: {
+        200: { description: 'Tâche rouverte', ...TaskMessageSchema },
+        404: { description: 'Projet ou tâche introuvable', ...ErrorSchema },
+        409: { description: 'Tâche déjà en cours, projet clôturé ou limite WIP atteinte', ...ErrorSchema },
+      },
+    },
+    handler: reopenTask,
+  })
+
+  // POST /api/v1/projects/:id/tasks/:taskId/move
+  fastify.post('/:id/tasks/:taskId/move', {
+    schema: {
+      description: 'Déplacer une tâche sur le tableau : colonne d\'arrivée et voisins (en fin de colonne si aucun)',
+      tags: ['projects'],
+      security: [{ bearerAuth: [] }],
+      params: TaskParamsSchema,
+      body: {
+        type: 'object',
+        required: ['columnId'],
+        additionalProperties: false,
+        properties: {
+          columnId: { type: 'string' },
+          afterTaskId: { type: 'string' },
+          beforeTaskId: { type: 'string' },
+        },
+      },
+      response: {
+        200: { description: 'Tâche déplacée', ...TaskMessageSchema },
+        400: { description: 'Voisins absents de la colonne ou qui ne se suivent plus', ...ErrorSchema },
+        404: { description: 'Projet, tâche ou colonne introuvable', ...ErrorSchema },
+        409: { description: 'Limite WIP atteinte ou projet clôturé', ...ErrorSchema },
+      },
+    },
+    handler: moveTask,
+  })
+
+  // GET /api/v1/projects/:id/board
+  fastify.get('/:id/board', {
+    schema: {
+      description: 'Tableau Kanban du projet : colonnes et tâches dans l\'ordre (À faire / En cours / Terminé à la première ouverture)',
+      tags: ['projects'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            board: {
+              type: 'object',
+              properties: {
+                projectId: { type: 'string' },
+                columns: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      ...BoardColumnProperties,
+                      tasksCount: { type: 'number' },
+                      tasks: { type: 'array', items: TaskSchema },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        404: { description: 'Projet introuvable', ...ErrorSchema },
+      },
+    },
+    handler: getBoard,
+  })
+
+  // POST /api/v1/projects/:id/board/columns
+  fastify.post('/:id/board/columns', {
+    schema: {
+      description: 'Ajouter une colonne en fin de tableau',
+      tags: ['projects'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      body: {
+        type: 'object',
+        required: ['name'],
+        additionalProperties: false,
+        properties: BoardColumnBodyProperties,
+      },
+      response: {
+        201: { description: 'Colonne créée avec succès', ...BoardColumnMessageSchema },
+        400: { description: 'Données invalides', ...ErrorSchema },
+        404: { description: 'Projet introuvable', ...ErrorSchema },
+        409: { description: 'Projet terminé ou annulé', ...ErrorSchema },
+      },
+    },
+    handler: createBoardColumn,
+  })
+
+  // PUT /api/v1/projects/:id/board/columns/:columnId
+  fastify.put('/:id/board/columns/:columnId', {
+    schema: {
+      description: 'Modifier une colonne (null retire la limite WIP ; isDone termine ou rouvre ses tâches)',
+      tags: ['projects'],
+      security: [{ bearerAuth: [] }],
+      params: ColumnParamsSchema,
+      body: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          ...BoardColumnBodyProperties,
+          wipLimit: { type: 'integer', minimum: 1, maximum: 100, nullable: true },
+        },
+      },
+      response: {
+        200: { description: 'Colonne mise à jour', ...BoardColumnMessageSchema },
+        400: { description: 'Données invalides ou dernière colonne à faire', ...ErrorSchema },
+        404: { description: 'Projet ou colonne introuvable', ...ErrorSchema },
+        409: { description: 'Limite WIP inférieure au nombre de tâches ou projet clôturé', ...ErrorSchema },
+      },
+    },
+    handler: updateBoardColumn,
+  })
+
+  // POST /api/v1/projects/:id/board/columns/:columnId/move
+  fastify.post('/:id/board/columns/:columnId/move', {
+    schema: {
+      description: 'Déplacer une colonne entre ses voisins (en fin de tableau si aucun)',
+      tags: ['projects'],
+      security: [{ bearerAuth: [] }],
+      params: ColumnParamsSchema,
+      body: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          afterColumnId: { type: 'string' },
+          beforeColumnId: { type: 'string' },
+        },
+      },
+      response: {
+        200: { description: 'Colonne déplacée', ...BoardColumnMessageSchema },
+        400: { description: 'Voisins absents du tableau ou qui ne se suivent plus', ...ErrorSchema },
+        404: { description: 'Projet ou colonne introuvable', ...ErrorSchema },
+        409: { description: 'Projet terminé ou annulé', ...ErrorSchema },
+      },
+    },
+    handler: moveBoardColumn,
+  })
+
+  // DELETE /api/v1/projects/:id/board/columns/:columnId
+  fastify.delete('/:id/board/columns/:columnId', {
+    schema: {
+      description: 'Supprimer une colonne vide (le tableau garde au moins une colonne à faire)',
+      tags: ['projects'],
+      security: [{ bearerAuth: [] }],
+      params: ColumnParamsSchema,
+      response: {
+        200: { description: 'Colonne supprimée', ...DeleteResultSchema },
+        400: { description: 'Dernière colonne à faire', ...ErrorSchema },
+        404: { description: 'Projet ou colonne introuvable', ...ErrorSchema },
+        409: { description: 'Colonne non vide ou projet clôturé', ...ErrorSchema },
+      },
+    },
+    handler: deleteBoardColumn,
+  })
+}
+
+export default projectRoutes
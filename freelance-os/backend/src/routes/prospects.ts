@@ -1,38 +1,521 @@
 import { FastifyPluginAsync } from 'fastify'
+import {
+  createProspect,
+  listProspects,
+  getProspectPipeline,
+  getProspectById,
+  updateProspect,
+  updateProspectStatus,
+  convertProspect,
+  deleteProspect,
+  listDueFollowUps,
+  createFollowUp,
+  completeFollowUp,
+  deleteFollowUp,
+} from '@/controllers/prospect.controller'
+import { authMiddleware } from '@/middleware/auth.middleware'
+
+// ============================================================================
+// SCHÉMAS OPENAPI
+// ============================================================================
+
+const PROSPECT_STATUSES = [
+  'NEW',
+  'CONTACTED',
+  'INTERESTED',
+  'QUALIFIED',
+  'PROPOSAL_SENT',
+  'NEGOTIATION',
+  'CLOSED_WON',
+  'CLOSED_LOST',
+]
+const FOLLOW_UP_TYPES = ['EMAIL', 'CALL', 'MEETING', 'SMS', 'LINKEDIN']
+
+const ErrorSchema = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    message: { type: 'string' },
+  },
+}
+
+const IdParamsSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string' },
+  },
+}
+
+const FollowUpParamsSchema = {
+  type: 'object',
+  required: ['id', 'followUpId'],
+  properties: {
+    id: { type: 'string' },
+    followUpId: { type: 'string' },
+  },
+}
+
+const DeleteResultSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    message: { type: 'string' },
+  },
+}
+
+const ProspectProperties = {
+  id: { type: 'string' },
+  name: { type: 'string' },
+  email: { type: 'string', nullable: true },
+  phone: { type: 'string', nullable: true },
+  company: { type: 'string', nullable: true },
+  position: { type: 'string', nullable: true },
+  source: { type: 'string', nullable: true },
+  status: { type: 'string', enum: PROSPECT_STATUSES },
+  score: { type: 'number' },
+  expectedValue: { type: 'number', nullable: true },
+  lastContact: { type: 'string', format: 'date-time', nullable: true },
+  nextFollowUp: { type: 'string', format: 'date-time', nullable: true },
+  notes: { type: 'string', nullable: true },
+  tags: { type: 'array', items: { type: 'string' } },
+  clientId: { type: 'string', nullable: true },
+  convertedAt: { type: 'string', format: 'date-time', nullable: true },
+  createdAt: { type: 'string', format: 'date-time' },
+  updatedAt: { type: 'string', format: 'date-time' },
+}
+
+const FollowUpProperties = {
+  id: { type: 'string' },
+  prospectId: { type: 'string' },
+  type: { type: 'string', enum: FOLLOW_UP_TYPES },
+  subject: { type: 'string' },
+  content: { type: 'string' },
+  scheduledAt: { type: 'string', format: 'date-time' },
+  completedAt: { type: 'string', format: 'date-time', nullable: true },
+  result: { type: 'string', nullable: true },
+  createdAt: { type: 'string', format: 'date-time' },
+  updatedAt: { type: 'string', format: 'date-time' },
+}
+
+const FollowUpSchema = {
+  type: 'object',
+  properties: FollowUpProperties,
+}
+
+const ProspectDetailSchema = {
+  type: 'object',
+  properties: {
+    ...ProspectProperties,
+    followUps: { type: 'array', items: FollowUpSchema },
+    stageChanges: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          fromStatus: { type: 'string', enum: PROSPECT_STATUSES, nullable: true },
+          toStatus: { type: 'string', enum: PROSPECT_STATUSES },
+          note: { type: 'string', nullable: true },
+          createdAt: { type: 'string', format: 'date-time' },
+        },
+      },
+    },
+  },
+}
+
+const ProspectMessageSchema = {
+  type: 'object',
+  properties: {
+    message: { type: 'string' },
+    prospect: ProspectDetailSchema,
+  },
+}
+
+// Devis brouillon créé à la conversion (détail complet via /api/v1/quotes/:id)
+const ProspectConversionSchema = {
+  type: 'object',
+  properties: {
+    message: { type: 'string' },
+    prospect: ProspectDetailSchema,
+    client: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        name: { type: 'string' },
+        company: { type: 'string', nullable: true },
+        created: { type: 'boolean' },
+      },
+    },
+    interactionsCount: { type: 'number' },
+    quote: {
+      type: 'object',
+      nullable: true,
+      properties: {
+        id: { type: 'string' },
+        status: { type: 'string' },
+        subtotal: { type: 'number' },
+        total: { type: 'number' },
+        currency: { type: 'string' },
+        validUntil: { type: 'string', format: 'date-time' },
+      },
+    },
+  },
+}
+
+const FollowUpMessageSchema = {
+  type: 'object',
+  properties: {
+    message: { type: 'string' },
+    followUp: FollowUpSchema,
+  },
+}
+
+const ProspectBodyProperties = {
+  name: { type: 'string', minLength: 1, maxLength: 100 },
+  email: { type: 'string' },
+  phone: { type: 'string' },
+  company: { type: 'string', maxLength: 100 },
+  position: { type: 'string', maxLength: 100 },
+  source: { type: 'string', maxLength: 100 },
+  score: { type: 'integer', minimum: 0, maximum: 100 },
+  expectedValue: { type: 'number', minimum: 0 },
+  notes: { type: 'string', maxLength: 2000 },
+  tags: { type: 'array', maxItems: 20, items: { type: 'string', maxLength: 50 } },
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
 
 const prospectRoutes: FastifyPluginAsync = async (fastify) => {
+  // Hook d'authentification pour toutes les routes prospects
+  fastify.addHook('preHandler', authMiddleware)
+
   // GET /api/v1/prospects
-  fastify.get('/', async (request, reply) => {
-    reply.send({ 
-      message: 'Liste des prospects - À implémenter',
-      prospects: []
-    })
+  fastify.get('/', {
+    schema: {
+      description: 'Lister les prospects avec pagination et filtres (recherche sur le nom et l\'entreprise)',
+      tags: ['prospects'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          page: { type: 'string', pattern: '^\\d+$', default: '1' },
+          limit: { type: 'string', pattern: '^\\d+$', default: '20' },
+          search: { type: 'string', maxLength: 100 },
+          status: { type: 'string', enum: PROSPECT_STATUSES },
+          tag: { type: 'string', maxLength: 50 },
+          sortBy: {
+            type: 'string',
+            enum: ['name', 'createdAt', 'nextFollowUp', 'expectedValue', 'score'],
+            default: 'createdAt',
+          },
+          sortOrder: { type: 'string', enum: ['asc', 'desc'], default: 'desc' },
+        },
+      },
+      response: {
+        200: {
+          description: 'Liste des prospects',
+          type: 'object',
+          properties: {
+            prospects: { type: 'array', items: { type: 'object', properties: ProspectProperties } },
+            pagination: {
+              type: 'object',
+              properties: {
+                page: { type: 'number' },
+                limit: { type: 'number' },
+                total: { type: 'number' },
+                totalPages: { type: 'number' },
+                hasNext: { type: 'boolean' },
+                hasPrev: { type: 'boolean' },
+              },
+            },
+          },
+        },
+        400: { description: 'Paramètres invalides', ...ErrorSchema },
+      },
+    },
+    handler: listProspects,
   })
 
   // POST /api/v1/prospects
-  fastify.post('/', async (request, reply) => {
-    reply.send({ message: 'Création prospect - À implémenter' })
+  fastify.post('/', {
+    schema: {
+      description: 'Créer un prospect (email et téléphone chiffrés, étape NEW par défaut)',
+      tags: ['prospects'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['name'],
+        properties: {
+          ...ProspectBodyProperties,
+          status: { type: 'string', enum: PROSPECT_STATUSES, default: 'NEW' },
+        },
+      },
+      response: {
+        201: ProspectMessageSchema,
+        400: { description: 'Données invalides', ...ErrorSchema },
+      },
+    },
+    handler: createProspect,
+  })
+
+  // GET /api/v1/prospects/pipeline
+  fastify.get('/pipeline', {
+    schema: {
+      description: 'Nombre de prospects et montant espéré (HT) par étape du pipeline',
+      tags: ['prospects'],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            pipeline: {
+              type: 'object',
+              properties: {
+                stages: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      status: { type: 'string', enum: PROSPECT_STATUSES },
+                      count: { type: 'number' },
+                      expectedValue: { type: 'number' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    handler: getProspectPipeline,
+  })
+
+  // GET /api/v1/prospects/follow-ups/due
+  fastify.get('/follow-ups/due', {
+    schema: {
+      description: 'Relances à faire au plus tard ce jour-là (UTC, aujourd\'hui par défaut), retards compris, des prospects ouverts',
+      tags: ['prospects'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          date: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            followUps: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  ...FollowUpProperties,
+                  overdue: { type: 'boolean' },
+                  prospect: {
+                    type: 'object',
+                    properties: {
+                      id: { type: 'string' },
+                      name: { type: 'string' },
+                      company: { type: 'string', nullable: true },
+                      status: { type: 'string', enum: PROSPECT_STATUSES },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        400: { description: 'Date invalide', ...ErrorSchema },
+      },
+    },
+    handler: listDueFollowUps,
   })
 
   // GET /api/v1/prospects/:id
-  fastify.get('/:id', async (request, reply) => {
-    reply.send({ message: 'Détail prospect - À implémenter' })
+  fastify.get('/:id', {
+    schema: {
+      description: 'Récupérer un prospect avec ses relances et l\'historique de ses étapes',
+      tags: ['prospects'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            prospect: ProspectDetailSchema,
+          },
+        },
+        404: { description: 'Prospect introuvable', ...ErrorSchema },
+      },
+    },
+    handler: getProspectById,
   })
 
   // PUT /api/v1/prospects/:id
-  fastify.put('/:id', async (request, reply) => {
-    reply.send({ message: 'Modification prospect - À implémenter' })
+  fastify.put('/:id', {
+    schema: {
+      description: 'Modifier un prospect (l\'étape change via /status ; null efface le montant espéré)',
+      tags: ['prospects'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      body: {
+        type: 'object',
+        properties: {
+          ...ProspectBodyProperties,
+          expectedValue: { type: 'number', minimum: 0, nullable: true },
+        },
+      },
+      response: {
+        200: ProspectMessageSchema,
+        400: { description: 'Données invalides', ...ErrorSchema },
+        404: { description: 'Prospect introuvable', ...ErrorSchema },
+      },
+    },
+    handler: updateProspect,
+  })
+
+  // POST /api/v1/prospects/:id/status
+  fastify.post('/:id/status', {
+    schema: {
+      description: 'Faire passer un prospect à une autre étape (historisée) ; un prospect clos se rouvre sur une étape ouverte',
+      tags: ['prospects'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      body: {
+        type: 'object',
+        required: ['status'],
+        additionalProperties: false,
+        properties: {
+          status: { type: 'string', enum: PROSPECT_STATUSES },
+          note: { type: 'string', maxLength: 500 },
+        },
+      },
+      response: {
+        200: ProspectMessageSchema,
+        400: { description: 'Données invalides', ...ErrorSchema },
+        404: { description: 'Prospect introuvable', ...ErrorSchema },
+        409: { description: 'Étape inchangée, transition interdite ou prospect converti', ...ErrorSchema },
+      },
+    },
+    handler: updateProspectStatus,
+  })
+
+  // POST /api/v1/prospects/:id/convert
+  fastify.post('/:id/convert', {
+    schema: {
+      description: 'Convertir un prospect gagné en client (retrouvé par email ou créé) : notes, tags et relances repris, devis brouillon du montant espéré en option',
+      tags: ['prospects'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      body: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          createQuote: { type: 'boolean', default: false },
+          quoteDescription: { type: 'string', minLength: 1, maxLength: 500 },
+        },
+      },
+      response: {
+        201: ProspectConversionSchema,
+        400: { description: 'Prospect non gagné ou montant espéré manquant pour le devis', ...ErrorSchema },
+        404: { description: 'Prospect introuvable', ...ErrorSchema },
+        409: { description: 'Prospect déjà converti', ...ErrorSchema },
+      },
+    },
+    handler: convertProspect,
   })
 
   // DELETE /api/v1/prospects/:id
-  fastify.delete('/:id', async (request, reply) => {
-    reply.send({ message: 'Suppression prospect - À implémenter' })
+  fastify.delete('/:id', {
+    schema: {
+      description: 'Supprimer un prospect, ses relances et son historique',
+      tags: ['prospects'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      response: {
+        200: DeleteResultSchema,
+        404: { description: 'Prospect introuvable', ...ErrorSchema },
+      },
+    },
+    handler: deleteProspect,
+  })
+
+  // POST /api/v1/prospects/:id/follow-ups
+  fastify.post('/:id/follow-ups', {
+    schema: {
+      description: 'Planifier une relance (completedAt : relance déjà effectuée) ; met à jour le dernier contact et la prochaine relance',
+      tags: ['prospects'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      body: {
+        type: 'object',
+        required: ['type', 'subject', 'scheduledAt'],
+        additionalProperties: false,
+        properties: {
+          type: { type: 'string', enum: FOLLOW_UP_TYPES },
+          subject: { type: 'string', minLength: 1, maxLength: 200 },
+          content: { type: 'string', maxLength: 5000 },
+          scheduledAt: { type: 'string', format: 'date-time' },
+          completedAt: { type: 'string', format: 'date-time' },
+          result: { type: 'string', maxLength: 1000 },
+        },
+      },
+      response: {
+        201: FollowUpMessageSchema,
+        400: { description: 'Données invalides', ...ErrorSchema },
+        404: { description: 'Prospect introuvable', ...ErrorSchema },
+        409: { description: 'Prospect clos', ...ErrorSchema },
+      },
+    },
+    handler: createFollowUp,
+  })
+
+  // POST /api/v1/prospects/:id/follow-ups/:followUpId/complete
+  fastify.post('/:id/follow-ups/:followUpId/complete', {
+    schema: {
+      description: 'Marquer une relance comme effectuée avec son résultat (maintenant par défaut)',
+      tags: ['prospects'],
+      security: [{ bearerAuth: [] }],
+      params: FollowUpParamsSchema,
+      body: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          result: { type: 'string', maxLength: 1000 },
+          completedAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      response: {
+        200: FollowUpMessageSchema,
+        400: { description: 'Données invalides', ...ErrorSchema },
+        404: { description: 'Prospect ou relance introuvable', ...ErrorSchema },
+        409: { description: 'Relance déjà effectuée ou prospect clos', ...ErrorSchema },
+      },
+    },
+    handler: completeFollowUp,
   })
 
-  // POST /api/v1/prospects/:id/follow-up
-  fastify.post('/:id/follow-up', async (request, reply) => {
-    reply.send({ message: 'Ajout suivi prospect - À implémenter' })
+  // DELETE /api/v1/prospects/:id/follow-ups/:followUpId
+  fastify.delete('/:id/follow-ups/:followUpId', {
+    schema: {
+      description: 'Supprimer une relance',
+      tags: ['prospects'],
+      security: [{ bearerAuth: [] }],
+      params: FollowUpParamsSchema,
+      response: {
+        200: DeleteResultSchema,
+        404: { description: 'Prospect ou relance introuvable', ...ErrorSchema },
+        409: { description: 'Prospect clos', ...ErrorSchema },
+      },
+    },
+    handler: deleteFollowUp,
   })
 }
 
-export default prospectRoutes
\ No newline at end of file
+export default prospectRoutes
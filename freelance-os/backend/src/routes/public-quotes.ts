@@ -0,0 +1,82 @@
+import { FastifyPluginAsync } from 'fastify'
+import { showQuoteAcceptancePage, acceptQuoteOnline } from '@/controllers/public-quote.controller'
+
+// ============================================================================
+// SCHÉMAS OPENAPI
+// ============================================================================
+
+const ErrorSchema = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    message: { type: 'string' },
+  },
+}
+
+const TokenParamsSchema = {
+  type: 'object',
+  required: ['token'],
+  properties: {
+    token: { type: 'string', minLength: 20, maxLength: 1000 },
+  },
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+// Routes publiques : l'accès est contrôlé par le jeton signé du lien, sans authentification
+const publicQuoteRoutes: FastifyPluginAsync = async (fastify) => {
+  // GET /public/quotes/:token
+  fastify.get('/:token', {
+    schema: {
+      description: 'Page HTML d\'acceptation d\'un devis (lien public signé)',
+      tags: ['quotes'],
+      params: TokenParamsSchema,
+    },
+    handler: showQuoteAcceptancePage,
+  })
+
+  // POST /public/quotes/:token/accept
+  fastify.post('/:token/accept', {
+    schema: {
+      description: 'Accepter un devis depuis son lien public : nom du signataire, signature saisie ou tracée et mention "Bon pour accord"',
+      tags: ['quotes'],
+      params: TokenParamsSchema,
+      body: {
+        type: 'object',
+        required: ['signerName', 'signatureType', 'signature', 'approval'],
+        additionalProperties: false,
+        properties: {
+          signerName: { type: 'string' },
+          signatureType: { type: 'string', enum: ['TYPED', 'DRAWN'] },
+          signature: { type: 'string', description: 'Signature saisie ou image PNG en data URL' },
+          approval: { type: 'string', description: 'Mention "Bon pour accord" recopiée' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            quote: {
+              type: 'object',
+              properties: {
+                number: { type: 'string', nullable: true },
+                status: { type: 'string' },
+                acceptedAt: { type: 'string', format: 'date-time', nullable: true },
+              },
+            },
+          },
+        },
+        400: { description: 'Données ou lien invalides', ...ErrorSchema },
+        404: { description: 'Devis introuvable', ...ErrorSchema },
+        409: { description: 'Devis déjà accepté, refusé, expiré ou remplacé', ...ErrorSchema },
+        410: { description: 'Lien expiré', ...ErrorSchema },
+      },
+    },
+    handler: acceptQuoteOnline,
+  })
+}
+
+export default publicQuoteRoutes
@@ -0,0 +1,658 @@
+import { FastifyPluginAsync } from 'fastify'
+import {
+  createQuote,
+  listQuotes,
+  getQuoteById,
+  updateQuote,
+  deleteQuote,
+  sendQuote,
+  acceptQuote,
+  declineQuote,
+  convertQuote,
+  createQuotePublicLink,
+  reviseQuote,
+  listQuoteRevisions,
+  diffQuoteRevisions,
+  downloadQuotePdf,
+  createDepositInvoice,
+  createFinalInvoice,
+  getQuoteBillingSummary,
+} from '@/controllers/quote.controller'
+import { authMiddleware } from '@/middleware/auth.middleware'
+
+// ============================================================================
+// SCHÉMAS OPENAPI
+// ============================================================================
+
+const QUOTE_STATUSES = ['DRAFT', 'SENT', 'ACCEPTED', 'DECLINED', 'EXPIRED']
+const INVOICE_STATUSES = ['DRAFT', 'SENT', 'PAID', 'OVERDUE', 'CANCELLED']
+const BILLING_STAGES = ['DEPOSIT', 'FINAL']
+const VAT_REGIMES = ['STANDARD', 'FRANCHISE', 'REVERSE_CHARGE']
+const PDF_TEMPLATES = ['classic', 'modern', 'minimal']
+
+const ErrorSchema = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    message: { type: 'string' },
+  },
+}
+
+const IdParamsSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string' },
+  },
+}
+
+const QuoteItemSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    description: { type: 'string' },
+    quantity: { type: 'number' },
+    unitPrice: { type: 'number' },
+    vatRate: { type: 'number' },
+    total: { type: 'number' },
+  },
+}
+
+const QuoteSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    number: { type: 'string', nullable: true },
+    revision: { type: 'number' },
+    originalQuoteId: { type: 'string', nullable: true },
+    clientId: { type: 'string' },
+    client: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        name: { type: 'string' },
+        company: { type: 'string', nullable: true },
+      },
+    },
+    issueDate: { type: 'string', format: 'date-time' },
+    validUntil: { type: 'string', format: 'date-time' },
+    acceptedAt: { type: 'string', format: 'date-time', nullable: true },
+    subtotal: { type: 'number' },
+    vatRate: { type: 'number' },
+    vatAmount: { type: 'number' },
+    total: { type: 'number' },
+    vatRegime: { type: 'string', enum: VAT_REGIMES },
+    vatBreakdown: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          rate: { type: 'number' },
+          basisAmount: { type: 'number' },
+          taxAmount: { type: 'number' },
+        },
+      },
+    },
+    status: { type: 'string', enum: QUOTE_STATUSES },
+    currency: { type: 'string' },
+    notes: { type: 'string', nullable: true },
+    pdfPath: { type: 'string', nullable: true },
+    items: { type: 'array', items: QuoteItemSchema },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+}
+
+const QuoteBodyProperties = {
+  clientId: { type: 'string' },
+  issueDate: { type: 'string', format: 'date-time' },
+  validUntil: { type: 'string', format: 'date-time' },
+  vatRate: { type: 'number', minimum: 0, maximum: 100 },
+  currency: { type: 'string', minLength: 3, maxLength: 3 },
+  notes: { type: 'string', maxLength: 2000 },
+  items: {
+    type: 'array',
+    minItems: 1,
+    maxItems: 200,
+    items: {
+      type: 'object',
+      required: ['description', 'quantity', 'unitPrice'],
+      additionalProperties: false,
+      properties: {
+        description: { type: 'string', minLength: 1, maxLength: 500 },
+        quantity: { type: 'number', exclusiveMinimum: 0 },
+        unitPrice: { type: 'number', minimum: 0 },
+        vatRate: { type: 'number', minimum: 0, maximum: 100 },
+      },
+    },
+  },
+}
+
+const AmountDiffSchema = {
+  type: 'object',
+  properties: {
+    before: { type: 'number' },
+    after: { type: 'number' },
+    delta: { type: 'number' },
+  },
+}
+
+const LineValuesSchema = {
+  type: 'object',
+  nullable: true,
+  properties: {
+    quantity: { type: 'number' },
+    unitPrice: { type: 'number' },
+    vatRate: { type: 'number' },
+    total: { type: 'number' },
+  },
+}
+
+const QuoteMessageSchema = {
+  type: 'object',
+  properties: {
+    message: { type: 'string' },
+    quote: QuoteSchema,
+  },
+}
+
+// Facture générée depuis le devis (brouillon à émettre via POST /invoices/:id/issue)
+const QuoteInvoiceSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    number: { type: 'string', nullable: true },
+    quoteId: { type: 'string', nullable: true },
+    billingStage: { type: 'string', enum: BILLING_STAGES, nullable: true },
+    clientId: { type: 'string' },
+    issueDate: { type: 'string', format: 'date-time' },
+    dueDate: { type: 'string', format: 'date-time' },
+    subtotal: { type: 'number' },
+    vatRate: { type: 'number' },
+    vatAmount: { type: 'number' },
+    total: { type: 'number' },
+    vatRegime: { type: 'string', enum: VAT_REGIMES },
+    status: { type: 'string', enum: INVOICE_STATUSES },
+    currency: { type: 'string' },
+    notes: { type: 'string', nullable: true },
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          description: { type: 'string' },
+          quantity: { type: 'number' },
+          unitPrice: { type: 'number' },
+          vatRate: { type: 'number' },
+          total: { type: 'number' },
+        },
+      },
+    },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+}
+
+const QuoteInvoiceBodyProperties = {
+  issueDate: { type: 'string', format: 'date-time' },
+  dueDate: { type: 'string', format: 'date-time' },
+  notes: { type: 'string', maxLength: 2000 },
+}
+
+const QuoteInvoiceCreatedSchema = {
+  type: 'object',
+  properties: {
+    message: { type: 'string' },
+    invoice: QuoteInvoiceSchema,
+  },
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+const quoteRoutes: FastifyPluginAsync = async (fastify) => {
+  // Hook d'authentification pour toutes les routes devis
+  fastify.addHook('preHandler', authMiddleware)
+
+  // GET /api/v1/quotes
+  fastify.get('/', {
+    schema: {
+      description: 'Lister les devis avec pagination et filtres',
+      tags: ['quotes'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          page: { type: 'string', pattern: '^\\d+$', default: '1' },
+          limit: { type: 'string', pattern: '^\\d+$', default: '20' },
+          search: { type: 'string', maxLength: 100 },
+          status: { type: 'string', enum: QUOTE_STATUSES },
+          clientId: { type: 'string' },
+          sortBy: { type: 'string', enum: ['issueDate', 'validUntil', 'number', 'total', 'createdAt'], default: 'issueDate' },
+          sortOrder: { type: 'string', enum: ['asc', 'desc'], default: 'desc' },
+        },
+      },
+      response: {
+        200: {
+          description: 'Liste des devis',
+          type: 'object',
+          properties: {
+            quotes: { type: 'array', items: QuoteSchema },
+            pagination: {
+              type: 'object',
+              properties: {
+                page: { type: 'number' },
+                limit: { type: 'number' },
+                total: { type: 'number' },
+                totalPages: { type: 'number' },
+                hasNext: { type: 'boolean' },
+                hasPrev: { type: 'boolean' },
+              },
+            },
+          },
+        },
+      },
+    },
+    handler: listQuotes,
+  })
+
+  // POST /api/v1/quotes
+  fastify.post('/', {
+    schema: {
+      description: 'Créer un devis brouillon (montants calculés côté serveur, validité de 30 jours par défaut)',
+      tags: ['quotes'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['clientId', 'items'],
+        additionalProperties: false,
+        properties: QuoteBodyProperties,
+      },
+      response: {
+        201: { description: 'Devis créé avec succès', ...QuoteMessageSchema },
+        400: { description: 'Données invalides', ...ErrorSchema },
+        404: { description: 'Client introuvable', ...ErrorSchema },
+      },
+    },
+    handler: createQuote,
+  })
+
+  // GET /api/v1/quotes/:id
+  fastify.get('/:id', {
+    schema: {
+      description: 'Récupérer un devis',
+      tags: ['quotes'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            quote: QuoteSchema,
+          },
+        },
+        404: { description: 'Devis introuvable', ...ErrorSchema },
+      },
+    },
+    handler: getQuoteById,
+  })
+
+  // PUT /api/v1/quotes/:id
+  fastify.put('/:id', {
+    schema: {
+      description: 'Modifier un devis brouillon (les lignes envoyées remplacent les existantes)',
+      tags: ['quotes'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      body: {
+        type: 'object',
+        additionalProperties: false,
+        properties: QuoteBodyProperties,
+      },
+      response: {
+        200: { description: 'Devis mis à jour', ...QuoteMessageSchema },
+        400: { description: 'Données invalides', ...ErrorSchema },
+        404: { description: 'Devis introuvable', ...ErrorSchema },
+        409: { description: 'Devis déjà envoyé', ...ErrorSchema },
+      },
+    },
+    handler: updateQuote,
+  })
+
+  // DELETE /api/v1/quotes/:id
+  fastify.delete('/:id', {
+    schema: {
+      description: 'Supprimer un devis brouillon',
+      tags: ['quotes'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      response: {
+        204: {
+          description: 'Devis supprimé',
+          type: 'null',
+        },
+        404: { description: 'Devis introuvable', ...ErrorSchema },
+        409: { description: 'Devis numéroté non supprimable', ...ErrorSchema },
+      },
+    },
+    handler: deleteQuote,
+  })
+
+  // POST /api/v1/quotes/:id/send
+  fastify.post('/:id/send', {
+    schema: {
+      description: 'Envoyer un devis : attribution du numéro, la durée de validité court à partir du jour d\'envoi',
+      tags: ['quotes'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      response: {
+        200: { description: 'Devis envoyé', ...QuoteMessageSchema },
+        404: { description: 'Devis introuvable', ...ErrorSchema },
+        409: { description: 'Devis déjà envoyé', ...ErrorSchema },
+      },
+    },
+    handler: sendQuote,
+  })
+
+  // POST /api/v1/quotes/:id/accept
+  fastify.post('/:id/accept', {
+    schema: {
+      description: 'Marquer un devis envoyé comme accepté par le client (avant sa date de validité)',
+      tags: ['quotes'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      response: {
+        200: { description: 'Devis accepté', ...QuoteMessageSchema },
+        404: { description: 'Devis introuvable', ...ErrorSchema },
+        409: { description: 'Devis non envoyé, déjà traité, expiré ou remplacé par une révision', ...ErrorSchema },
+      },
+    },
+    handler: acceptQuote,
+  })
+
+  // POST /api/v1/quotes/:id/decline
+  fastify.post('/:id/decline', {
+    schema: {
+      description: 'Marquer un devis envoyé comme refusé par le client',
+      tags: ['quotes'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      response: {
+        200: { description: 'Devis refusé', ...QuoteMessageSchema },
+        404: { description: 'Devis introuvable', ...ErrorSchema },
+        409: { description: 'Devis non envoyé ou déjà traité', ...ErrorSchema },
+      },
+    },
+    handler: declineQuote,
+  })
+
+  // POST /api/v1/quotes/:id/public-link
+  fastify.post('/:id/public-link', {
+    schema: {
+      description: 'Créer le lien public et signé d\'acceptation d\'un devis envoyé (valable jusqu\'à sa date de validité)',
+      tags: ['quotes'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      response: {
+        201: {
+          description: 'Lien créé',
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            link: {
+              type: 'object',
+              properties: {
+                url: { type: 'string' },
+                expiresAt: { type: 'string', format: 'date-time' },
+              },
+            },
+          },
+        },
+        404: { description: 'Devis introuvable', ...ErrorSchema },
+        409: { description: 'Devis non envoyé ou expiré', ...ErrorSchema },
+      },
+    },
+    handler: createQuotePublicLink,
+  })
+
+  // POST /api/v1/quotes/:id/revisions
+  fastify.post('/:id/revisions', {
+    schema: {
+      description: 'Créer la révision suivante d\'un devis envoyé, refusé ou expiré (brouillon reprenant ses lignes)',
+      tags: ['quotes'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      response: {
+        201: { description: 'Révision créée (brouillon)', ...QuoteMessageSchema },
+        404: { description: 'Devis introuvable', ...ErrorSchema },
+        409: { description: 'Brouillon, devis accepté ou révision plus récente existante', ...ErrorSchema },
+      },
+    },
+    handler: reviseQuote,
+  })
+
+  // GET /api/v1/quotes/:id/revisions
+  fastify.get('/:id/revisions', {
+    schema: {
+      description: 'Historique des révisions d\'un devis (v1 comprise)',
+      tags: ['quotes'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            revisions: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  revision: { type: 'number' },
+                  number: { type: 'string', nullable: true },
+                  status: { type: 'string', enum: QUOTE_STATUSES },
+                  issueDate: { type: 'string', format: 'date-time' },
+                  validUntil: { type: 'string', format: 'date-time' },
+                  acceptedAt: { type: 'string', format: 'date-time', nullable: true },
+                  subtotal: { type: 'number' },
+                  total: { type: 'number' },
+                  createdAt: { type: 'string', format: 'date-time' },
+                },
+              },
+            },
+          },
+        },
+        404: { description: 'Devis introuvable', ...ErrorSchema },
+      },
+    },
+    handler: listQuoteRevisions,
+  })
+
+  // GET /api/v1/quotes/:id/revisions/diff
+  fastify.get('/:id/revisions/diff', {
+    schema: {
+      description: 'Comparer deux révisions d\'un devis (par défaut la révision demandée et la précédente)',
+      tags: ['quotes'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      querystring: {
+        type: 'object',
+        properties: {
+          from: { type: 'string', pattern: '^\\d+$' },
+          to: { type: 'string', pattern: '^\\d+$' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            fromRevision: { type: 'number' },
+            toRevision: { type: 'number' },
+            lines: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  change: { type: 'string', enum: ['ADDED', 'REMOVED', 'CHANGED'] },
+                  description: { type: 'string' },
+                  before: LineValuesSchema,
+                  after: LineValuesSchema,
+                },
+              },
+            },
+            unchangedLines: { type: 'number' },
+            subtotal: AmountDiffSchema,
+            vatAmount: AmountDiffSchema,
+            total: AmountDiffSchema,
+          },
+        },
+        400: { description: 'Révisions identiques ou invalides', ...ErrorSchema },
+        404: { description: 'Devis ou révision introuvable', ...ErrorSchema },
+      },
+    },
+    handler: diffQuoteRevisions,
+  })
+
+  // POST /api/v1/quotes/:id/convert
+  fastify.post('/:id/convert', {
+    schema: {
+      description: 'Convertir un devis accepté en facture brouillon reprenant son client et ses lignes',
+      tags: ['quotes'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      body: {
+        type: 'object',
+        additionalProperties: false,
+        properties: QuoteInvoiceBodyProperties,
+      },
+      response: {
+        201: { description: 'Facture créée (brouillon)', ...QuoteInvoiceCreatedSchema },
+        404: { description: 'Devis introuvable', ...ErrorSchema },
+        409: { description: 'Devis non accepté ou déjà facturé', ...ErrorSchema },
+      },
+    },
+    handler: convertQuote,
+  })
+
+  // GET /api/v1/quotes/:id/pdf
+  fastify.get('/:id/pdf', {
+    schema: {
+      description: 'Générer et télécharger le PDF d\'un devis',
+      tags: ['quotes'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      querystring: {
+        type: 'object',
+        properties: {
+          template: { type: 'string', enum: PDF_TEMPLATES },
+        },
+      },
+      response: {
+        404: { description: 'Devis introuvable', ...ErrorSchema },
+      },
+    },
+    handler: downloadQuotePdf,
+  })
+
+  // POST /api/v1/quotes/:id/deposit-invoices
+  fastify.post('/:id/deposit-invoices', {
+    schema: {
+      description: 'Créer une facture d\'acompte sur un devis accepté (pourcentage du total HT ou montant HT fixe)',
+      tags: ['quotes'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      body: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          ...QuoteInvoiceBodyProperties,
+          percentage: { type: 'number', exclusiveMinimum: 0, maximum: 100 },
+          amount: { type: 'number', exclusiveMinimum: 0 },
+        },
+      },
+      response: {
+        201: { description: 'Facture d\'acompte créée (brouillon)', ...QuoteInvoiceCreatedSchema },
+        400: { description: 'Acompte invalide ou supérieur au solde du devis', ...ErrorSchema },
+        404: { description: 'Devis introuvable', ...ErrorSchema },
+        409: { description: 'Devis non accepté ou facture de solde déjà créée', ...ErrorSchema },
+      },
+    },
+    handler: createDepositInvoice,
+  })
+
+  // POST /api/v1/quotes/:id/final-invoice
+  fastify.post('/:id/final-invoice', {
+    schema: {
+      description: 'Créer la facture de solde d\'un devis accepté : lignes du devis moins les acomptes émis',
+      tags: ['quotes'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      body: {
+        type: 'object',
+        additionalProperties: false,
+        properties: QuoteInvoiceBodyProperties,
+      },
+      response: {
+        201: { description: 'Facture de solde créée (brouillon)', ...QuoteInvoiceCreatedSchema },
+        404: { description: 'Devis introuvable', ...ErrorSchema },
+        409: { description: 'Devis non accepté, acompte en brouillon ou solde déjà créé', ...ErrorSchema },
+      },
+    },
+    handler: createFinalInvoice,
+  })
+
+  // GET /api/v1/quotes/:id/billing-summary
+  fastify.get('/:id/billing-summary', {
+    schema: {
+      description: 'Récapitulatif de facturation d\'un devis : facturé, encaissé et restant à facturer (TTC)',
+      tags: ['quotes'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            quote: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                number: { type: 'string', nullable: true },
+                status: { type: 'string', enum: QUOTE_STATUSES },
+                subtotal: { type: 'number' },
+                total: { type: 'number' },
+                currency: { type: 'string' },
+              },
+            },
+            invoicedTotal: { type: 'number' },
+            paidAmount: { type: 'number' },
+            remainingToInvoice: { type: 'number' },
+            remainingToPay: { type: 'number' },
+            invoices: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  number: { type: 'string', nullable: true },
+                  billingStage: { type: 'string', enum: BILLING_STAGES, nullable: true },
+                  status: { type: 'string', enum: INVOICE_STATUSES },
+                  issueDate: { type: 'string', format: 'date-time' },
+                  subtotal: { type: 'number' },
+                  total: { type: 'number' },
+                  creditedAmount: { type: 'number' },
+                  paidAmount: { type: 'number' },
+                },
+              },
+            },
+          },
+        },
+        404: { description: 'Devis introuvable', ...ErrorSchema },
+      },
+    },
+    handler: getQuoteBillingSummary,
+  })
+}
+
+export default quoteRoutes
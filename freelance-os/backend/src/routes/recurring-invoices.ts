@@ -0,0 +1,227 @@
+import { FastifyPluginAsync } from 'fastify'
+import {
+  createRecurringInvoice,
+  listRecurringInvoices,
+  getRecurringInvoiceById,
+  updateRecurringInvoice,
+  deleteRecurringInvoice,
+} from '@/controllers/recurring-invoice.controller'
+import { authMiddleware } from '@/middleware/auth.middleware'
+
+// ============================================================================
+// SCHÉMAS OPENAPI
+// ============================================================================
+
+const RECURRENCE_INTERVALS = ['MONTHLY', 'QUARTERLY', 'YEARLY']
+
+const ErrorSchema = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    message: { type: 'string' },
+  },
+}
+
+const IdParamsSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string' },
+  },
+}
+
+const RecurringInvoiceSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    clientId: { type: 'string' },
+    client: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        name: { type: 'string' },
+        company: { type: 'string', nullable: true },
+      },
+    },
+    interval: { type: 'string', enum: RECURRENCE_INTERVALS },
+    startDate: { type: 'string', format: 'date-time' },
+    nextRunDate: { type: 'string', format: 'date-time' },
+    endDate: { type: 'string', format: 'date-time', nullable: true },
+    occurrences: { type: 'number' },
+    lastRunAt: { type: 'string', format: 'date-time', nullable: true },
+    isActive: { type: 'boolean' },
+    autoSend: { type: 'boolean' },
+    vatRate: { type: 'number' },
+    currency: { type: 'string' },
+    notes: { type: 'string', nullable: true },
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          description: { type: 'string' },
+          quantity: { type: 'number' },
+          unitPrice: { type: 'number' },
+          vatRate: { type: 'number', nullable: true },
+        },
+      },
+    },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+}
+
+const RecurringInvoiceBodyProperties = {
+  name: { type: 'string', minLength: 1, maxLength: 100 },
+  clientId: { type: 'string' },
+  interval: { type: 'string', enum: RECURRENCE_INTERVALS },
+  startDate: { type: 'string', format: 'date-time' },
+  endDate: { type: 'string', format: 'date-time', nullable: true },
+  autoSend: { type: 'boolean' },
+  vatRate: { type: 'number', minimum: 0, maximum: 100 },
+  currency: { type: 'string', minLength: 3, maxLength: 3 },
+  notes: { type: 'string', maxLength: 2000 },
+  items: {
+    type: 'array',
+    minItems: 1,
+    maxItems: 200,
+    items: {
+      type: 'object',
+      required: ['description', 'quantity', 'unitPrice'],
+      additionalProperties: false,
+      properties: {
+        description: { type: 'string', minLength: 1, maxLength: 500 },
+        quantity: { type: 'number', exclusiveMinimum: 0 },
+        unitPrice: { type: 'number', minimum: 0 },
+        vatRate: { type: 'number', minimum: 0, maximum: 100 },
+      },
+    },
+  },
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+const recurringInvoiceRoutes: FastifyPluginAsync = async (fastify) => {
+  // Hook d'authentification pour toutes les routes factures récurrentes
+  fastify.addHook('preHandler', authMiddleware)
+
+  // GET /api/v1/recurring-invoices
+  fastify.get('/', {
+    schema: {
+      description: 'Lister les modèles de factures récurrentes',
+      tags: ['invoices'],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            recurringInvoices: { type: 'array', items: RecurringInvoiceSchema },
+          },
+        },
+      },
+    },
+    handler: listRecurringInvoices,
+  })
+
+  // POST /api/v1/recurring-invoices
+  fastify.post('/', {
+    schema: {
+      description: 'Créer un modèle de facture récurrente (mensuelle, trimestrielle ou annuelle)',
+      tags: ['invoices'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['name', 'clientId', 'interval', 'startDate', 'items'],
+        additionalProperties: false,
+        properties: RecurringInvoiceBodyProperties,
+      },
+      response: {
+        201: {
+          description: 'Facture récurrente créée',
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            recurringInvoice: RecurringInvoiceSchema,
+          },
+        },
+        400: { description: 'Données invalides', ...ErrorSchema },
+        404: { description: 'Client introuvable', ...ErrorSchema },
+      },
+    },
+    handler: createRecurringInvoice,
+  })
+
+  // GET /api/v1/recurring-invoices/:id
+  fastify.get('/:id', {
+    schema: {
+      description: 'Récupérer un modèle de facture récurrente',
+      tags: ['invoices'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            recurringInvoice: RecurringInvoiceSchema,
+          },
+        },
+        404: { description: 'Facture récurrente introuvable', ...ErrorSchema },
+      },
+    },
+    handler: getRecurringInvoiceById,
+  })
+
+  // PUT /api/v1/recurring-invoices/:id
+  fastify.put('/:id', {
+    schema: {
+      description: 'Mettre à jour un modèle (un nouvel intervalle ou une nouvelle date de départ redémarre le calendrier)',
+      tags: ['invoices'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      body: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          ...RecurringInvoiceBodyProperties,
+          isActive: { type: 'boolean' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            recurringInvoice: RecurringInvoiceSchema,
+          },
+        },
+        400: { description: 'Données invalides', ...ErrorSchema },
+        404: { description: 'Facture récurrente introuvable', ...ErrorSchema },
+      },
+    },
+    handler: updateRecurringInvoice,
+  })
+
+  // DELETE /api/v1/recurring-invoices/:id
+  fastify.delete('/:id', {
+    schema: {
+      description: 'Supprimer un modèle récurrent (les factures générées sont conservées)',
+      tags: ['invoices'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      response: {
+        204: {
+          description: 'Facture récurrente supprimée',
+          type: 'null',
+        },
+        404: { description: 'Facture récurrente introuvable', ...ErrorSchema },
+      },
+    },
+    handler: deleteRecurringInvoice,
+  })
+}
+
+export default recurringInvoiceRoutes
@@ -0,0 +1,559 @@
+import { FastifyPluginAsync } from 'fastify'
+import {
+  startTimer,
+  stopTimer,
+  getRunningTimer,
+  discardTimer,
+  createTimeEntry,
+  listTimeEntries,
+  getTimeEntryById,
+  updateTimeEntry,
+  deleteTimeEntry,
+  previewUnbilledTime,
+  invoiceUnbilledTime,
+  getTimesheet,
+  getTimeSettings,
+  updateTimeSettings,
+} from '@/controllers/time-tracking.controller'
+import { authMiddleware } from '@/middleware/auth.middleware'
+
+// ============================================================================
+// SCHÉMAS OPENAPI
+// ============================================================================
+
+const ErrorSchema = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    message: { type: 'string' },
+  },
+}
+
+const IdParamsSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string' },
+  },
+}
+
+const DeleteResultSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    message: { type: 'string' },
+  },
+}
+
+const TimerSchema = {
+  type: 'object',
+  nullable: true,
+  properties: {
+    projectId: { type: 'string' },
+    taskId: { type: 'string', nullable: true },
+    description: { type: 'string', nullable: true },
+    hourlyRate: { type: 'number', nullable: true },
+    startTime: { type: 'string', format: 'date-time' },
+    elapsedMinutes: { type: 'number' },
+  },
+}
+
+const TimeEntrySchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    description: { type: 'string', nullable: true },
+    startTime: { type: 'string', format: 'date-time' },
+    endTime: { type: 'string', format: 'date-time', nullable: true },
+    duration: { type: 'number' },
+    hourlyRate: { type: 'number', nullable: true },
+    projectId: { type: 'string', nullable: true },
+    taskId: { type: 'string', nullable: true },
+    invoiceId: { type: 'string', nullable: true },
+    project: {
+      type: 'object',
+      nullable: true,
+      properties: {
+        id: { type: 'string' },
+        name: { type: 'string' },
+      },
+    },
+    task: {
+      type: 'object',
+      nullable: true,
+      properties: {
+        id: { type: 'string' },
+        title: { type: 'string' },
+      },
+    },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+}
+
+const TimeEntryMessageSchema = {
+  type: 'object',
+  properties: {
+    message: { type: 'string' },
+    entry: TimeEntrySchema,
+  },
+}
+
+const TimeEntryBodyProperties = {
+  projectId: { type: 'string' },
+  taskId: { type: 'string' },
+  description: { type: 'string', maxLength: 500 },
+  startTime: { type: 'string', format: 'date-time' },
+  endTime: { type: 'string', format: 'date-time' },
+  hourlyRate: { type: 'number', minimum: 0 },
+}
+
+const UnbilledScopeProperties = {
+  projectId: { type: 'string' },
+  clientId: { type: 'string' },
+  from: { type: 'string', format: 'date-time' },
+  to: { type: 'string', format: 'date-time' },
+  groupBy: { type: 'string', enum: ['TASK', 'DAY'], default: 'TASK' },
+}
+
+const UnbilledLineSchema = {
+  type: 'object',
+  properties: {
+    description: { type: 'string' },
+    quantity: { type: 'number' },
+    unitPrice: { type: 'number' },
+    minutes: { type: 'number' },
+    entryIds: { type: 'array', items: { type: 'string' } },
+  },
+}
+
+// Facture brouillon générée depuis le temps (à émettre via POST /invoices/:id/issue)
+const TimeInvoiceSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    number: { type: 'string', nullable: true },
+    clientId: { type: 'string' },
+    issueDate: { type: 'string', format: 'date-time' },
+    dueDate: { type: 'string', format: 'date-time' },
+    subtotal: { type: 'number' },
+    vatRate: { type: 'number' },
+    vatAmount: { type: 'number' },
+    total: { type: 'number' },
+    status: { type: 'string' },
+    currency: { type: 'string' },
+    notes: { type: 'string', nullable: true },
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          description: { type: 'string' },
+          quantity: { type: 'number' },
+          unitPrice: { type: 'number' },
+          vatRate: { type: 'number' },
+          total: { type: 'number' },
+        },
+      },
+    },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+}
+
+const WeekDaysSchema = { type: 'array', items: { type: 'number' }, minItems: 7, maxItems: 7 }
+
+const SettingsSchema = {
+  type: 'object',
+  properties: {
+    rounding: { type: 'number', enum: [0, 5, 15] },
+  },
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+const timeTrackingRoutes: FastifyPluginAsync = async (fastify) => {
+  // Hook d'authentification pour toutes les routes du suivi du temps
+  fastify.addHook('preHandler', authMiddleware)
+
+  // POST /api/v1/time/start
+  fastify.post('/start', {
+    schema: {
+      description: 'Démarrer le chronomètre sur un projet (et une tâche) : un seul chronomètre à la fois',
+      tags: ['time'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['projectId'],
+        additionalProperties: false,
+        properties: {
+          projectId: { type: 'string' },
+          taskId: { type: 'string' },
+          description: { type: 'string', maxLength: 500 },
+          hourlyRate: { type: 'number', minimum: 0 },
+        },
+      },
+      response: {
+        201: {
+          description: 'Chronomètre démarré',
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            timer: TimerSchema,
+          },
+        },
+        404: { description: 'Projet ou tâche introuvable', ...ErrorSchema },
+        409: { description: 'Chronomètre déjà en cours, créneau occupé ou projet clôturé', ...ErrorSchema },
+      },
+    },
+    handler: startTimer,
+  })
+
+  // POST /api/v1/time/stop
+  fastify.post('/stop', {
+    schema: {
+      description: 'Arrêter le chronomètre et enregistrer le créneau (durée arrondie selon les réglages)',
+      tags: ['time'],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: { description: 'Créneau enregistré', ...TimeEntryMessageSchema },
+        404: { description: 'Aucun chronomètre en cours', ...ErrorSchema },
+        409: { description: 'Créneau occupé ou projet clôturé (le chronomètre continue)', ...ErrorSchema },
+      },
+    },
+    handler: stopTimer,
+  })
+
+  // GET /api/v1/time/current
+  fastify.get('/current', {
+    schema: {
+      description: 'Chronomètre en cours (null si aucun)',
+      tags: ['time'],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            timer: TimerSchema,
+          },
+        },
+      },
+    },
+    handler: getRunningTimer,
+  })
+
+  // DELETE /api/v1/time/current
+  fastify.delete('/current', {
+    schema: {
+      description: 'Abandonner le chronomètre sans enregistrer de temps',
+      tags: ['time'],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: { description: 'Chronomètre abandonné', ...DeleteResultSchema },
+        404: { description: 'Aucun chronomètre en cours', ...ErrorSchema },
+      },
+    },
+    handler: discardTimer,
+  })
+
+  // GET /api/v1/time/entries
+  fastify.get('/entries', {
+    schema: {
+      description: 'Lister les saisies (plus récentes d\'abord)',
+      tags: ['time'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          page: { type: 'string', pattern: '^\\d+$', default: '1' },
+          limit: { type: 'string', pattern: '^\\d+$', default: '50' },
+          from: { type: 'string', format: 'date-time' },
+          to: { type: 'string', format: 'date-time' },
+          projectId: { type: 'string' },
+          taskId: { type: 'string' },
+        },
+      },
+      response: {
+        200: {
+          description: 'Liste des saisies',
+          type: 'object',
+          properties: {
+            entries: { type: 'array', items: TimeEntrySchema },
+            pagination: {
+              type: 'object',
+              properties: {
+                page: { type: 'number' },
+                limit: { type: 'number' },
+                total: { type: 'number' },
+                totalPages: { type: 'number' },
+                hasNext: { type: 'boolean' },
+                hasPrev: { type: 'boolean' },
+              },
+            },
+          },
+        },
+      },
+    },
+    handler: listTimeEntries,
+  })
+
+  // POST /api/v1/time/entries
+  fastify.post('/entries', {
+    schema: {
+      description: 'Saisie manuelle d\'un créneau terminé (24 heures au plus, sans chevauchement)',
+      tags: ['time'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['projectId', 'startTime', 'endTime'],
+        additionalProperties: false,
+        properties: TimeEntryBodyProperties,
+      },
+      response: {
+        201: { description: 'Temps saisi', ...TimeEntryMessageSchema },
+        400: { description: 'Données invalides', ...ErrorSchema },
+        404: { description: 'Projet ou tâche introuvable', ...ErrorSchema },
+        409: { description: 'Créneau occupé ou projet clôturé', ...ErrorSchema },
+      },
+    },
+    handler: createTimeEntry,
+  })
+
+  // GET /api/v1/time/entries/:id
+  fastify.get('/entries/:id', {
+    schema: {
+      description: 'Récupérer une saisie',
+      tags: ['time'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            entry: TimeEntrySchema,
+          },
+        },
+        404: { description: 'Saisie introuvable', ...ErrorSchema },
+      },
+    },
+    handler: getTimeEntryById,
+  })
+
+  // PUT /api/v1/time/entries/:id
+  fastify.put('/entries/:id', {
+    schema: {
+      description: 'Modifier une saisie (null détache la tâche ou rétablit le taux du projet)',
+      tags: ['time'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      body: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          ...TimeEntryBodyProperties,
+          taskId: { type: 'string', nullable: true },
+          hourlyRate: { type: 'number', minimum: 0, nullable: true },
+        },
+      },
+      response: {
+        200: { description: 'Saisie mise à jour', ...TimeEntryMessageSchema },
+        400: { description: 'Données invalides', ...ErrorSchema },
+        404: { description: 'Saisie, projet ou tâche introuvable', ...ErrorSchema },
+        409: { description: 'Créneau occupé, projet clôturé ou saisie facturée', ...ErrorSchema },
+      },
+    },
+    handler: updateTimeEntry,
+  })
+
+  // DELETE /api/v1/time/entries/:id
+  fastify.delete('/entries/:id', {
+    schema: {
+      description: 'Supprimer une saisie',
+      tags: ['time'],
+      security: [{ bearerAuth: [] }],
+      params: IdParamsSchema,
+      response: {
+        200: { description: 'Saisie supprimée', ...DeleteResultSchema },
+        404: { description: 'Saisie introuvable', ...ErrorSchema },
+        409: { description: 'Projet clôturé ou saisie facturée', ...ErrorSchema },
+      },
+    },
+    handler: deleteTimeEntry,
+  })
+
+  // GET /api/v1/time/unbilled
+  fastify.get('/unbilled', {
+    schema: {
+      description: 'Aperçu du temps terminé et non facturé d\'un projet ou d\'un client, regroupé par tâche ou par jour',
+      tags: ['time'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: UnbilledScopeProperties,
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            unbilled: {
+              type: 'object',
+              properties: {
+                clientId: { type: 'string' },
+                entriesCount: { type: 'number' },
+                totalMinutes: { type: 'number' },
+                subtotal: { type: 'number' },
+                lines: { type: 'array', items: UnbilledLineSchema },
+              },
+            },
+          },
+        },
+        400: { description: 'Sélection invalide ou taux horaire manquant', ...ErrorSchema },
+        404: { description: 'Projet ou client introuvable', ...ErrorSchema },
+      },
+    },
+    handler: previewUnbilledTime,
+  })
+
+  // POST /api/v1/time/invoice
+  fastify.post('/invoice', {
+    schema: {
+      description: 'Facturer le temps non facturé : facture brouillon, saisies marquées facturées (libérées si la facture est annulée)',
+      tags: ['time'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          ...UnbilledScopeProperties,
+          issueDate: { type: 'string', format: 'date-time' },
+          dueDate: { type: 'string', format: 'date-time' },
+          vatRate: { type: 'number', minimum: 0, maximum: 100 },
+          currency: { type: 'string', minLength: 3, maxLength: 3 },
+          notes: { type: 'string', maxLength: 2000 },
+        },
+      },
+      response: {
+        201: {
+          description: 'Facture brouillon créée',
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            invoice: TimeInvoiceSchema,
+          },
+        },
+        400: { description: 'Sélection vide ou invalide, taux horaire manquant', ...ErrorSchema },
+        404: { description: 'Projet ou client introuvable', ...ErrorSchema },
+        409: { description: 'Saisies facturées entre-temps', ...ErrorSchema },
+      },
+    },
+    handler: invoiceUnbilledTime,
+  })
+
+  // GET /api/v1/time/timesheet
+  fastify.get('/timesheet', {
+    schema: {
+      description: 'Feuille de temps de la semaine (lundi → dimanche, UTC) par projet et par tâche',
+      tags: ['time'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          date: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            timesheet: {
+              type: 'object',
+              properties: {
+                weekStart: { type: 'string', format: 'date-time' },
+                weekEnd: { type: 'string', format: 'date-time' },
+                days: WeekDaysSchema,
+                totalMinutes: { type: 'number' },
+                projects: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      projectId: { type: 'string' },
+                      name: { type: 'string' },
+                      days: WeekDaysSchema,
+                      totalMinutes: { type: 'number' },
+                      tasks: {
+                        type: 'array',
+                        items: {
+                          type: 'object',
+                          properties: {
+                            taskId: { type: 'string', nullable: true },
+                            title: { type: 'string', nullable: true },
+                            days: WeekDaysSchema,
+                            totalMinutes: { type: 'number' },
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        400: { description: 'Date invalide', ...ErrorSchema },
+      },
+    },
+    handler: getTimesheet,
+  })
+
+  // GET /api/v1/time/settings
+  fastify.get('/settings', {
+    schema: {
+      description: 'Réglages du suivi du temps',
+      tags: ['time'],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            settings: SettingsSchema,
+          },
+        },
+      },
+    },
+    handler: getTimeSettings,
+  })
+
+  // PUT /api/v1/time/settings
+  fastify.put('/settings', {
+    schema: {
+      description: 'Arrondi des prochaines saisies au plus proche : 0 (aucun), 5 ou 15 minutes',
+      tags: ['time'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['rounding'],
+        additionalProperties: false,
+        properties: {
+          rounding: { type: 'number', enum: [0, 5, 15] },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            settings: SettingsSchema,
+          },
+        },
+        400: { description: 'Données invalides', ...ErrorSchema },
+      },
+    },
+    handler: updateTimeSettings,
+  })
+}
+
+export default timeTrackingRoutes
@@ -0,0 +1,76 @@
+import { FastifyPluginAsync } from 'fastify'
+import { getVatSettings, updateVatSettings } from '@/controllers/vat.controller'
+import { authMiddleware } from '@/middleware/auth.middleware'
+
+// ============================================================================
+// SCHÉMAS OPENAPI
+// ============================================================================
+
+const VAT_REGIMES = ['STANDARD', 'FRANCHISE', 'REVERSE_CHARGE']
+
+const VatSettingsSchema = {
+  type: 'object',
+  properties: {
+    vatRegime: { type: 'string', enum: VAT_REGIMES },
+    tvaNumber: { type: 'string', nullable: true },
+    country: { type: 'string' },
+    rates: { type: 'array', items: { type: 'number' } },
+    mention: { type: 'string', nullable: true },
+  },
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+const vatRoutes: FastifyPluginAsync = async (fastify) => {
+  // Hook d'authentification pour toutes les routes TVA
+  fastify.addHook('preHandler', authMiddleware)
+
+  // GET /api/v1/vat
+  fastify.get('/', {
+    schema: {
+      description: 'Régime de TVA du freelance, taux applicables et mention légale',
+      tags: ['invoices'],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            settings: VatSettingsSchema,
+          },
+        },
+      },
+    },
+    handler: getVatSettings,
+  })
+
+  // PUT /api/v1/vat
+  fastify.put('/', {
+    schema: {
+      description: 'Choisir le régime de TVA (STANDARD ou FRANCHISE) des prochains documents ; l\'autoliquidation se déduit du client',
+      tags: ['invoices'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['vatRegime'],
+        additionalProperties: false,
+        properties: {
+          vatRegime: { type: 'string', enum: ['STANDARD', 'FRANCHISE'] },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            settings: VatSettingsSchema,
+          },
+        },
+      },
+    },
+    handler: updateVatSettings,
+  })
+}
+
+export default vatRoutes
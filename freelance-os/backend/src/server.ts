@@ -25,6 +25,22 @@ import { clientRoutes } from '@/routes/clients.routes'
 import invoiceRoutes from '@/routes/invoices'
 import dashboardRoutes from '@/routes/dashboard'
 import prospectRoutes from '@/routes/prospects'
+import numberingRoutes from '@/routes/numbering'
+import recurringInvoiceRoutes from '@/routes/recurring-invoices'
+import quoteRoutes from '@/routes/quotes'
+import publicQuoteRoutes from '@/routes/public-quotes'
+import clientPortalRoutes from '@/routes/client-portal'
+import projectRoutes from '@/routes/projects'
+import projectTemplateRoutes from '@/routes/project-templates'
+import timeTrackingRoutes from '@/routes/time-tracking'
+import notificationRoutes from '@/routes/notifications'
+import vatRoutes from '@/routes/vat'
+
+// Tâches planifiées
+import { startOverdueInvoicesJob } from '@/jobs/overdue-invoices.job'
+import { startRecurringInvoicesJob } from '@/jobs/recurring-invoices.job'
+import { startQuoteExpiryJob } from '@/jobs/quote-expiry.job'
+import { startBudgetAlertsJob } from '@/jobs/budget-alerts.job'
 
 async function buildServer() {
   const fastify = Fastify({
@@ -77,14 +93,25 @@ async function buildServer() {
             name: 'Authorization',
             in: 'header',
             description: 'Bearer token pour authentification'
+          },
+          portalAuth: {
+            type: 'apiKey',
+            name: 'Authorization',
+            in: 'header',
+            description: 'Bearer token de session du portail client'
           }
         },
         tags: [
           { name: 'auth', description: 'Authentification' },
           { name: 'clients', description: 'Gestion clients' },
           { name: 'invoices', description: 'Gestion factures' },
+          { name: 'quotes', description: 'Gestion devis' },
+          { name: 'projects', description: 'Gestion projets et tâches' },
+          { name: 'time', description: 'Suivi du temps' },
+          { name: 'notifications', description: 'Notifications et alertes' },
           { name: 'dashboard', description: 'Tableau de bord' },
-          { name: 'prospects', description: 'Gestion prospects' }
+          { name: 'prospects', description: 'Gestion prospects' },
+          { name: 'portal', description: 'Portail client' }
         ]
       }
     })
@@ -159,6 +186,36 @@ async function buildServer() {
   
   await fastify.register(prospectRoutes, { prefix: '/api/v1/prospects' })
   logger.info('✅ Routes prospects enregistrées')
+  
+  await fastify.register(numberingRoutes, { prefix: '/api/v1/numbering' })
+  logger.info('✅ Routes numérotation enregistrées')
+  
+  await fastify.register(vatRoutes, { prefix: '/api/v1/vat' })
+  logger.info('✅ Routes TVA enregistrées')
+  
+  await fastify.register(recurringInvoiceRoutes, { prefix: '/api/v1/recurring-invoices' })
+  logger.info('✅ Routes factures récurrentes enregistrées')
+  
+  await fastify.register(quoteRoutes, { prefix: '/api/v1/quotes' })
+  logger.info('✅ Routes devis enregistrées')
+
+  await fastify.register(publicQuoteRoutes, { prefix: '/public/quotes' })
+  logger.info('✅ Routes publiques d\'acceptation des devis enregistrées')
+
+  await fastify.register(clientPortalRoutes, { prefix: '/api/v1/portal' })
+  logger.info('✅ Routes portail client enregistrées')
+
+  await fastify.register(projectRoutes, { prefix: '/api/v1/projects' })
+  logger.info('✅ Routes projets enregistrées')
+
+  await fastify.register(projectTemplateRoutes, { prefix: '/api/v1/project-templates' })
+  logger.info('✅ Routes modèles de projet enregistrées')
+
+  await fastify.register(timeTrackingRoutes, { prefix: '/api/v1/time' })
+  logger.info('✅ Routes suivi du temps enregistrées')
+
+  await fastify.register(notificationRoutes, { prefix: '/api/v1/notifications' })
+  logger.info('✅ Routes notifications enregistrées')
 
   // Gestionnaire d'erreurs sécurisé
   fastify.setErrorHandler(secureErrorHandler)
@@ -204,9 +261,26 @@ async function startServer() {
       logger.debug('⚡ Serveur actif')
     }, 30000) // Log toutes les 30 secondes
     
-    // Nettoyer l'interval lors de l'arrêt
-    process.on('SIGTERM', () => clearInterval(keepAlive))
-    process.on('SIGINT', () => clearInterval(keepAlive))
+    // Passage automatique des factures en retard
+    const overdueJob = startOverdueInvoicesJob()
+    logger.info('✅ Tâche factures en retard démarrée')
+    
+    // Génération des factures récurrentes
+    const recurringJob = startRecurringInvoicesJob()
+    logger.info('✅ Tâche factures récurrentes démarrée')
+    
+    // Expiration des devis dont la date de validité est dépassée
+    const quoteExpiryJob = startQuoteExpiryJob()
+    logger.info('✅ Tâche expiration des devis démarrée')
+    
+    // Alertes de consommation du budget des projets
+    const budgetAlertsJob = startBudgetAlertsJob()
+    logger.info('✅ Tâche alertes budget démarrée')
+    
+    // Nettoyer les intervals lors de l'arrêt
+    const stopTimers = () => { clearInterval(keepAlive); clearInterval(overdueJob); clearInterval(recurringJob); clearInterval(quoteExpiryJob); clearInterval(budgetAlertsJob) }
+    process.on('SIGTERM', stopTimers)
+    process.on('SIGINT', stopTimers)
     
   } catch (error) {
     logger.error('❌ Erreur de démarrage du serveur', error)
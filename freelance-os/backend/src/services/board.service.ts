@@ -0,0 +1,550 @@
+import { PrismaClient, Prisma, BoardColumn, Project, Task } from '@prisma/client';
+import {
+  BoardColumnResponse,
+  BoardResponse,
+  CreateBoardColumnInput,
+  MoveBoardColumnInput,
+  MoveTaskInput,
+  TaskResponse,
+  UpdateBoardColumnInput
+} from '@/types/project.types';
+import { secureLogger } from '@/utils/secure-logger';
+import { sanitizeObjectXSS } from '@/utils/xss-protection';
+import { isProjectOpen } from '@/utils/project-lifecycle';
+import {
+  DEFAULT_BOARD_COLUMNS,
+  RankedItem,
+  assertWipLimit,
+  compareRanked,
+  rankBetween,
+  rankForPlacement
+} from '@/utils/board-order';
+
+type Tx = Prisma.TransactionClient;
+
+// Colonne et clé d'ordre d'une tâche, avec sa complétion si la colonne l'impose
+interface TaskPlacement {
+  columnId: string;
+  position: string;
+  completedAt?: Date | null;
+}
+
+// Tâches rangées (toute tâche d'un tableau ouvert a une colonne et une clé)
+const rankedTasks = (tasks: Task[]): RankedItem[] =>
+  tasks.flatMap(task => task.position ? [{ id: task.id, position: task.position }] : []);
+
+export class BoardService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Verrouille un projet du freelance : les opérations sur son tableau sont sérialisées
+   * (ordre des clés et limites WIP calculés sans course)
+   */
+  async lockProject(tx: Tx, userId: string, projectId: string): Promise<Project> {
+    await tx.$queryRaw`SELECT id FROM "projects" WHERE id = ${projectId} AND "userId" = ${userId} FOR UPDATE`;
+
+    const project = await tx.project.findFirst({
+      where: {
+        id: projectId,
+        userId
+      }
+    });
+
+    if (!project) {
+      throw new Error('Projet introuvable');
+    }
+
+    return project;
+  }
+
+  /**
+   * Le tableau d'un projet terminé ou annulé est figé
+   */
+  private assertProjectOpen(project: Project): void {
+    if (!isProjectOpen(project.status)) {
+      throw new Error(`Projet déjà clôturé (${project.status}) : réouvrez-le pour modifier son tableau`);
+    }
+  }
+
+  private async findColumn(tx: Tx, projectId: string, columnId: string): Promise<BoardColumn> {
+    const column = await tx.boardColumn.findFirst({
+      where: {
+        id: columnId,
+        projectId
+      }
+    });
+
+    if (!column) {
+      throw new Error('Colonne introuvable');
+    }
+
+    return column;
+  }
+
+  /**
+   * Colonnes du projet dans l'ordre, créées à la première ouverture (À faire / En cours / Terminé)
+   * Les tâches sans colonne rejoignent la première colonne à faire, ou la première colonne
+   * terminée si elles sont terminées. À appeler sous le verrou du projet
+   */
+  async ensureBoard(tx: Tx, project: Project): Promise<BoardColumn[]> {
+    const columns = (await tx.boardColumn.findMany({
+      where: { projectId: project.id }
+    })).sort(compareRanked);
+
+    if (columns.length === 0) {
+      let position: string | null = null;
+
+      for (const column of DEFAULT_BOARD_COLUMNS) {
+        position = rankBetween(position, null);
+
+        columns.push(await tx.boardColumn.create({
+          data: {
+            projectId: project.id,
+            name: column.name,
+            isDone: column.isDone,
+            position
+          }
+        }));
+      }
+    }
+
+    const unplaced = await tx.task.findMany({
+      where: {
+        projectId: project.id,
+        columnId: null
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    for (const done of [false, true]) {
+      const tasks = unplaced.filter(task => Boolean(task.completedAt) === done);
+      const column = columns.find(candidate => candidate.isDone === done) ?? columns[0];
+
+      if (tasks.length === 0 || !column) {
+        continue;
+      }
+
+      const siblings = rankedTasks(await tx.task.findMany({ where: { columnId: column.id } })).sort(compareRanked);
+      let position = siblings[siblings.length - 1]?.position ?? null;
+
+      for (const task of tasks) {
+        position = rankBetween(position, null);
+
+        await tx.task.update({
+          where: { id: task.id },
+          data: { columnId: column.id, position }
+        });
+      }
+    }
+
+    return columns;
+  }
+
+  /**
+   * Place une tâche en fin de colonne en respectant la limite WIP
+   */
+  private async appendTo(tx: Tx, column: BoardColumn, taskId?: string): Promise<TaskPlacement> {
+    const tasks = await tx.task.findMany({
+      where: {
+        columnId: column.id,
+        ...(taskId && { id: { not: taskId } })
+      }
+    });
+
+    assertWipLimit(column, tasks.length);
+
+    return {
+      columnId: column.id,
+      position: rankForPlacement(rankedTasks(tasks), {})
+    };
+  }
+
+  /**
+   * Emplacement d'une nouvelle tâche : colonne demandée, à défaut la première colonne à faire
+   * À appeler sous le verrou du projet
+   */
+  async placeNewTask(tx: Tx, project: Project, columnId: string | undefined): Promise<TaskPlacement> {
+    const columns = await this.ensureBoard(tx, project);
+
+    const column = columnId
+      ? await this.findColumn(tx, project.id, columnId)
+      : columns.find(candidate => !candidate.isDone) ?? columns[0];
+
+    if (!column) {
+      throw new Error('Colonne introuvable');
+    }
+
+    return {
+      ...await this.appendTo(tx, column),
+      ...(column.isDone && { completedAt: new Date() })
+    };
+  }
+
+  /**
+   * Emplacements de plusieurs nouvelles tâches, à la suite dans la première colonne à faire
+   * À appeler sous le verrou du projet (ou pour un projet en cours de création)
+   */
+  async placeNewTasks(tx: Tx, project: Project, count: number): Promise<TaskPlacement[]> {
+    const columns = await this.ensureBoard(tx, project);
+    const column = columns.find(candidate => !candidate.isDone) ?? columns[0];
+
+    if (!column) {
+      throw new Error('Colonne introuvable');
+    }
+
+    const siblings = rankedTasks(await tx.task.findMany({ where: { columnId: column.id } })).sort(compareRanked);
+    let position = siblings[siblings.length - 1]?.position ?? null;
+
+    const placements: TaskPlacement[] = [];
+
+    for (let index = 0; index < count; index++) {
+      assertWipLimit(column, siblings.length + index);
+      position = rankBetween(position, null);
+      placements.push({ columnId: column.id, position });
+    }
+
+    return placements;
+  }
+
+  /**
+   * Terminer ou rouvrir une tâche la range dans la première colonne terminée ou à faire,
+   * sauf si sa colonne correspond déjà. À appeler sous le verrou du projet
+   */
+  async placeOnCompletion(tx: Tx, project: Project, task: Task, completed: boolean): Promise<TaskPlacement | null> {
+    const columns = await this.ensureBoard(tx, project);
+    const current = columns.find(column => column.id === task.columnId);
+
+    if (current && current.isDone === completed) {
+      return null;
+    }
+
+    const target = columns.find(column => column.isDone === completed);
+
+    return target ? this.appendTo(tx, target, task.id) : null;
+  }
+
+  /**
+   * Récupérer le tableau Kanban d'un projet
+   */
+  async getBoard(userId: string, projectId: string): Promise<BoardResponse> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const project = await this.lockProject(tx, userId, projectId);
+        const columns = await this.ensureBoard(tx, project);
+
+        const tasks = await tx.task.findMany({
+          where: { projectId: project.id }
+        });
+
+        return {
+          projectId: project.id,
+          columns: columns.map(column => {
+            const columnTasks = tasks
+              .filter((task): task is TaskResponse & { position: string } =>
+                task.columnId === column.id && task.position !== null
+              )
+              .sort(compareRanked);
+
+            return {
+              ...column,
+              tasksCount: columnTasks.length,
+              tasks: columnTasks
+            };
+          })
+        };
+      });
+
+    } catch (error) {
+      secureLogger.error('Erreur récupération tableau', {
+        userId,
+        projectId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Ajouter une colonne en fin de tableau
+   */
+  async createColumn(userId: string, projectId: string, data: CreateBoardColumnInput): Promise<BoardColumnResponse> {
+    try {
+      const column = await this.prisma.$transaction(async (tx) => {
+        const project = await this.lockProject(tx, userId, projectId);
+        this.assertProjectOpen(project);
+
+        const columns = await this.ensureBoard(tx, project);
+
+        return tx.boardColumn.create({
+          data: {
+            projectId: project.id,
+            name: sanitizeObjectXSS({ name: data.name }, ['name']).name,
+            wipLimit: data.wipLimit ?? null,
+            isDone: data.isDone,
+            position: rankForPlacement(columns, {})
+          }
+        });
+      });
+
+      secureLogger.info('Colonne créée', {
+        userId,
+        projectId,
+        columnId: column.id
+      });
+
+      return column;
+
+    } catch (error) {
+      secureLogger.error('Erreur création colonne', {
+        userId,
+        projectId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Modifier une colonne : nom, limite WIP, colonne terminée
+   * Changer `isDone` termine ou rouvre les tâches de la colonne
+   */
+  async updateColumn(
+    userId: string,
+    projectId: string,
+    columnId: string,
+    data: UpdateBoardColumnInput
+  ): Promise<BoardColumnResponse> {
+    try {
+      const column = await this.prisma.$transaction(async (tx) => {
+        const project = await this.lockProject(tx, userId, projectId);
+        this.assertProjectOpen(project);
+
+        const columns = await this.ensureBoard(tx, project);
+        const existing = await this.findColumn(tx, project.id, columnId);
+
+        if (data.isDone === true && !existing.isDone && columns.filter(candidate => !candidate.isDone).length === 1) {
+          throw new Error('Invalid isDone : le tableau doit garder au moins une colonne à faire');
+        }
+
+        if (data.wipLimit) {
+          const tasksCount = await tx.task.count({ where: { columnId: existing.id } });
+
+          if (tasksCount > data.wipLimit) {
+            throw new Error(`Colonne déjà trop remplie : elle compte ${tasksCount} tâche(s)`);
+          }
+        }
+
+        if (data.isDone !== undefined && data.isDone !== existing.isDone) {
+          await tx.task.updateMany({
+            where: {
+              columnId: existing.id,
+              completedAt: data.isDone ? null : { not: null }
+            },
+            data: { completedAt: data.isDone ? new Date() : null }
+          });
+        }
+
+        return tx.boardColumn.update({
+          where: { id: existing.id },
+          data: {
+            ...(data.name !== undefined && { name: sanitizeObjectXSS({ name: data.name }, ['name']).name }),
+            ...(data.wipLimit !== undefined && { wipLimit: data.wipLimit }),
+            ...(data.isDone !== undefined && { isDone: data.isDone })
+          }
+        });
+      });
+
+      secureLogger.info('Colonne mise à jour', {
+        userId,
+        projectId,
+        columnId,
+        updatedFields: Object.keys(data)
+      });
+
+      return column;
+
+    } catch (error) {
+      secureLogger.error('Erreur mise à jour colonne', {
+        userId,
+        projectId,
+        columnId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Déplacer une colonne entre deux autres (seule sa clé d'ordre change)
+   */
+  async moveColumn(
+    userId: string,
+    projectId: string,
+    columnId: string,
+    data: MoveBoardColumnInput
+  ): Promise<BoardColumnResponse> {
+    try {
+      const column = await this.prisma.$transaction(async (tx) => {
+        const project = await this.lockProject(tx, userId, projectId);
+        this.assertProjectOpen(project);
+
+        const columns = await this.ensureBoard(tx, project);
+        const existing = await this.findColumn(tx, project.id, columnId);
+
+        return tx.boardColumn.update({
+          where: { id: existing.id },
+          data: {
+            position: rankForPlacement(
+              columns.filter(candidate => candidate.id !== existing.id),
+              { afterId: data.afterColumnId, beforeId: data.beforeColumnId }
+            )
+          }
+        });
+      });
+
+      secureLogger.info('Colonne déplacée', {
+        userId,
+        projectId,
+        columnId
+      });
+
+      return column;
+
+    } catch (error) {
+      secureLogger.error('Erreur déplacement colonne', {
+        userId,
+        projectId,
+        columnId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Supprimer une colonne vide (le tableau garde au moins une colonne à faire)
+   */
+  async deleteColumn(userId: string, projectId: string, columnId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        const project = await this.lockProject(tx, userId, projectId);
+        this.assertProjectOpen(project);
+
+        const columns = await this.ensureBoard(tx, project);
+        const existing = await this.findColumn(tx, project.id, columnId);
+
+        const tasksCount = await tx.task.count({ where: { columnId: existing.id } });
+
+        if (tasksCount > 0) {
+          throw new Error(`Colonne déjà utilisée : déplacez d'abord ses ${tasksCount} tâche(s)`);
+        }
+
+        if (!existing.isDone && columns.filter(candidate => !candidate.isDone).length === 1) {
+          throw new Error('Invalid column : le tableau doit garder au moins une colonne à faire');
+        }
+
+        await tx.boardColumn.delete({
+          where: { id: existing.id }
+        });
+      });
+
+      secureLogger.info('Colonne supprimée', {
+        userId,
+        projectId,
+        columnId
+      });
+
+      return {
+        success: true,
+        message: 'Colonne supprimée avec succès'
+      };
+
+    } catch (error) {
+      secureLogger.error('Erreur suppression colonne', {
+        userId,
+        projectId,
+        columnId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Déplacer une tâche dans sa colonne ou vers une autre (limite WIP de la colonne d'arrivée)
+   * Déposée dans une colonne terminée, la tâche est terminée ; sortie d'une telle colonne, rouverte
+   */
+  async moveTask(userId: string, projectId: string, taskId: string, data: MoveTaskInput): Promise<TaskResponse> {
+    try {
+      const task = await this.prisma.$transaction(async (tx) => {
+        const project = await this.lockProject(tx, userId, projectId);
+        this.assertProjectOpen(project);
+
+        await this.ensureBoard(tx, project);
+
+        const existing = await tx.task.findFirst({
+          where: {
+            id: taskId,
+            projectId: project.id
+          }
+        });
+
+        if (!existing) {
+          throw new Error('Tâche introuvable');
+        }
+
+        const target = await this.findColumn(tx, project.id, data.columnId);
+
+        const siblings = await tx.task.findMany({
+          where: {
+            columnId: target.id,
+            id: { not: existing.id }
+          }
+        });
+
+        if (existing.columnId !== target.id) {
+          assertWipLimit(target, siblings.length);
+        }
+
+        const position = rankForPlacement(rankedTasks(siblings), {
+          afterId: data.afterTaskId,
+          beforeId: data.beforeTaskId
+        });
+
+        return tx.task.update({
+          where: { id: existing.id },
+          data: {
+            columnId: target.id,
+            position,
+            ...(target.isDone && !existing.completedAt && { completedAt: new Date() }),
+            ...(!target.isDone && existing.completedAt && { completedAt: null })
+          }
+        });
+      });
+
+      secureLogger.info('Tâche déplacée', {
+        userId,
+        projectId,
+        taskId,
+        columnId: data.columnId
+      });
+
+      return task;
+
+    } catch (error) {
+      secureLogger.error('Erreur déplacement tâche', {
+        userId,
+        projectId,
+        taskId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+}
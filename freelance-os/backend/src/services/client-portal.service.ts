@@ -0,0 +1,646 @@
+import fs from 'fs';
+import path from 'path';
+import { PrismaClient, Prisma, Invoice, InvoiceStatus, InvoiceType, QuoteStatus, RemittanceProof } from '@prisma/client';
+import { config } from '@/config/env';
+import {
+  PortalAccessResponse,
+  PortalInvoiceResponse,
+  PortalOverviewResponse,
+  PortalQuoteResponse,
+  PortalSessionResponse,
+  RemittanceProofResponse,
+  UpdatePortalAccessInput,
+  UploadRemittanceProofInput
+} from '@/types/client-portal.types';
+import { InvoiceService } from '@/services/invoice.service';
+import { PdfService, GeneratedPdf } from '@/services/pdf.service';
+import { EmailService } from '@/services/email.service';
+import { renderPortalLoginEmail } from '@/templates/portal-login-email';
+import { SIGNED_LINK_SECRET } from '@/utils/credentials-security';
+import { signLinkToken, verifyLinkToken } from '@/utils/signed-links';
+import { decryptPII, encryptPII } from '@/utils/encryption';
+import { computeInvoiceBalance, InvoiceBalance } from '@/utils/invoice-balance';
+import { createSecurePath, PATH_SECURITY_CONFIG } from '@/utils/path-traversal-protection';
+import { sanitizeObjectXSS } from '@/utils/xss-protection';
+import { AuditContext, writeAuditLog } from '@/utils/audit-log';
+import { secureLogger, logSecurityEvent } from '@/utils/secure-logger';
+import {
+  assertRemittanceProof,
+  generatePortalToken,
+  hashPortalEmail,
+  hashPortalToken,
+  normalizePortalEmail,
+  PORTAL_MAGIC_LINK_TTL_MINUTES,
+  PORTAL_SESSION_PURPOSE,
+  PORTAL_SESSION_TTL_HOURS,
+  PortalScope,
+  portalInvoiceWhere,
+  portalQuoteWhere
+} from '@/utils/client-portal';
+
+// Extensions des justificatifs stockés
+const PROOF_EXTENSIONS: Record<string, string> = {
+  'application/pdf': '.pdf',
+  'image/png': '.png',
+  'image/jpeg': '.jpg'
+};
+
+const PORTAL_CLIENT_SELECT = {
+  id: true,
+  name: true,
+  company: true,
+  userId: true,
+  portalEnabled: true,
+  user: {
+    select: { firstName: true, lastName: true, company: true }
+  }
+} satisfies Prisma.ClientSelect;
+
+type PortalClient = Prisma.ClientGetPayload<{ select: typeof PORTAL_CLIENT_SELECT }>;
+
+export class ClientPortalService {
+  private invoiceService: InvoiceService;
+  private pdfService: PdfService;
+  private emailService: EmailService;
+
+  constructor(private prisma: PrismaClient) {
+    this.invoiceService = new InvoiceService(prisma);
+    this.pdfService = new PdfService(prisma);
+    this.emailService = new EmailService();
+  }
+
+  /**
+   * Utilitaire pour sérialiser un justificatif (sans son emplacement de stockage)
+   */
+  private formatProof(proof: RemittanceProof): RemittanceProofResponse {
+    return {
+      id: proof.id,
+      invoiceId: proof.invoiceId,
+      fileName: proof.fileName,
+      mimeType: proof.mimeType,
+      size: proof.size,
+      note: proof.note,
+      createdAt: proof.createdAt
+    };
+  }
+
+  private issuerName(client: PortalClient): string {
+    return client.user.company || `${client.user.firstName} ${client.user.lastName}`;
+  }
+
+  /**
+   * Solde d'une facture (null pour un avoir)
+   */
+  private async getBalance(invoice: Invoice): Promise<InvoiceBalance | null> {
+    if (invoice.type !== InvoiceType.INVOICE) {
+      return null;
+    }
+
+    return computeInvoiceBalance(invoice.total, await this.invoiceService.getSettlement(this.prisma, invoice.id));
+  }
+
+  /**
+   * Client du portail, toujours lu dans le périmètre de la session
+   */
+  private async findScopedClient(scope: PortalScope): Promise<PortalClient> {
+    const client = await this.prisma.client.findFirst({
+      where: {
+        id: scope.clientId,
+        userId: scope.userId,
+        portalEnabled: true
+      },
+      select: PORTAL_CLIENT_SELECT
+    });
+
+    if (!client) {
+      throw new Error('Client introuvable');
+    }
+
+    return client;
+  }
+
+  private async findScopedInvoice(scope: PortalScope, invoiceId: string): Promise<Invoice> {
+    const invoice = await this.prisma.invoice.findFirst({
+      where: portalInvoiceWhere(scope, invoiceId)
+    });
+
+    if (!invoice) {
+      throw new Error('Facture introuvable');
+    }
+
+    return invoice;
+  }
+
+  // ==========================================================================
+  // ACCÈS AU PORTAIL (FREELANCE)
+  // ==========================================================================
+
+  /**
+   * État du portail d'un client
+   */
+  async getPortalAccess(userId: string, clientId: string): Promise<PortalAccessResponse> {
+    const client = await this.prisma.client.findFirst({
+      where: {
+        id: clientId,
+        userId
+      },
+      select: { id: true, portalEnabled: true, portalEmail: true }
+    });
+
+    if (!client) {
+      throw new Error('Client introuvable');
+    }
+
+    return {
+      clientId: client.id,
+      enabled: client.portalEnabled,
+      email: client.portalEmail ? decryptPII(client.portalEmail) : null
+    };
+  }
+
+  /**
+   * Ouvrir ou fermer le portail d'un client
+   * Toute modification révoque les sessions ouvertes et les liens en attente
+   */
+  async updatePortalAccess(
+    userId: string,
+    clientId: string,
+    data: UpdatePortalAccessInput,
+    audit?: AuditContext
+  ): Promise<PortalAccessResponse> {
+    const client = await this.prisma.client.findFirst({
+      where: {
+        id: clientId,
+        userId
+      }
+    });
+
+    if (!client) {
+      throw new Error('Client introuvable');
+    }
+
+    const email = data.email || (client.email ? decryptPII(client.email) : null);
+
+    if (data.enabled && !email) {
+      throw new Error('Invalid email : une adresse email est requise pour ouvrir le portail');
+    }
+
+    const portalEmail = email ? normalizePortalEmail(email) : null;
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.client.update({
+        where: { id: client.id },
+        data: {
+          portalEnabled: data.enabled,
+          portalEmail: portalEmail ? encryptPII(portalEmail) : null,
+          portalEmailHash: portalEmail ? hashPortalEmail(portalEmail, config.JWT_SECRET) : null,
+          portalUpdatedAt: new Date()
+        }
+      });
+
+      await tx.clientPortalToken.deleteMany({ where: { clientId: client.id } });
+
+      await writeAuditLog(tx, {
+        userId,
+        action: 'UPDATE_CLIENT_PORTAL',
+        resource: 'Client',
+        resourceId: client.id,
+        oldValues: { portalEnabled: client.portalEnabled },
+        newValues: { portalEnabled: data.enabled },
+        ...audit
+      });
+    });
+
+    secureLogger.info('Accès portail client mis à jour', {
+      userId,
+      clientId,
+      enabled: data.enabled
+    });
+
+    return {
+      clientId: client.id,
+      enabled: data.enabled,
+      email: portalEmail
+    };
+  }
+
+  /**
+   * Justificatifs de virement déposés par un client
+   */
+  async getClientRemittanceProofs(userId: string, clientId: string): Promise<RemittanceProofResponse[]> {
+    const proofs = await this.prisma.remittanceProof.findMany({
+      where: {
+        clientId,
+        userId
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return proofs.map(proof => this.formatProof(proof));
+  }
+
+  /**
+   * Fichier d'un justificatif de virement
+   */
+  async getRemittanceProofFile(
+    userId: string,
+    clientId: string,
+    proofId: string
+  ): Promise<{ proof: RemittanceProofResponse; content: Buffer }> {
+    const proof = await this.prisma.remittanceProof.findFirst({
+      where: {
+        id: proofId,
+        clientId,
+        userId
+      }
+    });
+
+    if (!proof) {
+      throw new Error('Justificatif introuvable');
+    }
+
+    const fullPath = createSecurePath(PATH_SECURITY_CONFIG.secureDirectories.uploads, proof.storagePath);
+
+    if (!fullPath) {
+      throw new Error('Invalid path : chemin de justificatif non autorisé');
+    }
+
+    try {
+      return { proof: this.formatProof(proof), content: await fs.promises.readFile(fullPath) };
+    } catch {
+      throw new Error('Fichier du justificatif introuvable');
+    }
+  }
+
+  // ==========================================================================
+  // CONNEXION AU PORTAIL (CLIENT)
+  // ==========================================================================
+
+  /**
+   * Envoyer un lien magique à chaque client dont le portail est ouvert à cette adresse
+   * La réponse ne dépend jamais de l'existence du compte (pas d'énumération des emails)
+   */
+  async requestMagicLink(email: string, audit?: AuditContext): Promise<void> {
+    const portalEmail = normalizePortalEmail(email);
+
+    const clients = await this.prisma.client.findMany({
+      where: {
+        portalEnabled: true,
+        portalEmailHash: hashPortalEmail(portalEmail, config.JWT_SECRET)
+      },
+      select: PORTAL_CLIENT_SELECT
+    });
+
+    if (clients.length === 0) {
+      logSecurityEvent('ACCESS_DENIED', {
+        endpoint: 'client_portal_login',
+        reason: 'Demande de lien pour une adresse sans portail',
+        severity: 'LOW',
+        ...(audit?.ipAddress && { ip: audit.ipAddress })
+      });
+      return;
+    }
+
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + PORTAL_MAGIC_LINK_TTL_MINUTES * 60 * 1000);
+
+    for (const client of clients) {
+      try {
+        const { token, tokenHash } = generatePortalToken();
+
+        await this.prisma.clientPortalToken.deleteMany({
+          where: {
+            clientId: client.id,
+            OR: [{ expiresAt: { lt: now } }, { usedAt: { not: null } }]
+          }
+        });
+
+        await this.prisma.clientPortalToken.create({
+          data: { tokenHash, clientId: client.id, expiresAt }
+        });
+
+        const issuerName = this.issuerName(client);
+        const message = renderPortalLoginEmail({
+          issuerName,
+          clientName: client.name,
+          loginUrl: `${config.FRONTEND_URL}/portal/login?token=${token}`,
+          expiresInMinutes: PORTAL_MAGIC_LINK_TTL_MINUTES
+        });
+
+        await this.emailService.send({ to: portalEmail, ...message });
+
+        secureLogger.info('Lien de connexion portail envoyé', {
+          userId: client.userId,
+          clientId: client.id
+        });
+      } catch (error) {
+        secureLogger.error('Erreur envoi lien portail', {
+          clientId: client.id,
+          error: error instanceof Error ? error.message : 'Erreur inconnue'
+        });
+      }
+    }
+  }
+
+  /**
+   * Échanger un lien magique (usage unique) contre une session portail
+   */
+  async verifyMagicLink(token: string, audit?: AuditContext): Promise<PortalSessionResponse> {
+    const now = new Date();
+    const tokenHash = hashPortalToken(token);
+
+    const session = await this.prisma.$transaction(async (tx) => {
+      // Consommation atomique : un lien ne sert qu'une fois, même sur deux requêtes simultanées
+      const consumed = await tx.clientPortalToken.updateMany({
+        where: {
+          tokenHash,
+          usedAt: null,
+          expiresAt: { gt: now }
+        },
+        data: { usedAt: now }
+      });
+
+      if (consumed.count !== 1) {
+        throw new Error('Invalid token : lien de connexion invalide ou expiré');
+      }
+
+      const portalToken = await tx.clientPortalToken.findUniqueOrThrow({
+        where: { tokenHash },
+        select: { client: { select: PORTAL_CLIENT_SELECT } }
+      });
+
+      const client = portalToken.client;
+
+      if (!client.portalEnabled) {
+        throw new Error('Invalid token : accès au portail désactivé');
+      }
+
+      await writeAuditLog(tx, {
+        userId: client.userId,
+        action: 'CLIENT_PORTAL_LOGIN',
+        resource: 'Client',
+        resourceId: client.id,
+        ...audit
+      });
+
+      return client;
+    });
+
+    const expiresAt = new Date(now.getTime() + PORTAL_SESSION_TTL_HOURS * 60 * 60 * 1000);
+
+    secureLogger.info('Connexion portail client', {
+      userId: session.userId,
+      clientId: session.id
+    });
+
+    return {
+      token: signLinkToken({
+        sub: session.id,
+        purpose: PORTAL_SESSION_PURPOSE,
+        exp: Math.floor(expiresAt.getTime() / 1000)
+      }, SIGNED_LINK_SECRET),
+      expiresAt,
+      client: {
+        id: session.id,
+        name: session.name,
+        company: session.company
+      },
+      issuer: this.issuerName(session)
+    };
+  }
+
+  /**
+   * Périmètre d'une session portail
+   * Le portail doit être ouvert et la session postérieure à la dernière modification de l'accès
+   */
+  async authenticate(sessionToken: string): Promise<PortalScope> {
+    const payload = verifyLinkToken(sessionToken, PORTAL_SESSION_PURPOSE, SIGNED_LINK_SECRET);
+
+    const client = await this.prisma.client.findUnique({
+      where: { id: payload.sub },
+      select: { id: true, userId: true, portalEnabled: true, portalUpdatedAt: true }
+    });
+
+    if (!client || !client.portalEnabled) {
+      throw new Error('Invalid token : accès au portail désactivé');
+    }
+
+    const issuedAt = payload.exp * 1000 - PORTAL_SESSION_TTL_HOURS * 60 * 60 * 1000;
+
+    if (client.portalUpdatedAt && issuedAt < client.portalUpdatedAt.getTime() - 1000) {
+      throw new Error('Invalid token : session révoquée');
+    }
+
+    return { clientId: client.id, userId: client.userId };
+  }
+
+  // ==========================================================================
+  // DOCUMENTS DU CLIENT
+  // ==========================================================================
+
+  /**
+   * Synthèse : reste dû et montant échu par devise, devis en attente de réponse
+   */
+  async getOverview(scope: PortalScope): Promise<PortalOverviewResponse> {
+    const client = await this.findScopedClient(scope);
+    const now = new Date();
+
+    const [invoices, openQuotesCount] = await Promise.all([
+      this.prisma.invoice.findMany({
+        where: {
+          ...portalInvoiceWhere(scope),
+          type: InvoiceType.INVOICE,
+          status: { in: [InvoiceStatus.SENT, InvoiceStatus.OVERDUE] }
+        }
+      }),
+      this.prisma.quote.count({
+        where: {
+          ...portalQuoteWhere(scope),
+          status: QuoteStatus.SENT
+        }
+      })
+    ]);
+
+    const balances = new Map<string, { balanceDue: Prisma.Decimal; overdueAmount: Prisma.Decimal }>();
+
+    for (const invoice of invoices) {
+      const balance = await this.getBalance(invoice);
+      if (!balance || balance.balanceDue === 0) continue;
+
+      const current = balances.get(invoice.currency) || { balanceDue: new Prisma.Decimal(0), overdueAmount: new Prisma.Decimal(0) };
+      current.balanceDue = current.balanceDue.plus(balance.balanceDue);
+      if (invoice.dueDate < now) {
+        current.overdueAmount = current.overdueAmount.plus(balance.balanceDue);
+      }
+      balances.set(invoice.currency, current);
+    }
+
+    return {
+      client: {
+        id: client.id,
+        name: client.name,
+        company: client.company
+      },
+      issuer: this.issuerName(client),
+      invoicesCount: await this.prisma.invoice.count({ where: portalInvoiceWhere(scope) }),
+      openQuotesCount,
+      balances: [...balances.entries()].map(([currency, amounts]) => ({
+        currency,
+        balanceDue: amounts.balanceDue.toNumber(),
+        overdueAmount: amounts.overdueAmount.toNumber()
+      }))
+    };
+  }
+
+  /**
+   * Factures et avoirs émis pour le client, avec leur solde
+   */
+  async listInvoices(scope: PortalScope): Promise<PortalInvoiceResponse[]> {
+    const invoices = await this.prisma.invoice.findMany({
+      where: portalInvoiceWhere(scope),
+      orderBy: { issueDate: 'desc' }
+    });
+
+    return Promise.all(invoices.map(async invoice => ({
+      id: invoice.id,
+      number: invoice.number,
+      type: invoice.type,
+      status: invoice.status,
+      issueDate: invoice.issueDate,
+      dueDate: invoice.dueDate,
+      currency: invoice.currency,
+      total: invoice.total.toNumber(),
+      balance: await this.getBalance(invoice)
+    })));
+  }
+
+  /**
+   * Devis envoyés au client
+   */
+  async listQuotes(scope: PortalScope): Promise<PortalQuoteResponse[]> {
+    const quotes = await this.prisma.quote.findMany({
+      where: portalQuoteWhere(scope),
+      orderBy: { issueDate: 'desc' }
+    });
+
+    return quotes.map(quote => ({
+      id: quote.id,
+      number: quote.number,
+      status: quote.status,
+      issueDate: quote.issueDate,
+      validUntil: quote.validUntil,
+      acceptedAt: quote.acceptedAt,
+      currency: quote.currency,
+      total: quote.total.toNumber()
+    }));
+  }
+
+  /**
+   * PDF d'une facture du client
+   */
+  async getInvoicePdf(scope: PortalScope, invoiceId: string): Promise<GeneratedPdf> {
+    const invoice = await this.findScopedInvoice(scope, invoiceId);
+    return this.pdfService.generateInvoicePdf(scope.userId, invoice.id);
+  }
+
+  /**
+   * PDF d'un devis du client
+   */
+  async getQuotePdf(scope: PortalScope, quoteId: string): Promise<GeneratedPdf> {
+    const quote = await this.prisma.quote.findFirst({
+      where: portalQuoteWhere(scope, quoteId)
+    });
+
+    if (!quote) {
+      throw new Error('Devis introuvable');
+    }
+
+    return this.pdfService.generateQuotePdf(scope.userId, quote.id);
+  }
+
+  /**
+   * Justificatifs déposés par le client
+   */
+  async listRemittanceProofs(scope: PortalScope): Promise<RemittanceProofResponse[]> {
+    return this.getClientRemittanceProofs(scope.userId, scope.clientId);
+  }
+
+  /**
+   * Déposer un justificatif de virement sur une facture émise
+   * Le paiement reste enregistré par le freelance à réception des fonds
+   */
+  async uploadRemittanceProof(
+    scope: PortalScope,
+    invoiceId: string,
+    data: UploadRemittanceProofInput,
+    audit?: AuditContext
+  ): Promise<RemittanceProofResponse> {
+    const invoice = await this.findScopedInvoice(scope, invoiceId);
+
+    if (invoice.type !== InvoiceType.INVOICE || invoice.status === InvoiceStatus.CANCELLED) {
+      throw new Error('Invalid invoice : justificatif possible uniquement sur une facture émise');
+    }
+
+    const content = Buffer.from(data.content, 'base64');
+    assertRemittanceProof(data.mimeType, content);
+
+    const sanitizedData = sanitizeObjectXSS({
+      fileName: path.basename(data.fileName),
+      note: data.note || ''
+    }, ['fileName', 'note']);
+
+    const proof = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.remittanceProof.create({
+        data: {
+          fileName: sanitizedData.fileName,
+          mimeType: data.mimeType,
+          size: content.length,
+          storagePath: '',
+          note: sanitizedData.note || null,
+          invoiceId: invoice.id,
+          clientId: scope.clientId,
+          userId: scope.userId
+        }
+      });
+
+      // Nom de fichier généré : le nom fourni par le client n'est jamais utilisé sur le disque
+      const storagePath = `remittance-proofs/${scope.userId}/${scope.clientId}/${created.id}${PROOF_EXTENSIONS[data.mimeType]}`;
+      const fullPath = createSecurePath(PATH_SECURITY_CONFIG.secureDirectories.uploads, storagePath);
+
+      if (!fullPath) {
+        throw new Error('Invalid path : chemin de justificatif non autorisé');
+      }
+
+      await fs.promises.mkdir(path.dirname(fullPath), { recursive: true });
+      await fs.promises.writeFile(fullPath, content);
+
+      await writeAuditLog(tx, {
+        userId: scope.userId,
+        action: 'UPLOAD_REMITTANCE_PROOF',
+        resource: 'Invoice',
+        resourceId: invoice.id,
+        newValues: {
+          proofId: created.id,
+          clientId: scope.clientId,
+          fileName: sanitizedData.fileName,
+          size: content.length
+        },
+        ...audit
+      });
+
+      return tx.remittanceProof.update({
+        where: { id: created.id },
+        data: { storagePath }
+      });
+    });
+
+    secureLogger.info('Justificatif de virement déposé', {
+      userId: scope.userId,
+      clientId: scope.clientId,
+      invoiceId: invoice.id,
+      size: content.length
+    });
+
+    return this.formatProof(proof);
+  }
+}
@@ -1,4 +1,4 @@
-import { PrismaClient, ClientStatus } from '@prisma/client';
+import { PrismaClient, ClientStatus, InvoiceType } from '@prisma/client';
 import { 
   CreateClientInput, 
   UpdateClientInput, 
@@ -10,9 +10,17 @@ import {
 import { secureLogger, logSecurityEvent } from '@/utils/secure-logger';
 import { encryptPII, decryptPII } from '@/utils/encryption';
 import { sanitizeObjectXSS, SENSITIVE_XSS_FIELDS } from '@/utils/xss-protection';
+import { InvoiceService } from '@/services/invoice.service';
+import { PaymentService } from '@/services/payment.service';
 
 export class ClientService {
-  constructor(private prisma: PrismaClient) {}
+  private invoiceService: InvoiceService;
+  private paymentService: PaymentService;
+
+  constructor(private prisma: PrismaClient) {
+    this.invoiceService = new InvoiceService(prisma);
+    this.paymentService = new PaymentService(prisma);
+  }
 
   /**
    * Utilitaire pour déchiffrer un client
@@ -97,6 +105,8 @@ export class ClientService {
         _stats: {
           totalInvoices: 0,
           totalRevenue: 0,
+          outstandingBalance: 0,
+          creditBalance: 0,
           averagePaymentDelay: 0,
           interactionsCount: 0
         }
@@ -175,6 +185,8 @@ export class ClientService {
         _stats: {
           totalInvoices: 0,
           totalRevenue: 0,
+          outstandingBalance: 0,
+          creditBalance: 0,
           averagePaymentDelay: 0,
           interactionsCount: 0
         }
@@ -230,6 +242,15 @@ export class ClientService {
       // Déchiffrer les données
       const decryptedClient = this.decryptClient(client);
 
+      // Facturation du client, avoirs déduits, et trop-perçus à son crédit
+      const [billing, creditBalance, totalInvoices] = await Promise.all([
+        this.invoiceService.getBillingSummary(userId, clientId),
+        this.paymentService.getClientCredit(userId, clientId),
+        this.prisma.invoice.count({
+          where: { userId, clientId, type: InvoiceType.INVOICE, number: { not: null } }
+        })
+      ]);
+
       secureLogger.info('Récupération client', {
         userId,
         clientId
@@ -241,8 +262,10 @@ export class ClientService {
         score: 0,
         lastContact: null,
         _stats: {
-          totalInvoices: 0,
-          totalRevenue: 0,
+          totalInvoices,
+          totalRevenue: billing.netRevenue,
+          outstandingBalance: billing.outstandingBalance,
+          creditBalance,
           averagePaymentDelay: 0,
           interactionsCount: 0
         },
@@ -316,6 +339,8 @@ export class ClientService {
         _stats: {
           totalInvoices: 0,
           totalRevenue: 0,
+          outstandingBalance: 0,
+          creditBalance: 0,
           averagePaymentDelay: 0,
           interactionsCount: 0
         },
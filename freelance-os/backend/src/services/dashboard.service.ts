@@ -0,0 +1,140 @@
+import { PrismaClient, Prisma, ClientStatus, InvoiceStatus, InvoiceType, PaymentMethod, ProspectStatus } from '@prisma/client';
+import { DashboardPeriodQuery, PaymentMethodsResponse } from '@/types/dashboard.types';
+import { InvoiceService } from '@/services/invoice.service';
+import { ExchangeRateService } from '@/services/exchange-rate.service';
+import { secureLogger } from '@/utils/secure-logger';
+import { ConvertibleAmount, sumInCurrency } from '@/utils/exchange-rates';
+
+export interface DashboardStats {
+  currency: string;
+  totalRevenue: number;
+  creditedRevenue: number;
+  outstandingBalance: number;
+  unpaidInvoices: number;
+  activeClients: number;
+  pendingProspects: number;
+}
+
+export class DashboardService {
+  private invoiceService: InvoiceService;
+  private exchangeRateService: ExchangeRateService;
+
+  constructor(private prisma: PrismaClient) {
+    this.invoiceService = new InvoiceService(prisma);
+    this.exchangeRateService = new ExchangeRateService(prisma);
+  }
+
+  /**
+   * Indicateurs principaux du freelance (CA HT net des avoirs, dans la devise du dashboard)
+   */
+  async getStats(userId: string): Promise<DashboardStats> {
+    const startTime = Date.now();
+
+    try {
+      const [billing, unpaidInvoices, activeClients, pendingProspects] = await Promise.all([
+        this.invoiceService.getBillingSummary(userId),
+        this.prisma.invoice.count({
+          where: {
+            userId,
+            type: InvoiceType.INVOICE,
+            status: { in: [InvoiceStatus.SENT, InvoiceStatus.OVERDUE] }
+          }
+        }),
+        this.prisma.client.count({ where: { userId, status: ClientStatus.ACTIVE } }),
+        this.prisma.prospect.count({
+          where: {
+            userId,
+            status: { notIn: [ProspectStatus.CLOSED_WON, ProspectStatus.CLOSED_LOST] }
+          }
+        })
+      ]);
+
+      const duration = Date.now() - startTime;
+
+      secureLogger.info('Statistiques dashboard', {
+        userId,
+        duration: `${duration}ms`
+      });
+
+      return {
+        currency: billing.currency,
+        totalRevenue: billing.netRevenue,
+        creditedRevenue: billing.creditedRevenue,
+        outstandingBalance: billing.outstandingBalance,
+        unpaidInvoices,
+        activeClients,
+        pendingProspects
+      };
+
+    } catch (error) {
+      secureLogger.error('Erreur statistiques dashboard', {
+        userId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Répartition des encaissements par moyen de paiement sur la période
+   * Chaque paiement est converti au taux de sa facture, puis dans la devise du dashboard
+   */
+  async getPaymentMethods(userId: string, period: DashboardPeriodQuery = {}): Promise<PaymentMethodsResponse> {
+    try {
+      const [groups, reporting] = await Promise.all([
+        this.prisma.payment.groupBy({
+          by: ['method', 'invoiceId'],
+          where: {
+            invoice: { userId },
+            ...((period.from || period.to) && {
+              paidAt: {
+                ...(period.from && { gte: period.from }),
+                ...(period.to && { lte: period.to })
+              }
+            })
+          },
+          _sum: { amount: true },
+          _count: { _all: true }
+        }),
+        this.exchangeRateService.getReportingCurrency(userId)
+      ]);
+
+      const invoices = await this.prisma.invoice.findMany({
+        where: { id: { in: [...new Set(groups.map(group => group.invoiceId))] } },
+        select: { id: true, exchangeRate: true }
+      });
+      const rates = new Map(invoices.map(invoice => [invoice.id, invoice.exchangeRate]));
+
+      const toConvertible = (group: typeof groups[number]): ConvertibleAmount => ({
+        amount: group._sum.amount || new Prisma.Decimal(0),
+        exchangeRate: rates.get(group.invoiceId) || null
+      });
+
+      // Tous les moyens de paiement sont listés, y compris ceux sans encaissement
+      const methods = Object.values(PaymentMethod).map(method => {
+        const methodGroups = groups.filter(entry => entry.method === method);
+
+        return {
+          method,
+          count: methodGroups.reduce((count, group) => count + group._count._all, 0),
+          amount: sumInCurrency(methodGroups.map(toConvertible), reporting.rate).toNumber()
+        };
+      });
+
+      return {
+        currency: reporting.currency,
+        totalAmount: sumInCurrency(groups.map(toConvertible), reporting.rate).toNumber(),
+        methods
+      };
+
+    } catch (error) {
+      secureLogger.error('Erreur répartition moyens de paiement', {
+        userId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+}
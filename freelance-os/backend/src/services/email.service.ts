@@ -0,0 +1,52 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { config } from '@/config/env';
+import { secureLogger } from '@/utils/secure-logger';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  replyTo?: string;
+}
+
+let transporter: Transporter | null = null;
+
+/**
+ * Transport SMTP configuré, ou transport JSON sans envoi réel hors production (SMTP_HOST absent)
+ */
+function getTransporter(): Transporter {
+  if (!transporter) {
+    transporter = config.SMTP_HOST
+      ? nodemailer.createTransport({
+        host: config.SMTP_HOST,
+        port: config.SMTP_PORT || 587,
+        secure: config.SMTP_PORT === 465,
+        ...(config.SMTP_USER && { auth: { user: config.SMTP_USER, pass: config.SMTP_PASS || '' } })
+      })
+      : nodemailer.createTransport({ jsonTransport: true });
+  }
+
+  return transporter;
+}
+
+export class EmailService {
+  /**
+   * Envoyer un email transactionnel depuis EMAIL_FROM
+   */
+  async send(message: EmailMessage): Promise<void> {
+    const info = await getTransporter().sendMail({
+      from: config.EMAIL_FROM || 'noreply@freelance-os.com',
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      ...(message.replyTo && { replyTo: message.replyTo })
+    });
+
+    secureLogger.info('Email envoyé', {
+      messageId: info.messageId,
+      delivered: Boolean(config.SMTP_HOST)
+    });
+  }
+}
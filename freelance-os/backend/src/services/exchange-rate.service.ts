@@ -0,0 +1,72 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { config } from '@/config/env';
+import {
+  BASE_CURRENCY,
+  EcbRateProvider,
+  ExchangeRate,
+  ExchangeRateProvider,
+  FileRateProvider,
+  ManualRateProvider,
+  parseManualRates
+} from '@/utils/exchange-rates';
+
+let defaultProvider: ExchangeRateProvider | null = null;
+
+/**
+ * Fournisseur configuré par EXCHANGE_RATE_PROVIDER, partagé par toutes les instances (cache BCE)
+ */
+function getDefaultProvider(): ExchangeRateProvider {
+  if (!defaultProvider) {
+    switch (config.EXCHANGE_RATE_PROVIDER) {
+      case 'file':
+        defaultProvider = new FileRateProvider(config.EXCHANGE_RATES_FILE);
+        break;
+      case 'manual':
+        defaultProvider = new ManualRateProvider(parseManualRates(config.EXCHANGE_RATES));
+        break;
+      default:
+        defaultProvider = new EcbRateProvider();
+    }
+  }
+
+  return defaultProvider;
+}
+
+// Devise de reporting et taux pour 1 EUR
+export interface ReportingCurrency {
+  currency: string;
+  rate: Prisma.Decimal;
+}
+
+export class ExchangeRateService {
+  constructor(
+    private prisma: PrismaClient,
+    private provider: ExchangeRateProvider = getDefaultProvider()
+  ) {}
+
+  /**
+   * Taux d'une devise à une date (1 pour l'euro, sans appel au fournisseur)
+   */
+  async getRate(currency: string, date: Date): Promise<ExchangeRate> {
+    if (currency === BASE_CURRENCY) {
+      return { currency, rate: new Prisma.Decimal(1), date, source: BASE_CURRENCY };
+    }
+
+    return this.provider.getRate(currency, date);
+  }
+
+  /**
+   * Devise d'affichage du dashboard (DashboardSettings.currency) et son taux du jour
+   */
+  async getReportingCurrency(userId: string): Promise<ReportingCurrency> {
+    const settings = await this.prisma.dashboardSettings.findUnique({
+      where: { userId },
+      select: { currency: true }
+    });
+
+    const currency = settings?.currency || BASE_CURRENCY;
+    const { rate } = await this.getRate(currency, new Date());
+
+    return { currency, rate };
+  }
+}
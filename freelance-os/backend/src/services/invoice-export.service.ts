@@ -0,0 +1,70 @@
+import { PrismaClient } from '@prisma/client';
+import { InvoiceExportFormat } from '@/types/invoice.types';
+import { PdfService } from '@/services/pdf.service';
+import { secureLogger } from '@/utils/secure-logger';
+import { buildFacturXXml } from '@/utils/facturx';
+import { validateFacturXXml } from '@/utils/facturx-validator';
+import { buildUblXml } from '@/utils/ubl';
+
+export interface ExportedInvoice {
+  fileName: string;
+  content: string;
+}
+
+export class InvoiceExportService {
+  private pdfService: PdfService;
+
+  constructor(private prisma: PrismaClient) {
+    this.pdfService = new PdfService(prisma);
+  }
+
+  /**
+   * Exporter une facture ou un avoir émis en XML autonome (UBL 2.1 ou CII EN 16931)
+   */
+  async exportInvoice(userId: string, invoiceId: string, format: InvoiceExportFormat): Promise<ExportedInvoice> {
+    const startTime = Date.now();
+
+    try {
+      const data = await this.pdfService.getInvoiceDocumentData(userId, invoiceId);
+
+      let content: string;
+
+      if (format === 'cii') {
+        content = buildFacturXXml(data, 'EN16931');
+
+        const validation = await validateFacturXXml(content, 'EN16931');
+        if (!validation.valid) {
+          throw new Error(`Invalid CII : ${validation.errors[0] || 'XML non conforme au schéma'}`);
+        }
+      } else {
+        content = buildUblXml(data);
+      }
+
+      const baseName = (data.number || invoiceId).replace(/[^A-Za-z0-9_-]/g, '-');
+      const prefix = data.kind === 'CREDIT_NOTE' ? 'avoir' : 'facture';
+      const duration = Date.now() - startTime;
+
+      secureLogger.info('Facture exportée', {
+        userId,
+        invoiceId,
+        format,
+        duration: `${duration}ms`
+      });
+
+      return {
+        fileName: `${prefix}-${baseName}-${format}.xml`,
+        content
+      };
+
+    } catch (error) {
+      secureLogger.error('Erreur export facture', {
+        userId,
+        invoiceId,
+        format,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+}
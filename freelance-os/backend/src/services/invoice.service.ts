@@ -0,0 +1,983 @@
+import { PrismaClient, Prisma, Invoice, InvoiceStatus, InvoiceType, BillingStage, VatRegime } from '@prisma/client';
+import {
+  CreateInvoiceInput,
+  UpdateInvoiceInput,
+  CreateCreditNoteInput,
+  IssueInvoiceInput,
+  InvoiceItemInput,
+  InvoiceQueryParams,
+  InvoiceResponse,
+  InvoiceListResponse
+} from '@/types/invoice.types';
+import { secureLogger, logSecurityEvent } from '@/utils/secure-logger';
+import { sanitizeObjectXSS } from '@/utils/xss-protection';
+import { computeDocumentTotals, computeLineTotal, computeVatBreakdown } from '@/utils/invoice-calculations';
+import { applyVatRegime } from '@/utils/vat';
+import { NumberingService } from '@/services/numbering.service';
+import { VatService } from '@/services/vat.service';
+import { ExchangeRateService } from '@/services/exchange-rate.service';
+import { assertTransition, deriveInvoiceStatus, isInvoiceEditable } from '@/utils/invoice-lifecycle';
+import { AuditContext, writeAuditLog } from '@/utils/audit-log';
+import { assertCreditable, BillingSummary, computeBillingSummary, isFullyCredited } from '@/utils/credit-notes';
+import { InvoiceSettlement } from '@/utils/invoice-balance';
+import { ExchangeRate, sumInCurrency } from '@/utils/exchange-rates';
+import { computePenaltyRate } from '@/utils/late-penalties';
+
+// Relations chargées avec chaque facture
+const INVOICE_INCLUDE = {
+  items: true,
+  client: {
+    select: { id: true, name: true, company: true }
+  }
+} satisfies Prisma.InvoiceInclude;
+
+type InvoiceWithRelations = Prisma.InvoiceGetPayload<{ include: typeof INVOICE_INCLUDE }>;
+
+// Origine d'une facture générée : échéance d'un modèle récurrent, étape de facturation d'un devis
+// ou pénalités de retard d'une facture
+export type InvoiceOrigin =
+  | { recurringInvoiceId: string; recurringRunDate: Date; recurringAutoSend: boolean }
+  | { quoteId: string; billingStage: BillingStage }
+  | { penalizedInvoiceId: string; penaltyUntil: Date };
+
+// Ligne prête à enregistrer : taux de TVA effectif résolu
+interface RatedItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  vatRate: Prisma.Decimal;
+}
+
+interface TransitionOptions {
+  data?: Prisma.InvoiceUpdateInput;
+  details?: Record<string, string | null>;
+  audit?: AuditContext;
+}
+
+export class InvoiceService {
+  private numberingService: NumberingService;
+  private vatService: VatService;
+  private exchangeRateService: ExchangeRateService;
+
+  constructor(private prisma: PrismaClient) {
+    this.numberingService = new NumberingService(prisma);
+    this.vatService = new VatService(prisma);
+    this.exchangeRateService = new ExchangeRateService(prisma);
+  }
+
+  /**
+   * Utilitaire pour sérialiser une facture (Decimal → number)
+   */
+  private formatInvoice(invoice: InvoiceWithRelations): InvoiceResponse {
+    return {
+      ...invoice,
+      subtotal: invoice.subtotal.toNumber(),
+      vatRate: invoice.vatRate.toNumber(),
+      vatAmount: invoice.vatAmount.toNumber(),
+      total: invoice.total.toNumber(),
+      exchangeRate: invoice.exchangeRate?.toNumber() ?? null,
+      latePenaltyRate: invoice.latePenaltyRate?.toNumber() ?? null,
+      vatBreakdown: computeVatBreakdown(invoice.items, invoice.vatRate).map(vat => ({
+        rate: vat.rate.toNumber(),
+        basisAmount: vat.basisAmount.toNumber(),
+        taxAmount: vat.taxAmount.toNumber()
+      })),
+      items: invoice.items.map(item => ({
+        id: item.id,
+        description: item.description,
+        quantity: item.quantity.toNumber(),
+        unitPrice: item.unitPrice.toNumber(),
+        vatRate: item.vatRate.toNumber(),
+        total: item.total.toNumber()
+      }))
+    };
+  }
+
+  /**
+   * Prépare les lignes pour Prisma avec leur total calculé
+   */
+  private buildItems(items: RatedItem[]): Prisma.InvoiceItemCreateWithoutInvoiceInput[] {
+    return items.map(item => {
+      const sanitizedItem = sanitizeObjectXSS({ description: item.description }, ['description']);
+      return {
+        description: sanitizedItem.description,
+        quantity: new Prisma.Decimal(item.quantity),
+        unitPrice: new Prisma.Decimal(item.unitPrice),
+        vatRate: item.vatRate,
+        total: computeLineTotal(item)
+      };
+    });
+  }
+
+  /**
+   * Lignes au taux effectif du régime et taux par défaut du document (0 % hors régime normal)
+   */
+  private rateItems(
+    items: InvoiceItemInput[],
+    regime: VatRegime,
+    vatRate: Prisma.Decimal | number
+  ): { items: RatedItem[]; vatRate: Prisma.Decimal } {
+    return {
+      items: applyVatRegime(items, regime, vatRate),
+      vatRate: new Prisma.Decimal(regime === VatRegime.STANDARD ? vatRate : 0)
+    };
+  }
+
+  /**
+   * Récupère une facture en vérifiant qu'elle appartient au freelance
+   */
+  private async findOwnedInvoice(userId: string, invoiceId: string): Promise<InvoiceWithRelations> {
+    const invoice = await this.prisma.invoice.findFirst({
+      where: {
+        id: invoiceId,
+        userId
+      },
+      include: INVOICE_INCLUDE
+    });
+
+    if (!invoice) {
+      throw new Error('Facture introuvable');
+    }
+
+    return invoice;
+  }
+
+  /**
+   * Verrouille la facture (SELECT ... FOR UPDATE) et la relit dans la transaction
+   */
+  private async lockInvoice(tx: Prisma.TransactionClient, userId: string, invoiceId: string): Promise<Invoice> {
+    await tx.$queryRaw`
+      SELECT id FROM "invoices" WHERE id = ${invoiceId} AND "userId" = ${userId} FOR UPDATE
+    `;
+
+    const invoice = await tx.invoice.findFirst({
+      where: {
+        id: invoiceId,
+        userId
+      }
+    });
+
+    if (!invoice) {
+      throw new Error('Facture introuvable');
+    }
+
+    return invoice;
+  }
+
+  /**
+   * Champs du cycle de vie conservés dans le journal d'audit
+   */
+  private lifecycleSnapshot(invoice: Invoice): Record<string, string | null> {
+    return {
+      status: invoice.status,
+      number: invoice.number,
+      issueDate: invoice.issueDate.toISOString(),
+      dueDate: invoice.dueDate.toISOString(),
+      paidAt: invoice.paidAt ? invoice.paidAt.toISOString() : null
+    };
+  }
+
+  /**
+   * Montants venant en déduction d'une facture : paiements reçus et avoirs émis
+   */
+  async getSettlement(db: Prisma.TransactionClient | PrismaClient, invoiceId: string): Promise<InvoiceSettlement> {
+    const [payments, creditNotes] = await Promise.all([
+      db.payment.aggregate({
+        where: { invoiceId },
+        _sum: { amount: true },
+        _max: { paidAt: true }
+      }),
+      db.invoice.aggregate({
+        where: { correctedInvoiceId: invoiceId, type: InvoiceType.CREDIT_NOTE },
+        _sum: { total: true }
+      })
+    ]);
+
+    return {
+      paidAmount: payments._sum.amount || new Prisma.Decimal(0),
+      creditedAmount: creditNotes._sum.total || new Prisma.Decimal(0),
+      lastPaidAt: payments._max.paidAt
+    };
+  }
+
+  /**
+   * Applique une transition de statut et l'inscrit dans le journal d'audit
+   * Doit être appelée dans la transaction qui a verrouillé la facture
+   */
+  private async applyTransition(
+    tx: Prisma.TransactionClient,
+    invoice: Invoice,
+    to: InvoiceStatus,
+    options: TransitionOptions = {}
+  ): Promise<InvoiceWithRelations> {
+    assertTransition(invoice.status, to);
+
+    const updated = await tx.invoice.update({
+      where: { id: invoice.id },
+      data: {
+        ...options.data,
+        status: to
+      },
+      include: INVOICE_INCLUDE
+    });
+
+    await writeAuditLog(tx, {
+      userId: invoice.userId,
+      action: 'CHANGE_INVOICE_STATUS',
+      resource: 'Invoice',
+      resourceId: invoice.id,
+      oldValues: this.lifecycleSnapshot(invoice),
+      newValues: { ...this.lifecycleSnapshot(updated), ...options.details },
+      ...options.audit
+    });
+
+    return updated;
+  }
+
+  /**
+   * Enregistre un brouillon de facture (client vérifié, montants recalculés)
+   * Utilisable dans la transaction d'un appelant qui verrouille le document d'origine
+   */
+  async insertDraft(
+    db: Prisma.TransactionClient | PrismaClient,
+    userId: string,
+    data: CreateInvoiceInput,
+    origin?: InvoiceOrigin
+  ): Promise<InvoiceResponse> {
+    // 1. Vérifier que le client appartient bien au freelance
+    const client = await db.client.findFirst({
+      where: {
+        id: data.clientId,
+        userId
+      }
+    });
+
+    if (!client) {
+      throw new Error('Client introuvable');
+    }
+
+    // 2. Protection XSS sur les champs libres
+    const sanitizedData = sanitizeObjectXSS({ notes: data.notes || '' }, ['notes']);
+
+    // 3. Régime de TVA figé à la création, puis calcul des montants côté serveur
+    const vatRegime = await this.vatService.resolveRegime(db, userId, client);
+    const rated = this.rateItems(data.items, vatRegime, data.vatRate);
+    const totals = computeDocumentTotals(rated.items, rated.vatRate);
+
+    // 4. Échéance par défaut : délai de paiement du client
+    const issueDate = data.issueDate || new Date();
+    const dueDate = data.dueDate || new Date(issueDate.getTime() + client.paymentTerms * 24 * 60 * 60 * 1000);
+
+    if (dueDate < issueDate) {
+      throw new Error('Invalid dueDate : l\'échéance doit être postérieure à la date d\'émission');
+    }
+
+    const invoice = await db.invoice.create({
+      data: {
+        userId,
+        clientId: client.id,
+        issueDate,
+        dueDate,
+        vatRate: rated.vatRate,
+        vatRegime,
+        subtotal: totals.subtotal,
+        vatAmount: totals.vatAmount,
+        total: totals.total,
+        currency: data.currency,
+        notes: sanitizedData.notes || null,
+        status: InvoiceStatus.DRAFT,
+        ...origin,
+        items: {
+          create: this.buildItems(rated.items)
+        }
+      },
+      include: INVOICE_INCLUDE
+    });
+
+    return this.formatInvoice(invoice);
+  }
+
+  /**
+   * Créer une nouvelle facture
+   * L'origine récurrente est unique : une échéance déjà facturée lève une erreur P2002
+   */
+  async createInvoice(userId: string, data: CreateInvoiceInput, origin?: InvoiceOrigin): Promise<InvoiceResponse> {
+    const startTime = Date.now();
+
+    try {
+      const invoice = await this.insertDraft(this.prisma, userId, data, origin);
+
+      const duration = Date.now() - startTime;
+
+      secureLogger.info('Nouvelle facture créée', {
+        invoiceId: invoice.id,
+        clientId: invoice.clientId,
+        userId,
+        itemsCount: data.items.length,
+        duration: `${duration}ms`
+      });
+
+      return invoice;
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      secureLogger.error('Erreur création facture', {
+        userId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue',
+        duration: `${duration}ms`
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Récupérer toutes les factures d'un freelance
+   */
+  async getInvoices(userId: string, params: Partial<InvoiceQueryParams> = {}): Promise<InvoiceListResponse> {
+    const startTime = Date.now();
+
+    try {
+      const {
+        page = 1,
+        limit = 20,
+        search,
+        status,
+        type,
+        clientId,
+        sortBy = 'issueDate',
+        sortOrder = 'desc'
+      } = params;
+
+      const skip = (page - 1) * limit;
+
+      // Construire les conditions de recherche
+      const where: Prisma.InvoiceWhereInput = { userId };
+
+      if (search) {
+        where.OR = [
+          { number: { contains: search, mode: 'insensitive' } },
+          { notes: { contains: search, mode: 'insensitive' } }
+        ];
+      }
+
+      if (status) {
+        where.status = status;
+      }
+
+      if (type) {
+        where.type = type;
+      }
+
+      if (clientId) {
+        where.clientId = clientId;
+      }
+
+      const [invoices, total] = await Promise.all([
+        this.prisma.invoice.findMany({
+          where,
+          skip,
+          take: limit,
+          orderBy: { [sortBy]: sortOrder },
+          include: INVOICE_INCLUDE
+        }),
+        this.prisma.invoice.count({ where })
+      ]);
+
+      const duration = Date.now() - startTime;
+
+      secureLogger.info('Récupération factures', {
+        userId,
+        count: invoices.length,
+        total,
+        duration: `${duration}ms`
+      });
+
+      return {
+        invoices: invoices.map(invoice => this.formatInvoice(invoice)),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+          hasNext: page < Math.ceil(total / limit),
+          hasPrev: page > 1
+        }
+      };
+
+    } catch (error) {
+      secureLogger.error('Erreur récupération factures', {
+        userId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Récupérer une facture spécifique
+   */
+  async getInvoiceById(userId: string, invoiceId: string): Promise<InvoiceResponse> {
+    try {
+      const invoice = await this.findOwnedInvoice(userId, invoiceId);
+
+      secureLogger.info('Récupération facture', {
+        userId,
+        invoiceId
+      });
+
+      return this.formatInvoice(invoice);
+
+    } catch (error) {
+      secureLogger.error('Erreur récupération facture', {
+        userId,
+        invoiceId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Mettre à jour une facture
+   * Si des lignes sont fournies, elles remplacent les lignes existantes
+   */
+  async updateInvoice(userId: string, invoiceId: string, data: UpdateInvoiceInput): Promise<InvoiceResponse> {
+    const startTime = Date.now();
+
+    try {
+      const existingInvoice = await this.findOwnedInvoice(userId, invoiceId);
+
+      // Une facture émise est figée : toute correction passe par un avoir
+      if (!isInvoiceEditable(existingInvoice.status)) {
+        throw new Error('Facture déjà émise : seule une facture brouillon est modifiable');
+      }
+
+      // Acompte ou solde d'un devis (plafond de l'acompte, lignes de déduction) et facture du temps passé
+      // (créneaux rattachés à la facture) : montants et client sont fixés à la création
+      const changesBilledContent = Boolean(data.items || data.clientId || data.vatRate !== undefined || data.currency);
+
+      if (changesBilledContent && existingInvoice.billingStage) {
+        throw new Error('Invalid invoice : les lignes, le client, la TVA et la devise d\'une facture d\'acompte ou de solde suivent le devis (supprimez le brouillon pour le recréer)');
+      }
+
+      if (changesBilledContent && await this.prisma.timeEntry.count({ where: { invoiceId } }) > 0) {
+        throw new Error('Invalid invoice : les lignes, le client, la TVA et la devise d\'une facture du temps passé suivent ses saisies (supprimez le brouillon pour libérer les saisies)');
+      }
+
+      // Changement de client : il doit appartenir au freelance
+      const client = await this.prisma.client.findFirst({
+        where: {
+          id: data.clientId || existingInvoice.clientId,
+          userId
+        }
+      });
+
+      if (!client) {
+        throw new Error('Client introuvable');
+      }
+
+      const issueDate = data.issueDate || existingInvoice.issueDate;
+      const dueDate = data.dueDate || existingInvoice.dueDate;
+
+      if (dueDate < issueDate) {
+        throw new Error('Invalid dueDate : l\'échéance doit être postérieure à la date d\'émission');
+      }
+
+      // Recalcul des montants à partir des lignes (nouvelles ou existantes) : un brouillon
+      // suit le régime de TVA courant, et les lignes existantes au taux par défaut suivent le nouveau taux
+      const vatRegime = await this.vatService.resolveRegime(this.prisma, userId, client);
+      const lines: InvoiceItemInput[] = data.items || existingInvoice.items.map(item => ({
+        description: item.description,
+        quantity: item.quantity.toNumber(),
+        unitPrice: item.unitPrice.toNumber(),
+        ...(!item.vatRate.equals(existingInvoice.vatRate) && { vatRate: item.vatRate.toNumber() })
+      }));
+      const rated = this.rateItems(lines, vatRegime, data.vatRate ?? existingInvoice.vatRate);
+      const totals = computeDocumentTotals(rated.items, rated.vatRate);
+
+      const updateData: Prisma.InvoiceUncheckedUpdateInput = {
+        issueDate,
+        dueDate,
+        vatRate: rated.vatRate,
+        vatRegime,
+        subtotal: totals.subtotal,
+        vatAmount: totals.vatAmount,
+        total: totals.total
+      };
+
+      if (data.clientId) updateData.clientId = data.clientId;
+      if (data.currency) updateData.currency = data.currency;
+      if (data.notes !== undefined) {
+        updateData.notes = sanitizeObjectXSS({ notes: data.notes }, ['notes']).notes || null;
+      }
+
+      const invoice = await this.prisma.$transaction(async (tx) => {
+        // Verrou : une émission simultanée ne doit pas figer une facture en cours de modification
+        const locked = await this.lockInvoice(tx, userId, invoiceId);
+
+        if (!isInvoiceEditable(locked.status)) {
+          throw new Error('Facture déjà émise : seule une facture brouillon est modifiable');
+        }
+
+        await tx.invoiceItem.deleteMany({ where: { invoiceId } });
+        updateData.items = { create: this.buildItems(rated.items) };
+
+        return tx.invoice.update({
+          where: { id: invoiceId },
+          data: updateData,
+          include: INVOICE_INCLUDE
+        });
+      });
+
+      const duration = Date.now() - startTime;
+
+      secureLogger.info('Facture mise à jour', {
+        userId,
+        invoiceId,
+        updatedFields: Object.keys(data),
+        duration: `${duration}ms`
+      });
+
+      return this.formatInvoice(invoice);
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      secureLogger.error('Erreur mise à jour facture', {
+        userId,
+        invoiceId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue',
+        duration: `${duration}ms`
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Émettre une facture : attribution du numéro légal et passage au statut SENT
+   * La date d'émission devient la date du jour pour respecter l'ordre chronologique
+   */
+  async issueInvoice(
+    userId: string,
+    invoiceId: string,
+    data: IssueInvoiceInput = {},
+    audit?: AuditContext
+  ): Promise<InvoiceResponse> {
+    const startTime = Date.now();
+
+    try {
+      // Taux de change du jour d'émission, obtenu hors transaction (appel au fournisseur)
+      const issueDate = new Date();
+      const draft = await this.findOwnedInvoice(userId, invoiceId);
+      const exchangeRate: ExchangeRate = data.exchangeRate
+        ? { currency: draft.currency, rate: new Prisma.Decimal(data.exchangeRate), date: issueDate, source: 'MANUAL' }
+        : await this.exchangeRateService.getRate(draft.currency, issueDate);
+
+      const invoice = await this.prisma.$transaction(async (tx) => {
+        // Verrou sur la facture : deux émissions simultanées ne peuvent pas aboutir
+        const existingInvoice = await this.lockInvoice(tx, userId, invoiceId);
+
+        if (existingInvoice.status !== InvoiceStatus.DRAFT || existingInvoice.number) {
+          throw new Error('Facture déjà émise');
+        }
+
+        if (existingInvoice.currency !== exchangeRate.currency) {
+          throw new Error('Transition interdite : la devise de la facture a changé pendant son émission');
+        }
+
+        // Le délai de paiement est conservé à partir de la nouvelle date d'émission
+        const paymentDelay = existingInvoice.dueDate.getTime() - existingInvoice.issueDate.getTime();
+        const number = await this.numberingService.allocateNumber(tx, userId, 'INVOICE', issueDate);
+
+        // Taux des pénalités de retard en vigueur à l'émission, repris sur la facture
+        const issuer = await tx.user.findUniqueOrThrow({
+          where: { id: userId },
+          select: { latePenaltyReferenceRate: true, latePenaltyMargin: true }
+        });
+
+        return this.applyTransition(tx, existingInvoice, InvoiceStatus.SENT, {
+          data: {
+            number,
+            issueDate,
+            dueDate: new Date(issueDate.getTime() + Math.max(paymentDelay, 0)),
+            exchangeRate: exchangeRate.rate,
+            exchangeRateDate: exchangeRate.date,
+            exchangeRateSource: exchangeRate.source,
+            latePenaltyRate: computePenaltyRate(issuer.latePenaltyReferenceRate, issuer.latePenaltyMargin)
+          },
+          details: { currency: exchangeRate.currency, exchangeRate: exchangeRate.rate.toString() },
+          ...(audit && { audit })
+        });
+      });
+
+      const duration = Date.now() - startTime;
+
+      secureLogger.info('Facture émise', {
+        userId,
+        invoiceId,
+        number: invoice.number,
+        duration: `${duration}ms`
+      });
+
+      return this.formatInvoice(invoice);
+
+    } catch (error) {
+      secureLogger.error('Erreur émission facture', {
+        userId,
+        invoiceId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Recalcule le statut d'une facture émise à partir de ses paiements et avoirs (PAID dérivé)
+   * Appelée dans la transaction qui enregistre ou supprime un paiement, ou émet un avoir partiel
+   */
+  async syncPaymentStatus(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    invoiceId: string,
+    audit?: AuditContext
+  ): Promise<InvoiceWithRelations | null> {
+    const invoice = await this.lockInvoice(tx, userId, invoiceId);
+
+    const { paidAmount, creditedAmount, lastPaidAt } = await this.getSettlement(tx, invoiceId);
+    const status = deriveInvoiceStatus(invoice, paidAmount.plus(creditedAmount));
+
+    if (status === invoice.status) {
+      return null;
+    }
+
+    // Date du paiement qui a soldé la facture
+    return this.applyTransition(tx, invoice, status, {
+      data: { paidAt: status === InvoiceStatus.PAID ? lastPaidAt || new Date() : null },
+      details: { paidAmount: paidAmount.toFixed(2), creditedAmount: creditedAmount.toFixed(2) },
+      ...(audit && { audit })
+    });
+  }
+
+  /**
+   * Annuler une facture émise : uniquement à l'émission d'un avoir qui la corrige
+   * Le temps qu'elle facturait redevient facturable
+   */
+  async cancelInvoice(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    invoiceId: string,
+    creditNoteId: string,
+    audit?: AuditContext
+  ): Promise<InvoiceWithRelations> {
+    if (!creditNoteId) {
+      throw new Error('Transition interdite : l\'annulation d\'une facture émise nécessite un avoir');
+    }
+
+    const invoice = await this.lockInvoice(tx, userId, invoiceId);
+
+    const cancelled = await this.applyTransition(tx, invoice, InvoiceStatus.CANCELLED, {
+      details: { creditNoteId },
+      ...(audit && { audit })
+    });
+
+    await tx.timeEntry.updateMany({
+      where: { invoiceId: invoice.id },
+      data: { invoiceId: null }
+    });
+
+    return cancelled;
+  }
+
+  /**
+   * Émettre un avoir sur une facture émise : total (toutes les lignes) ou partiel (lignes fournies)
+   * L'avoir est numéroté dans sa propre séquence ; la facture entièrement créditée est annulée
+   */
+  async createCreditNote(
+    userId: string,
+    invoiceId: string,
+    data: CreateCreditNoteInput,
+    audit?: AuditContext
+  ): Promise<InvoiceResponse> {
+    const startTime = Date.now();
+
+    try {
+      const creditNote = await this.prisma.$transaction(async (tx) => {
+        // Verrou sur la facture : deux avoirs simultanés ne peuvent pas dépasser son total
+        const invoice = await this.lockInvoice(tx, userId, invoiceId);
+
+        if (invoice.type !== InvoiceType.INVOICE) {
+          throw new Error('Invalid invoice : un avoir ne peut pas faire l\'objet d\'un avoir');
+        }
+
+        if (invoice.status === InvoiceStatus.CANCELLED) {
+          throw new Error('Facture déjà annulée');
+        }
+
+        if (invoice.status === InvoiceStatus.DRAFT || !invoice.number) {
+          throw new Error('Transition interdite : un brouillon se modifie directement, sans avoir');
+        }
+
+        // Lignes reprises au taux de la facture corrigée, sous son régime de TVA
+        const lines: InvoiceItemInput[] = data.items || (await tx.invoiceItem.findMany({ where: { invoiceId } })).map(item => ({
+          description: item.description,
+          quantity: item.quantity.toNumber(),
+          unitPrice: item.unitPrice.toNumber(),
+          vatRate: item.vatRate.toNumber()
+        }));
+        const rated = this.rateItems(lines, invoice.vatRegime, invoice.vatRate);
+        const totals = computeDocumentTotals(rated.items, rated.vatRate);
+
+        const { creditedAmount } = await this.getSettlement(tx, invoiceId);
+        assertCreditable(invoice.total, creditedAmount, totals.total);
+
+        const issueDate = new Date();
+        const number = await this.numberingService.allocateNumber(tx, userId, 'CREDIT_NOTE', issueDate);
+
+        const created = await tx.invoice.create({
+          data: {
+            userId,
+            clientId: invoice.clientId,
+            type: InvoiceType.CREDIT_NOTE,
+            correctedInvoiceId: invoice.id,
+            number,
+            issueDate,
+            dueDate: issueDate,
+            vatRate: invoice.vatRate,
+            vatRegime: invoice.vatRegime,
+            subtotal: totals.subtotal,
+            vatAmount: totals.vatAmount,
+            total: totals.total,
+            currency: invoice.currency,
+            // L'avoir reprend le taux de la facture corrigée : ses montants se compensent en euros
+            exchangeRate: invoice.exchangeRate,
+            exchangeRateDate: invoice.exchangeRateDate,
+            exchangeRateSource: invoice.exchangeRateSource,
+            notes: data.notes ? sanitizeObjectXSS({ notes: data.notes }, ['notes']).notes || null : null,
+            status: InvoiceStatus.SENT,
+            items: {
+              create: this.buildItems(rated.items)
+            }
+          },
+          include: INVOICE_INCLUDE
+        });
+
+        await writeAuditLog(tx, {
+          userId,
+          action: 'CREATE_CREDIT_NOTE',
+          resource: 'Invoice',
+          resourceId: created.id,
+          newValues: {
+            number,
+            correctedInvoiceId: invoice.id,
+            correctedInvoiceNumber: invoice.number,
+            total: totals.total.toFixed(2)
+          },
+          ...audit
+        });
+
+        // Avoir total : la facture est annulée ; avoir partiel : son reste dû diminue
+        if (isFullyCredited(invoice.total, creditedAmount.plus(totals.total))) {
+          await this.cancelInvoice(tx, userId, invoiceId, created.id, audit);
+        } else {
+          await this.syncPaymentStatus(tx, userId, invoiceId, audit);
+        }
+
+        return created;
+      });
+
+      const duration = Date.now() - startTime;
+
+      secureLogger.info('Avoir émis', {
+        userId,
+        invoiceId,
+        creditNoteId: creditNote.id,
+        number: creditNote.number,
+        duration: `${duration}ms`
+      });
+
+      return this.formatInvoice(creditNote);
+
+    } catch (error) {
+      secureLogger.error('Erreur émission avoir', {
+        userId,
+        invoiceId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Lister les avoirs émis sur une facture
+   */
+  async getCreditNotes(userId: string, invoiceId: string): Promise<InvoiceResponse[]> {
+    try {
+      await this.findOwnedInvoice(userId, invoiceId);
+
+      const creditNotes = await this.prisma.invoice.findMany({
+        where: {
+          userId,
+          correctedInvoiceId: invoiceId,
+          type: InvoiceType.CREDIT_NOTE
+        },
+        orderBy: { issueDate: 'asc' },
+        include: INVOICE_INCLUDE
+      });
+
+      return creditNotes.map(creditNote => this.formatInvoice(creditNote));
+
+    } catch (error) {
+      secureLogger.error('Erreur récupération avoirs', {
+        userId,
+        invoiceId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Chiffre d'affaires net des avoirs et solde restant dû (documents émis uniquement)
+   * Exprimés dans la devise du dashboard : chaque document est converti au taux figé à son émission
+   * Limité à un client si clientId est fourni
+   */
+  async getBillingSummary(userId: string, clientId?: string): Promise<BillingSummary> {
+    const where: Prisma.InvoiceWhereInput = {
+      userId,
+      number: { not: null },
+      ...(clientId && { clientId })
+    };
+
+    const [byRate, payments, reporting] = await Promise.all([
+      this.prisma.invoice.groupBy({
+        by: ['type', 'exchangeRate'],
+        where,
+        _sum: { subtotal: true, total: true }
+      }),
+      this.prisma.payment.findMany({
+        where: { invoice: where },
+        select: { amount: true, invoice: { select: { exchangeRate: true } } }
+      }),
+      this.exchangeRateService.getReportingCurrency(userId)
+    ]);
+
+    const zero = new Prisma.Decimal(0);
+    const sumOf = (type: InvoiceType, field: 'subtotal' | 'total') => sumInCurrency(
+      byRate
+        .filter(group => group.type === type)
+        .map(group => ({ amount: group._sum[field] || zero, exchangeRate: group.exchangeRate })),
+      reporting.rate
+    );
+
+    return computeBillingSummary({
+      invoicedSubtotal: sumOf(InvoiceType.INVOICE, 'subtotal'),
+      invoicedTotal: sumOf(InvoiceType.INVOICE, 'total'),
+      creditedSubtotal: sumOf(InvoiceType.CREDIT_NOTE, 'subtotal'),
+      creditedTotal: sumOf(InvoiceType.CREDIT_NOTE, 'total'),
+      paidAmount: sumInCurrency(
+        payments.map(payment => ({ amount: payment.amount, exchangeRate: payment.invoice.exchangeRate })),
+        reporting.rate
+      )
+    }, reporting.currency);
+  }
+
+  /**
+   * Passe en OVERDUE les factures émises dont l'échéance est dépassée (tous utilisateurs)
+   * Idempotent : chaque facture est revérifiée sous verrou avant la transition
+   */
+  async markOverdueInvoices(now: Date = new Date()): Promise<number> {
+    const candidates = await this.prisma.invoice.findMany({
+      where: {
+        type: InvoiceType.INVOICE,
+        status: InvoiceStatus.SENT,
+        dueDate: { lt: now }
+      },
+      select: { id: true, userId: true }
+    });
+
+    let updated = 0;
+
+    for (const candidate of candidates) {
+      try {
+        const changed = await this.prisma.$transaction(async (tx) => {
+          const invoice = await this.lockInvoice(tx, candidate.userId, candidate.id);
+
+          const { paidAmount, creditedAmount } = await this.getSettlement(tx, invoice.id);
+          const status = deriveInvoiceStatus(invoice, paidAmount.plus(creditedAmount), now);
+
+          if (invoice.status !== InvoiceStatus.SENT || status !== InvoiceStatus.OVERDUE) {
+            return false;
+          }
+
+          await this.applyTransition(tx, invoice, InvoiceStatus.OVERDUE);
+          return true;
+        });
+
+        if (changed) updated++;
+
+      } catch (error) {
+        secureLogger.error('Erreur passage facture en retard', {
+          invoiceId: candidate.id,
+          error: error instanceof Error ? error.message : 'Erreur inconnue'
+        });
+      }
+    }
+
+    if (updated > 0) {
+      secureLogger.info('Factures passées en retard', { count: updated });
+    }
+
+    return updated;
+  }
+
+  /**
+   * Supprimer une facture
+   * Seuls les brouillons non numérotés peuvent être supprimés (numérotation sans trou)
+   */
+  async deleteInvoice(userId: string, invoiceId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const existingInvoice = await this.findOwnedInvoice(userId, invoiceId);
+
+      if (existingInvoice.number) {
+        throw new Error('Facture déjà émise : une facture numérotée ne peut pas être supprimée');
+      }
+
+      await this.prisma.invoice.delete({
+        where: { id: invoiceId }
+      });
+
+      logSecurityEvent('DATA_ACCESS', {
+        userId,
+        severity: 'MEDIUM',
+        reason: 'Suppression facture'
+      });
+
+      secureLogger.info('Facture supprimée', {
+        userId,
+        invoiceId
+      });
+
+      return {
+        success: true,
+        message: 'Facture supprimée avec succès'
+      };
+
+    } catch (error) {
+      secureLogger.error('Erreur suppression facture', {
+        userId,
+        invoiceId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,380 @@
+import { PrismaClient, Prisma, InvoiceStatus, InvoiceType } from '@prisma/client';
+import { CreateInvoiceInput, InvoiceResponse } from '@/types/invoice.types';
+import {
+  CreatePenaltyInvoiceInput,
+  InvoiceReminderResponse,
+  LatePenaltyQuery,
+  LatePenaltyResponse,
+  PenaltySettingsResponse,
+  UpdatePenaltySettingsInput
+} from '@/types/late-penalty.types';
+import { InvoiceService } from '@/services/invoice.service';
+import { EmailService } from '@/services/email.service';
+import { formatDate } from '@/templates/pdf-templates';
+import { renderReminderEmail } from '@/templates/reminder-email';
+import { secureLogger } from '@/utils/secure-logger';
+import { decryptPII } from '@/utils/encryption';
+import { AuditContext, writeAuditLog } from '@/utils/audit-log';
+import {
+  computeLatePenalties,
+  computePenaltyRate,
+  LatePenalty,
+  RECOVERY_INDEMNITY_EUR
+} from '@/utils/late-penalties';
+
+const PENALTY_SETTINGS_SELECT = {
+  latePenaltyReferenceRate: true,
+  latePenaltyMargin: true
+} satisfies Prisma.UserSelect;
+
+// Facture en retard avec ce qui vient en déduction de son reste dû et ses pénalités déjà facturées
+// (factures de pénalités émises : un brouillon ne décale ni les intérêts ni l'indemnité)
+const OVERDUE_INVOICE_INCLUDE = {
+  client: true,
+  user: true,
+  payments: {
+    select: { amount: true, paidAt: true }
+  },
+  creditNotes: {
+    where: { number: { not: null } },
+    select: { total: true, issueDate: true }
+  },
+  penaltyInvoices: {
+    where: { number: { not: null }, status: { not: InvoiceStatus.CANCELLED } },
+    select: { penaltyUntil: true }
+  }
+} satisfies Prisma.InvoiceInclude;
+
+type OverdueInvoice = Prisma.InvoiceGetPayload<{ include: typeof OVERDUE_INVOICE_INCLUDE }> & { number: string };
+
+export class LatePenaltyService {
+  private invoiceService: InvoiceService;
+  private emailService: EmailService;
+
+  constructor(private prisma: PrismaClient) {
+    this.invoiceService = new InvoiceService(prisma);
+    this.emailService = new EmailService();
+  }
+
+  /**
+   * Utilitaire pour formater les paramètres de pénalités du freelance
+   */
+  private formatSettings(user: Prisma.UserGetPayload<{ select: typeof PENALTY_SETTINGS_SELECT }>): PenaltySettingsResponse {
+    return {
+      referenceRate: user.latePenaltyReferenceRate.toNumber(),
+      margin: user.latePenaltyMargin.toNumber(),
+      annualRate: computePenaltyRate(user.latePenaltyReferenceRate, user.latePenaltyMargin).toNumber(),
+      indemnityAmount: RECOVERY_INDEMNITY_EUR
+    };
+  }
+
+  /**
+   * Récupérer le taux des pénalités de retard
+   */
+  async getSettings(userId: string): Promise<PenaltySettingsResponse> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: PENALTY_SETTINGS_SELECT
+    });
+
+    if (!user) {
+      throw new Error('Utilisateur introuvable');
+    }
+
+    return this.formatSettings(user);
+  }
+
+  /**
+   * Modifier le taux des pénalités (appliqué aux factures émises ensuite)
+   */
+  async updateSettings(userId: string, data: UpdatePenaltySettingsInput): Promise<PenaltySettingsResponse> {
+    try {
+      const user = await this.prisma.user.update({
+        where: { id: userId },
+        data: {
+          ...(data.referenceRate !== undefined && { latePenaltyReferenceRate: new Prisma.Decimal(data.referenceRate) }),
+          ...(data.margin !== undefined && { latePenaltyMargin: new Prisma.Decimal(data.margin) })
+        },
+        select: PENALTY_SETTINGS_SELECT
+      });
+
+      secureLogger.info('Taux des pénalités de retard mis à jour', { userId });
+
+      return this.formatSettings(user);
+
+    } catch (error) {
+      secureLogger.error('Erreur mise à jour taux des pénalités', {
+        userId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Charge une facture en retard du freelance avec ses paiements, avoirs et pénalités facturées
+   */
+  private async findOverdueInvoice(
+    db: Prisma.TransactionClient | PrismaClient,
+    userId: string,
+    invoiceId: string
+  ): Promise<OverdueInvoice> {
+    const invoice = await db.invoice.findFirst({
+      where: {
+        id: invoiceId,
+        userId,
+        type: InvoiceType.INVOICE
+      },
+      include: OVERDUE_INVOICE_INCLUDE
+    });
+
+    if (!invoice) {
+      throw new Error('Facture introuvable');
+    }
+
+    if (invoice.status !== InvoiceStatus.OVERDUE || !invoice.number) {
+      throw new Error(`Transition interdite : les pénalités ne s'appliquent qu'à une facture en retard (statut ${invoice.status})`);
+    }
+
+    return { ...invoice, number: invoice.number };
+  }
+
+  /**
+   * Intérêts au taux figé de la facture depuis la dernière facture de pénalités,
+   * indemnité forfaitaire réclamée une seule fois et uniquement à un client professionnel
+   */
+  private computePenalties(invoice: OverdueInvoice, asOf: Date): { penalty: LatePenalty; response: LatePenaltyResponse } {
+    const annualRate = invoice.latePenaltyRate
+      || computePenaltyRate(invoice.user.latePenaltyReferenceRate, invoice.user.latePenaltyMargin);
+
+    const billedUntil = invoice.penaltyInvoices.reduce<Date | null>(
+      (latest, penalty) => penalty.penaltyUntil && (!latest || penalty.penaltyUntil > latest) ? penalty.penaltyUntil : latest,
+      null
+    );
+
+    const isProfessional = Boolean(invoice.client.company || invoice.client.siret);
+    const indemnity = isProfessional && invoice.penaltyInvoices.length === 0
+      ? new Prisma.Decimal(RECOVERY_INDEMNITY_EUR).times(invoice.exchangeRate || 1).toDecimalPlaces(2)
+      : new Prisma.Decimal(0);
+
+    const penalty = computeLatePenalties({
+      total: invoice.total,
+      dueDate: invoice.dueDate,
+      settlements: [
+        ...invoice.payments.map(payment => ({ date: payment.paidAt, amount: payment.amount })),
+        ...invoice.creditNotes.map(creditNote => ({ date: creditNote.issueDate, amount: creditNote.total }))
+      ],
+      annualRate,
+      asOf,
+      accrueFrom: billedUntil,
+      indemnity
+    });
+
+    return {
+      penalty,
+      response: {
+        invoiceId: invoice.id,
+        number: invoice.number,
+        currency: invoice.currency,
+        dueDate: invoice.dueDate,
+        asOf,
+        daysLate: penalty.daysLate,
+        annualRate: annualRate.toNumber(),
+        outstandingAmount: penalty.outstandingAmount.toNumber(),
+        interestAmount: penalty.interestAmount.toNumber(),
+        indemnityAmount: penalty.indemnityAmount.toNumber(),
+        totalAmount: penalty.totalAmount.toNumber(),
+        billedUntil
+      }
+    };
+  }
+
+  /**
+   * Calculer les pénalités exigibles sur une facture en retard
+   */
+  async getPenalties(userId: string, invoiceId: string, query: LatePenaltyQuery = {}): Promise<LatePenaltyResponse> {
+    const invoice = await this.findOverdueInvoice(this.prisma, userId, invoiceId);
+
+    return this.computePenalties(invoice, query.asOf || new Date()).response;
+  }
+
+  /**
+   * Facturer les pénalités d'une facture en retard (brouillon hors champ de la TVA)
+   * Les intérêts facturés courent jusqu'à aujourd'hui ; une facture suivante reprend à cette date
+   */
+  async createPenaltyInvoice(
+    userId: string,
+    invoiceId: string,
+    data: CreatePenaltyInvoiceInput,
+    audit?: AuditContext
+  ): Promise<InvoiceResponse> {
+    const startTime = Date.now();
+
+    try {
+      const penaltyInvoice = await this.prisma.$transaction(async (tx) => {
+        // Verrou sur la facture : deux factures de pénalités simultanées ne peuvent pas coexister
+        await tx.$queryRaw`
+          SELECT id FROM "invoices" WHERE id = ${invoiceId} AND "userId" = ${userId} FOR UPDATE
+        `;
+
+        const invoice = await this.findOverdueInvoice(tx, userId, invoiceId);
+
+        const pendingDraft = await tx.invoice.findFirst({
+          where: { penalizedInvoiceId: invoice.id, status: InvoiceStatus.DRAFT },
+          select: { id: true }
+        });
+
+        if (pendingDraft) {
+          throw new Error('Facture de pénalités déjà en brouillon pour cette facture : émettez-la ou supprimez-la');
+        }
+
+        const asOf = new Date();
+        const { penalty, response } = this.computePenalties(invoice, asOf);
+
+        if (penalty.totalAmount.lessThanOrEqualTo(0)) {
+          throw new Error('Invalid amount : aucune pénalité à facturer à ce jour');
+        }
+
+        const items: CreateInvoiceInput['items'] = [];
+        const billedFrom = response.billedUntil || invoice.dueDate;
+
+        if (penalty.interestAmount.greaterThan(0)) {
+          items.push({
+            description: `Intérêts de retard sur la facture N° ${invoice.number} du ${formatDate(billedFrom)} ` +
+              `au ${formatDate(asOf)} (taux annuel de ${response.annualRate} %)`,
+            quantity: 1,
+            unitPrice: penalty.interestAmount.toNumber(),
+            vatRate: 0
+          });
+        }
+
+        if (penalty.indemnityAmount.greaterThan(0)) {
+          items.push({
+            description: `Indemnité forfaitaire pour frais de recouvrement, facture N° ${invoice.number} (art. D441-5 du Code de commerce)`,
+            quantity: 1,
+            unitPrice: penalty.indemnityAmount.toNumber(),
+            vatRate: 0
+          });
+        }
+
+        const created = await this.invoiceService.insertDraft(tx, userId, {
+          clientId: invoice.clientId,
+          vatRate: 0,
+          currency: invoice.currency,
+          items,
+          notes: data.notes || 'Pénalités de retard et indemnité de recouvrement non soumises à la TVA.',
+          ...(data.dueDate && { dueDate: data.dueDate })
+        }, {
+          penalizedInvoiceId: invoice.id,
+          penaltyUntil: asOf
+        });
+
+        await writeAuditLog(tx, {
+          userId,
+          action: 'CREATE_PENALTY_INVOICE',
+          resource: 'Invoice',
+          resourceId: created.id,
+          newValues: {
+            penalizedInvoiceId: invoice.id,
+            penalizedInvoiceNumber: invoice.number,
+            interestAmount: penalty.interestAmount.toFixed(2),
+            indemnityAmount: penalty.indemnityAmount.toFixed(2)
+          },
+          ...audit
+        });
+
+        return created;
+      });
+
+      const duration = Date.now() - startTime;
+
+      secureLogger.info('Facture de pénalités créée', {
+        userId,
+        invoiceId,
+        penaltyInvoiceId: penaltyInvoice.id,
+        total: penaltyInvoice.total,
+        duration: `${duration}ms`
+      });
+
+      return penaltyInvoice;
+
+    } catch (error) {
+      secureLogger.error('Erreur création facture de pénalités', {
+        userId,
+        invoiceId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Relancer le client d'une facture en retard par email, avec les pénalités exigibles à ce jour
+   */
+  async sendReminder(userId: string, invoiceId: string, audit?: AuditContext): Promise<InvoiceReminderResponse> {
+    try {
+      const invoice = await this.findOverdueInvoice(this.prisma, userId, invoiceId);
+
+      if (!invoice.client.email) {
+        throw new Error('Invalid client : aucune adresse email pour la relance');
+      }
+
+      const { response } = this.computePenalties(invoice, new Date());
+      const recipient = decryptPII(invoice.client.email);
+      const issuerName = invoice.user.company || `${invoice.user.firstName} ${invoice.user.lastName}`;
+
+      const email = renderReminderEmail({
+        issuerName,
+        clientName: invoice.client.company || invoice.client.name,
+        invoiceNumber: invoice.number,
+        issueDate: invoice.issueDate,
+        dueDate: invoice.dueDate,
+        currency: invoice.currency,
+        outstandingAmount: response.outstandingAmount,
+        daysLate: response.daysLate,
+        annualRate: response.annualRate,
+        interestAmount: response.interestAmount,
+        indemnityAmount: response.indemnityAmount,
+        totalAmount: response.totalAmount
+      });
+
+      await this.emailService.send({ to: recipient, replyTo: invoice.user.email, ...email });
+
+      await writeAuditLog(this.prisma, {
+        userId,
+        action: 'SEND_INVOICE_REMINDER',
+        resource: 'Invoice',
+        resourceId: invoice.id,
+        newValues: {
+          daysLate: response.daysLate,
+          outstandingAmount: response.outstandingAmount.toFixed(2),
+          penaltyAmount: response.totalAmount.toFixed(2)
+        },
+        ...audit
+      });
+
+      secureLogger.info('Relance envoyée', {
+        userId,
+        invoiceId,
+        daysLate: response.daysLate
+      });
+
+      return {
+        sentTo: recipient,
+        subject: email.subject,
+        penalties: response
+      };
+
+    } catch (error) {
+      secureLogger.error('Erreur envoi relance', {
+        userId,
+        invoiceId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,217 @@
+import { PrismaClient, Prisma, Notification } from '@prisma/client';
+import {
+  NotificationInput,
+  NotificationListResponse,
+  NotificationQueryParams,
+  NotificationResponse,
+  NotificationSettingsResponse,
+  UpdateNotificationSettingsInput
+} from '@/types/notification.types';
+import { EmailService } from '@/services/email.service';
+import { renderNotificationEmail } from '@/templates/notification-email';
+import { secureLogger } from '@/utils/secure-logger';
+import { normalizeThresholds } from '@/utils/project-budget';
+
+type Db = Prisma.TransactionClient | PrismaClient;
+
+export class NotificationService {
+  private emailService: EmailService;
+
+  constructor(private prisma: PrismaClient) {
+    this.emailService = new EmailService();
+  }
+
+  private formatNotification(notification: Notification): NotificationResponse {
+    const { userId: _userId, ...rest } = notification;
+    return rest;
+  }
+
+  /**
+   * Créer une notification (dans la transaction de l'événement qui la déclenche)
+   */
+  async createNotification(db: Db, userId: string, input: NotificationInput): Promise<Notification> {
+    return db.notification.create({
+      data: {
+        userId,
+        type: input.type,
+        title: input.title,
+        message: input.message,
+        projectId: input.projectId ?? null
+      }
+    });
+  }
+
+  /**
+   * Envoyer une notification par email au freelance, une fois la transaction validée
+   * Un échec d'envoi est journalisé : la notification reste consultable dans l'application
+   */
+  async sendByEmail(notification: Notification): Promise<void> {
+    try {
+      const user = await this.prisma.user.findUnique({
+        where: { id: notification.userId },
+        select: { email: true, firstName: true }
+      });
+
+      if (!user) {
+        return;
+      }
+
+      await this.emailService.send({
+        to: user.email,
+        ...renderNotificationEmail({
+          firstName: user.firstName,
+          title: notification.title,
+          message: notification.message
+        })
+      });
+
+    } catch (error) {
+      secureLogger.error('Erreur envoi notification par email', {
+        userId: notification.userId,
+        notificationId: notification.id,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+    }
+  }
+
+  /**
+   * Lister les notifications du freelance (plus récentes d'abord)
+   */
+  async getNotifications(userId: string, params: Partial<NotificationQueryParams> = {}): Promise<NotificationListResponse> {
+    try {
+      const { page = 1, limit = 20, unread } = params;
+      const skip = (page - 1) * limit;
+
+      const where: Prisma.NotificationWhereInput = {
+        userId,
+        ...(unread !== undefined && { readAt: unread ? null : { not: null } })
+      };
+
+      const [notifications, total, unreadCount] = await Promise.all([
+        this.prisma.notification.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          skip,
+          take: limit
+        }),
+        this.prisma.notification.count({ where }),
+        this.prisma.notification.count({ where: { userId, readAt: null } })
+      ]);
+
+      const totalPages = Math.ceil(total / limit);
+
+      return {
+        notifications: notifications.map(notification => this.formatNotification(notification)),
+        unreadCount,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1
+        }
+      };
+
+    } catch (error) {
+      secureLogger.error('Erreur récupération notifications', {
+        userId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Marquer une notification comme lue (sans effet si elle l'est déjà)
+   */
+  async markAsRead(userId: string, notificationId: string): Promise<NotificationResponse> {
+    try {
+      const existing = await this.prisma.notification.findFirst({
+        where: {
+          id: notificationId,
+          userId
+        }
+      });
+
+      if (!existing) {
+        throw new Error('Notification introuvable');
+      }
+
+      const notification = existing.readAt
+        ? existing
+        : await this.prisma.notification.update({
+          where: { id: existing.id },
+          data: { readAt: new Date() }
+        });
+
+      return this.formatNotification(notification);
+
+    } catch (error) {
+      secureLogger.error('Erreur lecture notification', {
+        userId,
+        notificationId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Marquer toutes les notifications comme lues
+   */
+  async markAllAsRead(userId: string): Promise<{ success: boolean; count: number }> {
+    try {
+      const { count } = await this.prisma.notification.updateMany({
+        where: {
+          userId,
+          readAt: null
+        },
+        data: { readAt: new Date() }
+      });
+
+      return { success: true, count };
+
+    } catch (error) {
+      secureLogger.error('Erreur lecture notifications', {
+        userId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  async getSettings(userId: string): Promise<NotificationSettingsResponse> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { budgetAlertThresholds: true }
+    });
+
+    if (!user) {
+      throw new Error('Utilisateur introuvable');
+    }
+
+    return { budgetAlertThresholds: normalizeThresholds(user.budgetAlertThresholds) };
+  }
+
+  /**
+   * Modifier les seuils d'alerte budget (pris en compte au prochain contrôle des projets)
+   */
+  async updateSettings(userId: string, data: UpdateNotificationSettingsInput): Promise<NotificationSettingsResponse> {
+    const user = await this.prisma.user.update({
+      where: { id: userId },
+      data: { budgetAlertThresholds: normalizeThresholds(data.budgetAlertThresholds) },
+      select: { budgetAlertThresholds: true }
+    });
+
+    secureLogger.info('Seuils d\'alerte budget modifiés', {
+      userId,
+      budgetAlertThresholds: user.budgetAlertThresholds
+    });
+
+    return { budgetAlertThresholds: user.budgetAlertThresholds };
+  }
+}
@@ -0,0 +1,203 @@
+import { PrismaClient, Prisma, DocumentType, NumberingReset, NumberingSequence } from '@prisma/client';
+import { UpdateNumberingInput, NumberingSettingsResponse } from '@/types/numbering.types';
+import { secureLogger } from '@/utils/secure-logger';
+import {
+  DEFAULT_NUMBERING_PATTERNS,
+  formatDocumentNumber,
+  getNumberingPeriod,
+  nextSequenceValue,
+  rebaseSequence,
+  validateNumberingPattern
+} from '@/utils/document-numbering';
+
+export class NumberingService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Utilitaire pour formater les paramètres d'une séquence
+   */
+  private formatSettings(
+    documentType: DocumentType,
+    sequence: NumberingSequence | undefined
+  ): NumberingSettingsResponse {
+    const now = new Date();
+    const settings = sequence || {
+      pattern: DEFAULT_NUMBERING_PATTERNS[documentType],
+      resetPeriod: NumberingReset.YEARLY,
+      period: null,
+      lastValue: 0
+    };
+
+    return {
+      documentType,
+      pattern: settings.pattern,
+      resetPeriod: settings.resetPeriod,
+      period: settings.period,
+      lastValue: settings.lastValue,
+      nextNumberPreview: formatDocumentNumber(
+        settings.pattern,
+        sequence ? nextSequenceValue(sequence, now) : 1,
+        now
+      )
+    };
+  }
+
+  /**
+   * Récupérer les paramètres de numérotation du freelance
+   */
+  async getSettings(userId: string): Promise<NumberingSettingsResponse[]> {
+    try {
+      const sequences = await this.prisma.numberingSequence.findMany({
+        where: { userId }
+      });
+
+      return Object.values(DocumentType).map(documentType =>
+        this.formatSettings(
+          documentType,
+          sequences.find(sequence => sequence.documentType === documentType)
+        )
+      );
+
+    } catch (error) {
+      secureLogger.error('Erreur récupération numérotation', {
+        userId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Modifier le motif de numérotation d'un type de document
+   * La séquence en cours est conservée pour ne jamais réattribuer un numéro (voir rebaseSequence)
+   */
+  async updateSettings(
+    userId: string,
+    documentType: DocumentType,
+    data: UpdateNumberingInput
+  ): Promise<NumberingSettingsResponse> {
+    try {
+      const validationError = validateNumberingPattern(data.pattern, data.resetPeriod);
+      if (validationError) {
+        throw new Error(`Invalid pattern : ${validationError}`);
+      }
+
+      const now = new Date();
+
+      const sequence = await this.prisma.$transaction(async (tx) => {
+        // Verrou : une émission simultanée ne doit pas voir la séquence à moitié modifiée
+        await tx.$queryRaw`
+          SELECT id FROM "numbering_sequences"
+          WHERE "userId" = ${userId} AND "documentType" = ${documentType}::"DocumentType"
+          FOR UPDATE
+        `;
+
+        const existing = await tx.numberingSequence.findUnique({
+          where: {
+            userId_documentType: { userId, documentType }
+          }
+        });
+
+        if (!existing) {
+          return tx.numberingSequence.create({
+            data: {
+              userId,
+              documentType,
+              pattern: data.pattern,
+              resetPeriod: data.resetPeriod,
+              period: getNumberingPeriod(data.resetPeriod, now)
+            }
+          });
+        }
+
+        const rebased = rebaseSequence(existing, data.resetPeriod, now);
+
+        return tx.numberingSequence.update({
+          where: { id: existing.id },
+          data: {
+            pattern: data.pattern,
+            resetPeriod: rebased.resetPeriod,
+            period: rebased.period,
+            lastValue: rebased.lastValue
+          }
+        });
+      });
+
+      secureLogger.info('Numérotation mise à jour', {
+        userId,
+        documentType,
+        pattern: data.pattern,
+        resetPeriod: data.resetPeriod
+      });
+
+      return this.formatSettings(documentType, sequence);
+
+    } catch (error) {
+      secureLogger.error('Erreur mise à jour numérotation', {
+        userId,
+        documentType,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Attribuer le prochain numéro légal
+   * Doit être appelé dans la transaction qui émet le document : le verrou de ligne
+   * sérialise les émissions concurrentes et un rollback libère le numéro (pas de trou)
+   */
+  async allocateNumber(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    documentType: DocumentType,
+    date: Date = new Date()
+  ): Promise<string> {
+    // Création de la séquence par défaut au premier document (ON CONFLICT DO NOTHING)
+    await tx.numberingSequence.createMany({
+      data: [{
+        userId,
+        documentType,
+        pattern: DEFAULT_NUMBERING_PATTERNS[documentType],
+        resetPeriod: NumberingReset.YEARLY,
+        period: getNumberingPeriod(NumberingReset.YEARLY, date)
+      }],
+      skipDuplicates: true
+    });
+
+    // Verrou exclusif jusqu'à la fin de la transaction d'émission
+    await tx.$queryRaw`
+      SELECT id FROM "numbering_sequences"
+      WHERE "userId" = ${userId} AND "documentType" = ${documentType}::"DocumentType"
+      FOR UPDATE
+    `;
+
+    const sequence = await tx.numberingSequence.findUniqueOrThrow({
+      where: {
+        userId_documentType: { userId, documentType }
+      }
+    });
+
+    const nextValue = nextSequenceValue(sequence, date);
+
+    await tx.numberingSequence.update({
+      where: { id: sequence.id },
+      data: {
+        period: getNumberingPeriod(sequence.resetPeriod, date),
+        lastValue: nextValue
+      }
+    });
+
+    const number = formatDocumentNumber(sequence.pattern, nextValue, date);
+
+    secureLogger.info('Numéro attribué', {
+      userId,
+      documentType,
+      number
+    });
+
+    return number;
+  }
+}
@@ -0,0 +1,319 @@
+import { PrismaClient, Prisma, Payment, InvoiceStatus, InvoiceType } from '@prisma/client';
+import { CreatePaymentInput, PaymentResponse, InvoicePaymentsResponse } from '@/types/payment.types';
+import { InvoiceService } from '@/services/invoice.service';
+import { ExchangeRateService } from '@/services/exchange-rate.service';
+import { secureLogger, logSecurityEvent } from '@/utils/secure-logger';
+import { sanitizeObjectXSS } from '@/utils/xss-protection';
+import { AuditContext, writeAuditLog } from '@/utils/audit-log';
+import { computeInvoiceBalance } from '@/utils/invoice-balance';
+import { sumInCurrency } from '@/utils/exchange-rates';
+
+export class PaymentService {
+  private invoiceService: InvoiceService;
+  private exchangeRateService: ExchangeRateService;
+
+  constructor(private prisma: PrismaClient) {
+    this.invoiceService = new InvoiceService(prisma);
+    this.exchangeRateService = new ExchangeRateService(prisma);
+  }
+
+  /**
+   * Utilitaire pour sérialiser un paiement (Decimal → number)
+   */
+  private formatPayment(payment: Payment): PaymentResponse {
+    return {
+      id: payment.id,
+      invoiceId: payment.invoiceId,
+      amount: payment.amount.toNumber(),
+      paidAt: payment.paidAt,
+      method: payment.method,
+      reference: payment.reference,
+      notes: payment.notes,
+      createdAt: payment.createdAt
+    };
+  }
+
+  /**
+   * Récupère une facture en vérifiant qu'elle appartient au freelance
+   */
+  private async findOwnedInvoice(db: Prisma.TransactionClient | PrismaClient, userId: string, invoiceId: string) {
+    const invoice = await db.invoice.findFirst({
+      where: {
+        id: invoiceId,
+        userId
+      }
+    });
+
+    if (!invoice) {
+      throw new Error('Facture introuvable');
+    }
+
+    return invoice;
+  }
+
+  /**
+   * Verrouille la facture (SELECT ... FOR UPDATE) avant de contrôler son statut :
+   * un avoir ou une annulation simultanés attendent la fin de l'enregistrement
+   */
+  private async lockInvoice(tx: Prisma.TransactionClient, userId: string, invoiceId: string) {
+    await tx.$queryRaw`
+      SELECT id FROM "invoices" WHERE id = ${invoiceId} AND "userId" = ${userId} FOR UPDATE
+    `;
+
+    return this.findOwnedInvoice(tx, userId, invoiceId);
+  }
+
+  /**
+   * Paiements, solde et statut courant d'une facture
+   */
+  private async buildInvoicePayments(
+    db: Prisma.TransactionClient | PrismaClient,
+    userId: string,
+    invoiceId: string
+  ): Promise<InvoicePaymentsResponse> {
+    const [invoice, settlement, payments] = await Promise.all([
+      this.findOwnedInvoice(db, userId, invoiceId),
+      this.invoiceService.getSettlement(db, invoiceId),
+      db.payment.findMany({
+        where: { invoiceId },
+        orderBy: { paidAt: 'asc' }
+      })
+    ]);
+
+    return {
+      invoice: {
+        id: invoice.id,
+        number: invoice.number,
+        status: invoice.status,
+        paidAt: invoice.paidAt
+      },
+      balance: computeInvoiceBalance(invoice.total, settlement),
+      payments: payments.map(payment => this.formatPayment(payment))
+    };
+  }
+
+  /**
+   * Enregistrer un paiement (total ou partiel) sur une facture émise
+   * Le statut est recalculé : PAID dès que le solde est nul, le trop-perçu reste au crédit du client
+   */
+  async createPayment(
+    userId: string,
+    invoiceId: string,
+    data: CreatePaymentInput,
+    audit?: AuditContext
+  ): Promise<InvoicePaymentsResponse & { payment: PaymentResponse }> {
+    const startTime = Date.now();
+
+    try {
+      const paidAt = data.paidAt || new Date();
+
+      if (paidAt > new Date()) {
+        throw new Error('Invalid paidAt : la date de paiement ne peut pas être dans le futur');
+      }
+
+      const sanitizedData = sanitizeObjectXSS({
+        reference: data.reference || '',
+        notes: data.notes || ''
+      }, ['reference', 'notes']);
+
+      const result = await this.prisma.$transaction(async (tx) => {
+        const invoice = await this.lockInvoice(tx, userId, invoiceId);
+
+        if (invoice.type !== InvoiceType.INVOICE) {
+          throw new Error('Invalid invoice : un avoir ne peut pas recevoir de paiement');
+        }
+
+        if (invoice.status === InvoiceStatus.DRAFT) {
+          throw new Error('Invalid invoice : une facture brouillon doit être émise avant d\'être payée');
+        }
+
+        if (invoice.status === InvoiceStatus.CANCELLED) {
+          throw new Error('Facture déjà annulée');
+        }
+
+        const payment = await tx.payment.create({
+          data: {
+            invoiceId,
+            amount: new Prisma.Decimal(data.amount),
+            paidAt,
+            method: data.method,
+            reference: sanitizedData.reference || null,
+            notes: sanitizedData.notes || null
+          }
+        });
+
+        await writeAuditLog(tx, {
+          userId,
+          action: 'CREATE_PAYMENT',
+          resource: 'Payment',
+          resourceId: payment.id,
+          newValues: {
+            invoiceId,
+            amount: payment.amount.toFixed(2),
+            method: payment.method,
+            paidAt: payment.paidAt.toISOString()
+          },
+          ...audit
+        });
+
+        await this.invoiceService.syncPaymentStatus(tx, userId, invoiceId, audit);
+
+        return {
+          payment: this.formatPayment(payment),
+          ...await this.buildInvoicePayments(tx, userId, invoiceId)
+        };
+      });
+
+      const duration = Date.now() - startTime;
+
+      secureLogger.info('Paiement enregistré', {
+        userId,
+        invoiceId,
+        paymentId: result.payment.id,
+        status: result.invoice.status,
+        duration: `${duration}ms`
+      });
+
+      return result;
+
+    } catch (error) {
+      secureLogger.error('Erreur enregistrement paiement', {
+        userId,
+        invoiceId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Lister les paiements d'une facture avec son solde
+   */
+  async getPayments(userId: string, invoiceId: string): Promise<InvoicePaymentsResponse> {
+    try {
+      return await this.buildInvoicePayments(this.prisma, userId, invoiceId);
+
+    } catch (error) {
+      secureLogger.error('Erreur récupération paiements', {
+        userId,
+        invoiceId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Supprimer un paiement (saisie erronée, rejet bancaire) : la facture repasse en SENT ou OVERDUE
+   */
+  async deletePayment(
+    userId: string,
+    invoiceId: string,
+    paymentId: string,
+    audit?: AuditContext
+  ): Promise<InvoicePaymentsResponse> {
+    try {
+      const result = await this.prisma.$transaction(async (tx) => {
+        await this.lockInvoice(tx, userId, invoiceId);
+
+        const payment = await tx.payment.findFirst({
+          where: {
+            id: paymentId,
+            invoiceId
+          }
+        });
+
+        if (!payment) {
+          throw new Error('Paiement introuvable');
+        }
+
+        await tx.payment.delete({
+          where: { id: payment.id }
+        });
+
+        await writeAuditLog(tx, {
+          userId,
+          action: 'DELETE_PAYMENT',
+          resource: 'Payment',
+          resourceId: payment.id,
+          oldValues: {
+            invoiceId,
+            amount: payment.amount.toFixed(2),
+            method: payment.method,
+            paidAt: payment.paidAt.toISOString()
+          },
+          ...audit
+        });
+
+        await this.invoiceService.syncPaymentStatus(tx, userId, invoiceId, audit);
+
+        return this.buildInvoicePayments(tx, userId, invoiceId);
+      });
+
+      logSecurityEvent('DATA_ACCESS', {
+        userId,
+        severity: 'MEDIUM',
+        reason: 'Suppression paiement'
+      });
+
+      secureLogger.info('Paiement supprimé', {
+        userId,
+        invoiceId,
+        paymentId,
+        status: result.invoice.status
+      });
+
+      return result;
+
+    } catch (error) {
+      secureLogger.error('Erreur suppression paiement', {
+        userId,
+        invoiceId,
+        paymentId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Crédit client : cumul des trop-perçus sur ses factures émises
+   * (paiements au-delà du reste dû, ou paiements d'une facture ensuite annulée par avoir)
+   * Exprimé dans la devise du dashboard
+   */
+  async getClientCredit(userId: string, clientId: string): Promise<number> {
+    const [invoices, reporting] = await Promise.all([
+      this.prisma.invoice.findMany({
+        where: {
+          userId,
+          clientId,
+          type: InvoiceType.INVOICE,
+          number: { not: null }
+        },
+        select: {
+          total: true,
+          exchangeRate: true,
+          payments: { select: { amount: true } },
+          creditNotes: { select: { total: true } }
+        }
+      }),
+      this.exchangeRateService.getReportingCurrency(userId)
+    ]);
+
+    const zero = new Prisma.Decimal(0);
+
+    const overpayments = invoices.map(invoice => {
+      const { overpayment } = computeInvoiceBalance(invoice.total, {
+        paidAmount: invoice.payments.reduce((sum, payment) => sum.plus(payment.amount), zero),
+        creditedAmount: invoice.creditNotes.reduce((sum, creditNote) => sum.plus(creditNote.total), zero)
+      });
+
+      return { amount: new Prisma.Decimal(overpayment), exchangeRate: invoice.exchangeRate };
+    });
+
+    return sumInCurrency(overpayments, reporting.rate).toNumber();
+  }
+}
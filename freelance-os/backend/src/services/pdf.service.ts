@@ -0,0 +1,439 @@
+import fs from 'fs';
+import path from 'path';
+import puppeteer from 'puppeteer';
+import { Prisma, PrismaClient, InvoiceStatus, InvoiceType } from '@prisma/client';
+import { config } from '@/config/env';
+import { PdfDocumentData, PdfParty, PdfTemplateId } from '@/types/pdf.types';
+import { DEFAULT_FACTURX_PROFILE, FacturXProfile } from '@/types/facturx.types';
+import { DEFAULT_PDF_TEMPLATE, PDF_TEMPLATES, renderDocumentHtml } from '@/templates/pdf-templates';
+import { secureLogger } from '@/utils/secure-logger';
+import { decryptPII } from '@/utils/encryption';
+import { createSecurePath, PATH_SECURITY_CONFIG } from '@/utils/path-traversal-protection';
+import { buildFacturXXml } from '@/utils/facturx';
+import { validateFacturXXml } from '@/utils/facturx-validator';
+import { embedFacturX } from '@/utils/pdfa';
+import { computePenaltyRate } from '@/utils/late-penalties';
+
+const INVOICE_DOCUMENT_INCLUDE = {
+  items: true,
+  client: true,
+  user: true,
+  correctedInvoice: {
+    select: { number: true }
+  }
+} satisfies Prisma.InvoiceInclude;
+
+type InvoiceWithParties = Prisma.InvoiceGetPayload<{ include: typeof INVOICE_DOCUMENT_INCLUDE }>;
+
+const QUOTE_DOCUMENT_INCLUDE = {
+  items: true,
+  client: true,
+  user: true
+} satisfies Prisma.QuoteInclude;
+
+type QuoteWithParties = Prisma.QuoteGetPayload<{ include: typeof QUOTE_DOCUMENT_INCLUDE }>;
+
+export interface GeneratedPdf {
+  fileName: string;
+  relativePath: string;
+  content: Buffer;
+}
+
+export class PdfService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Utilitaire pour convertir l'émetteur ou le client en partie du document
+   */
+  private toParty(party: {
+    firstName?: string;
+    lastName?: string;
+    name?: string;
+    company: string | null;
+    siret: string | null;
+    tvaNumber: string | null;
+    address: string | null;
+    zipCode: string | null;
+    city: string | null;
+    country: string;
+    email: string | null;
+    phone: string | null;
+  }): PdfParty {
+    return {
+      name: party.name || `${party.firstName || ''} ${party.lastName || ''}`.trim(),
+      company: party.company,
+      siret: party.siret,
+      tvaNumber: party.tvaNumber,
+      address: party.address,
+      zipCode: party.zipCode,
+      city: party.city,
+      country: party.country,
+      email: party.email,
+      phone: party.phone
+    };
+  }
+
+  /**
+   * Utilitaire pour déchiffrer les PII d'un client
+   */
+  private decryptClient<T extends { email: string | null; phone: string | null; address: string | null; siret: string | null; tvaNumber: string | null }>(client: T): T {
+    return {
+      ...client,
+      email: client.email ? decryptPII(client.email) : client.email,
+      phone: client.phone ? decryptPII(client.phone) : client.phone,
+      address: client.address ? decryptPII(client.address) : client.address,
+      siret: client.siret ? decryptPII(client.siret) : client.siret,
+      tvaNumber: client.tvaNumber ? decryptPII(client.tvaNumber) : client.tvaNumber
+    };
+  }
+
+  /**
+   * Nom de fichier sûr à partir du numéro du document
+   */
+  private buildFileName(prefix: string, number: string | null, documentId: string): string {
+    const base = number ? number.replace(/[^A-Za-z0-9_-]/g, '-') : `brouillon-${documentId}`;
+    return `${prefix}-${base}.pdf`;
+  }
+
+  /**
+   * Facture de l'utilisateur avec lignes, client et émetteur
+   */
+  private async findInvoice(userId: string, invoiceId: string): Promise<InvoiceWithParties> {
+    const invoice = await this.prisma.invoice.findFirst({
+      where: {
+        id: invoiceId,
+        userId
+      },
+      include: INVOICE_DOCUMENT_INCLUDE
+    });
+
+    if (!invoice) {
+      throw new Error('Facture introuvable');
+    }
+
+    return invoice;
+  }
+
+  /**
+   * Données normalisées d'une facture (PDF et exports XML)
+   */
+  private toInvoiceDocumentData(invoice: InvoiceWithParties): PdfDocumentData {
+    const client = this.decryptClient(invoice.client);
+    const isCreditNote = invoice.type === InvoiceType.CREDIT_NOTE;
+
+    return {
+      kind: isCreditNote ? 'CREDIT_NOTE' : 'INVOICE',
+      number: invoice.number,
+      correctedInvoiceNumber: invoice.correctedInvoice?.number || null,
+      billingStage: invoice.billingStage,
+      issueDate: invoice.issueDate,
+      // Un avoir n'a pas d'échéance de paiement
+      dueDate: isCreditNote ? null : invoice.dueDate,
+      validUntil: null,
+      currency: invoice.currency,
+      notes: invoice.notes,
+      issuer: this.toParty(invoice.user),
+      client: this.toParty(client),
+      items: invoice.items.map(item => ({
+        description: item.description,
+        quantity: item.quantity.toNumber(),
+        unitPrice: item.unitPrice.toNumber(),
+        vatRate: item.vatRate.toNumber(),
+        total: item.total.toNumber()
+      })),
+      subtotal: invoice.subtotal.toNumber(),
+      vatRate: invoice.vatRate.toNumber(),
+      vatAmount: invoice.vatAmount.toNumber(),
+      total: invoice.total.toNumber(),
+      vatRegime: invoice.vatRegime,
+      exchangeRate: invoice.exchangeRate && invoice.exchangeRateDate
+        ? { rate: invoice.exchangeRate.toNumber(), date: invoice.exchangeRateDate }
+        : null,
+      latePenaltyRate: (
+        invoice.latePenaltyRate || computePenaltyRate(invoice.user.latePenaltyReferenceRate, invoice.user.latePenaltyMargin)
+      ).toNumber(),
+      paymentTermsDays: Math.max(
+        0,
+        Math.round((invoice.dueDate.getTime() - invoice.issueDate.getTime()) / (24 * 60 * 60 * 1000))
+      )
+    };
+  }
+
+  /**
+   * Données normalisées d'une facture pour les exports électroniques
+   */
+  async getInvoiceDocumentData(userId: string, invoiceId: string): Promise<PdfDocumentData> {
+    return this.toInvoiceDocumentData(await this.findInvoice(userId, invoiceId));
+  }
+
+  /**
+   * Rendu HTML → PDF avec Puppeteer (JavaScript désactivé, aucune ressource externe)
+   */
+  private async renderPdf(html: string): Promise<Buffer> {
+    const browser = await puppeteer.launch({
+      headless: 'new',
+      args: ['--no-sandbox', '--disable-setuid-sandbox'],
+      ...(config.PUPPETEER_EXECUTABLE_PATH && { executablePath: config.PUPPETEER_EXECUTABLE_PATH })
+    });
+
+    try {
+      const page = await browser.newPage();
+      await page.setJavaScriptEnabled(false);
+      await page.setContent(html, { waitUntil: 'load' });
+
+      return await page.pdf({
+        format: 'A4',
+        printBackground: true
+      });
+    } finally {
+      await browser.close();
+    }
+  }
+
+  /**
+   * Facture hybride Factur-X : XML validé contre le XSD du profil puis embarqué en PDF/A-3
+   */
+  private async toFacturX(data: PdfDocumentData, pdf: Buffer, profile: FacturXProfile): Promise<Buffer> {
+    const xml = buildFacturXXml(data, profile);
+    const validation = await validateFacturXXml(xml, profile);
+
+    if (!validation.valid) {
+      throw new Error(`Invalid Factur-X ${profile} : ${validation.errors[0] || 'XML non conforme au schéma'}`);
+    }
+
+    return embedFacturX(pdf, xml, {
+      title: `Facture ${data.number}`,
+      author: data.issuer.company || data.issuer.name,
+      subject: `Facture ${data.number} - ${data.client.company || data.client.name}`,
+      profile,
+      date: new Date()
+    });
+  }
+
+  /**
+   * Écrit le PDF dans le répertoire sécurisé des exports
+   */
+  private async storePdf(userId: string, folder: string, fileName: string, content: Buffer): Promise<string> {
+    const relativePath = `${folder}/${userId}/${fileName}`;
+    const fullPath = createSecurePath(PATH_SECURITY_CONFIG.secureDirectories.exports, relativePath);
+
+    if (!fullPath) {
+      throw new Error('Invalid path : chemin d\'export non autorisé');
+    }
+
+    await fs.promises.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.promises.writeFile(fullPath, content);
+
+    return relativePath;
+  }
+
+  /**
+   * Relit un PDF déjà généré (null s'il a disparu du disque)
+   */
+  private async readStoredPdf(relativePath: string): Promise<Buffer | null> {
+    const fullPath = createSecurePath(PATH_SECURITY_CONFIG.secureDirectories.exports, relativePath);
+    if (!fullPath) return null;
+
+    try {
+      return await fs.promises.readFile(fullPath);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Template choisi par le freelance (ou template par défaut)
+   */
+  async getUserTemplate(userId: string): Promise<PdfTemplateId> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { pdfTemplate: true }
+    });
+
+    const template = user?.pdfTemplate as PdfTemplateId | undefined;
+    return template && template in PDF_TEMPLATES ? template : DEFAULT_PDF_TEMPLATE;
+  }
+
+  /**
+   * Définir le template par défaut du freelance
+   */
+  async setUserTemplate(userId: string, template: PdfTemplateId): Promise<PdfTemplateId> {
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { pdfTemplate: template }
+    });
+
+    secureLogger.info('Template PDF mis à jour', { userId, template });
+
+    return template;
+  }
+
+  /**
+   * Générer (ou relire) le PDF d'une facture
+   * Une facture émise est produite au format Factur-X (PDF/A-3 + XML) et n'est régénérée
+   * que si son fichier manque ou si un autre template ou profil est demandé
+   */
+  async generateInvoicePdf(
+    userId: string,
+    invoiceId: string,
+    templateId?: PdfTemplateId,
+    profile?: FacturXProfile
+  ): Promise<GeneratedPdf> {
+    const startTime = Date.now();
+
+    try {
+      const invoice = await this.findInvoice(userId, invoiceId);
+
+      const fileName = this.buildFileName(invoice.type === InvoiceType.CREDIT_NOTE ? 'avoir' : 'facture', invoice.number, invoice.id);
+
+      if (invoice.pdfPath && invoice.status !== InvoiceStatus.DRAFT && !templateId && !profile) {
+        const stored = await this.readStoredPdf(invoice.pdfPath);
+        if (stored) {
+          return { fileName, relativePath: invoice.pdfPath, content: stored };
+        }
+      }
+
+      const data = this.toInvoiceDocumentData(invoice);
+
+      const template = templateId || await this.getUserTemplate(userId);
+      const rendered = await this.renderPdf(renderDocumentHtml(data, template));
+
+      // Un brouillon non numéroté reste un simple PDF de prévisualisation
+      const facturXProfile = invoice.number ? profile || DEFAULT_FACTURX_PROFILE : null;
+      const content = facturXProfile ? await this.toFacturX(data, rendered, facturXProfile) : rendered;
+      const relativePath = await this.storePdf(userId, 'invoices', fileName, content);
+
+      await this.prisma.invoice.update({
+        where: { id: invoice.id },
+        data: { pdfPath: relativePath }
+      });
+
+      const duration = Date.now() - startTime;
+
+      secureLogger.info('PDF facture généré', {
+        userId,
+        invoiceId,
+        template,
+        facturXProfile,
+        size: content.length,
+        duration: `${duration}ms`
+      });
+
+      return { fileName, relativePath, content };
+
+    } catch (error) {
+      secureLogger.error('Erreur génération PDF facture', {
+        userId,
+        invoiceId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Devis de l'utilisateur avec lignes, client et émetteur
+   */
+  private async findQuote(userId: string, quoteId: string): Promise<QuoteWithParties> {
+    const quote = await this.prisma.quote.findFirst({
+      where: {
+        id: quoteId,
+        userId
+      },
+      include: QUOTE_DOCUMENT_INCLUDE
+    });
+
+    if (!quote) {
+      throw new Error('Devis introuvable');
+    }
+
+    return quote;
+  }
+
+  /**
+   * Données normalisées d'un devis (PDF et page d'acceptation en ligne)
+   */
+  private toQuoteDocumentData(quote: QuoteWithParties): PdfDocumentData {
+    const client = this.decryptClient(quote.client);
+
+    return {
+      kind: 'QUOTE',
+      number: quote.number,
+      correctedInvoiceNumber: null,
+      billingStage: null,
+      issueDate: quote.issueDate,
+      dueDate: null,
+      validUntil: quote.validUntil,
+      currency: quote.currency,
+      notes: quote.notes,
+      issuer: this.toParty(quote.user),
+      client: this.toParty(client),
+      items: quote.items.map(item => ({
+        description: item.description,
+        quantity: item.quantity.toNumber(),
+        unitPrice: item.unitPrice.toNumber(),
+        vatRate: item.vatRate.toNumber(),
+        total: item.total.toNumber()
+      })),
+      subtotal: quote.subtotal.toNumber(),
+      vatRate: quote.vatRate.toNumber(),
+      vatAmount: quote.vatAmount.toNumber(),
+      total: quote.total.toNumber(),
+      vatRegime: quote.vatRegime,
+      exchangeRate: null,
+      latePenaltyRate: computePenaltyRate(quote.user.latePenaltyReferenceRate, quote.user.latePenaltyMargin).toNumber(),
+      paymentTermsDays: client.paymentTerms
+    };
+  }
+
+  /**
+   * Données normalisées d'un devis pour la page d'acceptation en ligne
+   */
+  async getQuoteDocumentData(userId: string, quoteId: string): Promise<PdfDocumentData> {
+    return this.toQuoteDocumentData(await this.findQuote(userId, quoteId));
+  }
+
+  /**
+   * Générer le PDF d'un devis
+   */
+  async generateQuotePdf(userId: string, quoteId: string, templateId?: PdfTemplateId): Promise<GeneratedPdf> {
+    const startTime = Date.now();
+
+    try {
+      const quote = await this.findQuote(userId, quoteId);
+      const data = this.toQuoteDocumentData(quote);
+      const fileName = this.buildFileName('devis', quote.number, quote.id);
+
+      const template = templateId || await this.getUserTemplate(userId);
+      const content = await this.renderPdf(renderDocumentHtml(data, template));
+      const relativePath = await this.storePdf(userId, 'quotes', fileName, content);
+
+      await this.prisma.quote.update({
+        where: { id: quote.id },
+        data: { pdfPath: relativePath }
+      });
+
+      const duration = Date.now() - startTime;
+
+      secureLogger.info('PDF devis généré', {
+        userId,
+        quoteId,
+        template,
+        size: content.length,
+        duration: `${duration}ms`
+      });
+
+      return { fileName, relativePath, content };
+
+    } catch (error) {
+      secureLogger.error('Erreur génération PDF devis', {
+        userId,
+        quoteId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,306 @@
+import { PrismaClient, Prisma, InvoiceStatus, InvoiceType, NotificationType, Notification, ProjectStatus } from '@prisma/client';
+import { ProjectBudgetResponse } from '@/types/project.types';
+import { BoardService } from '@/services/board.service';
+import { NotificationService } from '@/services/notification.service';
+import { secureLogger } from '@/utils/secure-logger';
+import { computeProjectAggregates, isProjectOpen } from '@/utils/project-lifecycle';
+import {
+  computeBurnRate,
+  effectiveHourlyRate,
+  invoicedProjectAmount,
+  loggedTimeValue,
+  normalizeThresholds,
+  projectedOverrunDate,
+  reachedThresholds
+} from '@/utils/project-budget';
+import { formatDate, formatMoney } from '@/templates/pdf-templates';
+
+type Db = Prisma.TransactionClient | PrismaClient;
+
+// Factures émises non annulées : le temps rattaché à un brouillon n'est pas encore facturé
+const INVOICED_STATUSES: InvoiceStatus[] = [InvoiceStatus.SENT, InvoiceStatus.PAID, InvoiceStatus.OVERDUE];
+
+// Budget et taux affichés dans les alertes : montants HT, en euros
+const ALERT_CURRENCY = 'EUR';
+
+export class ProjectBudgetService {
+  private boardService: BoardService;
+  private notificationService: NotificationService;
+
+  constructor(private prisma: PrismaClient) {
+    this.boardService = new BoardService(prisma);
+    this.notificationService = new NotificationService(prisma);
+  }
+
+  /**
+   * Temps saisi sur le projet ou l'une de ses tâches
+   */
+  private async loadEntries(db: Db, projectId: string) {
+    return db.timeEntry.findMany({
+      where: {
+        OR: [
+          { projectId },
+          { task: { projectId } }
+        ]
+      },
+      select: {
+        duration: true,
+        hourlyRate: true,
+        startTime: true
+      }
+    });
+  }
+
+  /**
+   * Montant facturé HT (en euros) du temps du projet : factures émises qui portent ses créneaux,
+   * nettes de leurs avoirs émis (voir invoicedProjectAmount)
+   */
+  private async getInvoicedAmount(db: Db, projectId: string): Promise<Prisma.Decimal> {
+    const invoices = await db.invoice.findMany({
+      where: {
+        type: InvoiceType.INVOICE,
+        number: { not: null },
+        status: { in: INVOICED_STATUSES },
+        timeEntries: {
+          some: {
+            OR: [
+              { projectId },
+              { task: { projectId } }
+            ]
+          }
+        }
+      },
+      select: {
+        subtotal: true,
+        exchangeRate: true,
+        creditNotes: {
+          where: { number: { not: null } },
+          select: { subtotal: true }
+        },
+        timeEntries: {
+          select: {
+            duration: true,
+            hourlyRate: true,
+            projectId: true,
+            project: { select: { hourlyRate: true } },
+            task: { select: { projectId: true, project: { select: { hourlyRate: true } } } }
+          }
+        }
+      }
+    });
+
+    return invoicedProjectAmount(invoices.map(invoice => {
+      // Chaque créneau est valorisé au taux de son propre projet
+      const values = invoice.timeEntries.map(entry => ({
+        inProject: (entry.projectId ?? entry.task?.projectId) === projectId,
+        value: loggedTimeValue(entry.project?.hourlyRate ?? entry.task?.project.hourlyRate ?? null, [entry])
+      }));
+
+      return {
+        subtotal: invoice.subtotal,
+        creditedSubtotal: invoice.creditNotes.reduce((total, note) => total.plus(note.subtotal), new Prisma.Decimal(0)),
+        exchangeRate: invoice.exchangeRate,
+        projectValue: values
+          .filter(entry => entry.inProject)
+          .reduce((total, entry) => total.plus(entry.value), new Prisma.Decimal(0)),
+        totalValue: values.reduce((total, entry) => total.plus(entry.value), new Prisma.Decimal(0))
+      };
+    }));
+  }
+
+  private async getThresholds(db: Db, userId: string): Promise<number[]> {
+    const user = await db.user.findUnique({
+      where: { id: userId },
+      select: { budgetAlertThresholds: true }
+    });
+
+    return normalizeThresholds(user?.budgetAlertThresholds ?? []);
+  }
+
+  /**
+   * Budget consommé, rythme de consommation, dépassement prévisionnel et rentabilité d'un projet
+   */
+  async getProjectBudget(userId: string, projectId: string, now: Date = new Date()): Promise<ProjectBudgetResponse> {
+    try {
+      const project = await this.prisma.project.findFirst({
+        where: {
+          id: projectId,
+          userId
+        },
+        include: {
+          budgetAlerts: {
+            orderBy: { threshold: 'asc' }
+          }
+        }
+      });
+
+      if (!project) {
+        throw new Error('Projet introuvable');
+      }
+
+      const [entries, alertThresholds, invoiced] = await Promise.all([
+        this.loadEntries(this.prisma, project.id),
+        this.getThresholds(this.prisma, userId),
+        this.getInvoicedAmount(this.prisma, project.id)
+      ]);
+
+      const aggregates = computeProjectAggregates(project, entries);
+      const burnRate = computeBurnRate(project, entries, now);
+      const overrunDate = projectedOverrunDate(aggregates.remainingBudget, burnRate.amountPerDay, now);
+
+      return {
+        projectId: project.id,
+        budget: aggregates.budget,
+        hourlyRate: project.hourlyRate ? project.hourlyRate.toNumber() : null,
+        budgetConsumed: aggregates.budgetConsumed,
+        remainingBudget: aggregates.remainingBudget,
+        budgetConsumedPercent: aggregates.budgetConsumedPercent,
+        hoursLogged: aggregates.hoursLogged,
+        unpricedMinutes: aggregates.unpricedMinutes,
+        burnRate,
+        projectedOverrunDate: overrunDate,
+        overrunBeforeDeadline: overrunDate && project.deadline ? overrunDate < project.deadline : null,
+        invoicedAmount: invoiced.toNumber(),
+        effectiveHourlyRate: effectiveHourlyRate(invoiced, aggregates.minutesLogged),
+        alertThresholds,
+        alerts: project.budgetAlerts.map(alert => ({
+          threshold: alert.threshold,
+          consumed: alert.consumed.toNumber(),
+          triggeredAt: alert.createdAt
+        }))
+      };
+
+    } catch (error) {
+      secureLogger.error('Erreur suivi budget projet', {
+        userId,
+        projectId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Déclencher les alertes budget d'un projet ouvert
+   * Chaque seuil atteint n'alerte qu'une fois ; un seuil repassé sous la consommation est réarmé.
+   * Si plusieurs seuils sont franchis d'un coup, une seule notification signale le plus élevé.
+   * Retourne le nombre de seuils nouvellement franchis
+   */
+  async checkBudgetAlerts(userId: string, projectId: string, now: Date = new Date()): Promise<number> {
+    try {
+      const result = await this.prisma.$transaction(async (tx) => {
+        const project = await this.boardService.lockProject(tx, userId, projectId);
+
+        if (!isProjectOpen(project.status)) {
+          return { crossed: [] as number[], notification: null as Notification | null };
+        }
+
+        const [entries, thresholds, existingAlerts] = await Promise.all([
+          this.loadEntries(tx, project.id),
+          this.getThresholds(tx, userId),
+          tx.projectBudgetAlert.findMany({
+            where: { projectId: project.id }
+          })
+        ]);
+
+        const aggregates = computeProjectAggregates(project, entries);
+        const consumed = new Prisma.Decimal(aggregates.budgetConsumed);
+        const reached = reachedThresholds(project.budget, consumed, thresholds);
+
+        const rearmed = existingAlerts.filter(alert => !reached.includes(alert.threshold));
+        if (rearmed.length > 0) {
+          await tx.projectBudgetAlert.deleteMany({
+            where: { id: { in: rearmed.map(alert => alert.id) } }
+          });
+        }
+
+        const alreadyFired = new Set(existingAlerts.map(alert => alert.threshold));
+        const crossed = reached.filter(threshold => !alreadyFired.has(threshold));
+        const highest = crossed[crossed.length - 1];
+
+        if (!project.budget || highest === undefined) {
+          return { crossed, notification: null };
+        }
+
+        await tx.projectBudgetAlert.createMany({
+          data: crossed.map(threshold => ({
+            projectId: project.id,
+            threshold,
+            consumed
+          }))
+        });
+
+        const burnRate = computeBurnRate(project, entries, now);
+        const overrunDate = projectedOverrunDate(aggregates.remainingBudget, burnRate.amountPerDay, now);
+
+        const outlook = overrunDate
+          ? ` Au rythme des ${burnRate.windowDays} derniers jours, le budget sera épuisé le ${formatDate(overrunDate)}.`
+          : consumed.greaterThan(project.budget)
+            ? ` Dépassement : ${formatMoney(consumed.minus(project.budget).toNumber(), ALERT_CURRENCY)} HT.`
+            : '';
+
+        const notification = await this.notificationService.createNotification(tx, userId, {
+          type: NotificationType.BUDGET_ALERT,
+          title: `Budget du projet ${project.name} consommé à ${highest} %`,
+          message: `Le projet ${project.name} a consommé ${formatMoney(aggregates.budgetConsumed, ALERT_CURRENCY)} HT ` +
+            `sur un budget de ${formatMoney(project.budget.toNumber(), ALERT_CURRENCY)} HT ` +
+            `(${aggregates.budgetConsumedPercent} %).${outlook}`,
+          projectId: project.id
+        });
+
+        return { crossed, notification };
+      });
+
+      if (result.notification) {
+        await this.notificationService.sendByEmail(result.notification);
+
+        secureLogger.info('Alerte budget projet', {
+          userId,
+          projectId,
+          thresholds: result.crossed
+        });
+      }
+
+      return result.crossed.length;
+
+    } catch (error) {
+      secureLogger.error('Erreur alertes budget projet', {
+        userId,
+        projectId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Contrôler les alertes budget de tous les projets ouverts avec un budget (tâche planifiée)
+   */
+  async checkAllBudgetAlerts(now: Date = new Date()): Promise<number> {
+    const candidates = await this.prisma.project.findMany({
+      where: {
+        status: { in: [ProjectStatus.ACTIVE, ProjectStatus.ON_HOLD] },
+        budget: { gt: 0 }
+      },
+      select: { id: true, userId: true }
+    });
+
+    let crossed = 0;
+
+    for (const candidate of candidates) {
+      try {
+        crossed += await this.checkBudgetAlerts(candidate.userId, candidate.id, now);
+      } catch {
+        // Déjà journalisé : on passe au projet suivant
+      }
+    }
+
+    if (crossed > 0) {
+      secureLogger.info('Alertes budget déclenchées', { count: crossed });
+    }
+
+    return crossed;
+  }
+}
@@ -0,0 +1,427 @@
+import { PrismaClient, Prisma, ProjectStatus } from '@prisma/client';
+import {
+  CreateProjectTemplateInput,
+  InstantiateProjectTemplateInput,
+  ProjectTemplateResponse,
+  SaveProjectAsTemplateInput,
+  UpdateProjectTemplateInput
+} from '@/types/project-template.types';
+import { ProjectResponse } from '@/types/project.types';
+import { ProjectService } from '@/services/project.service';
+import { BoardService } from '@/services/board.service';
+import { secureLogger, logSecurityEvent } from '@/utils/secure-logger';
+import { sanitizeObjectXSS } from '@/utils/xss-protection';
+import {
+  MAX_TEMPLATE_TASKS,
+  TemplateTask,
+  dayOffset,
+  shiftDate,
+  templateTasksFromProject
+} from '@/utils/project-templates';
+
+// Tâches chargées avec chaque modèle, dans l'ordre d'affichage
+const TEMPLATE_INCLUDE = {
+  tasks: {
+    orderBy: { sortOrder: 'asc' }
+  }
+} satisfies Prisma.ProjectTemplateInclude;
+
+type TemplateWithTasks = Prisma.ProjectTemplateGetPayload<{ include: typeof TEMPLATE_INCLUDE }>;
+
+// Tâche saisie pour un modèle (priorité par défaut appliquée par la validation)
+type TemplateTaskInput = Omit<TemplateTask, 'description' | 'dueOffsetDays'> & {
+  description?: string | null | undefined;
+  dueOffsetDays?: number | null | undefined;
+};
+
+export class ProjectTemplateService {
+  private projectService: ProjectService;
+  private boardService: BoardService;
+
+  constructor(private prisma: PrismaClient) {
+    this.projectService = new ProjectService(prisma);
+    this.boardService = new BoardService(prisma);
+  }
+
+  /**
+   * Utilitaire pour sérialiser un modèle (Decimal → number)
+   */
+  private formatTemplate(template: TemplateWithTasks): ProjectTemplateResponse {
+    const { userId: _userId, ...rest } = template;
+
+    return {
+      ...rest,
+      budget: template.budget ? template.budget.toNumber() : null,
+      hourlyRate: template.hourlyRate ? template.hourlyRate.toNumber() : null,
+      tasks: template.tasks.map(({ templateId: _templateId, ...task }) => task)
+    };
+  }
+
+  private async findOwnedTemplate(userId: string, templateId: string): Promise<TemplateWithTasks> {
+    const template = await this.prisma.projectTemplate.findFirst({
+      where: {
+        id: templateId,
+        userId
+      },
+      include: TEMPLATE_INCLUDE
+    });
+
+    if (!template) {
+      throw new Error('Modèle introuvable');
+    }
+
+    return template;
+  }
+
+  /**
+   * Tâches nettoyées et numérotées dans l'ordre reçu
+   */
+  private templateTasksData(tasks: TemplateTaskInput[]): Prisma.ProjectTemplateTaskCreateWithoutTemplateInput[] {
+    return tasks.map((task, index) => {
+      const sanitized = sanitizeObjectXSS({
+        title: task.title,
+        description: task.description || ''
+      }, ['title', 'description']);
+
+      return {
+        title: sanitized.title,
+        description: sanitized.description || null,
+        priority: task.priority,
+        dueOffsetDays: task.dueOffsetDays ?? null,
+        sortOrder: index
+      };
+    });
+  }
+
+  /**
+   * Lister les modèles du freelance (par nom)
+   */
+  async getTemplates(userId: string): Promise<ProjectTemplateResponse[]> {
+    try {
+      const templates = await this.prisma.projectTemplate.findMany({
+        where: { userId },
+        orderBy: { name: 'asc' },
+        include: TEMPLATE_INCLUDE
+      });
+
+      return templates.map(template => this.formatTemplate(template));
+
+    } catch (error) {
+      secureLogger.error('Erreur récupération modèles de projet', {
+        userId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Récupérer un modèle
+   */
+  async getTemplateById(userId: string, templateId: string): Promise<ProjectTemplateResponse> {
+    try {
+      return this.formatTemplate(await this.findOwnedTemplate(userId, templateId));
+
+    } catch (error) {
+      secureLogger.error('Erreur récupération modèle de projet', {
+        userId,
+        templateId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Créer un modèle de projet
+   */
+  async createTemplate(userId: string, data: CreateProjectTemplateInput): Promise<ProjectTemplateResponse> {
+    try {
+      const sanitizedData = sanitizeObjectXSS({
+        name: data.name,
+        description: data.description || ''
+      }, ['name', 'description']);
+
+      const template = await this.prisma.projectTemplate.create({
+        data: {
+          userId,
+          name: sanitizedData.name,
+          description: sanitizedData.description || null,
+          budget: data.budget ?? null,
+          hourlyRate: data.hourlyRate ?? null,
+          deadlineOffsetDays: data.deadlineOffsetDays ?? null,
+          tasks: {
+            create: this.templateTasksData(data.tasks)
+          }
+        },
+        include: TEMPLATE_INCLUDE
+      });
+
+      secureLogger.info('Nouveau modèle de projet créé', {
+        userId,
+        templateId: template.id,
+        tasksCount: template.tasks.length
+      });
+
+      return this.formatTemplate(template);
+
+    } catch (error) {
+      secureLogger.error('Erreur création modèle de projet', {
+        userId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Enregistrer un projet existant comme modèle : tâches, budget, taux horaire
+   * et échéances converties en jours après le démarrage du projet
+   */
+  async saveProjectAsTemplate(
+    userId: string,
+    projectId: string,
+    data: SaveProjectAsTemplateInput
+  ): Promise<ProjectTemplateResponse> {
+    try {
+      const project = await this.prisma.project.findFirst({
+        where: {
+          id: projectId,
+          userId
+        },
+        include: { tasks: true }
+      });
+
+      if (!project) {
+        throw new Error('Projet introuvable');
+      }
+
+      const tasks = templateTasksFromProject(project.startDate, project.tasks);
+
+      if (tasks.length > MAX_TEMPLATE_TASKS) {
+        throw new Error(`Invalid tasks : un modèle ne peut pas dépasser ${MAX_TEMPLATE_TASKS} tâches`);
+      }
+
+      const sanitizedData = sanitizeObjectXSS({
+        name: data.name ?? project.name,
+        description: data.description ?? project.description ?? ''
+      }, ['name', 'description']);
+
+      const template = await this.prisma.projectTemplate.create({
+        data: {
+          userId,
+          name: sanitizedData.name,
+          description: sanitizedData.description || null,
+          budget: project.budget,
+          hourlyRate: project.hourlyRate,
+          deadlineOffsetDays: dayOffset(project.startDate, project.deadline),
+          tasks: {
+            create: this.templateTasksData(tasks)
+          }
+        },
+        include: TEMPLATE_INCLUDE
+      });
+
+      secureLogger.info('Projet enregistré comme modèle', {
+        userId,
+        projectId,
+        templateId: template.id,
+        tasksCount: template.tasks.length
+      });
+
+      return this.formatTemplate(template);
+
+    } catch (error) {
+      secureLogger.error('Erreur enregistrement projet comme modèle', {
+        userId,
+        projectId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Mettre à jour un modèle (les tâches transmises remplacent toutes les tâches)
+   * Les projets déjà créés depuis le modèle ne changent pas
+   */
+  async updateTemplate(
+    userId: string,
+    templateId: string,
+    data: UpdateProjectTemplateInput
+  ): Promise<ProjectTemplateResponse> {
+    try {
+      const existingTemplate = await this.findOwnedTemplate(userId, templateId);
+
+      const updateData: Prisma.ProjectTemplateUpdateInput = {};
+
+      if (data.name !== undefined) {
+        updateData.name = sanitizeObjectXSS({ name: data.name }, ['name']).name;
+      }
+
+      if (data.description !== undefined) {
+        updateData.description = sanitizeObjectXSS({ description: data.description }, ['description']).description || null;
+      }
+
+      if (data.budget !== undefined) updateData.budget = data.budget;
+      if (data.hourlyRate !== undefined) updateData.hourlyRate = data.hourlyRate;
+      if (data.deadlineOffsetDays !== undefined) updateData.deadlineOffsetDays = data.deadlineOffsetDays;
+
+      if (data.tasks !== undefined) {
+        updateData.tasks = {
+          deleteMany: {},
+          create: this.templateTasksData(data.tasks)
+        };
+      }
+
+      const template = await this.prisma.projectTemplate.update({
+        where: { id: existingTemplate.id },
+        data: updateData,
+        include: TEMPLATE_INCLUDE
+      });
+
+      secureLogger.info('Modèle de projet mis à jour', {
+        userId,
+        templateId,
+        updatedFields: Object.keys(updateData)
+      });
+
+      return this.formatTemplate(template);
+
+    } catch (error) {
+      secureLogger.error('Erreur mise à jour modèle de projet', {
+        userId,
+        templateId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Supprimer un modèle (sans effet sur les projets créés depuis ce modèle)
+   */
+  async deleteTemplate(userId: string, templateId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const existingTemplate = await this.findOwnedTemplate(userId, templateId);
+
+      await this.prisma.projectTemplate.delete({
+        where: { id: existingTemplate.id }
+      });
+
+      logSecurityEvent('DATA_ACCESS', {
+        userId,
+        severity: 'LOW',
+        reason: 'Suppression modèle de projet'
+      });
+
+      secureLogger.info('Modèle de projet supprimé', {
+        userId,
+        templateId
+      });
+
+      return {
+        success: true,
+        message: 'Modèle supprimé avec succès'
+      };
+
+    } catch (error) {
+      secureLogger.error('Erreur suppression modèle de projet', {
+        userId,
+        templateId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Créer un projet depuis un modèle, pour un client et une date de démarrage
+   * L'échéance du projet et celles des tâches sont décalées depuis cette date
+   */
+  async instantiateTemplate(
+    userId: string,
+    templateId: string,
+    data: InstantiateProjectTemplateInput
+  ): Promise<ProjectResponse> {
+    const startTime = Date.now();
+
+    try {
+      const template = await this.findOwnedTemplate(userId, templateId);
+
+      if (data.clientId) {
+        const client = await this.prisma.client.findFirst({
+          where: {
+            id: data.clientId,
+            userId
+          },
+          select: { id: true }
+        });
+
+        if (!client) {
+          throw new Error('Client introuvable');
+        }
+      }
+
+      // Projet et tâches créés ensemble, les tâches rangées dans l'ordre du modèle sur le tableau
+      const project = await this.prisma.$transaction(async (tx) => {
+        const created = await tx.project.create({
+          data: {
+            userId,
+            clientId: data.clientId ?? null,
+            name: data.name ? sanitizeObjectXSS({ name: data.name }, ['name']).name : template.name,
+            description: template.description,
+            startDate: data.startDate,
+            deadline: shiftDate(data.startDate, template.deadlineOffsetDays),
+            budget: template.budget,
+            hourlyRate: template.hourlyRate,
+            status: ProjectStatus.ACTIVE
+          }
+        });
+
+        const placements = await this.boardService.placeNewTasks(tx, created, template.tasks.length);
+
+        await tx.task.createMany({
+          data: template.tasks.map((task, index) => ({
+            projectId: created.id,
+            title: task.title,
+            description: task.description,
+            priority: task.priority,
+            dueDate: shiftDate(data.startDate, task.dueOffsetDays),
+            ...placements[index]
+          }))
+        });
+
+        return created;
+      });
+
+      const duration = Date.now() - startTime;
+
+      secureLogger.info('Projet créé depuis un modèle', {
+        userId,
+        templateId,
+        projectId: project.id,
+        clientId: data.clientId ?? null,
+        tasksCount: template.tasks.length,
+        duration: `${duration}ms`
+      });
+
+      return await this.projectService.getProjectById(userId, project.id);
+
+    } catch (error) {
+      secureLogger.error('Erreur création projet depuis un modèle', {
+        userId,
+        templateId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+}
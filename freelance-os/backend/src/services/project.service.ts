@@ -0,0 +1,785 @@
+import { PrismaClient, Prisma, Project, ProjectStatus, Task } from '@prisma/client';
+import {
+  CreateProjectInput,
+  CreateTaskInput,
+  ProjectListResponse,
+  ProjectQueryParams,
+  ProjectResponse,
+  ProjectStatsResponse,
+  TaskQueryParams,
+  TaskResponse,
+  UpdateProjectInput,
+  UpdateTaskInput
+} from '@/types/project.types';
+import { secureLogger, logSecurityEvent } from '@/utils/secure-logger';
+import { sanitizeObjectXSS } from '@/utils/xss-protection';
+import { assertProjectTransition, computeProjectAggregates, isProjectOpen } from '@/utils/project-lifecycle';
+import { AuditContext, writeAuditLog } from '@/utils/audit-log';
+import { BoardService } from '@/services/board.service';
+import { ProjectBudgetService } from '@/services/project-budget.service';
+
+// Relations chargées avec chaque projet
+const PROJECT_INCLUDE = {
+  client: {
+    select: { id: true, name: true, company: true }
+  },
+  tasks: {
+    select: { completedAt: true }
+  }
+} satisfies Prisma.ProjectInclude;
+
+type ProjectWithRelations = Prisma.ProjectGetPayload<{ include: typeof PROJECT_INCLUDE }>;
+
+// Dates à contrôler ensemble (création ou état du projet après modification)
+interface ProjectDates {
+  startDate: Date;
+  endDate: Date | null;
+  deadline: Date | null;
+}
+
+export class ProjectService {
+  private boardService: BoardService;
+  private projectBudgetService: ProjectBudgetService;
+
+  constructor(private prisma: PrismaClient) {
+    this.boardService = new BoardService(prisma);
+    this.projectBudgetService = new ProjectBudgetService(prisma);
+  }
+
+  /**
+   * Utilitaire pour sérialiser un projet (Decimal → number)
+   */
+  private formatProject(project: ProjectWithRelations): ProjectResponse {
+    const { tasks, ...rest } = project;
+
+    return {
+      ...rest,
+      budget: project.budget ? project.budget.toNumber() : null,
+      hourlyRate: project.hourlyRate ? project.hourlyRate.toNumber() : null,
+      tasksCount: tasks.length,
+      completedTasksCount: tasks.filter(task => task.completedAt).length
+    };
+  }
+
+  /**
+   * Récupère un projet du freelance (erreur "introuvable" sinon)
+   */
+  private async findOwnedProject(userId: string, projectId: string): Promise<ProjectWithRelations> {
+    const project = await this.prisma.project.findFirst({
+      where: {
+        id: projectId,
+        userId
+      },
+      include: PROJECT_INCLUDE
+    });
+
+    if (!project) {
+      throw new Error('Projet introuvable');
+    }
+
+    return project;
+  }
+
+  /**
+   * Récupère une tâche d'un projet du freelance
+   */
+  private async findOwnedTask(userId: string, projectId: string, taskId: string): Promise<Task> {
+    const task = await this.prisma.task.findFirst({
+      where: {
+        id: taskId,
+        projectId,
+        project: { userId }
+      }
+    });
+
+    if (!task) {
+      throw new Error('Tâche introuvable');
+    }
+
+    return task;
+  }
+
+  /**
+   * Vérifie que le client rattaché appartient bien au freelance
+   */
+  private async assertOwnedClient(userId: string, clientId: string): Promise<void> {
+    const client = await this.prisma.client.findFirst({
+      where: {
+        id: clientId,
+        userId
+      },
+      select: { id: true }
+    });
+
+    if (!client) {
+      throw new Error('Client introuvable');
+    }
+  }
+
+  private assertProjectDates({ startDate, endDate, deadline }: ProjectDates): void {
+    if (endDate && endDate < startDate) {
+      throw new Error('Invalid endDate : la date de fin doit être postérieure à la date de début');
+    }
+
+    if (deadline && deadline < startDate) {
+      throw new Error('Invalid deadline : l\'échéance doit être postérieure à la date de début');
+    }
+  }
+
+  /**
+   * Les tâches d'un projet terminé ou annulé sont figées
+   */
+  private assertProjectOpen(project: Project): void {
+    if (!isProjectOpen(project.status)) {
+      throw new Error(`Projet déjà clôturé (${project.status}) : réouvrez-le pour modifier ses tâches`);
+    }
+  }
+
+  /**
+   * Temps saisis sur le projet, directement ou via l'une de ses tâches
+   */
+  private timeEntriesWhere(projectId: string): Prisma.TimeEntryWhereInput {
+    return {
+      OR: [
+        { projectId },
+        { task: { projectId } }
+      ]
+    };
+  }
+
+  /**
+   * Créer un projet
+   */
+  async createProject(userId: string, data: CreateProjectInput): Promise<ProjectResponse> {
+    const startTime = Date.now();
+
+    try {
+      if (data.clientId) {
+        await this.assertOwnedClient(userId, data.clientId);
+      }
+
+      const sanitizedData = sanitizeObjectXSS({
+        name: data.name,
+        description: data.description || ''
+      }, ['name', 'description']);
+
+      const startDate = data.startDate || new Date();
+      this.assertProjectDates({ startDate, endDate: data.endDate ?? null, deadline: data.deadline ?? null });
+
+      const project = await this.prisma.project.create({
+        data: {
+          userId,
+          clientId: data.clientId ?? null,
+          name: sanitizedData.name,
+          description: sanitizedData.description || null,
+          startDate,
+          endDate: data.endDate ?? null,
+          deadline: data.deadline ?? null,
+          budget: data.budget ?? null,
+          hourlyRate: data.hourlyRate ?? null,
+          status: ProjectStatus.ACTIVE
+        },
+        include: PROJECT_INCLUDE
+      });
+
+      const duration = Date.now() - startTime;
+
+      secureLogger.info('Nouveau projet créé', {
+        projectId: project.id,
+        clientId: project.clientId,
+        userId,
+        duration: `${duration}ms`
+      });
+
+      return this.formatProject(project);
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      secureLogger.error('Erreur création projet', {
+        userId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue',
+        duration: `${duration}ms`
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Récupérer tous les projets d'un freelance
+   */
+  async getProjects(userId: string, params: Partial<ProjectQueryParams> = {}): Promise<ProjectListResponse> {
+    const startTime = Date.now();
+
+    try {
+      const {
+        page = 1,
+        limit = 20,
+        search,
+        status,
+        clientId,
+        sortBy = 'createdAt',
+        sortOrder = 'desc'
+      } = params;
+
+      const skip = (page - 1) * limit;
+
+      // Construire les conditions de recherche
+      const where: Prisma.ProjectWhereInput = { userId };
+
+      if (search) {
+        where.OR = [
+          { name: { contains: search, mode: 'insensitive' } },
+          { description: { contains: search, mode: 'insensitive' } }
+        ];
+      }
+
+      if (status) {
+        where.status = status;
+      }
+
+      if (clientId) {
+        where.clientId = clientId;
+      }
+
+      const [projects, total] = await Promise.all([
+        this.prisma.project.findMany({
+          where,
+          skip,
+          take: limit,
+          orderBy: { [sortBy]: sortOrder },
+          include: PROJECT_INCLUDE
+        }),
+        this.prisma.project.count({ where })
+      ]);
+
+      const duration = Date.now() - startTime;
+
+      secureLogger.info('Récupération projets', {
+        userId,
+        count: projects.length,
+        total,
+        duration: `${duration}ms`
+      });
+
+      return {
+        projects: projects.map(project => this.formatProject(project)),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+          hasNext: page < Math.ceil(total / limit),
+          hasPrev: page > 1
+        }
+      };
+
+    } catch (error) {
+      secureLogger.error('Erreur récupération projets', {
+        userId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Récupérer un projet spécifique
+   */
+  async getProjectById(userId: string, projectId: string): Promise<ProjectResponse> {
+    try {
+      const project = await this.findOwnedProject(userId, projectId);
+
+      secureLogger.info('Récupération projet', {
+        userId,
+        projectId
+      });
+
+      return this.formatProject(project);
+
+    } catch (error) {
+      secureLogger.error('Erreur récupération projet', {
+        userId,
+        projectId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Mettre à jour un projet (le statut passe par updateProjectStatus)
+   */
+  async updateProject(userId: string, projectId: string, data: UpdateProjectInput): Promise<ProjectResponse> {
+    try {
+      const existingProject = await this.findOwnedProject(userId, projectId);
+
+      if (data.clientId) {
+        await this.assertOwnedClient(userId, data.clientId);
+      }
+
+      this.assertProjectDates({
+        startDate: data.startDate ?? existingProject.startDate,
+        endDate: data.endDate !== undefined ? data.endDate : existingProject.endDate,
+        deadline: data.deadline !== undefined ? data.deadline : existingProject.deadline
+      });
+
+      const updateData: Prisma.ProjectUncheckedUpdateInput = {};
+
+      if (data.name !== undefined) {
+        updateData.name = sanitizeObjectXSS({ name: data.name }, ['name']).name;
+      }
+
+      if (data.description !== undefined) {
+        updateData.description = sanitizeObjectXSS({ description: data.description }, ['description']).description || null;
+      }
+
+      if (data.clientId !== undefined) updateData.clientId = data.clientId;
+      if (data.startDate !== undefined) updateData.startDate = data.startDate;
+      if (data.endDate !== undefined) updateData.endDate = data.endDate;
+      if (data.deadline !== undefined) updateData.deadline = data.deadline;
+      if (data.budget !== undefined) updateData.budget = data.budget;
+      if (data.hourlyRate !== undefined) updateData.hourlyRate = data.hourlyRate;
+
+      const project = await this.prisma.project.update({
+        where: { id: existingProject.id },
+        data: updateData,
+        include: PROJECT_INCLUDE
+      });
+
+      secureLogger.info('Projet mis à jour', {
+        userId,
+        projectId,
+        updatedFields: Object.keys(updateData)
+      });
+
+      // Budget ou taux modifié : seuils franchis ou réarmés
+      if (data.budget !== undefined || data.hourlyRate !== undefined) {
+        void this.projectBudgetService.checkBudgetAlerts(userId, project.id).catch(() => undefined);
+      }
+
+      return this.formatProject(project);
+
+    } catch (error) {
+      secureLogger.error('Erreur mise à jour projet', {
+        userId,
+        projectId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Changer le statut d'un projet (voir PROJECT_TRANSITIONS)
+   * Un projet terminé sans date de fin prend la date du jour
+   */
+  async updateProjectStatus(
+    userId: string,
+    projectId: string,
+    status: ProjectStatus,
+    audit?: AuditContext
+  ): Promise<ProjectResponse> {
+    try {
+      const project = await this.prisma.$transaction(async (tx) => {
+        const existingProject = await tx.project.findFirst({
+          where: {
+            id: projectId,
+            userId
+          }
+        });
+
+        if (!existingProject) {
+          throw new Error('Projet introuvable');
+        }
+
+        assertProjectTransition(existingProject.status, status);
+
+        const updated = await tx.project.update({
+          where: { id: existingProject.id },
+          data: {
+            status,
+            ...(status === ProjectStatus.COMPLETED && !existingProject.endDate && { endDate: new Date() })
+          },
+          include: PROJECT_INCLUDE
+        });
+
+        await writeAuditLog(tx, {
+          userId,
+          action: 'CHANGE_PROJECT_STATUS',
+          resource: 'Project',
+          resourceId: existingProject.id,
+          oldValues: { status: existingProject.status },
+          newValues: { status: updated.status },
+          ...audit
+        });
+
+        return updated;
+      });
+
+      secureLogger.info('Statut projet modifié', {
+        userId,
+        projectId,
+        status
+      });
+
+      return this.formatProject(project);
+
+    } catch (error) {
+      secureLogger.error('Erreur changement statut projet', {
+        userId,
+        projectId,
+        status,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Heures saisies, budget consommé et budget restant d'un projet
+   */
+  async getProjectStats(userId: string, projectId: string): Promise<ProjectStatsResponse> {
+    try {
+      const project = await this.findOwnedProject(userId, projectId);
+
+      const entries = await this.prisma.timeEntry.findMany({
+        where: this.timeEntriesWhere(project.id),
+        select: { duration: true, hourlyRate: true }
+      });
+
+      const { tasksCount, completedTasksCount } = this.formatProject(project);
+
+      return {
+        projectId: project.id,
+        ...computeProjectAggregates(project, entries),
+        tasksCount,
+        completedTasksCount
+      };
+
+    } catch (error) {
+      secureLogger.error('Erreur statistiques projet', {
+        userId,
+        projectId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Supprimer un projet et ses tâches
+   * Un projet sur lequel du temps a été saisi est conservé (à terminer ou annuler)
+   */
+  async deleteProject(userId: string, projectId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const existingProject = await this.findOwnedProject(userId, projectId);
+
+      const timeEntriesCount = await this.prisma.timeEntry.count({
+        where: this.timeEntriesWhere(existingProject.id)
+      });
+
+      if (timeEntriesCount > 0) {
+        throw new Error('Projet déjà suivi : du temps a été saisi, passez-le en COMPLETED ou CANCELLED');
+      }
+
+      await this.prisma.project.delete({
+        where: { id: existingProject.id }
+      });
+
+      logSecurityEvent('DATA_ACCESS', {
+        userId,
+        severity: 'MEDIUM',
+        reason: 'Suppression projet'
+      });
+
+      secureLogger.info('Projet supprimé', {
+        userId,
+        projectId
+      });
+
+      return {
+        success: true,
+        message: 'Projet supprimé avec succès'
+      };
+
+    } catch (error) {
+      secureLogger.error('Erreur suppression projet', {
+        userId,
+        projectId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // TÂCHES
+  // ============================================================================
+
+  /**
+   * Lister les tâches d'un projet (non terminées d'abord, par échéance)
+   */
+  async getTasks(userId: string, projectId: string, params: Partial<TaskQueryParams> = {}): Promise<TaskResponse[]> {
+    try {
+      const project = await this.findOwnedProject(userId, projectId);
+
+      const where: Prisma.TaskWhereInput = { projectId: project.id };
+
+      if (params.completed !== undefined) {
+        where.completedAt = params.completed ? { not: null } : null;
+      }
+
+      if (params.priority) {
+        where.priority = params.priority;
+      }
+
+      const tasks = await this.prisma.task.findMany({
+        where,
+        orderBy: [
+          { completedAt: { sort: 'desc', nulls: 'first' } },
+          { dueDate: { sort: 'asc', nulls: 'last' } },
+          { createdAt: 'asc' }
+        ]
+      });
+
+      return tasks;
+
+    } catch (error) {
+      secureLogger.error('Erreur récupération tâches', {
+        userId,
+        projectId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Récupérer une tâche d'un projet
+   */
+  async getTaskById(userId: string, projectId: string, taskId: string): Promise<TaskResponse> {
+    try {
+      return await this.findOwnedTask(userId, projectId, taskId);
+
+    } catch (error) {
+      secureLogger.error('Erreur récupération tâche', {
+        userId,
+        projectId,
+        taskId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Ajouter une tâche à un projet en cours, en fin de colonne du tableau
+   */
+  async createTask(userId: string, projectId: string, data: CreateTaskInput): Promise<TaskResponse> {
+    try {
+      const sanitizedData = sanitizeObjectXSS({
+        title: data.title,
+        description: data.description || ''
+      }, ['title', 'description']);
+
+      const task = await this.prisma.$transaction(async (tx) => {
+        const project = await this.boardService.lockProject(tx, userId, projectId);
+        this.assertProjectOpen(project);
+
+        const placement = await this.boardService.placeNewTask(tx, project, data.columnId);
+
+        return tx.task.create({
+          data: {
+            projectId: project.id,
+            title: sanitizedData.title,
+            description: sanitizedData.description || null,
+            dueDate: data.dueDate ?? null,
+            priority: data.priority,
+            ...placement
+          }
+        });
+      });
+
+      secureLogger.info('Nouvelle tâche créée', {
+        userId,
+        projectId,
+        taskId: task.id
+      });
+
+      return task;
+
+    } catch (error) {
+      secureLogger.error('Erreur création tâche', {
+        userId,
+        projectId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Mettre à jour une tâche d'un projet en cours
+   */
+  async updateTask(userId: string, projectId: string, taskId: string, data: UpdateTaskInput): Promise<TaskResponse> {
+    try {
+      const project = await this.findOwnedProject(userId, projectId);
+      this.assertProjectOpen(project);
+
+      const existingTask = await this.findOwnedTask(userId, project.id, taskId);
+
+      const updateData: Prisma.TaskUpdateInput = {};
+
+      if (data.title !== undefined) {
+        updateData.title = sanitizeObjectXSS({ title: data.title }, ['title']).title;
+      }
+
+      if (data.description !== undefined) {
+        updateData.description = sanitizeObjectXSS({ description: data.description }, ['description']).description || null;
+      }
+
+      if (data.dueDate !== undefined) updateData.dueDate = data.dueDate;
+      if (data.priority !== undefined) updateData.priority = data.priority;
+
+      const task = await this.prisma.task.update({
+        where: { id: existingTask.id },
+        data: updateData
+      });
+
+      secureLogger.info('Tâche mise à jour', {
+        userId,
+        projectId,
+        taskId,
+        updatedFields: Object.keys(updateData)
+      });
+
+      return task;
+
+    } catch (error) {
+      secureLogger.error('Erreur mise à jour tâche', {
+        userId,
+        projectId,
+        taskId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Marquer une tâche comme terminée ou la rouvrir
+   * La tâche rejoint la première colonne terminée (ou à faire) du tableau
+   */
+  async setTaskCompleted(userId: string, projectId: string, taskId: string, completed: boolean): Promise<TaskResponse> {
+    try {
+      const task = await this.prisma.$transaction(async (tx) => {
+        const project = await this.boardService.lockProject(tx, userId, projectId);
+        this.assertProjectOpen(project);
+
+        const existingTask = await tx.task.findFirst({
+          where: {
+            id: taskId,
+            projectId: project.id
+          }
+        });
+
+        if (!existingTask) {
+          throw new Error('Tâche introuvable');
+        }
+
+        if (completed && existingTask.completedAt) {
+          throw new Error('Tâche déjà terminée');
+        }
+
+        if (!completed && !existingTask.completedAt) {
+          throw new Error('Tâche déjà en cours');
+        }
+
+        const placement = await this.boardService.placeOnCompletion(tx, project, existingTask, completed);
+
+        return tx.task.update({
+          where: { id: existingTask.id },
+          data: {
+            ...placement,
+            completedAt: completed ? new Date() : null
+          }
+        });
+      });
+
+      secureLogger.info(completed ? 'Tâche terminée' : 'Tâche rouverte', {
+        userId,
+        projectId,
+        taskId
+      });
+
+      return task;
+
+    } catch (error) {
+      secureLogger.error('Erreur complétion tâche', {
+        userId,
+        projectId,
+        taskId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Supprimer une tâche sur laquelle aucun temps n'a été saisi
+   */
+  async deleteTask(userId: string, projectId: string, taskId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const project = await this.findOwnedProject(userId, projectId);
+      this.assertProjectOpen(project);
+
+      const existingTask = await this.findOwnedTask(userId, project.id, taskId);
+
+      const timeEntriesCount = await this.prisma.timeEntry.count({
+        where: { taskId: existingTask.id }
+      });
+
+      if (timeEntriesCount > 0) {
+        throw new Error('Tâche déjà suivie : du temps a été saisi sur cette tâche');
+      }
+
+      await this.prisma.task.delete({
+        where: { id: existingTask.id }
+      });
+
+      secureLogger.info('Tâche supprimée', {
+        userId,
+        projectId,
+        taskId
+      });
+
+      return {
+        success: true,
+        message: 'Tâche supprimée avec succès'
+      };
+
+    } catch (error) {
+      secureLogger.error('Erreur suppression tâche', {
+        userId,
+        projectId,
+        taskId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,886 @@
+import { PrismaClient, Prisma, ClientStatus, FollowUp, Prospect, ProspectStageChange, ProspectStatus } from '@prisma/client';
+import {
+  CompleteFollowUpInput,
+  ConvertProspectInput,
+  CreateFollowUpInput,
+  CreateProspectInput,
+  DueFollowUpResponse,
+  FollowUpResponse,
+  ProspectDetailResponse,
+  ProspectConversionResponse,
+  ProspectListResponse,
+  ProspectPipelineResponse,
+  ProspectQueryParams,
+  ProspectResponse,
+  UpdateProspectInput,
+  UpdateProspectStatusInput
+} from '@/types/prospect.types';
+import { secureLogger, logSecurityEvent } from '@/utils/secure-logger';
+import { encryptPII, decryptPII } from '@/utils/encryption';
+import { sanitizeObjectXSS } from '@/utils/xss-protection';
+import { AuditContext, writeAuditLog } from '@/utils/audit-log';
+import {
+  PROSPECT_PIPELINE,
+  assertProspectTransition,
+  endOfDay,
+  followUpDates,
+  isProspectClosed
+} from '@/utils/prospect-pipeline';
+import { followUpInteraction, mergeNotes, mergeTags, normalizeEmail } from '@/utils/prospect-conversion';
+import { CreateQuoteSchema } from '@/types/quote.types';
+import { QuoteService } from '@/services/quote.service';
+
+// Relances (par date prévue) et historique des étapes chargés avec le détail d'un prospect
+const PROSPECT_DETAIL_INCLUDE = {
+  followUps: {
+    orderBy: { scheduledAt: 'asc' }
+  },
+  stageChanges: {
+    orderBy: { createdAt: 'asc' }
+  }
+} satisfies Prisma.ProspectInclude;
+
+type ProspectWithHistory = Prisma.ProspectGetPayload<{ include: typeof PROSPECT_DETAIL_INCLUDE }>;
+
+type Tx = Prisma.TransactionClient;
+
+export class ProspectService {
+  private quoteService: QuoteService;
+
+  constructor(private prisma: PrismaClient) {
+    this.quoteService = new QuoteService(prisma);
+  }
+
+  /**
+   * Utilitaire pour sérialiser un prospect (PII déchiffrées, Decimal → number)
+   */
+  private formatProspect(prospect: Prospect): ProspectResponse {
+    const { userId: _userId, ...rest } = prospect;
+
+    return {
+      ...rest,
+      email: prospect.email ? decryptPII(prospect.email) : null,
+      phone: prospect.phone ? decryptPII(prospect.phone) : null,
+      expectedValue: prospect.expectedValue ? prospect.expectedValue.toNumber() : null
+    };
+  }
+
+  private formatStageChange(change: ProspectStageChange): ProspectDetailResponse['stageChanges'][number] {
+    const { prospectId: _prospectId, ...rest } = change;
+    return rest;
+  }
+
+  private formatDetail(prospect: ProspectWithHistory): ProspectDetailResponse {
+    return {
+      ...this.formatProspect(prospect),
+      followUps: prospect.followUps.map((followUp): FollowUpResponse => followUp),
+      stageChanges: prospect.stageChanges.map(change => this.formatStageChange(change))
+    };
+  }
+
+  /**
+   * Texte libre nettoyé (chaîne vide → null)
+   */
+  private sanitizeText(value: string | null | undefined): string | null {
+    return sanitizeObjectXSS({ value: value || '' }, ['value']).value || null;
+  }
+
+  /**
+   * Verrouille un prospect du freelance : étapes et relances modifiées sans course
+   */
+  private async lockProspect(tx: Tx, userId: string, prospectId: string): Promise<Prospect> {
+    await tx.$queryRaw`SELECT id FROM "prospects" WHERE id = ${prospectId} AND "userId" = ${userId} FOR UPDATE`;
+
+    const prospect = await tx.prospect.findFirst({
+      where: {
+        id: prospectId,
+        userId
+      }
+    });
+
+    if (!prospect) {
+      throw new Error('Prospect introuvable');
+    }
+
+    return prospect;
+  }
+
+  /**
+   * Les relances d'un prospect clos sont figées
+   */
+  private assertProspectOpen(prospect: Prospect): void {
+    if (isProspectClosed(prospect.status)) {
+      throw new Error(`Prospect déjà clos (${prospect.status}) : rouvrez-le pour gérer ses relances`);
+    }
+  }
+
+  /**
+   * Recalcule le dernier contact et la prochaine relance depuis les relances du prospect
+   */
+  private async refreshFollowUpDates(tx: Tx, prospectId: string, status: ProspectStatus): Promise<void> {
+    const followUps = await tx.followUp.findMany({
+      where: { prospectId },
+      select: { scheduledAt: true, completedAt: true }
+    });
+
+    await tx.prospect.update({
+      where: { id: prospectId },
+      data: followUpDates(status, followUps)
+    });
+  }
+
+  private async findOwnedFollowUp(tx: Tx, prospectId: string, followUpId: string): Promise<FollowUp> {
+    const followUp = await tx.followUp.findFirst({
+      where: {
+        id: followUpId,
+        prospectId
+      }
+    });
+
+    if (!followUp) {
+      throw new Error('Relance introuvable');
+    }
+
+    return followUp;
+  }
+
+  /**
+   * Client du freelance ayant cet email (emails chiffrés : comparaison après déchiffrement)
+   */
+  private async findClientByEmail(tx: Tx, userId: string, email: string) {
+    const clients = await tx.client.findMany({
+      where: {
+        userId,
+        email: { not: null }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return clients.find(client => client.email && normalizeEmail(decryptPII(client.email)) === email) ?? null;
+  }
+
+  // ============================================================================
+  // PROSPECTS
+  // ============================================================================
+
+  /**
+   * Créer un prospect (l'étape initiale ouvre son historique)
+   */
+  async createProspect(userId: string, data: CreateProspectInput): Promise<ProspectDetailResponse> {
+    try {
+      const sanitizedData = sanitizeObjectXSS({
+        name: data.name,
+        company: data.company || '',
+        position: data.position || '',
+        source: data.source || '',
+        notes: data.notes || ''
+      }, ['name', 'company', 'position', 'source', 'notes']);
+
+      const prospect = await this.prisma.prospect.create({
+        data: {
+          userId,
+          name: sanitizedData.name,
+          email: data.email ? encryptPII(data.email) : null,
+          phone: data.phone ? encryptPII(data.phone) : null,
+          company: sanitizedData.company || null,
+          position: sanitizedData.position || null,
+          source: sanitizedData.source || null,
+          status: data.status,
+          score: data.score,
+          expectedValue: data.expectedValue ?? null,
+          notes: sanitizedData.notes || null,
+          tags: data.tags.map(tag => sanitizeObjectXSS({ tag }, ['tag']).tag),
+          stageChanges: {
+            create: { fromStatus: null, toStatus: data.status }
+          }
+        },
+        include: PROSPECT_DETAIL_INCLUDE
+      });
+
+      secureLogger.info('Nouveau prospect créé', {
+        userId,
+        prospectId: prospect.id,
+        status: prospect.status
+      });
+
+      return this.formatDetail(prospect);
+
+    } catch (error) {
+      secureLogger.error('Erreur création prospect', {
+        userId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Lister les prospects d'un freelance (recherche sur le nom et l'entreprise)
+   */
+  async getProspects(userId: string, params: Partial<ProspectQueryParams> = {}): Promise<ProspectListResponse> {
+    try {
+      const {
+        page = 1,
+        limit = 20,
+        search,
+        status,
+        tag,
+        sortBy = 'createdAt',
+        sortOrder = 'desc'
+      } = params;
+
+      const skip = (page - 1) * limit;
+
+      const where: Prisma.ProspectWhereInput = { userId };
+
+      if (search) {
+        where.OR = [
+          { name: { contains: search, mode: 'insensitive' } },
+          { company: { contains: search, mode: 'insensitive' } }
+        ];
+      }
+
+      if (status) {
+        where.status = status;
+      }
+
+      if (tag) {
+        where.tags = { has: tag };
+      }
+
+      const [prospects, total] = await Promise.all([
+        this.prisma.prospect.findMany({
+          where,
+          orderBy: [
+            // Prospects sans relance prévue ou sans montant espéré en dernier
+            sortBy === 'nextFollowUp' || sortBy === 'expectedValue'
+              ? { [sortBy]: { sort: sortOrder, nulls: 'last' } }
+              : { [sortBy]: sortOrder },
+            { id: 'asc' }
+          ],
+          skip,
+          take: limit
+        }),
+        this.prisma.prospect.count({ where })
+      ]);
+
+      const totalPages = Math.ceil(total / limit);
+
+      return {
+        prospects: prospects.map(prospect => this.formatProspect(prospect)),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1
+        }
+      };
+
+    } catch (error) {
+      secureLogger.error('Erreur récupération prospects', {
+        userId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Récupérer un prospect avec ses relances et l'historique de ses étapes
+   */
+  async getProspectById(userId: string, prospectId: string): Promise<ProspectDetailResponse> {
+    try {
+      const prospect = await this.prisma.prospect.findFirst({
+        where: {
+          id: prospectId,
+          userId
+        },
+        include: PROSPECT_DETAIL_INCLUDE
+      });
+
+      if (!prospect) {
+        throw new Error('Prospect introuvable');
+      }
+
+      return this.formatDetail(prospect);
+
+    } catch (error) {
+      secureLogger.error('Erreur récupération prospect', {
+        userId,
+        prospectId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Mettre à jour un prospect (hors étape, dernier contact et prochaine relance)
+   */
+  async updateProspect(userId: string, prospectId: string, data: UpdateProspectInput): Promise<ProspectDetailResponse> {
+    try {
+      const existing = await this.prisma.prospect.findFirst({
+        where: {
+          id: prospectId,
+          userId
+        },
+        select: { id: true }
+      });
+
+      if (!existing) {
+        throw new Error('Prospect introuvable');
+      }
+
+      const updateData: Prisma.ProspectUpdateInput = {};
+
+      if (data.name !== undefined) {
+        updateData.name = sanitizeObjectXSS({ name: data.name }, ['name']).name;
+      }
+
+      if (data.email !== undefined) updateData.email = data.email ? encryptPII(data.email) : null;
+      if (data.phone !== undefined) updateData.phone = data.phone ? encryptPII(data.phone) : null;
+      if (data.company !== undefined) updateData.company = this.sanitizeText(data.company);
+      if (data.position !== undefined) updateData.position = this.sanitizeText(data.position);
+      if (data.source !== undefined) updateData.source = this.sanitizeText(data.source);
+      if (data.notes !== undefined) updateData.notes = this.sanitizeText(data.notes);
+      if (data.score !== undefined) updateData.score = data.score;
+      if (data.expectedValue !== undefined) updateData.expectedValue = data.expectedValue;
+
+      if (data.tags !== undefined) {
+        updateData.tags = data.tags.map(tag => sanitizeObjectXSS({ tag }, ['tag']).tag);
+      }
+
+      const prospect = await this.prisma.prospect.update({
+        where: { id: existing.id },
+        data: updateData,
+        include: PROSPECT_DETAIL_INCLUDE
+      });
+
+      secureLogger.info('Prospect mis à jour', {
+        userId,
+        prospectId,
+        updatedFields: Object.keys(updateData)
+      });
+
+      return this.formatDetail(prospect);
+
+    } catch (error) {
+      secureLogger.error('Erreur mise à jour prospect', {
+        userId,
+        prospectId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Faire passer un prospect à une autre étape (voir assertProspectTransition)
+   * Le changement est historisé ; clore un prospect efface sa prochaine relance, le rouvrir la rétablit
+   */
+  async updateProspectStatus(
+    userId: string,
+    prospectId: string,
+    data: UpdateProspectStatusInput,
+    audit?: AuditContext
+  ): Promise<ProspectDetailResponse> {
+    try {
+      const prospect = await this.prisma.$transaction(async (tx) => {
+        const existing = await this.lockProspect(tx, userId, prospectId);
+
+        if (existing.clientId) {
+          throw new Error('Prospect déjà converti en client : son étape est figée');
+        }
+
+        assertProspectTransition(existing.status, data.status);
+
+        await tx.prospectStageChange.create({
+          data: {
+            prospectId: existing.id,
+            fromStatus: existing.status,
+            toStatus: data.status,
+            note: this.sanitizeText(data.note)
+          }
+        });
+
+        await tx.prospect.update({
+          where: { id: existing.id },
+          data: { status: data.status }
+        });
+
+        await this.refreshFollowUpDates(tx, existing.id, data.status);
+
+        await writeAuditLog(tx, {
+          userId,
+          action: 'CHANGE_PROSPECT_STATUS',
+          resource: 'Prospect',
+          resourceId: existing.id,
+          oldValues: { status: existing.status },
+          newValues: { status: data.status },
+          ...audit
+        });
+
+        return tx.prospect.findUniqueOrThrow({
+          where: { id: existing.id },
+          include: PROSPECT_DETAIL_INCLUDE
+        });
+      });
+
+      secureLogger.info('Étape prospect modifiée', {
+        userId,
+        prospectId,
+        status: prospect.status
+      });
+
+      return this.formatDetail(prospect);
+
+    } catch (error) {
+      secureLogger.error('Erreur changement étape prospect', {
+        userId,
+        prospectId,
+        status: data.status,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Convertir un prospect gagné en client (voir utils/prospect-conversion)
+   * Le client est retrouvé par email ou créé ; les relances deviennent des interactions client
+   * et, sur demande, un devis brouillon d'une ligne reprend le montant espéré (HT)
+   */
+  async convertProspect(
+    userId: string,
+    prospectId: string,
+    data: ConvertProspectInput,
+    audit?: AuditContext
+  ): Promise<ProspectConversionResponse> {
+    try {
+      const result = await this.prisma.$transaction(async (tx) => {
+        // Verrou du freelance : deux conversions simultanées ne créent pas deux fois le même client
+        await tx.$queryRaw`SELECT id FROM "users" WHERE id = ${userId} FOR UPDATE`;
+
+        const prospect = await this.lockProspect(tx, userId, prospectId);
+
+        if (prospect.clientId) {
+          throw new Error('Prospect déjà converti en client');
+        }
+
+        if (prospect.status !== ProspectStatus.CLOSED_WON) {
+          throw new Error(`Invalid status : seul un prospect gagné (CLOSED_WON) peut être converti, étape actuelle ${prospect.status}`);
+        }
+
+        if (data.createQuote && !prospect.expectedValue?.greaterThan(0)) {
+          throw new Error('Invalid expectedValue : un montant espéré est requis pour créer le devis');
+        }
+
+        const email = normalizeEmail(prospect.email ? decryptPII(prospect.email) : null);
+        const existingClient = email ? await this.findClientByEmail(tx, userId, email) : null;
+
+        // Dernier contact le plus récent du client et du prospect
+        const lastContact = existingClient?.lastContact
+          && (!prospect.lastContact || existingClient.lastContact > prospect.lastContact)
+          ? existingClient.lastContact
+          : prospect.lastContact;
+
+        const client = existingClient
+          ? await tx.client.update({
+            where: { id: existingClient.id },
+            data: {
+              notes: mergeNotes(existingClient.notes, prospect.notes),
+              tags: mergeTags(existingClient.tags, prospect.tags),
+              phone: existingClient.phone ?? prospect.phone,
+              company: existingClient.company ?? prospect.company,
+              status: ClientStatus.ACTIVE,
+              lastContact
+            }
+          })
+          : await tx.client.create({
+            data: {
+              userId,
+              name: prospect.name,
+              email: email ? encryptPII(email) : null,
+              phone: prospect.phone,
+              company: prospect.company,
+              notes: prospect.notes,
+              tags: prospect.tags,
+              status: ClientStatus.ACTIVE,
+              lastContact
+            }
+          });
+
+        const followUps = await tx.followUp.findMany({
+          where: { prospectId: prospect.id },
+          orderBy: { scheduledAt: 'asc' }
+        });
+
+        await tx.clientInteraction.createMany({
+          data: followUps.map(followUp => ({
+            clientId: client.id,
+            ...followUpInteraction(followUp)
+          }))
+        });
+
+        await tx.prospect.update({
+          where: { id: prospect.id },
+          data: {
+            clientId: client.id,
+            convertedAt: new Date()
+          }
+        });
+
+        const quote = data.createQuote && prospect.expectedValue
+          ? await this.quoteService.createQuote(userId, CreateQuoteSchema.parse({
+            clientId: client.id,
+            items: [{
+              description: data.quoteDescription || `Prestation pour ${prospect.company || prospect.name}`,
+              quantity: 1,
+              unitPrice: prospect.expectedValue.toNumber()
+            }]
+          }), tx)
+          : null;
+
+        await writeAuditLog(tx, {
+          userId,
+          action: 'CONVERT_PROSPECT',
+          resource: 'Prospect',
+          resourceId: prospect.id,
+          oldValues: { clientId: null },
+          newValues: {
+            clientId: client.id,
+            clientCreated: !existingClient,
+            interactionsCount: followUps.length,
+            quoteId: quote?.id ?? null
+          },
+          ...audit
+        });
+
+        const converted = await tx.prospect.findUniqueOrThrow({
+          where: { id: prospect.id },
+          include: PROSPECT_DETAIL_INCLUDE
+        });
+
+        return {
+          prospect: this.formatDetail(converted),
+          client: {
+            id: client.id,
+            name: client.name,
+            company: client.company,
+            created: !existingClient
+          },
+          interactionsCount: followUps.length,
+          quote
+        };
+      });
+
+      secureLogger.info('Prospect converti en client', {
+        userId,
+        prospectId,
+        clientId: result.client.id,
+        clientCreated: result.client.created,
+        quoteId: result.quote?.id
+      });
+
+      return result;
+
+    } catch (error) {
+      secureLogger.error('Erreur conversion prospect', {
+        userId,
+        prospectId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Nombre de prospects et montant espéré (HT) par étape du pipeline
+   */
+  async getPipeline(userId: string): Promise<ProspectPipelineResponse> {
+    try {
+      const groups = await this.prisma.prospect.groupBy({
+        by: ['status'],
+        where: { userId },
+        _count: { _all: true },
+        _sum: { expectedValue: true }
+      });
+
+      return {
+        stages: PROSPECT_PIPELINE.map(status => {
+          const group = groups.find(item => item.status === status);
+
+          return {
+            status,
+            count: group?._count._all ?? 0,
+            expectedValue: group?._sum.expectedValue ? group._sum.expectedValue.toNumber() : 0
+          };
+        })
+      };
+
+    } catch (error) {
+      secureLogger.error('Erreur pipeline prospects', {
+        userId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Supprimer un prospect, ses relances et son historique
+   */
+  async deleteProspect(userId: string, prospectId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const existing = await this.prisma.prospect.findFirst({
+        where: {
+          id: prospectId,
+          userId
+        },
+        select: { id: true }
+      });
+
+      if (!existing) {
+        throw new Error('Prospect introuvable');
+      }
+
+      await this.prisma.prospect.delete({
+        where: { id: existing.id }
+      });
+
+      logSecurityEvent('DATA_ACCESS', {
+        userId,
+        severity: 'MEDIUM',
+        reason: 'Suppression prospect'
+      });
+
+      secureLogger.info('Prospect supprimé', {
+        userId,
+        prospectId
+      });
+
+      return {
+        success: true,
+        message: 'Prospect supprimé avec succès'
+      };
+
+    } catch (error) {
+      secureLogger.error('Erreur suppression prospect', {
+        userId,
+        prospectId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // RELANCES
+  // ============================================================================
+
+  /**
+   * Planifier une relance (ou saisir une relance déjà effectuée)
+   */
+  async createFollowUp(userId: string, prospectId: string, data: CreateFollowUpInput): Promise<FollowUpResponse> {
+    try {
+      if (data.completedAt && data.completedAt > new Date()) {
+        throw new Error('Invalid completedAt : une relance ne peut pas être effectuée dans le futur');
+      }
+
+      const followUp = await this.prisma.$transaction(async (tx) => {
+        const prospect = await this.lockProspect(tx, userId, prospectId);
+        this.assertProspectOpen(prospect);
+
+        const sanitized = sanitizeObjectXSS({
+          subject: data.subject,
+          content: data.content
+        }, ['subject', 'content']);
+
+        const created = await tx.followUp.create({
+          data: {
+            prospectId: prospect.id,
+            type: data.type,
+            subject: sanitized.subject,
+            content: sanitized.content,
+            scheduledAt: data.scheduledAt,
+            completedAt: data.completedAt ?? null,
+            result: data.completedAt ? this.sanitizeText(data.result) : null
+          }
+        });
+
+        await this.refreshFollowUpDates(tx, prospect.id, prospect.status);
+
+        return created;
+      });
+
+      secureLogger.info('Relance prospect planifiée', {
+        userId,
+        prospectId,
+        followUpId: followUp.id,
+        completed: Boolean(followUp.completedAt)
+      });
+
+      return followUp;
+
+    } catch (error) {
+      secureLogger.error('Erreur création relance prospect', {
+        userId,
+        prospectId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Marquer une relance comme effectuée, avec son résultat
+   */
+  async completeFollowUp(
+    userId: string,
+    prospectId: string,
+    followUpId: string,
+    data: CompleteFollowUpInput
+  ): Promise<FollowUpResponse> {
+    try {
+      const completedAt = data.completedAt ?? new Date();
+
+      if (completedAt > new Date()) {
+        throw new Error('Invalid completedAt : une relance ne peut pas être effectuée dans le futur');
+      }
+
+      const followUp = await this.prisma.$transaction(async (tx) => {
+        const prospect = await this.lockProspect(tx, userId, prospectId);
+        this.assertProspectOpen(prospect);
+
+        const existing = await this.findOwnedFollowUp(tx, prospect.id, followUpId);
+
+        if (existing.completedAt) {
+          throw new Error('Relance déjà effectuée');
+        }
+
+        const updated = await tx.followUp.update({
+          where: { id: existing.id },
+          data: {
+            completedAt,
+            result: this.sanitizeText(data.result)
+          }
+        });
+
+        await this.refreshFollowUpDates(tx, prospect.id, prospect.status);
+
+        return updated;
+      });
+
+      secureLogger.info('Relance prospect effectuée', {
+        userId,
+        prospectId,
+        followUpId
+      });
+
+      return followUp;
+
+    } catch (error) {
+      secureLogger.error('Erreur relance prospect effectuée', {
+        userId,
+        prospectId,
+        followUpId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Supprimer une relance
+   */
+  async deleteFollowUp(userId: string, prospectId: string, followUpId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        const prospect = await this.lockProspect(tx, userId, prospectId);
+        this.assertProspectOpen(prospect);
+
+        const existing = await this.findOwnedFollowUp(tx, prospect.id, followUpId);
+
+        await tx.followUp.delete({
+          where: { id: existing.id }
+        });
+
+        await this.refreshFollowUpDates(tx, prospect.id, prospect.status);
+      });
+
+      secureLogger.info('Relance prospect supprimée', {
+        userId,
+        prospectId,
+        followUpId
+      });
+
+      return {
+        success: true,
+        message: 'Relance supprimée avec succès'
+      };
+
+    } catch (error) {
+      secureLogger.error('Erreur suppression relance prospect', {
+        userId,
+        prospectId,
+        followUpId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Relances à faire au plus tard le jour donné (UTC, aujourd'hui par défaut), retards compris,
+   * pour les prospects encore ouverts
+   */
+  async getDueFollowUps(userId: string, date: Date = new Date()): Promise<DueFollowUpResponse[]> {
+    try {
+      const dayEnd = endOfDay(date);
+      const dayStart = new Date(dayEnd.getTime() - 24 * 60 * 60 * 1000);
+
+      const followUps = await this.prisma.followUp.findMany({
+        where: {
+          completedAt: null,
+          scheduledAt: { lt: dayEnd },
+          prospect: {
+            userId,
+            status: { notIn: [ProspectStatus.CLOSED_WON, ProspectStatus.CLOSED_LOST] }
+          }
+        },
+        include: {
+          prospect: {
+            select: { id: true, name: true, company: true, status: true }
+          }
+        },
+        orderBy: { scheduledAt: 'asc' }
+      });
+
+      return followUps.map(followUp => ({
+        ...followUp,
+        overdue: followUp.scheduledAt < dayStart
+      }));
+
+    } catch (error) {
+      secureLogger.error('Erreur relances dues', {
+        userId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+}
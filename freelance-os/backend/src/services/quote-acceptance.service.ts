@@ -0,0 +1,166 @@
+import { PrismaClient, Quote, QuoteStatus } from '@prisma/client';
+import { config } from '@/config/env';
+import { AcceptQuoteOnlineInput, QuotePublicLinkResponse, QuoteResponse } from '@/types/quote.types';
+import { QuoteService } from '@/services/quote.service';
+import { PdfService } from '@/services/pdf.service';
+import { QuoteAcceptanceState, renderQuoteAcceptancePage } from '@/templates/quote-acceptance-page';
+import { SIGNED_LINK_SECRET } from '@/utils/credentials-security';
+import { signLinkToken, verifyLinkToken } from '@/utils/signed-links';
+import { isQuoteExpired } from '@/utils/quote-lifecycle';
+import { AuditContext } from '@/utils/audit-log';
+import { secureLogger } from '@/utils/secure-logger';
+
+// Usage des jetons d'acceptation (un jeton d'un autre usage est refusé)
+const QUOTE_ACCEPTANCE_PURPOSE = 'quote-acceptance';
+
+export class QuoteAcceptanceService {
+  private quoteService: QuoteService;
+  private pdfService: PdfService;
+
+  constructor(private prisma: PrismaClient) {
+    this.quoteService = new QuoteService(prisma);
+    this.pdfService = new PdfService(prisma);
+  }
+
+  /**
+   * Chemin public de la page d'acceptation
+   */
+  private acceptancePath(token: string): string {
+    return `/public/quotes/${token}`;
+  }
+
+  /**
+   * Vérifie le jeton et retrouve le devis signé
+   */
+  private async resolveToken(token: string): Promise<Quote> {
+    const payload = verifyLinkToken(token, QUOTE_ACCEPTANCE_PURPOSE, SIGNED_LINK_SECRET);
+
+    const quote = await this.prisma.quote.findUnique({
+      where: { id: payload.sub }
+    });
+
+    if (!quote) {
+      throw new Error('Devis introuvable');
+    }
+
+    return quote;
+  }
+
+  /**
+   * État affiché sur la page : acceptable, déjà accepté ou clos (avec le motif)
+   */
+  private async resolveState(quote: Quote): Promise<{ state: QuoteAcceptanceState; closedReason: string | null }> {
+    if (quote.status === QuoteStatus.ACCEPTED) {
+      return { state: 'ACCEPTED', closedReason: null };
+    }
+
+    if (quote.status === QuoteStatus.DECLINED) {
+      return { state: 'CLOSED', closedReason: 'Ce devis a été refusé.' };
+    }
+
+    if (quote.status === QuoteStatus.EXPIRED || isQuoteExpired(quote)) {
+      return { state: 'CLOSED', closedReason: 'La date de validité de ce devis est dépassée.' };
+    }
+
+    const newerRevisions = await this.prisma.quote.count({
+      where: {
+        originalQuoteId: quote.originalQuoteId ?? quote.id,
+        revision: { gt: quote.revision }
+      }
+    });
+
+    if (newerRevisions > 0) {
+      return { state: 'CLOSED', closedReason: 'Une nouvelle version de ce devis vous a été transmise.' };
+    }
+
+    if (quote.status !== QuoteStatus.SENT) {
+      return { state: 'CLOSED', closedReason: 'Ce devis ne peut pas être accepté.' };
+    }
+
+    return { state: 'OPEN', closedReason: null };
+  }
+
+  /**
+   * Créer le lien public d'acceptation d'un devis envoyé
+   * Le lien expire à la date de validité du devis
+   */
+  async createPublicLink(userId: string, quoteId: string): Promise<QuotePublicLinkResponse> {
+    const quote = await this.prisma.quote.findFirst({
+      where: {
+        id: quoteId,
+        userId
+      }
+    });
+
+    if (!quote) {
+      throw new Error('Devis introuvable');
+    }
+
+    if (quote.status !== QuoteStatus.SENT) {
+      throw new Error(`Transition interdite : seul un devis envoyé peut être accepté en ligne (statut ${quote.status})`);
+    }
+
+    if (isQuoteExpired(quote)) {
+      throw new Error('Transition interdite : la date de validité du devis est dépassée');
+    }
+
+    const token = signLinkToken({
+      sub: quote.id,
+      purpose: QUOTE_ACCEPTANCE_PURPOSE,
+      exp: Math.floor(quote.validUntil.getTime() / 1000)
+    }, SIGNED_LINK_SECRET);
+
+    secureLogger.info('Lien d\'acceptation de devis créé', {
+      userId,
+      quoteId,
+      expiresAt: quote.validUntil.toISOString()
+    });
+
+    return {
+      url: `${config.PUBLIC_URL}${this.acceptancePath(token)}`,
+      expiresAt: quote.validUntil
+    };
+  }
+
+  /**
+   * Page HTML d'acceptation d'un devis à partir de son lien public
+   */
+  async renderPublicPage(token: string): Promise<string> {
+    const quote = await this.resolveToken(token);
+    const { state, closedReason } = await this.resolveState(quote);
+
+    const [document, templateId] = await Promise.all([
+      this.pdfService.getQuoteDocumentData(quote.userId, quote.id),
+      this.pdfService.getUserTemplate(quote.userId)
+    ]);
+
+    return renderQuoteAcceptancePage({
+      document,
+      templateId,
+      state,
+      acceptedAt: quote.acceptedAt,
+      closedReason,
+      acceptPath: `${this.acceptancePath(token)}/accept`
+    });
+  }
+
+  /**
+   * Accepter un devis depuis son lien public
+   * La signature, l'IP et le navigateur du signataire sont inscrits au journal d'audit
+   * dans la transaction qui passe le devis à ACCEPTED
+   */
+  async acceptFromLink(token: string, data: AcceptQuoteOnlineInput, audit: AuditContext): Promise<QuoteResponse> {
+    const quote = await this.resolveToken(token);
+
+    const accepted = await this.quoteService.acceptQuote(quote.userId, quote.id, audit, data);
+
+    secureLogger.info('Devis signé en ligne', {
+      userId: quote.userId,
+      quoteId: quote.id,
+      signatureType: data.signatureType,
+      ip: audit.ipAddress
+    });
+
+    return accepted;
+  }
+}
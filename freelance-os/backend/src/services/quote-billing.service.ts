@@ -0,0 +1,348 @@
+import { PrismaClient, Prisma, Invoice, InvoiceStatus, InvoiceType, BillingStage, QuoteStatus } from '@prisma/client';
+import { CreateInvoiceInput, InvoiceItemInput, InvoiceResponse } from '@/types/invoice.types';
+import {
+  CreateDepositInvoiceInput,
+  CreateFinalInvoiceInput,
+  QuoteBillingSummaryResponse
+} from '@/types/quote.types';
+import { InvoiceService } from '@/services/invoice.service';
+import { secureLogger } from '@/utils/secure-logger';
+import { computeVatBreakdown } from '@/utils/invoice-calculations';
+import {
+  assertDepositAllowed,
+  computeDepositSubtotal,
+  computeQuoteBillingAmounts,
+  DepositRequest,
+  describeDeposit,
+  netOfCredits,
+  RateAmount,
+  splitDepositByRate
+} from '@/utils/quote-billing';
+
+const QUOTE_INCLUDE = {
+  items: true
+} satisfies Prisma.QuoteInclude;
+
+type QuoteWithItems = Prisma.QuoteGetPayload<{ include: typeof QUOTE_INCLUDE }>;
+
+// Acompte non annulé et ses bases HT par taux, nettes des avoirs partiels
+interface DepositDeduction {
+  invoice: Invoice;
+  bases: RateAmount[];
+  netSubtotal: Prisma.Decimal;
+}
+
+export class QuoteBillingService {
+  private invoiceService: InvoiceService;
+
+  constructor(private prisma: PrismaClient) {
+    this.invoiceService = new InvoiceService(prisma);
+  }
+
+  /**
+   * Verrouille le devis (SELECT ... FOR UPDATE) : deux acomptes simultanés ne peuvent pas dépasser son total
+   */
+  private async lockAcceptedQuote(tx: Prisma.TransactionClient, userId: string, quoteId: string): Promise<QuoteWithItems & { number: string }> {
+    await tx.$queryRaw`
+      SELECT id FROM "quotes" WHERE id = ${quoteId} AND "userId" = ${userId} FOR UPDATE
+    `;
+
+    const quote = await tx.quote.findFirst({
+      where: {
+        id: quoteId,
+        userId
+      },
+      include: QUOTE_INCLUDE
+    });
+
+    if (!quote) {
+      throw new Error('Devis introuvable');
+    }
+
+    if (quote.status !== QuoteStatus.ACCEPTED) {
+      throw new Error(`Transition interdite : seul un devis accepté peut être facturé (statut ${quote.status})`);
+    }
+
+    if (!quote.number) {
+      throw new Error('Invalid quote : le devis accepté n\'a pas de numéro');
+    }
+
+    return { ...quote, number: quote.number };
+  }
+
+  /**
+   * Factures du devis (hors avoirs) par ordre de création
+   */
+  private async findQuoteInvoices(db: Prisma.TransactionClient | PrismaClient, quoteId: string): Promise<Invoice[]> {
+    return db.invoice.findMany({
+      where: {
+        quoteId,
+        type: InvoiceType.INVOICE
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * Acomptes non annulés avec leurs bases HT par taux, nettes des avoirs partiels
+   */
+  private async getDepositDeductions(tx: Prisma.TransactionClient, invoices: Invoice[]): Promise<DepositDeduction[]> {
+    const deposits = invoices.filter(invoice =>
+      invoice.billingStage === BillingStage.DEPOSIT && invoice.status !== InvoiceStatus.CANCELLED
+    );
+    const depositIds = deposits.map(deposit => deposit.id);
+
+    const [items, creditNotes] = await Promise.all([
+      tx.invoiceItem.findMany({ where: { invoiceId: { in: depositIds } } }),
+      tx.invoice.findMany({
+        where: { correctedInvoiceId: { in: depositIds }, type: InvoiceType.CREDIT_NOTE },
+        include: { items: true }
+      })
+    ]);
+
+    return deposits.map(invoice => {
+      const credited = creditNotes.filter(creditNote => creditNote.correctedInvoiceId === invoice.id);
+      const bases = netOfCredits(
+        computeVatBreakdown(items.filter(item => item.invoiceId === invoice.id), invoice.vatRate),
+        computeVatBreakdown(credited.flatMap(creditNote => creditNote.items), invoice.vatRate)
+      );
+
+      return {
+        invoice,
+        bases,
+        netSubtotal: bases.reduce((sum, base) => sum.plus(base.amount), new Prisma.Decimal(0))
+      };
+    });
+  }
+
+  /**
+   * Vérifie qu'aucune facture de solde active n'existe déjà pour le devis
+   */
+  private assertNoFinalInvoice(invoices: Invoice[]): void {
+    const finalInvoice = invoices.find(invoice =>
+      invoice.billingStage === BillingStage.FINAL && invoice.status !== InvoiceStatus.CANCELLED
+    );
+
+    if (finalInvoice) {
+      throw new Error('Facture de solde déjà créée pour ce devis');
+    }
+  }
+
+  /**
+   * Facture générée depuis le devis : client, TVA et devise du devis, dates et notes de la requête
+   */
+  private buildInvoiceInput(
+    quote: QuoteWithItems,
+    data: CreateFinalInvoiceInput,
+    items: InvoiceItemInput[]
+  ): CreateInvoiceInput {
+    return {
+      clientId: quote.clientId,
+      vatRate: quote.vatRate.toNumber(),
+      currency: quote.currency,
+      items,
+      ...(data.issueDate && { issueDate: data.issueDate }),
+      ...(data.dueDate && { dueDate: data.dueDate }),
+      ...(data.notes && { notes: data.notes })
+    };
+  }
+
+  /**
+   * Créer une facture d'acompte (brouillon) sur un devis accepté
+   * Le cumul des acomptes non annulés doit rester inférieur au total HT du devis
+   */
+  async createDepositInvoice(userId: string, quoteId: string, data: CreateDepositInvoiceInput): Promise<InvoiceResponse> {
+    const startTime = Date.now();
+
+    try {
+      const invoice = await this.prisma.$transaction(async (tx) => {
+        const quote = await this.lockAcceptedQuote(tx, userId, quoteId);
+        const invoices = await this.findQuoteInvoices(tx, quoteId);
+
+        this.assertNoFinalInvoice(invoices);
+
+        const request: DepositRequest = data.percentage !== undefined
+          ? { percentage: data.percentage }
+          : { amount: data.amount ?? 0 };
+
+        const depositSubtotal = computeDepositSubtotal(quote.subtotal, request);
+        const deposited = (await this.getDepositDeductions(tx, invoices))
+          .reduce((sum, deposit) => sum.plus(deposit.netSubtotal), new Prisma.Decimal(0));
+
+        assertDepositAllowed(quote.subtotal, deposited, depositSubtotal);
+
+        // Une ligne par taux de TVA du devis, au prorata de sa base HT
+        const shares = splitDepositByRate(depositSubtotal, computeVatBreakdown(quote.items, quote.vatRate));
+        const items = shares.map(share => ({
+          description: shares.length > 1
+            ? `${describeDeposit(quote.number, request)} (TVA ${share.rate.toNumber()} %)`
+            : describeDeposit(quote.number, request),
+          quantity: 1,
+          unitPrice: share.amount.toNumber(),
+          vatRate: share.rate.toNumber()
+        }));
+
+        return this.invoiceService.insertDraft(tx, userId, this.buildInvoiceInput(quote, data, items), {
+          quoteId,
+          billingStage: BillingStage.DEPOSIT
+        });
+      });
+
+      const duration = Date.now() - startTime;
+
+      secureLogger.info('Facture d\'acompte créée', {
+        userId,
+        quoteId,
+        invoiceId: invoice.id,
+        subtotal: invoice.subtotal,
+        duration: `${duration}ms`
+      });
+
+      return invoice;
+
+    } catch (error) {
+      secureLogger.error('Erreur création facture d\'acompte', {
+        userId,
+        quoteId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Créer la facture de solde (brouillon) : lignes du devis moins les acomptes émis
+   * Chaque acompte doit être émis au préalable pour être déduit sous son numéro
+   */
+  async createFinalInvoice(userId: string, quoteId: string, data: CreateFinalInvoiceInput): Promise<InvoiceResponse> {
+    const startTime = Date.now();
+
+    try {
+      const invoice = await this.prisma.$transaction(async (tx) => {
+        const quote = await this.lockAcceptedQuote(tx, userId, quoteId);
+        const invoices = await this.findQuoteInvoices(tx, quoteId);
+
+        this.assertNoFinalInvoice(invoices);
+
+        const deposits = await this.getDepositDeductions(tx, invoices);
+        const draftDeposit = deposits.find(deposit => !deposit.invoice.number);
+
+        if (draftDeposit) {
+          throw new Error('Transition interdite : un acompte du devis est encore en brouillon, émettez-le ou supprimez-le');
+        }
+
+        // Déduction en quantité négative : le prix unitaire reste positif (EN 16931, BR-27)
+        const items: InvoiceItemInput[] = [
+          ...quote.items.map(item => ({
+            description: item.description,
+            quantity: item.quantity.toNumber(),
+            unitPrice: item.unitPrice.toNumber(),
+            vatRate: item.vatRate.toNumber()
+          })),
+          ...deposits.flatMap(deposit => deposit.bases.map(base => ({
+            description: `Déduction de l'acompte facturé (facture N° ${deposit.invoice.number})`,
+            quantity: -1,
+            unitPrice: base.amount.toNumber(),
+            vatRate: base.rate.toNumber()
+          })))
+        ];
+
+        return this.invoiceService.insertDraft(tx, userId, this.buildInvoiceInput(quote, data, items), {
+          quoteId,
+          billingStage: BillingStage.FINAL
+        });
+      });
+
+      const duration = Date.now() - startTime;
+
+      secureLogger.info('Facture de solde créée', {
+        userId,
+        quoteId,
+        invoiceId: invoice.id,
+        total: invoice.total,
+        duration: `${duration}ms`
+      });
+
+      return invoice;
+
+    } catch (error) {
+      secureLogger.error('Erreur création facture de solde', {
+        userId,
+        quoteId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Récapitulatif de facturation d'un devis : facturé, encaissé et restant à facturer (TTC)
+   * Seules les factures émises et non annulées entrent dans les montants
+   */
+  async getBillingSummary(userId: string, quoteId: string): Promise<QuoteBillingSummaryResponse> {
+    try {
+      const quote = await this.prisma.quote.findFirst({
+        where: {
+          id: quoteId,
+          userId
+        }
+      });
+
+      if (!quote) {
+        throw new Error('Devis introuvable');
+      }
+
+      const invoices = await this.findQuoteInvoices(this.prisma, quoteId);
+      const settled = await Promise.all(invoices.map(async invoice => ({
+        invoice,
+        settlement: await this.invoiceService.getSettlement(this.prisma, invoice.id)
+      })));
+
+      const zero = new Prisma.Decimal(0);
+      const totals = { quotedTotal: quote.total, invoicedTotal: zero, creditedTotal: zero, paidAmount: zero };
+
+      for (const { invoice, settlement } of settled) {
+        if (!invoice.number || invoice.status === InvoiceStatus.CANCELLED) {
+          continue;
+        }
+        totals.invoicedTotal = totals.invoicedTotal.plus(invoice.total);
+        totals.creditedTotal = totals.creditedTotal.plus(settlement.creditedAmount);
+        totals.paidAmount = totals.paidAmount.plus(settlement.paidAmount);
+      }
+
+      return {
+        quote: {
+          id: quote.id,
+          number: quote.number,
+          status: quote.status,
+          subtotal: quote.subtotal.toNumber(),
+          total: quote.total.toNumber(),
+          currency: quote.currency
+        },
+        ...computeQuoteBillingAmounts(totals),
+        invoices: settled.map(({ invoice, settlement }) => ({
+          id: invoice.id,
+          number: invoice.number,
+          billingStage: invoice.billingStage,
+          status: invoice.status,
+          issueDate: invoice.issueDate,
+          subtotal: invoice.subtotal.toNumber(),
+          total: invoice.total.toNumber(),
+          creditedAmount: settlement.creditedAmount.toNumber(),
+          paidAmount: settlement.paidAmount.toNumber()
+        }))
+      };
+
+    } catch (error) {
+      secureLogger.error('Erreur récapitulatif facturation devis', {
+        userId,
+        quoteId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,1068 @@
+import { PrismaClient, Prisma, Quote, QuoteStatus, InvoiceStatus, InvoiceType, BillingStage, VatRegime } from '@prisma/client';
+import { InvoiceItemInput, InvoiceResponse } from '@/types/invoice.types';
+import {
+  AcceptQuoteOnlineInput,
+  ConvertQuoteInput,
+  CreateQuoteInput,
+  QuoteListResponse,
+  QuoteQueryParams,
+  QuoteResponse,
+  QuoteRevisionDiffQuery,
+  QuoteRevisionSummary,
+  UpdateQuoteInput
+} from '@/types/quote.types';
+import { secureLogger, logSecurityEvent } from '@/utils/secure-logger';
+import { sanitizeObjectXSS } from '@/utils/xss-protection';
+import { computeDocumentTotals, computeLineTotal, computeVatBreakdown } from '@/utils/invoice-calculations';
+import { applyVatRegime } from '@/utils/vat';
+import { InvoiceService } from '@/services/invoice.service';
+import { NumberingService } from '@/services/numbering.service';
+import { VatService } from '@/services/vat.service';
+import { assertQuoteTransition, defaultValidUntil, isQuoteEditable, isQuoteExpired } from '@/utils/quote-lifecycle';
+import { diffQuoteRevisions, formatRevisionNumber, QuoteRevisionDiff } from '@/utils/quote-revisions';
+import { AuditContext, writeAuditLog } from '@/utils/audit-log';
+
+// Relations chargées avec chaque devis
+const QUOTE_INCLUDE = {
+  items: true,
+  client: {
+    select: { id: true, name: true, company: true }
+  }
+} satisfies Prisma.QuoteInclude;
+
+type QuoteWithRelations = Prisma.QuoteGetPayload<{ include: typeof QUOTE_INCLUDE }>;
+
+type Db = Prisma.TransactionClient | PrismaClient;
+
+// Ligne prête à enregistrer : taux de TVA effectif résolu
+interface RatedItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  vatRate: Prisma.Decimal;
+}
+
+// Révision verrouillée et dernière révision du même devis
+interface RevisionFamily {
+  quote: QuoteWithRelations;
+  latest: Quote;
+}
+
+interface TransitionOptions {
+  data?: Prisma.QuoteUpdateInput;
+  audit?: AuditContext;
+}
+
+export class QuoteService {
+  private invoiceService: InvoiceService;
+  private numberingService: NumberingService;
+  private vatService: VatService;
+
+  constructor(private prisma: PrismaClient) {
+    this.invoiceService = new InvoiceService(prisma);
+    this.numberingService = new NumberingService(prisma);
+    this.vatService = new VatService(prisma);
+  }
+
+  /**
+   * Utilitaire pour sérialiser un devis (Decimal → number)
+   */
+  private formatQuote(quote: QuoteWithRelations): QuoteResponse {
+    return {
+      ...quote,
+      subtotal: quote.subtotal.toNumber(),
+      vatRate: quote.vatRate.toNumber(),
+      vatAmount: quote.vatAmount.toNumber(),
+      total: quote.total.toNumber(),
+      vatBreakdown: computeVatBreakdown(quote.items, quote.vatRate).map(vat => ({
+        rate: vat.rate.toNumber(),
+        basisAmount: vat.basisAmount.toNumber(),
+        taxAmount: vat.taxAmount.toNumber()
+      })),
+      items: quote.items.map(item => ({
+        id: item.id,
+        description: item.description,
+        quantity: item.quantity.toNumber(),
+        unitPrice: item.unitPrice.toNumber(),
+        vatRate: item.vatRate.toNumber(),
+        total: item.total.toNumber()
+      }))
+    };
+  }
+
+  /**
+   * Prépare les lignes pour Prisma avec leur total calculé
+   */
+  private buildItems(items: RatedItem[]): Prisma.QuoteItemCreateWithoutQuoteInput[] {
+    return items.map(item => {
+      const sanitizedItem = sanitizeObjectXSS({ description: item.description }, ['description']);
+      return {
+        description: sanitizedItem.description,
+        quantity: new Prisma.Decimal(item.quantity),
+        unitPrice: new Prisma.Decimal(item.unitPrice),
+        vatRate: item.vatRate,
+        total: computeLineTotal(item)
+      };
+    });
+  }
+
+  /**
+   * Lignes au taux effectif du régime et taux par défaut du document (0 % hors régime normal)
+   */
+  private rateItems(
+    items: InvoiceItemInput[],
+    regime: VatRegime,
+    vatRate: Prisma.Decimal | number
+  ): { items: RatedItem[]; vatRate: Prisma.Decimal } {
+    return {
+      items: applyVatRegime(items, regime, vatRate),
+      vatRate: new Prisma.Decimal(regime === VatRegime.STANDARD ? vatRate : 0)
+    };
+  }
+
+  /**
+   * Récupère un devis en vérifiant qu'il appartient au freelance
+   */
+  private async findOwnedQuote(userId: string, quoteId: string): Promise<QuoteWithRelations> {
+    const quote = await this.prisma.quote.findFirst({
+      where: {
+        id: quoteId,
+        userId
+      },
+      include: QUOTE_INCLUDE
+    });
+
+    if (!quote) {
+      throw new Error('Devis introuvable');
+    }
+
+    return quote;
+  }
+
+  /**
+   * Verrouille le devis (SELECT ... FOR UPDATE) et le relit dans la transaction
+   */
+  private async lockQuote(tx: Prisma.TransactionClient, userId: string, quoteId: string): Promise<QuoteWithRelations> {
+    await tx.$queryRaw`
+      SELECT id FROM "quotes" WHERE id = ${quoteId} AND "userId" = ${userId} FOR UPDATE
+    `;
+
+    const quote = await tx.quote.findFirst({
+      where: {
+        id: quoteId,
+        userId
+      },
+      include: QUOTE_INCLUDE
+    });
+
+    if (!quote) {
+      throw new Error('Devis introuvable');
+    }
+
+    return quote;
+  }
+
+  /**
+   * Verrouille la v1 du devis puis la révision demandée, et relit la dernière révision
+   * Révisions et acceptations d'un même devis sont ainsi sérialisées (verrou v1 toujours pris en premier)
+   */
+  private async lockRevisionFamily(tx: Prisma.TransactionClient, userId: string, quoteId: string): Promise<RevisionFamily> {
+    const target = await tx.quote.findFirst({
+      where: {
+        id: quoteId,
+        userId
+      },
+      select: { originalQuoteId: true }
+    });
+
+    if (!target) {
+      throw new Error('Devis introuvable');
+    }
+
+    const originalQuoteId = target.originalQuoteId ?? quoteId;
+    const original = await this.lockQuote(tx, userId, originalQuoteId);
+    const quote = originalQuoteId === quoteId ? original : await this.lockQuote(tx, userId, quoteId);
+
+    const latest = await tx.quote.findFirstOrThrow({
+      where: {
+        OR: [{ id: originalQuoteId }, { originalQuoteId }]
+      },
+      orderBy: { revision: 'desc' }
+    });
+
+    return { quote, latest };
+  }
+
+  /**
+   * Seule la dernière révision d'un devis peut être acceptée ou révisée
+   */
+  private assertLatestRevision({ quote, latest }: RevisionFamily): void {
+    if (latest.id !== quote.id) {
+      throw new Error(`Transition interdite : une révision plus récente du devis existe (V${latest.revision})`);
+    }
+  }
+
+  /**
+   * Champs du cycle de vie conservés dans le journal d'audit
+   */
+  private lifecycleSnapshot(quote: Quote): Record<string, string | null> {
+    return {
+      status: quote.status,
+      number: quote.number,
+      revision: String(quote.revision),
+      issueDate: quote.issueDate.toISOString(),
+      validUntil: quote.validUntil.toISOString(),
+      acceptedAt: quote.acceptedAt ? quote.acceptedAt.toISOString() : null
+    };
+  }
+
+  /**
+   * Applique une transition de statut et l'inscrit dans le journal d'audit
+   * Doit être appelée dans la transaction qui a verrouillé le devis
+   */
+  private async applyTransition(
+    tx: Prisma.TransactionClient,
+    quote: Quote,
+    to: QuoteStatus,
+    options: TransitionOptions = {}
+  ): Promise<QuoteWithRelations> {
+    assertQuoteTransition(quote.status, to);
+
+    const updated = await tx.quote.update({
+      where: { id: quote.id },
+      data: {
+        ...options.data,
+        status: to
+      },
+      include: QUOTE_INCLUDE
+    });
+
+    await writeAuditLog(tx, {
+      userId: quote.userId,
+      action: 'CHANGE_QUOTE_STATUS',
+      resource: 'Quote',
+      resourceId: quote.id,
+      oldValues: this.lifecycleSnapshot(quote),
+      newValues: this.lifecycleSnapshot(updated),
+      ...options.audit
+    });
+
+    return updated;
+  }
+
+  /**
+   * Créer un devis brouillon (montants recalculés, régime de TVA figé à la création)
+   * db : transaction de l'appelant (conversion d'un prospect), le client Prisma sinon
+   */
+  async createQuote(userId: string, data: CreateQuoteInput, db: Db = this.prisma): Promise<QuoteResponse> {
+    const startTime = Date.now();
+
+    try {
+      // 1. Vérifier que le client appartient bien au freelance
+      const client = await db.client.findFirst({
+        where: {
+          id: data.clientId,
+          userId
+        }
+      });
+
+      if (!client) {
+        throw new Error('Client introuvable');
+      }
+
+      // 2. Protection XSS sur les champs libres
+      const sanitizedData = sanitizeObjectXSS({ notes: data.notes || '' }, ['notes']);
+
+      // 3. Calcul des montants côté serveur
+      const vatRegime = await this.vatService.resolveRegime(db, userId, client);
+      const rated = this.rateItems(data.items, vatRegime, data.vatRate);
+      const totals = computeDocumentTotals(rated.items, rated.vatRate);
+
+      const issueDate = data.issueDate || new Date();
+      const validUntil = data.validUntil || defaultValidUntil(issueDate);
+
+      if (validUntil < issueDate) {
+        throw new Error('Invalid validUntil : la date de validité doit être postérieure à la date d\'émission');
+      }
+
+      const quote = await db.quote.create({
+        data: {
+          userId,
+          clientId: client.id,
+          issueDate,
+          validUntil,
+          vatRate: rated.vatRate,
+          vatRegime,
+          subtotal: totals.subtotal,
+          vatAmount: totals.vatAmount,
+          total: totals.total,
+          currency: data.currency,
+          notes: sanitizedData.notes || null,
+          status: QuoteStatus.DRAFT,
+          items: {
+            create: this.buildItems(rated.items)
+          }
+        },
+        include: QUOTE_INCLUDE
+      });
+
+      const duration = Date.now() - startTime;
+
+      secureLogger.info('Nouveau devis créé', {
+        quoteId: quote.id,
+        clientId: quote.clientId,
+        userId,
+        itemsCount: data.items.length,
+        duration: `${duration}ms`
+      });
+
+      return this.formatQuote(quote);
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      secureLogger.error('Erreur création devis', {
+        userId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue',
+        duration: `${duration}ms`
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Récupérer tous les devis d'un freelance
+   */
+  async getQuotes(userId: string, params: Partial<QuoteQueryParams> = {}): Promise<QuoteListResponse> {
+    const startTime = Date.now();
+
+    try {
+      const {
+        page = 1,
+        limit = 20,
+        search,
+        status,
+        clientId,
+        sortBy = 'issueDate',
+        sortOrder = 'desc'
+      } = params;
+
+      const skip = (page - 1) * limit;
+
+      // Construire les conditions de recherche
+      const where: Prisma.QuoteWhereInput = { userId };
+
+      if (search) {
+        where.OR = [
+          { number: { contains: search, mode: 'insensitive' } },
+          { notes: { contains: search, mode: 'insensitive' } }
+        ];
+      }
+
+      if (status) {
+        where.status = status;
+      }
+
+      if (clientId) {
+        where.clientId = clientId;
+      }
+
+      const [quotes, total] = await Promise.all([
+        this.prisma.quote.findMany({
+          where,
+          skip,
+          take: limit,
+          orderBy: { [sortBy]: sortOrder },
+          include: QUOTE_INCLUDE
+        }),
+        this.prisma.quote.count({ where })
+      ]);
+
+      const duration = Date.now() - startTime;
+
+      secureLogger.info('Récupération devis', {
+        userId,
+        count: quotes.length,
+        total,
+        duration: `${duration}ms`
+      });
+
+      return {
+        quotes: quotes.map(quote => this.formatQuote(quote)),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+          hasNext: page < Math.ceil(total / limit),
+          hasPrev: page > 1
+        }
+      };
+
+    } catch (error) {
+      secureLogger.error('Erreur récupération devis', {
+        userId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Récupérer un devis spécifique
+   */
+  async getQuoteById(userId: string, quoteId: string): Promise<QuoteResponse> {
+    try {
+      const quote = await this.findOwnedQuote(userId, quoteId);
+
+      secureLogger.info('Récupération devis', {
+        userId,
+        quoteId
+      });
+
+      return this.formatQuote(quote);
+
+    } catch (error) {
+      secureLogger.error('Erreur récupération devis', {
+        userId,
+        quoteId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Mettre à jour un devis brouillon
+   * Si des lignes sont fournies, elles remplacent les lignes existantes
+   */
+  async updateQuote(userId: string, quoteId: string, data: UpdateQuoteInput): Promise<QuoteResponse> {
+    const startTime = Date.now();
+
+    try {
+      const existingQuote = await this.findOwnedQuote(userId, quoteId);
+
+      // Un devis envoyé est figé : le client s'engage sur ce qu'il a reçu
+      if (!isQuoteEditable(existingQuote.status)) {
+        throw new Error('Devis déjà envoyé : seul un devis brouillon est modifiable');
+      }
+
+      // Une révision reste adressée au client de la v1
+      if (existingQuote.originalQuoteId && data.clientId && data.clientId !== existingQuote.clientId) {
+        throw new Error('Invalid clientId : une révision conserve le client du devis');
+      }
+
+      // Changement de client : il doit appartenir au freelance
+      const client = await this.prisma.client.findFirst({
+        where: {
+          id: data.clientId || existingQuote.clientId,
+          userId
+        }
+      });
+
+      if (!client) {
+        throw new Error('Client introuvable');
+      }
+
+      const issueDate = data.issueDate || existingQuote.issueDate;
+      const validUntil = data.validUntil || existingQuote.validUntil;
+
+      if (validUntil < issueDate) {
+        throw new Error('Invalid validUntil : la date de validité doit être postérieure à la date d\'émission');
+      }
+
+      // Recalcul des montants : un brouillon suit le régime de TVA courant,
+      // et les lignes existantes au taux par défaut suivent le nouveau taux
+      const vatRegime = await this.vatService.resolveRegime(this.prisma, userId, client);
+      const lines: InvoiceItemInput[] = data.items || existingQuote.items.map(item => ({
+        description: item.description,
+        quantity: item.quantity.toNumber(),
+        unitPrice: item.unitPrice.toNumber(),
+        ...(!item.vatRate.equals(existingQuote.vatRate) && { vatRate: item.vatRate.toNumber() })
+      }));
+      const rated = this.rateItems(lines, vatRegime, data.vatRate ?? existingQuote.vatRate);
+      const totals = computeDocumentTotals(rated.items, rated.vatRate);
+
+      const updateData: Prisma.QuoteUncheckedUpdateInput = {
+        issueDate,
+        validUntil,
+        vatRate: rated.vatRate,
+        vatRegime,
+        subtotal: totals.subtotal,
+        vatAmount: totals.vatAmount,
+        total: totals.total
+      };
+
+      if (data.clientId) updateData.clientId = data.clientId;
+      if (data.currency) updateData.currency = data.currency;
+      if (data.notes !== undefined) {
+        updateData.notes = sanitizeObjectXSS({ notes: data.notes }, ['notes']).notes || null;
+      }
+
+      const quote = await this.prisma.$transaction(async (tx) => {
+        // Verrou : un envoi simultané ne doit pas figer un devis en cours de modification
+        const locked = await this.lockQuote(tx, userId, quoteId);
+
+        if (!isQuoteEditable(locked.status)) {
+          throw new Error('Devis déjà envoyé : seul un devis brouillon est modifiable');
+        }
+
+        await tx.quoteItem.deleteMany({ where: { quoteId } });
+        updateData.items = { create: this.buildItems(rated.items) };
+
+        return tx.quote.update({
+          where: { id: quoteId },
+          data: updateData,
+          include: QUOTE_INCLUDE
+        });
+      });
+
+      const duration = Date.now() - startTime;
+
+      secureLogger.info('Devis mis à jour', {
+        userId,
+        quoteId,
+        updatedFields: Object.keys(data),
+        duration: `${duration}ms`
+      });
+
+      return this.formatQuote(quote);
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      secureLogger.error('Erreur mise à jour devis', {
+        userId,
+        quoteId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue',
+        duration: `${duration}ms`
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Numéro d'une révision à partir de celui de la v1
+   */
+  private async revisionNumber(tx: Prisma.TransactionClient, originalQuoteId: string, revision: number): Promise<string> {
+    const original = await tx.quote.findUniqueOrThrow({
+      where: { id: originalQuoteId },
+      select: { number: true }
+    });
+
+    if (!original.number) {
+      throw new Error('Invalid quote : la première version du devis n\'a pas de numéro');
+    }
+
+    return formatRevisionNumber(original.number, revision);
+  }
+
+  /**
+   * Envoyer un devis : attribution du numéro et passage au statut SENT
+   * La date d'émission devient la date du jour, la durée de validité est conservée ;
+   * une révision reprend le numéro de la v1 suivi de son suffixe (-V2, -V3...)
+   */
+  async sendQuote(userId: string, quoteId: string, audit?: AuditContext): Promise<QuoteResponse> {
+    const startTime = Date.now();
+
+    try {
+      const quote = await this.prisma.$transaction(async (tx) => {
+        const existingQuote = await this.lockQuote(tx, userId, quoteId);
+
+        if (existingQuote.status !== QuoteStatus.DRAFT || existingQuote.number) {
+          throw new Error('Devis déjà envoyé');
+        }
+
+        const issueDate = new Date();
+        const validity = existingQuote.validUntil.getTime() - existingQuote.issueDate.getTime();
+        const number = existingQuote.originalQuoteId
+          ? await this.revisionNumber(tx, existingQuote.originalQuoteId, existingQuote.revision)
+          : await this.numberingService.allocateNumber(tx, userId, 'QUOTE', issueDate);
+
+        return this.applyTransition(tx, existingQuote, QuoteStatus.SENT, {
+          data: {
+            number,
+            issueDate,
+            validUntil: new Date(issueDate.getTime() + Math.max(validity, 0))
+          },
+          ...(audit && { audit })
+        });
+      });
+
+      const duration = Date.now() - startTime;
+
+      secureLogger.info('Devis envoyé', {
+        userId,
+        quoteId,
+        number: quote.number,
+        duration: `${duration}ms`
+      });
+
+      return this.formatQuote(quote);
+
+    } catch (error) {
+      secureLogger.error('Erreur envoi devis', {
+        userId,
+        quoteId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Accepter un devis envoyé, tant que sa date de validité n'est pas dépassée
+   * Seule la dernière révision du devis peut être acceptée ; une acceptation en ligne
+   * inscrit la signature au journal d'audit avant le changement de statut
+   */
+  async acceptQuote(
+    userId: string,
+    quoteId: string,
+    audit?: AuditContext,
+    signature?: AcceptQuoteOnlineInput
+  ): Promise<QuoteResponse> {
+    try {
+      const quote = await this.prisma.$transaction(async (tx) => {
+        const family = await this.lockRevisionFamily(tx, userId, quoteId);
+        const existingQuote = family.quote;
+        const acceptedAt = new Date();
+
+        this.assertLatestRevision(family);
+
+        if (isQuoteExpired(existingQuote, acceptedAt)) {
+          throw new Error('Transition interdite : la date de validité du devis est dépassée');
+        }
+
+        if (signature) {
+          await writeAuditLog(tx, {
+            userId,
+            action: 'SIGN_QUOTE',
+            resource: 'Quote',
+            resourceId: existingQuote.id,
+            newValues: {
+              number: existingQuote.number,
+              total: existingQuote.total.toFixed(2),
+              signerName: signature.signerName,
+              signatureType: signature.signatureType,
+              signature: signature.signature,
+              approval: signature.approval,
+              signedAt: acceptedAt.toISOString()
+            },
+            ...audit
+          });
+        }
+
+        return this.applyTransition(tx, existingQuote, QuoteStatus.ACCEPTED, {
+          data: { acceptedAt },
+          ...(audit && { audit })
+        });
+      });
+
+      secureLogger.info('Devis accepté', {
+        userId,
+        quoteId,
+        number: quote.number,
+        online: Boolean(signature)
+      });
+
+      return this.formatQuote(quote);
+
+    } catch (error) {
+      secureLogger.error('Erreur acceptation devis', {
+        userId,
+        quoteId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Refuser un devis envoyé
+   */
+  async declineQuote(userId: string, quoteId: string, audit?: AuditContext): Promise<QuoteResponse> {
+    try {
+      const quote = await this.prisma.$transaction(async (tx) => {
+        const existingQuote = await this.lockQuote(tx, userId, quoteId);
+
+        return this.applyTransition(tx, existingQuote, QuoteStatus.DECLINED, {
+          ...(audit && { audit })
+        });
+      });
+
+      secureLogger.info('Devis refusé', {
+        userId,
+        quoteId,
+        number: quote.number
+      });
+
+      return this.formatQuote(quote);
+
+    } catch (error) {
+      secureLogger.error('Erreur refus devis', {
+        userId,
+        quoteId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Créer la révision suivante d'un devis envoyé, refusé ou expiré : nouveau brouillon reprenant
+   * les lignes de la dernière révision, qui reste figée comme instantané de sa version
+   */
+  async reviseQuote(userId: string, quoteId: string, audit?: AuditContext): Promise<QuoteResponse> {
+    const startTime = Date.now();
+
+    try {
+      const quote = await this.prisma.$transaction(async (tx) => {
+        const family = await this.lockRevisionFamily(tx, userId, quoteId);
+        const previous = family.quote;
+
+        this.assertLatestRevision(family);
+
+        if (previous.status === QuoteStatus.DRAFT) {
+          throw new Error('Transition interdite : un devis brouillon se modifie sans nouvelle révision');
+        }
+
+        if (previous.status === QuoteStatus.ACCEPTED) {
+          throw new Error('Devis déjà accepté : il ne peut plus être révisé');
+        }
+
+        const issueDate = new Date();
+        const validity = previous.validUntil.getTime() - previous.issueDate.getTime();
+        const originalQuoteId = previous.originalQuoteId ?? previous.id;
+
+        const revision = await tx.quote.create({
+          data: {
+            userId,
+            clientId: previous.clientId,
+            originalQuoteId,
+            revision: previous.revision + 1,
+            issueDate,
+            validUntil: new Date(issueDate.getTime() + Math.max(validity, 0)),
+            vatRate: previous.vatRate,
+            vatRegime: previous.vatRegime,
+            subtotal: previous.subtotal,
+            vatAmount: previous.vatAmount,
+            total: previous.total,
+            currency: previous.currency,
+            notes: previous.notes,
+            status: QuoteStatus.DRAFT,
+            items: {
+              create: previous.items.map(item => ({
+                description: item.description,
+                quantity: item.quantity,
+                unitPrice: item.unitPrice,
+                vatRate: item.vatRate,
+                total: item.total
+              }))
+            }
+          },
+          include: QUOTE_INCLUDE
+        });
+
+        await writeAuditLog(tx, {
+          userId,
+          action: 'REVISE_QUOTE',
+          resource: 'Quote',
+          resourceId: revision.id,
+          oldValues: this.lifecycleSnapshot(previous),
+          newValues: { ...this.lifecycleSnapshot(revision), originalQuoteId },
+          ...audit
+        });
+
+        return revision;
+      });
+
+      const duration = Date.now() - startTime;
+
+      secureLogger.info('Révision de devis créée', {
+        userId,
+        quoteId,
+        revisionId: quote.id,
+        revision: quote.revision,
+        duration: `${duration}ms`
+      });
+
+      return this.formatQuote(quote);
+
+    } catch (error) {
+      secureLogger.error('Erreur révision devis', {
+        userId,
+        quoteId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Révisions d'un devis (v1 comprise), de la plus ancienne à la plus récente
+   */
+  private async findRevisions(userId: string, quoteId: string): Promise<QuoteWithRelations[]> {
+    const quote = await this.findOwnedQuote(userId, quoteId);
+    const originalQuoteId = quote.originalQuoteId ?? quote.id;
+
+    return this.prisma.quote.findMany({
+      where: {
+        userId,
+        OR: [{ id: originalQuoteId }, { originalQuoteId }]
+      },
+      orderBy: { revision: 'asc' },
+      include: QUOTE_INCLUDE
+    });
+  }
+
+  /**
+   * Historique des révisions d'un devis
+   */
+  async getRevisions(userId: string, quoteId: string): Promise<QuoteRevisionSummary[]> {
+    try {
+      const revisions = await this.findRevisions(userId, quoteId);
+
+      return revisions.map(revision => ({
+        id: revision.id,
+        revision: revision.revision,
+        number: revision.number,
+        status: revision.status,
+        issueDate: revision.issueDate,
+        validUntil: revision.validUntil,
+        acceptedAt: revision.acceptedAt,
+        subtotal: revision.subtotal.toNumber(),
+        total: revision.total.toNumber(),
+        createdAt: revision.createdAt
+      }));
+
+    } catch (error) {
+      secureLogger.error('Erreur récupération révisions devis', {
+        userId,
+        quoteId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Différences entre deux révisions d'un devis
+   * Par défaut : la révision demandée comparée à la précédente
+   */
+  async diffRevisions(userId: string, quoteId: string, query: QuoteRevisionDiffQuery = {}): Promise<QuoteRevisionDiff> {
+    try {
+      const revisions = await this.findRevisions(userId, quoteId);
+      const current = revisions.find(revision => revision.id === quoteId);
+      const toRevision = query.to ?? current?.revision ?? 1;
+      const fromRevision = query.from ?? toRevision - 1;
+
+      if (fromRevision < 1) {
+        throw new Error('Invalid revision : la première version n\'a pas de révision précédente');
+      }
+
+      if (fromRevision === toRevision) {
+        throw new Error('Invalid revision : les deux révisions comparées doivent être différentes');
+      }
+
+      const from = revisions.find(revision => revision.revision === fromRevision);
+      const to = revisions.find(revision => revision.revision === toRevision);
+
+      if (!from || !to) {
+        throw new Error(`Révision introuvable : V${!from ? fromRevision : toRevision}`);
+      }
+
+      return diffQuoteRevisions(from, to);
+
+    } catch (error) {
+      secureLogger.error('Erreur comparaison révisions devis', {
+        userId,
+        quoteId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Convertir un devis accepté en facture brouillon : même client, mêmes lignes
+   * La facture est la facture de solde du devis ; un devis déjà facturé (acompte ou solde) est refusé
+   */
+  async convertQuote(
+    userId: string,
+    quoteId: string,
+    data: ConvertQuoteInput,
+    audit?: AuditContext
+  ): Promise<InvoiceResponse> {
+    const startTime = Date.now();
+
+    try {
+      const invoice = await this.prisma.$transaction(async (tx) => {
+        // Même verrou que les acomptes : une conversion et un acompte simultanés ne peuvent pas aboutir
+        const quote = await this.lockQuote(tx, userId, quoteId);
+
+        if (quote.status !== QuoteStatus.ACCEPTED) {
+          throw new Error(`Transition interdite : seul un devis accepté peut être converti (statut ${quote.status})`);
+        }
+
+        const billed = await tx.invoice.findFirst({
+          where: {
+            quoteId,
+            type: InvoiceType.INVOICE,
+            status: { not: InvoiceStatus.CANCELLED }
+          }
+        });
+
+        if (billed) {
+          throw new Error('Devis déjà facturé : utilisez la facture de solde pour déduire les acomptes');
+        }
+
+        const created = await this.invoiceService.insertDraft(tx, userId, {
+          clientId: quote.clientId,
+          vatRate: quote.vatRate.toNumber(),
+          currency: quote.currency,
+          items: quote.items.map(item => ({
+            description: item.description,
+            quantity: item.quantity.toNumber(),
+            unitPrice: item.unitPrice.toNumber(),
+            vatRate: item.vatRate.toNumber()
+          })),
+          ...(data.issueDate && { issueDate: data.issueDate }),
+          ...(data.dueDate && { dueDate: data.dueDate }),
+          ...(data.notes && { notes: data.notes })
+        }, {
+          quoteId,
+          billingStage: BillingStage.FINAL
+        });
+
+        await writeAuditLog(tx, {
+          userId,
+          action: 'CONVERT_QUOTE',
+          resource: 'Quote',
+          resourceId: quoteId,
+          newValues: { invoiceId: created.id, total: created.total.toFixed(2) },
+          ...audit
+        });
+
+        return created;
+      });
+
+      const duration = Date.now() - startTime;
+
+      secureLogger.info('Devis converti en facture', {
+        userId,
+        quoteId,
+        invoiceId: invoice.id,
+        duration: `${duration}ms`
+      });
+
+      return invoice;
+
+    } catch (error) {
+      secureLogger.error('Erreur conversion devis', {
+        userId,
+        quoteId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Passe en EXPIRED les devis envoyés dont la date de validité est dépassée (tous utilisateurs)
+   * Idempotent : chaque devis est revérifié sous verrou avant la transition
+   */
+  async expireQuotes(now: Date = new Date()): Promise<number> {
+    const candidates = await this.prisma.quote.findMany({
+      where: {
+        status: QuoteStatus.SENT,
+        validUntil: { lt: now }
+      },
+      select: { id: true, userId: true }
+    });
+
+    let updated = 0;
+
+    for (const candidate of candidates) {
+      try {
+        const changed = await this.prisma.$transaction(async (tx) => {
+          const quote = await this.lockQuote(tx, candidate.userId, candidate.id);
+
+          if (!isQuoteExpired(quote, now)) {
+            return false;
+          }
+
+          await this.applyTransition(tx, quote, QuoteStatus.EXPIRED);
+          return true;
+        });
+
+        if (changed) updated++;
+
+      } catch (error) {
+        secureLogger.error('Erreur expiration devis', {
+          quoteId: candidate.id,
+          error: error instanceof Error ? error.message : 'Erreur inconnue'
+        });
+      }
+    }
+
+    if (updated > 0) {
+      secureLogger.info('Devis expirés', { count: updated });
+    }
+
+    return updated;
+  }
+
+  /**
+   * Supprimer un devis
+   * Seuls les brouillons non numérotés peuvent être supprimés (numérotation sans trou)
+   */
+  async deleteQuote(userId: string, quoteId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const existingQuote = await this.findOwnedQuote(userId, quoteId);
+
+      if (existingQuote.number) {
+        throw new Error('Devis déjà envoyé : un devis numéroté ne peut pas être supprimé');
+      }
+
+      await this.prisma.quote.delete({
+        where: { id: quoteId }
+      });
+
+      logSecurityEvent('DATA_ACCESS', {
+        userId,
+        severity: 'MEDIUM',
+        reason: 'Suppression devis'
+      });
+
+      secureLogger.info('Devis supprimé', {
+        userId,
+        quoteId
+      });
+
+      return {
+        success: true,
+        message: 'Devis supprimé avec succès'
+      };
+
+    } catch (error) {
+      secureLogger.error('Erreur suppression devis', {
+        userId,
+        quoteId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+}
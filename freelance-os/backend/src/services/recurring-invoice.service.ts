@@ -0,0 +1,476 @@
+import { PrismaClient, Prisma, InvoiceStatus } from '@prisma/client';
+import {
+  CreateRecurringInvoiceInput,
+  UpdateRecurringInvoiceInput,
+  RecurringInvoiceResponse
+} from '@/types/recurring-invoice.types';
+import { InvoiceItemInput, InvoiceResponse } from '@/types/invoice.types';
+import { InvoiceService } from '@/services/invoice.service';
+import { secureLogger, logSecurityEvent } from '@/utils/secure-logger';
+import { sanitizeObjectXSS } from '@/utils/xss-protection';
+import { getOccurrenceDate, isOccurrenceDue, MAX_CATCH_UP_OCCURRENCES } from '@/utils/recurrence';
+
+// Relations chargées avec chaque modèle récurrent
+const RECURRING_INVOICE_INCLUDE = {
+  items: true,
+  client: {
+    select: { id: true, name: true, company: true }
+  }
+} satisfies Prisma.RecurringInvoiceInclude;
+
+type RecurringInvoiceWithRelations = Prisma.RecurringInvoiceGetPayload<{ include: typeof RECURRING_INVOICE_INCLUDE }>;
+
+export class RecurringInvoiceService {
+  private invoiceService: InvoiceService;
+
+  constructor(private prisma: PrismaClient) {
+    this.invoiceService = new InvoiceService(prisma);
+  }
+
+  /**
+   * Utilitaire pour sérialiser un modèle récurrent (Decimal → number)
+   */
+  private formatRecurringInvoice(recurring: RecurringInvoiceWithRelations): RecurringInvoiceResponse {
+    return {
+      ...recurring,
+      vatRate: recurring.vatRate.toNumber(),
+      items: recurring.items.map(item => ({
+        id: item.id,
+        description: item.description,
+        quantity: item.quantity.toNumber(),
+        unitPrice: item.unitPrice.toNumber(),
+        vatRate: item.vatRate ? item.vatRate.toNumber() : null
+      }))
+    };
+  }
+
+  /**
+   * Prépare les lignes du modèle pour Prisma
+   */
+  private buildItems(items: InvoiceItemInput[]): Prisma.RecurringInvoiceItemCreateWithoutRecurringInvoiceInput[] {
+    return items.map(item => ({
+      description: sanitizeObjectXSS(item, ['description']).description,
+      quantity: new Prisma.Decimal(item.quantity),
+      unitPrice: new Prisma.Decimal(item.unitPrice),
+      vatRate: item.vatRate !== undefined ? new Prisma.Decimal(item.vatRate) : null
+    }));
+  }
+
+  /**
+   * Récupère un modèle en vérifiant qu'il appartient au freelance
+   */
+  private async findOwnedRecurringInvoice(userId: string, recurringInvoiceId: string): Promise<RecurringInvoiceWithRelations> {
+    const recurring = await this.prisma.recurringInvoice.findFirst({
+      where: {
+        id: recurringInvoiceId,
+        userId
+      },
+      include: RECURRING_INVOICE_INCLUDE
+    });
+
+    if (!recurring) {
+      throw new Error('Facture récurrente introuvable');
+    }
+
+    return recurring;
+  }
+
+  /**
+   * Vérifie que le client appartient bien au freelance
+   */
+  private async assertOwnedClient(userId: string, clientId: string): Promise<void> {
+    const client = await this.prisma.client.findFirst({
+      where: {
+        id: clientId,
+        userId
+      },
+      select: { id: true }
+    });
+
+    if (!client) {
+      throw new Error('Client introuvable');
+    }
+  }
+
+  /**
+   * Créer un modèle de facture récurrente
+   */
+  async createRecurringInvoice(userId: string, data: CreateRecurringInvoiceInput): Promise<RecurringInvoiceResponse> {
+    const startTime = Date.now();
+
+    try {
+      await this.assertOwnedClient(userId, data.clientId);
+
+      if (data.endDate && data.endDate < data.startDate) {
+        throw new Error('Invalid endDate : la date de fin doit être postérieure à la première échéance');
+      }
+
+      const sanitizedData = sanitizeObjectXSS({ name: data.name, notes: data.notes || '' }, ['name', 'notes']);
+
+      const recurring = await this.prisma.recurringInvoice.create({
+        data: {
+          userId,
+          clientId: data.clientId,
+          name: sanitizedData.name,
+          interval: data.interval,
+          startDate: data.startDate,
+          nextRunDate: data.startDate,
+          endDate: data.endDate || null,
+          autoSend: data.autoSend,
+          vatRate: new Prisma.Decimal(data.vatRate),
+          currency: data.currency,
+          notes: sanitizedData.notes || null,
+          items: {
+            create: this.buildItems(data.items)
+          }
+        },
+        include: RECURRING_INVOICE_INCLUDE
+      });
+
+      const duration = Date.now() - startTime;
+
+      secureLogger.info('Facture récurrente créée', {
+        userId,
+        recurringInvoiceId: recurring.id,
+        interval: recurring.interval,
+        duration: `${duration}ms`
+      });
+
+      return this.formatRecurringInvoice(recurring);
+
+    } catch (error) {
+      secureLogger.error('Erreur création facture récurrente', {
+        userId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Lister les modèles récurrents du freelance
+   */
+  async getRecurringInvoices(userId: string): Promise<RecurringInvoiceResponse[]> {
+    try {
+      const recurringInvoices = await this.prisma.recurringInvoice.findMany({
+        where: { userId },
+        orderBy: { nextRunDate: 'asc' },
+        include: RECURRING_INVOICE_INCLUDE
+      });
+
+      return recurringInvoices.map(recurring => this.formatRecurringInvoice(recurring));
+
+    } catch (error) {
+      secureLogger.error('Erreur récupération factures récurrentes', {
+        userId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Récupérer un modèle récurrent
+   */
+  async getRecurringInvoiceById(userId: string, recurringInvoiceId: string): Promise<RecurringInvoiceResponse> {
+    return this.formatRecurringInvoice(await this.findOwnedRecurringInvoice(userId, recurringInvoiceId));
+  }
+
+  /**
+   * Mettre à jour un modèle récurrent
+   * Un nouvel intervalle ou une nouvelle date de départ redémarre le calendrier à partir de cette date
+   */
+  async updateRecurringInvoice(
+    userId: string,
+    recurringInvoiceId: string,
+    data: UpdateRecurringInvoiceInput
+  ): Promise<RecurringInvoiceResponse> {
+    try {
+      const existing = await this.findOwnedRecurringInvoice(userId, recurringInvoiceId);
+
+      if (data.clientId && data.clientId !== existing.clientId) {
+        await this.assertOwnedClient(userId, data.clientId);
+      }
+
+      const updateData: Prisma.RecurringInvoiceUncheckedUpdateInput = {};
+
+      if (data.name) updateData.name = sanitizeObjectXSS({ name: data.name }, ['name']).name;
+      if (data.clientId) updateData.clientId = data.clientId;
+      if (data.autoSend !== undefined) updateData.autoSend = data.autoSend;
+      if (data.isActive !== undefined) updateData.isActive = data.isActive;
+      if (data.vatRate !== undefined) updateData.vatRate = new Prisma.Decimal(data.vatRate);
+      if (data.currency) updateData.currency = data.currency;
+      if (data.endDate !== undefined) updateData.endDate = data.endDate;
+      if (data.notes !== undefined) {
+        updateData.notes = sanitizeObjectXSS({ notes: data.notes }, ['notes']).notes || null;
+      }
+
+      // Nouveau calendrier : les échéances déjà facturées ne sont pas rejouées
+      if (data.interval || data.startDate) {
+        const startDate = data.startDate || existing.nextRunDate;
+
+        updateData.interval = data.interval || existing.interval;
+        updateData.startDate = startDate;
+        updateData.nextRunDate = startDate;
+        updateData.occurrences = 0;
+      }
+
+      const nextRunDate = (updateData.nextRunDate as Date | undefined) || existing.nextRunDate;
+      const endDate = data.endDate !== undefined ? data.endDate : existing.endDate;
+
+      if (endDate && endDate < nextRunDate) {
+        throw new Error('Invalid endDate : la date de fin doit être postérieure à la prochaine échéance');
+      }
+
+      const recurring = await this.prisma.$transaction(async (tx) => {
+        if (data.items) {
+          await tx.recurringInvoiceItem.deleteMany({ where: { recurringInvoiceId } });
+          updateData.items = { create: this.buildItems(data.items) };
+        }
+
+        return tx.recurringInvoice.update({
+          where: { id: recurringInvoiceId },
+          data: updateData,
+          include: RECURRING_INVOICE_INCLUDE
+        });
+      });
+
+      secureLogger.info('Facture récurrente mise à jour', {
+        userId,
+        recurringInvoiceId,
+        updatedFields: Object.keys(data)
+      });
+
+      return this.formatRecurringInvoice(recurring);
+
+    } catch (error) {
+      secureLogger.error('Erreur mise à jour facture récurrente', {
+        userId,
+        recurringInvoiceId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Supprimer un modèle récurrent (les factures déjà générées sont conservées)
+   */
+  async deleteRecurringInvoice(userId: string, recurringInvoiceId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      await this.findOwnedRecurringInvoice(userId, recurringInvoiceId);
+
+      await this.prisma.recurringInvoice.delete({
+        where: { id: recurringInvoiceId }
+      });
+
+      logSecurityEvent('DATA_ACCESS', {
+        userId,
+        severity: 'MEDIUM',
+        reason: 'Suppression facture récurrente'
+      });
+
+      secureLogger.info('Facture récurrente supprimée', {
+        userId,
+        recurringInvoiceId
+      });
+
+      return {
+        success: true,
+        message: 'Facture récurrente supprimée avec succès'
+      };
+
+    } catch (error) {
+      secureLogger.error('Erreur suppression facture récurrente', {
+        userId,
+        recurringInvoiceId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Facture de l'échéance : créée une seule fois grâce à l'unicité (modèle, échéance)
+   * Un worker relancé après un arrêt retrouve la facture déjà générée au lieu d'en créer une autre
+   */
+  private async generateOccurrence(recurring: RecurringInvoiceWithRelations): Promise<{ id: string; status: InvoiceStatus }> {
+    const origin = {
+      recurringInvoiceId: recurring.id,
+      recurringRunDate: recurring.nextRunDate,
+      recurringAutoSend: recurring.autoSend
+    };
+
+    const findExisting = () => this.prisma.invoice.findFirst({
+      where: {
+        recurringInvoiceId: origin.recurringInvoiceId,
+        recurringRunDate: origin.recurringRunDate
+      },
+      select: { id: true, status: true }
+    });
+
+    const existing = await findExisting();
+    if (existing) {
+      return existing;
+    }
+
+    try {
+      const invoice: InvoiceResponse = await this.invoiceService.createInvoice(recurring.userId, {
+        clientId: recurring.clientId,
+        issueDate: recurring.nextRunDate,
+        vatRate: recurring.vatRate.toNumber(),
+        currency: recurring.currency,
+        notes: recurring.notes || '',
+        items: recurring.items.map(item => ({
+          description: item.description,
+          quantity: item.quantity.toNumber(),
+          unitPrice: item.unitPrice.toNumber(),
+          ...(item.vatRate && { vatRate: item.vatRate.toNumber() })
+        }))
+      }, origin);
+
+      return invoice;
+
+    } catch (error) {
+      // Génération concurrente de la même échéance par un autre worker
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const concurrent = await findExisting();
+        if (concurrent) {
+          return concurrent;
+        }
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Passe à l'échéance suivante si personne ne l'a fait entre-temps (verrou optimiste)
+   */
+  private async advanceSchedule(
+    recurring: RecurringInvoiceWithRelations,
+    now: Date
+  ): Promise<RecurringInvoiceWithRelations | null> {
+    const occurrences = recurring.occurrences + 1;
+    const nextRunDate = getOccurrenceDate(recurring.startDate, recurring.interval, occurrences);
+
+    const { count } = await this.prisma.recurringInvoice.updateMany({
+      where: {
+        id: recurring.id,
+        occurrences: recurring.occurrences,
+        nextRunDate: recurring.nextRunDate
+      },
+      data: {
+        occurrences,
+        nextRunDate,
+        lastRunAt: now,
+        // Modèle terminé : plus aucune échéance avant la date de fin
+        ...(recurring.endDate && nextRunDate > recurring.endDate && { isActive: false })
+      }
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    return this.prisma.recurringInvoice.findUnique({
+      where: { id: recurring.id },
+      include: RECURRING_INVOICE_INCLUDE
+    });
+  }
+
+  /**
+   * Émission automatique : une erreur est journalisée et retentée au prochain passage
+   */
+  private async issueGenerated(userId: string, invoiceId: string): Promise<void> {
+    try {
+      await this.invoiceService.issueInvoice(userId, invoiceId);
+    } catch (error) {
+      secureLogger.error('Erreur émission facture récurrente', {
+        userId,
+        invoiceId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+    }
+  }
+
+  /**
+   * Génère les factures des échéances atteintes (tous utilisateurs)
+   * Idempotent : une échéance n'est facturée qu'une fois, même après un redémarrage du worker
+   */
+  async runDueRecurringInvoices(now: Date = new Date()): Promise<number> {
+    // Brouillons générés pour émission automatique restés en attente (worker interrompu),
+    // tant que le modèle est actif et toujours en autoSend
+    const pending = await this.prisma.invoice.findMany({
+      where: {
+        status: InvoiceStatus.DRAFT,
+        recurringAutoSend: true,
+        recurringInvoice: { autoSend: true, isActive: true }
+      },
+      select: { id: true, userId: true }
+    });
+
+    for (const invoice of pending) {
+      await this.issueGenerated(invoice.userId, invoice.id);
+    }
+
+    const candidates = await this.prisma.recurringInvoice.findMany({
+      where: {
+        isActive: true,
+        nextRunDate: { lte: now }
+      },
+      include: RECURRING_INVOICE_INCLUDE
+    });
+
+    let generated = 0;
+
+    for (const candidate of candidates) {
+      let recurring: RecurringInvoiceWithRelations | null = candidate;
+      let caughtUp = 0;
+
+      try {
+        // Rattrapage des échéances manquées, dans la limite de MAX_CATCH_UP_OCCURRENCES
+        while (
+          recurring?.isActive &&
+          caughtUp < MAX_CATCH_UP_OCCURRENCES &&
+          isOccurrenceDue(recurring.nextRunDate, recurring.endDate, now)
+        ) {
+          const invoice = await this.generateOccurrence(recurring);
+          const advanced = await this.advanceSchedule(recurring, now);
+
+          if (recurring.autoSend && invoice.status === InvoiceStatus.DRAFT) {
+            await this.issueGenerated(recurring.userId, invoice.id);
+          }
+
+          generated++;
+          caughtUp++;
+          recurring = advanced;
+        }
+
+        // Date de fin dépassée sans nouvelle échéance : le modèle est clôturé
+        if (recurring?.isActive && recurring.endDate && recurring.nextRunDate > recurring.endDate) {
+          await this.prisma.recurringInvoice.update({
+            where: { id: recurring.id },
+            data: { isActive: false }
+          });
+        }
+
+      } catch (error) {
+        secureLogger.error('Erreur génération facture récurrente', {
+          recurringInvoiceId: candidate.id,
+          error: error instanceof Error ? error.message : 'Erreur inconnue'
+        });
+      }
+    }
+
+    if (generated > 0) {
+      secureLogger.info('Factures récurrentes générées', { count: generated });
+    }
+
+    return generated;
+  }
+}
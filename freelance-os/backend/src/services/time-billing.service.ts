@@ -0,0 +1,223 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { InvoiceResponse } from '@/types/invoice.types';
+import { InvoiceUnbilledTimeInput, UnbilledTimeQuery, UnbilledTimeResponse } from '@/types/time-tracking.types';
+import { InvoiceService } from '@/services/invoice.service';
+import { computeLineTotal } from '@/utils/invoice-calculations';
+import { BillableTimeEntry, groupBillableTime, TimeBillingGroup } from '@/utils/time-billing';
+import { AuditContext, writeAuditLog } from '@/utils/audit-log';
+import { secureLogger } from '@/utils/secure-logger';
+
+type Db = Prisma.TransactionClient | PrismaClient;
+
+// Relations nécessaires à la valorisation des créneaux
+const BILLABLE_ENTRY_INCLUDE = {
+  project: {
+    select: { id: true, name: true, hourlyRate: true }
+  },
+  task: {
+    select: { id: true, title: true }
+  }
+} satisfies Prisma.TimeEntryInclude;
+
+// Sélection résolue : client à facturer et créneaux concernés
+interface UnbilledSelection {
+  clientId: string;
+  entries: BillableTimeEntry[];
+}
+
+export class TimeBillingService {
+  private invoiceService: InvoiceService;
+
+  constructor(private prisma: PrismaClient) {
+    this.invoiceService = new InvoiceService(prisma);
+  }
+
+  /**
+   * Créneaux terminés et non facturés d'un projet du freelance, ou de tous les projets d'un client
+   */
+  private async selectUnbilled(db: Db, userId: string, scope: UnbilledTimeQuery): Promise<UnbilledSelection> {
+    let clientId: string;
+
+    if (scope.projectId) {
+      const project = await db.project.findFirst({
+        where: {
+          id: scope.projectId,
+          userId
+        },
+        select: { clientId: true }
+      });
+
+      if (!project) {
+        throw new Error('Projet introuvable');
+      }
+
+      if (!project.clientId) {
+        throw new Error('Invalid project : le projet n\'est rattaché à aucun client');
+      }
+
+      clientId = project.clientId;
+    } else if (scope.clientId) {
+      const client = await db.client.findFirst({
+        where: {
+          id: scope.clientId,
+          userId
+        },
+        select: { id: true }
+      });
+
+      if (!client) {
+        throw new Error('Client introuvable');
+      }
+
+      clientId = client.id;
+    } else {
+      throw new Error('Invalid selection : indiquez soit un projet, soit un client');
+    }
+
+    const entries = await db.timeEntry.findMany({
+      where: {
+        invoiceId: null,
+        endTime: { not: null },
+        project: scope.projectId ? { id: scope.projectId, userId } : { clientId, userId },
+        ...((scope.from || scope.to) && {
+          startTime: {
+            ...(scope.from && { gte: scope.from }),
+            ...(scope.to && { lt: scope.to })
+          }
+        })
+      },
+      include: BILLABLE_ENTRY_INCLUDE,
+      orderBy: { startTime: 'asc' }
+    });
+
+    return {
+      clientId,
+      entries: entries.flatMap(entry => entry.project ? [{ ...entry, project: entry.project }] : [])
+    };
+  }
+
+  private summarize(selection: UnbilledSelection, groupBy: TimeBillingGroup): UnbilledTimeResponse {
+    const lines = groupBillableTime(selection.entries, groupBy);
+
+    return {
+      clientId: selection.clientId,
+      entriesCount: selection.entries.length,
+      totalMinutes: lines.reduce((total, line) => total + line.minutes, 0),
+      subtotal: lines
+        .reduce((total, line) => total.plus(computeLineTotal(line)), new Prisma.Decimal(0))
+        .toNumber(),
+      lines
+    };
+  }
+
+  /**
+   * Aperçu des lignes qu'une facturation du temps créerait
+   */
+  async previewUnbilledTime(userId: string, query: UnbilledTimeQuery): Promise<UnbilledTimeResponse> {
+    try {
+      const selection = await this.selectUnbilled(this.prisma, userId, query);
+
+      return this.summarize(selection, query.groupBy);
+
+    } catch (error) {
+      secureLogger.error('Erreur aperçu temps non facturé', {
+        userId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Facturer le temps non facturé : facture brouillon et créneaux marqués facturés
+   * dans la même transaction ; un créneau facturé entre-temps fait échouer l'ensemble
+   */
+  async invoiceUnbilledTime(
+    userId: string,
+    data: InvoiceUnbilledTimeInput,
+    audit?: AuditContext
+  ): Promise<InvoiceResponse> {
+    const startTime = Date.now();
+
+    try {
+      const invoice = await this.prisma.$transaction(async (tx) => {
+        const selection = await this.selectUnbilled(tx, userId, data);
+
+        if (selection.entries.length === 0) {
+          throw new Error('Invalid selection : aucun temps non facturé sur cette période');
+        }
+
+        const summary = this.summarize(selection, data.groupBy);
+
+        const created = await this.invoiceService.insertDraft(tx, userId, {
+          clientId: selection.clientId,
+          vatRate: data.vatRate,
+          currency: data.currency,
+          ...(data.issueDate && { issueDate: data.issueDate }),
+          ...(data.dueDate && { dueDate: data.dueDate }),
+          ...(data.notes && { notes: data.notes }),
+          items: summary.lines.map(line => ({
+            description: line.description,
+            quantity: line.quantity,
+            unitPrice: line.unitPrice
+          }))
+        });
+
+        const entryIds = selection.entries.map(entry => entry.id);
+
+        // Mise à jour conditionnelle : un créneau ne peut être rattaché qu'à une seule facture
+        const { count } = await tx.timeEntry.updateMany({
+          where: {
+            id: { in: entryIds },
+            invoiceId: null
+          },
+          data: { invoiceId: created.id }
+        });
+
+        if (count !== entryIds.length) {
+          throw new Error('Saisies déjà facturées : relancez la facturation du temps');
+        }
+
+        await writeAuditLog(tx, {
+          userId,
+          action: 'INVOICE_TIME_ENTRIES',
+          resource: 'Invoice',
+          resourceId: created.id,
+          newValues: {
+            projectId: data.projectId ?? null,
+            clientId: selection.clientId,
+            from: data.from ? data.from.toISOString() : null,
+            to: data.to ? data.to.toISOString() : null,
+            groupBy: data.groupBy,
+            entriesCount: entryIds.length,
+            totalMinutes: summary.totalMinutes
+          },
+          ...audit
+        });
+
+        return created;
+      });
+
+      const duration = Date.now() - startTime;
+
+      secureLogger.info('Temps facturé', {
+        userId,
+        invoiceId: invoice.id,
+        clientId: invoice.clientId,
+        itemsCount: invoice.items.length,
+        duration: `${duration}ms`
+      });
+
+      return invoice;
+
+    } catch (error) {
+      secureLogger.error('Erreur facturation du temps', {
+        userId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,663 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import {
+  CreateTimeEntryInput,
+  RunningTimer,
+  RunningTimerResponse,
+  StartTimerInput,
+  TimeEntryListResponse,
+  TimeEntryQueryParams,
+  TimeEntryResponse,
+  TimesheetResponse,
+  TimeSettingsResponse,
+  UpdateTimeEntryInput,
+  UpdateTimeSettingsInput
+} from '@/types/time-tracking.types';
+import { secureLogger } from '@/utils/secure-logger';
+import { sanitizeObjectXSS } from '@/utils/xss-protection';
+import { redis } from '@/utils/redis';
+import { isProjectOpen } from '@/utils/project-lifecycle';
+import { ProjectBudgetService } from '@/services/project-budget.service';
+import {
+  buildTimesheet,
+  elapsedMinutes,
+  MAX_TIME_ENTRY_MINUTES,
+  roundDuration,
+  weekStart
+} from '@/utils/time-tracking';
+
+// Relations chargées avec chaque saisie
+const TIME_ENTRY_INCLUDE = {
+  project: {
+    select: { id: true, name: true }
+  },
+  task: {
+    select: { id: true, title: true }
+  }
+} satisfies Prisma.TimeEntryInclude;
+
+type TimeEntryWithRelations = Prisma.TimeEntryGetPayload<{ include: typeof TIME_ENTRY_INCLUDE }>;
+
+type Db = Prisma.TransactionClient | PrismaClient;
+
+// Créneau à enregistrer, projet et tâche non encore vérifiés
+interface TimeEntryDraft {
+  projectId: string;
+  taskId: string | null;
+  description: string | null;
+  startTime: Date;
+  endTime: Date;
+  hourlyRate: number | null;
+}
+
+// Chronomètre du freelance (clé Redis, préfixe "freelance-os:" ajouté par le client)
+const timerKey = (userId: string) => `time:timer:${userId}`;
+
+export class TimeTrackingService {
+  private projectBudgetService: ProjectBudgetService;
+
+  constructor(private prisma: PrismaClient) {
+    this.projectBudgetService = new ProjectBudgetService(prisma);
+  }
+
+  /**
+   * Utilitaire pour sérialiser une saisie (Decimal → number)
+   */
+  private formatEntry(entry: TimeEntryWithRelations): TimeEntryResponse {
+    return {
+      ...entry,
+      hourlyRate: entry.hourlyRate ? entry.hourlyRate.toNumber() : null
+    };
+  }
+
+  private formatTimer(timer: RunningTimer, now: Date = new Date()): RunningTimerResponse {
+    const startTime = new Date(timer.startTime);
+
+    return {
+      ...timer,
+      startTime,
+      elapsedMinutes: elapsedMinutes(startTime, now)
+    };
+  }
+
+  private async readTimer(userId: string): Promise<RunningTimer | null> {
+    const raw = await redis.get(timerKey(userId));
+    return raw ? JSON.parse(raw) as RunningTimer : null;
+  }
+
+  /**
+   * Sérialise les saisies d'un freelance (SELECT ... FOR UPDATE sur l'utilisateur)
+   * pour que deux créneaux simultanés ne puissent pas se chevaucher
+   */
+  private async lockUser(tx: Prisma.TransactionClient, userId: string): Promise<void> {
+    await tx.$queryRaw`
+      SELECT id FROM "users" WHERE id = ${userId} FOR UPDATE
+    `;
+  }
+
+  /**
+   * Vérifie que le projet appartient au freelance et reste ouvert, et que la tâche en fait partie
+   */
+  private async assertTarget(db: Db, userId: string, projectId: string, taskId: string | null): Promise<void> {
+    const project = await db.project.findFirst({
+      where: {
+        id: projectId,
+        userId
+      },
+      select: { id: true, status: true }
+    });
+
+    if (!project) {
+      throw new Error('Projet introuvable');
+    }
+
+    if (!isProjectOpen(project.status)) {
+      throw new Error(`Projet déjà clôturé (${project.status}) : aucun temps ne peut plus y être saisi`);
+    }
+
+    if (taskId) {
+      const task = await db.task.findFirst({
+        where: {
+          id: taskId,
+          projectId: project.id
+        },
+        select: { id: true }
+      });
+
+      if (!task) {
+        throw new Error('Tâche introuvable');
+      }
+    }
+  }
+
+  /**
+   * Refuse un créneau qui chevauche une autre saisie du freelance
+   */
+  private async assertNoOverlap(
+    db: Db,
+    userId: string,
+    interval: { startTime: Date; endTime: Date },
+    excludeId?: string
+  ): Promise<void> {
+    const overlapping = await db.timeEntry.findFirst({
+      where: {
+        project: { userId },
+        startTime: { lt: interval.endTime },
+        endTime: { gt: interval.startTime },
+        ...(excludeId && { id: { not: excludeId } })
+      },
+      orderBy: { startTime: 'asc' }
+    });
+
+    if (overlapping?.endTime) {
+      throw new Error(
+        `Créneau déjà occupé : chevauche la saisie du ${overlapping.startTime.toISOString()} au ${overlapping.endTime.toISOString()}`
+      );
+    }
+  }
+
+  /**
+   * Refuse un créneau qui empiète sur le chronomètre en cours
+   */
+  private async assertNoRunningTimerOverlap(userId: string, endTime: Date): Promise<void> {
+    const timer = await this.readTimer(userId);
+
+    if (timer && new Date(timer.startTime) < endTime) {
+      throw new Error('Créneau déjà occupé par le chronomètre en cours');
+    }
+  }
+
+  private async getRounding(db: Db, userId: string): Promise<number> {
+    const user = await db.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { timeRounding: true }
+    });
+
+    return user.timeRounding;
+  }
+
+  private sanitizeDescription(description: string | null | undefined): string | null {
+    return sanitizeObjectXSS({ description: description || '' }, ['description']).description || null;
+  }
+
+  /**
+   * Enregistre un créneau : projet ouvert, aucun chevauchement, durée arrondie
+   */
+  private async writeEntry(userId: string, draft: TimeEntryDraft): Promise<TimeEntryWithRelations> {
+    return this.prisma.$transaction(async (tx) => {
+      await this.lockUser(tx, userId);
+      await this.assertTarget(tx, userId, draft.projectId, draft.taskId);
+      await this.assertNoOverlap(tx, userId, draft);
+
+      const rounding = await this.getRounding(tx, userId);
+
+      return tx.timeEntry.create({
+        data: {
+          ...draft,
+          duration: roundDuration(elapsedMinutes(draft.startTime, draft.endTime), rounding)
+        },
+        include: TIME_ENTRY_INCLUDE
+      });
+    });
+  }
+
+  /**
+   * Alertes budget des projets touchés par une saisie, contrôlées sans retarder la réponse
+   * (les erreurs sont journalisées par le service ; la tâche planifiée rattrape un contrôle manqué)
+   */
+  private refreshBudgetAlerts(userId: string, projectIds: (string | null)[]): void {
+    for (const projectId of new Set(projectIds)) {
+      if (projectId) {
+        void this.projectBudgetService.checkBudgetAlerts(userId, projectId).catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * Un créneau facturé est figé jusqu'à l'annulation de sa facture
+   */
+  private assertNotBilled(entry: { invoiceId: string | null }): void {
+    if (entry.invoiceId) {
+      throw new Error('Saisie déjà facturée : elle redevient modifiable si sa facture est annulée');
+    }
+  }
+
+  private async findOwnedEntry(userId: string, entryId: string): Promise<TimeEntryWithRelations> {
+    const entry = await this.prisma.timeEntry.findFirst({
+      where: {
+        id: entryId,
+        project: { userId }
+      },
+      include: TIME_ENTRY_INCLUDE
+    });
+
+    if (!entry) {
+      throw new Error('Saisie introuvable');
+    }
+
+    return entry;
+  }
+
+  // ============================================================================
+  // CHRONOMÈTRE
+  // ============================================================================
+
+  /**
+   * Démarrer le chronomètre (un seul par freelance, conservé dans Redis)
+   */
+  async startTimer(userId: string, data: StartTimerInput): Promise<RunningTimerResponse> {
+    try {
+      const now = new Date();
+      const taskId = data.taskId ?? null;
+
+      await this.assertTarget(this.prisma, userId, data.projectId, taskId);
+      await this.assertNoOverlap(this.prisma, userId, { startTime: now, endTime: now });
+
+      const timer: RunningTimer = {
+        projectId: data.projectId,
+        taskId,
+        description: this.sanitizeDescription(data.description),
+        hourlyRate: data.hourlyRate ?? null,
+        startTime: now.toISOString()
+      };
+
+      // NX : un second démarrage simultané ne remplace jamais le chronomètre en cours
+      const created = await redis.set(timerKey(userId), JSON.stringify(timer), 'NX');
+
+      if (!created) {
+        throw new Error('Chronomètre déjà en cours : arrêtez-le avant d\'en démarrer un autre');
+      }
+
+      secureLogger.info('Chronomètre démarré', {
+        userId,
+        projectId: data.projectId,
+        taskId
+      });
+
+      return this.formatTimer(timer, now);
+
+    } catch (error) {
+      secureLogger.error('Erreur démarrage chronomètre', {
+        userId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Chronomètre en cours (null si aucun)
+   */
+  async getRunningTimer(userId: string): Promise<RunningTimerResponse | null> {
+    const timer = await this.readTimer(userId);
+    return timer ? this.formatTimer(timer) : null;
+  }
+
+  /**
+   * Arrêter le chronomètre et enregistrer le créneau
+   * Le chronomètre est rendu si l'enregistrement échoue (chevauchement, projet clôturé...)
+   */
+  async stopTimer(userId: string): Promise<TimeEntryResponse> {
+    const key = timerKey(userId);
+
+    try {
+      // GETDEL : deux arrêts simultanés ne peuvent pas enregistrer deux fois le même créneau
+      const raw = await redis.getdel(key);
+
+      if (!raw) {
+        throw new Error('Chronomètre introuvable : aucun chronomètre en cours');
+      }
+
+      const timer = JSON.parse(raw) as RunningTimer;
+
+      try {
+        const entry = await this.writeEntry(userId, {
+          projectId: timer.projectId,
+          taskId: timer.taskId,
+          description: timer.description,
+          startTime: new Date(timer.startTime),
+          endTime: new Date(),
+          hourlyRate: timer.hourlyRate
+        });
+
+        secureLogger.info('Chronomètre arrêté', {
+          userId,
+          timeEntryId: entry.id,
+          duration: entry.duration
+        });
+
+        this.refreshBudgetAlerts(userId, [entry.projectId]);
+
+        return this.formatEntry(entry);
+
+      } catch (error) {
+        await redis.set(key, raw, 'NX');
+        throw error;
+      }
+
+    } catch (error) {
+      secureLogger.error('Erreur arrêt chronomètre', {
+        userId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Abandonner le chronomètre sans rien enregistrer
+   */
+  async discardTimer(userId: string): Promise<{ success: boolean; message: string }> {
+    const deleted = await redis.del(timerKey(userId));
+
+    if (deleted === 0) {
+      throw new Error('Chronomètre introuvable : aucun chronomètre en cours');
+    }
+
+    secureLogger.info('Chronomètre abandonné', { userId });
+
+    return {
+      success: true,
+      message: 'Chronomètre abandonné'
+    };
+  }
+
+  // ============================================================================
+  // SAISIES
+  // ============================================================================
+
+  /**
+   * Saisie manuelle d'un créneau terminé
+   */
+  async createEntry(userId: string, data: CreateTimeEntryInput): Promise<TimeEntryResponse> {
+    try {
+      if (data.endTime > new Date()) {
+        throw new Error('Invalid endTime : une saisie manuelle ne peut pas se terminer dans le futur');
+      }
+
+      await this.assertNoRunningTimerOverlap(userId, data.endTime);
+
+      const entry = await this.writeEntry(userId, {
+        projectId: data.projectId,
+        taskId: data.taskId ?? null,
+        description: this.sanitizeDescription(data.description),
+        startTime: data.startTime,
+        endTime: data.endTime,
+        hourlyRate: data.hourlyRate ?? null
+      });
+
+      secureLogger.info('Nouvelle saisie de temps', {
+        userId,
+        timeEntryId: entry.id,
+        projectId: entry.projectId,
+        duration: entry.duration
+      });
+
+      this.refreshBudgetAlerts(userId, [entry.projectId]);
+
+      return this.formatEntry(entry);
+
+    } catch (error) {
+      secureLogger.error('Erreur saisie de temps', {
+        userId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Lister les saisies d'un freelance (plus récentes d'abord)
+   */
+  async getEntries(userId: string, params: Partial<TimeEntryQueryParams> = {}): Promise<TimeEntryListResponse> {
+    try {
+      const { page = 1, limit = 50, from, to, projectId, taskId } = params;
+
+      const skip = (page - 1) * limit;
+
+      const where: Prisma.TimeEntryWhereInput = { project: { userId } };
+
+      if (from || to) {
+        where.startTime = {
+          ...(from && { gte: from }),
+          ...(to && { lt: to })
+        };
+      }
+
+      if (projectId) {
+        where.projectId = projectId;
+      }
+
+      if (taskId) {
+        where.taskId = taskId;
+      }
+
+      const [entries, total] = await Promise.all([
+        this.prisma.timeEntry.findMany({
+          where,
+          skip,
+          take: limit,
+          orderBy: { startTime: 'desc' },
+          include: TIME_ENTRY_INCLUDE
+        }),
+        this.prisma.timeEntry.count({ where })
+      ]);
+
+      return {
+        entries: entries.map(entry => this.formatEntry(entry)),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+          hasNext: page < Math.ceil(total / limit),
+          hasPrev: page > 1
+        }
+      };
+
+    } catch (error) {
+      secureLogger.error('Erreur récupération saisies de temps', {
+        userId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  async getEntryById(userId: string, entryId: string): Promise<TimeEntryResponse> {
+    return this.formatEntry(await this.findOwnedEntry(userId, entryId));
+  }
+
+  /**
+   * Modifier une saisie non facturée ; la durée est recalculée si le créneau change
+   */
+  async updateEntry(userId: string, entryId: string, data: UpdateTimeEntryInput): Promise<TimeEntryResponse> {
+    try {
+      const entry = await this.prisma.$transaction(async (tx) => {
+        await this.lockUser(tx, userId);
+
+        const existing = await tx.timeEntry.findFirst({
+          where: {
+            id: entryId,
+            project: { userId }
+          }
+        });
+
+        if (!existing?.projectId) {
+          throw new Error('Saisie introuvable');
+        }
+
+        this.assertNotBilled(existing);
+
+        // Le projet d'origine doit lui aussi être ouvert
+        await this.assertTarget(tx, userId, existing.projectId, null);
+
+        const projectId = data.projectId ?? existing.projectId;
+        const taskId = data.taskId !== undefined
+          ? data.taskId
+          : projectId === existing.projectId ? existing.taskId : null;
+
+        await this.assertTarget(tx, userId, projectId, taskId);
+
+        const updateData: Prisma.TimeEntryUncheckedUpdateInput = { projectId, taskId };
+
+        if (data.description !== undefined) {
+          updateData.description = this.sanitizeDescription(data.description);
+        }
+
+        if (data.hourlyRate !== undefined) {
+          updateData.hourlyRate = data.hourlyRate;
+        }
+
+        if (data.startTime || data.endTime) {
+          const startTime = data.startTime ?? existing.startTime;
+          const endTime = data.endTime ?? existing.endTime;
+
+          if (!endTime || endTime <= startTime) {
+            throw new Error('Invalid endTime : la fin doit être postérieure au début');
+          }
+
+          if (endTime.getTime() - startTime.getTime() > MAX_TIME_ENTRY_MINUTES * 60 * 1000) {
+            throw new Error('Invalid endTime : une saisie ne peut pas dépasser 24 heures');
+          }
+
+          if (endTime > new Date()) {
+            throw new Error('Invalid endTime : une saisie ne peut pas se terminer dans le futur');
+          }
+
+          await this.assertNoOverlap(tx, userId, { startTime, endTime }, existing.id);
+
+          updateData.startTime = startTime;
+          updateData.endTime = endTime;
+          updateData.duration = roundDuration(elapsedMinutes(startTime, endTime), await this.getRounding(tx, userId));
+        }
+
+        const updated = await tx.timeEntry.update({
+          where: { id: existing.id },
+          data: updateData,
+          include: TIME_ENTRY_INCLUDE
+        });
+
+        return { updated, previousProjectId: existing.projectId };
+      });
+
+      secureLogger.info('Saisie de temps mise à jour', {
+        userId,
+        timeEntryId: entryId,
+        updatedFields: Object.keys(data)
+      });
+
+      this.refreshBudgetAlerts(userId, [entry.previousProjectId, entry.updated.projectId]);
+
+      return this.formatEntry(entry.updated);
+
+    } catch (error) {
+      secureLogger.error('Erreur mise à jour saisie de temps', {
+        userId,
+        timeEntryId: entryId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Supprimer une saisie non facturée d'un projet ouvert
+   */
+  async deleteEntry(userId: string, entryId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const existing = await this.findOwnedEntry(userId, entryId);
+      this.assertNotBilled(existing);
+
+      if (existing.projectId) {
+        await this.assertTarget(this.prisma, userId, existing.projectId, null);
+      }
+
+      await this.prisma.timeEntry.delete({
+        where: { id: existing.id }
+      });
+
+      secureLogger.info('Saisie de temps supprimée', {
+        userId,
+        timeEntryId: entryId
+      });
+
+      this.refreshBudgetAlerts(userId, [existing.projectId]);
+
+      return {
+        success: true,
+        message: 'Saisie supprimée avec succès'
+      };
+
+    } catch (error) {
+      secureLogger.error('Erreur suppression saisie de temps', {
+        userId,
+        timeEntryId: entryId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // FEUILLE DE TEMPS ET RÉGLAGES
+  // ============================================================================
+
+  /**
+   * Feuille de temps de la semaine (lundi → dimanche, UTC) par projet et par tâche
+   */
+  async getTimesheet(userId: string, date: Date = new Date()): Promise<TimesheetResponse> {
+    try {
+      const start = weekStart(date);
+      const end = new Date(start.getTime() + 7 * 24 * 60 * 60 * 1000);
+
+      const entries = await this.prisma.timeEntry.findMany({
+        where: {
+          project: { userId },
+          startTime: { gte: start, lt: end }
+        },
+        include: TIME_ENTRY_INCLUDE,
+        orderBy: { startTime: 'asc' }
+      });
+
+      return buildTimesheet(start, entries.flatMap(entry => entry.project
+        ? [{ startTime: entry.startTime, duration: entry.duration, project: entry.project, task: entry.task }]
+        : []));
+
+    } catch (error) {
+      secureLogger.error('Erreur feuille de temps', {
+        userId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  async getSettings(userId: string): Promise<TimeSettingsResponse> {
+    return { rounding: await this.getRounding(this.prisma, userId) };
+  }
+
+  /**
+   * Modifier l'arrondi (s'applique aux prochaines saisies)
+   */
+  async updateSettings(userId: string, data: UpdateTimeSettingsInput): Promise<TimeSettingsResponse> {
+    const user = await this.prisma.user.update({
+      where: { id: userId },
+      data: { timeRounding: data.rounding },
+      select: { timeRounding: true }
+    });
+
+    secureLogger.info('Arrondi des temps modifié', {
+      userId,
+      rounding: user.timeRounding
+    });
+
+    return { rounding: user.timeRounding };
+  }
+}
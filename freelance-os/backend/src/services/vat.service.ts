@@ -0,0 +1,88 @@
+import { PrismaClient, Prisma, VatRegime } from '@prisma/client';
+import { UpdateVatSettingsInput, VatSettingsResponse } from '@/types/vat.types';
+import { secureLogger } from '@/utils/secure-logger';
+import { FRENCH_VAT_RATES, VAT_REGIME_MENTIONS, resolveVatRegime } from '@/utils/vat';
+
+const VAT_SETTINGS_SELECT = {
+  vatRegime: true,
+  tvaNumber: true,
+  country: true
+} satisfies Prisma.UserSelect;
+
+export class VatService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Utilitaire pour formater les paramètres de TVA du freelance
+   */
+  private formatSettings(user: Prisma.UserGetPayload<{ select: typeof VAT_SETTINGS_SELECT }>): VatSettingsResponse {
+    return {
+      vatRegime: user.vatRegime,
+      tvaNumber: user.tvaNumber,
+      country: user.country,
+      rates: user.vatRegime === VatRegime.STANDARD ? [...FRENCH_VAT_RATES] : [0],
+      mention: VAT_REGIME_MENTIONS[user.vatRegime]
+    };
+  }
+
+  /**
+   * Récupérer le régime de TVA du freelance
+   */
+  async getSettings(userId: string): Promise<VatSettingsResponse> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: VAT_SETTINGS_SELECT
+    });
+
+    if (!user) {
+      throw new Error('Utilisateur introuvable');
+    }
+
+    return this.formatSettings(user);
+  }
+
+  /**
+   * Modifier le régime de TVA (appliqué aux documents créés ensuite)
+   */
+  async updateSettings(userId: string, data: UpdateVatSettingsInput): Promise<VatSettingsResponse> {
+    try {
+      const user = await this.prisma.user.update({
+        where: { id: userId },
+        data: { vatRegime: data.vatRegime },
+        select: VAT_SETTINGS_SELECT
+      });
+
+      secureLogger.info('Régime de TVA mis à jour', { userId, vatRegime: data.vatRegime });
+
+      return this.formatSettings(user);
+
+    } catch (error) {
+      secureLogger.error('Erreur mise à jour régime de TVA', {
+        userId,
+        error: error instanceof Error ? error.message : 'Erreur inconnue'
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Régime d'un nouveau document : paramètre du freelance, pays et n° de TVA du client
+   */
+  async resolveRegime(
+    db: Prisma.TransactionClient | PrismaClient,
+    userId: string,
+    client: { country: string; tvaNumber: string | null }
+  ): Promise<VatRegime> {
+    const user = await db.user.findUnique({
+      where: { id: userId },
+      select: { vatRegime: true, country: true }
+    });
+
+    if (!user) {
+      throw new Error('Utilisateur introuvable');
+    }
+
+    return resolveVatRegime(user.vatRegime, user.country, client);
+  }
+}
@@ -0,0 +1,31 @@
+import { escapeHtml } from '@/templates/pdf-templates'
+import { RenderedEmail } from '@/templates/reminder-email'
+
+/**
+ * Email d'une notification adressée au freelance (alerte budget, etc.)
+ */
+
+export interface NotificationEmailData {
+  firstName: string
+  title: string
+  message: string
+}
+
+export function renderNotificationEmail(data: NotificationEmailData): RenderedEmail {
+  const subject = `[FreelanceOS] ${data.title}`
+  const footer = 'Retrouvez toutes vos notifications dans FreelanceOS.'
+
+  const text = [
+    `Bonjour ${data.firstName},`,
+    '',
+    data.message,
+    '',
+    footer
+  ].join('\n')
+
+  const html = `<p>Bonjour ${escapeHtml(data.firstName)},</p>
+<p>${escapeHtml(data.message)}</p>
+<p>${escapeHtml(footer)}</p>`
+
+  return { subject, text, html }
+}
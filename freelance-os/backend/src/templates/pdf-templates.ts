@@ -0,0 +1,258 @@
+import { PdfDocumentData, PdfParty, PdfTemplateId } from '@/types/pdf.types'
+import { computeVatBreakdown } from '@/utils/invoice-calculations'
+import { VAT_REGIME_MENTIONS } from '@/utils/vat'
+import { BASE_CURRENCY } from '@/utils/exchange-rates'
+import { RECOVERY_INDEMNITY_EUR } from '@/utils/late-penalties'
+
+/**
+ * Templates HTML des factures et devis (rendus en PDF par Puppeteer)
+ * Chaque template partage la même structure et les mêmes mentions légales,
+ * seule la feuille de style change
+ */
+
+export const PDF_TEMPLATES: Record<PdfTemplateId, { label: string; styles: string }> = {
+  classic: {
+    label: 'Classique',
+    styles: `
+      body { font-family: Georgia, 'Times New Roman', serif; color: #222; }
+      .title { font-size: 28px; text-transform: uppercase; letter-spacing: 2px; }
+      table.lines th { border-bottom: 2px solid #222; }
+      table.lines td { border-bottom: 1px solid #ddd; }
+      .totals .grand-total { border-top: 2px solid #222; }
+    `
+  },
+  modern: {
+    label: 'Moderne',
+    styles: `
+      body { font-family: 'Helvetica Neue', Arial, sans-serif; color: #1f2937; }
+      .header { border-left: 6px solid #2563eb; padding-left: 16px; }
+      .title { font-size: 30px; color: #2563eb; font-weight: 700; }
+      table.lines th { background: #2563eb; color: #fff; }
+      table.lines tr:nth-child(even) td { background: #f3f4f6; }
+      .totals .grand-total { background: #2563eb; color: #fff; }
+    `
+  },
+  minimal: {
+    label: 'Minimaliste',
+    styles: `
+      body { font-family: Arial, sans-serif; color: #111; font-size: 11px; }
+      .title { font-size: 20px; font-weight: 400; }
+      table.lines th { text-align: left; font-weight: 400; color: #666; }
+      .totals .grand-total { font-weight: 700; }
+    `
+  }
+}
+
+export const DEFAULT_PDF_TEMPLATE: PdfTemplateId = 'classic'
+
+const BASE_STYLES = `
+  @page { size: A4; margin: 18mm 15mm; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-size: 12px; line-height: 1.45; }
+  .header { display: flex; justify-content: space-between; margin-bottom: 28px; }
+  .meta { text-align: right; }
+  .parties { display: flex; justify-content: space-between; margin-bottom: 24px; }
+  .party { width: 46%; }
+  .party h3 { margin: 0 0 6px; font-size: 11px; text-transform: uppercase; color: #666; }
+  table.lines { width: 100%; border-collapse: collapse; margin-bottom: 16px; }
+  table.lines th, table.lines td { padding: 7px 8px; }
+  table.lines .num { text-align: right; white-space: nowrap; }
+  .totals { margin-left: auto; width: 45%; }
+  .totals div { display: flex; justify-content: space-between; padding: 5px 8px; }
+  .notes { margin-top: 20px; white-space: pre-line; }
+  .legal { margin-top: 28px; font-size: 9.5px; color: #555; }
+  .legal p { margin: 2px 0; }
+  .signature { margin-top: 28px; width: 45%; height: 90px; border: 1px solid #999; padding: 8px; }
+`
+
+/**
+ * Échappement HTML des données utilisateur injectées dans le template
+ */
+export function escapeHtml(value: string | null | undefined): string {
+  if (!value) return ''
+
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+export function formatMoney(amount: number, currency: string): string {
+  return new Intl.NumberFormat('fr-FR', { style: 'currency', currency }).format(amount)
+}
+
+export function formatDate(date: Date): string {
+  return date.toLocaleDateString('fr-FR', { day: '2-digit', month: '2-digit', year: 'numeric' })
+}
+
+function renderParty(title: string, party: PdfParty): string {
+  const lines = [
+    `<strong>${escapeHtml(party.company || party.name)}</strong>`,
+    party.company ? escapeHtml(party.name) : '',
+    escapeHtml(party.address),
+    [party.zipCode, party.city].filter(Boolean).map(escapeHtml).join(' '),
+    party.country !== 'FR' ? escapeHtml(party.country) : '',
+    party.siret ? `SIRET : ${escapeHtml(party.siret)}` : '',
+    party.tvaNumber ? `N° TVA : ${escapeHtml(party.tvaNumber)}` : '',
+    escapeHtml(party.email),
+    escapeHtml(party.phone)
+  ].filter(Boolean)
+
+  return `<div class="party"><h3>${title}</h3>${lines.join('<br>')}</div>`
+}
+
+/**
+ * Mentions légales obligatoires (art. L441-9 et L441-10 du Code de commerce)
+ */
+export function buildLegalMentions(data: PdfDocumentData): string[] {
+  const mentions: string[] = []
+
+  if (data.issuer.siret) {
+    mentions.push(`SIRET : ${data.issuer.siret}`)
+  }
+
+  if (data.issuer.tvaNumber) {
+    mentions.push(`N° de TVA intracommunautaire : ${data.issuer.tvaNumber}`)
+  }
+
+  const regimeMention = VAT_REGIME_MENTIONS[data.vatRegime]
+  if (regimeMention) {
+    mentions.push(regimeMention)
+  }
+
+  // Facture en devise : taux appliqué et TVA exprimée en euros
+  if (data.currency !== BASE_CURRENCY && data.exchangeRate) {
+    mentions.push(
+      `Taux de change : 1 EUR = ${data.exchangeRate.rate} ${data.currency} (cours du ${formatDate(data.exchangeRate.date)}), ` +
+      `soit un montant de TVA de ${formatMoney(data.vatAmount / data.exchangeRate.rate, BASE_CURRENCY)}.`
+    )
+  }
+
+  if (data.kind === 'INVOICE') {
+    if (data.dueDate) {
+      mentions.push(`Conditions de paiement : ${data.paymentTermsDays} jours, échéance le ${formatDate(data.dueDate)}.`)
+    }
+    mentions.push('Pas d\'escompte pour paiement anticipé.')
+    mentions.push(
+      `En cas de retard de paiement, des pénalités de retard sont exigibles au taux annuel de ${data.latePenaltyRate} %, ` +
+      'sans qu\'un rappel soit nécessaire (art. L441-10 du Code de commerce).'
+    )
+    mentions.push(
+      `Indemnité forfaitaire pour frais de recouvrement due en cas de retard de paiement : ${RECOVERY_INDEMNITY_EUR} € ` +
+      '(art. D441-5 du Code de commerce).'
+    )
+  } else if (data.kind === 'CREDIT_NOTE') {
+    mentions.push(`Avoir annulant tout ou partie de la facture N° ${data.correctedInvoiceNumber || ''}.`)
+  } else if (data.validUntil) {
+    mentions.push(`Devis valable jusqu'au ${formatDate(data.validUntil)}.`)
+  }
+
+  return mentions
+}
+
+const DOCUMENT_TITLES: Record<PdfDocumentData['kind'], string> = {
+  INVOICE: 'Facture',
+  CREDIT_NOTE: 'Avoir',
+  QUOTE: 'Devis'
+}
+
+export function documentTitle(data: PdfDocumentData): string {
+  return data.billingStage === 'DEPOSIT' ? 'Facture d\'acompte' : DOCUMENT_TITLES[data.kind]
+}
+
+/**
+ * Feuille de style du document pour un template
+ */
+export function renderDocumentStyles(templateId: PdfTemplateId = DEFAULT_PDF_TEMPLATE): string {
+  const template = PDF_TEMPLATES[templateId] || PDF_TEMPLATES[DEFAULT_PDF_TEMPLATE]
+  return `${BASE_STYLES}${template.styles}`
+}
+
+/**
+ * Contenu du document (en-tête, parties, lignes, totaux et mentions), sans la page HTML
+ * Le cadre "Bon pour accord" d'un devis imprimé est omis quand la signature est recueillie en ligne
+ */
+export function renderDocumentBody(data: PdfDocumentData, options: { signatureBox?: boolean } = {}): string {
+  const title = documentTitle(data)
+  const signatureBox = options.signatureBox ?? data.kind === 'QUOTE'
+
+  // Colonne TVA uniquement pour un document à plusieurs taux
+  const vatBreakdown = computeVatBreakdown(data.items, data.vatRate)
+  const showLineVat = vatBreakdown.length > 1
+
+  const lines = data.items.map(item => `
+    <tr>
+      <td>${escapeHtml(item.description)}</td>
+      <td class="num">${item.quantity}</td>
+      <td class="num">${formatMoney(item.unitPrice, data.currency)}</td>
+      ${showLineVat ? `<td class="num">${item.vatRate} %</td>` : ''}
+      <td class="num">${formatMoney(item.total, data.currency)}</td>
+    </tr>`).join('')
+
+  const vatLines = vatBreakdown.map(vat => `
+    <div><span>TVA ${vat.rate.toNumber()} %${showLineVat ? ` sur ${formatMoney(vat.basisAmount.toNumber(), data.currency)}` : ''}</span><span>${formatMoney(vat.taxAmount.toNumber(), data.currency)}</span></div>`).join('')
+
+  const dateLines = [
+    `Date d'émission : ${formatDate(data.issueDate)}`,
+    data.dueDate && data.kind === 'INVOICE' ? `Échéance : ${formatDate(data.dueDate)}` : '',
+    data.validUntil && data.kind === 'QUOTE' ? `Validité : ${formatDate(data.validUntil)}` : ''
+  ].filter(Boolean)
+
+  const legal = buildLegalMentions(data).map(mention => `<p>${escapeHtml(mention)}</p>`).join('')
+
+  return `
+  <div class="header">
+    <div>
+      <div class="title">${title}</div>
+      <div>N° ${escapeHtml(data.number || 'BROUILLON')}</div>
+    </div>
+    <div class="meta">${dateLines.join('<br>')}</div>
+  </div>
+
+  <div class="parties">
+    ${renderParty('Émetteur', data.issuer)}
+    ${renderParty('Client', data.client)}
+  </div>
+
+  <table class="lines">
+    <thead>
+      <tr>
+        <th>Désignation</th>
+        <th class="num">Quantité</th>
+        <th class="num">Prix unitaire HT</th>
+        ${showLineVat ? '<th class="num">TVA</th>' : ''}
+        <th class="num">Total HT</th>
+      </tr>
+    </thead>
+    <tbody>${lines}</tbody>
+  </table>
+
+  <div class="totals">
+    <div><span>Total HT</span><span>${formatMoney(data.subtotal, data.currency)}</span></div>
+    ${vatLines}
+    <div class="grand-total"><span>Total TTC</span><span>${formatMoney(data.total, data.currency)}</span></div>
+  </div>
+
+  ${data.notes ? `<div class="notes">${escapeHtml(data.notes)}</div>` : ''}
+  ${signatureBox ? '<div class="signature">Bon pour accord — date et signature :</div>' : ''}
+
+  <div class="legal">${legal}</div>`
+}
+
+/**
+ * Génère le document HTML complet d'une facture, d'un avoir ou d'un devis
+ */
+export function renderDocumentHtml(data: PdfDocumentData, templateId: PdfTemplateId = DEFAULT_PDF_TEMPLATE): string {
+  return `<!DOCTYPE html>
+<html lang="fr">
+<head>
+  <meta charset="utf-8">
+  <title>${documentTitle(data)} ${escapeHtml(data.number)}</title>
+  <style>${renderDocumentStyles(templateId)}</style>
+</head>
+<body>${renderDocumentBody(data)}
+</body>
+</html>`
+}
@@ -0,0 +1,39 @@
+import { escapeHtml } from '@/templates/pdf-templates'
+import { RenderedEmail } from '@/templates/reminder-email'
+
+/**
+ * Email de connexion au portail client (lien magique à usage unique)
+ */
+
+export interface PortalLoginEmailData {
+  issuerName: string
+  clientName: string
+  loginUrl: string
+  expiresInMinutes: number
+}
+
+export function renderPortalLoginEmail(data: PortalLoginEmailData): RenderedEmail {
+  const subject = `Votre accès à l'espace client ${data.issuerName}`
+  const intro = `Voici votre lien de connexion à l'espace client de ${data.issuerName} : vous y retrouverez vos factures, vos devis et l'état de vos règlements.`
+  const validity = `Ce lien est valable ${data.expiresInMinutes} minutes et ne peut être utilisé qu'une seule fois. Si vous n'êtes pas à l'origine de cette demande, ignorez cet email.`
+
+  const text = [
+    `Bonjour ${data.clientName},`,
+    '',
+    intro,
+    '',
+    data.loginUrl,
+    '',
+    validity,
+    '',
+    data.issuerName
+  ].join('\n')
+
+  const html = `<p>Bonjour ${escapeHtml(data.clientName)},</p>
+<p>${escapeHtml(intro)}</p>
+<p><a href="${escapeHtml(data.loginUrl)}">Accéder à mon espace client</a></p>
+<p>${escapeHtml(validity)}</p>
+<p>${escapeHtml(data.issuerName)}</p>`
+
+  return { subject, text, html }
+}
@@ -0,0 +1,225 @@
+import { PdfDocumentData, PdfTemplateId } from '@/types/pdf.types'
+import { escapeHtml, formatDate, renderDocumentBody, renderDocumentStyles } from '@/templates/pdf-templates'
+
+/**
+ * Page publique d'acceptation d'un devis
+ * Affiche le devis et, tant qu'il peut être accepté, le formulaire de signature :
+ * nom du signataire, signature saisie ou tracée et mention "Bon pour accord"
+ */
+
+// OPEN : devis acceptable, ACCEPTED : déjà signé, CLOSED : refusé, expiré ou remplacé
+export type QuoteAcceptanceState = 'OPEN' | 'ACCEPTED' | 'CLOSED'
+
+export interface QuoteAcceptancePageData {
+  document: PdfDocumentData
+  templateId: PdfTemplateId
+  state: QuoteAcceptanceState
+  acceptedAt: Date | null
+  closedReason: string | null
+  acceptPath: string
+}
+
+const PAGE_STYLES = `
+  body { max-width: 860px; margin: 0 auto; }
+  .banner { margin: 16px 0; padding: 12px 16px; border-radius: 4px; font-size: 14px; }
+  .banner.success { background: #e8f5e9; color: #1b5e20; }
+  .banner.info { background: #eceff1; color: #37474f; }
+  .acceptance { margin-top: 32px; padding: 20px; border: 1px solid #ccc; border-radius: 4px; }
+  .acceptance h2 { margin-top: 0; font-size: 18px; }
+  .acceptance label { display: block; margin: 12px 0 4px; font-size: 13px; }
+  .acceptance input[type=text] { width: 100%; padding: 8px; box-sizing: border-box; font-size: 14px; }
+  .acceptance .modes label { display: inline; margin-right: 16px; }
+  .acceptance canvas { display: block; width: 100%; height: 160px; border: 1px dashed #999; touch-action: none; background: #fff; }
+  .acceptance .typed-preview { font-family: cursive; font-size: 28px; min-height: 40px; }
+  .acceptance button { margin-top: 16px; padding: 10px 20px; font-size: 14px; cursor: pointer; }
+  .acceptance .error { color: #b71c1c; font-size: 13px; margin-top: 8px; }
+`
+
+// Script du formulaire : bascule saisie / tracé, capture du canvas et envoi JSON
+const FORM_SCRIPT = `
+(function () {
+  var form = document.getElementById('acceptance-form');
+  if (!form) return;
+  var canvas = document.getElementById('signature-pad');
+  var ctx = canvas.getContext('2d');
+  var typed = document.getElementById('typed-signature');
+  var preview = document.getElementById('typed-preview');
+  var errorBox = document.getElementById('acceptance-error');
+  var drawn = false;
+  var drawing = false;
+
+  function resize() {
+    var ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = canvas.offsetHeight * ratio;
+    ctx.scale(ratio, ratio);
+    ctx.lineWidth = 2;
+    ctx.lineCap = 'round';
+    drawn = false;
+  }
+
+  function point(event) {
+    var rect = canvas.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  }
+
+  canvas.addEventListener('pointerdown', function (event) {
+    var p = point(event);
+    drawing = true;
+    canvas.setPointerCapture(event.pointerId);
+    ctx.beginPath();
+    ctx.moveTo(p.x, p.y);
+  });
+  canvas.addEventListener('pointermove', function (event) {
+    if (!drawing) return;
+    var p = point(event);
+    ctx.lineTo(p.x, p.y);
+    ctx.stroke();
+    drawn = true;
+  });
+  canvas.addEventListener('pointerup', function () { drawing = false; });
+  document.getElementById('clear-signature').addEventListener('click', function () {
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    drawn = false;
+  });
+
+  function mode() {
+    return form.querySelector('input[name=signatureType]:checked').value;
+  }
+
+  function toggle() {
+    document.getElementById('typed-block').hidden = mode() !== 'TYPED';
+    document.getElementById('drawn-block').hidden = mode() !== 'DRAWN';
+    if (mode() === 'DRAWN') resize();
+  }
+
+  form.querySelectorAll('input[name=signatureType]').forEach(function (input) {
+    input.addEventListener('change', toggle);
+  });
+  typed.addEventListener('input', function () { preview.textContent = typed.value; });
+
+  form.addEventListener('submit', function (event) {
+    event.preventDefault();
+    errorBox.textContent = '';
+    var type = mode();
+    if (type === 'DRAWN' && !drawn) {
+      errorBox.textContent = 'Veuillez tracer votre signature.';
+      return;
+    }
+    var body = {
+      signerName: form.signerName.value,
+      signatureType: type,
+      signature: type === 'DRAWN' ? canvas.toDataURL('image/png') : typed.value,
+      approval: form.approval.value
+    };
+    var button = form.querySelector('button[type=submit]');
+    button.disabled = true;
+    fetch(form.getAttribute('data-accept-path'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    }).then(function (response) {
+      if (response.ok) {
+        window.location.reload();
+        return;
+      }
+      return response.json().then(function (result) {
+        errorBox.textContent = result.message || 'Impossible d\\'enregistrer votre acceptation.';
+        button.disabled = false;
+      });
+    }).catch(function () {
+      errorBox.textContent = 'Impossible d\\'enregistrer votre acceptation.';
+      button.disabled = false;
+    });
+  });
+
+  toggle();
+})();
+`
+
+function renderAcceptanceForm(data: QuoteAcceptancePageData): string {
+  return `
+  <form id="acceptance-form" class="acceptance" data-accept-path="${escapeHtml(data.acceptPath)}">
+    <h2>Accepter le devis</h2>
+
+    <label for="signer-name">Nom et prénom du signataire</label>
+    <input type="text" id="signer-name" name="signerName" maxlength="100" required autocomplete="name">
+
+    <label>Signature</label>
+    <div class="modes">
+      <label><input type="radio" name="signatureType" value="TYPED" checked> Saisir</label>
+      <label><input type="radio" name="signatureType" value="DRAWN"> Tracer</label>
+    </div>
+
+    <div id="typed-block">
+      <input type="text" id="typed-signature" maxlength="100" placeholder="Votre signature">
+      <div id="typed-preview" class="typed-preview"></div>
+    </div>
+
+    <div id="drawn-block" hidden>
+      <canvas id="signature-pad"></canvas>
+      <button type="button" id="clear-signature">Effacer</button>
+    </div>
+
+    <label for="approval">Recopiez la mention « Bon pour accord »</label>
+    <input type="text" id="approval" name="approval" maxlength="50" required>
+
+    <button type="submit">Signer et accepter le devis</button>
+    <div id="acceptance-error" class="error" role="alert"></div>
+  </form>
+  <script>${FORM_SCRIPT}</script>`
+}
+
+function renderStatusBanner(data: QuoteAcceptancePageData): string {
+  if (data.state === 'ACCEPTED') {
+    const date = data.acceptedAt ? ` le ${formatDate(data.acceptedAt)}` : ''
+    return `<div class="banner success">Devis accepté${date}. Merci pour votre confiance.</div>`
+  }
+
+  if (data.state === 'CLOSED') {
+    return `<div class="banner info">${escapeHtml(data.closedReason || 'Ce devis ne peut plus être accepté.')}</div>`
+  }
+
+  return ''
+}
+
+/**
+ * Page HTML complète d'acceptation d'un devis
+ */
+export function renderQuoteAcceptancePage(data: QuoteAcceptancePageData): string {
+  return `<!DOCTYPE html>
+<html lang="fr">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="robots" content="noindex">
+  <title>Devis ${escapeHtml(data.document.number)}</title>
+  <style>${renderDocumentStyles(data.templateId)}${PAGE_STYLES}</style>
+</head>
+<body>
+  ${renderStatusBanner(data)}
+  ${renderDocumentBody(data.document, { signatureBox: false })}
+  ${data.state === 'OPEN' ? renderAcceptanceForm(data) : ''}
+</body>
+</html>`
+}
+
+/**
+ * Page d'erreur d'un lien invalide ou expiré
+ */
+export function renderLinkErrorPage(message: string): string {
+  return `<!DOCTYPE html>
+<html lang="fr">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="robots" content="noindex">
+  <title>Lien indisponible</title>
+</head>
+<body style="font-family: sans-serif; max-width: 600px; margin: 80px auto; text-align: center;">
+  <h1>Lien indisponible</h1>
+  <p>${escapeHtml(message)}</p>
+  <p>Contactez l'émetteur du devis pour obtenir un nouveau lien.</p>
+</body>
+</html>`
+}
@@ -0,0 +1,86 @@
+import { escapeHtml, formatDate, formatMoney } from '@/templates/pdf-templates'
+
+/**
+ * Email de relance d'une facture en retard
+ * Rappelle le reste dû et les montants exigibles à la date d'envoi : intérêts de retard
+ * au taux de la facture et indemnité forfaitaire pour frais de recouvrement
+ */
+
+export interface ReminderEmailData {
+  issuerName: string
+  clientName: string
+  invoiceNumber: string
+  issueDate: Date
+  dueDate: Date
+  currency: string
+  outstandingAmount: number
+  daysLate: number
+  annualRate: number
+  interestAmount: number
+  indemnityAmount: number
+  totalAmount: number
+}
+
+export interface RenderedEmail {
+  subject: string
+  text: string
+  html: string
+}
+
+/**
+ * Lignes de montants communes aux versions texte et HTML
+ */
+function buildAmountLines(data: ReminderEmailData): Array<[string, string]> {
+  const lines: Array<[string, string]> = [
+    ['Reste dû', formatMoney(data.outstandingAmount, data.currency)],
+    [
+      `Pénalités de retard (${data.daysLate} jours au taux annuel de ${data.annualRate} %)`,
+      formatMoney(data.interestAmount, data.currency)
+    ]
+  ]
+
+  if (data.indemnityAmount > 0) {
+    lines.push(['Indemnité forfaitaire pour frais de recouvrement', formatMoney(data.indemnityAmount, data.currency)])
+  }
+
+  lines.push(['Total exigible', formatMoney(data.outstandingAmount + data.totalAmount, data.currency)])
+
+  return lines
+}
+
+export function renderReminderEmail(data: ReminderEmailData): RenderedEmail {
+  const subject = `Relance : facture N° ${data.invoiceNumber} échue le ${formatDate(data.dueDate)}`
+  const amounts = buildAmountLines(data)
+
+  const intro =
+    `Sauf erreur de notre part, la facture N° ${data.invoiceNumber} du ${formatDate(data.issueDate)}, ` +
+    `échue le ${formatDate(data.dueDate)}, reste impayée à ce jour.`
+  const legal =
+    'Conformément aux articles L441-10 et D441-5 du Code de commerce, des pénalités de retard ' +
+    'et une indemnité forfaitaire pour frais de recouvrement sont exigibles sans qu\'un rappel soit nécessaire.'
+
+  const text = [
+    `Bonjour ${data.clientName},`,
+    '',
+    intro,
+    '',
+    ...amounts.map(([label, amount]) => `${label} : ${amount}`),
+    '',
+    legal,
+    '',
+    'Merci de procéder au règlement dans les meilleurs délais.',
+    '',
+    data.issuerName
+  ].join('\n')
+
+  const html = `<p>Bonjour ${escapeHtml(data.clientName)},</p>
+<p>${escapeHtml(intro)}</p>
+<table>
+${amounts.map(([label, amount]) => `  <tr><td>${escapeHtml(label)}</td><td style="text-align:right">${escapeHtml(amount)}</td></tr>`).join('\n')}
+</table>
+<p>${escapeHtml(legal)}</p>
+<p>Merci de procéder au règlement dans les meilleurs délais.</p>
+<p>${escapeHtml(data.issuerName)}</p>`
+
+  return { subject, text, html }
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { assertWipLimit, compareRanked, isValidRank, rankBetween, rankForPlacement } from '../utils/board-order'
+
+const column = [
+  { id: 'task-b', position: 'r' },
+  { id: 'task-a', position: 'i' },
+  { id: 'task-c', position: 'v' }
+]
+
+describe('Board ordering keys', () => {
+  it('should generate keys strictly between their neighbours', () => {
+    expect(rankBetween(null, null)).toBe('i')
+    expect(rankBetween('i', null)).toBe('r')
+    expect(rankBetween('i', 'r')).toBe('n')
+    expect(rankBetween(null, '1')).toBe('0i')
+    expect(rankBetween('a', 'b')).toBe('ai')
+  })
+
+  it('should keep room when inserting repeatedly at the same spot', () => {
+    let before = 'i'
+    let first = 'i'
+
+    for (let step = 0; step < 200; step++) {
+      const between = rankBetween(before, 'j')
+      const head = rankBetween(null, first)
+
+      expect(isValidRank(between) && between > before && between < 'j').toBe(true)
+      expect(isValidRank(head) && head < first).toBe(true)
+
+      before = between
+      first = head
+    }
+  })
+
+  it('should refuse neighbours out of order', () => {
+    expect(() => rankBetween('r', 'i')).toThrow('Invalid position')
+    expect(() => rankBetween('i0', null)).toThrow('Invalid position')
+  })
+})
+
+describe('Board placement', () => {
+  it('should append at the end without neighbours', () => {
+    expect(rankForPlacement(column, {})).toBe('y')
+    expect(rankForPlacement([], {})).toBe('i')
+  })
+
+  it('should place a card between the given neighbours', () => {
+    const rank = rankForPlacement(column, { afterId: 'task-a', beforeId: 'task-b' })
+    const sorted = [...column, { id: 'moved', position: rank }].sort(compareRanked).map(item => item.id)
+
+    expect(sorted).toEqual(['task-a', 'moved', 'task-b', 'task-c'])
+    expect(rankForPlacement(column, { beforeId: 'task-a' }) < 'i').toBe(true)
+  })
+
+  it('should reject stale neighbours', () => {
+    expect(() => rankForPlacement(column, { afterId: 'task-a', beforeId: 'task-c' })).toThrow('ne se suivent plus')
+    expect(() => rankForPlacement(column, { afterId: 'unknown' })).toThrow('Invalid position')
+  })
+
+  it('should enforce WIP limits', () => {
+    expect(() => assertWipLimit({ name: 'En cours', wipLimit: 3 }, 2)).not.toThrow()
+    expect(() => assertWipLimit({ name: 'En cours', wipLimit: 3 }, 3)).toThrow('Limite WIP déjà atteinte')
+    expect(() => assertWipLimit({ name: 'À faire', wipLimit: null }, 50)).not.toThrow()
+  })
+})
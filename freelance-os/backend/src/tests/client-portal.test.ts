@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Prisma, PrismaClient } from '@prisma/client'
+import { ClientPortalService } from '../services/client-portal.service'
+import { PdfService } from '../services/pdf.service'
+import { generatePortalToken, portalInvoiceWhere, PortalScope } from '../utils/client-portal'
+
+// ============================================================================
+// Base en mémoire : filtres `where` simples (égalité, not, in, gt, lt, OR)
+// ============================================================================
+
+type Row = Record<string, unknown>
+
+// Filtre d'un champ : valeur attendue ou opérateurs
+type Comparable = Date | number | string
+
+interface FieldFilter {
+  not?: unknown
+  in?: unknown[]
+  gt?: Comparable
+  lt?: Comparable
+}
+
+interface Query {
+  where?: Row
+  data?: Row
+}
+
+function isFieldFilter(condition: unknown): condition is FieldFilter {
+  return condition !== null && typeof condition === 'object' && !(condition instanceof Date) && !(condition instanceof Prisma.Decimal)
+}
+
+function matchValue(value: unknown, condition: unknown): boolean {
+  if (condition === undefined) return true
+  if (isFieldFilter(condition)) {
+    if ('not' in condition && value === condition.not) return false
+    if (condition.in && !condition.in.includes(value)) return false
+    if (condition.gt !== undefined && !((value as Comparable) > condition.gt)) return false
+    if (condition.lt !== undefined && !((value as Comparable) < condition.lt)) return false
+    return true
+  }
+  return value === condition
+}
+
+function matches(row: Row, where: Row = {}): boolean {
+  return Object.entries(where).every(([key, condition]) => key === 'OR'
+    ? (condition as Row[]).some(branch => matches(row, branch))
+    : matchValue(row[key], condition))
+}
+
+function model(rows: Row[]) {
+  return {
+    findFirst: async ({ where }: Query) => rows.find(row => matches(row, where)) ?? null,
+    findUnique: async ({ where }: Query) => rows.find(row => matches(row, where)) ?? null,
+    findUniqueOrThrow: async ({ where }: Query) => {
+      const row = rows.find(item => matches(item, where))
+      if (!row) throw new Error('Not found')
+      return row
+    },
+    findMany: async ({ where }: Query = {}) => rows.filter(row => matches(row, where)),
+    count: async ({ where }: Query = {}) => rows.filter(row => matches(row, where)).length,
+    aggregate: async ({ where }: Query) => {
+      const selected = rows.filter(row => matches(row, where))
+      const sum = (field: string) => selected.length
+        ? selected.reduce((total, row) => total.plus(row[field] as Prisma.Decimal), new Prisma.Decimal(0))
+        : null
+      return { _sum: { amount: sum('amount'), total: sum('total') }, _max: { paidAt: null } }
+    },
+    create: async ({ data }: Query) => {
+      const row = { id: `id-${rows.length + 1}-${Math.random()}`, createdAt: new Date(), ...data }
+      rows.push(row)
+      return row
+    },
+    update: async ({ where, data }: Query) => {
+      const row = rows.find(item => matches(item, where))
+      if (!row) throw new Error('Not found')
+      return Object.assign(row, data)
+    },
+    updateMany: async ({ where, data }: Query) => {
+      const selected = rows.filter(row => matches(row, where))
+      for (const row of selected) {
+        Object.assign(row, data)
+      }
+      return { count: selected.length }
+    },
+    deleteMany: async ({ where }: Query) => {
+      const kept = rows.filter(row => !matches(row, where))
+      const count = rows.length - kept.length
+      rows.splice(0, rows.length, ...kept)
+      return { count }
+    }
+  }
+}
+
+const d = (value: number) => new Prisma.Decimal(value)
+
+const freelancer = { firstName: 'Jean', lastName: 'Martin', company: 'Studio Martin' }
+const otherFreelancer = { firstName: 'Anne', lastName: 'Roux', company: null }
+
+// Deux clients du même freelance (A et B) et un client d'un autre freelance (C)
+function buildDatabase() {
+  const clients: Row[] = [
+    { id: 'client-a', userId: 'user-1', name: 'Client A', company: null, portalEnabled: true, portalUpdatedAt: null, user: freelancer },
+    { id: 'client-b', userId: 'user-1', name: 'Client B', company: null, portalEnabled: true, portalUpdatedAt: null, user: freelancer },
+    { id: 'client-c', userId: 'user-2', name: 'Client C', company: null, portalEnabled: false, portalUpdatedAt: null, user: otherFreelancer }
+  ]
+
+  const invoice = (id: string, clientId: string, userId: string, status: string) => ({
+    id,
+    clientId,
+    userId,
+    status,
+    type: 'INVOICE',
+    number: status === 'DRAFT' ? null : id.toUpperCase(),
+    issueDate: new Date('2025-03-01'),
+    dueDate: new Date('2025-03-31'),
+    currency: 'EUR',
+    total: d(1200),
+    correctedInvoiceId: null
+  })
+
+  const invoices: Row[] = [
+    invoice('invoice-a1', 'client-a', 'user-1', 'SENT'),
+    invoice('invoice-a2', 'client-a', 'user-1', 'DRAFT'),
+    invoice('invoice-b1', 'client-b', 'user-1', 'SENT'),
+    invoice('invoice-c1', 'client-c', 'user-2', 'SENT')
+  ]
+
+  const quotes: Row[] = [
+    { id: 'quote-a1', clientId: 'client-a', userId: 'user-1', status: 'SENT', total: d(500) },
+    { id: 'quote-b1', clientId: 'client-b', userId: 'user-1', status: 'SENT', total: d(800) }
+  ]
+
+  const remittanceProofs: Row[] = [
+    { id: 'proof-b1', clientId: 'client-b', userId: 'user-1', invoiceId: 'invoice-b1', fileName: 'virement.pdf', mimeType: 'application/pdf', size: 10, note: null, createdAt: new Date() }
+  ]
+
+  const portalTokens: Row[] = []
+
+  const db: Row = {
+    client: model(clients),
+    invoice: model(invoices),
+    quote: model(quotes),
+    payment: model([]),
+    remittanceProof: model(remittanceProofs),
+    clientPortalToken: model(portalTokens),
+    auditLog: model([]),
+    $transaction: async (fn: (tx: Row) => Promise<unknown>) => fn(db)
+  }
+
+  return { db, clients, portalTokens }
+}
+
+const scopeA: PortalScope = { clientId: 'client-a', userId: 'user-1' }
+
+describe('Client portal tenant isolation', () => {
+  let database: ReturnType<typeof buildDatabase>
+  let service: ClientPortalService
+
+  beforeEach(() => {
+    database = buildDatabase()
+    service = new ClientPortalService(database.db as unknown as PrismaClient)
+  })
+
+  it('should always scope documents to the client and its freelancer', () => {
+    expect(portalInvoiceWhere(scopeA, 'invoice-b1')).toMatchObject({ id: 'invoice-b1', clientId: 'client-a', userId: 'user-1' })
+  })
+
+  it('should only list the issued documents of the signed-in client', async () => {
+    const invoices = await service.listInvoices(scopeA)
+    const quotes = await service.listQuotes(scopeA)
+    const proofs = await service.listRemittanceProofs(scopeA)
+
+    expect(invoices.map(invoice => invoice.id)).toEqual(['invoice-a1'])
+    expect(invoices[0]?.balance?.balanceDue).toBe(1200)
+    expect(quotes.map(quote => quote.id)).toEqual(['quote-a1'])
+    expect(proofs).toEqual([])
+  })
+
+  it('should never serve another client\'s PDFs or accept proofs on their invoices', async () => {
+    const generateInvoicePdf = vi.spyOn(PdfService.prototype, 'generateInvoicePdf')
+    const generateQuotePdf = vi.spyOn(PdfService.prototype, 'generateQuotePdf')
+
+    await expect(service.getInvoicePdf(scopeA, 'invoice-b1')).rejects.toThrow('Facture introuvable')
+    await expect(service.getInvoicePdf(scopeA, 'invoice-c1')).rejects.toThrow('Facture introuvable')
+    await expect(service.getInvoicePdf(scopeA, 'invoice-a2')).rejects.toThrow('Facture introuvable')
+    await expect(service.getQuotePdf(scopeA, 'quote-b1')).rejects.toThrow('Devis introuvable')
+    await expect(service.uploadRemittanceProof(scopeA, 'invoice-b1', {
+      fileName: 'virement.pdf',
+      mimeType: 'application/pdf',
+      content: Buffer.from('%PDF-1.7').toString('base64')
+    })).rejects.toThrow('Facture introuvable')
+
+    // Périmètre forgé : client d'un freelance rattaché à un autre freelance
+    expect(await service.listInvoices({ clientId: 'client-c', userId: 'user-1' })).toEqual([])
+
+    expect(generateInvoicePdf).not.toHaveBeenCalled()
+    expect(generateQuotePdf).not.toHaveBeenCalled()
+  })
+
+  it('should open a session bound to the client of a single-use magic link', async () => {
+    const { token, tokenHash } = generatePortalToken()
+    database.portalTokens.push({
+      id: 'token-a',
+      tokenHash,
+      clientId: 'client-a',
+      expiresAt: new Date(Date.now() + 60_000),
+      usedAt: null,
+      client: database.clients[0]
+    })
+
+    const session = await service.verifyMagicLink(token)
+
+    expect(session.client.id).toBe('client-a')
+    expect(await service.authenticate(session.token)).toEqual(scopeA)
+    await expect(service.verifyMagicLink(token)).rejects.toThrow('Invalid token')
+
+    // Fermeture du portail : la session est aussitôt refusée
+    Object.assign(database.clients[0] ?? {}, { portalEnabled: false })
+    await expect(service.authenticate(session.token)).rejects.toThrow('Invalid token')
+  })
+})
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { Prisma } from '@prisma/client'
+import {
+  assertCreditable,
+  computeBillingSummary,
+  getRemainingCreditable,
+  isFullyCredited
+} from '../utils/credit-notes'
+
+const d = (value: number) => new Prisma.Decimal(value)
+
+describe('Credit notes', () => {
+  it('should compute the remaining creditable amount', () => {
+    expect(getRemainingCreditable(d(1200), d(0)).toNumber()).toBe(1200)
+    expect(getRemainingCreditable(d(1200), d(450.5)).toNumber()).toBe(749.5)
+    expect(getRemainingCreditable(d(1200), d(1200)).toNumber()).toBe(0)
+  })
+
+  it('should accept partial and full credit notes up to the invoice total', () => {
+    expect(() => assertCreditable(d(1200), d(0), d(300))).not.toThrow()
+    expect(() => assertCreditable(d(1200), d(300), d(900))).not.toThrow()
+    expect(isFullyCredited(d(1200), d(300).plus(d(900)))).toBe(true)
+    expect(isFullyCredited(d(1200), d(300))).toBe(false)
+  })
+
+  it('should refuse a credit note above the remaining amount', () => {
+    expect(() => assertCreditable(d(1200), d(1000), d(200.01))).toThrow('Invalid amount')
+    expect(() => assertCreditable(d(1200), d(1200), d(1))).toThrow('Invalid amount')
+    expect(() => assertCreditable(d(1200), d(0), d(0))).toThrow('Invalid amount')
+  })
+
+  it('should net credit notes against revenue and balance', () => {
+    const summary = computeBillingSummary({
+      invoicedSubtotal: d(3000),
+      invoicedTotal: d(3600),
+      creditedSubtotal: d(500),
+      creditedTotal: d(600),
+      paidAmount: d(1200)
+    })
+
+    expect(summary.netRevenue).toBe(2500)
+    expect(summary.creditedRevenue).toBe(500)
+    expect(summary.outstandingBalance).toBe(1800)
+  })
+})
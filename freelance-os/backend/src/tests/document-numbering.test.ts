@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { NumberingReset } from '@prisma/client'
+import {
+  formatDocumentNumber,
+  getNumberingPeriod,
+  nextSequenceValue,
+  rebaseSequence,
+  validateNumberingPattern
+} from '../utils/document-numbering'
+
+describe('Document numbering', () => {
+  const date = new Date(2025, 2, 15)
+
+  describe('formatDocumentNumber', () => {
+    it('should replace date and padded sequence tokens', () => {
+      expect(formatDocumentNumber('FAC-{YYYY}-{seq:4}', 7, date)).toBe('FAC-2025-0007')
+      expect(formatDocumentNumber('{YY}{MM}-{seq:3}', 42, date)).toBe('2503-042')
+    })
+
+    it('should not truncate sequences longer than the padding', () => {
+      expect(formatDocumentNumber('DEV-{seq:2}', 1234, date)).toBe('DEV-1234')
+      expect(formatDocumentNumber('F{seq}', 5, date)).toBe('F5')
+    })
+  })
+
+  describe('getNumberingPeriod', () => {
+    it('should return the reset period key', () => {
+      expect(getNumberingPeriod(NumberingReset.YEARLY, date)).toBe('2025')
+      expect(getNumberingPeriod(NumberingReset.MONTHLY, date)).toBe('2025-03')
+      expect(getNumberingPeriod(NumberingReset.NEVER, date)).toBe('ALL')
+    })
+  })
+
+  describe('rebaseSequence', () => {
+    const lastYear = { resetPeriod: NumberingReset.YEARLY, period: '2024', lastValue: 58 }
+
+    it('should still reset after settings are edited in a new period', () => {
+      const edited = rebaseSequence(lastYear, NumberingReset.YEARLY, date)
+
+      expect(nextSequenceValue(edited, date)).toBe(1)
+    })
+
+    it('should carry on the current sequence when the reset period changes', () => {
+      const current = { ...lastYear, period: '2025' }
+
+      expect(rebaseSequence(current, NumberingReset.MONTHLY, date)).toEqual({
+        resetPeriod: NumberingReset.MONTHLY,
+        period: '2025-03',
+        lastValue: 58
+      })
+      expect(nextSequenceValue(rebaseSequence(lastYear, NumberingReset.MONTHLY, date), date)).toBe(1)
+    })
+  })
+
+  describe('validateNumberingPattern', () => {
+    it('should accept the default patterns', () => {
+      expect(validateNumberingPattern('FAC-{YYYY}-{seq:4}', NumberingReset.YEARLY)).toBeNull()
+      expect(validateNumberingPattern('F{seq:6}', NumberingReset.NEVER)).toBeNull()
+    })
+
+    it('should require exactly one sequence token', () => {
+      expect(validateNumberingPattern('FAC-{YYYY}', NumberingReset.YEARLY)).not.toBeNull()
+      expect(validateNumberingPattern('{seq}-{YYYY}-{seq}', NumberingReset.YEARLY)).not.toBeNull()
+    })
+
+    it('should reject periodic resets without the period in the pattern', () => {
+      expect(validateNumberingPattern('FAC-{seq:4}', NumberingReset.YEARLY)).not.toBeNull()
+      expect(validateNumberingPattern('FAC-{YYYY}-{seq:4}', NumberingReset.MONTHLY)).not.toBeNull()
+    })
+
+    it('should reject unknown tokens and unsafe characters', () => {
+      expect(validateNumberingPattern('FAC-{DD}-{seq}', NumberingReset.NEVER)).not.toBeNull()
+      expect(validateNumberingPattern('<b>{seq}</b>', NumberingReset.NEVER)).not.toBeNull()
+    })
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import { Prisma } from '@prisma/client'
+import {
+  isIsoCurrency,
+  ManualRateProvider,
+  parseEcbRates,
+  parseManualRates,
+  pickRate,
+  sumInCurrency
+} from '../utils/exchange-rates'
+
+const d = (value: number) => new Prisma.Decimal(value)
+
+// Extrait du flux eurofxref de la BCE
+const ECB_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<gesmes:Envelope xmlns:gesmes="http://www.gesmes.org/xml/2002-08-01" xmlns="http://www.ecb.int/vocabulary/2002-08-01/eurofxref">
+  <gesmes:subject>Reference rates</gesmes:subject>
+  <Cube>
+    <Cube time="2025-05-12">
+      <Cube currency="USD" rate="1.1031"/>
+      <Cube currency="GBP" rate="0.8412"/>
+    </Cube>
+    <Cube time="2025-05-09">
+      <Cube currency="USD" rate="1.1243"/>
+      <Cube currency="GBP" rate="0.8461"/>
+    </Cube>
+  </Cube>
+</gesmes:Envelope>`
+
+describe('Exchange rates', () => {
+  it('should validate ISO 4217 currency codes', () => {
+    expect(isIsoCurrency('USD')).toBe(true)
+    expect(isIsoCurrency('GBP')).toBe(true)
+    expect(isIsoCurrency('usd')).toBe(false)
+    expect(isIsoCurrency('XYZ')).toBe(false)
+  })
+
+  it('should parse the ECB feed and use the last published rate', () => {
+    const table = parseEcbRates(ECB_XML)
+
+    expect(table['2025-05-09']).toEqual({ USD: 1.1243, GBP: 0.8461 })
+
+    // Samedi 10 mai : cours du vendredi
+    const weekend = pickRate(table, 'USD', new Date('2025-05-10T14:00:00Z'), 'ECB')
+    expect(weekend.rate.toNumber()).toBe(1.1243)
+    expect(weekend.date.toISOString().slice(0, 10)).toBe('2025-05-09')
+
+    expect(() => pickRate(table, 'USD', new Date('2025-05-01T00:00:00Z'), 'ECB')).toThrow('Invalid currency')
+    expect(() => pickRate(table, 'CHF', new Date('2025-05-12T00:00:00Z'), 'ECB')).toThrow('Invalid currency')
+  })
+
+  it('should read manual rates', async () => {
+    const rates = parseManualRates('usd=1.08, GBP=0.85')
+    const provider = new ManualRateProvider(rates)
+
+    expect(rates).toEqual({ USD: 1.08, GBP: 0.85 })
+    expect((await provider.getRate('GBP', new Date())).rate.toNumber()).toBe(0.85)
+    expect(() => parseManualRates('USD=0')).toThrow('Invalid exchange rate')
+  })
+
+  it('should report amounts in another currency through their EUR value', () => {
+    const amounts = [
+      { amount: d(1000), exchangeRate: null },
+      { amount: d(1103.1), exchangeRate: d(1.1031) },
+      { amount: d(841.2), exchangeRate: d(0.8412) }
+    ]
+
+    expect(sumInCurrency(amounts, d(1)).toNumber()).toBe(3000)
+    expect(sumInCurrency(amounts, d(1.1031)).toNumber()).toBe(3309.3)
+  })
+})
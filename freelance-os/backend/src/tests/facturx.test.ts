@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import { PDFDict, PDFDocument, PDFName } from 'pdf-lib'
+import { FACTURX_PROFILES } from '../types/facturx.types'
+import { PdfDocumentData, PdfParty } from '../types/pdf.types'
+import { buildFacturXXml } from '../utils/facturx'
+import { validateFacturXXml } from '../utils/facturx-validator'
+import { buildSrgbIccProfile, embedFacturX } from '../utils/pdfa'
+
+const party = (name: string, siret: string | null, tvaNumber: string | null): PdfParty => ({
+  name,
+  company: `${name} & Co`,
+  siret,
+  tvaNumber,
+  address: '12 rue de la Paix',
+  zipCode: '75002',
+  city: 'Paris',
+  country: 'FR',
+  email: null,
+  phone: null
+})
+
+const invoice: PdfDocumentData = {
+  kind: 'INVOICE',
+  number: 'FAC-2025-0001',
+  correctedInvoiceNumber: null,
+  billingStage: null,
+  issueDate: new Date(2025, 2, 1),
+  dueDate: new Date(2025, 2, 31),
+  validUntil: null,
+  currency: 'EUR',
+  notes: 'Merci pour votre confiance',
+  issuer: party('Studio', '12345678900012', 'FR32123456789'),
+  client: party('Client', '98765432100019', null),
+  items: [
+    { description: 'Développement <API>', quantity: 2.5, unitPrice: 400, vatRate: 20, total: 1000 },
+    { description: 'Audit', quantity: 1, unitPrice: 250.5, vatRate: 20, total: 250.5 }
+  ],
+  subtotal: 1250.5,
+  vatRate: 20,
+  vatAmount: 250.1,
+  total: 1500.6,
+  vatRegime: 'STANDARD',
+  exchangeRate: null,
+  latePenaltyRate: 12.15,
+  paymentTermsDays: 30
+}
+
+describe('Factur-X', () => {
+  it.each(FACTURX_PROFILES)('should produce XML valid against the %s schema', async profile => {
+    const result = await validateFacturXXml(buildFacturXXml(invoice, profile), profile)
+
+    expect(result.errors).toEqual([])
+    expect(result.valid).toBe(true)
+  })
+
+  it('should validate VAT-exempt invoices (franchise en base)', async () => {
+    const exempt: PdfDocumentData = {
+      ...invoice,
+      issuer: party('Studio', '12345678900012', null),
+      items: invoice.items.map(item => ({ ...item, vatRate: 0 })),
+      vatRate: 0,
+      vatAmount: 0,
+      total: 1250.5,
+      vatRegime: 'FRANCHISE'
+    }
+    const xml = buildFacturXXml(exempt, 'EN16931')
+
+    expect(xml).toContain('<ram:ExemptionReasonCode>VATEX-FR-FRANCHISE</ram:ExemptionReasonCode>')
+    expect((await validateFacturXXml(xml, 'EN16931')).valid).toBe(true)
+  })
+
+  it('should reject XML that does not match the profile schema', async () => {
+    const result = await validateFacturXXml(buildFacturXXml(invoice, 'EN16931'), 'MINIMUM')
+
+    expect(result.valid).toBe(false)
+    expect(result.errors.length).toBeGreaterThan(0)
+  })
+
+  it('should refuse to export an unnumbered invoice', () => {
+    expect(() => buildFacturXXml({ ...invoice, number: null }, 'BASIC')).toThrow('Invalid Factur-X')
+  })
+
+  it('should embed the XML as a PDF/A-3 associated file', async () => {
+    const source = await PDFDocument.create()
+    source.addPage()
+    const xml = buildFacturXXml(invoice, 'EN16931')
+
+    const output = await embedFacturX(Buffer.from(await source.save()), xml, {
+      title: 'Facture FAC-2025-0001',
+      author: 'Studio & Co',
+      subject: 'Facture FAC-2025-0001',
+      profile: 'EN16931',
+      date: new Date(2025, 2, 1)
+    })
+
+    const document = await PDFDocument.load(output)
+    const names = document.catalog.lookup(PDFName.of('Names'), PDFDict)
+    const raw = output.toString('latin1')
+
+    expect(document.getTitle()).toBe('Facture FAC-2025-0001')
+    expect(names.has(PDFName.of('EmbeddedFiles'))).toBe(true)
+    expect(document.catalog.has(PDFName.of('AF'))).toBe(true)
+    expect(document.catalog.has(PDFName.of('OutputIntents'))).toBe(true)
+    expect(raw).toContain('/AFRelationship /Alternative')
+    expect(raw).toContain('<pdfaid:part>3</pdfaid:part>')
+    expect(raw).toContain('<fx:ConformanceLevel>EN 16931</fx:ConformanceLevel>')
+  })
+
+  it('should build a well-formed sRGB ICC profile', () => {
+    const profile = buildSrgbIccProfile()
+
+    expect(profile.readUInt32BE(0)).toBe(profile.length)
+    expect(profile.toString('ascii', 36, 40)).toBe('acsp')
+    expect(profile.readUInt32BE(128)).toBe(9)
+  })
+})
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import { Prisma } from '@prisma/client'
+import { computeInvoiceBalance } from '../utils/invoice-balance'
+import { deriveInvoiceStatus } from '../utils/invoice-lifecycle'
+import { CreatePaymentSchema } from '../types/payment.types'
+
+const d = (value: number) => new Prisma.Decimal(value)
+
+describe('Invoice balance', () => {
+  const invoice = { status: 'SENT' as const, total: d(1200), dueDate: new Date(2025, 5, 30) }
+  const now = new Date(2025, 5, 1)
+
+  it('should keep a partially paid invoice open', () => {
+    const balance = computeInvoiceBalance(invoice.total, { paidAmount: d(450), creditedAmount: d(0) })
+
+    expect(balance.balanceDue).toBe(750)
+    expect(balance.overpayment).toBe(0)
+    expect(deriveInvoiceStatus(invoice, d(450), now)).toBe('SENT')
+  })
+
+  it('should settle the invoice once payments and credit notes cover the total', () => {
+    const balance = computeInvoiceBalance(invoice.total, { paidAmount: d(1000), creditedAmount: d(200) })
+
+    expect(balance.balanceDue).toBe(0)
+    expect(deriveInvoiceStatus(invoice, d(1000).plus(d(200)), now)).toBe('PAID')
+  })
+
+  it('should keep overpayments as client credit', () => {
+    const balance = computeInvoiceBalance(invoice.total, { paidAmount: d(1250.5), creditedAmount: d(0) })
+
+    expect(balance.balanceDue).toBe(0)
+    expect(balance.overpayment).toBe(50.5)
+  })
+
+  it('should validate payment amounts', () => {
+    expect(CreatePaymentSchema.parse({ amount: 19.99 }).method).toBe('BANK_TRANSFER')
+    expect(() => CreatePaymentSchema.parse({ amount: 0 })).toThrow()
+    expect(() => CreatePaymentSchema.parse({ amount: 10.005 })).toThrow()
+  })
+})
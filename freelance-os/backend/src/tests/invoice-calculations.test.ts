@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { computeLineTotal, computeDocumentTotals, roundAmount } from '../utils/invoice-calculations'
+
+describe('Invoice calculations', () => {
+  describe('computeLineTotal', () => {
+    it('should multiply quantity by unit price', () => {
+      expect(computeLineTotal({ quantity: 3, unitPrice: 450 }).toFixed(2)).toBe('1350.00')
+    })
+
+    it('should round half up to the cent', () => {
+      expect(computeLineTotal({ quantity: 1.5, unitPrice: 33.33 }).toFixed(2)).toBe('50.00')
+      expect(computeLineTotal({ quantity: 0.5, unitPrice: 0.05 }).toFixed(2)).toBe('0.03')
+    })
+
+    it('should not suffer from floating point errors', () => {
+      expect(computeLineTotal({ quantity: 3, unitPrice: 0.1 }).toFixed(2)).toBe('0.30')
+    })
+  })
+
+  describe('computeDocumentTotals', () => {
+    it('should compute subtotal, VAT and total from the lines', () => {
+      const totals = computeDocumentTotals([
+        { quantity: 2, unitPrice: 500 },
+        { quantity: 7.5, unitPrice: 60 }
+      ], 20)
+
+      expect(totals.subtotal.toFixed(2)).toBe('1450.00')
+      expect(totals.vatAmount.toFixed(2)).toBe('290.00')
+      expect(totals.total.toFixed(2)).toBe('1740.00')
+    })
+
+    it('should compute VAT on the subtotal', () => {
+      const totals = computeDocumentTotals([
+        { quantity: 1, unitPrice: 10.05 },
+        { quantity: 1, unitPrice: 10.05 }
+      ], 5.5)
+
+      expect(totals.subtotal.toFixed(2)).toBe('20.10')
+      expect(totals.vatAmount.toFixed(2)).toBe('1.11')
+      expect(totals.total.toFixed(2)).toBe('21.21')
+    })
+
+    it('should break down VAT by line rate', () => {
+      const totals = computeDocumentTotals([
+        { quantity: 1, unitPrice: 1000 },
+        { quantity: 2, unitPrice: 35.5, vatRate: 5.5 },
+        { quantity: 1, unitPrice: 120, vatRate: 10 },
+        { quantity: 1, unitPrice: 80, vatRate: 10 }
+      ], 20)
+
+      expect(totals.vatBreakdown.map(vat => [vat.rate.toNumber(), vat.basisAmount.toFixed(2), vat.taxAmount.toFixed(2)])).toEqual([
+        [20, '1000.00', '200.00'],
+        [10, '200.00', '20.00'],
+        [5.5, '71.00', '3.91']
+      ])
+      expect(totals.subtotal.toFixed(2)).toBe('1271.00')
+      expect(totals.vatAmount.toFixed(2)).toBe('223.91')
+      expect(totals.total.toFixed(2)).toBe('1494.91')
+    })
+
+    it('should return zero totals without lines', () => {
+      const totals = computeDocumentTotals([], 20)
+
+      expect(totals.total.toFixed(2)).toBe('0.00')
+    })
+  })
+
+  describe('roundAmount', () => {
+    it('should accept string amounts', () => {
+      expect(roundAmount('12.345').toFixed(2)).toBe('12.35')
+    })
+  })
+})
@@ -0,0 +1,217 @@
+import { describe, it, expect } from 'vitest'
+import { XMLParser } from 'fast-xml-parser'
+import { PdfDocumentData, PdfParty } from '../types/pdf.types'
+import { computeDocumentTotals, computeLineTotal } from '../utils/invoice-calculations'
+import { buildFacturXXml } from '../utils/facturx'
+import { validateFacturXXml } from '../utils/facturx-validator'
+import { buildUblXml } from '../utils/ubl'
+
+// Lecture des XML générés sans préfixes d'espaces de noms
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  removeNSPrefix: true,
+  parseTagValue: false,
+  isArray: name => ['InvoiceLine', 'CreditNoteLine', 'IncludedSupplyChainTradeLineItem', 'TaxSubtotal', 'ApplicableTradeTax'].includes(name)
+})
+
+const party = (name: string, tvaNumber: string | null): PdfParty => ({
+  name,
+  company: null,
+  siret: '12345678900012',
+  tvaNumber,
+  address: '3 place Bellecour',
+  zipCode: '69002',
+  city: 'Lyon',
+  country: 'FR',
+  email: null,
+  phone: null
+})
+
+// Facture telle qu'enregistrée en base : totaux calculés par le service à partir des lignes
+function buildInvoice(lines: Array<{ description: string; quantity: number; unitPrice: number }>, vatRate: number): PdfDocumentData {
+  const totals = computeDocumentTotals(lines, vatRate)
+
+  return {
+    kind: 'INVOICE',
+    number: 'FAC-2025-0042',
+    correctedInvoiceNumber: null,
+    billingStage: null,
+    issueDate: new Date(2025, 4, 12),
+    dueDate: new Date(2025, 5, 11),
+    validUntil: null,
+    currency: 'EUR',
+    notes: null,
+    issuer: party('Atelier Dupont', vatRate > 0 ? 'FR40123456789' : null),
+    client: party('Client SA', 'FR83987654321'),
+    items: lines.map(line => ({
+      ...line,
+      vatRate,
+      total: computeLineTotal(line).toNumber()
+    })),
+    subtotal: totals.subtotal.toNumber(),
+    vatRate,
+    vatAmount: totals.vatAmount.toNumber(),
+    total: totals.total.toNumber(),
+    vatRegime: vatRate > 0 ? 'STANDARD' : 'FRANCHISE',
+    exchangeRate: null,
+    latePenaltyRate: 12.15,
+    paymentTermsDays: 30
+  }
+}
+
+// Montant d'un élément, avec ou sans attribut currencyID
+const amount = (node: unknown) => Number(typeof node === 'object' && node ? (node as Record<string, string>)['#text'] : node)
+const sum = (nodes: unknown[]) => nodes.reduce<number>((total, node) => total + amount(node), 0)
+
+const cases = [
+  { label: 'TVA 20 %', vatRate: 20, lines: [
+    { description: 'Développement', quantity: 3.5, unitPrice: 450 },
+    { description: 'Recette & déploiement', quantity: 1, unitPrice: 333.33 },
+    { description: 'Maintenance', quantity: 0.75, unitPrice: 89.99 }
+  ] },
+  { label: 'franchise en base', vatRate: 0, lines: [
+    { description: 'Formation', quantity: 2, unitPrice: 600 }
+  ] }
+]
+
+describe('Invoice XML export', () => {
+  describe.each(cases)('$label', ({ vatRate, lines }) => {
+    const invoice = buildInvoice(lines, vatRate)
+
+    it('should round-trip UBL totals and VAT breakdown', () => {
+      const { Invoice } = parser.parse(buildUblXml(invoice))
+      const monetary = Invoice.LegalMonetaryTotal
+      const [subtotal] = Invoice.TaxTotal.TaxSubtotal
+
+      expect(Invoice.ID).toBe(invoice.number)
+      expect(amount(monetary.LineExtensionAmount)).toBe(invoice.subtotal)
+      expect(amount(monetary.TaxExclusiveAmount)).toBe(invoice.subtotal)
+      expect(amount(monetary.PayableAmount)).toBe(invoice.total)
+      expect(amount(Invoice.TaxTotal.TaxAmount)).toBe(invoice.vatAmount)
+
+      expect(amount(subtotal.TaxableAmount)).toBe(invoice.subtotal)
+      expect(amount(subtotal.TaxAmount)).toBe(invoice.vatAmount)
+      expect(Number(subtotal.TaxCategory.Percent)).toBe(vatRate)
+      expect(subtotal.TaxCategory.ID).toBe(vatRate > 0 ? 'S' : 'E')
+
+      const lineTotals = Invoice.InvoiceLine.map((line: { LineExtensionAmount: unknown }) => line.LineExtensionAmount)
+      expect(sum(lineTotals)).toBeCloseTo(invoice.subtotal, 2)
+    })
+
+    it('should round-trip CII totals and VAT breakdown', async () => {
+      const xml = buildFacturXXml(invoice, 'EN16931')
+      const { CrossIndustryInvoice } = parser.parse(xml)
+      const transaction = CrossIndustryInvoice.SupplyChainTradeTransaction
+      const settlement = transaction.ApplicableHeaderTradeSettlement
+      const monetary = settlement.SpecifiedTradeSettlementHeaderMonetarySummation
+      const [tax] = settlement.ApplicableTradeTax
+
+      expect((await validateFacturXXml(xml, 'EN16931')).valid).toBe(true)
+      expect(CrossIndustryInvoice.ExchangedDocument.ID).toBe(invoice.number)
+      expect(Number(monetary.TaxBasisTotalAmount)).toBe(invoice.subtotal)
+      expect(amount(monetary.TaxTotalAmount)).toBe(invoice.vatAmount)
+      expect(Number(monetary.GrandTotalAmount)).toBe(invoice.total)
+      expect(Number(monetary.DuePayableAmount)).toBe(invoice.total)
+
+      expect(Number(tax.BasisAmount)).toBe(invoice.subtotal)
+      expect(Number(tax.CalculatedAmount)).toBe(invoice.vatAmount)
+      expect(Number(tax.RateApplicablePercent)).toBe(vatRate)
+
+      const lineTotals = transaction.IncludedSupplyChainTradeLineItem.map(
+        (line: { SpecifiedLineTradeSettlement: { SpecifiedTradeSettlementLineMonetarySummation: { LineTotalAmount: string } } }) =>
+          line.SpecifiedLineTradeSettlement.SpecifiedTradeSettlementLineMonetarySummation.LineTotalAmount
+      )
+      expect(sum(lineTotals)).toBeCloseTo(invoice.subtotal, 2)
+    })
+  })
+
+  describe('credit note', () => {
+    const creditNote: PdfDocumentData = {
+      ...buildInvoice([{ description: 'Remise commerciale', quantity: 1, unitPrice: 150 }], 20),
+      kind: 'CREDIT_NOTE',
+      number: 'AV-2025-0003',
+      correctedInvoiceNumber: 'FAC-2025-0042',
+      dueDate: null
+    }
+
+    it('should export a UBL CreditNote referencing the corrected invoice', () => {
+      const { CreditNote } = parser.parse(buildUblXml(creditNote))
+
+      expect(CreditNote.ID).toBe('AV-2025-0003')
+      expect(String(CreditNote.CreditNoteTypeCode)).toBe('381')
+      expect(CreditNote.BillingReference.InvoiceDocumentReference.ID).toBe('FAC-2025-0042')
+      expect(amount(CreditNote.LegalMonetaryTotal.PayableAmount)).toBe(creditNote.total)
+      expect(amount(CreditNote.CreditNoteLine[0].CreditedQuantity)).toBe(1)
+    })
+
+    it('should export a valid CII credit note with type code 381', async () => {
+      const xml = buildFacturXXml(creditNote, 'EN16931')
+      const { CrossIndustryInvoice } = parser.parse(xml)
+      const settlement = CrossIndustryInvoice.SupplyChainTradeTransaction.ApplicableHeaderTradeSettlement
+
+      expect((await validateFacturXXml(xml, 'EN16931')).valid).toBe(true)
+      expect(String(CrossIndustryInvoice.ExchangedDocument.TypeCode)).toBe('381')
+      expect(settlement.InvoiceReferencedDocument.IssuerAssignedID).toBe('FAC-2025-0042')
+    })
+  })
+
+  describe('VAT regimes', () => {
+    it('should break down a multi-rate invoice by rate', async () => {
+      const lines = [
+        { description: 'Prestation de conseil', quantity: 2, unitPrice: 450, vatRate: 20 },
+        { description: 'Ouvrage technique', quantity: 3, unitPrice: 42.9, vatRate: 5.5 }
+      ]
+      const totals = computeDocumentTotals(lines, 20)
+      const invoice: PdfDocumentData = {
+        ...buildInvoice(lines, 20),
+        items: lines.map(line => ({ ...line, total: computeLineTotal(line).toNumber() })),
+        subtotal: totals.subtotal.toNumber(),
+        vatAmount: totals.vatAmount.toNumber(),
+        total: totals.total.toNumber()
+      }
+
+      const { Invoice } = parser.parse(buildUblXml(invoice))
+      const subtotals = Invoice.TaxTotal.TaxSubtotal
+
+      expect(subtotals.map((subtotal: { TaxCategory: { Percent: string } }) => Number(subtotal.TaxCategory.Percent))).toEqual([20, 5.5])
+      expect(sum(subtotals.map((subtotal: { TaxAmount: unknown }) => subtotal.TaxAmount))).toBeCloseTo(invoice.vatAmount, 2)
+      expect(Number(Invoice.InvoiceLine[1].Item.ClassifiedTaxCategory.Percent)).toBe(5.5)
+
+      const xml = buildFacturXXml(invoice, 'EN16931')
+      const settlement = parser.parse(xml).CrossIndustryInvoice.SupplyChainTradeTransaction.ApplicableHeaderTradeSettlement
+
+      expect((await validateFacturXXml(xml, 'EN16931')).valid).toBe(true)
+      expect(settlement.ApplicableTradeTax).toHaveLength(2)
+    })
+
+    it('should export reverse-charge invoices for EU business clients', async () => {
+      const invoice: PdfDocumentData = {
+        ...buildInvoice([{ description: 'Développement', quantity: 5, unitPrice: 500 }], 0),
+        issuer: party('Atelier Dupont', 'FR40123456789'),
+        client: { ...party('Kunde GmbH', 'DE123456789'), country: 'DE' },
+        vatRegime: 'REVERSE_CHARGE'
+      }
+
+      const { Invoice } = parser.parse(buildUblXml(invoice))
+      const [subtotal] = Invoice.TaxTotal.TaxSubtotal
+
+      expect(subtotal.TaxCategory.ID).toBe('AE')
+      expect(subtotal.TaxCategory.TaxExemptionReasonCode).toBe('VATEX-EU-AE')
+
+      const xml = buildFacturXXml(invoice, 'EN16931')
+      expect(xml).toContain('<ram:CategoryCode>AE</ram:CategoryCode>')
+      expect((await validateFacturXXml(xml, 'EN16931')).valid).toBe(true)
+    })
+  })
+
+  it('should refuse to export a draft invoice', () => {
+    const [firstCase] = cases
+    expect(firstCase).toBeDefined()
+    if (!firstCase) return
+
+    const draft = { ...buildInvoice(firstCase.lines, 20), number: null }
+
+    expect(() => buildUblXml(draft)).toThrow('Invalid UBL')
+    expect(() => buildFacturXXml(draft, 'EN16931')).toThrow('Invalid Factur-X')
+  })
+})
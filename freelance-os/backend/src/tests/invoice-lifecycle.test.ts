@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import { InvoiceStatus, Prisma } from '@prisma/client'
+import {
+  assertTransition,
+  canTransition,
+  deriveInvoiceStatus,
+  isInvoiceEditable
+} from '../utils/invoice-lifecycle'
+
+describe('Invoice lifecycle', () => {
+  describe('transitions', () => {
+    it('should only allow issuing a draft', () => {
+      expect(canTransition(InvoiceStatus.DRAFT, InvoiceStatus.SENT)).toBe(true)
+      expect(canTransition(InvoiceStatus.DRAFT, InvoiceStatus.PAID)).toBe(false)
+      expect(canTransition(InvoiceStatus.DRAFT, InvoiceStatus.CANCELLED)).toBe(false)
+    })
+
+    it('should never return to draft or leave the cancelled state', () => {
+      for (const status of Object.values(InvoiceStatus)) {
+        expect(canTransition(status, InvoiceStatus.DRAFT)).toBe(false)
+        expect(canTransition(InvoiceStatus.CANCELLED, status)).toBe(false)
+      }
+    })
+
+    it('should throw on a forbidden transition', () => {
+      expect(() => assertTransition(InvoiceStatus.PAID, InvoiceStatus.DRAFT)).toThrow('Transition interdite')
+      expect(() => assertTransition(InvoiceStatus.SENT, InvoiceStatus.OVERDUE)).not.toThrow()
+    })
+
+    it('should only consider drafts editable', () => {
+      expect(isInvoiceEditable(InvoiceStatus.DRAFT)).toBe(true)
+      expect(isInvoiceEditable(InvoiceStatus.SENT)).toBe(false)
+      expect(isInvoiceEditable(InvoiceStatus.PAID)).toBe(false)
+    })
+  })
+
+  describe('deriveInvoiceStatus', () => {
+    const now = new Date(2025, 5, 15)
+    const issued = {
+      status: InvoiceStatus.SENT,
+      total: new Prisma.Decimal('1200.00'),
+      dueDate: new Date(2025, 5, 30)
+    }
+
+    it('should derive PAID once the balance is settled', () => {
+      expect(deriveInvoiceStatus(issued, new Prisma.Decimal('1200.00'), now)).toBe(InvoiceStatus.PAID)
+      expect(deriveInvoiceStatus(issued, new Prisma.Decimal('1500.00'), now)).toBe(InvoiceStatus.PAID)
+    })
+
+    it('should derive OVERDUE after the due date when partially paid', () => {
+      const late = { ...issued, dueDate: new Date(2025, 5, 1) }
+
+      expect(deriveInvoiceStatus(late, new Prisma.Decimal('200.00'), now)).toBe(InvoiceStatus.OVERDUE)
+      expect(deriveInvoiceStatus(issued, new Prisma.Decimal('200.00'), now)).toBe(InvoiceStatus.SENT)
+    })
+
+    it('should keep drafts and cancelled invoices untouched', () => {
+      const paid = new Prisma.Decimal('1200.00')
+
+      expect(deriveInvoiceStatus({ ...issued, status: InvoiceStatus.DRAFT }, paid, now)).toBe(InvoiceStatus.DRAFT)
+      expect(deriveInvoiceStatus({ ...issued, status: InvoiceStatus.CANCELLED }, paid, now)).toBe(InvoiceStatus.CANCELLED)
+    })
+  })
+})
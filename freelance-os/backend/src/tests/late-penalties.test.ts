@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import { Prisma } from '@prisma/client'
+import { computeLatePenalties, computePenaltyRate, daysBetween } from '../utils/late-penalties'
+import { renderReminderEmail } from '../templates/reminder-email'
+
+const d = (value: number) => new Prisma.Decimal(value)
+const day = (date: string) => new Date(`${date}T10:00:00Z`)
+
+// Facture de 1 200 € TTC échue le 1er mars, taux BCE 2,15 % + 10 points
+const base = {
+  total: d(1200),
+  dueDate: day('2025-03-01'),
+  annualRate: computePenaltyRate(2.15, 10),
+  asOf: day('2025-03-31'),
+  indemnity: d(40)
+}
+
+describe('Late payment penalties', () => {
+  it('should accrue interest on the outstanding amount per day late', () => {
+    const penalty = computeLatePenalties({ ...base, settlements: [] })
+
+    expect(daysBetween(base.dueDate, base.asOf)).toBe(30)
+    expect(penalty.daysLate).toBe(30)
+    expect(penalty.interestAmount.toNumber()).toBe(11.98)
+    expect(penalty.indemnityAmount.toNumber()).toBe(40)
+    expect(penalty.totalAmount.toNumber()).toBe(51.98)
+  })
+
+  it('should reduce the basis from the date of each late payment', () => {
+    const penalty = computeLatePenalties({
+      ...base,
+      settlements: [
+        { date: day('2025-02-20'), amount: d(200) },
+        { date: day('2025-03-11'), amount: d(400) }
+      ]
+    })
+
+    // 1 000 € pendant 10 jours puis 600 € pendant 20 jours
+    expect(penalty.interestAmount.toNumber()).toBe(7.32)
+    expect(penalty.outstandingAmount.toNumber()).toBe(600)
+  })
+
+  it('should resume after the interest already billed', () => {
+    const penalty = computeLatePenalties({
+      ...base,
+      settlements: [],
+      accrueFrom: day('2025-03-21'),
+      indemnity: d(0)
+    })
+
+    expect(penalty.interestAmount.toNumber()).toBe(3.99)
+    expect(penalty.totalAmount.toNumber()).toBe(3.99)
+  })
+
+  it('should not charge anything before the due date or once paid', () => {
+    expect(computeLatePenalties({ ...base, settlements: [], asOf: day('2025-02-15') }).totalAmount.toNumber()).toBe(0)
+
+    const paid = computeLatePenalties({ ...base, settlements: [{ date: day('2025-02-28'), amount: d(1200) }] })
+    expect(paid.interestAmount.toNumber()).toBe(0)
+  })
+
+  it('should show the computed amounts in the reminder email', () => {
+    const email = renderReminderEmail({
+      issuerName: 'Atelier Dupont',
+      clientName: 'Client SA',
+      invoiceNumber: 'FAC-2025-0042',
+      issueDate: day('2025-01-30'),
+      dueDate: base.dueDate,
+      currency: 'EUR',
+      outstandingAmount: 1200,
+      daysLate: 30,
+      annualRate: 12.15,
+      interestAmount: 11.98,
+      indemnityAmount: 40,
+      totalAmount: 51.98
+    })
+
+    expect(email.subject).toContain('FAC-2025-0042')
+    expect(email.text).toContain('30 jours au taux annuel de 12.15 %')
+    expect(email.text).toMatch(/Total exigible : 1\s251,98\s€/)
+    expect(email.html).toContain('Indemnité forfaitaire pour frais de recouvrement')
+  })
+})
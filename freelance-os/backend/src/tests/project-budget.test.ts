@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import { Prisma } from '@prisma/client'
+import {
+  computeBurnRate,
+  effectiveHourlyRate,
+  invoicedProjectAmount,
+  projectedOverrunDate,
+  reachedThresholds
+} from '../utils/project-budget'
+
+const d = (value: number) => new Prisma.Decimal(value)
+const at = (iso: string) => new Date(iso)
+
+describe('Project budget alerts', () => {
+  it('should report every threshold reached, inclusive', () => {
+    expect(reachedThresholds(d(1000), d(800), [100, 50, 80])).toEqual([50, 80])
+    expect(reachedThresholds(d(1000), d(799.99), [50, 80, 100])).toEqual([50])
+    expect(reachedThresholds(d(1000), d(1250), [50, 80, 100, 120])).toEqual([50, 80, 100, 120])
+  })
+
+  it('should never alert without a positive budget', () => {
+    expect(reachedThresholds(null, d(500), [50])).toEqual([])
+    expect(reachedThresholds(d(0), d(500), [50])).toEqual([])
+  })
+})
+
+describe('Project burn rate', () => {
+  const now = at('2025-06-30T12:00:00Z')
+
+  it('should average the last 28 days of priced time', () => {
+    const burn = computeBurnRate({ startDate: at('2025-01-06T00:00:00Z'), hourlyRate: d(70) }, [
+      { startTime: at('2025-06-10T09:00:00Z'), duration: 480, hourlyRate: null },
+      { startTime: at('2025-06-20T09:00:00Z'), duration: 120, hourlyRate: d(140) },
+      // Hors fenêtre
+      { startTime: at('2025-05-01T09:00:00Z'), duration: 600, hourlyRate: null }
+    ], now)
+
+    expect(burn.windowDays).toBe(28)
+    expect(burn.amountPerDay).toBe(30) // (8 h × 70 + 2 h × 140) / 28
+    expect(burn.hoursPerWeek).toBe(2.5)
+  })
+
+  it('should shorten the window for a project started recently', () => {
+    const burn = computeBurnRate({ startDate: at('2025-06-26T00:00:00Z'), hourlyRate: d(50) }, [
+      { startTime: at('2025-06-27T09:00:00Z'), duration: 240, hourlyRate: null }
+    ], now)
+
+    expect(burn.windowDays).toBe(4)
+    expect(burn.amountPerDay).toBe(50)
+  })
+
+  it('should project the date the remaining budget runs out', () => {
+    expect(projectedOverrunDate(450, 100, now)?.toISOString()).toBe('2025-07-05T12:00:00.000Z')
+    expect(projectedOverrunDate(0, 100, now)).toBeNull()
+    expect(projectedOverrunDate(450, 0, now)).toBeNull()
+    expect(projectedOverrunDate(null, 100, now)).toBeNull()
+  })
+})
+
+describe('Project profitability', () => {
+  it('should divide the invoiced amount by the hours logged', () => {
+    expect(effectiveHourlyRate(d(3000), 3000)).toBe(60)
+    expect(effectiveHourlyRate(d(1000), 90)).toBe(666.67)
+    expect(effectiveHourlyRate(d(1000), 0)).toBeNull()
+  })
+})
+
+describe('Project invoiced amount', () => {
+  const invoice = { subtotal: d(1200), creditedSubtotal: d(0), exchangeRate: null, projectValue: d(1000), totalValue: d(1000) }
+
+  it('should use the issued subtotal net of credit notes, not the hourly rate', () => {
+    expect(invoicedProjectAmount([invoice, { ...invoice, creditedSubtotal: d(200) }]).toNumber()).toBe(2200)
+  })
+
+  it('should convert to euros and split invoices covering several projects', () => {
+    expect(invoicedProjectAmount([{ ...invoice, exchangeRate: d(1.2) }]).toNumber()).toBe(1000)
+    expect(invoicedProjectAmount([{ ...invoice, projectValue: d(250) }]).toNumber()).toBe(300)
+    expect(invoicedProjectAmount([{ ...invoice, totalValue: d(0) }]).toNumber()).toBe(0)
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import { Prisma, ProjectStatus } from '@prisma/client'
+import {
+  assertProjectTransition,
+  canProjectTransition,
+  computeProjectAggregates,
+  isProjectOpen
+} from '../utils/project-lifecycle'
+
+const d = (value: number) => new Prisma.Decimal(value)
+
+describe('Project lifecycle', () => {
+  it('should pause, resume and reopen a project', () => {
+    expect(canProjectTransition(ProjectStatus.ACTIVE, ProjectStatus.ON_HOLD)).toBe(true)
+    expect(canProjectTransition(ProjectStatus.ON_HOLD, ProjectStatus.ACTIVE)).toBe(true)
+    expect(canProjectTransition(ProjectStatus.COMPLETED, ProjectStatus.ACTIVE)).toBe(true)
+    expect(canProjectTransition(ProjectStatus.ON_HOLD, ProjectStatus.COMPLETED)).toBe(false)
+  })
+
+  it('should never leave a cancelled project', () => {
+    for (const to of Object.values(ProjectStatus)) {
+      expect(() => assertProjectTransition(ProjectStatus.CANCELLED, to)).toThrow('Transition interdite')
+    }
+  })
+
+  it('should only keep active and paused projects open', () => {
+    expect(isProjectOpen(ProjectStatus.ACTIVE)).toBe(true)
+    expect(isProjectOpen(ProjectStatus.ON_HOLD)).toBe(true)
+    expect(isProjectOpen(ProjectStatus.COMPLETED)).toBe(false)
+    expect(isProjectOpen(ProjectStatus.CANCELLED)).toBe(false)
+  })
+})
+
+describe('Project aggregates', () => {
+  it('should price each entry at its own rate, else at the project rate', () => {
+    const stats = computeProjectAggregates({ budget: d(1000), hourlyRate: d(60) }, [
+      { duration: 90, hourlyRate: null },
+      { duration: 45, hourlyRate: d(80) }
+    ])
+
+    expect(stats.minutesLogged).toBe(135)
+    expect(stats.hoursLogged).toBe(2.25)
+    expect(stats.budgetConsumed).toBe(150)
+    expect(stats.remainingBudget).toBe(850)
+    expect(stats.budgetConsumedPercent).toBe(15)
+    expect(stats.unpricedMinutes).toBe(0)
+  })
+
+  it('should report unpriced time and no remaining budget without a budget', () => {
+    const stats = computeProjectAggregates({ budget: null, hourlyRate: null }, [
+      { duration: 20, hourlyRate: null },
+      { duration: 40, hourlyRate: d(75) }
+    ])
+
+    expect(stats.unpricedMinutes).toBe(20)
+    expect(stats.budgetConsumed).toBe(50)
+    expect(stats.remainingBudget).toBeNull()
+    expect(stats.budgetConsumedPercent).toBeNull()
+  })
+
+  it('should go negative once the budget is overrun', () => {
+    const stats = computeProjectAggregates({ budget: d(100), hourlyRate: d(50) }, [
+      { duration: 180, hourlyRate: null }
+    ])
+
+    expect(stats.remainingBudget).toBe(-50)
+    expect(stats.budgetConsumedPercent).toBe(150)
+  })
+})
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+import { dayOffset, shiftDate, templateTasksFromProject } from '../utils/project-templates'
+
+const at = (iso: string) => new Date(iso)
+
+describe('Project template offsets', () => {
+  it('should convert due dates into calendar days after the start', () => {
+    const start = at('2025-03-03T09:00:00Z')
+
+    expect(dayOffset(start, at('2025-03-17T18:00:00Z'))).toBe(14)
+    expect(dayOffset(start, at('2025-03-01T00:00:00Z'))).toBe(0)
+    expect(dayOffset(start, null)).toBeNull()
+  })
+
+  it('should shift due dates from a new start date', () => {
+    const start = at('2025-09-01T00:00:00Z')
+
+    expect(shiftDate(start, 14)?.toISOString()).toBe('2025-09-15T00:00:00.000Z')
+    expect(shiftDate(start, null)).toBeNull()
+  })
+
+  it('should keep project tasks ordered by due date then creation', () => {
+    const start = at('2025-03-03T00:00:00Z')
+    const task = (title: string, dueDate: string | null, createdAt: string) => ({
+      title,
+      description: null,
+      priority: 'MEDIUM' as const,
+      dueDate: dueDate ? at(dueDate) : null,
+      createdAt: at(createdAt)
+    })
+
+    const tasks = templateTasksFromProject(start, [
+      task('Recette', null, '2025-03-01T00:00:00Z'),
+      task('Maquettes', '2025-03-10T00:00:00Z', '2025-03-02T00:00:00Z'),
+      task('Brief', '2025-03-04T00:00:00Z', '2025-03-03T00:00:00Z'),
+      task('Mise en ligne', null, '2025-03-02T00:00:00Z')
+    ])
+
+    expect(tasks.map(item => [item.title, item.dueOffsetDays])).toEqual([
+      ['Brief', 1],
+      ['Maquettes', 7],
+      ['Recette', null],
+      ['Mise en ligne', null]
+    ])
+  })
+})
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+import { FollowUpType, InteractionType } from '@prisma/client'
+import { followUpInteraction, mergeNotes, mergeTags, normalizeEmail } from '../utils/prospect-conversion'
+
+const followUp = {
+  type: FollowUpType.CALL,
+  subject: 'Point budget',
+  content: 'Appel de qualification',
+  scheduledAt: new Date('2025-06-02T09:00:00Z'),
+  completedAt: new Date('2025-06-02T09:30:00Z'),
+  result: 'Budget validé'
+}
+
+describe('Prospect conversion', () => {
+  it('should turn a follow-up into a client interaction with its result', () => {
+    expect(followUpInteraction(followUp)).toEqual({
+      type: InteractionType.CALL,
+      subject: 'Point budget',
+      content: 'Appel de qualification\n\nRésultat : Budget validé',
+      scheduledAt: followUp.scheduledAt,
+      completedAt: followUp.completedAt
+    })
+  })
+
+  it('should keep channels without client equivalent as notes', () => {
+    const interaction = followUpInteraction({ ...followUp, type: FollowUpType.LINKEDIN, content: '', result: null })
+
+    expect(interaction.type).toBe(InteractionType.NOTE)
+    expect(interaction.subject).toBe('[LINKEDIN] Point budget')
+    expect(interaction.content).toBe('')
+  })
+
+  it('should compare emails regardless of case and spaces', () => {
+    expect(normalizeEmail('  Jane.Doe@Example.com ')).toBe('jane.doe@example.com')
+    expect(normalizeEmail('   ')).toBeNull()
+    expect(normalizeEmail(null)).toBeNull()
+  })
+
+  it('should merge tags and notes without duplicates', () => {
+    expect(mergeTags(['vip', 'Web'], ['web', 'salon'])).toEqual(['vip', 'Web', 'salon'])
+    expect(mergeNotes('Client historique', 'Rencontré au salon')).toBe('Client historique\n\nRencontré au salon')
+    expect(mergeNotes('Client historique\n\nRencontré au salon', 'Rencontré au salon')).toBe('Client historique\n\nRencontré au salon')
+    expect(mergeNotes(null, 'Rencontré au salon')).toBe('Rencontré au salon')
+    expect(mergeNotes(null, null)).toBeNull()
+  })
+})
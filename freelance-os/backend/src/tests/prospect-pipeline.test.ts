@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import { ProspectStatus } from '@prisma/client'
+import {
+  assertProspectTransition,
+  canProspectTransition,
+  endOfDay,
+  followUpDates
+} from '../utils/prospect-pipeline'
+
+const at = (iso: string) => new Date(iso)
+
+describe('Prospect pipeline', () => {
+  it('should move freely between open stages', () => {
+    expect(canProspectTransition(ProspectStatus.NEW, ProspectStatus.QUALIFIED)).toBe(true)
+    expect(canProspectTransition(ProspectStatus.NEGOTIATION, ProspectStatus.INTERESTED)).toBe(true)
+    expect(canProspectTransition(ProspectStatus.CONTACTED, ProspectStatus.CLOSED_LOST)).toBe(true)
+    expect(canProspectTransition(ProspectStatus.CLOSED_LOST, ProspectStatus.CONTACTED)).toBe(true)
+  })
+
+  it('should reject a move to the same stage or between outcomes', () => {
+    expect(() => assertProspectTransition(ProspectStatus.QUALIFIED, ProspectStatus.QUALIFIED)).toThrow('déjà')
+    expect(() => assertProspectTransition(ProspectStatus.CLOSED_WON, ProspectStatus.CLOSED_LOST)).toThrow('Transition interdite')
+  })
+})
+
+describe('Prospect follow-ups', () => {
+  const followUps = [
+    { scheduledAt: at('2025-06-02T09:00:00Z'), completedAt: at('2025-06-02T10:00:00Z') },
+    { scheduledAt: at('2025-06-05T09:00:00Z'), completedAt: at('2025-06-06T15:00:00Z') },
+    { scheduledAt: at('2025-06-20T09:00:00Z'), completedAt: null },
+    { scheduledAt: at('2025-06-12T09:00:00Z'), completedAt: null }
+  ]
+
+  it('should track the last contact and the next follow-up', () => {
+    expect(followUpDates(ProspectStatus.INTERESTED, followUps)).toEqual({
+      lastContact: at('2025-06-06T15:00:00Z'),
+      nextFollowUp: at('2025-06-12T09:00:00Z')
+    })
+    expect(followUpDates(ProspectStatus.NEW, [])).toEqual({ lastContact: null, nextFollowUp: null })
+  })
+
+  it('should drop the next follow-up of a closed prospect', () => {
+    expect(followUpDates(ProspectStatus.CLOSED_LOST, followUps).nextFollowUp).toBeNull()
+  })
+
+  it('should include the whole UTC day in due follow-ups', () => {
+    expect(endOfDay(at('2025-06-12T23:59:00Z')).toISOString()).toBe('2025-06-13T00:00:00.000Z')
+  })
+})
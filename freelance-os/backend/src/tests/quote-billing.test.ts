@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { Prisma } from '@prisma/client'
+import { computeDocumentTotals, computeVatBreakdown } from '../utils/invoice-calculations'
+import {
+  assertDepositAllowed,
+  computeDepositSubtotal,
+  computeQuoteBillingAmounts,
+  describeDeposit,
+  splitDepositByRate
+} from '../utils/quote-billing'
+
+const d = (value: number) => new Prisma.Decimal(value)
+
+describe('Quote billing', () => {
+  it('should compute a deposit from a percentage or a fixed amount', () => {
+    expect(computeDepositSubtotal(d(4850), { percentage: 30 }).toNumber()).toBe(1455)
+    expect(computeDepositSubtotal(d(333.33), { percentage: 30 }).toNumber()).toBe(100)
+    expect(computeDepositSubtotal(d(4850), { amount: 1000 }).toNumber()).toBe(1000)
+    expect(describeDeposit('DEV-2025-0007', { percentage: 30 })).toBe('Acompte de 30 % sur devis N° DEV-2025-0007')
+  })
+
+  it('should keep a balance to invoice after the deposits', () => {
+    expect(() => assertDepositAllowed(d(5000), d(0), d(1500))).not.toThrow()
+    expect(() => assertDepositAllowed(d(5000), d(1500), d(3499.99))).not.toThrow()
+    expect(() => assertDepositAllowed(d(5000), d(1500), d(3500))).toThrow('Invalid amount')
+    expect(() => assertDepositAllowed(d(5000), d(0), d(0))).toThrow('Invalid amount')
+  })
+
+  it('should deduct the deposits from the final invoice', () => {
+    const quote = computeDocumentTotals([
+      { quantity: 10, unitPrice: 450 },
+      { quantity: 1, unitPrice: 500 }
+    ], 20)
+    const deposit = computeDocumentTotals([{ quantity: 1, unitPrice: 1500 }], 20)
+    const finalInvoice = computeDocumentTotals([
+      { quantity: 10, unitPrice: 450 },
+      { quantity: 1, unitPrice: 500 },
+      { quantity: -1, unitPrice: 1500 }
+    ], 20)
+
+    expect(finalInvoice.subtotal.toNumber()).toBe(3500)
+    expect(deposit.total.plus(finalInvoice.total).equals(quote.total)).toBe(true)
+  })
+
+  it('should split a deposit across the quote VAT rates', () => {
+    const breakdown = computeVatBreakdown([
+      { quantity: 1, unitPrice: 2000, vatRate: 20 },
+      { quantity: 1, unitPrice: 1000.01, vatRate: 10 }
+    ], 20)
+
+    const shares = splitDepositByRate(d(900), breakdown)
+
+    expect(shares.map(share => [share.rate.toNumber(), share.amount.toNumber()])).toEqual([[20, 600], [10, 300]])
+    expect(splitDepositByRate(d(100), breakdown).reduce((sum, share) => sum.plus(share.amount), d(0)).toNumber()).toBe(100)
+  })
+
+  it('should summarize invoiced, paid and remaining amounts', () => {
+    const amounts = computeQuoteBillingAmounts({
+      quotedTotal: d(6000),
+      invoicedTotal: d(1800),
+      creditedTotal: d(0),
+      paidAmount: d(1800)
+    })
+
+    expect(amounts).toEqual({
+      invoicedTotal: 1800,
+      paidAmount: 1800,
+      remainingToInvoice: 4200,
+      remainingToPay: 0
+    })
+  })
+})
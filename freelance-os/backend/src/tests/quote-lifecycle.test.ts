@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { QuoteStatus } from '@prisma/client'
+import {
+  assertQuoteTransition,
+  canQuoteTransition,
+  defaultValidUntil,
+  isQuoteEditable,
+  isQuoteExpired
+} from '../utils/quote-lifecycle'
+
+describe('Quote lifecycle', () => {
+  it('should only answer or expire a sent quote', () => {
+    expect(canQuoteTransition(QuoteStatus.DRAFT, QuoteStatus.SENT)).toBe(true)
+    expect(canQuoteTransition(QuoteStatus.DRAFT, QuoteStatus.ACCEPTED)).toBe(false)
+
+    for (const to of [QuoteStatus.ACCEPTED, QuoteStatus.DECLINED, QuoteStatus.EXPIRED]) {
+      expect(canQuoteTransition(QuoteStatus.SENT, to)).toBe(true)
+    }
+  })
+
+  it('should never leave a final state', () => {
+    for (const from of [QuoteStatus.ACCEPTED, QuoteStatus.DECLINED, QuoteStatus.EXPIRED]) {
+      for (const to of Object.values(QuoteStatus)) {
+        expect(() => assertQuoteTransition(from, to)).toThrow('Transition interdite')
+      }
+    }
+  })
+
+  it('should only consider drafts editable', () => {
+    expect(isQuoteEditable(QuoteStatus.DRAFT)).toBe(true)
+    expect(isQuoteEditable(QuoteStatus.SENT)).toBe(false)
+  })
+
+  it('should expire a sent quote once its validity date is past', () => {
+    const issueDate = new Date('2025-06-01T10:00:00Z')
+    const validUntil = defaultValidUntil(issueDate)
+
+    expect(validUntil.toISOString()).toBe('2025-07-01T10:00:00.000Z')
+    expect(isQuoteExpired({ status: QuoteStatus.SENT, validUntil }, new Date('2025-07-01T09:00:00Z'))).toBe(false)
+    expect(isQuoteExpired({ status: QuoteStatus.SENT, validUntil }, new Date('2025-07-02T00:00:00Z'))).toBe(true)
+    expect(isQuoteExpired({ status: QuoteStatus.ACCEPTED, validUntil }, new Date('2025-08-01T00:00:00Z'))).toBe(false)
+  })
+})
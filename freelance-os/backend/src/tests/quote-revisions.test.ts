@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import { Prisma } from '@prisma/client'
+import { diffQuoteRevisions, formatRevisionNumber, RevisionLine } from '../utils/quote-revisions'
+
+const d = (value: number) => new Prisma.Decimal(value)
+
+const line = (description: string, quantity: number, unitPrice: number, vatRate = 20): RevisionLine => ({
+  description,
+  quantity: d(quantity),
+  unitPrice: d(unitPrice),
+  vatRate: d(vatRate),
+  total: d(quantity * unitPrice)
+})
+
+describe('Quote revisions', () => {
+  it('should keep the base number and suffix later revisions', () => {
+    expect(formatRevisionNumber('DEV-2025-0007', 1)).toBe('DEV-2025-0007')
+    expect(formatRevisionNumber('DEV-2025-0007', 3)).toBe('DEV-2025-0007-V3')
+  })
+
+  it('should report added, removed and changed lines between two revisions', () => {
+    const diff = diffQuoteRevisions(
+      {
+        revision: 1,
+        subtotal: d(3000),
+        vatAmount: d(600),
+        total: d(3600),
+        items: [line('Maquettes', 1, 1200), line('Développement', 3, 500), line('Recette', 1, 300)]
+      },
+      {
+        revision: 2,
+        subtotal: d(3400),
+        vatAmount: d(680),
+        total: d(4080),
+        items: [line('Maquettes', 1, 1200), line('Développement', 4, 500), line('Formation', 1, 200)]
+      }
+    )
+
+    expect(diff.unchangedLines).toBe(1)
+    expect(diff.lines.map(change => [change.change, change.description])).toEqual([
+      ['CHANGED', 'Développement'],
+      ['ADDED', 'Formation'],
+      ['REMOVED', 'Recette']
+    ])
+    expect(diff.lines[0]?.before?.quantity).toBe(3)
+    expect(diff.lines[0]?.after?.total).toBe(2000)
+    expect(diff.total).toEqual({ before: 3600, after: 4080, delta: 480 })
+  })
+})
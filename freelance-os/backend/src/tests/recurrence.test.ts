@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest'
+import { addMonthsClamped, getOccurrenceDate, isOccurrenceDue } from '../utils/recurrence'
+
+const day = (date: Date) => [date.getFullYear(), date.getMonth() + 1, date.getDate()]
+
+describe('Recurring invoice schedule', () => {
+  it('should clamp to the last day of shorter months', () => {
+    expect(day(addMonthsClamped(new Date(2025, 0, 31), 1))).toEqual([2025, 2, 28])
+    expect(day(addMonthsClamped(new Date(2024, 0, 31), 1))).toEqual([2024, 2, 29])
+    expect(day(addMonthsClamped(new Date(2025, 10, 30), 3))).toEqual([2026, 2, 28])
+  })
+
+  it('should compute every occurrence from the start date without drift', () => {
+    const start = new Date(2025, 0, 31)
+
+    expect(day(getOccurrenceDate(start, 'MONTHLY', 1))).toEqual([2025, 2, 28])
+    expect(day(getOccurrenceDate(start, 'MONTHLY', 2))).toEqual([2025, 3, 31])
+    expect(day(getOccurrenceDate(start, 'QUARTERLY', 1))).toEqual([2025, 4, 30])
+    expect(day(getOccurrenceDate(start, 'YEARLY', 1))).toEqual([2026, 1, 31])
+  })
+
+  it('should stop at the end date', () => {
+    const now = new Date(2025, 5, 15)
+
+    expect(isOccurrenceDue(new Date(2025, 5, 1), null, now)).toBe(true)
+    expect(isOccurrenceDue(new Date(2025, 5, 1), new Date(2025, 4, 31), now)).toBe(false)
+    expect(isOccurrenceDue(new Date(2025, 6, 1), null, now)).toBe(false)
+  })
+})
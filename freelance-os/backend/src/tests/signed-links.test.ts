@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest'
+import { signLinkToken, verifyLinkToken } from '../utils/signed-links'
+import { AcceptQuoteOnlineSchema } from '../types/quote.types'
+
+const secret = 'secret-de-test-suffisamment-long-pour-hmac'
+const now = new Date('2025-06-01T10:00:00Z')
+const exp = Math.floor(new Date('2025-06-30T23:59:59Z').getTime() / 1000)
+
+describe('Signed public links', () => {
+  it('should round-trip a token for its purpose until it expires', () => {
+    const token = signLinkToken({ sub: 'quote-id', purpose: 'quote-acceptance', exp }, secret)
+
+    expect(verifyLinkToken(token, 'quote-acceptance', secret, now).sub).toBe('quote-id')
+    expect(() => verifyLinkToken(token, 'quote-acceptance', secret, new Date('2025-07-01T00:00:00Z'))).toThrow('Lien expiré')
+  })
+
+  it('should reject tampered tokens, other secrets and other purposes', () => {
+    const token = signLinkToken({ sub: 'quote-id', purpose: 'quote-acceptance', exp }, secret)
+    const [, signature] = token.split('.')
+    const forged = `${Buffer.from(JSON.stringify({ sub: 'other-id', purpose: 'quote-acceptance', exp })).toString('base64url')}.${signature}`
+
+    expect(() => verifyLinkToken(forged, 'quote-acceptance', secret, now)).toThrow('Invalid token')
+    expect(() => verifyLinkToken(token, 'quote-acceptance', 'autre-secret', now)).toThrow('Invalid token')
+    expect(() => verifyLinkToken(token, 'client-portal', secret, now)).toThrow('lien non valable pour cet usage')
+    expect(() => verifyLinkToken('pas-un-jeton', 'quote-acceptance', secret, now)).toThrow('lien mal formé')
+  })
+
+  it('should require the approval mention and a valid signature', () => {
+    const base = { signerName: 'Marie Durand', signatureType: 'TYPED', signature: 'M. Durand', approval: ' bon pour accord ' }
+
+    expect(AcceptQuoteOnlineSchema.safeParse(base).success).toBe(true)
+    expect(AcceptQuoteOnlineSchema.safeParse({ ...base, approval: 'ok' }).success).toBe(false)
+    expect(AcceptQuoteOnlineSchema.safeParse({ ...base, signatureType: 'DRAWN' }).success).toBe(false)
+    expect(AcceptQuoteOnlineSchema.safeParse({ ...base, signatureType: 'DRAWN', signature: 'data:image/png;base64,iVBORw0KGgo=' }).success).toBe(true)
+  })
+})
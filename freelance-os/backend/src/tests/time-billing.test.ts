@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { Prisma } from '@prisma/client'
+import { BillableTimeEntry, groupBillableTime } from '../utils/time-billing'
+
+const site = { id: 'project-site', name: 'Site vitrine', hourlyRate: new Prisma.Decimal(60) }
+const design = { id: 'task-design', title: 'Maquettes' }
+
+const entry = (id: string, iso: string, duration: number, overrides: Partial<BillableTimeEntry> = {}): BillableTimeEntry => ({
+  id,
+  startTime: new Date(iso),
+  duration,
+  hourlyRate: null,
+  project: site,
+  task: design,
+  ...overrides
+})
+
+describe('Time billing grouping', () => {
+  it('should group entries by task at the project rate', () => {
+    const lines = groupBillableTime([
+      entry('e1', '2025-06-02T09:00:00Z', 90),
+      entry('e2', '2025-06-03T09:00:00Z', 50),
+      entry('e3', '2025-06-03T14:00:00Z', 30, { task: null })
+    ], 'TASK')
+
+    expect(lines).toEqual([
+      { description: 'Site vitrine — Maquettes', quantity: 2.33, unitPrice: 60, minutes: 140, entryIds: ['e1', 'e2'] },
+      { description: 'Site vitrine — Temps hors tâche', quantity: 0.5, unitPrice: 60, minutes: 30, entryIds: ['e3'] }
+    ])
+  })
+
+  it('should group entries by day and split lines on a different rate', () => {
+    const lines = groupBillableTime([
+      entry('e2', '2025-06-02T14:00:00Z', 60, { task: null }),
+      entry('e1', '2025-06-02T09:00:00Z', 60),
+      entry('e3', '2025-06-02T16:00:00Z', 30, { hourlyRate: new Prisma.Decimal(90) }),
+      entry('e4', '2025-06-03T09:00:00Z', 45)
+    ], 'DAY')
+
+    expect(lines.map(line => [line.description, line.unitPrice, line.minutes])).toEqual([
+      ['Site vitrine — 02/06/2025', 60, 120],
+      ['Site vitrine — 02/06/2025', 90, 30],
+      ['Site vitrine — 03/06/2025', 60, 45]
+    ])
+    expect(lines[0]?.entryIds).toEqual(['e1', 'e2'])
+  })
+
+  it('should refuse entries without any hourly rate', () => {
+    expect(() => groupBillableTime([
+      entry('e1', '2025-06-02T09:00:00Z', 60, { project: { ...site, hourlyRate: null } })
+    ], 'TASK')).toThrow('Invalid hourlyRate')
+  })
+})
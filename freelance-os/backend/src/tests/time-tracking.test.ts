@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildTimesheet,
+  elapsedMinutes,
+  intervalsOverlap,
+  roundDuration,
+  weekStart
+} from '../utils/time-tracking'
+
+const at = (iso: string) => new Date(iso)
+
+describe('Time tracking rounding', () => {
+  it('should round to the nearest step', () => {
+    expect(roundDuration(52, 0)).toBe(52)
+    expect(roundDuration(52, 5)).toBe(50)
+    expect(roundDuration(53, 5)).toBe(55)
+    expect(roundDuration(52, 15)).toBe(45)
+    expect(roundDuration(53, 15)).toBe(60)
+  })
+
+  it('should never round a short entry down to zero', () => {
+    expect(roundDuration(2, 15)).toBe(15)
+    expect(elapsedMinutes(at('2025-06-02T09:00:00Z'), at('2025-06-02T09:00:20Z'))).toBe(1)
+  })
+})
+
+describe('Time tracking overlaps', () => {
+  const morning = { startTime: at('2025-06-02T09:00:00Z'), endTime: at('2025-06-02T12:00:00Z') }
+
+  it('should detect an interval starting inside another one', () => {
+    expect(intervalsOverlap(morning, { startTime: at('2025-06-02T11:30:00Z'), endTime: at('2025-06-02T13:00:00Z') })).toBe(true)
+    expect(intervalsOverlap(morning, { startTime: at('2025-06-02T10:00:00Z'), endTime: at('2025-06-02T10:30:00Z') })).toBe(true)
+  })
+
+  it('should accept back-to-back intervals', () => {
+    expect(intervalsOverlap(morning, { startTime: at('2025-06-02T12:00:00Z'), endTime: at('2025-06-02T13:00:00Z') })).toBe(false)
+  })
+})
+
+describe('Weekly timesheet', () => {
+  it('should start the week on Monday', () => {
+    expect(weekStart(at('2025-06-08T22:00:00Z')).toISOString()).toBe('2025-06-02T00:00:00.000Z')
+    expect(weekStart(at('2025-06-02T00:00:00Z')).toISOString()).toBe('2025-06-02T00:00:00.000Z')
+  })
+
+  it('should group minutes by project, task and day', () => {
+    const site = { id: 'project-site', name: 'Site vitrine' }
+    const audit = { id: 'project-audit', name: 'Audit SEO' }
+    const design = { id: 'task-design', title: 'Maquettes' }
+
+    const timesheet = buildTimesheet(at('2025-06-02T00:00:00Z'), [
+      { startTime: at('2025-06-02T09:00:00Z'), duration: 90, project: site, task: design },
+      { startTime: at('2025-06-03T14:00:00Z'), duration: 60, project: site, task: design },
+      { startTime: at('2025-06-03T16:00:00Z'), duration: 30, project: site, task: null },
+      { startTime: at('2025-06-08T10:00:00Z'), duration: 45, project: audit, task: null }
+    ])
+
+    expect(timesheet.totalMinutes).toBe(225)
+    expect(timesheet.days).toEqual([90, 90, 0, 0, 0, 0, 45])
+    expect(timesheet.projects.map(project => project.name)).toEqual(['Audit SEO', 'Site vitrine'])
+
+    const siteRow = timesheet.projects[1]
+    expect(siteRow?.totalMinutes).toBe(180)
+    expect(siteRow?.tasks).toEqual([
+      { taskId: 'task-design', title: 'Maquettes', days: [90, 60, 0, 0, 0, 0, 0], totalMinutes: 150 },
+      { taskId: null, title: null, days: [0, 30, 0, 0, 0, 0, 0], totalMinutes: 30 }
+    ])
+  })
+})
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest'
+import { VatRegime } from '@prisma/client'
+import { computeDocumentTotals } from '../utils/invoice-calculations'
+import { applyVatRegime, resolveVatRegime } from '../utils/vat'
+
+describe('VAT regimes', () => {
+  it('should apply the franchise en base whatever the client', () => {
+    expect(resolveVatRegime(VatRegime.FRANCHISE, 'FR', { country: 'FR', tvaNumber: null })).toBe(VatRegime.FRANCHISE)
+    expect(resolveVatRegime(VatRegime.FRANCHISE, 'FR', { country: 'DE', tvaNumber: 'DE123456789' })).toBe(VatRegime.FRANCHISE)
+  })
+
+  it('should reverse charge only for VAT-registered clients of another EU member state', () => {
+    expect(resolveVatRegime(VatRegime.STANDARD, 'FR', { country: 'DE', tvaNumber: 'DE123456789' })).toBe(VatRegime.REVERSE_CHARGE)
+    expect(resolveVatRegime(VatRegime.STANDARD, 'FR', { country: 'DE', tvaNumber: null })).toBe(VatRegime.STANDARD)
+    expect(resolveVatRegime(VatRegime.STANDARD, 'FR', { country: 'FR', tvaNumber: 'FR40123456789' })).toBe(VatRegime.STANDARD)
+    expect(resolveVatRegime(VatRegime.STANDARD, 'FR', { country: 'CH', tvaNumber: 'CHE123456789' })).toBe(VatRegime.STANDARD)
+  })
+
+  it('should zero every line rate outside the standard regime', () => {
+    const lines = [
+      { quantity: 1, unitPrice: 500 },
+      { quantity: 1, unitPrice: 100, vatRate: 5.5 }
+    ]
+
+    const standard = computeDocumentTotals(applyVatRegime(lines, VatRegime.STANDARD, 20), 20)
+    const franchise = computeDocumentTotals(applyVatRegime(lines, VatRegime.FRANCHISE, 20), 0)
+
+    expect(standard.vatAmount.toFixed(2)).toBe('105.50')
+    expect(franchise.vatAmount.toFixed(2)).toBe('0.00')
+    expect(franchise.vatBreakdown).toHaveLength(1)
+  })
+})
@@ -0,0 +1,125 @@
+import { z } from 'zod';
+import { InvoiceStatus, InvoiceType, QuoteStatus } from '@prisma/client';
+import { InvoiceBalance } from '@/utils/invoice-balance';
+import { REMITTANCE_PROOF_MIME_TYPES } from '@/utils/client-portal';
+
+// ============================================================================
+// VALIDATIONS ZOD - ACCÈS AU PORTAIL (FREELANCE)
+// ============================================================================
+
+// Ouverture ou fermeture du portail d'un client ; l'email du client est utilisé à défaut
+export const UpdatePortalAccessSchema = z.object({
+  enabled: z.boolean(),
+
+  email: z.string()
+    .email('Format email invalide')
+    .max(255)
+    .optional(),
+}).strict();
+
+// ============================================================================
+// VALIDATIONS ZOD - PORTAIL CLIENT
+// ============================================================================
+
+export const RequestPortalLinkSchema = z.object({
+  email: z.string()
+    .email('Format email invalide')
+    .max(255),
+}).strict();
+
+export const VerifyPortalLinkSchema = z.object({
+  token: z.string()
+    .min(20, 'Lien invalide')
+    .max(200, 'Lien invalide'),
+}).strict();
+
+// Justificatif encodé en base64 (5 Mo maximum une fois décodé)
+export const UploadRemittanceProofSchema = z.object({
+  fileName: z.string()
+    .trim()
+    .min(1, 'Le nom du fichier est obligatoire')
+    .max(150, 'Le nom du fichier ne peut pas dépasser 150 caractères'),
+
+  mimeType: z.enum(REMITTANCE_PROOF_MIME_TYPES),
+
+  content: z.string()
+    .min(1, 'Le fichier est vide')
+    .max(7 * 1024 * 1024, 'Le justificatif doit faire au plus 5 Mo')
+    .regex(/^[A-Za-z0-9+/]+={0,2}$/, 'Contenu base64 invalide'),
+
+  note: z.string()
+    .max(500, 'La note ne peut pas dépasser 500 caractères')
+    .optional(),
+}).strict();
+
+// ============================================================================
+// TYPES TYPESCRIPT
+// ============================================================================
+
+export type UpdatePortalAccessInput = z.infer<typeof UpdatePortalAccessSchema>;
+export type RequestPortalLinkInput = z.infer<typeof RequestPortalLinkSchema>;
+export type VerifyPortalLinkInput = z.infer<typeof VerifyPortalLinkSchema>;
+export type UploadRemittanceProofInput = z.infer<typeof UploadRemittanceProofSchema>;
+
+export interface PortalAccessResponse {
+  clientId: string;
+  enabled: boolean;
+  email: string | null;
+}
+
+export interface PortalSessionResponse {
+  token: string;
+  expiresAt: Date;
+  client: {
+    id: string;
+    name: string;
+    company: string | null;
+  };
+  issuer: string;
+}
+
+export interface PortalInvoiceResponse {
+  id: string;
+  number: string | null;
+  type: InvoiceType;
+  status: InvoiceStatus;
+  issueDate: Date;
+  dueDate: Date;
+  currency: string;
+  total: number;
+  balance: InvoiceBalance | null; // null pour un avoir
+}
+
+export interface PortalQuoteResponse {
+  id: string;
+  number: string | null;
+  status: QuoteStatus;
+  issueDate: Date;
+  validUntil: Date;
+  acceptedAt: Date | null;
+  currency: string;
+  total: number;
+}
+
+// Reste dû par devise (les factures d'un client peuvent être émises en plusieurs devises)
+export interface PortalOverviewResponse {
+  client: PortalSessionResponse['client'];
+  issuer: string;
+  invoicesCount: number;
+  openQuotesCount: number;
+  balances: Array<{
+    currency: string;
+    balanceDue: number;
+    overdueAmount: number;
+  }>;
+}
+
+export interface RemittanceProofResponse {
+  id: string;
+  invoiceId: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  note: string | null;
+  createdAt: Date;
+}
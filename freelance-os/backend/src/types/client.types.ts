@@ -170,9 +170,12 @@ export interface ClientWithStats {
   updatedAt: Date;
   
   // Statistiques calculées
+  // Montants exprimés dans la devise du dashboard (DashboardSettings.currency)
   _stats: {
     totalInvoices: number;
-    totalRevenue: number;
+    totalRevenue: number; // CA HT net des avoirs
+    outstandingBalance: number; // Reste dû TTC (factures - avoirs - paiements)
+    creditBalance: number; // Trop-perçus conservés au crédit du client
     averagePaymentDelay: number;
     interactionsCount: number;
   };
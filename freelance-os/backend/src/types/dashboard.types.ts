@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { PaymentMethod } from '@prisma/client';
+
+// ============================================================================
+// VALIDATIONS ZOD - DASHBOARD
+// ============================================================================
+
+// Période de reporting (bornes incluses, optionnelles)
+export const DashboardPeriodQuerySchema = z.object({
+  from: z.string()
+    .datetime()
+    .transform(str => new Date(str))
+    .optional(),
+
+  to: z.string()
+    .datetime()
+    .transform(str => new Date(str))
+    .optional(),
+}).refine(period => !period.from || !period.to || period.from <= period.to, {
+  message: 'La date de début doit précéder la date de fin',
+});
+
+// ============================================================================
+// TYPES TYPESCRIPT
+// ============================================================================
+
+export type DashboardPeriodQuery = z.infer<typeof DashboardPeriodQuerySchema>;
+
+export interface PaymentMethodStats {
+  method: PaymentMethod;
+  count: number;
+  amount: number;
+}
+
+export interface PaymentMethodsResponse {
+  currency: string;
+  totalAmount: number;
+  methods: PaymentMethodStats[];
+}
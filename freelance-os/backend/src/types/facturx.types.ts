@@ -0,0 +1,23 @@
+import { z } from 'zod';
+
+// ============================================================================
+// PROFILS FACTUR-X
+// ============================================================================
+
+export const FACTURX_PROFILES = ['MINIMUM', 'BASIC_WL', 'BASIC', 'EN16931'] as const;
+
+export type FacturXProfile = typeof FACTURX_PROFILES[number];
+
+export const FacturXProfileSchema = z.enum(FACTURX_PROFILES);
+
+export const DEFAULT_FACTURX_PROFILE: FacturXProfile = 'EN16931';
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+export interface FacturXValidationResult {
+  valid: boolean;
+  profile: FacturXProfile;
+  errors: string[];
+}
@@ -0,0 +1,214 @@
+import { z } from 'zod';
+import { BillingStage, InvoiceStatus, InvoiceType, VatRegime } from '@prisma/client';
+import { isIsoCurrency } from '@/utils/exchange-rates';
+
+// ============================================================================
+// VALIDATIONS ZOD - LIGNES DE FACTURE
+// ============================================================================
+
+export const InvoiceItemSchema = z.object({
+  description: z.string()
+    .min(1, 'La description est obligatoire')
+    .max(500, 'La description ne peut pas dépasser 500 caractères'),
+
+  quantity: z.number()
+    .positive('La quantité doit être positive')
+    .max(99999999, 'Quantité trop élevée'),
+
+  unitPrice: z.number()
+    .min(0, 'Le prix unitaire doit être positif')
+    .max(99999999, 'Prix unitaire trop élevé'),
+
+  // Taux propre à la ligne (20, 10, 5,5 %...) ; à défaut, taux de la facture
+  vatRate: z.number()
+    .min(0, 'Le taux de TVA doit être positif')
+    .max(100, 'Le taux de TVA ne peut pas dépasser 100%')
+    .optional(),
+});
+
+// ============================================================================
+// VALIDATIONS ZOD - FACTURES
+// ============================================================================
+
+// Devise ISO 4217 du document (USD, GBP...), en majuscules
+export const CurrencySchema = z.string()
+  .length(3, 'Le code devise doit faire 3 caractères')
+  .transform(code => code.toUpperCase())
+  .refine(isIsoCurrency, 'Code devise ISO 4217 inconnu');
+
+// Les montants (subtotal, vatAmount, total) ne sont jamais acceptés du client :
+// ils sont recalculés à partir des lignes par le service
+export const InvoiceBaseSchema = z.object({
+  clientId: z.string()
+    .cuid('ID client invalide'),
+
+  issueDate: z.string()
+    .datetime()
+    .transform(str => new Date(str))
+    .optional(),
+
+  dueDate: z.string()
+    .datetime()
+    .transform(str => new Date(str))
+    .optional(),
+
+  // Taux par défaut des lignes (ignoré en franchise en base et en autoliquidation)
+  vatRate: z.number()
+    .min(0, 'Le taux de TVA doit être positif')
+    .max(100, 'Le taux de TVA ne peut pas dépasser 100%')
+    .default(20),
+
+  currency: CurrencySchema
+    .default('EUR'),
+
+  notes: z.string()
+    .max(2000, 'Les notes ne peuvent pas dépasser 2000 caractères')
+    .optional()
+    .or(z.literal('')),
+
+  items: z.array(InvoiceItemSchema)
+    .min(1, 'Une facture doit contenir au moins une ligne')
+    .max(200, 'Une facture ne peut pas contenir plus de 200 lignes'),
+});
+
+// Schéma pour création facture
+export const CreateInvoiceSchema = InvoiceBaseSchema.strict();
+
+// Schéma pour mise à jour facture (les lignes envoyées remplacent les existantes)
+export const UpdateInvoiceSchema = InvoiceBaseSchema.partial().strict();
+
+// Schéma pour un avoir : sans lignes, l'avoir reprend toutes celles de la facture (avoir total)
+export const CreateCreditNoteSchema = z.object({
+  items: InvoiceBaseSchema.shape.items.optional(),
+
+  notes: InvoiceBaseSchema.shape.notes,
+}).strict();
+
+// Schéma pour l'émission : taux saisi (unités de la devise pour 1 EUR) à la place du fournisseur
+export const IssueInvoiceSchema = z.object({
+  exchangeRate: z.number()
+    .positive('Le taux de change doit être positif')
+    .max(1000000, 'Taux de change trop élevé')
+    .optional(),
+}).strict();
+
+// Schéma pour les paramètres de requête
+export const InvoiceQuerySchema = z.object({
+  page: z.string()
+    .regex(/^\d+$/)
+    .transform(Number)
+    .refine(val => val > 0)
+    .default('1'),
+
+  limit: z.string()
+    .regex(/^\d+$/)
+    .transform(Number)
+    .refine(val => val > 0 && val <= 100)
+    .default('20'),
+
+  search: z.string()
+    .max(100)
+    .optional(),
+
+  status: z.nativeEnum(InvoiceStatus)
+    .optional(),
+
+  type: z.nativeEnum(InvoiceType)
+    .optional(),
+
+  clientId: z.string()
+    .cuid()
+    .optional(),
+
+  sortBy: z.enum(['issueDate', 'dueDate', 'number', 'total', 'createdAt'])
+    .default('issueDate'),
+
+  sortOrder: z.enum(['asc', 'desc'])
+    .default('desc'),
+});
+
+// Formats d'export XML autonomes (UBL 2.1 ou UN/CEFACT CII)
+export const INVOICE_EXPORT_FORMATS = ['ubl', 'cii'] as const;
+
+export const InvoiceExportQuerySchema = z.object({
+  format: z.enum(INVOICE_EXPORT_FORMATS),
+});
+
+// ============================================================================
+// TYPES TYPESCRIPT
+// ============================================================================
+
+// Types inférés depuis Zod
+export type InvoiceItemInput = z.infer<typeof InvoiceItemSchema>;
+export type CreateInvoiceInput = z.infer<typeof CreateInvoiceSchema>;
+export type UpdateInvoiceInput = z.infer<typeof UpdateInvoiceSchema>;
+export type CreateCreditNoteInput = z.infer<typeof CreateCreditNoteSchema>;
+export type IssueInvoiceInput = z.infer<typeof IssueInvoiceSchema>;
+export type InvoiceQueryParams = z.infer<typeof InvoiceQuerySchema>;
+export type InvoiceExportFormat = typeof INVOICE_EXPORT_FORMATS[number];
+
+// Types pour les réponses API (montants sérialisés en number)
+export interface InvoiceItemResponse {
+  id: string;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  vatRate: number;
+  total: number;
+}
+
+export interface VatBreakdownResponse {
+  rate: number;
+  basisAmount: number;
+  taxAmount: number;
+}
+
+export interface InvoiceResponse {
+  id: string;
+  number: string | null;
+  type: InvoiceType;
+  correctedInvoiceId: string | null;
+  recurringInvoiceId: string | null;
+  quoteId: string | null;
+  billingStage: BillingStage | null;
+  clientId: string;
+  issueDate: Date;
+  dueDate: Date;
+  paidAt: Date | null;
+  subtotal: number;
+  vatRate: number;
+  vatAmount: number;
+  total: number;
+  vatRegime: VatRegime;
+  vatBreakdown: VatBreakdownResponse[];
+  status: InvoiceStatus;
+  currency: string;
+  exchangeRate: number | null;
+  exchangeRateDate: Date | null;
+  exchangeRateSource: string | null;
+  latePenaltyRate: number | null;
+  penalizedInvoiceId: string | null;
+  penaltyUntil: Date | null;
+  notes: string | null;
+  pdfPath: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  client?: {
+    id: string;
+    name: string;
+    company: string | null;
+  };
+  items: InvoiceItemResponse[];
+}
+
+export interface InvoiceListResponse {
+  invoices: InvoiceResponse[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
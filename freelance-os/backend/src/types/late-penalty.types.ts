@@ -0,0 +1,76 @@
+import { z } from 'zod';
+
+// ============================================================================
+// VALIDATIONS ZOD - PÉNALITÉS DE RETARD
+// ============================================================================
+
+const RateSchema = z.number()
+  .min(0, 'Le taux doit être positif')
+  .max(100, 'Le taux ne peut pas dépasser 100%');
+
+// Taux de référence (refinancement BCE) et marge ; le taux annuel en est la somme
+export const UpdatePenaltySettingsSchema = z.object({
+  referenceRate: RateSchema.optional(),
+
+  margin: RateSchema.optional(),
+}).strict().refine(data => data.referenceRate !== undefined || data.margin !== undefined, {
+  message: 'Le taux de référence ou la marge est requis',
+});
+
+// Date de calcul des pénalités (aujourd'hui par défaut)
+export const LatePenaltyQuerySchema = z.object({
+  asOf: z.string()
+    .datetime()
+    .transform(str => new Date(str))
+    .optional(),
+});
+
+// Facture de pénalités : brouillon à émettre comme toute facture
+export const CreatePenaltyInvoiceSchema = z.object({
+  dueDate: z.string()
+    .datetime()
+    .transform(str => new Date(str))
+    .optional(),
+
+  notes: z.string()
+    .max(2000, 'Les notes ne peuvent pas dépasser 2000 caractères')
+    .optional()
+    .or(z.literal('')),
+}).strict();
+
+// ============================================================================
+// TYPES TYPESCRIPT
+// ============================================================================
+
+export type UpdatePenaltySettingsInput = z.infer<typeof UpdatePenaltySettingsSchema>;
+export type LatePenaltyQuery = z.infer<typeof LatePenaltyQuerySchema>;
+export type CreatePenaltyInvoiceInput = z.infer<typeof CreatePenaltyInvoiceSchema>;
+
+export interface PenaltySettingsResponse {
+  referenceRate: number;
+  margin: number;
+  annualRate: number;
+  indemnityAmount: number; // Indemnité forfaitaire en euros
+}
+
+// Montants exprimés dans la devise de la facture
+export interface LatePenaltyResponse {
+  invoiceId: string;
+  number: string;
+  currency: string;
+  dueDate: Date;
+  asOf: Date;
+  daysLate: number;
+  annualRate: number;
+  outstandingAmount: number;
+  interestAmount: number;
+  indemnityAmount: number;
+  totalAmount: number;
+  billedUntil: Date | null; // Intérêts déjà facturés jusqu'à cette date
+}
+
+export interface InvoiceReminderResponse {
+  sentTo: string;
+  subject: string;
+  penalties: LatePenaltyResponse;
+}
@@ -0,0 +1,79 @@
+import { z } from 'zod';
+import { NotificationType } from '@prisma/client';
+import { MAX_BUDGET_ALERT_THRESHOLD, MAX_BUDGET_ALERT_THRESHOLDS } from '@/utils/project-budget';
+
+// ============================================================================
+// VALIDATIONS ZOD - NOTIFICATIONS
+// ============================================================================
+
+export const NotificationQuerySchema = z.object({
+  page: z.string()
+    .regex(/^\d+$/)
+    .transform(Number)
+    .refine(val => val > 0)
+    .default('1'),
+
+  limit: z.string()
+    .regex(/^\d+$/)
+    .transform(Number)
+    .refine(val => val > 0 && val <= 100)
+    .default('20'),
+
+  unread: z.enum(['true', 'false'])
+    .transform(value => value === 'true')
+    .optional(),
+});
+
+// Seuils d'alerte budget (en % du budget consommé, 100 = budget épuisé)
+export const UpdateNotificationSettingsSchema = z.object({
+  budgetAlertThresholds: z.array(
+    z.number()
+      .int('Le seuil doit être un pourcentage entier')
+      .min(1, 'Le seuil doit être positif')
+      .max(MAX_BUDGET_ALERT_THRESHOLD, `Le seuil ne peut pas dépasser ${MAX_BUDGET_ALERT_THRESHOLD} %`)
+  )
+    .max(MAX_BUDGET_ALERT_THRESHOLDS, `${MAX_BUDGET_ALERT_THRESHOLDS} seuils au plus`)
+    .refine(thresholds => new Set(thresholds).size === thresholds.length, 'Seuils en double'),
+}).strict();
+
+// ============================================================================
+// TYPES TYPESCRIPT
+// ============================================================================
+
+export type NotificationQueryParams = z.infer<typeof NotificationQuerySchema>;
+export type UpdateNotificationSettingsInput = z.infer<typeof UpdateNotificationSettingsSchema>;
+
+// Notification à créer (envoyée aussi par email au freelance)
+export interface NotificationInput {
+  type: NotificationType;
+  title: string;
+  message: string;
+  projectId?: string;
+}
+
+export interface NotificationResponse {
+  id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  projectId: string | null;
+  readAt: Date | null;
+  createdAt: Date;
+}
+
+export interface NotificationListResponse {
+  notifications: NotificationResponse[];
+  unreadCount: number;
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
+export interface NotificationSettingsResponse {
+  budgetAlertThresholds: number[];
+}
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { DocumentType, NumberingReset } from '@prisma/client';
+
+// ============================================================================
+// VALIDATIONS ZOD - NUMÉROTATION
+// ============================================================================
+
+export const DocumentTypeParamSchema = z.nativeEnum(DocumentType);
+
+export const UpdateNumberingSchema = z.object({
+  pattern: z.string()
+    .min(1, 'Le motif est obligatoire')
+    .max(50, 'Le motif ne peut pas dépasser 50 caractères'),
+
+  resetPeriod: z.nativeEnum(NumberingReset)
+    .default(NumberingReset.YEARLY),
+});
+
+// ============================================================================
+// TYPES TYPESCRIPT
+// ============================================================================
+
+export type UpdateNumberingInput = z.infer<typeof UpdateNumberingSchema>;
+
+export interface NumberingSettingsResponse {
+  documentType: DocumentType;
+  pattern: string;
+  resetPeriod: NumberingReset;
+  period: string | null;
+  lastValue: number;
+  nextNumberPreview: string;
+}
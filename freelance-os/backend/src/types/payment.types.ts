@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import { InvoiceStatus, PaymentMethod } from '@prisma/client';
+import { InvoiceBalance } from '@/utils/invoice-balance';
+
+// ============================================================================
+// VALIDATIONS ZOD - PAIEMENTS
+// ============================================================================
+
+export const CreatePaymentSchema = z.object({
+  amount: z.number()
+    .positive('Le montant doit être positif')
+    .max(99999999, 'Montant trop élevé')
+    .multipleOf(0.01, 'Le montant ne peut pas avoir plus de 2 décimales'),
+
+  paidAt: z.string()
+    .datetime()
+    .transform(str => new Date(str))
+    .optional(),
+
+  method: z.nativeEnum(PaymentMethod)
+    .default(PaymentMethod.BANK_TRANSFER),
+
+  reference: z.string()
+    .max(100, 'La référence ne peut pas dépasser 100 caractères')
+    .optional(),
+
+  notes: z.string()
+    .max(1000, 'Les notes ne peuvent pas dépasser 1000 caractères')
+    .optional(),
+}).strict();
+
+// ============================================================================
+// TYPES TYPESCRIPT
+// ============================================================================
+
+export type CreatePaymentInput = z.infer<typeof CreatePaymentSchema>;
+
+export interface PaymentResponse {
+  id: string;
+  invoiceId: string;
+  amount: number;
+  paidAt: Date;
+  method: PaymentMethod;
+  reference: string | null;
+  notes: string | null;
+  createdAt: Date;
+}
+
+// État de la facture après enregistrement ou suppression d'un paiement
+export interface InvoicePaymentsResponse {
+  invoice: {
+    id: string;
+    number: string | null;
+    status: InvoiceStatus;
+    paidAt: Date | null;
+  };
+  balance: InvoiceBalance;
+  payments: PaymentResponse[];
+}
@@ -0,0 +1,79 @@
+import { z } from 'zod';
+import { FacturXProfileSchema } from './facturx.types';
+
+// ============================================================================
+// TEMPLATES PDF
+// ============================================================================
+
+export const PDF_TEMPLATE_IDS = ['classic', 'modern', 'minimal'] as const;
+
+export type PdfTemplateId = typeof PDF_TEMPLATE_IDS[number];
+
+export const PdfTemplateSchema = z.enum(PDF_TEMPLATE_IDS);
+
+export const PdfQuerySchema = z.object({
+  template: PdfTemplateSchema.optional(),
+});
+
+export const UpdatePdfTemplateSchema = z.object({
+  template: PdfTemplateSchema,
+});
+
+// Les factures émises acceptent en plus le profil Factur-X embarqué
+export const InvoicePdfQuerySchema = PdfQuerySchema.extend({
+  profile: FacturXProfileSchema.optional(),
+});
+
+export type PdfQueryParams = z.infer<typeof PdfQuerySchema>;
+
+// ============================================================================
+// DONNÉES DE RENDU
+// ============================================================================
+
+export interface PdfParty {
+  name: string;
+  company: string | null;
+  siret: string | null;
+  tvaNumber: string | null;
+  address: string | null;
+  zipCode: string | null;
+  city: string | null;
+  country: string;
+  email: string | null;
+  phone: string | null;
+}
+
+export interface PdfLine {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  vatRate: number;
+  total: number;
+}
+
+// Données normalisées communes aux factures, avoirs et devis
+export interface PdfDocumentData {
+  kind: 'INVOICE' | 'CREDIT_NOTE' | 'QUOTE';
+  number: string | null;
+  correctedInvoiceNumber: string | null;
+  // Étape de facturation d'un devis : acompte ou solde (null pour une facture indépendante)
+  billingStage: 'DEPOSIT' | 'FINAL' | null;
+  issueDate: Date;
+  dueDate: Date | null;
+  validUntil: Date | null;
+  currency: string;
+  notes: string | null;
+  issuer: PdfParty;
+  client: PdfParty;
+  items: PdfLine[];
+  subtotal: number;
+  vatRate: number;
+  vatAmount: number;
+  total: number;
+  vatRegime: 'STANDARD' | 'FRANCHISE' | 'REVERSE_CHARGE';
+  // Taux figé à l'émission d'une facture en devise (unités de la devise pour 1 EUR)
+  exchangeRate: { rate: number; date: Date } | null;
+  // Taux annuel des pénalités de retard (figé à l'émission, paramètre du freelance pour un brouillon)
+  latePenaltyRate: number;
+  paymentTermsDays: number;
+}
@@ -0,0 +1,103 @@
+import { z } from 'zod';
+import { Priority } from '@prisma/client';
+import { ProjectBaseSchema, TaskBaseSchema } from './project.types';
+import { MAX_TEMPLATE_OFFSET_DAYS, MAX_TEMPLATE_TASKS } from '@/utils/project-templates';
+
+// ============================================================================
+// VALIDATIONS ZOD - MODÈLES DE PROJET
+// ============================================================================
+
+// Décalage en jours calendaires depuis le démarrage du projet
+const OffsetDaysSchema = z.number()
+  .int('Le décalage doit être un nombre entier de jours')
+  .min(0, 'Le décalage ne peut pas être négatif')
+  .max(MAX_TEMPLATE_OFFSET_DAYS, `Le décalage ne peut pas dépasser ${MAX_TEMPLATE_OFFSET_DAYS} jours`);
+
+export const TemplateTaskSchema = z.object({
+  title: TaskBaseSchema.shape.title,
+
+  description: TaskBaseSchema.shape.description,
+
+  priority: z.nativeEnum(Priority)
+    .default(Priority.MEDIUM),
+
+  dueOffsetDays: OffsetDaysSchema.optional(),
+}).strict();
+
+export const ProjectTemplateBaseSchema = z.object({
+  name: ProjectBaseSchema.shape.name,
+
+  description: ProjectBaseSchema.shape.description,
+
+  budget: ProjectBaseSchema.shape.budget,
+
+  hourlyRate: ProjectBaseSchema.shape.hourlyRate,
+
+  deadlineOffsetDays: OffsetDaysSchema.optional(),
+
+  // Tâches dans l'ordre d'affichage
+  tasks: z.array(TemplateTaskSchema)
+    .max(MAX_TEMPLATE_TASKS, `Un modèle ne peut pas dépasser ${MAX_TEMPLATE_TASKS} tâches`),
+});
+
+// Schéma pour création modèle
+export const CreateProjectTemplateSchema = ProjectTemplateBaseSchema.extend({
+  tasks: ProjectTemplateBaseSchema.shape.tasks.default([]),
+}).strict();
+
+// Schéma pour mise à jour modèle (null efface la valeur ; `tasks` remplace toutes les tâches)
+export const UpdateProjectTemplateSchema = ProjectTemplateBaseSchema.partial().extend({
+  budget: ProjectBaseSchema.shape.budget.unwrap().nullable().optional(),
+  hourlyRate: ProjectBaseSchema.shape.hourlyRate.unwrap().nullable().optional(),
+  deadlineOffsetDays: OffsetDaysSchema.nullable().optional(),
+}).strict();
+
+// Enregistrer un projet existant comme modèle (nom du projet par défaut)
+export const SaveProjectAsTemplateSchema = z.object({
+  name: ProjectBaseSchema.shape.name.optional(),
+
+  description: ProjectBaseSchema.shape.description,
+}).strict();
+
+// Créer un projet depuis un modèle
+export const InstantiateProjectTemplateSchema = z.object({
+  clientId: ProjectBaseSchema.shape.clientId,
+
+  startDate: z.string()
+    .datetime()
+    .transform(str => new Date(str)),
+
+  // Nom du modèle par défaut
+  name: ProjectBaseSchema.shape.name.optional(),
+}).strict();
+
+// ============================================================================
+// TYPES TYPESCRIPT
+// ============================================================================
+
+export type CreateProjectTemplateInput = z.infer<typeof CreateProjectTemplateSchema>;
+export type UpdateProjectTemplateInput = z.infer<typeof UpdateProjectTemplateSchema>;
+export type SaveProjectAsTemplateInput = z.infer<typeof SaveProjectAsTemplateSchema>;
+export type InstantiateProjectTemplateInput = z.infer<typeof InstantiateProjectTemplateSchema>;
+
+// Types pour les réponses API (montants sérialisés en number)
+export interface ProjectTemplateTaskResponse {
+  id: string;
+  title: string;
+  description: string | null;
+  priority: Priority;
+  dueOffsetDays: number | null;
+  sortOrder: number;
+}
+
+export interface ProjectTemplateResponse {
+  id: string;
+  name: string;
+  description: string | null;
+  budget: number | null;
+  hourlyRate: number | null;
+  deadlineOffsetDays: number | null;
+  tasks: ProjectTemplateTaskResponse[];
+  createdAt: Date;
+  updatedAt: Date;
+}
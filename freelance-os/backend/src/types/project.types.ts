@@ -0,0 +1,315 @@
+import { z } from 'zod';
+import { Priority, ProjectStatus } from '@prisma/client';
+
+// ============================================================================
+// VALIDATIONS ZOD - PROJETS
+// ============================================================================
+
+const OptionalDateSchema = z.string()
+  .datetime()
+  .transform(str => new Date(str));
+
+const AmountSchema = z.number()
+  .min(0, 'Le montant doit être positif')
+  .max(99999999, 'Montant trop élevé')
+  .multipleOf(0.01, 'Le montant est limité au centime');
+
+export const ProjectBaseSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(2, 'Le nom doit contenir au moins 2 caractères')
+    .max(100, 'Le nom ne peut pas dépasser 100 caractères'),
+
+  description: z.string()
+    .max(2000, 'La description ne peut pas dépasser 2000 caractères')
+    .optional()
+    .or(z.literal('')),
+
+  // Client facultatif : un projet interne n'est rattaché à aucun client
+  clientId: z.string()
+    .cuid('ID client invalide')
+    .optional(),
+
+  startDate: OptionalDateSchema.optional(),
+
+  endDate: OptionalDateSchema.optional(),
+
+  deadline: OptionalDateSchema.optional(),
+
+  // Budget HT du projet
+  budget: AmountSchema.optional(),
+
+  // Taux horaire HT par défaut des temps saisis sur le projet
+  hourlyRate: AmountSchema.optional(),
+});
+
+// Schéma pour création projet (toujours créé ACTIVE)
+export const CreateProjectSchema = ProjectBaseSchema.strict();
+
+// Schéma pour mise à jour projet (null détache le client ou efface la valeur)
+export const UpdateProjectSchema = ProjectBaseSchema.partial().extend({
+  clientId: ProjectBaseSchema.shape.clientId.unwrap().nullable().optional(),
+  endDate: OptionalDateSchema.nullable().optional(),
+  deadline: OptionalDateSchema.nullable().optional(),
+  budget: AmountSchema.nullable().optional(),
+  hourlyRate: AmountSchema.nullable().optional(),
+}).strict();
+
+// Changement de statut (voir PROJECT_TRANSITIONS)
+export const UpdateProjectStatusSchema = z.object({
+  status: z.nativeEnum(ProjectStatus),
+}).strict();
+
+// Schéma pour les paramètres de requête
+export const ProjectQuerySchema = z.object({
+  page: z.string()
+    .regex(/^\d+$/)
+    .transform(Number)
+    .refine(val => val > 0)
+    .default('1'),
+
+  limit: z.string()
+    .regex(/^\d+$/)
+    .transform(Number)
+    .refine(val => val > 0 && val <= 100)
+    .default('20'),
+
+  search: z.string()
+    .max(100)
+    .optional(),
+
+  status: z.nativeEnum(ProjectStatus)
+    .optional(),
+
+  clientId: z.string()
+    .cuid()
+    .optional(),
+
+  sortBy: z.enum(['name', 'startDate', 'deadline', 'createdAt'])
+    .default('createdAt'),
+
+  sortOrder: z.enum(['asc', 'desc'])
+    .default('desc'),
+});
+
+// ============================================================================
+// VALIDATIONS ZOD - TÂCHES
+// ============================================================================
+
+export const TaskBaseSchema = z.object({
+  title: z.string()
+    .trim()
+    .min(1, 'Le titre est obligatoire')
+    .max(200, 'Le titre ne peut pas dépasser 200 caractères'),
+
+  description: z.string()
+    .max(2000, 'La description ne peut pas dépasser 2000 caractères')
+    .optional()
+    .or(z.literal('')),
+
+  dueDate: OptionalDateSchema.optional(),
+
+  priority: z.nativeEnum(Priority)
+    .default(Priority.MEDIUM),
+});
+
+// Schéma pour création tâche (première colonne à faire du tableau par défaut)
+export const CreateTaskSchema = TaskBaseSchema.extend({
+  columnId: z.string()
+    .cuid('ID colonne invalide')
+    .optional(),
+}).strict();
+
+// Schéma pour mise à jour tâche (la complétion passe par /complete et /reopen)
+export const UpdateTaskSchema = TaskBaseSchema.partial().extend({
+  dueDate: OptionalDateSchema.nullable().optional(),
+  priority: z.nativeEnum(Priority).optional(),
+}).strict();
+
+export const TaskQuerySchema = z.object({
+  completed: z.enum(['true', 'false'])
+    .transform(value => value === 'true')
+    .optional(),
+
+  priority: z.nativeEnum(Priority)
+    .optional(),
+});
+
+// ============================================================================
+// VALIDATIONS ZOD - TABLEAU KANBAN
+// ============================================================================
+
+const WipLimitSchema = z.number()
+  .int('La limite WIP doit être un nombre entier')
+  .min(1, 'La limite WIP doit être d\'au moins 1 tâche')
+  .max(100, 'La limite WIP ne peut pas dépasser 100 tâches');
+
+export const BoardColumnBaseSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, 'Le nom de la colonne est obligatoire')
+    .max(50, 'Le nom de la colonne ne peut pas dépasser 50 caractères'),
+
+  wipLimit: WipLimitSchema.optional(),
+
+  // Les tâches déposées dans la colonne sont terminées
+  isDone: z.boolean()
+    .default(false),
+});
+
+export const CreateBoardColumnSchema = BoardColumnBaseSchema.strict();
+
+export const UpdateBoardColumnSchema = BoardColumnBaseSchema.partial().extend({
+  wipLimit: WipLimitSchema.nullable().optional(),
+  isDone: z.boolean().optional(),
+}).strict();
+
+// Glisser-déposer : voisins de la position d'arrivée (en fin de liste si aucun)
+export const MoveBoardColumnSchema = z.object({
+  afterColumnId: z.string()
+    .cuid('ID colonne invalide')
+    .optional(),
+
+  beforeColumnId: z.string()
+    .cuid('ID colonne invalide')
+    .optional(),
+}).strict();
+
+export const MoveTaskSchema = z.object({
+  columnId: z.string()
+    .cuid('ID colonne invalide'),
+
+  afterTaskId: z.string()
+    .cuid('ID tâche invalide')
+    .optional(),
+
+  beforeTaskId: z.string()
+    .cuid('ID tâche invalide')
+    .optional(),
+}).strict();
+
+// ============================================================================
+// TYPES TYPESCRIPT
+// ============================================================================
+
+export type CreateProjectInput = z.infer<typeof CreateProjectSchema>;
+export type UpdateProjectInput = z.infer<typeof UpdateProjectSchema>;
+export type UpdateProjectStatusInput = z.infer<typeof UpdateProjectStatusSchema>;
+export type ProjectQueryParams = z.infer<typeof ProjectQuerySchema>;
+export type CreateTaskInput = z.infer<typeof CreateTaskSchema>;
+export type UpdateTaskInput = z.infer<typeof UpdateTaskSchema>;
+export type TaskQueryParams = z.infer<typeof TaskQuerySchema>;
+export type CreateBoardColumnInput = z.infer<typeof CreateBoardColumnSchema>;
+export type UpdateBoardColumnInput = z.infer<typeof UpdateBoardColumnSchema>;
+export type MoveBoardColumnInput = z.infer<typeof MoveBoardColumnSchema>;
+export type MoveTaskInput = z.infer<typeof MoveTaskSchema>;
+
+// Types pour les réponses API (montants sérialisés en number)
+export interface ProjectResponse {
+  id: string;
+  name: string;
+  description: string | null;
+  startDate: Date;
+  endDate: Date | null;
+  deadline: Date | null;
+  budget: number | null;
+  hourlyRate: number | null;
+  status: ProjectStatus;
+  clientId: string | null;
+  client: {
+    id: string;
+    name: string;
+    company: string | null;
+  } | null;
+  tasksCount: number;
+  completedTasksCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ProjectListResponse {
+  projects: ProjectResponse[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
+// Heures saisies et budget consommé (HT) du projet
+export interface ProjectStatsResponse {
+  projectId: string;
+  minutesLogged: number;
+  hoursLogged: number;
+  unpricedMinutes: number;
+  budget: number | null;
+  budgetConsumed: number;
+  remainingBudget: number | null;
+  budgetConsumedPercent: number | null;
+  tasksCount: number;
+  completedTasksCount: number;
+}
+
+// Rythme de consommation, dépassement prévisionnel et rentabilité (HT) du projet
+export interface ProjectBudgetResponse {
+  projectId: string;
+  budget: number | null;
+  hourlyRate: number | null;
+  budgetConsumed: number;
+  remainingBudget: number | null;
+  budgetConsumedPercent: number | null;
+  hoursLogged: number;
+  unpricedMinutes: number;
+  burnRate: {
+    windowDays: number;
+    amountPerDay: number;
+    hoursPerWeek: number;
+  };
+  projectedOverrunDate: Date | null;
+  overrunBeforeDeadline: boolean | null;
+  invoicedAmount: number;
+  effectiveHourlyRate: number | null;
+  alertThresholds: number[];
+  alerts: {
+    threshold: number;
+    consumed: number;
+    triggeredAt: Date;
+  }[];
+}
+
+export interface TaskResponse {
+  id: string;
+  projectId: string;
+  title: string;
+  description: string | null;
+  dueDate: Date | null;
+  completedAt: Date | null;
+  priority: Priority;
+  columnId: string | null;
+  position: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface BoardColumnResponse {
+  id: string;
+  projectId: string;
+  name: string;
+  position: string;
+  wipLimit: number | null;
+  isDone: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Tableau Kanban : colonnes dans l'ordre, tâches de chaque colonne dans l'ordre
+export interface BoardResponse {
+  projectId: string;
+  columns: (BoardColumnResponse & {
+    tasksCount: number;
+    tasks: TaskResponse[];
+  })[];
+}
@@ -0,0 +1,269 @@
+import { z } from 'zod';
+import { FollowUpType, ProspectStatus } from '@prisma/client';
+import { ClientBaseSchema } from './client.types';
+import { QuoteResponse } from './quote.types';
+
+// ============================================================================
+// VALIDATIONS ZOD - PROSPECTS
+// ============================================================================
+
+const DateTimeSchema = z.string()
+  .datetime()
+  .transform(str => new Date(str));
+
+const AmountSchema = z.number()
+  .min(0, 'Le montant doit être positif')
+  .max(99999999, 'Montant trop élevé')
+  .multipleOf(0.01, 'Le montant est limité au centime');
+
+export const ProspectBaseSchema = z.object({
+  name: ClientBaseSchema.shape.name,
+
+  email: ClientBaseSchema.shape.email,
+
+  phone: ClientBaseSchema.shape.phone,
+
+  company: ClientBaseSchema.shape.company,
+
+  position: z.string()
+    .max(100, 'Le poste ne peut pas dépasser 100 caractères')
+    .optional()
+    .or(z.literal('')),
+
+  // D'où vient le prospect (recommandation, salon, LinkedIn...)
+  source: z.string()
+    .max(100, 'La source ne peut pas dépasser 100 caractères')
+    .optional()
+    .or(z.literal('')),
+
+  score: z.number()
+    .int('Le score doit être un entier')
+    .min(0, 'Le score doit être compris entre 0 et 100')
+    .max(100, 'Le score doit être compris entre 0 et 100')
+    .default(0),
+
+  // Montant HT espéré si l'affaire est conclue
+  expectedValue: AmountSchema.optional(),
+
+  notes: ClientBaseSchema.shape.notes,
+
+  tags: z.array(z.string().trim().min(1).max(50, 'Un tag ne peut pas dépasser 50 caractères'))
+    .max(20, '20 tags au plus')
+    .default([]),
+});
+
+// Schéma pour création prospect (étape NEW par défaut)
+export const CreateProspectSchema = ProspectBaseSchema.extend({
+  status: z.nativeEnum(ProspectStatus)
+    .default(ProspectStatus.NEW),
+}).strict();
+
+// Schéma pour mise à jour prospect (l'étape change via /status ; null efface le montant espéré)
+export const UpdateProspectSchema = ProspectBaseSchema.partial().extend({
+  score: ProspectBaseSchema.shape.score.removeDefault().optional(),
+  tags: ProspectBaseSchema.shape.tags.removeDefault().optional(),
+  expectedValue: AmountSchema.nullable().optional(),
+}).strict();
+
+// Changement d'étape (voir assertProspectTransition), avec une note pour l'historique
+export const UpdateProspectStatusSchema = z.object({
+  status: z.nativeEnum(ProspectStatus),
+
+  note: z.string()
+    .max(500, 'La note ne peut pas dépasser 500 caractères')
+    .optional(),
+}).strict();
+
+// Schéma pour les paramètres de requête
+export const ProspectQuerySchema = z.object({
+  page: z.string()
+    .regex(/^\d+$/)
+    .transform(Number)
+    .refine(val => val > 0)
+    .default('1'),
+
+  limit: z.string()
+    .regex(/^\d+$/)
+    .transform(Number)
+    .refine(val => val > 0 && val <= 100)
+    .default('20'),
+
+  search: z.string()
+    .max(100)
+    .optional(),
+
+  status: z.nativeEnum(ProspectStatus)
+    .optional(),
+
+  tag: z.string()
+    .max(50)
+    .optional(),
+
+  sortBy: z.enum(['name', 'createdAt', 'nextFollowUp', 'expectedValue', 'score'])
+    .default('createdAt'),
+
+  sortOrder: z.enum(['asc', 'desc'])
+    .default('desc'),
+});
+
+// Conversion d'un prospect gagné en client, avec un devis brouillon du montant espéré en option
+export const ConvertProspectSchema = z.object({
+  createQuote: z.boolean()
+    .default(false),
+
+  quoteDescription: z.string()
+    .trim()
+    .min(1, 'La description est obligatoire')
+    .max(500, 'La description ne peut pas dépasser 500 caractères')
+    .optional(),
+}).strict();
+
+// ============================================================================
+// VALIDATIONS ZOD - RELANCES
+// ============================================================================
+
+const FollowUpResultSchema = z.string()
+  .max(1000, 'Le résultat ne peut pas dépasser 1000 caractères');
+
+// Relance planifiée (completedAt : relance déjà effectuée, saisie après coup)
+export const CreateFollowUpSchema = z.object({
+  type: z.nativeEnum(FollowUpType),
+
+  subject: z.string()
+    .trim()
+    .min(1, 'L\'objet est obligatoire')
+    .max(200, 'L\'objet ne peut pas dépasser 200 caractères'),
+
+  content: z.string()
+    .max(5000, 'Le contenu ne peut pas dépasser 5000 caractères')
+    .default(''),
+
+  scheduledAt: DateTimeSchema,
+
+  completedAt: DateTimeSchema.optional(),
+
+  result: FollowUpResultSchema.optional(),
+}).strict();
+
+// Relance effectuée : résultat et date (maintenant par défaut)
+export const CompleteFollowUpSchema = z.object({
+  result: FollowUpResultSchema.optional(),
+
+  completedAt: DateTimeSchema.optional(),
+}).strict();
+
+// Relances dues à une date (aujourd'hui par défaut), retards compris
+export const DueFollowUpsQuerySchema = z.object({
+  date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date attendue au format AAAA-MM-JJ')
+    .transform(str => new Date(`${str}T00:00:00.000Z`))
+    .refine(date => !Number.isNaN(date.getTime()), 'Date invalide')
+    .optional(),
+});
+
+// ============================================================================
+// TYPES TYPESCRIPT
+// ============================================================================
+
+export type CreateProspectInput = z.infer<typeof CreateProspectSchema>;
+export type UpdateProspectInput = z.infer<typeof UpdateProspectSchema>;
+export type UpdateProspectStatusInput = z.infer<typeof UpdateProspectStatusSchema>;
+export type ConvertProspectInput = z.infer<typeof ConvertProspectSchema>;
+export type ProspectQueryParams = z.infer<typeof ProspectQuerySchema>;
+export type CreateFollowUpInput = z.infer<typeof CreateFollowUpSchema>;
+export type CompleteFollowUpInput = z.infer<typeof CompleteFollowUpSchema>;
+export type DueFollowUpsQuery = z.infer<typeof DueFollowUpsQuerySchema>;
+
+// Types pour les réponses API (email et téléphone déchiffrés, montants en number)
+export interface ProspectResponse {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  company: string | null;
+  position: string | null;
+  source: string | null;
+  status: ProspectStatus;
+  score: number;
+  expectedValue: number | null;
+  lastContact: Date | null;
+  nextFollowUp: Date | null;
+  notes: string | null;
+  tags: string[];
+  clientId: string | null;
+  convertedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface FollowUpResponse {
+  id: string;
+  prospectId: string;
+  type: FollowUpType;
+  subject: string;
+  content: string;
+  scheduledAt: Date;
+  completedAt: Date | null;
+  result: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ProspectStageChangeResponse {
+  id: string;
+  fromStatus: ProspectStatus | null;
+  toStatus: ProspectStatus;
+  note: string | null;
+  createdAt: Date;
+}
+
+// Prospect avec ses relances (par date prévue) et l'historique de ses étapes
+export interface ProspectDetailResponse extends ProspectResponse {
+  followUps: FollowUpResponse[];
+  stageChanges: ProspectStageChangeResponse[];
+}
+
+export interface ProspectListResponse {
+  prospects: ProspectResponse[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
+// Nombre de prospects et montant espéré par étape
+export interface ProspectPipelineResponse {
+  stages: {
+    status: ProspectStatus;
+    count: number;
+    expectedValue: number;
+  }[];
+}
+
+// Résultat d'une conversion : client créé ou retrouvé par email, relances reprises en interactions
+export interface ProspectConversionResponse {
+  prospect: ProspectDetailResponse;
+  client: {
+    id: string;
+    name: string;
+    company: string | null;
+    created: boolean;
+  };
+  interactionsCount: number;
+  quote: QuoteResponse | null;
+}
+
+// Relance due, avec son prospect
+export interface DueFollowUpResponse extends FollowUpResponse {
+  overdue: boolean;
+  prospect: {
+    id: string;
+    name: string;
+    company: string | null;
+    status: ProspectStatus;
+  };
+}
@@ -0,0 +1,260 @@
+import { z } from 'zod';
+import { BillingStage, InvoiceStatus, QuoteStatus, VatRegime } from '@prisma/client';
+import { InvoiceBaseSchema, InvoiceItemSchema, InvoiceItemResponse, VatBreakdownResponse } from './invoice.types';
+
+// ============================================================================
+// VALIDATIONS ZOD - DEVIS
+// ============================================================================
+
+// Mêmes champs qu'une facture, l'échéance en moins et la date de validité en plus
+// (30 jours après la date d'émission par défaut)
+export const QuoteBaseSchema = z.object({
+  clientId: InvoiceBaseSchema.shape.clientId,
+
+  issueDate: InvoiceBaseSchema.shape.issueDate,
+
+  validUntil: z.string()
+    .datetime()
+    .transform(str => new Date(str))
+    .optional(),
+
+  vatRate: InvoiceBaseSchema.shape.vatRate,
+
+  currency: InvoiceBaseSchema.shape.currency,
+
+  notes: InvoiceBaseSchema.shape.notes,
+
+  items: z.array(InvoiceItemSchema)
+    .min(1, 'Un devis doit contenir au moins une ligne')
+    .max(200, 'Un devis ne peut pas contenir plus de 200 lignes'),
+});
+
+// Schéma pour création devis
+export const CreateQuoteSchema = QuoteBaseSchema.strict();
+
+// Schéma pour mise à jour devis (les lignes envoyées remplacent les existantes)
+export const UpdateQuoteSchema = QuoteBaseSchema.partial().strict();
+
+// Schéma pour les paramètres de requête
+export const QuoteQuerySchema = z.object({
+  page: z.string()
+    .regex(/^\d+$/)
+    .transform(Number)
+    .refine(val => val > 0)
+    .default('1'),
+
+  limit: z.string()
+    .regex(/^\d+$/)
+    .transform(Number)
+    .refine(val => val > 0 && val <= 100)
+    .default('20'),
+
+  search: z.string()
+    .max(100)
+    .optional(),
+
+  status: z.nativeEnum(QuoteStatus)
+    .optional(),
+
+  clientId: z.string()
+    .cuid()
+    .optional(),
+
+  sortBy: z.enum(['issueDate', 'validUntil', 'number', 'total', 'createdAt'])
+    .default('issueDate'),
+
+  sortOrder: z.enum(['asc', 'desc'])
+    .default('desc'),
+});
+
+// Révisions comparées : par défaut la révision du devis demandé et la précédente
+const RevisionNumberSchema = z.string()
+  .regex(/^\d+$/)
+  .transform(Number)
+  .refine(val => val > 0, 'Numéro de révision invalide');
+
+export const QuoteRevisionDiffQuerySchema = z.object({
+  from: RevisionNumberSchema.optional(),
+
+  to: RevisionNumberSchema.optional(),
+});
+
+// ============================================================================
+// VALIDATIONS ZOD - ACCEPTATION EN LIGNE
+// ============================================================================
+
+// Signature saisie au clavier (nom du signataire) ou tracée à la souris / au doigt
+export const SIGNATURE_TYPES = ['TYPED', 'DRAWN'] as const;
+
+export const APPROVAL_MENTION = 'Bon pour accord';
+
+// Signature tracée : image PNG du canvas en data URL
+const DRAWN_SIGNATURE_PATTERN = /^data:image\/png;base64,[A-Za-z0-9+/]+={0,2}$/;
+
+export const AcceptQuoteOnlineSchema = z.object({
+  signerName: z.string()
+    .trim()
+    .min(2, 'Le nom du signataire est obligatoire')
+    .max(100, 'Le nom du signataire ne peut pas dépasser 100 caractères'),
+
+  signatureType: z.enum(SIGNATURE_TYPES),
+
+  signature: z.string()
+    .min(1, 'La signature est obligatoire')
+    .max(200000, 'Signature trop volumineuse'),
+
+  // Mention manuscrite recopiée par le signataire
+  approval: z.string()
+    .trim()
+    .refine(value => value.toLowerCase() === APPROVAL_MENTION.toLowerCase(), `Recopiez la mention « ${APPROVAL_MENTION} »`),
+}).strict().superRefine((data, ctx) => {
+  if (data.signatureType === 'DRAWN' && !DRAWN_SIGNATURE_PATTERN.test(data.signature)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Signature tracée invalide', path: ['signature'] });
+  }
+
+  if (data.signatureType === 'TYPED' && data.signature.trim().length > 100) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'La signature ne peut pas dépasser 100 caractères', path: ['signature'] });
+  }
+});
+
+// ============================================================================
+// VALIDATIONS ZOD - FACTURATION DES DEVIS
+// ============================================================================
+
+// Champs communs aux factures générées depuis un devis (client, lignes et TVA viennent du devis)
+const QuoteInvoiceBaseSchema = z.object({
+  issueDate: InvoiceBaseSchema.shape.issueDate,
+
+  dueDate: InvoiceBaseSchema.shape.dueDate,
+
+  notes: InvoiceBaseSchema.shape.notes,
+});
+
+// Acompte : pourcentage du total HT du devis ou montant HT fixe (l'un ou l'autre)
+export const CreateDepositInvoiceSchema = QuoteInvoiceBaseSchema.extend({
+  percentage: z.number()
+    .positive('Le pourcentage doit être positif')
+    .max(100, 'Le pourcentage ne peut pas dépasser 100%')
+    .multipleOf(0.01, 'Le pourcentage est limité à deux décimales')
+    .optional(),
+
+  amount: z.number()
+    .positive('Le montant doit être positif')
+    .max(99999999, 'Montant trop élevé')
+    .multipleOf(0.01, 'Le montant est limité au centime')
+    .optional(),
+}).strict().refine(
+  data => (data.percentage === undefined) !== (data.amount === undefined),
+  { message: 'Indiquez soit un pourcentage, soit un montant', path: ['percentage'] }
+);
+
+// Solde : reprend les lignes du devis et déduit les acomptes émis
+export const CreateFinalInvoiceSchema = QuoteInvoiceBaseSchema.strict();
+
+// Conversion : facture reprenant toutes les lignes d'un devis accepté et non encore facturé
+export const ConvertQuoteSchema = QuoteInvoiceBaseSchema.strict();
+
+// ============================================================================
+// TYPES TYPESCRIPT
+// ============================================================================
+
+export type CreateQuoteInput = z.infer<typeof CreateQuoteSchema>;
+export type UpdateQuoteInput = z.infer<typeof UpdateQuoteSchema>;
+export type QuoteQueryParams = z.infer<typeof QuoteQuerySchema>;
+export type ConvertQuoteInput = z.infer<typeof ConvertQuoteSchema>;
+export type QuoteRevisionDiffQuery = z.infer<typeof QuoteRevisionDiffQuerySchema>;
+export type AcceptQuoteOnlineInput = z.infer<typeof AcceptQuoteOnlineSchema>;
+export type CreateDepositInvoiceInput = z.infer<typeof CreateDepositInvoiceSchema>;
+export type CreateFinalInvoiceInput = z.infer<typeof CreateFinalInvoiceSchema>;
+
+// Types pour les réponses API (montants sérialisés en number)
+export interface QuoteResponse {
+  id: string;
+  number: string | null;
+  revision: number;
+  originalQuoteId: string | null;
+  clientId: string;
+  issueDate: Date;
+  validUntil: Date;
+  acceptedAt: Date | null;
+  subtotal: number;
+  vatRate: number;
+  vatAmount: number;
+  total: number;
+  vatRegime: VatRegime;
+  vatBreakdown: VatBreakdownResponse[];
+  status: QuoteStatus;
+  currency: string;
+  notes: string | null;
+  pdfPath: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  client?: {
+    id: string;
+    name: string;
+    company: string | null;
+  };
+  items: InvoiceItemResponse[];
+}
+
+export interface QuoteListResponse {
+  quotes: QuoteResponse[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
+// Version d'un devis dans son historique de révisions
+export interface QuoteRevisionSummary {
+  id: string;
+  revision: number;
+  number: string | null;
+  status: QuoteStatus;
+  issueDate: Date;
+  validUntil: Date;
+  acceptedAt: Date | null;
+  subtotal: number;
+  total: number;
+  createdAt: Date;
+}
+
+// Lien public d'acceptation, valable jusqu'à la date de validité du devis
+export interface QuotePublicLinkResponse {
+  url: string;
+  expiresAt: Date;
+}
+
+// Facture rattachée au devis avec son règlement
+export interface QuoteBillingInvoice {
+  id: string;
+  number: string | null;
+  billingStage: BillingStage | null;
+  status: InvoiceStatus;
+  issueDate: Date;
+  subtotal: number;
+  total: number;
+  creditedAmount: number;
+  paidAmount: number;
+}
+
+// Montants TTC : facturé (net des avoirs), encaissé et restant à facturer
+export interface QuoteBillingSummaryResponse {
+  quote: {
+    id: string;
+    number: string | null;
+    status: QuoteStatus;
+    subtotal: number;
+    total: number;
+    currency: string;
+  };
+  invoicedTotal: number;
+  paidAmount: number;
+  remainingToInvoice: number;
+  remainingToPay: number;
+  invoices: QuoteBillingInvoice[];
+}
@@ -0,0 +1,97 @@
+import { z } from 'zod';
+import { RecurrenceInterval } from '@prisma/client';
+import { CurrencySchema, InvoiceItemSchema } from './invoice.types';
+
+// ============================================================================
+// VALIDATIONS ZOD - FACTURES RÉCURRENTES
+// ============================================================================
+
+export const RecurringInvoiceBaseSchema = z.object({
+  name: z.string()
+    .min(1, 'Le nom est obligatoire')
+    .max(100, 'Le nom ne peut pas dépasser 100 caractères'),
+
+  clientId: z.string()
+    .cuid('ID client invalide'),
+
+  interval: z.nativeEnum(RecurrenceInterval),
+
+  // Première échéance : date de la première facture générée
+  startDate: z.string()
+    .datetime()
+    .transform(str => new Date(str)),
+
+  endDate: z.string()
+    .datetime()
+    .transform(str => new Date(str))
+    .nullable()
+    .optional(),
+
+  autoSend: z.boolean()
+    .default(false),
+
+  vatRate: z.number()
+    .min(0, 'Le taux de TVA doit être positif')
+    .max(100, 'Le taux de TVA ne peut pas dépasser 100%')
+    .default(20),
+
+  currency: CurrencySchema
+    .default('EUR'),
+
+  notes: z.string()
+    .max(2000, 'Les notes ne peuvent pas dépasser 2000 caractères')
+    .optional()
+    .or(z.literal('')),
+
+  items: z.array(InvoiceItemSchema)
+    .min(1, 'Un modèle doit contenir au moins une ligne')
+    .max(200, 'Un modèle ne peut pas contenir plus de 200 lignes'),
+});
+
+export const CreateRecurringInvoiceSchema = RecurringInvoiceBaseSchema.strict();
+
+// Modifier l'intervalle ou la date de départ redémarre le calendrier des échéances
+export const UpdateRecurringInvoiceSchema = RecurringInvoiceBaseSchema
+  .partial()
+  .extend({
+    isActive: z.boolean().optional(),
+  })
+  .strict();
+
+// ============================================================================
+// TYPES TYPESCRIPT
+// ============================================================================
+
+export type CreateRecurringInvoiceInput = z.infer<typeof CreateRecurringInvoiceSchema>;
+export type UpdateRecurringInvoiceInput = z.infer<typeof UpdateRecurringInvoiceSchema>;
+
+export interface RecurringInvoiceResponse {
+  id: string;
+  name: string;
+  clientId: string;
+  interval: RecurrenceInterval;
+  startDate: Date;
+  nextRunDate: Date;
+  endDate: Date | null;
+  occurrences: number;
+  lastRunAt: Date | null;
+  isActive: boolean;
+  autoSend: boolean;
+  vatRate: number;
+  currency: string;
+  notes: string | null;
+  client?: {
+    id: string;
+    name: string;
+    company: string | null;
+  };
+  items: Array<{
+    id: string;
+    description: string;
+    quantity: number;
+    unitPrice: number;
+    vatRate: number | null;
+  }>;
+  createdAt: Date;
+  updatedAt: Date;
+}
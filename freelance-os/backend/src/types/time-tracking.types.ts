@@ -0,0 +1,258 @@
+import { z } from 'zod';
+import { InvoiceBaseSchema } from './invoice.types';
+import { MAX_TIME_ENTRY_MINUTES, Timesheet, TIME_ROUNDING_STEPS } from '@/utils/time-tracking';
+import { TIME_BILLING_GROUPS, TimeInvoiceLine } from '@/utils/time-billing';
+
+// ============================================================================
+// VALIDATIONS ZOD - CHRONOMÈTRE
+// ============================================================================
+
+const DateTimeSchema = z.string()
+  .datetime()
+  .transform(str => new Date(str));
+
+const DescriptionSchema = z.string()
+  .max(500, 'La description ne peut pas dépasser 500 caractères')
+  .optional()
+  .or(z.literal(''));
+
+// Taux horaire HT propre à la saisie (à défaut, celui du projet)
+const HourlyRateSchema = z.number()
+  .min(0, 'Le taux horaire doit être positif')
+  .max(99999999, 'Taux horaire trop élevé')
+  .multipleOf(0.01, 'Le taux horaire est limité au centime');
+
+export const StartTimerSchema = z.object({
+  projectId: z.string()
+    .cuid('ID projet invalide'),
+
+  taskId: z.string()
+    .cuid('ID tâche invalide')
+    .optional(),
+
+  description: DescriptionSchema,
+
+  hourlyRate: HourlyRateSchema.optional(),
+}).strict();
+
+// ============================================================================
+// VALIDATIONS ZOD - SAISIES
+// ============================================================================
+
+const checkInterval = (data: { startTime?: Date | undefined; endTime?: Date | undefined }, ctx: z.RefinementCtx) => {
+  if (!data.startTime || !data.endTime) {
+    return;
+  }
+
+  if (data.endTime <= data.startTime) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'La fin doit être postérieure au début', path: ['endTime'] });
+  } else if (data.endTime.getTime() - data.startTime.getTime() > MAX_TIME_ENTRY_MINUTES * 60 * 1000) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Une saisie ne peut pas dépasser 24 heures', path: ['endTime'] });
+  }
+};
+
+export const TimeEntryBaseSchema = z.object({
+  projectId: z.string()
+    .cuid('ID projet invalide'),
+
+  taskId: z.string()
+    .cuid('ID tâche invalide')
+    .optional(),
+
+  description: DescriptionSchema,
+
+  startTime: DateTimeSchema,
+
+  endTime: DateTimeSchema,
+
+  hourlyRate: HourlyRateSchema.optional(),
+});
+
+// Saisie manuelle d'un créneau passé
+export const CreateTimeEntrySchema = TimeEntryBaseSchema.strict().superRefine(checkInterval);
+
+// Mise à jour (null détache la tâche ou rétablit le taux du projet)
+export const UpdateTimeEntrySchema = TimeEntryBaseSchema.partial().extend({
+  taskId: TimeEntryBaseSchema.shape.taskId.unwrap().nullable().optional(),
+  hourlyRate: HourlyRateSchema.nullable().optional(),
+}).strict().superRefine(checkInterval);
+
+export const TimeEntryQuerySchema = z.object({
+  page: z.string()
+    .regex(/^\d+$/)
+    .transform(Number)
+    .refine(val => val > 0)
+    .default('1'),
+
+  limit: z.string()
+    .regex(/^\d+$/)
+    .transform(Number)
+    .refine(val => val > 0 && val <= 100)
+    .default('50'),
+
+  from: DateTimeSchema.optional(),
+
+  to: DateTimeSchema.optional(),
+
+  projectId: z.string()
+    .cuid()
+    .optional(),
+
+  taskId: z.string()
+    .cuid()
+    .optional(),
+});
+
+// Semaine contenant la date (AAAA-MM-JJ), semaine en cours par défaut
+export const TimesheetQuerySchema = z.object({
+  date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date attendue au format AAAA-MM-JJ')
+    .transform(str => new Date(`${str}T00:00:00.000Z`))
+    .refine(date => !Number.isNaN(date.getTime()), 'Date invalide')
+    .optional(),
+});
+
+// ============================================================================
+// VALIDATIONS ZOD - FACTURATION DU TEMPS
+// ============================================================================
+
+// Temps non facturé d'un projet ou de tous les projets d'un client, sur une période [from, to[
+const UnbilledTimeScopeSchema = z.object({
+  projectId: z.string()
+    .cuid('ID projet invalide')
+    .optional(),
+
+  clientId: z.string()
+    .cuid('ID client invalide')
+    .optional(),
+
+  from: DateTimeSchema.optional(),
+
+  to: DateTimeSchema.optional(),
+
+  // Une ligne par tâche ou par jour (et par taux horaire)
+  groupBy: z.enum(TIME_BILLING_GROUPS)
+    .default('TASK'),
+});
+
+const checkUnbilledScope = (
+  data: { projectId?: string | undefined; clientId?: string | undefined; from?: Date | undefined; to?: Date | undefined },
+  ctx: z.RefinementCtx
+) => {
+  if ((data.projectId === undefined) === (data.clientId === undefined)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Indiquez soit un projet, soit un client', path: ['projectId'] });
+  }
+
+  if (data.from && data.to && data.to <= data.from) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'La fin de période doit être postérieure au début', path: ['to'] });
+  }
+};
+
+export const UnbilledTimeQuerySchema = UnbilledTimeScopeSchema.superRefine(checkUnbilledScope);
+
+// Facture brouillon : échéance, TVA, devise et notes comme une facture saisie
+export const InvoiceUnbilledTimeSchema = UnbilledTimeScopeSchema.extend({
+  issueDate: InvoiceBaseSchema.shape.issueDate,
+
+  dueDate: InvoiceBaseSchema.shape.dueDate,
+
+  vatRate: InvoiceBaseSchema.shape.vatRate,
+
+  currency: InvoiceBaseSchema.shape.currency,
+
+  notes: InvoiceBaseSchema.shape.notes,
+}).strict().superRefine(checkUnbilledScope);
+
+// ============================================================================
+// VALIDATIONS ZOD - RÉGLAGES
+// ============================================================================
+
+export const UpdateTimeSettingsSchema = z.object({
+  rounding: z.number()
+    .int()
+    .refine(
+      (value): value is typeof TIME_ROUNDING_STEPS[number] => (TIME_ROUNDING_STEPS as readonly number[]).includes(value),
+      'Arrondi attendu : 0, 5 ou 15 minutes'
+    ),
+}).strict();
+
+// ============================================================================
+// TYPES TYPESCRIPT
+// ============================================================================
+
+export type StartTimerInput = z.infer<typeof StartTimerSchema>;
+export type CreateTimeEntryInput = z.infer<typeof CreateTimeEntrySchema>;
+export type UpdateTimeEntryInput = z.infer<typeof UpdateTimeEntrySchema>;
+export type TimeEntryQueryParams = z.infer<typeof TimeEntryQuerySchema>;
+export type TimesheetQuery = z.infer<typeof TimesheetQuerySchema>;
+export type UpdateTimeSettingsInput = z.infer<typeof UpdateTimeSettingsSchema>;
+export type UnbilledTimeQuery = z.infer<typeof UnbilledTimeQuerySchema>;
+export type InvoiceUnbilledTimeInput = z.infer<typeof InvoiceUnbilledTimeSchema>;
+
+// Chronomètre en cours, conservé dans Redis (un seul par freelance)
+export interface RunningTimer {
+  projectId: string;
+  taskId: string | null;
+  description: string | null;
+  hourlyRate: number | null;
+  startTime: string;
+}
+
+// Types pour les réponses API
+export interface RunningTimerResponse {
+  projectId: string;
+  taskId: string | null;
+  description: string | null;
+  hourlyRate: number | null;
+  startTime: Date;
+  elapsedMinutes: number;
+}
+
+export interface TimeEntryResponse {
+  id: string;
+  description: string | null;
+  startTime: Date;
+  endTime: Date | null;
+  duration: number;
+  hourlyRate: number | null;
+  projectId: string | null;
+  taskId: string | null;
+  invoiceId: string | null;
+  project: {
+    id: string;
+    name: string;
+  } | null;
+  task: {
+    id: string;
+    title: string;
+  } | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface TimeEntryListResponse {
+  entries: TimeEntryResponse[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
+export type TimesheetResponse = Timesheet;
+
+// Aperçu des lignes qui seraient facturées
+export interface UnbilledTimeResponse {
+  clientId: string;
+  entriesCount: number;
+  totalMinutes: number;
+  subtotal: number;
+  lines: TimeInvoiceLine[];
+}
+
+export interface TimeSettingsResponse {
+  rounding: number;
+}
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+import { VatRegime } from '@prisma/client';
+
+// ============================================================================
+// VALIDATIONS ZOD - RÉGIME DE TVA
+// ============================================================================
+
+// L'autoliquidation se déduit du client : seul le régime du freelance est paramétrable
+export const UpdateVatSettingsSchema = z.object({
+  vatRegime: z.enum([VatRegime.STANDARD, VatRegime.FRANCHISE]),
+}).strict();
+
+// ============================================================================
+// TYPES TYPESCRIPT
+// ============================================================================
+
+export type UpdateVatSettingsInput = z.infer<typeof UpdateVatSettingsSchema>;
+
+export interface VatSettingsResponse {
+  vatRegime: VatRegime;
+  tvaNumber: string | null;
+  country: string;
+  rates: number[];
+  mention: string | null;
+}
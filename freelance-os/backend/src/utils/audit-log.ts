@@ -0,0 +1,46 @@
+import { Prisma, PrismaClient } from '@prisma/client'
+import { FastifyRequest } from 'fastify'
+
+/**
+ * Journal d'audit métier (table audit_logs)
+ * Écrit dans la même transaction que la modification pour ne jamais perdre une trace
+ */
+
+export interface AuditContext {
+  ipAddress?: string | null
+  userAgent?: string | null
+}
+
+export interface AuditEntry extends AuditContext {
+  userId: string
+  action: string
+  resource: string
+  resourceId: string
+  oldValues?: Prisma.InputJsonValue
+  newValues?: Prisma.InputJsonValue
+}
+
+/**
+ * Origine de la requête à conserver dans le journal
+ */
+export function getAuditContext(request: FastifyRequest): AuditContext {
+  return {
+    ipAddress: request.ip || null,
+    userAgent: request.headers['user-agent'] || null
+  }
+}
+
+export async function writeAuditLog(db: Prisma.TransactionClient | PrismaClient, entry: AuditEntry): Promise<void> {
+  await db.auditLog.create({
+    data: {
+      userId: entry.userId,
+      action: entry.action,
+      resource: entry.resource,
+      resourceId: entry.resourceId,
+      ...(entry.oldValues !== undefined && { oldValues: entry.oldValues }),
+      ...(entry.newValues !== undefined && { newValues: entry.newValues }),
+      ipAddress: entry.ipAddress ?? null,
+      userAgent: entry.userAgent ?? null
+    }
+  })
+}
@@ -0,0 +1,133 @@
+/**
+ * Tableau Kanban : ordre des colonnes et des tâches
+ *
+ * Chaque élément porte une clé d'ordre fractionnaire en base 36 ("i", "r", "ri"…) :
+ * déplacer un élément calcule une clé comprise entre celles de ses voisins, sans
+ * renuméroter le reste de la colonne. Une clé ne se termine jamais par "0", ce qui
+ * laisse toujours de la place avant elle. Les clés se comparent en ordre binaire,
+ * indépendamment de la collation de la base : le tri est fait côté application
+ */
+
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz'
+
+const RANK_PATTERN = /^[0-9a-z]*[1-9a-z]$/
+
+// Colonnes créées à l'ouverture du tableau d'un projet
+export const DEFAULT_BOARD_COLUMNS = [
+  { name: 'À faire', isDone: false },
+  { name: 'En cours', isDone: false },
+  { name: 'Terminé', isDone: true }
+] as const
+
+export interface RankedItem {
+  id: string
+  position: string
+}
+
+// Voisins indiqués par le client lors d'un glisser-déposer
+export interface Placement {
+  afterId?: string | undefined
+  beforeId?: string | undefined
+}
+
+export function isValidRank(rank: string): boolean {
+  return RANK_PATTERN.test(rank)
+}
+
+/**
+ * Ordre binaire des clés, puis de l'identifiant pour départager d'éventuels doublons
+ */
+export function compareRanked(a: RankedItem, b: RankedItem): number {
+  if (a.position !== b.position) {
+    return a.position < b.position ? -1 : 1
+  }
+
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0
+}
+
+// Clé strictement comprise entre a ("" = début) et b (null = fin)
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    let shared = 0
+    while ((a[shared] ?? '0') === b[shared]) {
+      shared++
+    }
+
+    if (shared > 0) {
+      return b.slice(0, shared) + midpoint(a.slice(shared), b.slice(shared))
+    }
+  }
+
+  const digitA = a ? DIGITS.indexOf(a.charAt(0)) : 0
+  const digitB = b !== null ? DIGITS.indexOf(b.charAt(0)) : DIGITS.length
+
+  if (digitB - digitA > 1) {
+    return DIGITS.charAt(Math.round((digitA + digitB) / 2))
+  }
+
+  // Chiffres consécutifs : on descend d'un rang
+  if (b !== null && b.length > 1) {
+    return b.slice(0, 1)
+  }
+
+  return DIGITS.charAt(digitA) + midpoint(a.slice(1), null)
+}
+
+/**
+ * Clé d'ordre entre deux voisins (null : début ou fin de liste)
+ */
+export function rankBetween(before: string | null, after: string | null): string {
+  if ((before !== null && !isValidRank(before)) || (after !== null && !isValidRank(after))) {
+    throw new Error('Invalid position : clé d\'ordre corrompue')
+  }
+
+  if (before !== null && after !== null && before >= after) {
+    throw new Error('Invalid position : les voisins ne sont pas dans l\'ordre')
+  }
+
+  return midpoint(before ?? '', after)
+}
+
+/**
+ * Clé d'un élément déposé après `afterId` et/ou avant `beforeId` (en fin de liste sinon)
+ * `items` ne doit pas contenir l'élément déplacé
+ */
+export function rankForPlacement(items: RankedItem[], placement: Placement): string {
+  const sorted = [...items].sort(compareRanked)
+  let index = sorted.length
+
+  if (placement.afterId !== undefined) {
+    const afterIndex = sorted.findIndex(item => item.id === placement.afterId)
+
+    if (afterIndex === -1) {
+      throw new Error('Invalid position : l\'élément précédent n\'est pas dans la liste')
+    }
+
+    index = afterIndex + 1
+  }
+
+  if (placement.beforeId !== undefined) {
+    const beforeIndex = sorted.findIndex(item => item.id === placement.beforeId)
+
+    if (beforeIndex === -1) {
+      throw new Error('Invalid position : l\'élément suivant n\'est pas dans la liste')
+    }
+
+    if (placement.afterId !== undefined && beforeIndex !== index) {
+      throw new Error('Invalid position : les voisins indiqués ne se suivent plus, rechargez le tableau')
+    }
+
+    index = beforeIndex
+  }
+
+  return rankBetween(sorted[index - 1]?.position ?? null, sorted[index]?.position ?? null)
+}
+
+/**
+ * Limite WIP : une colonne pleine refuse toute nouvelle tâche
+ */
+export function assertWipLimit(column: { name: string; wipLimit: number | null }, tasksCount: number): void {
+  if (column.wipLimit !== null && tasksCount >= column.wipLimit) {
+    throw new Error(`Limite WIP déjà atteinte : la colonne « ${column.name} » accepte ${column.wipLimit} tâche(s) au plus`)
+  }
+}
@@ -0,0 +1,101 @@
+import crypto from 'crypto'
+import { InvoiceStatus, Prisma, QuoteStatus } from '@prisma/client'
+
+/**
+ * Portail client : connexion par lien magique et cloisonnement des données
+ *
+ * Un client se connecte avec l'adresse déclarée par le freelance : un lien magique à usage
+ * unique lui est envoyé, puis échangé contre un jeton de session signé propre au portail
+ * (distinct des JWT des utilisateurs). Toute lecture passe par le périmètre du client
+ * (client + freelance émetteur) : un client ne voit que ses propres documents émis.
+ */
+
+// Durée de validité d'un lien magique
+export const PORTAL_MAGIC_LINK_TTL_MINUTES = 15
+
+// Durée d'une session portail
+export const PORTAL_SESSION_TTL_HOURS = 8
+
+// Usage des jetons de session (cf. signed-links)
+export const PORTAL_SESSION_PURPOSE = 'client-portal'
+
+// Justificatifs de virement acceptés
+export const REMITTANCE_PROOF_MIME_TYPES = ['application/pdf', 'image/png', 'image/jpeg'] as const
+export const REMITTANCE_PROOF_MAX_SIZE = 5 * 1024 * 1024
+
+// Client connecté au portail
+export interface PortalScope {
+  clientId: string
+  userId: string
+}
+
+export function normalizePortalEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+/**
+ * Empreinte de l'adresse du portail : permet de retrouver le client sans déchiffrer les emails
+ */
+export function hashPortalEmail(email: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(normalizePortalEmail(email)).digest('hex')
+}
+
+export function hashPortalToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Nouveau lien magique : le jeton part par email, seule son empreinte est stockée
+ */
+export function generatePortalToken(): { token: string; tokenHash: string } {
+  const token = crypto.randomBytes(32).toString('base64url')
+  return { token, tokenHash: hashPortalToken(token) }
+}
+
+/**
+ * Factures visibles par le client : émises (brouillons exclus) et dans son périmètre
+ */
+export function portalInvoiceWhere(scope: PortalScope, invoiceId?: string): Prisma.InvoiceWhereInput {
+  return {
+    ...(invoiceId && { id: invoiceId }),
+    clientId: scope.clientId,
+    userId: scope.userId,
+    status: { not: InvoiceStatus.DRAFT }
+  }
+}
+
+/**
+ * Devis visibles par le client : envoyés (brouillons exclus) et dans son périmètre
+ */
+export function portalQuoteWhere(scope: PortalScope, quoteId?: string): Prisma.QuoteWhereInput {
+  return {
+    ...(quoteId && { id: quoteId }),
+    clientId: scope.clientId,
+    userId: scope.userId,
+    status: { not: QuoteStatus.DRAFT }
+  }
+}
+
+/**
+ * Vérifie le contenu d'un justificatif (type déclaré, signature du fichier et taille)
+ */
+export function assertRemittanceProof(mimeType: string, content: Buffer): void {
+  if (!(REMITTANCE_PROOF_MIME_TYPES as readonly string[]).includes(mimeType)) {
+    throw new Error('Invalid file : formats acceptés PDF, PNG ou JPEG')
+  }
+
+  if (content.length === 0 || content.length > REMITTANCE_PROOF_MAX_SIZE) {
+    throw new Error('Invalid file : le justificatif doit faire au plus 5 Mo')
+  }
+
+  const signatures: Record<string, number[]> = {
+    'application/pdf': [0x25, 0x50, 0x44, 0x46],
+    'image/png': [0x89, 0x50, 0x4e, 0x47],
+    'image/jpeg': [0xff, 0xd8, 0xff]
+  }
+
+  const expected = signatures[mimeType] || []
+  if (!expected.every((byte, index) => content[index] === byte)) {
+    throw new Error('Invalid file : le contenu ne correspond pas au type déclaré')
+  }
+}
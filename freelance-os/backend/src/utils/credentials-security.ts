@@ -24,6 +24,9 @@ const SECRET_CONFIG: SecretConfig = {
   rotationInterval: 30 * 24 * 60 * 60 * 1000 // 30 jours
 };
 
+// Délai maximal d'un setTimeout (~24,8 jours) : au-delà, Node le ramène à 1 ms
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
 // Master key pour chiffrement des secrets (en production, utilisez un HSM/Vault)
 const MASTER_KEY = crypto.scryptSync(config.JWT_SECRET, 'secret-salt', SECRET_CONFIG.keyLength);
 
@@ -281,10 +284,19 @@ export class SecureCredentialsManager {
       clearTimeout(existingTimer);
     }
 
-    // Programmer la nouvelle rotation
+    // Programmer la nouvelle rotation, par étapes si l'intervalle dépasse le délai maximal d'un timer
+    const secret = this.secrets.get(name);
+    const dueAt = (secret ? secret.metadata.lastRotatedAt.getTime() : Date.now()) + SECRET_CONFIG.rotationInterval;
+    const delay = Math.min(Math.max(dueAt - Date.now(), 0), MAX_TIMER_DELAY);
+
     const timer = setTimeout(() => {
+      if (Date.now() < dueAt) {
+        this.scheduleRotation(name);
+        return;
+      }
       this.rotateSecret(name);
-    }, SECRET_CONFIG.rotationInterval);
+    }, delay);
+    timer.unref();
 
     this.rotationTimers.set(name, timer);
   }
@@ -418,6 +430,13 @@ export const SECURE_JWT_CONFIG = {
   }
 };
 
+/**
+ * Secret des liens publics signés (acceptation de devis, sessions du portail client)
+ * Lu une fois au démarrage comme le secret du plugin JWT : une rotation en mémoire
+ * n'invalide pas les liens déjà envoyés
+ */
+export const SIGNED_LINK_SECRET = SECURE_JWT_CONFIG.secret();
+
 /**
  * Utilitaires pour la validation des variables d'environnement
  */
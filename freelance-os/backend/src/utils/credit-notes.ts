@@ -0,0 +1,75 @@
+import { Prisma } from '@prisma/client'
+import { BASE_CURRENCY } from '@/utils/exchange-rates'
+
+/**
+ * Avoirs (factures rectificatives)
+ *
+ * Un avoir est une facture de type CREDIT_NOTE, émise immédiatement avec sa propre
+ * numérotation et des montants positifs qui viennent en déduction de la facture corrigée.
+ * Le cumul des avoirs d'une facture ne peut pas dépasser son total TTC ; une facture
+ * entièrement créditée est annulée.
+ */
+
+/**
+ * Montant TTC restant à créditer sur une facture
+ */
+export function getRemainingCreditable(invoiceTotal: Prisma.Decimal, creditedTotal: Prisma.Decimal): Prisma.Decimal {
+  const remaining = invoiceTotal.minus(creditedTotal)
+  return remaining.isNegative() ? new Prisma.Decimal(0) : remaining
+}
+
+/**
+ * Vérifie qu'un nouvel avoir ne dépasse pas le reste à créditer (erreur "Invalid amount" sinon)
+ */
+export function assertCreditable(
+  invoiceTotal: Prisma.Decimal,
+  creditedTotal: Prisma.Decimal,
+  creditTotal: Prisma.Decimal
+): void {
+  if (creditTotal.lessThanOrEqualTo(0)) {
+    throw new Error('Invalid amount : le montant de l\'avoir doit être positif')
+  }
+
+  const remaining = getRemainingCreditable(invoiceTotal, creditedTotal)
+
+  if (creditTotal.greaterThan(remaining)) {
+    throw new Error(`Invalid amount : l'avoir (${creditTotal.toFixed(2)}) dépasse le reste à créditer (${remaining.toFixed(2)})`)
+  }
+}
+
+export function isFullyCredited(invoiceTotal: Prisma.Decimal, creditedTotal: Prisma.Decimal): boolean {
+  return creditedTotal.greaterThanOrEqualTo(invoiceTotal)
+}
+
+// Sommes brutes des documents émis (factures, avoirs) et des paiements reçus
+export interface BillingTotals {
+  invoicedSubtotal: Prisma.Decimal
+  invoicedTotal: Prisma.Decimal
+  creditedSubtotal: Prisma.Decimal
+  creditedTotal: Prisma.Decimal
+  paidAmount: Prisma.Decimal
+}
+
+export interface BillingSummary {
+  currency: string
+  invoicedRevenue: number
+  creditedRevenue: number
+  netRevenue: number
+  paidAmount: number
+  outstandingBalance: number
+}
+
+/**
+ * Chiffre d'affaires HT net des avoirs et solde TTC restant dû
+ * Les factures annulées restent comptées : l'avoir qui les annule les compense
+ */
+export function computeBillingSummary(totals: BillingTotals, currency: string = BASE_CURRENCY): BillingSummary {
+  return {
+    currency,
+    invoicedRevenue: totals.invoicedSubtotal.toNumber(),
+    creditedRevenue: totals.creditedSubtotal.toNumber(),
+    netRevenue: totals.invoicedSubtotal.minus(totals.creditedSubtotal).toNumber(),
+    paidAmount: totals.paidAmount.toNumber(),
+    outstandingBalance: totals.invoicedTotal.minus(totals.creditedTotal).minus(totals.paidAmount).toNumber()
+  }
+}
@@ -0,0 +1,112 @@
+import { NumberingReset } from '@prisma/client'
+
+/**
+ * Numérotation légale des factures et devis
+ * Format des motifs : {YYYY}, {YY}, {MM} et {seq} / {seq:N} (séquence complétée à N chiffres)
+ * Exemple : "FAC-{YYYY}-{seq:4}" → "FAC-2025-0001"
+ */
+
+const SEQUENCE_TOKEN = /\{seq(?::(\d{1,2}))?\}/g
+const YEAR_TOKEN = /\{YYYY\}|\{YY\}/
+const MONTH_TOKEN = /\{MM\}/
+const ALLOWED_TOKENS = /^(?:[A-Za-z0-9_\-/.]|\{YYYY\}|\{YY\}|\{MM\}|\{seq(?::\d{1,2})?\})+$/
+
+export const DEFAULT_NUMBERING_PATTERNS = {
+  INVOICE: 'FAC-{YYYY}-{seq:4}',
+  QUOTE: 'DEV-{YYYY}-{seq:4}',
+  CREDIT_NOTE: 'AV-{YYYY}-{seq:4}'
+} as const
+
+/**
+ * Clé de période pour la remise à zéro de la séquence
+ */
+export function getNumberingPeriod(reset: NumberingReset, date: Date): string {
+  const year = String(date.getFullYear())
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+
+  switch (reset) {
+    case NumberingReset.YEARLY:
+      return year
+    case NumberingReset.MONTHLY:
+      return `${year}-${month}`
+    default:
+      return 'ALL'
+  }
+}
+
+// État d'une séquence de numérotation
+export interface NumberingSequenceState {
+  resetPeriod: NumberingReset
+  period: string
+  lastValue: number
+}
+
+/**
+ * Valeur de séquence du prochain document (1 si la période a changé depuis le dernier)
+ */
+export function nextSequenceValue(sequence: NumberingSequenceState, date: Date): number {
+  return sequence.period === getNumberingPeriod(sequence.resetPeriod, date) ? sequence.lastValue + 1 : 1
+}
+
+/**
+ * Séquence après un changement de paramètres : sans changement de remise à zéro, période et
+ * compteur sont conservés (la remise à zéro de la nouvelle période reste due). Sinon la séquence
+ * continue sous la nouvelle période, sauf si elle serait de toute façon repartie de 1
+ */
+export function rebaseSequence(
+  sequence: NumberingSequenceState,
+  resetPeriod: NumberingReset,
+  date: Date
+): NumberingSequenceState {
+  if (sequence.resetPeriod === resetPeriod) {
+    return sequence
+  }
+
+  return {
+    resetPeriod,
+    period: getNumberingPeriod(resetPeriod, date),
+    lastValue: nextSequenceValue(sequence, date) === 1 ? 0 : sequence.lastValue
+  }
+}
+
+/**
+ * Génère un numéro à partir d'un motif, d'une valeur de séquence et d'une date
+ */
+export function formatDocumentNumber(pattern: string, sequence: number, date: Date): string {
+  const year = String(date.getFullYear())
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+
+  return pattern
+    .replace(/\{YYYY\}/g, year)
+    .replace(/\{YY\}/g, year.slice(-2))
+    .replace(/\{MM\}/g, month)
+    .replace(SEQUENCE_TOKEN, (_match, padding?: string) =>
+      String(sequence).padStart(padding ? Number(padding) : 0, '0')
+    )
+}
+
+/**
+ * Vérifie qu'un motif produit des numéros uniques sur sa période de remise à zéro
+ * Retourne le message d'erreur ou null si le motif est valide
+ */
+export function validateNumberingPattern(pattern: string, reset: NumberingReset): string | null {
+  if (!ALLOWED_TOKENS.test(pattern)) {
+    return 'Le motif contient des caractères ou des variables non autorisés'
+  }
+
+  const sequenceTokens = pattern.match(SEQUENCE_TOKEN) || []
+  if (sequenceTokens.length !== 1) {
+    return 'Le motif doit contenir exactement une variable {seq}'
+  }
+
+  // Sans l'année (et le mois), une remise à zéro produirait des doublons
+  if (reset !== NumberingReset.NEVER && !YEAR_TOKEN.test(pattern)) {
+    return 'Un motif remis à zéro périodiquement doit contenir {YYYY} ou {YY}'
+  }
+
+  if (reset === NumberingReset.MONTHLY && !MONTH_TOKEN.test(pattern)) {
+    return 'Un motif remis à zéro chaque mois doit contenir {MM}'
+  }
+
+  return null
+}
@@ -0,0 +1,97 @@
+import { PdfDocumentData } from '@/types/pdf.types'
+import { computeVatBreakdown } from '@/utils/invoice-calculations'
+import { VAT_REGIME_MENTIONS } from '@/utils/vat'
+
+/**
+ * Éléments communs aux syntaxes de facture électronique (CII / Factur-X et UBL)
+ */
+
+// Codes facture commerciale et avoir (UNTDID 1001)
+export const INVOICE_TYPE_CODE = '380'
+export const CREDIT_NOTE_TYPE_CODE = '381'
+export const DEPOSIT_INVOICE_TYPE_CODE = '386'
+// Unité par défaut des lignes (UN/ECE Rec 20 : "unité")
+export const DEFAULT_UNIT_CODE = 'C62'
+// Identifiant SIREN (ISO 6523 ICD 0002)
+export const SIREN_SCHEME_ID = '0002'
+
+export interface VatBreakdownEntry {
+  categoryCode: string
+  rate: number
+  basisAmount: number
+  taxAmount: number
+  exemptionReason: string | null
+  exemptionReasonCode: string | null
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+export function formatAmount(amount: number): string {
+  return amount.toFixed(2)
+}
+
+export function formatQuantity(quantity: number): string {
+  return String(Number(quantity.toFixed(4)))
+}
+
+// Le SIREN correspond aux 9 premiers chiffres du SIRET
+export function toSiren(siret: string | null): string | null {
+  const digits = siret?.replace(/\s/g, '') || ''
+  return /^\d{9}(\d{5})?$/.test(digits) ? digits.slice(0, 9) : null
+}
+
+/**
+ * Catégorie de TVA (UNTDID 5305) selon le régime du document et le taux de la ligne :
+ * taux normal ou nul, exonération (franchise en base) ou autoliquidation
+ */
+export function getVatCategory(
+  regime: PdfDocumentData['vatRegime'],
+  rate: number
+): Omit<VatBreakdownEntry, 'rate' | 'basisAmount' | 'taxAmount'> {
+  if (regime === 'FRANCHISE') {
+    return { categoryCode: 'E', exemptionReason: VAT_REGIME_MENTIONS.FRANCHISE, exemptionReasonCode: 'VATEX-FR-FRANCHISE' }
+  }
+
+  if (regime === 'REVERSE_CHARGE') {
+    return { categoryCode: 'AE', exemptionReason: 'Autoliquidation', exemptionReasonCode: 'VATEX-EU-AE' }
+  }
+
+  return { categoryCode: rate > 0 ? 'S' : 'Z', exemptionReason: null, exemptionReasonCode: null }
+}
+
+/**
+ * Ventilation de la TVA par catégorie et taux (BG-23)
+ * Même calcul que les totaux enregistrés : la TVA de chaque taux est calculée sur sa base HT
+ */
+export function getVatBreakdown(data: PdfDocumentData): VatBreakdownEntry[] {
+  return computeVatBreakdown(data.items, data.vatRate).map(vat => ({
+    ...getVatCategory(data.vatRegime, vat.rate.toNumber()),
+    rate: vat.rate.toNumber(),
+    basisAmount: vat.basisAmount.toNumber(),
+    taxAmount: vat.taxAmount.toNumber()
+  }))
+}
+
+export function getDocumentTypeCode(data: PdfDocumentData): string {
+  if (data.kind === 'CREDIT_NOTE') {
+    return CREDIT_NOTE_TYPE_CODE
+  }
+
+  return data.billingStage === 'DEPOSIT' ? DEPOSIT_INVOICE_TYPE_CODE : INVOICE_TYPE_CODE
+}
+
+/**
+ * Contrôle commun aux exports : seule une facture (ou un avoir) émise et numérotée est exportable
+ */
+export function assertExportableInvoice(data: PdfDocumentData, syntax: string): asserts data is PdfDocumentData & { number: string } {
+  if (data.kind === 'QUOTE' || !data.number) {
+    throw new Error(`Invalid ${syntax} : seule une facture émise et numérotée peut être exportée`)
+  }
+}
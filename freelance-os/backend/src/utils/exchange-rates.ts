@@ -0,0 +1,215 @@
+import fs from 'fs'
+import { Prisma } from '@prisma/client'
+import { XMLParser } from 'fast-xml-parser'
+
+/**
+ * Taux de change des factures en devise
+ *
+ * Un taux est exprimé comme la BCE : nombre d'unités de la devise pour 1 EUR.
+ * Il est figé sur la facture à son émission (taux publié au plus tard à la date d'émission)
+ * et sert à convertir ses montants en euros pour le reporting.
+ *
+ * Fournisseurs disponibles :
+ * - ecb : cours de référence publiés par la Banque centrale européenne
+ * - file : fichier JSON local { "AAAA-MM-JJ": { "USD": 1.0842 } } pour un usage hors ligne
+ * - manual : taux fixes configurés ("USD=1.0842,GBP=0.8412")
+ */
+
+export const BASE_CURRENCY = 'EUR'
+
+export const ECB_RATES_URL = 'https://www.ecb.europa.eu/stats/eurofxref/eurofxref-hist-90d.xml'
+export const ECB_HISTORY_URL = 'https://www.ecb.europa.eu/stats/eurofxref/eurofxref-hist.xml'
+
+export const EXCHANGE_RATE_SOURCES = ['ECB', 'FILE', 'MANUAL'] as const
+
+export type ExchangeRateSource = typeof EXCHANGE_RATE_SOURCES[number]
+
+export interface ExchangeRate {
+  currency: string
+  rate: Prisma.Decimal
+  date: Date
+  source: ExchangeRateSource | typeof BASE_CURRENCY
+}
+
+export interface ExchangeRateProvider {
+  readonly source: ExchangeRateSource
+  getRate(currency: string, date: Date): Promise<ExchangeRate>
+}
+
+// Cours par jour de publication (AAAA-MM-JJ) puis par devise
+export type RateTable = Record<string, Record<string, number>>
+
+const ISO_CURRENCIES = new Set(Intl.supportedValuesOf('currency'))
+
+/**
+ * Code devise ISO 4217 connu du runtime (majuscules)
+ */
+export function isIsoCurrency(code: string): boolean {
+  return /^[A-Z]{3}$/.test(code) && ISO_CURRENCIES.has(code)
+}
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10)
+
+/**
+ * Dernier cours publié au plus tard à la date demandée (week-ends et jours fériés)
+ */
+export function pickRate(table: RateTable, currency: string, date: Date, source: ExchangeRateSource): ExchangeRate {
+  const day = toDay(date)
+  const publication = Object.keys(table)
+    .filter(entry => entry <= day && table[entry]?.[currency] !== undefined)
+    .sort()
+    .pop()
+
+  const value = publication ? table[publication]?.[currency] : undefined
+
+  if (!publication || value === undefined || value <= 0) {
+    throw new Error(`Invalid currency : aucun taux ${currency} disponible au ${day} (${source})`)
+  }
+
+  return {
+    currency,
+    rate: new Prisma.Decimal(value),
+    date: new Date(`${publication}T00:00:00.000Z`),
+    source
+  }
+}
+
+/**
+ * Lecture du flux XML de la BCE (Cube time="..." > Cube currency="..." rate="...")
+ */
+export function parseEcbRates(xml: string): RateTable {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '',
+    removeNSPrefix: true,
+    isArray: name => name === 'Cube'
+  })
+  const days: Array<{ time?: string; Cube?: Array<{ currency: string; rate: string }> }> =
+    parser.parse(xml)?.Envelope?.Cube?.[0]?.Cube || []
+
+  const table: RateTable = {}
+
+  for (const day of days) {
+    if (!day.time) continue
+
+    table[day.time] = Object.fromEntries((day.Cube || []).map(entry => [entry.currency, Number(entry.rate)]))
+  }
+
+  return table
+}
+
+/**
+ * Taux fixes au format "USD=1.0842,GBP=0.8412"
+ */
+export function parseManualRates(value: string): Record<string, number> {
+  const rates: Record<string, number> = {}
+
+  for (const pair of value.split(',').map(entry => entry.trim()).filter(Boolean)) {
+    const [currency, rate] = pair.split('=').map(part => part.trim())
+    const parsed = Number(rate)
+
+    if (!currency || !isIsoCurrency(currency.toUpperCase()) || !Number.isFinite(parsed) || parsed <= 0) {
+      throw new Error(`Invalid exchange rate : "${pair}"`)
+    }
+
+    rates[currency.toUpperCase()] = parsed
+  }
+
+  return rates
+}
+
+/**
+ * Cours de référence de la BCE, mis en cache pour la journée
+ * L'historique complet n'est téléchargé que pour une date antérieure aux 90 derniers jours
+ */
+export class EcbRateProvider implements ExchangeRateProvider {
+  readonly source = 'ECB' as const
+  private cache = new Map<string, { day: string; table: RateTable }>()
+
+  private async load(url: string): Promise<RateTable> {
+    const today = toDay(new Date())
+    const cached = this.cache.get(url)
+
+    if (cached && cached.day === today) {
+      return cached.table
+    }
+
+    const response = await fetch(url, { signal: AbortSignal.timeout(10000) })
+
+    if (!response.ok) {
+      throw new Error(`Taux BCE indisponibles (HTTP ${response.status})`)
+    }
+
+    const table = parseEcbRates(await response.text())
+    this.cache.set(url, { day: today, table })
+
+    return table
+  }
+
+  async getRate(currency: string, date: Date): Promise<ExchangeRate> {
+    const recent = await this.load(ECB_RATES_URL)
+    const oldest = Object.keys(recent).sort()[0]
+
+    return pickRate(oldest && toDay(date) < oldest ? await this.load(ECB_HISTORY_URL) : recent, currency, date, this.source)
+  }
+}
+
+/**
+ * Historique de taux dans un fichier JSON local, relu à chaque demande
+ */
+export class FileRateProvider implements ExchangeRateProvider {
+  readonly source = 'FILE' as const
+
+  constructor(private filePath: string) {}
+
+  async getRate(currency: string, date: Date): Promise<ExchangeRate> {
+    const table: RateTable = JSON.parse(await fs.promises.readFile(this.filePath, 'utf8'))
+
+    return pickRate(table, currency, date, this.source)
+  }
+}
+
+/**
+ * Taux fixes, applicables quelle que soit la date
+ */
+export class ManualRateProvider implements ExchangeRateProvider {
+  readonly source = 'MANUAL' as const
+
+  constructor(private rates: Record<string, number>) {}
+
+  async getRate(currency: string, date: Date): Promise<ExchangeRate> {
+    return pickRate({ [toDay(date)]: this.rates }, currency, date, this.source)
+  }
+}
+
+/**
+ * Montant converti en euros avec le taux figé du document (null : document en euros)
+ */
+export function toBaseCurrency(amount: Prisma.Decimal, rate: Prisma.Decimal | null): Prisma.Decimal {
+  return rate ? amount.dividedBy(rate) : amount
+}
+
+/**
+ * Montant en euros converti dans la devise de reporting (taux du jour)
+ */
+export function fromBaseCurrency(amount: Prisma.Decimal, rate: Prisma.Decimal): Prisma.Decimal {
+  return amount.times(rate).toDecimalPlaces(2)
+}
+
+export interface ConvertibleAmount {
+  amount: Prisma.Decimal
+  exchangeRate: Prisma.Decimal | null
+}
+
+/**
+ * Somme de montants en devises diverses, exprimée dans la devise de reporting
+ * Chaque montant passe en euros au taux de son document, la somme au taux de reporting
+ */
+export function sumInCurrency(amounts: ConvertibleAmount[], reportingRate: Prisma.Decimal): Prisma.Decimal {
+  const inBase = amounts.reduce(
+    (total, entry) => total.plus(toBaseCurrency(entry.amount, entry.exchangeRate)),
+    new Prisma.Decimal(0)
+  )
+
+  return fromBaseCurrency(inBase, reportingRate)
+}
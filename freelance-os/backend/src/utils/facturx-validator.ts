@@ -0,0 +1,58 @@
+import fs from 'fs'
+import path from 'path'
+import { validateXML, XMLFileInfo } from 'xmllint-wasm'
+import { FacturXProfile, FacturXValidationResult } from '@/types/facturx.types'
+import { FACTURX_PROFILE_INFO } from '@/utils/facturx'
+
+/**
+ * Validation hors ligne du XML Factur-X contre les XSD officiels (xmllint compilé en WebAssembly)
+ * Les schémas Factur-X 1.0.07 sont versionnés dans backend/schemas/factur-x
+ */
+
+const SCHEMAS_DIRECTORY = path.resolve(__dirname, '../../schemas/factur-x')
+
+const schemaCache = new Map<FacturXProfile, { schema: XMLFileInfo; preload: XMLFileInfo[] }>()
+
+async function loadProfileSchemas(profile: FacturXProfile): Promise<{ schema: XMLFileInfo; preload: XMLFileInfo[] }> {
+  const cached = schemaCache.get(profile)
+  if (cached) return cached
+
+  const { schemaPrefix } = FACTURX_PROFILE_INFO[profile]
+  const mainFile = `${schemaPrefix}.xsd`
+  const files = (await fs.promises.readdir(SCHEMAS_DIRECTORY))
+    .filter(file => file === mainFile || file.startsWith(`${schemaPrefix}_urn_`))
+
+  const entries = await Promise.all(files.map(async fileName => ({
+    fileName,
+    contents: await fs.promises.readFile(path.join(SCHEMAS_DIRECTORY, fileName), 'utf8')
+  })))
+
+  const schema = entries.find(entry => entry.fileName === mainFile)
+  if (!schema) {
+    throw new Error(`Schéma Factur-X ${profile} introuvable`)
+  }
+
+  const loaded = { schema, preload: entries.filter(entry => entry !== schema) }
+  schemaCache.set(profile, loaded)
+
+  return loaded
+}
+
+/**
+ * Vérifie un XML Factur-X contre le XSD de son profil
+ */
+export async function validateFacturXXml(xml: string, profile: FacturXProfile): Promise<FacturXValidationResult> {
+  const { schema, preload } = await loadProfileSchemas(profile)
+
+  const result = await validateXML({
+    xml: [{ fileName: 'factur-x.xml', contents: xml }],
+    schema: [schema],
+    preload
+  })
+
+  return {
+    valid: result.valid,
+    profile,
+    errors: result.errors.map(error => error.message)
+  }
+}
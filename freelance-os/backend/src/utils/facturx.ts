@@ -0,0 +1,221 @@
+import { FacturXProfile } from '@/types/facturx.types'
+import { PdfDocumentData, PdfParty } from '@/types/pdf.types'
+import {
+  assertExportableInvoice,
+  DEFAULT_UNIT_CODE,
+  escapeXml,
+  formatAmount,
+  formatQuantity,
+  getDocumentTypeCode,
+  getVatBreakdown,
+  getVatCategory,
+  SIREN_SCHEME_ID,
+  toSiren
+} from '@/utils/einvoice'
+
+/**
+ * Génération du XML Factur-X (syntaxe UN/CEFACT CII D16B) embarqué dans les factures PDF/A-3
+ * Profils supportés : MINIMUM, BASIC WL, BASIC et EN 16931 (Factur-X 1.0.07)
+ * Le profil EN 16931 sert aussi d'export CII autonome
+ */
+
+export const FACTURX_FILE_NAME = 'factur-x.xml'
+
+export const FACTURX_PROFILE_INFO: Record<FacturXProfile, {
+  guidelineId: string
+  conformanceLevel: string
+  schemaPrefix: string
+  afRelationship: 'Data' | 'Alternative'
+  level: number
+}> = {
+  MINIMUM: {
+    guidelineId: 'urn:factur-x.eu:1p0:minimum',
+    conformanceLevel: 'MINIMUM',
+    schemaPrefix: 'Factur-X_1.07.3_MINIMUM',
+    afRelationship: 'Data',
+    level: 0
+  },
+  BASIC_WL: {
+    guidelineId: 'urn:factur-x.eu:1p0:basicwl',
+    conformanceLevel: 'BASIC WL',
+    schemaPrefix: 'Factur-X_1.07.3_BASICWL',
+    afRelationship: 'Data',
+    level: 1
+  },
+  BASIC: {
+    guidelineId: 'urn:cen.eu:en16931:2017#compliant#urn:factur-x.eu:1p0:basic',
+    conformanceLevel: 'BASIC',
+    schemaPrefix: 'Factur-X_1.07.3_BASIC',
+    afRelationship: 'Alternative',
+    level: 2
+  },
+  EN16931: {
+    guidelineId: 'urn:cen.eu:en16931:2017',
+    conformanceLevel: 'EN 16931',
+    schemaPrefix: 'Factur-X_1.07.3_EN16931',
+    afRelationship: 'Alternative',
+    level: 3
+  }
+}
+
+// Format 102 : AAAAMMJJ
+function formatDate(date: Date): string {
+  const year = String(date.getFullYear())
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+
+  return `${year}${month}${day}`
+}
+
+function dateElement(name: string, date: Date): string {
+  return `<ram:${name}><udt:DateTimeString format="102">${formatDate(date)}</udt:DateTimeString></ram:${name}>`
+}
+
+function renderParty(tag: string, party: PdfParty, profile: FacturXProfile, isSeller: boolean): string {
+  const { level } = FACTURX_PROFILE_INFO[profile]
+  const siren = toSiren(party.siret)
+  const parts = [`<ram:Name>${escapeXml(party.company || party.name)}</ram:Name>`]
+
+  if (siren) {
+    parts.push(
+      '<ram:SpecifiedLegalOrganization>' +
+      `<ram:ID schemeID="${SIREN_SCHEME_ID}">${siren}</ram:ID>` +
+      '</ram:SpecifiedLegalOrganization>'
+    )
+  }
+
+  // En MINIMUM, seul le pays du vendeur est transmis
+  if (level >= FACTURX_PROFILE_INFO.BASIC_WL.level) {
+    const address = [
+      party.zipCode ? `<ram:PostcodeCode>${escapeXml(party.zipCode)}</ram:PostcodeCode>` : '',
+      party.address ? `<ram:LineOne>${escapeXml(party.address)}</ram:LineOne>` : '',
+      party.city ? `<ram:CityName>${escapeXml(party.city)}</ram:CityName>` : '',
+      `<ram:CountryID>${escapeXml(party.country)}</ram:CountryID>`
+    ].join('')
+    parts.push(`<ram:PostalTradeAddress>${address}</ram:PostalTradeAddress>`)
+  } else if (isSeller) {
+    parts.push(`<ram:PostalTradeAddress><ram:CountryID>${escapeXml(party.country)}</ram:CountryID></ram:PostalTradeAddress>`)
+  }
+
+  if (party.tvaNumber && (isSeller || level >= FACTURX_PROFILE_INFO.BASIC_WL.level)) {
+    parts.push(
+      '<ram:SpecifiedTaxRegistration>' +
+      `<ram:ID schemeID="VA">${escapeXml(party.tvaNumber.replace(/\s/g, ''))}</ram:ID>` +
+      '</ram:SpecifiedTaxRegistration>'
+    )
+  }
+
+  return `<ram:${tag}>${parts.join('')}</ram:${tag}>`
+}
+
+function renderLines(data: PdfDocumentData): string {
+  return data.items.map((item, index) =>
+    '<ram:IncludedSupplyChainTradeLineItem>' +
+    `<ram:AssociatedDocumentLineDocument><ram:LineID>${index + 1}</ram:LineID></ram:AssociatedDocumentLineDocument>` +
+    `<ram:SpecifiedTradeProduct><ram:Name>${escapeXml(item.description)}</ram:Name></ram:SpecifiedTradeProduct>` +
+    '<ram:SpecifiedLineTradeAgreement>' +
+    `<ram:NetPriceProductTradePrice><ram:ChargeAmount>${formatAmount(item.unitPrice)}</ram:ChargeAmount></ram:NetPriceProductTradePrice>` +
+    '</ram:SpecifiedLineTradeAgreement>' +
+    '<ram:SpecifiedLineTradeDelivery>' +
+    `<ram:BilledQuantity unitCode="${DEFAULT_UNIT_CODE}">${formatQuantity(item.quantity)}</ram:BilledQuantity>` +
+    '</ram:SpecifiedLineTradeDelivery>' +
+    '<ram:SpecifiedLineTradeSettlement>' +
+    '<ram:ApplicableTradeTax>' +
+    `<ram:TypeCode>VAT</ram:TypeCode><ram:CategoryCode>${getVatCategory(data.vatRegime, item.vatRate).categoryCode}</ram:CategoryCode>` +
+    `<ram:RateApplicablePercent>${formatAmount(item.vatRate)}</ram:RateApplicablePercent>` +
+    '</ram:ApplicableTradeTax>' +
+    '<ram:SpecifiedTradeSettlementLineMonetarySummation>' +
+    `<ram:LineTotalAmount>${formatAmount(item.total)}</ram:LineTotalAmount>` +
+    '</ram:SpecifiedTradeSettlementLineMonetarySummation>' +
+    '</ram:SpecifiedLineTradeSettlement>' +
+    '</ram:IncludedSupplyChainTradeLineItem>'
+  ).join('')
+}
+
+function renderSettlement(data: PdfDocumentData, profile: FacturXProfile): string {
+  const { level } = FACTURX_PROFILE_INFO[profile]
+  const currency = escapeXml(data.currency)
+  const parts = [`<ram:InvoiceCurrencyCode>${currency}</ram:InvoiceCurrencyCode>`]
+
+  if (level >= FACTURX_PROFILE_INFO.BASIC_WL.level) {
+    for (const vat of getVatBreakdown(data)) {
+      parts.push(
+        '<ram:ApplicableTradeTax>' +
+        `<ram:CalculatedAmount>${formatAmount(vat.taxAmount)}</ram:CalculatedAmount>` +
+        '<ram:TypeCode>VAT</ram:TypeCode>' +
+        (vat.exemptionReason ? `<ram:ExemptionReason>${escapeXml(vat.exemptionReason)}</ram:ExemptionReason>` : '') +
+        `<ram:BasisAmount>${formatAmount(vat.basisAmount)}</ram:BasisAmount>` +
+        `<ram:CategoryCode>${vat.categoryCode}</ram:CategoryCode>` +
+        (vat.exemptionReasonCode ? `<ram:ExemptionReasonCode>${vat.exemptionReasonCode}</ram:ExemptionReasonCode>` : '') +
+        `<ram:RateApplicablePercent>${formatAmount(vat.rate)}</ram:RateApplicablePercent>` +
+        '</ram:ApplicableTradeTax>'
+      )
+    }
+
+    if (data.dueDate) {
+      parts.push(
+        '<ram:SpecifiedTradePaymentTerms>' +
+        `<ram:Description>Paiement à ${data.paymentTermsDays} jours</ram:Description>` +
+        dateElement('DueDateDateTime', data.dueDate) +
+        '</ram:SpecifiedTradePaymentTerms>'
+      )
+    }
+  }
+
+  parts.push(
+    '<ram:SpecifiedTradeSettlementHeaderMonetarySummation>' +
+    (level >= FACTURX_PROFILE_INFO.BASIC_WL.level ? `<ram:LineTotalAmount>${formatAmount(data.subtotal)}</ram:LineTotalAmount>` : '') +
+    `<ram:TaxBasisTotalAmount>${formatAmount(data.subtotal)}</ram:TaxBasisTotalAmount>` +
+    `<ram:TaxTotalAmount currencyID="${currency}">${formatAmount(data.vatAmount)}</ram:TaxTotalAmount>` +
+    `<ram:GrandTotalAmount>${formatAmount(data.total)}</ram:GrandTotalAmount>` +
+    `<ram:DuePayableAmount>${formatAmount(data.total)}</ram:DuePayableAmount>` +
+    '</ram:SpecifiedTradeSettlementHeaderMonetarySummation>'
+  )
+
+  // Avoir : référence à la facture corrigée (BT-25)
+  if (data.correctedInvoiceNumber && level >= FACTURX_PROFILE_INFO.BASIC_WL.level) {
+    parts.push(
+      '<ram:InvoiceReferencedDocument>' +
+      `<ram:IssuerAssignedID>${escapeXml(data.correctedInvoiceNumber)}</ram:IssuerAssignedID>` +
+      '</ram:InvoiceReferencedDocument>'
+    )
+  }
+
+  return `<ram:ApplicableHeaderTradeSettlement>${parts.join('')}</ram:ApplicableHeaderTradeSettlement>`
+}
+
+/**
+ * Construit le XML Factur-X d'une facture ou d'un avoir émis pour le profil demandé
+ */
+export function buildFacturXXml(data: PdfDocumentData, profile: FacturXProfile): string {
+  assertExportableInvoice(data, 'Factur-X')
+
+  const { guidelineId, level } = FACTURX_PROFILE_INFO[profile]
+  const hasNotes = Boolean(data.notes) && level >= FACTURX_PROFILE_INFO.BASIC_WL.level
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<rsm:CrossIndustryInvoice' +
+    ' xmlns:rsm="urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100"' +
+    ' xmlns:qdt="urn:un:unece:uncefact:data:standard:QualifiedDataType:100"' +
+    ' xmlns:ram="urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100"' +
+    ' xmlns:udt="urn:un:unece:uncefact:data:standard:UnqualifiedDataType:100">' +
+    '<rsm:ExchangedDocumentContext>' +
+    `<ram:GuidelineSpecifiedDocumentContextParameter><ram:ID>${guidelineId}</ram:ID></ram:GuidelineSpecifiedDocumentContextParameter>` +
+    '</rsm:ExchangedDocumentContext>' +
+    '<rsm:ExchangedDocument>' +
+    `<ram:ID>${escapeXml(data.number)}</ram:ID>` +
+    `<ram:TypeCode>${getDocumentTypeCode(data)}</ram:TypeCode>` +
+    dateElement('IssueDateTime', data.issueDate) +
+    (hasNotes ? `<ram:IncludedNote><ram:Content>${escapeXml(data.notes || '')}</ram:Content></ram:IncludedNote>` : '') +
+    '</rsm:ExchangedDocument>' +
+    '<rsm:SupplyChainTradeTransaction>' +
+    (level >= FACTURX_PROFILE_INFO.BASIC.level ? renderLines(data) : '') +
+    '<ram:ApplicableHeaderTradeAgreement>' +
+    renderParty('SellerTradeParty', data.issuer, profile, true) +
+    renderParty('BuyerTradeParty', data.client, profile, false) +
+    '</ram:ApplicableHeaderTradeAgreement>' +
+    '<ram:ApplicableHeaderTradeDelivery/>' +
+    renderSettlement(data, profile) +
+    '</rsm:SupplyChainTradeTransaction>' +
+    '</rsm:CrossIndustryInvoice>\n'
+}
@@ -0,0 +1,35 @@
+import { Prisma } from '@prisma/client'
+
+/**
+ * Solde d'une facture émise
+ *
+ * Reste dû = total TTC - avoirs émis - paiements reçus. Un trop-perçu n'est jamais
+ * reporté sur la facture : il reste acquis au client sous forme d'avoir client (crédit).
+ */
+
+// Montants venant en déduction d'une facture
+export interface InvoiceSettlement {
+  paidAmount: Prisma.Decimal
+  creditedAmount: Prisma.Decimal
+  lastPaidAt: Date | null
+}
+
+export interface InvoiceBalance {
+  total: number
+  paidAmount: number
+  creditedAmount: number
+  balanceDue: number
+  overpayment: number
+}
+
+export function computeInvoiceBalance(total: Prisma.Decimal, settlement: Omit<InvoiceSettlement, 'lastPaidAt'>): InvoiceBalance {
+  const remaining = total.minus(settlement.creditedAmount).minus(settlement.paidAmount)
+
+  return {
+    total: total.toNumber(),
+    paidAmount: settlement.paidAmount.toNumber(),
+    creditedAmount: settlement.creditedAmount.toNumber(),
+    balanceDue: remaining.isNegative() ? 0 : remaining.toNumber(),
+    overpayment: remaining.isNegative() ? remaining.negated().toNumber() : 0
+  }
+}
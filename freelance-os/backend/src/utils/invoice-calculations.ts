@@ -0,0 +1,80 @@
+import { Prisma } from '@prisma/client'
+
+/**
+ * Calculs des montants de facturation
+ * Tous les montants sont calculés côté serveur en Decimal (pas de flottants)
+ */
+
+const Decimal = Prisma.Decimal
+type DecimalValue = Prisma.Decimal | number | string
+
+// Arrondi commercial au centime (0.005 → 0.01)
+export function roundAmount(value: DecimalValue): Prisma.Decimal {
+  return new Decimal(value).toDecimalPlaces(2, Decimal.ROUND_HALF_UP)
+}
+
+export interface LineInput {
+  quantity: DecimalValue
+  unitPrice: DecimalValue
+  // Taux de TVA de la ligne (à défaut, taux du document)
+  vatRate?: DecimalValue | null | undefined
+}
+
+// Ventilation par taux : base HT et TVA calculée sur cette base
+export interface VatRateTotal {
+  rate: Prisma.Decimal
+  basisAmount: Prisma.Decimal
+  taxAmount: Prisma.Decimal
+}
+
+export interface DocumentTotals {
+  subtotal: Prisma.Decimal
+  vatAmount: Prisma.Decimal
+  total: Prisma.Decimal
+  vatBreakdown: VatRateTotal[]
+}
+
+/**
+ * Total HT d'une ligne : quantité × prix unitaire, arrondi au centime
+ */
+export function computeLineTotal(line: LineInput): Prisma.Decimal {
+  return roundAmount(new Decimal(line.quantity).mul(line.unitPrice))
+}
+
+/**
+ * Ventilation de la TVA par taux (taux décroissants)
+ * La TVA est calculée sur la base HT de chaque taux pour éviter les écarts d'arrondi par ligne
+ */
+export function computeVatBreakdown(lines: LineInput[], defaultVatRate: DecimalValue): VatRateTotal[] {
+  const bases = new Map<string, Prisma.Decimal>()
+
+  for (const line of lines) {
+    const rate = new Decimal(line.vatRate ?? defaultVatRate).toFixed(2)
+    bases.set(rate, (bases.get(rate) || new Decimal(0)).add(computeLineTotal(line)))
+  }
+
+  return [...bases.entries()]
+    .map(([rate, basisAmount]) => ({
+      rate: new Decimal(rate),
+      basisAmount,
+      taxAmount: roundAmount(basisAmount.mul(rate).div(100))
+    }))
+    .sort((a, b) => b.rate.comparedTo(a.rate))
+}
+
+/**
+ * Totaux d'un document (facture ou devis) à partir de ses lignes
+ * La TVA du document est la somme des TVA de chaque taux
+ */
+export function computeDocumentTotals(lines: LineInput[], defaultVatRate: DecimalValue): DocumentTotals {
+  const vatBreakdown = computeVatBreakdown(lines, defaultVatRate)
+  const subtotal = vatBreakdown.reduce((sum, vat) => sum.add(vat.basisAmount), new Decimal(0))
+  const vatAmount = vatBreakdown.reduce((sum, vat) => sum.add(vat.taxAmount), new Decimal(0))
+
+  return {
+    subtotal,
+    vatAmount,
+    total: subtotal.add(vatAmount),
+    vatBreakdown
+  }
+}
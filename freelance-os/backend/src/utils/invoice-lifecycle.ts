@@ -0,0 +1,58 @@
+import { InvoiceStatus, Prisma } from '@prisma/client'
+
+/**
+ * Cycle de vie d'une facture
+ *
+ * - DRAFT → SENT : émission (attribution du numéro légal)
+ * - SENT → OVERDUE : échéance dépassée (tâche planifiée)
+ * - SENT / OVERDUE → PAID : solde réglé par les paiements
+ * - PAID → SENT / OVERDUE : suppression d'un paiement
+ * - SENT / OVERDUE / PAID → CANCELLED : émission d'un avoir (état final)
+ *
+ * Seul un brouillon est modifiable ; PAID et OVERDUE sont dérivés des paiements et de l'échéance
+ */
+
+export const INVOICE_TRANSITIONS: Record<InvoiceStatus, readonly InvoiceStatus[]> = {
+  DRAFT: [InvoiceStatus.SENT],
+  SENT: [InvoiceStatus.PAID, InvoiceStatus.OVERDUE, InvoiceStatus.CANCELLED],
+  OVERDUE: [InvoiceStatus.PAID, InvoiceStatus.CANCELLED],
+  PAID: [InvoiceStatus.SENT, InvoiceStatus.OVERDUE, InvoiceStatus.CANCELLED],
+  CANCELLED: []
+}
+
+export function canTransition(from: InvoiceStatus, to: InvoiceStatus): boolean {
+  return INVOICE_TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Vérifie qu'une transition est autorisée (erreur "Transition interdite" sinon)
+ */
+export function assertTransition(from: InvoiceStatus, to: InvoiceStatus): void {
+  if (!canTransition(from, to)) {
+    throw new Error(`Transition interdite : ${from} → ${to}`)
+  }
+}
+
+export function isInvoiceEditable(status: InvoiceStatus): boolean {
+  return status === InvoiceStatus.DRAFT
+}
+
+/**
+ * Statut attendu d'une facture émise à partir de ses paiements et de son échéance
+ * Un brouillon ou une facture annulée conserve son statut
+ */
+export function deriveInvoiceStatus(
+  invoice: { status: InvoiceStatus; total: Prisma.Decimal; dueDate: Date },
+  paidAmount: Prisma.Decimal,
+  now: Date = new Date()
+): InvoiceStatus {
+  if (invoice.status === InvoiceStatus.DRAFT || invoice.status === InvoiceStatus.CANCELLED) {
+    return invoice.status
+  }
+
+  if (paidAmount.greaterThanOrEqualTo(invoice.total)) {
+    return InvoiceStatus.PAID
+  }
+
+  return invoice.dueDate < now ? InvoiceStatus.OVERDUE : InvoiceStatus.SENT
+}
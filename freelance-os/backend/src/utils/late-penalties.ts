@@ -0,0 +1,108 @@
+import { Prisma } from '@prisma/client'
+
+/**
+ * Pénalités de retard (art. L441-10 du Code de commerce)
+ *
+ * Les intérêts courent dès le lendemain de l'échéance sur le reste dû TTC, au taux annuel
+ * de la facture (taux de refinancement BCE majoré de 10 points par défaut), au prorata des jours.
+ * Chaque paiement ou avoir reçu après l'échéance réduit l'assiette à partir de sa date.
+ * S'y ajoute, une fois par facture payée en retard par un professionnel, l'indemnité forfaitaire
+ * pour frais de recouvrement de 40 € (art. D441-5).
+ */
+
+// Montant légal de l'indemnité forfaitaire pour frais de recouvrement (art. D441-5 C. com.)
+export const RECOVERY_INDEMNITY_EUR = 40
+
+// Marge légale par défaut ajoutée au taux de refinancement de la BCE
+export const DEFAULT_PENALTY_MARGIN = 10
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DAYS_PER_YEAR = 365
+
+// Paiement ou avoir venant en déduction du reste dû à sa date
+export interface SettlementEvent {
+  date: Date
+  amount: Prisma.Decimal
+}
+
+export interface LatePenaltyInput {
+  total: Prisma.Decimal
+  dueDate: Date
+  settlements: SettlementEvent[]
+  annualRate: Prisma.Decimal
+  asOf: Date
+  // Intérêts déjà facturés jusqu'à cette date : le calcul reprend à partir d'elle
+  accrueFrom?: Date | null
+  // Indemnité forfaitaire à réclamer (0 si déjà facturée ou client particulier)
+  indemnity: Prisma.Decimal
+}
+
+export interface LatePenalty {
+  daysLate: number
+  outstandingAmount: Prisma.Decimal
+  interestAmount: Prisma.Decimal
+  indemnityAmount: Prisma.Decimal
+  totalAmount: Prisma.Decimal
+}
+
+/**
+ * Nombre de jours calendaires entre deux dates (0 si la seconde précède la première)
+ */
+export function daysBetween(from: Date, to: Date): number {
+  const start = Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate())
+  const end = Date.UTC(to.getUTCFullYear(), to.getUTCMonth(), to.getUTCDate())
+
+  return Math.max(0, Math.round((end - start) / DAY_MS))
+}
+
+/**
+ * Taux annuel des pénalités : taux de référence majoré de la marge
+ */
+export function computePenaltyRate(referenceRate: Prisma.Decimal | number, margin: Prisma.Decimal | number): Prisma.Decimal {
+  return new Prisma.Decimal(referenceRate).plus(margin)
+}
+
+/**
+ * Intérêts de retard et indemnité forfaitaire à une date donnée
+ */
+export function computeLatePenalties(input: LatePenaltyInput): LatePenalty {
+  const zero = new Prisma.Decimal(0)
+  const dailyRate = input.annualRate.dividedBy(100).dividedBy(DAYS_PER_YEAR)
+  const accrueFrom = input.accrueFrom && input.accrueFrom > input.dueDate ? input.accrueFrom : input.dueDate
+
+  const events = [...input.settlements]
+    .filter(event => event.date <= input.asOf)
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+
+  // Assiette au début de la période : tout ce qui a été réglé avant est déduit
+  let outstanding = events
+    .filter(event => daysBetween(accrueFrom, event.date) === 0)
+    .reduce((remaining, event) => remaining.minus(event.amount), input.total)
+  let cursor = accrueFrom
+  let interest = zero
+
+  for (const event of events.filter(entry => daysBetween(accrueFrom, entry.date) > 0)) {
+    if (outstanding.greaterThan(0)) {
+      interest = interest.plus(outstanding.times(dailyRate).times(daysBetween(cursor, event.date)))
+    }
+
+    outstanding = outstanding.minus(event.amount)
+    cursor = event.date
+  }
+
+  if (outstanding.greaterThan(0)) {
+    interest = interest.plus(outstanding.times(dailyRate).times(daysBetween(cursor, input.asOf)))
+  }
+
+  const interestAmount = interest.toDecimalPlaces(2)
+  const daysLate = daysBetween(input.dueDate, input.asOf)
+  const indemnityAmount = daysLate > 0 ? input.indemnity : zero
+
+  return {
+    daysLate,
+    outstandingAmount: outstanding.greaterThan(0) ? outstanding : zero,
+    interestAmount,
+    indemnityAmount,
+    totalAmount: interestAmount.plus(indemnityAmount)
+  }
+}
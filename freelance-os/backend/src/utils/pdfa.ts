@@ -0,0 +1,248 @@
+import crypto from 'crypto'
+import { PDFDict, PDFDocument, PDFHexString, PDFName, PDFString } from 'pdf-lib'
+import { FacturXProfile } from '@/types/facturx.types'
+import { FACTURX_FILE_NAME, FACTURX_PROFILE_INFO } from '@/utils/facturx'
+import { escapeXml } from '@/utils/einvoice'
+
+/**
+ * Conversion du PDF rendu par Puppeteer en facture hybride PDF/A-3B :
+ * XML Factur-X embarqué (fichier associé), métadonnées XMP, profil colorimétrique sRGB
+ */
+
+export interface PdfAMetadata {
+  title: string
+  author: string
+  subject: string
+  profile: FacturXProfile
+  date: Date
+}
+
+const PRODUCER = 'FreelanceOS'
+
+// Primaires sRGB adaptées D50 (Bradford) et point blanc D50, en XYZ
+const SRGB_COLORANTS = {
+  rXYZ: [0.4361, 0.2225, 0.0139],
+  gXYZ: [0.3851, 0.7169, 0.0971],
+  bXYZ: [0.1431, 0.0606, 0.7141],
+  wtpt: [0.9642, 1.0, 0.8249]
+} as const
+
+function padTag(tag: Buffer): Buffer {
+  const padding = (4 - (tag.length % 4)) % 4
+  return padding ? Buffer.concat([tag, Buffer.alloc(padding)]) : tag
+}
+
+function xyzTag(values: readonly number[]): Buffer {
+  const tag = Buffer.alloc(20)
+  tag.write('XYZ ', 0, 'ascii')
+  values.forEach((value, index) => tag.writeInt32BE(Math.round(value * 65536), 8 + index * 4))
+  return tag
+}
+
+// Courbe de transfert sRGB (IEC 61966-2-1) échantillonnée sur 1024 points
+function srgbCurveTag(): Buffer {
+  const points = 1024
+  const tag = Buffer.alloc(12 + points * 2)
+  tag.write('curv', 0, 'ascii')
+  tag.writeUInt32BE(points, 8)
+
+  for (let i = 0; i < points; i++) {
+    const encoded = i / (points - 1)
+    const linear = encoded <= 0.04045 ? encoded / 12.92 : ((encoded + 0.055) / 1.055) ** 2.4
+    tag.writeUInt16BE(Math.round(linear * 65535), 12 + i * 2)
+  }
+
+  return tag
+}
+
+function textDescriptionTag(text: string): Buffer {
+  const ascii = Buffer.from(`${text}\0`, 'ascii')
+  const tag = Buffer.alloc(12 + ascii.length + 8 + 3 + 67)
+  tag.write('desc', 0, 'ascii')
+  tag.writeUInt32BE(ascii.length, 8)
+  ascii.copy(tag, 12)
+  return tag
+}
+
+function textTag(text: string): Buffer {
+  return Buffer.concat([Buffer.from('text\0\0\0\0', 'ascii'), Buffer.from(`${text}\0`, 'ascii')])
+}
+
+/**
+ * Profil ICC v2 sRGB (matrice + courbes) requis par l'OutputIntent PDF/A
+ */
+export function buildSrgbIccProfile(): Buffer {
+  const curve = srgbCurveTag()
+  const tags: Array<[string, Buffer]> = [
+    ['desc', textDescriptionTag('sRGB IEC61966-2.1')],
+    ['cprt', textTag('No copyright, use freely')],
+    ['wtpt', xyzTag(SRGB_COLORANTS.wtpt)],
+    ['rXYZ', xyzTag(SRGB_COLORANTS.rXYZ)],
+    ['gXYZ', xyzTag(SRGB_COLORANTS.gXYZ)],
+    ['bXYZ', xyzTag(SRGB_COLORANTS.bXYZ)],
+    ['rTRC', curve],
+    ['gTRC', curve],
+    ['bTRC', curve]
+  ]
+
+  const tableSize = 4 + tags.length * 12
+  const table = Buffer.alloc(tableSize)
+  table.writeUInt32BE(tags.length, 0)
+
+  // Les courbes identiques partagent la même donnée
+  const data: Buffer[] = []
+  const offsets = new Map<Buffer, number>()
+  let offset = 128 + tableSize
+
+  tags.forEach(([signature, tag], index) => {
+    let tagOffset = offsets.get(tag)
+    if (tagOffset === undefined) {
+      tagOffset = offset
+      offsets.set(tag, tagOffset)
+      const padded = padTag(tag)
+      data.push(padded)
+      offset += padded.length
+    }
+
+    table.write(signature, 4 + index * 12, 'ascii')
+    table.writeUInt32BE(tagOffset, 8 + index * 12)
+    table.writeUInt32BE(tag.length, 12 + index * 12)
+  })
+
+  const header = Buffer.alloc(128)
+  header.writeUInt32BE(offset, 0)
+  header.writeUInt32BE(0x02100000, 8)
+  header.write('mntr', 12, 'ascii')
+  header.write('RGB ', 16, 'ascii')
+  header.write('XYZ ', 20, 'ascii')
+  header.writeUInt16BE(2025, 24)
+  header.writeUInt16BE(1, 26)
+  header.writeUInt16BE(1, 28)
+  header.write('acsp', 36, 'ascii')
+  SRGB_COLORANTS.wtpt.forEach((value, index) => header.writeInt32BE(Math.round(value * 65536), 68 + index * 4))
+
+  return Buffer.concat([header, table, ...data])
+}
+
+function buildXmpMetadata(metadata: PdfAMetadata): string {
+  const { conformanceLevel } = FACTURX_PROFILE_INFO[metadata.profile]
+  const date = metadata.date.toISOString()
+  const extensionProperty = (name: string, description: string) =>
+    '<rdf:li rdf:parseType="Resource">' +
+    `<pdfaProperty:name>${name}</pdfaProperty:name>` +
+    '<pdfaProperty:valueType>Text</pdfaProperty:valueType>' +
+    '<pdfaProperty:category>external</pdfaProperty:category>' +
+    `<pdfaProperty:description>${description}</pdfaProperty:description>` +
+    '</rdf:li>'
+
+  return '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>\n' +
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">' +
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">' +
+    '<rdf:Description rdf:about="" xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/">' +
+    '<pdfaid:part>3</pdfaid:part><pdfaid:conformance>B</pdfaid:conformance>' +
+    '</rdf:Description>' +
+    '<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/">' +
+    '<dc:format>application/pdf</dc:format>' +
+    `<dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.title)}</rdf:li></rdf:Alt></dc:title>` +
+    `<dc:creator><rdf:Seq><rdf:li>${escapeXml(metadata.author)}</rdf:li></rdf:Seq></dc:creator>` +
+    `<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.subject)}</rdf:li></rdf:Alt></dc:description>` +
+    '</rdf:Description>' +
+    `<rdf:Description rdf:about="" xmlns:pdf="http://ns.adobe.com/pdf/1.3/"><pdf:Producer>${PRODUCER}</pdf:Producer></rdf:Description>` +
+    '<rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/">' +
+    `<xmp:CreatorTool>${PRODUCER}</xmp:CreatorTool>` +
+    `<xmp:CreateDate>${date}</xmp:CreateDate><xmp:ModifyDate>${date}</xmp:ModifyDate>` +
+    '</rdf:Description>' +
+    '<rdf:Description rdf:about=""' +
+    ' xmlns:pdfaExtension="http://www.aiim.org/pdfa/ns/extension/"' +
+    ' xmlns:pdfaSchema="http://www.aiim.org/pdfa/ns/schema#"' +
+    ' xmlns:pdfaProperty="http://www.aiim.org/pdfa/ns/property#">' +
+    '<pdfaExtension:schemas><rdf:Bag><rdf:li rdf:parseType="Resource">' +
+    '<pdfaSchema:schema>Factur-X PDFA Extension Schema</pdfaSchema:schema>' +
+    '<pdfaSchema:namespaceURI>urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#</pdfaSchema:namespaceURI>' +
+    '<pdfaSchema:prefix>fx</pdfaSchema:prefix>' +
+    '<pdfaSchema:property><rdf:Seq>' +
+    extensionProperty('DocumentFileName', 'The name of the embedded XML document') +
+    extensionProperty('DocumentType', 'The type of the hybrid document in capital letters, e.g. INVOICE or ORDER') +
+    extensionProperty('Version', 'The actual version of the standard applying to the embedded XML document') +
+    extensionProperty('ConformanceLevel', 'The conformance level of the embedded XML document') +
+    '</rdf:Seq></pdfaSchema:property>' +
+    '</rdf:li></rdf:Bag></pdfaExtension:schemas>' +
+    '</rdf:Description>' +
+    '<rdf:Description rdf:about="" xmlns:fx="urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#">' +
+    '<fx:DocumentType>INVOICE</fx:DocumentType>' +
+    `<fx:DocumentFileName>${FACTURX_FILE_NAME}</fx:DocumentFileName>` +
+    '<fx:Version>1.0</fx:Version>' +
+    `<fx:ConformanceLevel>${conformanceLevel}</fx:ConformanceLevel>` +
+    '</rdf:Description>' +
+    '</rdf:RDF></x:xmpmeta>\n' +
+    '<?xpacket end="w"?>'
+}
+
+/**
+ * Embarque le XML Factur-X dans le PDF et ajoute les éléments requis par PDF/A-3
+ */
+export async function embedFacturX(pdf: Buffer, xml: string, metadata: PdfAMetadata): Promise<Buffer> {
+  const document = await PDFDocument.load(pdf, { updateMetadata: false })
+  const { context, catalog } = document
+  const xmlBytes = Buffer.from(xml, 'utf8')
+
+  // Dictionnaire d'informations (doit rester cohérent avec le XMP)
+  document.setTitle(metadata.title)
+  document.setAuthor(metadata.author)
+  document.setSubject(metadata.subject)
+  document.setCreator(PRODUCER)
+  document.setProducer(PRODUCER)
+  document.setCreationDate(metadata.date)
+  document.setModificationDate(metadata.date)
+
+  // Fichier associé factur-x.xml
+  const embeddedFile = context.flateStream(xmlBytes, {
+    Type: 'EmbeddedFile',
+    Subtype: 'text/xml',
+    Params: {
+      Size: xmlBytes.length,
+      ModDate: PDFString.fromDate(metadata.date),
+      CheckSum: PDFHexString.of(crypto.createHash('md5').update(xmlBytes).digest('hex'))
+    }
+  })
+  const embeddedFileRef = context.register(embeddedFile)
+
+  const fileSpec = context.obj({
+    Type: 'Filespec',
+    F: PDFString.of(FACTURX_FILE_NAME),
+    UF: PDFHexString.fromText(FACTURX_FILE_NAME),
+    Desc: PDFString.of('Factur-X'),
+    AFRelationship: FACTURX_PROFILE_INFO[metadata.profile].afRelationship,
+    EF: { F: embeddedFileRef, UF: embeddedFileRef }
+  })
+  const fileSpecRef = context.register(fileSpec)
+
+  const names = catalog.lookupMaybe(PDFName.of('Names'), PDFDict) || context.obj({})
+  names.set(PDFName.of('EmbeddedFiles'), context.obj({
+    Names: [PDFString.of(FACTURX_FILE_NAME), fileSpecRef]
+  }))
+  catalog.set(PDFName.of('Names'), names)
+  catalog.set(PDFName.of('AF'), context.obj([fileSpecRef]))
+
+  // Métadonnées XMP (flux non compressé)
+  const xmp = context.stream(Buffer.from(buildXmpMetadata(metadata), 'utf8'), { Type: 'Metadata', Subtype: 'XML' })
+  catalog.set(PDFName.of('Metadata'), context.register(xmp))
+
+  // OutputIntent sRGB
+  const iccProfile = buildSrgbIccProfile()
+  const iccStream = context.flateStream(iccProfile, { N: 3 })
+  const outputIntent = context.obj({
+    Type: 'OutputIntent',
+    S: 'GTS_PDFA1',
+    OutputConditionIdentifier: PDFString.of('sRGB IEC61966-2.1'),
+    Info: PDFString.of('sRGB IEC61966-2.1'),
+    DestOutputProfile: context.register(iccStream)
+  })
+  catalog.set(PDFName.of('OutputIntents'), context.obj([context.register(outputIntent)]))
+
+  // Identifiant de fichier obligatoire dans le trailer
+  const fileId = PDFHexString.of(crypto.createHash('md5').update(pdf).update(xmlBytes).digest('hex'))
+  context.trailerInfo.ID = context.obj([fileId, fileId])
+
+  return Buffer.from(await document.save({ useObjectStreams: false }))
+}
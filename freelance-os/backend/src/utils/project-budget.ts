@@ -0,0 +1,148 @@
+import { Prisma } from '@prisma/client'
+import { daysBetween } from '@/utils/late-penalties'
+import { LoggedTime } from '@/utils/project-lifecycle'
+import { toBaseCurrency } from '@/utils/exchange-rates'
+
+/**
+ * Suivi du budget et de la rentabilité d'un projet
+ *
+ * - Rythme de consommation : temps valorisé des 28 derniers jours (ou depuis le démarrage), ramené à la journée
+ * - Dépassement prévisionnel : date à laquelle le budget restant serait épuisé à ce rythme
+ * - Taux horaire effectif : montant facturé (factures émises du temps du projet, nettes des avoirs) ÷ heures saisies
+ * - Alertes : seuils en % du budget consommé (50, 80 et 100 par défaut)
+ */
+
+export const DEFAULT_BUDGET_ALERT_THRESHOLDS = [50, 80, 100]
+
+export const MAX_BUDGET_ALERT_THRESHOLD = 500
+
+export const MAX_BUDGET_ALERT_THRESHOLDS = 10
+
+export const BURN_RATE_WINDOW_DAYS = 28
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Temps saisi et date du créneau
+export interface DatedLoggedTime extends LoggedTime {
+  startTime: Date
+}
+
+export interface BurnRate {
+  windowDays: number
+  amountPerDay: number
+  hoursPerWeek: number
+}
+
+/**
+ * Valeur d'une saisie au taux de la saisie, à défaut du projet (null si aucun taux)
+ */
+function entryValue(projectRate: Prisma.Decimal | null, entry: LoggedTime): Prisma.Decimal | null {
+  const rate = entry.hourlyRate ?? projectRate
+
+  return rate ? rate.times(entry.duration).dividedBy(60) : null
+}
+
+/**
+ * Valeur totale des saisies (le temps sans taux n'est pas valorisé)
+ */
+export function loggedTimeValue(projectRate: Prisma.Decimal | null, entries: LoggedTime[]): Prisma.Decimal {
+  return entries.reduce(
+    (total, entry) => total.plus(entryValue(projectRate, entry) ?? 0),
+    new Prisma.Decimal(0)
+  )
+}
+
+/**
+ * Seuils sans doublon, par ordre croissant
+ */
+export function normalizeThresholds(thresholds: number[]): number[] {
+  return [...new Set(thresholds)].sort((a, b) => a - b)
+}
+
+/**
+ * Seuils atteints : consommé ≥ seuil % du budget (aucun sans budget positif)
+ */
+export function reachedThresholds(
+  budget: Prisma.Decimal | null,
+  consumed: Prisma.Decimal,
+  thresholds: number[]
+): number[] {
+  if (!budget || budget.lessThanOrEqualTo(0)) {
+    return []
+  }
+
+  return normalizeThresholds(thresholds)
+    .filter(threshold => consumed.times(100).greaterThanOrEqualTo(budget.times(threshold)))
+}
+
+/**
+ * Rythme de consommation sur la fenêtre glissante (au plus 28 jours, au moins 1 jour depuis le démarrage)
+ */
+export function computeBurnRate(
+  project: { startDate: Date; hourlyRate: Prisma.Decimal | null },
+  entries: DatedLoggedTime[],
+  now: Date = new Date()
+): BurnRate {
+  const windowDays = Math.min(Math.max(daysBetween(project.startDate, now), 1), BURN_RATE_WINDOW_DAYS)
+  const from = new Date(now.getTime() - windowDays * DAY_MS)
+
+  const recent = entries.filter(entry => entry.startTime >= from && entry.startTime <= now)
+  const minutes = recent.reduce((total, entry) => total + entry.duration, 0)
+
+  return {
+    windowDays,
+    amountPerDay: loggedTimeValue(project.hourlyRate, recent).dividedBy(windowDays).toDecimalPlaces(2).toNumber(),
+    hoursPerWeek: new Prisma.Decimal(minutes).times(7).dividedBy(60 * windowDays).toDecimalPlaces(2).toNumber()
+  }
+}
+
+/**
+ * Date à laquelle le budget restant serait épuisé au rythme actuel
+ * (null sans budget restant ou sans consommation récente)
+ */
+export function projectedOverrunDate(
+  remainingBudget: number | null,
+  amountPerDay: number,
+  now: Date = new Date()
+): Date | null {
+  if (remainingBudget === null || remainingBudget <= 0 || amountPerDay <= 0) {
+    return null
+  }
+
+  return new Date(now.getTime() + Math.ceil(remainingBudget / amountPerDay) * DAY_MS)
+}
+
+// Facture émise portant du temps du projet : sous-total HT, avoirs émis et part du temps du projet
+export interface InvoicedTime {
+  subtotal: Prisma.Decimal
+  creditedSubtotal: Prisma.Decimal
+  exchangeRate: Prisma.Decimal | null
+  projectValue: Prisma.Decimal
+  totalValue: Prisma.Decimal
+}
+
+/**
+ * Montant facturé HT en euros : sous-total de chaque facture net de ses avoirs, au taux figé à l'émission,
+ * réparti au prorata de la valeur du temps du projet quand la facture couvre plusieurs projets
+ */
+export function invoicedProjectAmount(invoices: InvoicedTime[]): Prisma.Decimal {
+  return invoices.reduce((total, invoice) => {
+    if (invoice.totalValue.lessThanOrEqualTo(0)) {
+      return total
+    }
+
+    const net = toBaseCurrency(invoice.subtotal.minus(invoice.creditedSubtotal), invoice.exchangeRate)
+    return total.plus(net.times(invoice.projectValue).dividedBy(invoice.totalValue))
+  }, new Prisma.Decimal(0)).toDecimalPlaces(2)
+}
+
+/**
+ * Taux horaire effectif : montant facturé ÷ heures saisies (null sans temps saisi)
+ */
+export function effectiveHourlyRate(invoiced: Prisma.Decimal, minutesLogged: number): number | null {
+  if (minutesLogged <= 0) {
+    return null
+  }
+
+  return invoiced.times(60).dividedBy(minutesLogged).toDecimalPlaces(2).toNumber()
+}
@@ -0,0 +1,90 @@
+import { Prisma, ProjectStatus } from '@prisma/client'
+
+/**
+ * Cycle de vie d'un projet
+ *
+ * - ACTIVE → ON_HOLD / COMPLETED / CANCELLED
+ * - ON_HOLD → ACTIVE (reprise) / CANCELLED
+ * - COMPLETED → ACTIVE (réouverture)
+ *
+ * CANCELLED est un état final ; les tâches d'un projet terminé ou annulé ne sont plus modifiables
+ */
+
+export const PROJECT_TRANSITIONS: Record<ProjectStatus, readonly ProjectStatus[]> = {
+  ACTIVE: [ProjectStatus.ON_HOLD, ProjectStatus.COMPLETED, ProjectStatus.CANCELLED],
+  ON_HOLD: [ProjectStatus.ACTIVE, ProjectStatus.CANCELLED],
+  COMPLETED: [ProjectStatus.ACTIVE],
+  CANCELLED: []
+}
+
+export function canProjectTransition(from: ProjectStatus, to: ProjectStatus): boolean {
+  return PROJECT_TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Vérifie qu'une transition est autorisée (erreur "Transition interdite" sinon)
+ */
+export function assertProjectTransition(from: ProjectStatus, to: ProjectStatus): void {
+  if (!canProjectTransition(from, to)) {
+    throw new Error(`Transition interdite : ${from} → ${to}`)
+  }
+}
+
+export function isProjectOpen(status: ProjectStatus): boolean {
+  return status === ProjectStatus.ACTIVE || status === ProjectStatus.ON_HOLD
+}
+
+// Temps saisi : durée en minutes et taux propre à la saisie (à défaut celui du projet)
+export interface LoggedTime {
+  duration: number
+  hourlyRate: Prisma.Decimal | null
+}
+
+export interface ProjectAggregates {
+  minutesLogged: number
+  hoursLogged: number
+  unpricedMinutes: number // Temps sans taux horaire (ni sur la saisie, ni sur le projet)
+  budget: number | null
+  budgetConsumed: number
+  remainingBudget: number | null
+  budgetConsumedPercent: number | null
+}
+
+/**
+ * Heures saisies et budget consommé d'un projet
+ * Chaque saisie est valorisée à son taux horaire, à défaut au taux du projet
+ */
+export function computeProjectAggregates(
+  project: { budget: Prisma.Decimal | null; hourlyRate: Prisma.Decimal | null },
+  entries: LoggedTime[]
+): ProjectAggregates {
+  let minutesLogged = 0
+  let unpricedMinutes = 0
+  let consumed = new Prisma.Decimal(0)
+
+  for (const entry of entries) {
+    minutesLogged += entry.duration
+    const rate = entry.hourlyRate ?? project.hourlyRate
+
+    if (!rate) {
+      unpricedMinutes += entry.duration
+      continue
+    }
+
+    consumed = consumed.plus(rate.times(entry.duration).dividedBy(60))
+  }
+
+  const budgetConsumed = consumed.toDecimalPlaces(2)
+
+  return {
+    minutesLogged,
+    hoursLogged: new Prisma.Decimal(minutesLogged).dividedBy(60).toDecimalPlaces(2).toNumber(),
+    unpricedMinutes,
+    budget: project.budget ? project.budget.toNumber() : null,
+    budgetConsumed: budgetConsumed.toNumber(),
+    remainingBudget: project.budget ? project.budget.minus(budgetConsumed).toNumber() : null,
+    budgetConsumedPercent: project.budget?.greaterThan(0)
+      ? budgetConsumed.dividedBy(project.budget).times(100).toDecimalPlaces(1).toNumber()
+      : null
+  }
+}
@@ -0,0 +1,64 @@
+import { Priority } from '@prisma/client'
+import { daysBetween } from '@/utils/late-penalties'
+
+/**
+ * Modèles de projet
+ *
+ * Un modèle conserve les tâches, le budget et le taux horaire d'un projet type ;
+ * ses échéances sont des décalages en jours calendaires depuis le démarrage.
+ * Instancier un modèle recalcule ces échéances à partir de la date de démarrage choisie
+ */
+
+export const MAX_TEMPLATE_OFFSET_DAYS = 3650
+
+export const MAX_TEMPLATE_TASKS = 100
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Tâche d'un modèle, dans l'ordre d'affichage
+export interface TemplateTask {
+  title: string
+  description: string | null
+  priority: Priority
+  dueOffsetDays: number | null
+}
+
+// Tâche d'un projet existant, à convertir en tâche de modèle
+export interface DatedTask {
+  title: string
+  description: string | null
+  priority: Priority
+  dueDate: Date | null
+  createdAt: Date
+}
+
+/**
+ * Décalage en jours d'une échéance (une échéance antérieure au démarrage tombe au jour 0)
+ */
+export function dayOffset(startDate: Date, date: Date | null): number | null {
+  return date ? Math.min(daysBetween(startDate, date), MAX_TEMPLATE_OFFSET_DAYS) : null
+}
+
+/**
+ * Date située `offset` jours calendaires après le démarrage (null si aucun décalage)
+ */
+export function shiftDate(startDate: Date, offset: number | null): Date | null {
+  return offset === null ? null : new Date(startDate.getTime() + offset * DAY_MS)
+}
+
+/**
+ * Tâches d'un projet converties en tâches de modèle (par échéance, puis par date de création)
+ */
+export function templateTasksFromProject(startDate: Date, tasks: DatedTask[]): TemplateTask[] {
+  return [...tasks]
+    .sort((a, b) =>
+      (a.dueDate?.getTime() ?? Number.POSITIVE_INFINITY) - (b.dueDate?.getTime() ?? Number.POSITIVE_INFINITY) ||
+      a.createdAt.getTime() - b.createdAt.getTime()
+    )
+    .map(task => ({
+      title: task.title,
+      description: task.description,
+      priority: task.priority,
+      dueOffsetDays: dayOffset(startDate, task.dueDate)
+    }))
+}
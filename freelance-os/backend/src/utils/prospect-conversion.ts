@@ -0,0 +1,84 @@
+import { FollowUpType, InteractionType } from '@prisma/client'
+
+/**
+ * Conversion d'un prospect gagné en client
+ *
+ * Le client est retrouvé par email (sinon créé), reprend les notes et tags du prospect,
+ * et ses relances deviennent des interactions client. Le prospect garde le lien vers son client
+ */
+
+// Les canaux sans équivalent côté client deviennent des notes, le canal préfixant l'objet
+const FOLLOW_UP_INTERACTION_TYPES: Record<FollowUpType, InteractionType> = {
+  [FollowUpType.EMAIL]: InteractionType.EMAIL,
+  [FollowUpType.CALL]: InteractionType.CALL,
+  [FollowUpType.MEETING]: InteractionType.MEETING,
+  [FollowUpType.SMS]: InteractionType.NOTE,
+  [FollowUpType.LINKEDIN]: InteractionType.NOTE
+}
+
+// Relance du prospect à reprendre
+export interface ConvertibleFollowUp {
+  type: FollowUpType
+  subject: string
+  content: string
+  scheduledAt: Date
+  completedAt: Date | null
+  result: string | null
+}
+
+// Interaction client issue d'une relance
+export interface FollowUpInteraction {
+  type: InteractionType
+  subject: string
+  content: string
+  scheduledAt: Date
+  completedAt: Date | null
+}
+
+export function followUpInteraction(followUp: ConvertibleFollowUp): FollowUpInteraction {
+  const type = FOLLOW_UP_INTERACTION_TYPES[followUp.type]
+  const content = [followUp.content, followUp.result ? `Résultat : ${followUp.result}` : '']
+    .filter(Boolean)
+    .join('\n\n')
+
+  return {
+    type,
+    subject: type === InteractionType.NOTE ? `[${followUp.type}] ${followUp.subject}` : followUp.subject,
+    content,
+    scheduledAt: followUp.scheduledAt,
+    completedAt: followUp.completedAt
+  }
+}
+
+/**
+ * Email comparable (casse et espaces ignorés), null si absent
+ */
+export function normalizeEmail(email: string | null | undefined): string | null {
+  const normalized = email?.trim().toLowerCase()
+  return normalized || null
+}
+
+/**
+ * Tags du client complétés par ceux du prospect, sans doublon (casse ignorée)
+ */
+export function mergeTags(existing: string[], added: string[]): string[] {
+  const merged = [...existing]
+  const seen = new Set(existing.map(tag => tag.toLowerCase()))
+
+  for (const tag of added) {
+    if (!seen.has(tag.toLowerCase())) {
+      seen.add(tag.toLowerCase())
+      merged.push(tag)
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Notes du client complétées par celles du prospect (ignorées si déjà présentes)
+ */
+export function mergeNotes(existing: string | null, added: string | null): string | null {
+  if (!added || existing?.includes(added)) return existing || null
+  return existing ? `${existing}\n\n${added}` : added
+}
@@ -0,0 +1,83 @@
+import { ProspectStatus } from '@prisma/client'
+
+/**
+ * Pipeline de prospection
+ *
+ * NEW → CONTACTED → INTERESTED → QUALIFIED → PROPOSAL_SENT → NEGOTIATION → CLOSED_WON / CLOSED_LOST
+ *
+ * Les étapes ouvertes se parcourent librement (en avant comme en arrière, un prospect peut être
+ * perdu à toute étape) ; un prospect clos se rouvre sur une étape ouverte, jamais directement
+ * vers l'autre issue. Chaque changement d'étape est historisé
+ */
+
+export const PROSPECT_PIPELINE: readonly ProspectStatus[] = [
+  ProspectStatus.NEW,
+  ProspectStatus.CONTACTED,
+  ProspectStatus.INTERESTED,
+  ProspectStatus.QUALIFIED,
+  ProspectStatus.PROPOSAL_SENT,
+  ProspectStatus.NEGOTIATION,
+  ProspectStatus.CLOSED_WON,
+  ProspectStatus.CLOSED_LOST
+]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function isProspectClosed(status: ProspectStatus): boolean {
+  return status === ProspectStatus.CLOSED_WON || status === ProspectStatus.CLOSED_LOST
+}
+
+export function canProspectTransition(from: ProspectStatus, to: ProspectStatus): boolean {
+  return from !== to && !(isProspectClosed(from) && isProspectClosed(to))
+}
+
+/**
+ * Vérifie un changement d'étape ("déjà" si l'étape ne change pas, "Transition interdite" sinon)
+ */
+export function assertProspectTransition(from: ProspectStatus, to: ProspectStatus): void {
+  if (from === to) {
+    throw new Error(`Prospect déjà à l'étape ${to}`)
+  }
+
+  if (!canProspectTransition(from, to)) {
+    throw new Error(`Transition interdite : ${from} → ${to} (rouvrez d'abord le prospect)`)
+  }
+}
+
+// Relance planifiée, effectuée ou non
+export interface ScheduledFollowUp {
+  scheduledAt: Date
+  completedAt: Date | null
+}
+
+/**
+ * Dernier contact (relance effectuée la plus récente) et prochaine relance (la plus proche non effectuée)
+ * Un prospect clos n'a plus de relance prévue
+ */
+export function followUpDates(
+  status: ProspectStatus,
+  followUps: ScheduledFollowUp[]
+): { lastContact: Date | null; nextFollowUp: Date | null } {
+  let lastContact: Date | null = null
+  let nextFollowUp: Date | null = null
+
+  for (const followUp of followUps) {
+    if (followUp.completedAt) {
+      if (!lastContact || followUp.completedAt > lastContact) lastContact = followUp.completedAt
+    } else if (!nextFollowUp || followUp.scheduledAt < nextFollowUp) {
+      nextFollowUp = followUp.scheduledAt
+    }
+  }
+
+  return {
+    lastContact,
+    nextFollowUp: isProspectClosed(status) ? null : nextFollowUp
+  }
+}
+
+/**
+ * Fin (exclue) de la journée UTC : les relances dues ce jour-là, retards compris, sont planifiées avant
+ */
+export function endOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()) + DAY_MS)
+}
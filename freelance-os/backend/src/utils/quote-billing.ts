@@ -0,0 +1,120 @@
+import { Prisma } from '@prisma/client'
+import { roundAmount, VatRateTotal } from '@/utils/invoice-calculations'
+
+/**
+ * Facturation d'un devis accepté : acomptes puis facture de solde
+ *
+ * Un acompte est une facture d'une seule ligne, calculée en pourcentage du total HT du devis
+ * ou saisie en montant HT fixe, répartie au prorata des taux de TVA du devis. La facture de solde
+ * reprend les lignes du devis et déduit chaque acompte émis par une ligne de quantité négative
+ * par taux. Le cumul des acomptes doit laisser un solde à facturer.
+ */
+
+export type DepositRequest = { percentage: number } | { amount: number }
+
+// Montant HT rattaché à un taux de TVA
+export interface RateAmount {
+  rate: Prisma.Decimal
+  amount: Prisma.Decimal
+}
+
+/**
+ * Montant HT d'un acompte (pourcentage du devis ou montant fixe), arrondi au centime
+ */
+export function computeDepositSubtotal(quoteSubtotal: Prisma.Decimal, request: DepositRequest): Prisma.Decimal {
+  if ('percentage' in request) {
+    return roundAmount(quoteSubtotal.mul(request.percentage).div(100))
+  }
+
+  return roundAmount(request.amount)
+}
+
+/**
+ * Vérifie qu'un nouvel acompte laisse un solde à facturer (erreur "Invalid amount" sinon)
+ */
+export function assertDepositAllowed(
+  quoteSubtotal: Prisma.Decimal,
+  depositedSubtotal: Prisma.Decimal,
+  depositSubtotal: Prisma.Decimal
+): void {
+  if (depositSubtotal.lessThanOrEqualTo(0)) {
+    throw new Error('Invalid amount : le montant de l\'acompte doit être positif')
+  }
+
+  const remaining = quoteSubtotal.minus(depositedSubtotal)
+
+  if (depositSubtotal.greaterThanOrEqualTo(remaining)) {
+    throw new Error(`Invalid amount : l'acompte (${depositSubtotal.toFixed(2)} HT) doit rester inférieur au solde du devis (${remaining.toFixed(2)} HT)`)
+  }
+}
+
+/**
+ * Répartit un acompte HT au prorata des bases de chaque taux du devis
+ * Le dernier taux absorbe l'écart d'arrondi pour que la somme soit exacte
+ */
+export function splitDepositByRate(depositSubtotal: Prisma.Decimal, quoteBreakdown: VatRateTotal[]): RateAmount[] {
+  const quoteSubtotal = quoteBreakdown.reduce((sum, vat) => sum.plus(vat.basisAmount), new Prisma.Decimal(0))
+  let allocated = new Prisma.Decimal(0)
+
+  return quoteBreakdown.map((vat, index) => {
+    const amount = index === quoteBreakdown.length - 1
+      ? depositSubtotal.minus(allocated)
+      : roundAmount(depositSubtotal.mul(vat.basisAmount).div(quoteSubtotal))
+    allocated = allocated.plus(amount)
+    return { rate: vat.rate, amount }
+  })
+}
+
+/**
+ * Bases HT d'un acompte par taux, nettes des avoirs émis sur cet acompte
+ */
+export function netOfCredits(depositBreakdown: VatRateTotal[], creditedBreakdown: VatRateTotal[]): RateAmount[] {
+  return depositBreakdown
+    .map(vat => {
+      const credited = creditedBreakdown.find(credit => credit.rate.equals(vat.rate))
+      return { rate: vat.rate, amount: credited ? vat.basisAmount.minus(credited.basisAmount) : vat.basisAmount }
+    })
+    .filter(base => base.amount.greaterThan(0))
+}
+
+/**
+ * Libellé de la ligne d'acompte, repris en déduction sur la facture de solde
+ */
+export function describeDeposit(quoteNumber: string, request: DepositRequest): string {
+  if ('percentage' in request) {
+    return `Acompte de ${request.percentage} % sur devis N° ${quoteNumber}`
+  }
+
+  return `Acompte sur devis N° ${quoteNumber}`
+}
+
+// Sommes TTC des factures du devis (hors annulées) et des règlements reçus
+export interface QuoteBillingTotals {
+  quotedTotal: Prisma.Decimal
+  invoicedTotal: Prisma.Decimal
+  creditedTotal: Prisma.Decimal
+  paidAmount: Prisma.Decimal
+}
+
+export interface QuoteBillingAmounts {
+  invoicedTotal: number
+  paidAmount: number
+  remainingToInvoice: number
+  remainingToPay: number
+}
+
+/**
+ * Montants TTC facturés (nets des avoirs partiels), encaissés et restant à facturer
+ */
+export function computeQuoteBillingAmounts(totals: QuoteBillingTotals): QuoteBillingAmounts {
+  const invoiced = totals.invoicedTotal.minus(totals.creditedTotal)
+  const remainingToInvoice = totals.quotedTotal.minus(invoiced)
+  const remainingToPay = invoiced.minus(totals.paidAmount)
+
+  return {
+    invoicedTotal: invoiced.toNumber(),
+    paidAmount: totals.paidAmount.toNumber(),
+    remainingToInvoice: remainingToInvoice.isNegative() ? 0 : remainingToInvoice.toNumber(),
+    remainingToPay: remainingToPay.isNegative() ? 0 : remainingToPay.toNumber()
+  }
+}
@@ -0,0 +1,56 @@
+import { QuoteStatus } from '@prisma/client'
+
+/**
+ * Cycle de vie d'un devis
+ *
+ * - DRAFT → SENT : envoi au client (attribution du numéro)
+ * - SENT → ACCEPTED / DECLINED : réponse du client avant la fin de validité
+ * - SENT → EXPIRED : date de validité dépassée (tâche planifiée)
+ *
+ * ACCEPTED, DECLINED et EXPIRED sont des états finaux ; seul un brouillon est modifiable
+ */
+
+// Durée de validité par défaut d'un devis
+export const DEFAULT_QUOTE_VALIDITY_DAYS = 30
+
+export const QUOTE_TRANSITIONS: Record<QuoteStatus, readonly QuoteStatus[]> = {
+  DRAFT: [QuoteStatus.SENT],
+  SENT: [QuoteStatus.ACCEPTED, QuoteStatus.DECLINED, QuoteStatus.EXPIRED],
+  ACCEPTED: [],
+  DECLINED: [],
+  EXPIRED: []
+}
+
+export function canQuoteTransition(from: QuoteStatus, to: QuoteStatus): boolean {
+  return QUOTE_TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Vérifie qu'une transition est autorisée (erreur "Transition interdite" sinon)
+ */
+export function assertQuoteTransition(from: QuoteStatus, to: QuoteStatus): void {
+  if (!canQuoteTransition(from, to)) {
+    throw new Error(`Transition interdite : ${from} → ${to}`)
+  }
+}
+
+export function isQuoteEditable(status: QuoteStatus): boolean {
+  return status === QuoteStatus.DRAFT
+}
+
+/**
+ * Un devis envoyé sans réponse est expiré une fois sa date de validité dépassée
+ */
+export function isQuoteExpired(
+  quote: { status: QuoteStatus; validUntil: Date },
+  now: Date = new Date()
+): boolean {
+  return quote.status === QuoteStatus.SENT && quote.validUntil < now
+}
+
+/**
+ * Date de validité par défaut à partir de la date d'émission
+ */
+export function defaultValidUntil(issueDate: Date, days: number = DEFAULT_QUOTE_VALIDITY_DAYS): Date {
+  return new Date(issueDate.getTime() + days * 24 * 60 * 60 * 1000)
+}
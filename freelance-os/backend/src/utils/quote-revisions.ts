@@ -0,0 +1,128 @@
+import { Prisma } from '@prisma/client'
+
+/**
+ * Révisions d'un devis (v1, v2, v3... d'une même négociation)
+ *
+ * Chaque révision est un devis à part entière rattaché à la v1 : ses lignes, figées à l'envoi,
+ * forment l'instantané de la version. Les révisions partagent le numéro de base de la v1,
+ * suivi du suffixe -V2, -V3... Seule la dernière révision peut être acceptée.
+ */
+
+/**
+ * Numéro d'une révision à partir du numéro de base de la v1
+ */
+export function formatRevisionNumber(baseNumber: string, revision: number): string {
+  return revision > 1 ? `${baseNumber}-V${revision}` : baseNumber
+}
+
+// Ligne d'une révision telle qu'enregistrée
+export interface RevisionLine {
+  description: string
+  quantity: Prisma.Decimal
+  unitPrice: Prisma.Decimal
+  vatRate: Prisma.Decimal
+  total: Prisma.Decimal
+}
+
+export interface RevisionSnapshot {
+  revision: number
+  subtotal: Prisma.Decimal
+  vatAmount: Prisma.Decimal
+  total: Prisma.Decimal
+  items: RevisionLine[]
+}
+
+export type LineChange = 'ADDED' | 'REMOVED' | 'CHANGED'
+
+export interface LineValues {
+  quantity: number
+  unitPrice: number
+  vatRate: number
+  total: number
+}
+
+export interface LineDiff {
+  change: LineChange
+  description: string
+  before: LineValues | null
+  after: LineValues | null
+}
+
+export interface AmountDiff {
+  before: number
+  after: number
+  delta: number
+}
+
+export interface QuoteRevisionDiff {
+  fromRevision: number
+  toRevision: number
+  lines: LineDiff[]
+  unchangedLines: number
+  subtotal: AmountDiff
+  vatAmount: AmountDiff
+  total: AmountDiff
+}
+
+function toValues(line: RevisionLine): LineValues {
+  return {
+    quantity: line.quantity.toNumber(),
+    unitPrice: line.unitPrice.toNumber(),
+    vatRate: line.vatRate.toNumber(),
+    total: line.total.toNumber()
+  }
+}
+
+function diffAmount(before: Prisma.Decimal, after: Prisma.Decimal): AmountDiff {
+  return {
+    before: before.toNumber(),
+    after: after.toNumber(),
+    delta: after.minus(before).toNumber()
+  }
+}
+
+function isSameLine(a: RevisionLine, b: RevisionLine): boolean {
+  return a.quantity.equals(b.quantity) && a.unitPrice.equals(b.unitPrice) && a.vatRate.equals(b.vatRate)
+}
+
+/**
+ * Différences entre deux révisions
+ * Les lignes sont rapprochées par libellé (dans l'ordre en cas de doublons) : une ligne rapprochée
+ * dont la quantité, le prix ou le taux change est CHANGED, les autres sont ADDED ou REMOVED
+ */
+export function diffQuoteRevisions(from: RevisionSnapshot, to: RevisionSnapshot): QuoteRevisionDiff {
+  const remaining = [...from.items]
+  const lines: LineDiff[] = []
+  let unchangedLines = 0
+
+  for (const line of to.items) {
+    const index = remaining.findIndex(previous => previous.description === line.description)
+
+    if (index === -1) {
+      lines.push({ change: 'ADDED', description: line.description, before: null, after: toValues(line) })
+      continue
+    }
+
+    const [previous] = remaining.splice(index, 1)
+
+    if (previous && !isSameLine(previous, line)) {
+      lines.push({ change: 'CHANGED', description: line.description, before: toValues(previous), after: toValues(line) })
+    } else {
+      unchangedLines++
+    }
+  }
+
+  for (const previous of remaining) {
+    lines.push({ change: 'REMOVED', description: previous.description, before: toValues(previous), after: null })
+  }
+
+  return {
+    fromRevision: from.revision,
+    toRevision: to.revision,
+    lines,
+    unchangedLines,
+    subtotal: diffAmount(from.subtotal, to.subtotal),
+    vatAmount: diffAmount(from.vatAmount, to.vatAmount),
+    total: diffAmount(from.total, to.total)
+  }
+}
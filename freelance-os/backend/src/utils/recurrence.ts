@@ -0,0 +1,47 @@
+import { RecurrenceInterval } from '@prisma/client'
+
+/**
+ * Échéances des factures récurrentes
+ *
+ * Chaque échéance est calculée depuis la date de départ (et non depuis la précédente) :
+ * un abonnement démarré le 31 janvier tombe le 28/29 février puis le 31 mars, sans dérive.
+ */
+
+export const RECURRENCE_MONTHS: Record<RecurrenceInterval, number> = {
+  MONTHLY: 1,
+  QUARTERLY: 3,
+  YEARLY: 12
+}
+
+// Rattrapage maximal d'échéances manquées en une exécution (worker arrêté longtemps)
+export const MAX_CATCH_UP_OCCURRENCES = 12
+
+/**
+ * Ajoute des mois en ramenant le jour au dernier jour du mois si nécessaire
+ */
+export function addMonthsClamped(date: Date, months: number): Date {
+  const target = new Date(date.getTime())
+  const day = date.getDate()
+
+  target.setDate(1)
+  target.setMonth(target.getMonth() + months)
+
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate()
+  target.setDate(Math.min(day, lastDay))
+
+  return target
+}
+
+/**
+ * Date de l'échéance n° index (0 = date de départ)
+ */
+export function getOccurrenceDate(startDate: Date, interval: RecurrenceInterval, index: number): Date {
+  return addMonthsClamped(startDate, RECURRENCE_MONTHS[interval] * index)
+}
+
+/**
+ * Une échéance est due si elle est atteinte et ne dépasse pas la date de fin
+ */
+export function isOccurrenceDue(runDate: Date, endDate: Date | null, now: Date = new Date()): boolean {
+  return runDate <= now && (!endDate || runDate <= endDate)
+}
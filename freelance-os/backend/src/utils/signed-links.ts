@@ -0,0 +1,60 @@
+import crypto from 'crypto'
+
+/**
+ * Liens publics signés (sans compte) : jeton "charge.signature" en base64url
+ *
+ * La charge porte l'identifiant du document, l'usage du lien et sa date d'expiration ;
+ * la signature HMAC-SHA256 est calculée avec un secret du gestionnaire de secrets.
+ * Un jeton ne vaut que pour l'usage pour lequel il a été émis.
+ */
+
+export interface LinkPayload {
+  sub: string // Identifiant du document
+  purpose: string // Usage du lien (ex : quote-acceptance)
+  exp: number // Expiration en secondes depuis l'epoch
+}
+
+function sign(encodedPayload: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(encodedPayload).digest('base64url')
+}
+
+export function signLinkToken(payload: LinkPayload, secret: string): string {
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url')
+  return `${encodedPayload}.${sign(encodedPayload, secret)}`
+}
+
+/**
+ * Vérifie la signature, l'usage et l'expiration d'un jeton
+ * Erreur "Invalid token" pour un jeton falsifié, "Lien expiré" au-delà de son expiration
+ */
+export function verifyLinkToken(token: string, purpose: string, secret: string, now: Date = new Date()): LinkPayload {
+  const [encodedPayload, signature, ...rest] = token.split('.')
+
+  if (!encodedPayload || !signature || rest.length > 0) {
+    throw new Error('Invalid token : lien mal formé')
+  }
+
+  const expected = Buffer.from(sign(encodedPayload, secret))
+  const received = Buffer.from(signature)
+
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    throw new Error('Invalid token : signature du lien invalide')
+  }
+
+  let payload: LinkPayload
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'))
+  } catch {
+    throw new Error('Invalid token : lien mal formé')
+  }
+
+  if (payload.purpose !== purpose || typeof payload.sub !== 'string' || typeof payload.exp !== 'number') {
+    throw new Error('Invalid token : lien non valable pour cet usage')
+  }
+
+  if (payload.exp * 1000 < now.getTime()) {
+    throw new Error('Lien expiré')
+  }
+
+  return payload
+}
@@ -0,0 +1,74 @@
+import { Prisma } from '@prisma/client'
+
+/**
+ * Facturation du temps : regroupement des créneaux non facturés en lignes de facture
+ *
+ * Chaque créneau est valorisé à son taux horaire, à défaut au taux de son projet ;
+ * une ligne regroupe les créneaux d'un même projet et d'une même tâche (ou d'un même jour)
+ * au même taux. La quantité est exprimée en heures, arrondie au centième
+ */
+
+export const TIME_BILLING_GROUPS = ['TASK', 'DAY'] as const
+
+export type TimeBillingGroup = typeof TIME_BILLING_GROUPS[number]
+
+export interface BillableTimeEntry {
+  id: string
+  startTime: Date
+  duration: number
+  hourlyRate: Prisma.Decimal | null
+  project: { id: string; name: string; hourlyRate: Prisma.Decimal | null }
+  task: { id: string; title: string } | null
+}
+
+export interface TimeInvoiceLine {
+  description: string
+  quantity: number // Heures
+  unitPrice: number // Taux horaire HT
+  minutes: number
+  entryIds: string[]
+}
+
+const formatDay = (date: Date): string =>
+  date.toLocaleDateString('fr-FR', { day: '2-digit', month: '2-digit', year: 'numeric', timeZone: 'UTC' })
+
+function lineLabel(entry: BillableTimeEntry, groupBy: TimeBillingGroup): { key: string; description: string } {
+  if (groupBy === 'DAY') {
+    const day = entry.startTime.toISOString().slice(0, 10)
+    return { key: `${entry.project.id}:${day}`, description: `${entry.project.name} — ${formatDay(entry.startTime)}` }
+  }
+
+  return entry.task
+    ? { key: `${entry.project.id}:${entry.task.id}`, description: `${entry.project.name} — ${entry.task.title}` }
+    : { key: `${entry.project.id}:`, description: `${entry.project.name} — Temps hors tâche` }
+}
+
+/**
+ * Regroupe les créneaux en lignes de facture (dans l'ordre chronologique du premier créneau)
+ * Un créneau sans taux horaire (ni sur la saisie, ni sur le projet) ne peut pas être facturé
+ */
+export function groupBillableTime(entries: BillableTimeEntry[], groupBy: TimeBillingGroup): TimeInvoiceLine[] {
+  const lines = new Map<string, TimeInvoiceLine>()
+  const sorted = [...entries].sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+
+  for (const entry of sorted) {
+    const rate = entry.hourlyRate ?? entry.project.hourlyRate
+
+    if (!rate) {
+      throw new Error(`Invalid hourlyRate : aucun taux horaire pour le temps saisi sur le projet « ${entry.project.name} »`)
+    }
+
+    const { key, description } = lineLabel(entry, groupBy)
+    const lineKey = `${key}:${rate.toFixed(2)}`
+
+    const line = lines.get(lineKey) ?? { description, quantity: 0, unitPrice: rate.toNumber(), minutes: 0, entryIds: [] }
+    line.minutes += entry.duration
+    line.entryIds.push(entry.id)
+    lines.set(lineKey, line)
+  }
+
+  return [...lines.values()].map(line => ({
+    ...line,
+    quantity: new Prisma.Decimal(line.minutes).dividedBy(60).toDecimalPlaces(2).toNumber()
+  }))
+}
@@ -0,0 +1,134 @@
+/**
+ * Suivi du temps : arrondi des durées, chevauchements et feuille de temps hebdomadaire
+ *
+ * Les bornes (startTime, endTime) restent les heures réelles ; seule la durée
+ * facturable (duration, en minutes) est arrondie selon le réglage du freelance
+ */
+
+// Arrondi au plus proche : aucun, 5 ou 15 minutes
+export const TIME_ROUNDING_STEPS = [0, 5, 15] as const
+
+export type TimeRoundingStep = typeof TIME_ROUNDING_STEPS[number]
+
+// Durée maximale d'une saisie manuelle
+export const MAX_TIME_ENTRY_MINUTES = 24 * 60
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+/**
+ * Durée en minutes entre deux instants (au moins une minute)
+ */
+export function elapsedMinutes(startTime: Date, endTime: Date): number {
+  return Math.max(1, Math.round((endTime.getTime() - startTime.getTime()) / MINUTE_MS))
+}
+
+/**
+ * Arrondit une durée au pas le plus proche ; une durée non nulle vaut au moins un pas
+ */
+export function roundDuration(minutes: number, step: number): number {
+  if (step <= 0 || minutes <= 0) {
+    return minutes
+  }
+
+  return Math.max(step, Math.round(minutes / step) * step)
+}
+
+/**
+ * Deux créneaux [début, fin[ se chevauchent (des créneaux bout à bout ne se chevauchent pas)
+ */
+export function intervalsOverlap(
+  a: { startTime: Date; endTime: Date },
+  b: { startTime: Date; endTime: Date }
+): boolean {
+  return a.startTime < b.endTime && b.startTime < a.endTime
+}
+
+/**
+ * Lundi 00:00 UTC de la semaine contenant la date
+ */
+export function weekStart(date: Date): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+  const offset = (start.getUTCDay() + 6) % 7
+  return new Date(start.getTime() - offset * DAY_MS)
+}
+
+// Saisie rattachée à son projet et à sa tâche éventuelle
+export interface TimesheetEntry {
+  startTime: Date
+  duration: number
+  project: { id: string; name: string }
+  task: { id: string; title: string } | null
+}
+
+export interface TimesheetTaskRow {
+  taskId: string | null // null : temps saisi sur le projet sans tâche
+  title: string | null
+  days: number[] // Minutes du lundi au dimanche
+  totalMinutes: number
+}
+
+export interface TimesheetProjectRow {
+  projectId: string
+  name: string
+  days: number[]
+  totalMinutes: number
+  tasks: TimesheetTaskRow[]
+}
+
+export interface Timesheet {
+  weekStart: Date
+  weekEnd: Date
+  days: number[]
+  totalMinutes: number
+  projects: TimesheetProjectRow[]
+}
+
+const emptyWeek = (): number[] => [0, 0, 0, 0, 0, 0, 0]
+
+/**
+ * Feuille de temps d'une semaine : minutes par jour (jour de début de la saisie),
+ * regroupées par projet puis par tâche
+ */
+export function buildTimesheet(start: Date, entries: TimesheetEntry[]): Timesheet {
+  const weekEnd = new Date(start.getTime() + 7 * DAY_MS)
+  const days = emptyWeek()
+  const projects = new Map<string, TimesheetProjectRow>()
+
+  for (const entry of entries) {
+    const day = Math.floor((entry.startTime.getTime() - start.getTime()) / DAY_MS)
+
+    if (day < 0 || day > 6) {
+      continue
+    }
+
+    let project = projects.get(entry.project.id)
+    if (!project) {
+      project = { projectId: entry.project.id, name: entry.project.name, days: emptyWeek(), totalMinutes: 0, tasks: [] }
+      projects.set(entry.project.id, project)
+    }
+
+    const taskId = entry.task?.id ?? null
+    let task = project.tasks.find(row => row.taskId === taskId)
+    if (!task) {
+      task = { taskId, title: entry.task?.title ?? null, days: emptyWeek(), totalMinutes: 0 }
+      project.tasks.push(task)
+    }
+
+    for (const row of [task, project]) {
+      row.days[day] = (row.days[day] ?? 0) + entry.duration
+      row.totalMinutes += entry.duration
+    }
+    days[day] = (days[day] ?? 0) + entry.duration
+  }
+
+  const sortedProjects = [...projects.values()].sort((a, b) => a.name.localeCompare(b.name))
+
+  return {
+    weekStart: start,
+    weekEnd,
+    days,
+    totalMinutes: days.reduce((total, minutes) => total + minutes, 0),
+    projects: sortedProjects
+  }
+}
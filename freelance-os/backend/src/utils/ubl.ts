@@ -0,0 +1,136 @@
+import { PdfDocumentData, PdfParty } from '@/types/pdf.types'
+import {
+  assertExportableInvoice,
+  DEFAULT_UNIT_CODE,
+  escapeXml,
+  formatAmount,
+  formatQuantity,
+  getDocumentTypeCode,
+  getVatBreakdown,
+  getVatCategory,
+  SIREN_SCHEME_ID,
+  toSiren
+} from '@/utils/einvoice'
+
+/**
+ * Génération d'une facture (ou d'un avoir) OASIS UBL 2.1 conforme à la norme EN 16931
+ * Un avoir utilise le document CreditNote : mêmes blocs, éléments de ligne renommés
+ */
+
+const CUSTOMIZATION_ID = 'urn:cen.eu:en16931:2017'
+
+// Format ISO 8601 : AAAA-MM-JJ
+function formatDate(date: Date): string {
+  const year = String(date.getFullYear())
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+
+  return `${year}-${month}-${day}`
+}
+
+function amountElement(name: string, amount: number, currency: string): string {
+  return `<cbc:${name} currencyID="${currency}">${formatAmount(amount)}</cbc:${name}>`
+}
+
+function taxScheme(): string {
+  return '<cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme>'
+}
+
+function renderParty(tag: string, party: PdfParty): string {
+  const siren = toSiren(party.siret)
+  const address = [
+    party.address ? `<cbc:StreetName>${escapeXml(party.address)}</cbc:StreetName>` : '',
+    party.city ? `<cbc:CityName>${escapeXml(party.city)}</cbc:CityName>` : '',
+    party.zipCode ? `<cbc:PostalZone>${escapeXml(party.zipCode)}</cbc:PostalZone>` : '',
+    `<cac:Country><cbc:IdentificationCode>${escapeXml(party.country)}</cbc:IdentificationCode></cac:Country>`
+  ].join('')
+
+  return `<cac:${tag}><cac:Party>` +
+    `<cac:PostalAddress>${address}</cac:PostalAddress>` +
+    (party.tvaNumber
+      ? `<cac:PartyTaxScheme><cbc:CompanyID>${escapeXml(party.tvaNumber.replace(/\s/g, ''))}</cbc:CompanyID>${taxScheme()}</cac:PartyTaxScheme>`
+      : '') +
+    '<cac:PartyLegalEntity>' +
+    `<cbc:RegistrationName>${escapeXml(party.company || party.name)}</cbc:RegistrationName>` +
+    (siren ? `<cbc:CompanyID schemeID="${SIREN_SCHEME_ID}">${siren}</cbc:CompanyID>` : '') +
+    '</cac:PartyLegalEntity>' +
+    `</cac:Party></cac:${tag}>`
+}
+
+function renderTaxTotal(data: PdfDocumentData): string {
+  const currency = escapeXml(data.currency)
+  const subtotals = getVatBreakdown(data).map(vat =>
+    '<cac:TaxSubtotal>' +
+    amountElement('TaxableAmount', vat.basisAmount, currency) +
+    amountElement('TaxAmount', vat.taxAmount, currency) +
+    '<cac:TaxCategory>' +
+    `<cbc:ID>${vat.categoryCode}</cbc:ID>` +
+    `<cbc:Percent>${formatAmount(vat.rate)}</cbc:Percent>` +
+    (vat.exemptionReasonCode ? `<cbc:TaxExemptionReasonCode>${vat.exemptionReasonCode}</cbc:TaxExemptionReasonCode>` : '') +
+    (vat.exemptionReason ? `<cbc:TaxExemptionReason>${escapeXml(vat.exemptionReason)}</cbc:TaxExemptionReason>` : '') +
+    taxScheme() +
+    '</cac:TaxCategory>' +
+    '</cac:TaxSubtotal>'
+  ).join('')
+
+  return `<cac:TaxTotal>${amountElement('TaxAmount', data.vatAmount, currency)}${subtotals}</cac:TaxTotal>`
+}
+
+function renderLines(data: PdfDocumentData, lineTag: string, quantityTag: string): string {
+  const currency = escapeXml(data.currency)
+
+  return data.items.map((item, index) =>
+    `<cac:${lineTag}>` +
+    `<cbc:ID>${index + 1}</cbc:ID>` +
+    `<cbc:${quantityTag} unitCode="${DEFAULT_UNIT_CODE}">${formatQuantity(item.quantity)}</cbc:${quantityTag}>` +
+    amountElement('LineExtensionAmount', item.total, currency) +
+    '<cac:Item>' +
+    `<cbc:Name>${escapeXml(item.description)}</cbc:Name>` +
+    '<cac:ClassifiedTaxCategory>' +
+    `<cbc:ID>${getVatCategory(data.vatRegime, item.vatRate).categoryCode}</cbc:ID>` +
+    `<cbc:Percent>${formatAmount(item.vatRate)}</cbc:Percent>` +
+    taxScheme() +
+    '</cac:ClassifiedTaxCategory>' +
+    '</cac:Item>' +
+    `<cac:Price>${amountElement('PriceAmount', item.unitPrice, currency)}</cac:Price>` +
+    `</cac:${lineTag}>`
+  ).join('')
+}
+
+/**
+ * Construit le XML UBL 2.1 d'une facture ou d'un avoir émis
+ */
+export function buildUblXml(data: PdfDocumentData): string {
+  assertExportableInvoice(data, 'UBL')
+
+  const currency = escapeXml(data.currency)
+  const isCreditNote = data.kind === 'CREDIT_NOTE'
+  const root = isCreditNote ? 'CreditNote' : 'Invoice'
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<${root} xmlns="urn:oasis:names:specification:ubl:schema:xsd:${root}-2"` +
+    ' xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"' +
+    ' xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">' +
+    `<cbc:CustomizationID>${CUSTOMIZATION_ID}</cbc:CustomizationID>` +
+    `<cbc:ID>${escapeXml(data.number)}</cbc:ID>` +
+    `<cbc:IssueDate>${formatDate(data.issueDate)}</cbc:IssueDate>` +
+    (data.dueDate ? `<cbc:DueDate>${formatDate(data.dueDate)}</cbc:DueDate>` : '') +
+    `<cbc:${root}TypeCode>${getDocumentTypeCode(data)}</cbc:${root}TypeCode>` +
+    (data.notes ? `<cbc:Note>${escapeXml(data.notes)}</cbc:Note>` : '') +
+    `<cbc:DocumentCurrencyCode>${currency}</cbc:DocumentCurrencyCode>` +
+    (data.correctedInvoiceNumber
+      ? `<cac:BillingReference><cac:InvoiceDocumentReference><cbc:ID>${escapeXml(data.correctedInvoiceNumber)}</cbc:ID></cac:InvoiceDocumentReference></cac:BillingReference>`
+      : '') +
+    renderParty('AccountingSupplierParty', data.issuer) +
+    renderParty('AccountingCustomerParty', data.client) +
+    (data.dueDate ? `<cac:PaymentTerms><cbc:Note>Paiement à ${data.paymentTermsDays} jours</cbc:Note></cac:PaymentTerms>` : '') +
+    renderTaxTotal(data) +
+    '<cac:LegalMonetaryTotal>' +
+    amountElement('LineExtensionAmount', data.subtotal, currency) +
+    amountElement('TaxExclusiveAmount', data.subtotal, currency) +
+    amountElement('TaxInclusiveAmount', data.total, currency) +
+    amountElement('PayableAmount', data.total, currency) +
+    '</cac:LegalMonetaryTotal>' +
+    (isCreditNote ? renderLines(data, 'CreditNoteLine', 'CreditedQuantity') : renderLines(data, 'InvoiceLine', 'InvoicedQuantity')) +
+    `</${root}>\n`
+}
@@ -0,0 +1,67 @@
+import { Prisma, VatRegime } from '@prisma/client'
+import { LineInput } from '@/utils/invoice-calculations'
+
+/**
+ * Régimes de TVA des documents
+ *
+ * - STANDARD : chaque ligne porte son taux (20, 10, 5,5 ou 2,1 %)
+ * - FRANCHISE : franchise en base des micro-entrepreneurs, TVA à 0 % et mention art. 293 B du CGI
+ * - REVERSE_CHARGE : client assujetti d'un autre État membre, TVA due par le preneur (autoliquidation)
+ *
+ * Le régime est résolu à la création du document puis figé : un changement de paramètre
+ * ne modifie pas les factures existantes
+ */
+
+// États membres de l'Union européenne (ISO 3166-1 alpha-2)
+export const EU_COUNTRIES = [
+  'AT', 'BE', 'BG', 'CY', 'CZ', 'DE', 'DK', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR', 'HU',
+  'IE', 'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PL', 'PT', 'RO', 'SE', 'SI', 'SK'
+] as const
+
+// Taux applicables en France métropolitaine (normal, intermédiaire, réduit, particulier)
+export const FRENCH_VAT_RATES = [20, 10, 5.5, 2.1] as const
+
+// Mention légale propre au régime (null pour le régime normal)
+export const VAT_REGIME_MENTIONS: Record<VatRegime, string | null> = {
+  STANDARD: null,
+  FRANCHISE: 'TVA non applicable, art. 293 B du CGI',
+  REVERSE_CHARGE: 'Autoliquidation : TVA due par le preneur (art. 283-2 du CGI, art. 196 de la directive 2006/112/CE)'
+}
+
+export function isEuCountry(country: string): boolean {
+  return (EU_COUNTRIES as readonly string[]).includes(country.toUpperCase())
+}
+
+/**
+ * Régime applicable à un document selon le paramètre du freelance et son client
+ * L'autoliquidation suppose un client d'un autre État membre identifié à la TVA
+ */
+export function resolveVatRegime(
+  userRegime: VatRegime,
+  issuerCountry: string,
+  client: { country: string; tvaNumber: string | null }
+): VatRegime {
+  if (userRegime === VatRegime.FRANCHISE) {
+    return VatRegime.FRANCHISE
+  }
+
+  const isIntraEu = isEuCountry(client.country) && client.country.toUpperCase() !== issuerCountry.toUpperCase()
+
+  return isIntraEu && client.tvaNumber ? VatRegime.REVERSE_CHARGE : VatRegime.STANDARD
+}
+
+/**
+ * Taux effectif de chaque ligne : le sien, celui du document à défaut, 0 % hors régime normal
+ */
+export function applyVatRegime<T extends LineInput>(
+  lines: T[],
+  regime: VatRegime,
+  defaultVatRate: Prisma.Decimal | number
+): Array<Omit<T, 'vatRate'> & { vatRate: Prisma.Decimal }> {
+  return lines.map(line => ({
+    ...line,
+    vatRate: regime === VatRegime.STANDARD
+      ? new Prisma.Decimal(line.vatRate ?? defaultVatRate)
+      : new Prisma.Decimal(0)
+  }))
+}
@@ -1,5 +1,10 @@
 import './index.css'
 import { useEffect, useState } from 'react'
+import { Route, Routes } from 'react-router-dom'
+
+import { BoardPage } from '@/features/board/BoardPage'
+import { PortalLoginPage } from '@/features/portal/PortalLoginPage'
+import { PortalPage } from '@/features/portal/PortalPage'
 
 interface HealthStatus {
   status: string
@@ -12,7 +17,7 @@ interface HealthStatus {
   }
 }
 
-function App() {
+function StatusPage() {
   const [healthData, setHealthData] = useState<HealthStatus | null>(null)
   const [loading, setLoading] = useState(true)
 
@@ -78,4 +83,15 @@ function App() {
   )
 }
 
+function App() {
+  return (
+    <Routes>
+      <Route path="/" element={<StatusPage />} />
+      <Route path="/projects/:projectId/board" element={<BoardPage />} />
+      <Route path="/portal" element={<PortalPage />} />
+      <Route path="/portal/login" element={<PortalLoginPage />} />
+    </Routes>
+  )
+}
+
 export default App
\ No newline at end of file
@@ -0,0 +1,121 @@
+import { Plus } from 'lucide-react'
+import { type DragEvent, type FormEvent, useState } from 'react'
+
+import { cn } from '@/lib/utils'
+import { isColumnFull } from './board-state'
+import { TaskCard } from './TaskCard'
+import type { BoardColumn } from './types'
+
+// Carte en cours de glissement et emplacement survolé (null : fin de colonne)
+export interface DragState {
+  taskId: string
+  fromColumnId: string
+  overColumnId: string | null
+  beforeTaskId: string | null
+}
+
+interface BoardColumnViewProps {
+  column: BoardColumn
+  drag: DragState | null
+  onDragStart: (taskId: string, columnId: string) => void
+  onDragEnd: () => void
+  onDragOver: (columnId: string, beforeTaskId: string | null) => void
+  onDrop: (columnId: string) => void
+  onCreateTask: (columnId: string, title: string) => void
+}
+
+export function BoardColumnView({
+  column,
+  drag,
+  onDragStart,
+  onDragEnd,
+  onDragOver,
+  onDrop,
+  onCreateTask,
+}: BoardColumnViewProps) {
+  const [title, setTitle] = useState('')
+
+  const full = isColumnFull(column)
+  // Une colonne pleine n'accepte que les cartes qu'elle contient déjà
+  const accepts = drag !== null && (!full || drag.fromColumnId === column.id)
+  const isOver = drag?.overColumnId === column.id
+
+  const handleDragOver = (beforeTaskId: string | null) => (event: DragEvent<HTMLElement>) => {
+    if (!accepts) {
+      return
+    }
+    event.preventDefault()
+    event.stopPropagation()
+    onDragOver(column.id, beforeTaskId)
+  }
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    const trimmed = title.trim()
+    if (trimmed) {
+      onCreateTask(column.id, trimmed)
+      setTitle('')
+    }
+  }
+
+  return (
+    <section
+      onDragOver={handleDragOver(null)}
+      onDrop={(event) => {
+        event.preventDefault()
+        onDrop(column.id)
+      }}
+      className={cn(
+        'flex w-72 shrink-0 flex-col rounded-lg border bg-muted/40 p-3',
+        isOver && 'ring-2 ring-primary',
+        drag !== null && !accepts && 'opacity-60',
+      )}
+    >
+      <header className="mb-3 flex items-center justify-between">
+        <h2 className="font-semibold">{column.name}</h2>
+        <span className={cn('rounded-full px-2 text-xs text-muted-foreground', full && 'bg-red-100 text-red-700')}>
+          {column.wipLimit !== null ? `${column.tasksCount} / ${column.wipLimit}` : column.tasksCount}
+        </span>
+      </header>
+
+      <div className="flex min-h-16 flex-1 flex-col gap-2">
+        {column.tasks.map((task) => (
+          <TaskCard
+            key={task.id}
+            task={task}
+            dragging={drag?.taskId === task.id}
+            dropBefore={isOver && drag?.beforeTaskId === task.id}
+            onDragStart={(event) => {
+              event.dataTransfer.effectAllowed = 'move'
+              event.dataTransfer.setData('text/plain', task.id)
+              onDragStart(task.id, column.id)
+            }}
+            onDragEnd={onDragEnd}
+            onDragOver={handleDragOver(task.id)}
+          />
+        ))}
+
+        {isOver && drag?.beforeTaskId === null && <div className="h-1 rounded bg-primary" />}
+      </div>
+
+      <form onSubmit={handleSubmit} className="mt-3 flex gap-2">
+        <input
+          value={title}
+          onChange={(event) => setTitle(event.target.value)}
+          placeholder="Nouvelle tâche"
+          maxLength={200}
+          disabled={full}
+          className="min-w-0 flex-1 rounded-md border bg-background px-2 py-1 text-sm disabled:opacity-50"
+        />
+        <button
+          type="submit"
+          disabled={full || !title.trim()}
+          aria-label="Ajouter la tâche"
+          className="rounded-md bg-primary px-2 text-primary-foreground disabled:opacity-50"
+        >
+          <Plus className="h-4 w-4" />
+        </button>
+      </form>
+    </section>
+  )
+}
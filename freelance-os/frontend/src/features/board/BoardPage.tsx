@@ -0,0 +1,104 @@
+import { type FormEvent, useState } from 'react'
+import { useParams } from 'react-router-dom'
+
+import { getApiErrorMessage } from '@/lib/api'
+import { useBoard, useCreateColumn, useCreateTask, useMoveTask } from './api'
+import { BoardColumnView, type DragState } from './BoardColumnView'
+import { resolveMove } from './board-state'
+
+/**
+ * Tableau Kanban d'un projet : glisser-déposer des tâches entre colonnes (HTML5 natif)
+ */
+export function BoardPage() {
+  const { projectId = '' } = useParams<{ projectId: string }>()
+
+  const board = useBoard(projectId)
+  const moveTask = useMoveTask(projectId)
+  const createTask = useCreateTask(projectId)
+  const createColumn = useCreateColumn(projectId)
+
+  const [drag, setDrag] = useState<DragState | null>(null)
+  const [columnName, setColumnName] = useState('')
+  const [wipLimit, setWipLimit] = useState('')
+
+  const handleDrop = (columnId: string) => {
+    if (drag && board.data) {
+      const move = resolveMove(board.data, drag.taskId, columnId, drag.overColumnId === columnId ? drag.beforeTaskId : null)
+      if (move) {
+        moveTask.mutate(move)
+      }
+    }
+    setDrag(null)
+  }
+
+  const handleCreateColumn = (event: FormEvent) => {
+    event.preventDefault()
+    const name = columnName.trim()
+    if (!name) {
+      return
+    }
+    const limit = Number.parseInt(wipLimit, 10)
+    createColumn.mutate({ name, ...(limit > 0 && { wipLimit: limit }) })
+    setColumnName('')
+    setWipLimit('')
+  }
+
+  if (board.isPending) {
+    return <p className="p-8 text-muted-foreground">Chargement du tableau...</p>
+  }
+
+  if (board.isError) {
+    return <p className="p-8 text-red-600">{getApiErrorMessage(board.error, 'Impossible de charger le tableau')}</p>
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-6 text-foreground">
+      <h1 className="mb-6 text-2xl font-bold">Tableau du projet</h1>
+
+      <div className="flex items-start gap-4 overflow-x-auto pb-4">
+        {board.data.columns.map((column) => (
+          <BoardColumnView
+            key={column.id}
+            column={column}
+            drag={drag}
+            onDragStart={(taskId, fromColumnId) =>
+              setDrag({ taskId, fromColumnId, overColumnId: null, beforeTaskId: null })
+            }
+            onDragEnd={() => setDrag(null)}
+            onDragOver={(overColumnId, beforeTaskId) =>
+              setDrag((current) => current && { ...current, overColumnId, beforeTaskId })
+            }
+            onDrop={handleDrop}
+            onCreateTask={(columnId, title) => createTask.mutate({ columnId, title })}
+          />
+        ))}
+
+        <form onSubmit={handleCreateColumn} className="flex w-72 shrink-0 flex-col gap-2 rounded-lg border border-dashed p-3">
+          <input
+            value={columnName}
+            onChange={(event) => setColumnName(event.target.value)}
+            placeholder="Nouvelle colonne"
+            maxLength={50}
+            className="rounded-md border bg-background px-2 py-1 text-sm"
+          />
+          <input
+            type="number"
+            min={1}
+            max={100}
+            value={wipLimit}
+            onChange={(event) => setWipLimit(event.target.value)}
+            placeholder="Limite WIP (facultative)"
+            className="rounded-md border bg-background px-2 py-1 text-sm"
+          />
+          <button
+            type="submit"
+            disabled={!columnName.trim() || createColumn.isPending}
+            className="rounded-md bg-primary px-3 py-1 text-sm text-primary-foreground disabled:opacity-50"
+          >
+            Ajouter la colonne
+          </button>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,55 @@
+import { format } from 'date-fns'
+import { fr } from 'date-fns/locale'
+import { CalendarDays } from 'lucide-react'
+import type { DragEvent } from 'react'
+
+import { cn } from '@/lib/utils'
+import type { BoardTask, Priority } from './types'
+
+const PRIORITY_STYLES: Record<Priority, { label: string; className: string }> = {
+  LOW: { label: 'Basse', className: 'bg-muted text-muted-foreground' },
+  MEDIUM: { label: 'Moyenne', className: 'bg-secondary text-secondary-foreground' },
+  HIGH: { label: 'Haute', className: 'bg-orange-100 text-orange-700' },
+  URGENT: { label: 'Urgente', className: 'bg-destructive text-destructive-foreground' },
+}
+
+interface TaskCardProps {
+  task: BoardTask
+  dragging: boolean
+  dropBefore: boolean
+  onDragStart: (event: DragEvent<HTMLElement>) => void
+  onDragEnd: () => void
+  onDragOver: (event: DragEvent<HTMLElement>) => void
+}
+
+export function TaskCard({ task, dragging, dropBefore, onDragStart, onDragEnd, onDragOver }: TaskCardProps) {
+  const priority = PRIORITY_STYLES[task.priority]
+  const overdue = !task.completedAt && task.dueDate !== null && new Date(task.dueDate) < new Date()
+
+  return (
+    <article
+      draggable
+      onDragStart={onDragStart}
+      onDragEnd={onDragEnd}
+      onDragOver={onDragOver}
+      className={cn(
+        'cursor-grab rounded-md border bg-card p-3 shadow-sm transition-opacity active:cursor-grabbing',
+        dragging && 'opacity-40',
+        dropBefore && 'border-t-4 border-t-primary',
+      )}
+    >
+      <p className={cn('text-sm font-medium', task.completedAt && 'text-muted-foreground line-through')}>{task.title}</p>
+
+      <div className="mt-2 flex items-center justify-between gap-2 text-xs">
+        <span className={cn('rounded px-1.5 py-0.5 font-medium', priority.className)}>{priority.label}</span>
+
+        {task.dueDate && (
+          <span className={cn('flex items-center gap-1 text-muted-foreground', overdue && 'text-red-600')}>
+            <CalendarDays className="h-3 w-3" />
+            {format(new Date(task.dueDate), 'd MMM', { locale: fr })}
+          </span>
+        )}
+      </div>
+    </article>
+  )
+}
@@ -0,0 +1,71 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+
+import { api, getApiErrorMessage } from '@/lib/api'
+import { applyMove } from './board-state'
+import type { Board, TaskMove } from './types'
+
+export const boardQueryKey = (projectId: string) => ['projects', projectId, 'board'] as const
+
+export function useBoard(projectId: string) {
+  return useQuery({
+    queryKey: boardQueryKey(projectId),
+    queryFn: async () => {
+      const { data } = await api.get<{ board: Board }>(`/projects/${projectId}/board`)
+      return data.board
+    },
+  })
+}
+
+/**
+ * Déplacement d'une carte : affiché tout de suite, annulé si l'API le refuse (limite WIP, tableau modifié)
+ */
+export function useMoveTask(projectId: string) {
+  const queryClient = useQueryClient()
+  const queryKey = boardQueryKey(projectId)
+
+  return useMutation({
+    mutationFn: async ({ taskId, ...body }: TaskMove) => {
+      await api.post(`/projects/${projectId}/tasks/${taskId}/move`, body)
+    },
+    onMutate: async (move) => {
+      await queryClient.cancelQueries({ queryKey })
+      const previous = queryClient.getQueryData<Board>(queryKey)
+      if (previous) {
+        queryClient.setQueryData(queryKey, applyMove(previous, move))
+      }
+      return { previous }
+    },
+    onError: (error, _move, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKey, context.previous)
+      }
+      toast.error(getApiErrorMessage(error, 'Impossible de déplacer la tâche'))
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
+  })
+}
+
+export function useCreateTask(projectId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (body: { title: string; columnId: string }) => {
+      await api.post(`/projects/${projectId}/tasks`, body)
+    },
+    onError: (error) => toast.error(getApiErrorMessage(error, 'Impossible de créer la tâche')),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: boardQueryKey(projectId) }),
+  })
+}
+
+export function useCreateColumn(projectId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (body: { name: string; wipLimit?: number }) => {
+      await api.post(`/projects/${projectId}/board/columns`, body)
+    },
+    onError: (error) => toast.error(getApiErrorMessage(error, 'Impossible de créer la colonne')),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: boardQueryKey(projectId) }),
+  })
+}
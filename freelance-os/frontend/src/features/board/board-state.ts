@@ -0,0 +1,73 @@
+import type { Board, BoardColumn, TaskMove } from './types'
+
+/**
+ * Une colonne pleine refuse les cartes venues d'une autre colonne
+ */
+export function isColumnFull(column: BoardColumn): boolean {
+  return column.wipLimit !== null && column.tasksCount >= column.wipLimit
+}
+
+/**
+ * Déplacement demandé par un dépôt avant `beforeTaskId` (null : en fin de colonne)
+ * Renvoie null si la carte ne change pas de place
+ */
+export function resolveMove(
+  board: Board,
+  taskId: string,
+  columnId: string,
+  beforeTaskId: string | null,
+): TaskMove | null {
+  const column = board.columns.find((candidate) => candidate.id === columnId)
+  if (!column) {
+    return null
+  }
+
+  const others = column.tasks.filter((task) => task.id !== taskId)
+  const index = beforeTaskId ? others.findIndex((task) => task.id === beforeTaskId) : others.length
+  const insertAt = index === -1 ? others.length : index
+
+  const currentIndex = column.tasks.findIndex((task) => task.id === taskId)
+  if (currentIndex !== -1 && currentIndex === insertAt) {
+    return null
+  }
+
+  const after = others[insertAt - 1]
+  const before = others[insertAt]
+
+  return {
+    taskId,
+    columnId,
+    ...(after && { afterTaskId: after.id }),
+    ...(before && { beforeTaskId: before.id }),
+  }
+}
+
+/**
+ * Tableau après déplacement, affiché avant la réponse de l'API (mise à jour optimiste)
+ */
+export function applyMove(board: Board, move: TaskMove): Board {
+  const task = board.columns.flatMap((column) => column.tasks).find((candidate) => candidate.id === move.taskId)
+  if (!task) {
+    return board
+  }
+
+  const target = board.columns.find((column) => column.id === move.columnId)
+  const completedAt = target?.isDone ? (task.completedAt ?? new Date().toISOString()) : null
+  const moved = { ...task, columnId: move.columnId, completedAt }
+
+  return {
+    ...board,
+    columns: board.columns.map((column) => {
+      const tasks = column.tasks.filter((candidate) => candidate.id !== move.taskId)
+
+      if (column.id === move.columnId) {
+        const afterIndex = move.afterTaskId ? tasks.findIndex((candidate) => candidate.id === move.afterTaskId) : -1
+        const beforeIndex = move.beforeTaskId ? tasks.findIndex((candidate) => candidate.id === move.beforeTaskId) : -1
+        const insertAt = afterIndex !== -1 ? afterIndex + 1 : beforeIndex !== -1 ? beforeIndex : tasks.length
+        tasks.splice(insertAt, 0, moved)
+      }
+
+      return { ...column, tasks, tasksCount: tasks.length }
+    }),
+  }
+}
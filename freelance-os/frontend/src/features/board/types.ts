@@ -0,0 +1,41 @@
+// Réponses de GET /api/v1/projects/:id/board (dates sérialisées en ISO)
+
+export type Priority = 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT'
+
+export interface BoardTask {
+  id: string
+  projectId: string
+  title: string
+  description: string | null
+  dueDate: string | null
+  completedAt: string | null
+  priority: Priority
+  columnId: string | null
+  position: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface BoardColumn {
+  id: string
+  projectId: string
+  name: string
+  position: string
+  wipLimit: number | null
+  isDone: boolean
+  tasksCount: number
+  tasks: BoardTask[]
+}
+
+export interface Board {
+  projectId: string
+  columns: BoardColumn[]
+}
+
+// Dépôt d'une carte : colonne d'arrivée et voisins (en fin de colonne si aucun)
+export interface TaskMove {
+  taskId: string
+  columnId: string
+  afterTaskId?: string
+  beforeTaskId?: string
+}
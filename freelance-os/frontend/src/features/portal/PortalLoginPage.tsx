@@ -0,0 +1,67 @@
+import { type FormEvent, useEffect, useRef, useState } from 'react'
+import { Navigate, useSearchParams } from 'react-router-dom'
+
+import { getApiErrorMessage } from '@/lib/api'
+import { useRequestPortalLink, useVerifyPortalLink } from './api'
+
+/**
+ * Connexion à l'espace client : échange du lien reçu par email, ou demande d'un nouveau lien
+ */
+export function PortalLoginPage() {
+  const [searchParams] = useSearchParams()
+  const token = searchParams.get('token')
+
+  const verifyLink = useVerifyPortalLink()
+  const requestLink = useRequestPortalLink()
+  const [email, setEmail] = useState('')
+
+  // Le lien est à usage unique : un seul échange, même si l'effet est rejoué
+  const verified = useRef(false)
+  useEffect(() => {
+    if (token && !verified.current) {
+      verified.current = true
+      verifyLink.mutate(token)
+    }
+  }, [token, verifyLink])
+
+  const handleRequestLink = (event: FormEvent) => {
+    event.preventDefault()
+    if (email.trim()) {
+      requestLink.mutate(email.trim())
+    }
+  }
+
+  if (verifyLink.isSuccess) {
+    return <Navigate to="/portal" replace />
+  }
+
+  if (token && !verifyLink.isError) {
+    return <p className="p-8 text-muted-foreground">Connexion à votre espace client...</p>
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-6 text-foreground">
+      <form onSubmit={handleRequestLink} className="flex w-full max-w-sm flex-col gap-3 rounded-lg border bg-card p-6">
+        <h1 className="text-xl font-bold">Espace client</h1>
+        {verifyLink.isError && (
+          <p className="text-sm text-red-600">{getApiErrorMessage(verifyLink.error, 'Lien de connexion invalide')}</p>
+        )}
+        <p className="text-sm text-muted-foreground">Recevez par email un lien de connexion valable 15 minutes.</p>
+        <input
+          type="email"
+          value={email}
+          onChange={(event) => setEmail(event.target.value)}
+          placeholder="Votre adresse email"
+          className="rounded border bg-background px-3 py-2 text-sm"
+        />
+        <button
+          type="submit"
+          disabled={requestLink.isPending}
+          className="rounded bg-primary px-3 py-2 text-sm text-primary-foreground disabled:opacity-50"
+        >
+          Recevoir un lien
+        </button>
+      </form>
+    </div>
+  )
+}
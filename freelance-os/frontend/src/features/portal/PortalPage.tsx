@@ -0,0 +1,184 @@
+import { format } from 'date-fns'
+import { fr } from 'date-fns/locale'
+import { Download } from 'lucide-react'
+import { Navigate, useNavigate } from 'react-router-dom'
+
+import { getApiErrorMessage } from '@/lib/api'
+import {
+  clearPortalSession,
+  getPortalSession,
+  useDownloadPortalPdf,
+  usePortalInvoices,
+  usePortalOverview,
+  usePortalQuotes,
+} from './api'
+import type { InvoiceStatus, PortalDocumentKind, PortalSession, QuoteStatus } from './types'
+
+const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  DRAFT: 'Brouillon',
+  SENT: 'À régler',
+  PAID: 'Réglée',
+  OVERDUE: 'En retard',
+  CANCELLED: 'Annulée',
+}
+
+const QUOTE_STATUS_LABELS: Record<QuoteStatus, string> = {
+  DRAFT: 'Brouillon',
+  SENT: 'En attente',
+  ACCEPTED: 'Accepté',
+  DECLINED: 'Refusé',
+  EXPIRED: 'Expiré',
+}
+
+const formatAmount = (amount: number, currency: string) =>
+  new Intl.NumberFormat('fr-FR', { style: 'currency', currency }).format(amount)
+
+const formatDate = (date: string) => format(new Date(date), 'd MMM yyyy', { locale: fr })
+
+/**
+ * Espace client : reste dû, factures, avoirs et devis avec leur PDF
+ */
+export function PortalPage() {
+  const session = getPortalSession()
+
+  if (!session) {
+    return <Navigate to="/portal/login" replace />
+  }
+
+  return <PortalDocuments session={session} />
+}
+
+function PortalDocuments({ session }: { session: PortalSession }) {
+  const navigate = useNavigate()
+
+  const overview = usePortalOverview()
+  const invoices = usePortalInvoices()
+  const quotes = usePortalQuotes()
+  const downloadPdf = useDownloadPortalPdf()
+
+  const download = (kind: PortalDocumentKind, id: string, number: string | null) =>
+    downloadPdf.mutate({ kind, id, fileName: `${number ?? id}.pdf` })
+
+  const handleLogout = () => {
+    clearPortalSession()
+    navigate('/portal/login', { replace: true })
+  }
+
+  const error = overview.error ?? invoices.error ?? quotes.error
+  if (error) {
+    return <p className="p-8 text-red-600">{getApiErrorMessage(error, 'Impossible de charger votre espace client')}</p>
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-6 text-foreground">
+      <header className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">{session.client.company ?? session.client.name}</h1>
+          <p className="text-sm text-muted-foreground">Espace client de {session.issuer}</p>
+        </div>
+        <button type="button" onClick={handleLogout} className="rounded border px-3 py-2 text-sm">
+          Se déconnecter
+        </button>
+      </header>
+
+      <section className="mb-8 grid gap-4 sm:grid-cols-3">
+        {overview.data?.balances.map((balance) => (
+          <div key={balance.currency} className="rounded-lg border bg-card p-4">
+            <p className="text-sm text-muted-foreground">Reste dû ({balance.currency})</p>
+            <p className="text-xl font-semibold">{formatAmount(balance.balanceDue, balance.currency)}</p>
+            {balance.overdueAmount > 0 && (
+              <p className="text-sm text-red-600">dont {formatAmount(balance.overdueAmount, balance.currency)} échu</p>
+            )}
+          </div>
+        ))}
+      </section>
+
+      <section className="mb-8">
+        <h2 className="mb-3 text-lg font-semibold">Factures et avoirs</h2>
+        {!invoices.data ? (
+          <p className="text-muted-foreground">Chargement des factures...</p>
+        ) : (
+          <table className="w-full text-left text-sm">
+            <thead className="text-muted-foreground">
+              <tr>
+                <th className="py-2">Numéro</th>
+                <th>Date</th>
+                <th>Échéance</th>
+                <th>Statut</th>
+                <th className="text-right">Total</th>
+                <th className="text-right">Reste dû</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {invoices.data.map((invoice) => (
+                <tr key={invoice.id} className="border-t">
+                  <td className="py-2">
+                    {invoice.number}
+                    {invoice.type === 'CREDIT_NOTE' && <span className="ml-2 text-muted-foreground">(avoir)</span>}
+                  </td>
+                  <td>{formatDate(invoice.issueDate)}</td>
+                  <td>{invoice.type === 'INVOICE' ? formatDate(invoice.dueDate) : ''}</td>
+                  <td>{INVOICE_STATUS_LABELS[invoice.status]}</td>
+                  <td className="text-right">{formatAmount(invoice.total, invoice.currency)}</td>
+                  <td className="text-right">
+                    {invoice.balance ? formatAmount(invoice.balance.balanceDue, invoice.currency) : ''}
+                  </td>
+                  <td className="text-right">
+                    <button
+                      type="button"
+                      onClick={() => download('invoices', invoice.id, invoice.number)}
+                      aria-label="Télécharger le PDF"
+                    >
+                      <Download className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section>
+        <h2 className="mb-3 text-lg font-semibold">Devis</h2>
+        {!quotes.data ? (
+          <p className="text-muted-foreground">Chargement des devis...</p>
+        ) : (
+          <table className="w-full text-left text-sm">
+            <thead className="text-muted-foreground">
+              <tr>
+                <th className="py-2">Numéro</th>
+                <th>Date</th>
+                <th>Valable jusqu'au</th>
+                <th>Statut</th>
+                <th className="text-right">Total</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {quotes.data.map((quote) => (
+                <tr key={quote.id} className="border-t">
+                  <td className="py-2">{quote.number}</td>
+                  <td>{formatDate(quote.issueDate)}</td>
+                  <td>{formatDate(quote.validUntil)}</td>
+                  <td>{QUOTE_STATUS_LABELS[quote.status]}</td>
+                  <td className="text-right">{formatAmount(quote.total, quote.currency)}</td>
+                  <td className="text-right">
+                    <button
+                      type="button"
+                      onClick={() => download('quotes', quote.id, quote.number)}
+                      aria-label="Télécharger le PDF"
+                    >
+                      <Download className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+import { useMutation, useQuery } from '@tanstack/react-query'
+import axios from 'axios'
+import { toast } from 'sonner'
+
+import { getApiErrorMessage } from '@/lib/api'
+import type { PortalDocumentKind, PortalInvoice, PortalOverview, PortalQuote, PortalSession } from './types'
+
+// Session portail du client, distincte de celle du freelance et limitée à l'onglet
+export const PORTAL_SESSION_KEY = 'freelance-os.portalSession'
+
+export function getPortalSession(): PortalSession | null {
+  const stored = sessionStorage.getItem(PORTAL_SESSION_KEY)
+  if (!stored) {
+    return null
+  }
+  const session = JSON.parse(stored) as PortalSession
+  return new Date(session.expiresAt) > new Date() ? session : null
+}
+
+export function clearPortalSession() {
+  sessionStorage.removeItem(PORTAL_SESSION_KEY)
+}
+
+export const portalApi = axios.create({
+  baseURL: `${import.meta.env.VITE_API_URL ?? ''}/api/v1/portal`,
+})
+
+portalApi.interceptors.request.use((config) => {
+  const session = getPortalSession()
+  if (session) {
+    config.headers.Authorization = `Bearer ${session.token}`
+  }
+  return config
+})
+
+/**
+ * Échange du lien reçu par email (usage unique) contre une session portail
+ */
+export function useVerifyPortalLink() {
+  return useMutation({
+    mutationFn: async (token: string) => {
+      const { data } = await portalApi.post<{ session: PortalSession }>('/auth/verify', { token })
+      sessionStorage.setItem(PORTAL_SESSION_KEY, JSON.stringify(data.session))
+      return data.session
+    },
+  })
+}
+
+export function useRequestPortalLink() {
+  return useMutation({
+    mutationFn: async (email: string) => {
+      const { data } = await portalApi.post<{ message: string }>('/auth/request-link', { email })
+      return data.message
+    },
+    onSuccess: (message) => toast.success(message),
+    onError: (error) => toast.error(getApiErrorMessage(error, 'Impossible d\'envoyer le lien de connexion')),
+  })
+}
+
+export function usePortalOverview() {
+  return useQuery({
+    queryKey: ['portal', 'overview'],
+    queryFn: async () => {
+      const { data } = await portalApi.get<{ overview: PortalOverview }>('/me')
+      return data.overview
+    },
+  })
+}
+
+export function usePortalInvoices() {
+  return useQuery({
+    queryKey: ['portal', 'invoices'],
+    queryFn: async () => {
+      const { data } = await portalApi.get<{ invoices: PortalInvoice[] }>('/invoices')
+      return data.invoices
+    },
+  })
+}
+
+export function usePortalQuotes() {
+  return useQuery({
+    queryKey: ['portal', 'quotes'],
+    queryFn: async () => {
+      const { data } = await portalApi.get<{ quotes: PortalQuote[] }>('/quotes')
+      return data.quotes
+    },
+  })
+}
+
+/**
+ * Téléchargement du PDF d'une facture, d'un avoir ou d'un devis (l'en-tête d'autorisation exclut un simple lien)
+ */
+export function useDownloadPortalPdf() {
+  return useMutation({
+    mutationFn: async ({ kind, id, fileName }: { kind: PortalDocumentKind; id: string; fileName: string }) => {
+      const { data } = await portalApi.get<Blob>(`/${kind}/${id}/pdf`, { responseType: 'blob' })
+      const url = URL.createObjectURL(data)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = fileName
+      link.click()
+      URL.revokeObjectURL(url)
+    },
+    onError: (error) => toast.error(getApiErrorMessage(error, 'Impossible de télécharger le PDF')),
+  })
+}
@@ -0,0 +1,62 @@
+// Réponses de l'API de l'espace client /api/v1/portal (dates sérialisées en ISO)
+
+export type InvoiceStatus = 'DRAFT' | 'SENT' | 'PAID' | 'OVERDUE' | 'CANCELLED'
+export type QuoteStatus = 'DRAFT' | 'SENT' | 'ACCEPTED' | 'DECLINED' | 'EXPIRED'
+
+export interface PortalClient {
+  id: string
+  name: string
+  company: string | null
+}
+
+export interface PortalSession {
+  token: string
+  expiresAt: string
+  client: PortalClient
+  issuer: string
+}
+
+export interface PortalOverview {
+  client: PortalClient
+  issuer: string
+  invoicesCount: number
+  openQuotesCount: number
+  balances: Array<{
+    currency: string
+    balanceDue: number
+    overdueAmount: number
+  }>
+}
+
+export interface PortalInvoice {
+  id: string
+  number: string | null
+  type: 'INVOICE' | 'CREDIT_NOTE'
+  status: InvoiceStatus
+  issueDate: string
+  dueDate: string
+  currency: string
+  total: number
+  // null pour un avoir
+  balance: {
+    total: number
+    paidAmount: number
+    creditedAmount: number
+    balanceDue: number
+    overpayment: number
+  } | null
+}
+
+export interface PortalQuote {
+  id: string
+  number: string | null
+  status: QuoteStatus
+  issueDate: string
+  validUntil: string
+  acceptedAt: string | null
+  currency: string
+  total: number
+}
+
+// Document téléchargeable depuis l'espace client
+export type PortalDocumentKind = 'invoices' | 'quotes'
@@ -0,0 +1,24 @@
+import axios from 'axios'
+
+// Jeton d'accès du freelance, déposé par l'écran de connexion
+export const ACCESS_TOKEN_KEY = 'freelance-os.accessToken'
+
+export const api = axios.create({
+  baseURL: `${import.meta.env.VITE_API_URL ?? ''}/api/v1`,
+})
+
+api.interceptors.request.use((config) => {
+  const token = localStorage.getItem(ACCESS_TOKEN_KEY)
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`
+  }
+  return config
+})
+
+// Message d'erreur renvoyé par l'API ({ error, message }), à défaut un message générique
+export function getApiErrorMessage(error: unknown, fallback: string): string {
+  if (axios.isAxiosError<{ message?: string }>(error) && error.response?.data?.message) {
+    return error.response.data.message
+  }
+  return fallback
+}
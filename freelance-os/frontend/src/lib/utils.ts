@@ -0,0 +1,7 @@
+import { type ClassValue, clsx } from 'clsx'
+import { twMerge } from 'tailwind-merge'
+
+// Fusion des classes Tailwind (les dernières l'emportent)
+export function cn(...inputs: ClassValue[]) {
+  return twMerge(clsx(inputs))
+}